@@ -1,9 +1,15 @@
 import React from 'react'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { NyxOS } from '@/components/os/SamOS'
+import { PresentationAudience } from '@/components/apps/PresentationAudience'
+import { audienceSession } from '@/lib/presentation-sync'
 import NotFound from '@/pages/NotFound'
 
 function App() {
+  // Audience windows opened by Presentations show only the slides
+  const session = audienceSession()
+  if (session) return <PresentationAudience session={session} />
+
   return (
     <BrowserRouter>
       <Routes>
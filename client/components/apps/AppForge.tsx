@@ -2,30 +2,28 @@ import React, { useState, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useSamStore } from '@/store/sam-store'
 import { useWindowStore } from '@/store/window-store'
+import { useAppForgeStore, forgeAppId, GeneratedApp } from '@/store/app-forge-store'
 import { aiService } from '@/services/ai-service'
-import { Zap, Code, Play, Save, Trash2, Loader2, AlertCircle } from 'lucide-react'
+import { launchApp as launchRegisteredApp } from '@/lib/app-launcher'
+import { Zap, Code, Play, Save, Trash2, Loader2, AlertCircle, Pin, PinOff, Eye } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { ForgeAppWindow } from './ForgeAppWindow'
 
 interface AppForgeProps {
   windowId: string
 }
 
-interface GeneratedApp {
-  id: string
-  name: string
-  description: string
-  code: string
-  timestamp: Date
-}
-
 export const AppForge: React.FC<AppForgeProps> = ({ windowId }) => {
   const { addMessage, setEmotion, isThinking, setThinking } = useSamStore()
   const { openWindow } = useWindowStore()
   
   const [prompt, setPrompt] = useState('')
   const [isGenerating, setIsGenerating] = useState(false)
-  const [generatedApps, setGeneratedApps] = useState<GeneratedApp[]>([])
-  const [selectedApp, setSelectedApp] = useState<GeneratedApp | null>(null)
+  const { generatedApps, errors, addApp, deleteApp: removeApp, setPinned } = useAppForgeStore()
+  const [selectedAppId, setSelectedAppId] = useState<string | null>(null)
+  const [view, setView] = useState<'code' | 'preview'>('code')
+  const selectedApp = generatedApps.find(app => app.id === selectedAppId) || null
+  const selectedError = selectedApp ? errors[selectedApp.id] : undefined
   
   const generateApp = async () => {
     if (!prompt.trim() || isGenerating) return
@@ -68,11 +66,11 @@ const MyApp = () => {
         name: appName,
         description: prompt,
         code: response.text,
-        timestamp: new Date()
+        timestamp: Date.now()
       }
 
-      setGeneratedApps(prev => [...prev, newApp])
-      setSelectedApp(newApp)
+      addApp(newApp)
+      setSelectedAppId(newApp.id)
       setPrompt('')
       setIsGenerating(false)
       setThinking(false)
@@ -129,50 +127,48 @@ const MyApp = () => {
     </div>
   )
 }`,
-        timestamp: new Date()
+        timestamp: Date.now()
       }
 
-      setGeneratedApps(prev => [...prev, newApp])
-      setSelectedApp(newApp)
+      addApp(newApp)
+      setSelectedAppId(newApp.id)
       setPrompt('')
     }
   }
   
   const launchApp = (app: GeneratedApp) => {
-    // Create a dynamic component from the code
-    const AppComponent = () => (
-      <div className="h-full">
-        <div className="p-4 text-white">
-          <div className="mb-4">
-            <h3 className="text-lg font-bold">{app.name}</h3>
-            <p className="text-sm text-gray-400">{app.description}</p>
-          </div>
-          <div className="bg-gray-800 p-4 rounded">
-            <div className="text-center text-gray-400">
-              App preview would be rendered here
-              <br />
-              <span className="text-xs">Code: {app.code.slice(0, 100)}...</span>
-            </div>
-          </div>
-        </div>
-      </div>
-    )
-    
-    openWindow({
-      title: app.name,
-      component: AppComponent,
-      position: { x: 300 + Math.random() * 100, y: 200 + Math.random() * 100 },
-      size: { width: 500, height: 400 },
-    })
+    if (app.pinned) {
+      launchRegisteredApp(forgeAppId(app.id))
+    } else {
+      openWindow({
+        appId: forgeAppId(app.id),
+        title: app.name,
+        component: ForgeAppWindow,
+        props: { appId: app.id },
+        position: { x: 300 + Math.random() * 100, y: 200 + Math.random() * 100 },
+        size: { width: 500, height: 400 },
+        mode: 'windowed',
+        isMinimized: false,
+        isMaximized: false,
+        isPinned: false,
+      })
+    }
     
     setEmotion('happy', 0.7)
     addMessage(`Launched ${app.name}! Pretty cool, right? Want me to modify it or build something else?`, 'sam', 'happy')
   }
   
+  const togglePinned = (app: GeneratedApp) => {
+    setPinned(app.id, !app.pinned)
+    if (!app.pinned) {
+      addMessage(`${app.name} is on your desktop now, right next to the real apps.`, 'sam', 'happy')
+    }
+  }
+  
   const deleteApp = (appId: string) => {
-    setGeneratedApps(prev => prev.filter(app => app.id !== appId))
-    if (selectedApp?.id === appId) {
-      setSelectedApp(null)
+    removeApp(appId)
+    if (selectedAppId === appId) {
+      setSelectedAppId(null)
     }
   }
   
@@ -199,14 +195,18 @@ const MyApp = () => {
                     ? "bg-blue-500/20 border-blue-400/30"
                     : "bg-white/5 border-white/10 hover:bg-white/10"
                 )}
-                onClick={() => setSelectedApp(app)}
+                onClick={() => setSelectedAppId(app.id)}
               >
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <div className="text-white text-sm font-medium">{app.name}</div>
+                    <div className="text-white text-sm font-medium flex items-center gap-1">
+                      {app.name}
+                      {app.pinned && <Pin className="w-3 h-3 text-purple-300" />}
+                      {errors[app.id] && <AlertCircle className="w-3 h-3 text-red-400" />}
+                    </div>
                     <div className="text-white/60 text-xs mt-1">{app.description}</div>
                     <div className="text-white/40 text-xs mt-1">
-                      {app.timestamp.toLocaleTimeString()}
+                      {new Date(app.timestamp).toLocaleTimeString()}
                     </div>
                   </div>
                   <button
@@ -276,6 +276,21 @@ const MyApp = () => {
                   <p className="text-white/60 text-sm">{selectedApp.description}</p>
                 </div>
                 <div className="flex gap-2">
+                  <button
+                    onClick={() => setView(view === 'code' ? 'preview' : 'code')}
+                    className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors flex items-center gap-2"
+                  >
+                    {view === 'code' ? <Eye className="w-4 h-4 text-white" /> : <Code className="w-4 h-4 text-white" />}
+                    <span className="text-white text-sm">{view === 'code' ? 'Preview' : 'Code'}</span>
+                  </button>
+                  <button
+                    onClick={() => togglePinned(selectedApp)}
+                    className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors flex items-center gap-2"
+                    title={selectedApp.pinned ? 'Remove from desktop' : 'Pin to desktop'}
+                  >
+                    {selectedApp.pinned ? <PinOff className="w-4 h-4 text-white" /> : <Pin className="w-4 h-4 text-white" />}
+                    <span className="text-white text-sm">{selectedApp.pinned ? 'Unpin' : 'Pin'}</span>
+                  </button>
                   <button
                     onClick={() => launchApp(selectedApp)}
                     className="px-3 py-2 bg-green-500/80 hover:bg-green-500 rounded-lg transition-colors flex items-center gap-2"
@@ -286,15 +301,33 @@ const MyApp = () => {
                 </div>
               </div>
               
-              <div className="flex-1 bg-gray-900/50 rounded-lg border border-white/10 overflow-hidden">
-                <div className="p-3 border-b border-white/10 bg-gray-800/50">
-                  <div className="text-white/80 text-sm font-mono">Generated Code</div>
-                </div>
-                <div className="p-4 h-full overflow-auto">
-                  <pre className="text-green-400 text-xs font-mono whitespace-pre-wrap">
-                    {selectedApp.code}
+              {selectedError && (
+                <div className="mb-4 p-3 rounded-lg border border-red-400/30 bg-red-500/10">
+                  <div className="flex items-center gap-2 text-red-400 text-sm font-medium mb-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {selectedError.kind === 'compile' ? 'Compile error' : 'Runtime error'}
+                  </div>
+                  <pre className="text-red-300 text-xs font-mono whitespace-pre-wrap max-h-32 overflow-auto">
+                    {selectedError.message}
                   </pre>
                 </div>
+              )}
+              
+              <div className="flex-1 bg-gray-900/50 rounded-lg border border-white/10 overflow-hidden flex flex-col">
+                <div className="p-3 border-b border-white/10 bg-gray-800/50">
+                  <div className="text-white/80 text-sm font-mono">{view === 'code' ? 'Generated Code' : 'Live Preview'}</div>
+                </div>
+                {view === 'code' ? (
+                  <div className="p-4 flex-1 overflow-auto">
+                    <pre className="text-green-400 text-xs font-mono whitespace-pre-wrap">
+                      {selectedApp.code}
+                    </pre>
+                  </div>
+                ) : (
+                  <div className="flex-1 min-h-0">
+                    <ForgeAppWindow key={selectedApp.id} appId={selectedApp.id} />
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -17,6 +17,7 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useSamStore } from '@/store/sam-store'
+import { userStorage } from '@/lib/user-storage'
 
 interface CalculationHistory {
   id: string
@@ -38,7 +39,7 @@ export const Calculator: React.FC = () => {
   const [memory, setMemory] = useState(0)
   const [showHistory, setShowHistory] = useState(false)
   const [history, setHistory] = useState<CalculationHistory[]>(() => {
-    const saved = localStorage.getItem('nyx-calculator-history')
+    const saved = userStorage.getItem('nyx-calculator-history')
     return saved ? JSON.parse(saved) : []
   })
   const [isRadian, setIsRadian] = useState(true)
@@ -46,7 +47,7 @@ export const Calculator: React.FC = () => {
 
   // Save history to localStorage whenever it changes
   useEffect(() => {
-    localStorage.setItem('nyx-calculator-history', JSON.stringify(history))
+    userStorage.setItem('nyx-calculator-history', JSON.stringify(history))
   }, [history])
 
   // Keyboard support
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useSamStore } from '@/store/sam-store'
+import { useCalendarStore } from '@/store/calendar-store'
 import { 
   Calendar as CalendarIcon, 
   ChevronLeft, 
@@ -31,31 +32,26 @@ import {
   MoreVertical
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { downloadFile } from '@/lib/download'
+import { dateKey, describeRRule, formatRRule, WEEKDAYS, type Frequency, type RecurrenceRule, type Weekday } from '@/lib/recurrence'
+import { parseICalendar, serializeICalendar } from '@/lib/icalendar'
+import {
+  describeConflicts,
+  fromIcsEvent,
+  migrateEvent,
+  occurrenceKey,
+  occurrencesBetween,
+  ruleOf,
+  toIcsEvent,
+  type CalendarEvent
+} from '@/lib/calendar'
 
 interface CalendarProps {
   windowId: string
 }
 
-interface Event {
-  id: string
-  title: string
-  description?: string
-  date: Date
-  startTime: string
-  endTime: string
-  type: 'meeting' | 'reminder' | 'task' | 'personal' | 'work' | 'appointment'
-  priority: 'low' | 'medium' | 'high' | 'urgent'
-  location?: string
-  attendees?: string[]
-  isRecurring?: boolean
-  recurrenceType?: 'daily' | 'weekly' | 'monthly' | 'yearly'
-  reminders?: number[] // minutes before
-  status: 'upcoming' | 'completed' | 'cancelled'
-  color?: string
-  isAllDay?: boolean
-  created: Date
-  modified: Date
-}
+// The component predates the shared model and still calls it Event
+type Event = CalendarEvent
 
 interface CalendarView {
   type: 'month' | 'week' | 'day' | 'agenda'
@@ -77,6 +73,9 @@ const PRIORITY_COLORS = {
   urgent: '#dc2626'
 }
 
+const AGENDA_DAYS = 30
+const AGENDA_LIMIT = 50
+
 export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
   const { addMessage, setEmotion } = useSamStore()
   
@@ -99,100 +98,16 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
     priority: 'medium' as Event['priority'],
     location: '',
     attendees: [] as string[],
-    isRecurring: false,
-    recurrenceType: 'weekly' as Event['recurrenceType'],
+    recurrence: null as RecurrenceRule | null,
     reminders: [15] as number[],
     isAllDay: false
   })
   
-  const [events, setEvents] = useState<Event[]>(() => {
-    const saved = localStorage.getItem('nyx-calendar-events')
-    if (saved) {
-      return JSON.parse(saved).map((e: any) => ({
-        ...e,
-        date: new Date(e.date),
-        created: new Date(e.created),
-        modified: new Date(e.modified)
-      }))
-    }
-    
-    const now = new Date()
-    const tomorrow = new Date(now)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const nextWeek = new Date(now)
-    nextWeek.setDate(nextWeek.getDate() + 7)
-    
-    return [
-      {
-        id: '1',
-        title: 'Team Standup',
-        description: 'Daily sync with the development team',
-        date: now,
-        startTime: '09:00',
-        endTime: '09:30',
-        type: 'meeting',
-        priority: 'medium',
-        location: 'Conference Room A',
-        attendees: ['john@company.com', 'sarah@company.com'],
-        reminders: [15, 5],
-        status: 'upcoming',
-        created: now,
-        modified: now
-      },
-      {
-        id: '2',
-        title: 'Investor Presentation',
-        description: 'Present Nyx OS to potential investors',
-        date: tomorrow,
-        startTime: '14:00',
-        endTime: '15:30',
-        type: 'work',
-        priority: 'urgent',
-        location: 'Main Conference Room',
-        attendees: ['investors@fund.com', 'ceo@company.com'],
-        reminders: [60, 30, 15],
-        status: 'upcoming',
-        created: now,
-        modified: now
-      },
-      {
-        id: '3',
-        title: 'Doctor Appointment',
-        description: 'Annual checkup',
-        date: nextWeek,
-        startTime: '10:00',
-        endTime: '11:00',
-        type: 'appointment',
-        priority: 'medium',
-        location: 'Medical Center',
-        reminders: [120, 30],
-        status: 'upcoming',
-        created: now,
-        modified: now
-      },
-      {
-        id: '4',
-        title: 'Code Review',
-        description: 'Review pull requests and provide feedback',
-        date: now,
-        startTime: '15:00',
-        endTime: '16:00',
-        type: 'task',
-        priority: 'high',
-        isRecurring: true,
-        recurrenceType: 'daily',
-        reminders: [15],
-        status: 'upcoming',
-        created: now,
-        modified: now
-      }
-    ] as Event[]
-  })
-  
-  // Save events to localStorage
+  const { events, load, addEvent, updateEvent, removeEvent, skipOccurrence: skipEventOccurrence, toggleStatus, importEvents, getConflicts } = useCalendarStore()
+
   useEffect(() => {
-    localStorage.setItem('nyx-calendar-events', JSON.stringify(events))
-  }, [events])
+    load()
+  }, [load])
   
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -231,16 +146,19 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
     return days
   }
   
+  const visibleEvents = useMemo(() => events.filter(event =>
+    (filterType === 'all' || event.type === filterType) &&
+    (searchQuery === '' ||
+     event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+     event.description?.toLowerCase().includes(searchQuery.toLowerCase()))
+  ), [events, filterType, searchQuery])
+
   const getEventsForDate = useCallback((date: Date) => {
-    return events.filter(event => {
-      const eventDate = new Date(event.date)
-      return eventDate.toDateString() === date.toDateString() &&
-             (filterType === 'all' || event.type === filterType) &&
-             (searchQuery === '' || 
-              event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              event.description?.toLowerCase().includes(searchQuery.toLowerCase()))
-    }).sort((a, b) => a.startTime.localeCompare(b.startTime))
-  }, [events, filterType, searchQuery])
+    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+    return occurrencesBetween(visibleEvents, dayStart, dayEnd)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+  }, [visibleEvents])
   
   const getTodayEvents = () => {
     const today = new Date()
@@ -249,18 +167,27 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
   
   const getUpcomingEvents = () => {
     const now = new Date()
-    return events
-      .filter(event => new Date(event.date) >= now && event.status === 'upcoming')
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-      .slice(0, 5)
+    const horizon = new Date(now)
+    horizon.setDate(horizon.getDate() + AGENDA_DAYS)
+    return occurrencesBetween(visibleEvents.filter(event => event.status === 'upcoming'), now, horizon)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(0, AGENDA_LIMIT)
+  }
+
+  const getWeekDays = (date: Date) => {
+    const sunday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay())
+    return Array.from({ length: 7 }, (_, i) => new Date(sunday.getFullYear(), sunday.getMonth(), sunday.getDate() + i))
   }
   
+  // Arrows page by week in the week view and by month otherwise
   const navigateMonth = (direction: 'prev' | 'next') => {
+    const step = direction === 'prev' ? -1 : 1
     const newDate = new Date(currentDate)
-    if (direction === 'prev') {
-      newDate.setMonth(newDate.getMonth() - 1)
+    if (view.type === 'week') {
+      newDate.setDate(newDate.getDate() + step * 7)
+      setSelectedDate(newDate)
     } else {
-      newDate.setMonth(newDate.getMonth() + 1)
+      newDate.setMonth(newDate.getMonth() + step)
     }
     setCurrentDate(newDate)
   }
@@ -281,18 +208,19 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
     }
     
     const event: Event = {
-      id: editingEvent?.id || `event-${Date.now()}`,
+      id: editingEvent?.id || `event-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
       title: newEvent.title,
       description: newEvent.description,
-      date: selectedDate,
+      // A series keeps its first occurrence when edited from a later one
+      date: editingEvent?.rrule && newEvent.recurrence ? editingEvent.date : selectedDate,
       startTime: newEvent.startTime,
       endTime: newEvent.endTime,
       type: newEvent.type,
       priority: newEvent.priority,
       location: newEvent.location,
       attendees: newEvent.attendees,
-      isRecurring: newEvent.isRecurring,
-      recurrenceType: newEvent.recurrenceType,
+      rrule: newEvent.recurrence ? formatRRule(newEvent.recurrence) : undefined,
+      exdates: newEvent.recurrence ? editingEvent?.exdates : undefined,
       reminders: newEvent.reminders,
       status: 'upcoming',
       isAllDay: newEvent.isAllDay,
@@ -300,12 +228,18 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
       modified: new Date()
     }
     
+    const conflicts = getConflicts(event)
+    if (conflicts.length && !window.confirm(`This overlaps ${describeConflicts(conflicts)}. Save anyway?`)) {
+      setEmotion('confused', 0.6)
+      return
+    }
+    
     if (editingEvent) {
-      setEvents(prev => prev.map(e => e.id === editingEvent.id ? event : e))
+      updateEvent(editingEvent.id, event)
       setEmotion('focused', 0.7)
       addMessage(`Updated "${event.title}"! Changes saved successfully!`, 'sam', 'focused')
     } else {
-      setEvents(prev => [...prev, event])
+      addEvent(event, { allowConflicts: true })
       setEmotion('excited', 0.8)
       addMessage(`Created "${event.title}"! Your schedule is looking organized!`, 'sam', 'excited')
     }
@@ -316,14 +250,15 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
   const deleteEvent = (eventId: string) => {
     const event = events.find(e => e.id === eventId)
     if (event && window.confirm(`Delete "${event.title}"?`)) {
-      setEvents(prev => prev.filter(e => e.id !== eventId))
+      removeEvent(eventId)
       setShowEventDetails(null)
       setEmotion('focused', 0.6)
       addMessage(`Deleted "${event.title}". Sometimes we need to clear the schedule!`, 'sam', 'focused')
     }
   }
   
-  const editEvent = (event: Event) => {
+  const editEvent = (occurrence: Event) => {
+    const event = events.find(e => e.id === occurrence.id) ?? occurrence
     setEditingEvent(event)
     setNewEvent({
       title: event.title,
@@ -334,8 +269,7 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
       priority: event.priority,
       location: event.location || '',
       attendees: event.attendees || [],
-      isRecurring: event.isRecurring || false,
-      recurrenceType: event.recurrenceType || 'weekly',
+      recurrence: ruleOf(event),
       reminders: event.reminders || [15],
       isAllDay: event.isAllDay || false
     })
@@ -353,8 +287,7 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
       priority: 'medium',
       location: '',
       attendees: [],
-      isRecurring: false,
-      recurrenceType: 'weekly',
+      recurrence: null,
       reminders: [15],
       isAllDay: false
     })
@@ -362,12 +295,31 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
     setShowEventForm(false)
   }
   
+  const skipOccurrence = (occurrence: Event) => {
+    skipEventOccurrence(occurrence.id, occurrence.date)
+    setShowEventDetails(null)
+    setEmotion('focused', 0.6)
+    addMessage(`Skipped "${occurrence.title}" on ${occurrence.date.toLocaleDateString()}. The rest of the series stays put!`, 'sam', 'focused')
+  }
+
+  const setRecurrence = (updates: Partial<RecurrenceRule> | null) => {
+    setNewEvent(prev => ({
+      ...prev,
+      recurrence: updates === null ? null : { ...(prev.recurrence ?? { freq: 'WEEKLY', interval: 1 }), ...updates }
+    }))
+  }
+
+  // Weekly rules without BYDAY repeat on the weekday of the first occurrence
+  const seriesStart = editingEvent?.rrule ? new Date(editingEvent.date) : selectedDate
+
+  const toggleRecurrenceDay = (day: Weekday) => {
+    const current = newEvent.recurrence?.byDay?.map(d => d.day) ?? [WEEKDAYS[seriesStart.getDay()]]
+    const days = current.includes(day) ? current.filter(d => d !== day) : [...current, day]
+    setRecurrence({ byDay: days.length ? WEEKDAYS.filter(d => days.includes(d)).map(d => ({ day: d })) : undefined })
+  }
+  
   const toggleEventStatus = (eventId: string) => {
-    setEvents(prev => prev.map(e => 
-      e.id === eventId 
-        ? { ...e, status: e.status === 'completed' ? 'upcoming' : 'completed', modified: new Date() }
-        : e
-    ))
+    toggleStatus(eventId)
     
     const event = events.find(e => e.id === eventId)
     if (event) {
@@ -377,38 +329,45 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
   }
   
   const exportCalendar = () => {
-    const calendarData = JSON.stringify(events, null, 2)
-    const blob = new Blob([calendarData], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'nyx-calendar-export.json'
-    a.click()
-    URL.revokeObjectURL(url)
-    
+    const calendarData = serializeICalendar(events.map(toIcsEvent))
+    downloadFile(new Blob([calendarData], { type: 'text/calendar' }), 'nyx-calendar.ics', 'calendar')
     setEmotion('excited', 0.8)
-    addMessage('Calendar exported! Backup is always a smart move!', 'sam', 'excited')
   }
   
+  // Accepts .ics from other calendars and our older JSON exports. Events already
+  // here (same UID) are updated rather than duplicated
   const importCalendar = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
+    event.target.value = ''
     if (file) {
       const reader = new FileReader()
       reader.onload = (e) => {
+        const text = e.target?.result as string
         try {
-          const importedEvents = JSON.parse(e.target?.result as string)
-          setEvents(prev => [...prev, ...importedEvents.map((e: any) => ({
-            ...e,
-            id: `imported-${Date.now()}-${Math.random()}`,
-            date: new Date(e.date),
-            created: new Date(e.created),
-            modified: new Date()
-          }))])
+          let imported: Event[]
+          let warnings: string[] = []
+          if (/^\s*BEGIN:VCALENDAR/i.test(text)) {
+            const result = parseICalendar(text)
+            imported = result.events.map(fromIcsEvent)
+            warnings = result.warnings
+          } else {
+            imported = (JSON.parse(text) as unknown[]).map(migrateEvent).map(e => ({
+              ...e,
+              id: `imported-${Date.now()}-${Math.random()}`,
+              modified: new Date()
+            }))
+          }
+          importEvents(imported)
+          if (warnings.length) console.warn('Calendar import warnings:', warnings)
           setEmotion('excited', 0.9)
-          addMessage(`Imported ${importedEvents.length} events! Welcome to your expanded schedule!`, 'sam', 'excited')
+          addMessage(
+            `Imported ${imported.length} events!${warnings.length ? ` ${warnings.length} things didn't translate perfectly, check the console.` : ' Welcome to your expanded schedule!'}`,
+            'sam',
+            'excited'
+          )
         } catch {
           setEmotion('confused', 0.7)
-          addMessage('Could not import that file. Make sure it\'s a valid calendar export!', 'sam', 'confused')
+          addMessage('Could not import that file. Make sure it\'s an .ics calendar or a Nyx calendar export!', 'sam', 'confused')
         }
       }
       reader.readAsText(file)
@@ -489,7 +448,7 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                 <Upload className="w-4 h-4 text-white/70" />
                 <input
                   type="file"
-                  accept=".json"
+                  accept=".ics,.json,text/calendar"
                   onChange={importCalendar}
                   className="hidden"
                 />
@@ -542,7 +501,9 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                 <ChevronLeft className="w-5 h-5 text-white/70" />
               </button>
               <h2 className="text-lg font-semibold text-white min-w-48 text-center">
-                {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
+                {view.type === 'week'
+                  ? `${getWeekDays(selectedDate)[0].toLocaleDateString()} – ${getWeekDays(selectedDate)[6].toLocaleDateString()}`
+                  : `${monthNames[currentDate.getMonth()]} ${currentDate.getFullYear()}`}
               </h2>
               <button
                 onClick={() => navigateMonth('next')}
@@ -606,7 +567,7 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                       <div className="space-y-1">
                         {dayEvents.slice(0, 3).map((event) => (
                           <motion.div
-                            key={event.id}
+                            key={occurrenceKey(event)}
                             className="text-xs p-1 rounded truncate liquid-glass border border-white/10"
                             style={{ backgroundColor: `${EVENT_COLORS[event.type]}20` }}
                             onClick={(e) => {
@@ -615,7 +576,8 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                             }}
                             whileHover={{ scale: 1.05 }}
                           >
-                            <div className="truncate font-medium text-white">
+                            <div className="truncate font-medium text-white flex items-center gap-1">
+                              {event.rrule && <Repeat className="w-3 h-3 shrink-0 text-white/60" />}
                               {event.title}
                             </div>
                             <div className="text-white/60">
@@ -636,10 +598,13 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
             </div>
           ) : view.type === 'agenda' ? (
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold text-white">Upcoming Events</h3>
+              <h3 className="text-lg font-semibold text-white">Next {AGENDA_DAYS} Days</h3>
+              {upcomingEvents.length === 0 && (
+                <p className="text-white/60 text-sm">Nothing coming up</p>
+              )}
               {upcomingEvents.map((event) => (
                 <motion.div
-                  key={event.id}
+                  key={occurrenceKey(event)}
                   className="p-4 liquid-glass rounded-xl border border-white/10 cursor-pointer"
                   onClick={() => setShowEventDetails(event)}
                   whileHover={{ scale: 1.02 }}
@@ -659,8 +624,9 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                           {event.priority}
                         </span>
                       </div>
-                      <div className="text-white/60 text-sm mb-2">
+                      <div className="text-white/60 text-sm mb-2 flex items-center gap-1">
                         {event.date.toLocaleDateString()} • {event.startTime} - {event.endTime}
+                        {event.rrule && <Repeat className="w-3 h-3 ml-1" />}
                       </div>
                       {event.description && (
                         <p className="text-white/80 text-sm mb-2">{event.description}</p>
@@ -690,6 +656,44 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                 </motion.div>
               ))}
             </div>
+          ) : view.type === 'week' ? (
+            <div className="grid grid-cols-7 gap-2 h-full">
+              {getWeekDays(selectedDate).map((date) => {
+                const isToday = date.toDateString() === new Date().toDateString()
+                return (
+                  <div
+                    key={date.toDateString()}
+                    className={cn(
+                      "rounded-lg border border-white/10 p-2 flex flex-col gap-2 cursor-pointer hover:bg-white/5",
+                      isToday && "bg-purple-500/20 border-purple-400/50",
+                      date.toDateString() === selectedDate.toDateString() && "ring-2 ring-purple-400/50"
+                    )}
+                    onClick={() => setSelectedDate(date)}
+                  >
+                    <div className={cn("text-sm font-medium", isToday ? "text-purple-300" : "text-white")}>
+                      {dayNames[date.getDay()]} {date.getDate()}
+                    </div>
+                    {getEventsForDate(date).map((event) => (
+                      <button
+                        key={occurrenceKey(event)}
+                        className="text-left text-xs p-2 rounded border border-white/10"
+                        style={{ backgroundColor: `${EVENT_COLORS[event.type]}20` }}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          setShowEventDetails(event)
+                        }}
+                      >
+                        <div className="text-white/60">{event.isAllDay ? 'All day' : `${event.startTime} - ${event.endTime}`}</div>
+                        <div className="font-medium text-white flex items-center gap-1">
+                          {event.rrule && <Repeat className="w-3 h-3 shrink-0 text-white/60" />}
+                          <span className="truncate">{event.title}</span>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
           ) : null}
         </div>
       </div>
@@ -705,7 +709,7 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
           <div className="space-y-2 mb-6">
             {getEventsForDate(selectedDate).map((event) => (
               <motion.div
-                key={event.id}
+                key={occurrenceKey(event)}
                 className="p-3 liquid-glass rounded-lg border border-white/10 cursor-pointer"
                 onClick={() => setShowEventDetails(event)}
                 whileHover={{ scale: 1.02 }}
@@ -880,6 +884,103 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                   />
                 </div>
                 
+                <div>
+                  <label className="block text-white/80 text-sm mb-2">Repeat</label>
+                  <select
+                    value={newEvent.recurrence?.freq ?? 'NONE'}
+                    onChange={(e) => setRecurrence(e.target.value === 'NONE' ? null : { freq: e.target.value as Frequency, byDay: undefined })}
+                    className="w-full p-3 liquid-glass rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-400/50"
+                  >
+                    <option value="NONE">Does not repeat</option>
+                    <option value="DAILY">Daily</option>
+                    <option value="WEEKLY">Weekly</option>
+                    <option value="MONTHLY">Monthly</option>
+                    <option value="YEARLY">Yearly</option>
+                  </select>
+                </div>
+                
+                {newEvent.recurrence && (
+                  <div className="space-y-3 p-3 liquid-glass rounded-lg">
+                    <div className="flex items-center gap-2 text-sm text-white/80">
+                      Every
+                      <input
+                        type="number"
+                        min={1}
+                        value={newEvent.recurrence.interval}
+                        onChange={(e) => setRecurrence({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                        className="w-16 p-1 liquid-glass rounded text-white text-center focus:outline-none"
+                      />
+                      {{ DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[newEvent.recurrence.freq]}(s)
+                    </div>
+                    
+                    {newEvent.recurrence.freq === 'WEEKLY' && (
+                      <div className="flex gap-1">
+                        {WEEKDAYS.map((day, i) => {
+                          const active = (newEvent.recurrence.byDay?.map(d => d.day) ?? [WEEKDAYS[seriesStart.getDay()]]).includes(day)
+                          return (
+                            <button
+                              key={day}
+                              onClick={() => toggleRecurrenceDay(day)}
+                              className={cn(
+                                "w-8 h-8 rounded-full text-xs transition-colors",
+                                active ? "bg-purple-600 text-white" : "liquid-glass text-white/60 hover:text-white"
+                              )}
+                            >
+                              {dayNames[i].charAt(0)}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    )}
+                    
+                    <div className="flex items-center gap-2 text-sm text-white/80">
+                      Ends
+                      <select
+                        value={newEvent.recurrence.count ? 'count' : newEvent.recurrence.until ? 'until' : 'never'}
+                        onChange={(e) => {
+                          const until = new Date(selectedDate)
+                          until.setMonth(until.getMonth() + 3)
+                          until.setHours(23, 59, 59, 999)
+                          setRecurrence({
+                            count: e.target.value === 'count' ? 10 : undefined,
+                            until: e.target.value === 'until' ? until : undefined
+                          })
+                        }}
+                        className="p-1 liquid-glass rounded text-white focus:outline-none"
+                      >
+                        <option value="never">Never</option>
+                        <option value="count">After</option>
+                        <option value="until">On</option>
+                      </select>
+                      {newEvent.recurrence.count !== undefined && (
+                        <>
+                          <input
+                            type="number"
+                            min={1}
+                            value={newEvent.recurrence.count}
+                            onChange={(e) => setRecurrence({ count: Math.max(1, Number(e.target.value) || 1) })}
+                            className="w-16 p-1 liquid-glass rounded text-white text-center focus:outline-none"
+                          />
+                          times
+                        </>
+                      )}
+                      {newEvent.recurrence.until && (
+                        <input
+                          type="date"
+                          value={dateKey(newEvent.recurrence.until)}
+                          onChange={(e) => {
+                            const [y, m, d] = e.target.value.split('-').map(Number)
+                            if (y) setRecurrence({ until: new Date(y, m - 1, d, 23, 59, 59, 999) })
+                          }}
+                          className="p-1 liquid-glass rounded text-white focus:outline-none"
+                        />
+                      )}
+                    </div>
+                    
+                    <p className="text-xs text-white/60">{describeRRule(newEvent.recurrence)}</p>
+                  </div>
+                )}
+                
                 <div className="flex gap-4 pt-4">
                   <button
                     onClick={resetEventForm}
@@ -951,6 +1052,13 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                   </span>
                 </div>
                 
+                {showEventDetails.rrule && ruleOf(showEventDetails) && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Repeat className="w-4 h-4 text-white/60" />
+                    <span className="text-white/80">{describeRRule(ruleOf(showEventDetails))}</span>
+                  </div>
+                )}
+                
                 {showEventDetails.location && (
                   <div className="flex items-center gap-2 text-sm">
                     <MapPin className="w-4 h-4 text-white/60" />
@@ -993,6 +1101,15 @@ export const Calendar: React.FC<CalendarProps> = ({ windowId }) => {
                   <Check className="w-4 h-4" />
                   {showEventDetails.status === 'completed' ? 'Completed' : 'Mark Done'}
                 </button>
+                {showEventDetails.rrule && (
+                  <button
+                    onClick={() => skipOccurrence(showEventDetails)}
+                    className="px-3 py-2 liquid-glass rounded-lg text-white/80 hover:bg-white/10 transition-colors text-sm"
+                    title="Remove only this occurrence"
+                  >
+                    Skip date
+                  </button>
+                )}
                 <button
                   onClick={() => deleteEvent(showEventDetails.id)}
                   className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 rounded-lg text-red-400 transition-colors"
@@ -8,7 +8,9 @@ import {
   ArrowLeft, MoreHorizontal, Edit, Trash2
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { saveCameraCapture } from '@/lib/media-storage'
 import { usePerformanceManager } from '@/hooks/usePerformanceManager'
+import { downloadFile } from '@/lib/download'
 
 interface CapturedMedia {
   id: string
@@ -163,6 +165,7 @@ export const CameraApp: React.FC = () => {
     // Convert to blob and create URL
     canvas.toBlob((blob) => {
       if (blob) {
+        saveCameraCapture(blob, 'photo').catch(error => console.error('Failed to save photo:', error))
         const url = URL.createObjectURL(blob)
         const newPhoto: CapturedMedia = {
           id: Date.now().toString(),
@@ -220,6 +223,7 @@ export const CameraApp: React.FC = () => {
 
         mediaRecorder.onstop = () => {
           const blob = new Blob(chunks, { type: 'video/mp4' })
+          saveCameraCapture(blob, 'video').catch(error => console.error('Failed to save video:', error))
           const url = URL.createObjectURL(blob)
           const newVideo: CapturedMedia = {
             id: Date.now().toString(),
@@ -288,12 +292,7 @@ export const CameraApp: React.FC = () => {
 
   // Download media
   const downloadMedia = (media: CapturedMedia) => {
-    const link = document.createElement('a')
-    link.href = media.url
-    link.download = `nyx_camera_${media.id}.${media.type === 'photo' ? 'jpg' : 'mp4'}`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+    downloadFile(media.url, `nyx_camera_${media.id}.${media.type === 'photo' ? 'jpg' : 'mp4'}`, 'camera')
   }
 
   return (
@@ -1,9 +1,11 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Bold,
   Italic,
   Underline,
+  Strikethrough,
+  Link,
   AlignLeft,
   AlignCenter,
   AlignRight,
@@ -12,160 +14,520 @@ import {
   Heading1,
   Heading2,
   Heading3,
+  Pilcrow,
+  Table,
+  Image as ImageIcon,
+  SeparatorHorizontal,
   Plus,
   Download,
+  FolderOpen,
   FileText,
-  MoreVertical,
-  Palette,
-  Type,
+  Trash2,
+  RotateCcw,
+  RotateCw,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { safeUrl } from '@/lib/markdown'
+import { parseHtml } from '@/lib/html'
+import {
+  createDocument,
+  parseDocument,
+  serializeDocument,
+  NYX_DOCUMENT_EXTENSION,
+  NativeFormatError,
+  type DocumentBlockType,
+  type NyxDocument,
+  type NyxDocumentBlock,
+  type TextRun,
+} from '@/lib/native-formats'
+import {
+  blockRuns,
+  documentToMarkdown,
+  htmlToRuns,
+  imageBlock,
+  isTextBlock,
+  markdownToDocument,
+  pageBreakBlock,
+  runsToHtml,
+  tableBlock,
+  textBlock,
+} from '@/lib/document-model'
+import { ConversionError, convertText, documentToHtml, formatForFile } from '@/lib/file-conversion'
+import { DOCX_MIME_TYPE, documentToDocx } from '@/lib/docx'
+import {
+  StoredDocumentInfo,
+  createStoredDocument,
+  deleteStoredDocument,
+  listDocuments,
+  loadDocument,
+  saveStoredDocument,
+} from '@/lib/document-storage'
+import { downloadFile } from '@/lib/download'
+import { RecordOptions } from '@/lib/undo-history'
+import { useUndoableState } from '@/hooks/useUndoableState'
+
+type EditorBlock = NyxDocumentBlock & { id: string }
+type EditorContent = { name: string; blocks: EditorBlock[] }
+type SaveState = 'saved' | 'unsaved' | 'saving' | 'error'
+
+const AUTOSAVE_DELAY_MS = 800
+
+let nextBlockId = 0
+const withId = (block: NyxDocumentBlock): EditorBlock => ({ ...block, id: `block-${++nextBlockId}` })
+const withoutId = ({ id: _id, ...block }: EditorBlock): NyxDocumentBlock => block
+
+const WELCOME_DOCUMENT = createDocument('Untitled Document', [
+  textBlock('heading1', [{ text: 'Welcome to Document Editor' }]),
+  textBlock('paragraph', [
+    { text: 'Start typing to create your document. Select text to make it ' },
+    { text: 'bold', bold: true },
+    { text: ', ' },
+    { text: 'italic', italic: true },
+    { text: ' or a link, and add tables, images and page breaks from the toolbar. Documents save to your Documents folder as you type.' },
+  ]),
+])
 
-interface TextStyle {
-  bold: boolean
-  italic: boolean
-  underline: boolean
-  alignment: 'left' | 'center' | 'right'
-  fontSize: number
-  fontFamily: string
-  color: string
+const BLOCK_STYLES: Record<string, React.CSSProperties> = {
+  heading1: { fontSize: 28, fontWeight: 'bold', marginTop: 24, marginBottom: 16, color: '#e0e7ff' },
+  heading2: { fontSize: 22, fontWeight: 'bold', marginTop: 18, marginBottom: 12, color: '#e0e7ff' },
+  heading3: { fontSize: 18, fontWeight: 'bold', marginTop: 12, marginBottom: 8, color: '#e0e7ff' },
+  paragraph: { fontSize: 14, marginBottom: 12, lineHeight: 1.6, color: '#d1d5db' },
+  list: { fontSize: 14, marginBottom: 4, lineHeight: 1.6, color: '#d1d5db' },
+  'ordered-list': { fontSize: 14, marginBottom: 4, lineHeight: 1.6, color: '#d1d5db' },
 }
 
-interface DocumentSection {
-  id: string
-  type: 'heading1' | 'heading2' | 'heading3' | 'paragraph' | 'list' | 'ordered-list'
-  content: string
-  style: Partial<TextStyle>
+const PLACEHOLDERS: Partial<Record<DocumentBlockType, string>> = {
+  heading1: 'Heading 1',
+  heading2: 'Heading 2',
+  heading3: 'Heading 3',
+  paragraph: 'Start typing here...',
+  list: 'List item',
+  'ordered-list': 'List item',
 }
 
-export const DocumentEditor: React.FC<{ windowId?: string }> = ({ windowId }) => {
-  const [documents, setDocuments] = useState([
-    { id: '1', name: 'Untitled Document', lastModified: new Date() }
-  ])
-  const [activeDocId, setActiveDocId] = useState('1')
-  const [sections, setSections] = useState<Record<string, DocumentSection[]>>({
-    '1': [
-      {
-        id: 'sec-1',
-        type: 'heading1',
-        content: 'Welcome to Document Editor',
-        style: { fontSize: 28, bold: true, color: '#e0e7ff' }
-      },
-      {
-        id: 'sec-2',
-        type: 'paragraph',
-        content: 'Start typing to create your document. Use the formatting tools above to style your text.',
-        style: { fontSize: 14, color: '#d1d5db' }
-      }
-    ]
+// The contents of an editable element as runs; a lone <br> left behind by the browser is no content
+const readRuns = (html: string): TextRun[] => {
+  const runs = htmlToRuns(parseHtml(html))
+  return runs.length === 1 && runs[0].text === '\n' ? [] : runs
+}
+
+// Cuts everything after the caret out of `element`, returning the runs before and after it
+const splitAtCaret = (element: HTMLElement): [TextRun[], TextRun[]] => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || !element.contains(selection.anchorNode)) return [readRuns(element.innerHTML), []]
+  const range = selection.getRangeAt(0)
+  range.deleteContents()
+  const tail = document.createRange()
+  tail.setStart(range.endContainer, range.endOffset)
+  tail.setEnd(element, element.childNodes.length)
+  const holder = document.createElement('div')
+  holder.appendChild(tail.extractContents())
+  return [readRuns(element.innerHTML), readRuns(holder.innerHTML)]
+}
+
+const isCaretAtStart = (element: HTMLElement) => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return false
+  const range = document.createRange()
+  range.setStart(element, 0)
+  range.setEnd(selection.anchorNode!, selection.anchorOffset)
+  return range.toString() === ''
+}
+
+const placeCaret = (element: HTMLElement, atEnd: boolean) => {
+  element.focus()
+  const range = document.createRange()
+  range.selectNodeContents(element)
+  range.collapse(!atEnd)
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+interface RichTextProps {
+  runs: TextRun[]
+  onChange: (runs: TextRun[]) => void
+  placeholder?: string
+  className?: string
+  style?: React.CSSProperties
+  onFocus?: () => void
+  onKeyDown?: (event: React.KeyboardEvent<HTMLDivElement>) => void
+  elementRef?: (element: HTMLDivElement | null) => void
+}
+
+// A contentEditable showing formatted runs. The DOM is only rewritten when the
+// runs change from outside, so typing never moves the caret.
+const RichText: React.FC<RichTextProps> = ({ runs, onChange, placeholder, className, style, onFocus, onKeyDown, elementRef }) => {
+  const ref = useRef<HTMLDivElement | null>(null)
+  const renderedHtml = useRef<string | null>(null)
+  const html = runsToHtml(runs)
+
+  useLayoutEffect(() => {
+    if (ref.current && html !== renderedHtml.current) {
+      ref.current.innerHTML = html
+      renderedHtml.current = html
+    }
+  }, [html])
+
+  const handleInput = () => {
+    const next = readRuns(ref.current!.innerHTML)
+    renderedHtml.current = runsToHtml(next)
+    onChange(next)
+  }
+
+  return (
+    <div
+      ref={(element) => {
+        ref.current = element
+        elementRef?.(element)
+      }}
+      contentEditable
+      suppressContentEditableWarning
+      data-placeholder={placeholder}
+      onInput={handleInput}
+      onFocus={onFocus}
+      onKeyDown={onKeyDown}
+      onPaste={(e) => {
+        // Pasted formatting from other apps is dropped; the text goes in as typed
+        e.preventDefault()
+        document.execCommand('insertText', false, e.clipboardData.getData('text/plain'))
+      }}
+      className={cn(
+        'outline-none whitespace-pre-wrap break-words empty:before:content-[attr(data-placeholder)] empty:before:text-white/30',
+        '[&_a]:text-purple-300 [&_a]:underline [&_code]:font-mono [&_code]:bg-white/10 [&_code]:px-1 [&_code]:rounded',
+        className
+      )}
+      style={style}
+    />
+  )
+}
+
+interface TableEditorProps {
+  rows: TextRun[][][]
+  // `typing` is set for edits within a cell, as opposed to adding or removing rows and columns
+  onChange: (rows: TextRun[][][], typing?: boolean) => void
+  onFocus: () => void
+}
+
+const TableEditor: React.FC<TableEditorProps> = ({ rows, onChange, onFocus }) => {
+  const columns = Math.max(1, ...rows.map(row => row.length))
+  const updateCell = (r: number, c: number, runs: TextRun[]) =>
+    onChange(rows.map((row, i) => (i === r ? Array.from({ length: columns }, (_, j) => (j === c ? runs : row[j] || [])) : row)), true)
+  const tableButton = 'px-2 py-1 rounded text-xs text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30'
+
+  return (
+    <div className="mb-4">
+      <table className="w-full border-collapse text-sm text-gray-200">
+        <tbody>
+          {rows.map((row, r) => (
+            <tr key={r}>
+              {Array.from({ length: columns }, (_, c) => (
+                <td key={c} className={cn('border border-purple-400/30 px-2 py-1 align-top', r === 0 && 'font-semibold bg-white/5')}>
+                  <RichText runs={row[c] || []} onChange={(runs) => updateCell(r, c, runs)} onFocus={onFocus} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button className={tableButton} onClick={() => onChange([...rows, Array.from({ length: columns }, () => [])])}>+ Row</button>
+        <button className={tableButton} onClick={() => onChange(rows.map(row => [...row, []]))}>+ Column</button>
+        <button className={tableButton} disabled={rows.length <= 1} onClick={() => onChange(rows.slice(0, -1))}>− Row</button>
+        <button className={tableButton} disabled={columns <= 1} onClick={() => onChange(rows.map(row => row.slice(0, columns - 1)))}>− Column</button>
+      </div>
+    </div>
+  )
+}
+
+export const DocumentEditor: React.FC<{ windowId?: string; path?: string }> = ({ windowId, path: initialPath }) => {
+  const [documents, setDocuments] = useState<StoredDocumentInfo[]>([])
+  const [activePath, setActivePath] = useState<string | null>(null)
+  const [saveState, setSaveState] = useState<SaveState>('saved')
+  const isDirty = useRef(false)
+  const {
+    state: { name, blocks },
+    setState: setContent,
+    reset: resetContent,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<EditorContent>({ name: '', blocks: [] }, {
+    windowId,
+    onRestore: () => {
+      isDirty.current = true
+      setSaveState('unsaved')
+    },
   })
-  const [selectedStyle, setSelectedStyle] = useState<Partial<TextStyle>>({
-    bold: false,
-    italic: false,
-    underline: false,
-    alignment: 'left',
-    fontSize: 14,
-    fontFamily: 'Inter',
-    color: '#d1d5db'
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [showExport, setShowExport] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const openInputRef = useRef<HTMLInputElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const blockElements = useRef(new Map<string, HTMLDivElement>())
+  const pendingFocus = useRef<{ id: string; atEnd: boolean } | null>(null)
+
+  const activeDoc = documents.find(d => d.path === activePath)
+  const currentDocument = useCallback(
+    (): NyxDocument => createDocument(name.trim() || 'Untitled Document', blocks.map(withoutId)),
+    [name, blocks]
+  )
+
+  const refreshDocuments = useCallback(async () => setDocuments(await listDocuments()), [])
+
+  const save = useCallback(async () => {
+    if (!activePath || !isDirty.current) return
+    isDirty.current = false
+    setSaveState('saving')
+    try {
+      const info = await saveStoredDocument(activePath, currentDocument())
+      setActivePath(info.path)
+      setSaveState(isDirty.current ? 'unsaved' : 'saved')
+      await refreshDocuments()
+    } catch (e) {
+      console.error('Failed to save document:', e)
+      isDirty.current = true
+      setSaveState('error')
+    }
+  }, [activePath, currentDocument, refreshDocuments])
+
+  const edit = (update: (blocks: EditorBlock[]) => EditorBlock[], options?: RecordOptions) => {
+    isDirty.current = true
+    setSaveState('unsaved')
+    setContent(content => ({ ...content, blocks: update(content.blocks) }), options)
+  }
+
+  const show = (path: string, doc: NyxDocument) => {
+    isDirty.current = false
+    setActivePath(path)
+    resetContent({ name: doc.name, blocks: doc.blocks.map(withId) })
+    setSaveState('saved')
+    setFocusedId(null)
+  }
+
+  const openStored = async (path: string) => {
+    await save()
+    try {
+      show(path, await loadDocument(path))
+      setError(null)
+    } catch (e) {
+      if (!(e instanceof NativeFormatError)) throw e
+      setError(`${path.split('/').pop()} can't be opened: ${e.message}`)
+    }
+  }
+
+  const addStored = async (doc: NyxDocument) => {
+    await save()
+    const info = await createStoredDocument(doc)
+    show(info.path, doc)
+    await refreshDocuments()
+  }
+
+  // First run: open the requested file, else the latest document, else a welcome document.
+  // It runs once on mount with the first render's handlers, which the ref holds on to.
+  const loadInitialDocument = useRef(async () => {
+    const stored = await listDocuments()
+    setDocuments(stored)
+    const path = initialPath ?? stored[0]?.path
+    if (path) await openStored(path)
+    else await addStored(WELCOME_DOCUMENT)
   })
-  const [activeFormat, setActiveFormat] = useState<string | null>(null)
-  const editorRef = useRef<HTMLDivElement>(null)
-
-  const activeDoc = documents.find(d => d.id === activeDocId)
-  const activeContent = sections[activeDocId] || []
-
-  const updateSection = (sectionId: string, content: string, type?: DocumentSection['type']) => {
-    setSections(prev => ({
-      ...prev,
-      [activeDocId]: prev[activeDocId].map(s =>
-        s.id === sectionId ? { ...s, content, type: type || s.type } : s
-      )
-    }))
+
+  useEffect(() => {
+    loadInitialDocument.current().catch(e => console.error('Failed to load documents:', e))
+  }, [])
+
+  useEffect(() => {
+    if (saveState !== 'unsaved') return
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [name, blocks, saveState, save])
+
+  useEffect(() => {
+    const focus = pendingFocus.current
+    const element = focus && blockElements.current.get(focus.id)
+    if (!element) return
+    pendingFocus.current = null
+    placeCaret(element, focus.atEnd)
+  }, [blocks])
+
+  const updateBlock = (id: string, update: (block: EditorBlock) => NyxDocumentBlock, options?: RecordOptions) =>
+    edit(prev => prev.map(b => (b.id === id ? { ...update(b), id } : b)), options)
+
+  // Typing into one block undoes as a single step
+  const typeInBlock = (id: string, update: (block: EditorBlock) => NyxDocumentBlock) =>
+    updateBlock(id, update, { coalesce: `typing:${id}` })
+
+  const insertBlocks = (newBlocks: NyxDocumentBlock[], afterId = focusedId) => {
+    const inserted = newBlocks.map(withId)
+    const focusTarget = inserted.find(isTextBlock)
+    if (focusTarget) pendingFocus.current = { id: focusTarget.id, atEnd: false }
+    edit(prev => {
+      const index = prev.findIndex(b => b.id === afterId)
+      const at = index < 0 ? prev.length : index + 1
+      return [...prev.slice(0, at), ...inserted, ...prev.slice(at)]
+    })
   }
 
-  const addSection = (type: DocumentSection['type']) => {
-    const newSection: DocumentSection = {
-      id: `sec-${Date.now()}`,
-      type,
-      content: '',
-      style: selectedStyle
+  const deleteBlock = (id: string) => edit(prev => prev.filter(b => b.id !== id))
+
+  // Heading and list buttons restyle the text block being edited, or add one
+  const setBlockType = (type: DocumentBlockType) => {
+    const focused = blocks.find(b => b.id === focusedId)
+    if (focused && isTextBlock(focused)) {
+      pendingFocus.current = { id: focused.id, atEnd: true }
+      updateBlock(focused.id, b => textBlock(type, blockRuns(b), b.style))
+    } else {
+      insertBlocks([textBlock(type, [])])
     }
-    setSections(prev => ({
-      ...prev,
-      [activeDocId]: [...(prev[activeDocId] || []), newSection]
-    }))
-    setActiveFormat(null)
   }
 
-  const deleteSection = (sectionId: string) => {
-    setSections(prev => ({
-      ...prev,
-      [activeDocId]: prev[activeDocId].filter(s => s.id !== sectionId)
-    }))
+  const setAlignment = (alignment: 'left' | 'center' | 'right') => {
+    const focused = blocks.find(b => b.id === focusedId)
+    if (!focused || !isTextBlock(focused)) return
+    updateBlock(focused.id, b => textBlock(b.type, blockRuns(b), alignment === 'left' ? undefined : { ...b.style, alignment }))
   }
 
-  const createNewDocument = () => {
-    const newId = `doc-${Date.now()}`
-    setDocuments(prev => [...prev, { id: newId, name: 'Untitled Document', lastModified: new Date() }])
-    setSections(prev => ({
-      ...prev,
-      [newId]: [{ id: 'sec-1', type: 'paragraph', content: '', style: selectedStyle }]
-    }))
-    setActiveDocId(newId)
+  // Inline formatting applies to the selection in whichever block has it
+  const format = (command: 'bold' | 'italic' | 'underline' | 'strikeThrough') => document.execCommand(command)
+
+  const addLink = () => {
+    const selection = window.getSelection()
+    if (!selection || selection.isCollapsed) return
+    const range = selection.getRangeAt(0)
+    const url = prompt('Link address:', 'https://')
+    if (!url) return
+    selection.removeAllRanges()
+    selection.addRange(range)
+    const href = safeUrl(url)
+    if (href) document.execCommand('createLink', false, href)
+    else setError('Links must be web or email addresses')
   }
 
-  const exportAsHTML = () => {
-    const html = activeContent.map(section => {
-      const tagMap = {
-        'heading1': 'h1',
-        'heading2': 'h2',
-        'heading3': 'h3',
-        'paragraph': 'p',
-        'list': 'ul',
-        'ordered-list': 'ol'
+  const handleTextKeyDown = (block: EditorBlock) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const element = e.currentTarget
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      const isList = block.type === 'list' || block.type === 'ordered-list'
+      if (isList && !element.textContent) {
+        // Enter on an empty list item ends the list
+        updateBlock(block.id, b => textBlock('paragraph', [], b.style))
+        return
       }
-      const tag = tagMap[section.type]
-      const style = `style="font-size: ${section.style.fontSize}px; font-weight: ${section.style.bold ? 'bold' : 'normal'}; font-style: ${section.style.italic ? 'italic' : 'normal'}; text-align: ${section.style.alignment}; color: ${section.style.color};"`
-      return `<${tag} ${style}>${section.content}</${tag}>`
-    }).join('\n')
-
-    const blob = new Blob([html], { type: 'text/html' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${activeDoc?.name || 'document'}.html`
-    a.click()
+      const [before, after] = splitAtCaret(element)
+      const next = withId(textBlock(isList ? block.type : 'paragraph', after))
+      pendingFocus.current = { id: next.id, atEnd: false }
+      edit(prev => prev.flatMap(b => (b.id === block.id ? [{ ...textBlock(b.type, before, b.style), id: b.id }, next] : [b])))
+    } else if (e.key === 'Backspace' && isCaretAtStart(element)) {
+      const index = blocks.findIndex(b => b.id === block.id)
+      const previous = blocks[index - 1]
+      if (!previous || !isTextBlock(previous)) {
+        if (!element.textContent && index > 0) deleteBlock(block.id)
+        return
+      }
+      // Joins the block onto the end of the one before it
+      e.preventDefault()
+      pendingFocus.current = { id: previous.id, atEnd: true }
+      edit(prev => prev
+        .filter(b => b.id !== block.id)
+        .map(b => (b.id === previous.id ? { ...textBlock(b.type, [...blockRuns(b), ...blockRuns(block)], b.style), id: b.id } : b)))
+    }
   }
 
-  const getHeadingStyle = (type: string): React.CSSProperties => {
-    const styles: Record<string, React.CSSProperties> = {
-      'heading1': { fontSize: 28, fontWeight: 'bold', marginTop: 24, marginBottom: 16, color: '#e0e7ff' },
-      'heading2': { fontSize: 22, fontWeight: 'bold', marginTop: 18, marginBottom: 12, color: '#e0e7ff' },
-      'heading3': { fontSize: 18, fontWeight: 'bold', marginTop: 12, marginBottom: 8, color: '#e0e7ff' },
-      'paragraph': { fontSize: 14, marginBottom: 12, lineHeight: 1.6, color: '#d1d5db' },
-      'list': { marginLeft: 24, marginBottom: 12, color: '#d1d5db' },
-      'ordered-list': { marginLeft: 24, marginBottom: 12, color: '#d1d5db' }
+  const insertImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const src = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(file)
+    })
+    insertBlocks([imageBlock(src, file.name.replace(/\.[^.]+$/, ''))])
+  }
+
+  // Opens a .nyxdoc, or converts Markdown, HTML and text files into a new document
+  const openDocument = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      const format = formatForFile(file.name)
+      const doc =
+        format === 'md' ? markdownToDocument(text, file.name.replace(/\.[^.]+$/, '')) :
+        format === 'nyxdoc' || !format ? parseDocument(text) :
+        parseDocument(convertText(format, 'nyxdoc', text, file.name))
+      await addStored(doc)
+      setError(null)
+    } catch (error) {
+      if (!(error instanceof NativeFormatError || error instanceof ConversionError)) throw error
+      setError(`${file.name} can't be opened: ${error.message}`)
     }
-    return styles[type] || styles['paragraph']
   }
 
+  const exportAs = (kind: 'md' | 'html' | 'docx' | 'nyxdoc') => {
+    const doc = currentDocument()
+    const blob =
+      kind === 'md' ? new Blob([documentToMarkdown(doc)], { type: 'text/markdown' }) :
+      kind === 'html' ? new Blob([documentToHtml(doc)], { type: 'text/html' }) :
+      kind === 'docx' ? new Blob([documentToDocx(doc).buffer as ArrayBuffer], { type: DOCX_MIME_TYPE }) :
+      new Blob([serializeDocument(doc)], { type: 'application/json' })
+    downloadFile(blob, `${doc.name}.${kind === 'nyxdoc' ? NYX_DOCUMENT_EXTENSION : kind}`, 'document-editor')
+    setShowExport(false)
+  }
+
+  const removeDocument = async (path: string) => {
+    isDirty.current = false
+    await deleteStoredDocument(path)
+    const remaining = await listDocuments()
+    setDocuments(remaining)
+    if (path !== activePath) return
+    if (remaining[0]) await openStored(remaining[0].path)
+    else await addStored(createDocument('Untitled Document', [textBlock('paragraph', [])]))
+  }
+
+  const toolbarButton = 'p-2 hover:bg-white/20 rounded transition-colors text-white'
+  // Toolbar buttons must not take focus away from the text whose selection they format
+  const keepSelection = (e: React.MouseEvent) => e.preventDefault()
+
+  let listNumber = 0
+
   return (
     <div className="w-full h-full flex flex-col bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
       {/* Header */}
       <motion.div
-        className="glass-purple-dark px-6 py-4 border-b border-purple-400/20 flex items-center justify-between"
+        className="glass-purple-dark px-6 py-4 border-b border-purple-400/20 flex items-center justify-between gap-4"
         initial={{ opacity: 0, y: -20 }}
         animate={{ opacity: 1, y: 0 }}
       >
-        <div className="flex items-center gap-3">
-          <FileText className="w-6 h-6 text-purple-400" />
-          <div>
-            <h2 className="text-white font-semibold">{activeDoc?.name || 'Document'}</h2>
-            <p className="text-white/60 text-xs">Last modified: {activeDoc?.lastModified.toLocaleDateString()}</p>
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <FileText className="w-6 h-6 text-purple-400 shrink-0" />
+          <div className="min-w-0 flex-1">
+            <input
+              value={name}
+              onChange={(e) => {
+                isDirty.current = true
+                setSaveState('unsaved')
+                setContent(content => ({ ...content, name: e.target.value }), { coalesce: 'name' })
+              }}
+              placeholder="Untitled Document"
+              aria-label="Document name"
+              className="w-full bg-transparent outline-none text-white font-semibold placeholder:text-white/40"
+            />
+            <p className="text-white/60 text-xs">
+              {saveState === 'saving' ? 'Saving…' :
+                saveState === 'unsaved' ? 'Unsaved changes' :
+                saveState === 'error' ? 'Could not save' :
+                activeDoc ? `Saved to Documents · ${activeDoc.modified.toLocaleString()}` : ''}
+            </p>
           </div>
         </div>
         <button
-          onClick={createNewDocument}
+          onClick={() => addStored(createDocument('Untitled Document', [textBlock('paragraph', [])]))}
           className="p-2 hover:bg-white/10 rounded-lg transition-colors"
           title="New Document"
         >
@@ -181,152 +543,238 @@ export const DocumentEditor: React.FC<{ windowId?: string }> = ({ windowId }) =>
         transition={{ delay: 0.1 }}
       >
         <div className="flex gap-1 border-r border-purple-400/20 pr-3">
-          <button className="p-2 hover:bg-white/20 rounded transition-colors text-white" title="Bold">
+          <button onClick={undo} disabled={!canUndo} className={cn(toolbarButton, 'disabled:opacity-40')} title="Undo (Ctrl+Z)">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={redo} disabled={!canRedo} className={cn(toolbarButton, 'disabled:opacity-40')} title="Redo (Ctrl+Shift+Z)">
+            <RotateCw className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 border-r border-purple-400/20 pr-3" onMouseDown={keepSelection}>
+          <button onClick={() => format('bold')} className={toolbarButton} title="Bold (Ctrl+B)">
             <Bold className="w-4 h-4" />
           </button>
-          <button className="p-2 hover:bg-white/20 rounded transition-colors text-white" title="Italic">
+          <button onClick={() => format('italic')} className={toolbarButton} title="Italic (Ctrl+I)">
             <Italic className="w-4 h-4" />
           </button>
-          <button className="p-2 hover:bg-white/20 rounded transition-colors text-white" title="Underline">
+          <button onClick={() => format('underline')} className={toolbarButton} title="Underline (Ctrl+U)">
             <Underline className="w-4 h-4" />
           </button>
+          <button onClick={() => format('strikeThrough')} className={toolbarButton} title="Strikethrough">
+            <Strikethrough className="w-4 h-4" />
+          </button>
+          <button onClick={addLink} className={toolbarButton} title="Link">
+            <Link className="w-4 h-4" />
+          </button>
         </div>
 
-        <div className="flex gap-1 border-r border-purple-400/20 pr-3">
-          <button className="p-2 hover:bg-white/20 rounded transition-colors text-white" title="Align Left">
+        <div className="flex gap-1 border-r border-purple-400/20 pr-3" onMouseDown={keepSelection}>
+          <button onClick={() => setAlignment('left')} className={toolbarButton} title="Align Left">
             <AlignLeft className="w-4 h-4" />
           </button>
-          <button className="p-2 hover:bg-white/20 rounded transition-colors text-white" title="Align Center">
+          <button onClick={() => setAlignment('center')} className={toolbarButton} title="Align Center">
             <AlignCenter className="w-4 h-4" />
           </button>
-          <button className="p-2 hover:bg-white/20 rounded transition-colors text-white" title="Align Right">
+          <button onClick={() => setAlignment('right')} className={toolbarButton} title="Align Right">
             <AlignRight className="w-4 h-4" />
           </button>
         </div>
 
-        <div className="flex gap-1 border-r border-purple-400/20 pr-3">
-          <button
-            onClick={() => addSection('heading1')}
-            className="p-2 hover:bg-white/20 rounded transition-colors text-white text-xs font-semibold"
-            title="Heading 1"
-          >
+        <div className="flex gap-1 border-r border-purple-400/20 pr-3" onMouseDown={keepSelection}>
+          <button onClick={() => setBlockType('heading1')} className={toolbarButton} title="Heading 1">
             <Heading1 className="w-4 h-4" />
           </button>
-          <button
-            onClick={() => addSection('heading2')}
-            className="p-2 hover:bg-white/20 rounded transition-colors text-white text-xs font-semibold"
-            title="Heading 2"
-          >
+          <button onClick={() => setBlockType('heading2')} className={toolbarButton} title="Heading 2">
             <Heading2 className="w-4 h-4" />
           </button>
-          <button
-            onClick={() => addSection('heading3')}
-            className="p-2 hover:bg-white/20 rounded transition-colors text-white text-xs font-semibold"
-            title="Heading 3"
-          >
+          <button onClick={() => setBlockType('heading3')} className={toolbarButton} title="Heading 3">
             <Heading3 className="w-4 h-4" />
           </button>
+          <button onClick={() => setBlockType('paragraph')} className={toolbarButton} title="Paragraph">
+            <Pilcrow className="w-4 h-4" />
+          </button>
+          <button onClick={() => setBlockType('list')} className={toolbarButton} title="Bullet List">
+            <List className="w-4 h-4" />
+          </button>
+          <button onClick={() => setBlockType('ordered-list')} className={toolbarButton} title="Numbered List">
+            <ListOrdered className="w-4 h-4" />
+          </button>
         </div>
 
         <div className="flex gap-1 border-r border-purple-400/20 pr-3">
           <button
-            onClick={() => addSection('list')}
-            className="p-2 hover:bg-white/20 rounded transition-colors text-white"
-            title="Bullet List"
+            onClick={() => insertBlocks([tableBlock([[[], [], []], [[], [], []], [[], [], []]])])}
+            className={toolbarButton}
+            title="Insert Table"
           >
-            <List className="w-4 h-4" />
+            <Table className="w-4 h-4" />
+          </button>
+          <button onClick={() => imageInputRef.current?.click()} className={toolbarButton} title="Insert Image">
+            <ImageIcon className="w-4 h-4" />
+          </button>
+          <input ref={imageInputRef} type="file" accept="image/png,image/jpeg,image/gif" onChange={insertImage} className="hidden" />
+          <button onClick={() => insertBlocks([pageBreakBlock(), textBlock('paragraph', [])])} className={toolbarButton} title="Insert Page Break">
+            <SeparatorHorizontal className="w-4 h-4" />
           </button>
+        </div>
+
+        <div className="ml-auto flex gap-1 relative">
           <button
-            onClick={() => addSection('ordered-list')}
-            className="p-2 hover:bg-white/20 rounded transition-colors text-white"
-            title="Numbered List"
+            onClick={() => openInputRef.current?.click()}
+            className={toolbarButton}
+            title="Open or import a document"
           >
-            <ListOrdered className="w-4 h-4" />
+            <FolderOpen className="w-4 h-4" />
+          </button>
+          <input
+            ref={openInputRef}
+            type="file"
+            accept=".nyxdoc,.md,.markdown,.html,.htm,.txt"
+            onChange={openDocument}
+            className="hidden"
+          />
+          <button onClick={() => setShowExport(s => !s)} className={toolbarButton} title="Export">
+            <Download className="w-4 h-4" />
           </button>
+          {showExport && (
+            <div className="absolute right-0 top-full mt-2 z-10 w-48 py-1 rounded-lg glass-purple-dark border border-purple-400/20 shadow-xl">
+              {([
+                ['docx', 'Word document (.docx)'],
+                ['md', 'Markdown (.md)'],
+                ['html', 'Web page (.html)'],
+                ['nyxdoc', 'Nyx document (.nyxdoc)'],
+              ] as const).map(([kind, label]) => (
+                <button key={kind} onClick={() => exportAs(kind)} className="w-full px-3 py-2 text-left text-sm text-white hover:bg-white/10">
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
-
-        <button
-          onClick={exportAsHTML}
-          className="ml-auto p-2 hover:bg-white/20 rounded transition-colors text-white"
-          title="Export as HTML"
-        >
-          <Download className="w-4 h-4" />
-        </button>
       </motion.div>
 
-      {/* Editor Content */}
-      <motion.div
-        ref={editorRef}
-        className="flex-1 overflow-y-auto p-8"
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.2 }}
-      >
-        <div className="max-w-4xl mx-auto glass-purple-dark rounded-lg shadow-2xl p-8">
-          <AnimatePresence mode="popLayout">
-            {activeContent.length === 0 ? (
-              <motion.div
-                className="text-center text-gray-400 py-8"
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
+      {error && (
+        <div className="px-6 py-2 bg-red-500/15 border-b border-red-400/30 text-red-200 text-sm flex justify-between">
+          {error}
+          <button onClick={() => setError(null)} className="text-red-200/70 hover:text-red-100">×</button>
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {/* Documents */}
+        <div className="w-52 shrink-0 border-r border-purple-400/20 overflow-y-auto p-2 space-y-1">
+          {documents.map(doc => (
+            <div
+              key={doc.path}
+              className={cn(
+                'group flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer text-sm',
+                doc.path === activePath ? 'bg-purple-500/25 text-white' : 'text-white/70 hover:bg-white/10'
+              )}
+              onClick={() => doc.path !== activePath && openStored(doc.path)}
+            >
+              <FileText className="w-4 h-4 shrink-0" />
+              <span className="truncate flex-1">{doc.name}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  removeDocument(doc.path)
+                }}
+                className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-red-500/20"
+                title="Delete document"
               >
-                <p className="text-white/60">Start typing or click the + button to add content</p>
-              </motion.div>
-            ) : (
-              activeContent.map((section, index) => (
-                <motion.div
-                  key={section.id}
-                  className="group relative mb-4"
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, y: -10 }}
-                  layout
-                >
-                  {section.type === 'list' && (
-                    <ul style={getHeadingStyle(section.type)}>
-                      <li>{section.content}</li>
-                    </ul>
-                  )}
-                  {section.type === 'ordered-list' && (
-                    <ol style={getHeadingStyle(section.type)}>
-                      <li>{section.content}</li>
-                    </ol>
-                  )}
-                  {(section.type === 'heading1' || section.type === 'heading2' || section.type === 'heading3') && (
-                    <div style={getHeadingStyle(section.type)}>
-                      {section.content || `Type your ${section.type} here...`}
-                    </div>
-                  )}
-                  {section.type === 'paragraph' && (
-                    <div style={getHeadingStyle(section.type)}>
-                      {section.content || 'Start typing here...'}
-                    </div>
-                  )}
-
-                  <input
-                    type="text"
-                    value={section.content}
-                    onChange={(e) => updateSection(section.id, e.target.value)}
-                    className="absolute inset-0 w-full bg-transparent outline-none opacity-0 hover:opacity-100 focus:opacity-100 text-white"
-                    style={getHeadingStyle(section.type)}
-                  />
-
-                  <button
-                    onClick={() => deleteSection(section.id)}
-                    className="absolute right-0 top-0 opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 rounded transition-all"
-                  >
-                    <span className="text-red-400 text-sm">×</span>
-                  </button>
-                </motion.div>
-              ))
-            )}
-          </AnimatePresence>
+                <Trash2 className="w-3.5 h-3.5 text-red-300" />
+              </button>
+            </div>
+          ))}
         </div>
-      </motion.div>
+
+        {/* Editor Content */}
+        <motion.div
+          className="flex-1 overflow-y-auto p-8"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.2 }}
+        >
+          <div className="max-w-4xl mx-auto glass-purple-dark rounded-lg shadow-2xl p-8">
+            {blocks.length === 0 && (
+              <p className="text-center text-white/60 py-8">Click Add Paragraph or use the toolbar to add content</p>
+            )}
+            <AnimatePresence initial={false}>
+              {blocks.map((block, index) => {
+                listNumber = block.type === 'ordered-list' && blocks[index - 1]?.type === 'ordered-list' ? listNumber + 1 : 1
+                const alignment = block.style?.alignment as React.CSSProperties['textAlign']
+                return (
+                  <motion.div
+                    key={block.id}
+                    className="group relative"
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                  >
+                    {block.type === 'table' ? (
+                      <TableEditor
+                        rows={block.rows || []}
+                        onChange={(rows, typing) =>
+                          typing ? typeInBlock(block.id, () => tableBlock(rows)) : updateBlock(block.id, () => tableBlock(rows))
+                        }
+                        onFocus={() => setFocusedId(block.id)}
+                      />
+                    ) : block.type === 'image' ? (
+                      <figure className="mb-4 text-center" onClick={() => setFocusedId(block.id)}>
+                        <img src={block.src} alt={block.alt} className="inline-block max-w-full max-h-[480px] rounded" />
+                        <input
+                          value={block.alt || ''}
+                          onChange={(e) => typeInBlock(block.id, b => imageBlock(b.src || '', e.target.value))}
+                          placeholder="Describe this image"
+                          aria-label="Image description"
+                          className="mt-2 w-full bg-transparent text-center text-xs text-white/60 outline-none placeholder:text-white/30"
+                        />
+                      </figure>
+                    ) : block.type === 'page-break' ? (
+                      <div className="my-6 flex items-center gap-3 text-xs text-white/40" onClick={() => setFocusedId(block.id)}>
+                        <div className="flex-1 border-t border-dashed border-white/25" />
+                        Page break
+                        <div className="flex-1 border-t border-dashed border-white/25" />
+                      </div>
+                    ) : (
+                      <div className="flex gap-2" style={BLOCK_STYLES[block.type]}>
+                        {block.type === 'list' && <span className="select-none">•</span>}
+                        {block.type === 'ordered-list' && <span className="select-none tabular-nums">{listNumber}.</span>}
+                        <RichText
+                          runs={blockRuns(block)}
+                          onChange={(runs) => typeInBlock(block.id, b => textBlock(b.type, runs, b.style))}
+                          placeholder={PLACEHOLDERS[block.type]}
+                          className="flex-1"
+                          style={{ textAlign: alignment }}
+                          onFocus={() => setFocusedId(block.id)}
+                          onKeyDown={handleTextKeyDown(block)}
+                          elementRef={(element) => {
+                            if (element) blockElements.current.set(block.id, element)
+                            else blockElements.current.delete(block.id)
+                          }}
+                        />
+                      </div>
+                    )}
+
+                    <button
+                      onClick={() => deleteBlock(block.id)}
+                      className="absolute -right-6 top-0 opacity-0 group-hover:opacity-100 p-1 hover:bg-red-500/20 rounded transition-all"
+                      title="Remove"
+                    >
+                      <span className="text-red-400 text-sm">×</span>
+                    </button>
+                  </motion.div>
+                )
+              })}
+            </AnimatePresence>
+          </div>
+        </motion.div>
+      </div>
 
       {/* Add Content Button */}
       <motion.button
-        onClick={() => addSection('paragraph')}
+        onClick={() => insertBlocks([textBlock('paragraph', [])], blocks[blocks.length - 1]?.id)}
         className="m-4 p-3 glass-purple hover:bg-white/20 rounded-lg text-white transition-colors flex items-center gap-2 justify-center"
         whileHover={{ scale: 1.02 }}
         whileTap={{ scale: 0.98 }}
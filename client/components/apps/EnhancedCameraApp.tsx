@@ -9,6 +9,7 @@ import {
   Pause, StopCircle, RotateCw, Focus, Eye, Lens
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { saveCameraCapture } from '@/lib/media-storage'
 import { usePerformanceManager } from '@/hooks/usePerformanceManager'
 
 interface CapturedMedia {
@@ -371,6 +372,7 @@ export const EnhancedCameraApp: React.FC = () => {
     // Convert to blob and create URL
     canvas.toBlob((blob) => {
       if (blob) {
+        saveCameraCapture(blob, 'photo').catch(error => console.error('Failed to save photo:', error))
         const url = URL.createObjectURL(blob)
         const newPhoto: CapturedMedia = {
           id: Date.now().toString(),
@@ -442,6 +444,10 @@ export const EnhancedCameraApp: React.FC = () => {
               // Both recordings complete, save them
               const mainBlob = new Blob(mainChunks, { type: 'video/mp4' })
               const frontBlob = new Blob(frontChunks, { type: 'video/mp4' })
+              const date = new Date()
+              saveCameraCapture(mainBlob, 'video', { date })
+                .then(() => saveCameraCapture(frontBlob, 'video', { date, suffix: '_front' }))
+                .catch(error => console.error('Failed to save videos:', error))
               
               const mainUrl = URL.createObjectURL(mainBlob)
               const frontUrl = URL.createObjectURL(frontBlob)
@@ -486,6 +492,7 @@ export const EnhancedCameraApp: React.FC = () => {
 
           mediaRecorder.onstop = () => {
             const blob = new Blob(chunks, { type: 'video/mp4' })
+            saveCameraCapture(blob, 'video').catch(error => console.error('Failed to save video:', error))
             const url = URL.createObjectURL(blob)
             const newVideo: CapturedMedia = {
               id: Date.now().toString(),
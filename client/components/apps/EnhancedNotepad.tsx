@@ -10,6 +10,17 @@ import {
   Maximize2, Minimize2, X
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { vfs } from '@/services/vfs'
+import {
+  NOTES_DIRECTORY,
+  StoredNote,
+  createNote as createStoredNote,
+  deleteNote as deleteStoredNote,
+  loadNote as loadStoredNote,
+  loadNotes,
+  saveNote as saveStoredNote
+} from '@/lib/notes-storage'
+import { userStorage } from '@/lib/user-storage'
 
 interface Note {
   id: string
@@ -22,6 +33,20 @@ interface Note {
   characterCount: number
 }
 
+const countWords = (content: string) => content.trim().split(/\s+/).filter(word => word.length > 0).length
+
+// Notes are identified by their file path in the virtual filesystem
+const toNote = (note: StoredNote): Note => ({
+  id: note.path,
+  title: note.title,
+  content: note.content,
+  createdAt: note.created,
+  updatedAt: note.modified,
+  tags: note.tags,
+  wordCount: countWords(note.content),
+  characterCount: note.content.length
+})
+
 interface EditorSettings {
   fontSize: number
   fontFamily: string
@@ -76,93 +101,105 @@ export const EnhancedNotepad: React.FC = () => {
     }
   }, [currentNote?.content, settings.autoSave])
 
-  // Load notes from localStorage
+  // Load notes from the filesystem and settings from localStorage
   useEffect(() => {
-    const savedNotes = localStorage.getItem('nyx-notepad-notes')
-    if (savedNotes) {
-      const parsed = JSON.parse(savedNotes)
-      setNotes(parsed.map((note: any) => ({
-        ...note,
-        createdAt: new Date(note.createdAt),
-        updatedAt: new Date(note.updatedAt)
-      })))
-    }
+    let cancelled = false
+
+    loadNotes()
+      .then(stored => {
+        if (cancelled) return
+        const loaded = stored
+          .map(toNote)
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+        setNotes(loaded)
+        // Create default note if none exist
+        if (loaded.length === 0) createNewNote()
+      })
+      .catch(error => console.error('Failed to load notes:', error))
 
-    const savedSettings = localStorage.getItem('nyx-notepad-settings')
+    const savedSettings = userStorage.getItem('nyx-notepad-settings')
     if (savedSettings) {
       setSettings(JSON.parse(savedSettings))
     }
 
-    // Create default note if none exist
-    if (!savedNotes || JSON.parse(savedNotes).length === 0) {
-      createNewNote()
-    }
-  }, [])
+    // Pick up notes created or changed in other apps
+    const unwatch = vfs.watch(NOTES_DIRECTORY, (change) => {
+      if (change.type === 'delete') {
+        setNotes(prev => prev.filter(note => note.id !== change.path))
+        return
+      }
+      if (change.type === 'move') {
+        setNotes(prev => prev.filter(note => note.id !== change.oldPath))
+      }
+      if (change.entry?.parent !== NOTES_DIRECTORY) return
+      loadStoredNote(change.path).then(stored => {
+        if (cancelled || !stored) return
+        const note = toNote(stored)
+        setNotes(prev => prev.some(n => n.id === note.id)
+          ? prev.map(n => n.id === note.id ? note : n)
+          : [note, ...prev])
+      })
+    })
 
-  // Save notes to localStorage
-  const saveNotesToStorage = useCallback((notesToSave: Note[]) => {
-    localStorage.setItem('nyx-notepad-notes', JSON.stringify(notesToSave))
+    return () => {
+      cancelled = true
+      unwatch()
+    }
   }, [])
 
   // Save settings to localStorage
   const saveSettingsToStorage = useCallback((settingsToSave: EditorSettings) => {
-    localStorage.setItem('nyx-notepad-settings', JSON.stringify(settingsToSave))
+    userStorage.setItem('nyx-notepad-settings', JSON.stringify(settingsToSave))
     setSettings(settingsToSave)
   }, [])
 
   // Create new note
-  const createNewNote = useCallback(() => {
-    const newNote: Note = {
-      id: Date.now().toString(),
-      title: 'Untitled Note',
-      content: '',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      tags: [],
-      wordCount: 0,
-      characterCount: 0
+  const createNewNote = useCallback(async () => {
+    try {
+      const newNote = toNote(await createStoredNote('Untitled Note'))
+      setNotes(prev => [newNote, ...prev.filter(note => note.id !== newNote.id)])
+      setCurrentNote(newNote)
+      setIsEditing(true)
+    } catch (error) {
+      console.error('Failed to create note:', error)
     }
-
-    setNotes(prev => {
-      const updated = [newNote, ...prev]
-      saveNotesToStorage(updated)
-      return updated
-    })
-    setCurrentNote(newNote)
-    setIsEditing(true)
-  }, [saveNotesToStorage])
+  }, [])
 
   // Save current note
-  const saveNote = useCallback(() => {
+  const saveNote = useCallback(async () => {
     if (!currentNote) return
 
-    const wordCount = currentNote.content.trim().split(/\s+/).filter(word => word.length > 0).length
-    const characterCount = currentNote.content.length
+    try {
+      // Saving with a new title renames the file, which changes the note id
+      const updatedNote = toNote(await saveStoredNote({
+        path: currentNote.id,
+        title: currentNote.title,
+        content: currentNote.content,
+        tags: currentNote.tags
+      }))
 
-    const updatedNote = {
-      ...currentNote,
-      updatedAt: new Date(),
-      wordCount,
-      characterCount
-    }
-
-    setNotes(prev => {
-      const updated = prev.map(note => 
+      setNotes(prev => prev.map(note => 
         note.id === currentNote.id ? updatedNote : note
-      )
-      saveNotesToStorage(updated)
-      return updated
-    })
-    setCurrentNote(updatedNote)
-  }, [currentNote, saveNotesToStorage])
+      ))
+      // Keep typing that happened while the save was in flight
+      setCurrentNote(prev => prev && prev.id === currentNote.id
+        ? {
+            ...prev,
+            id: updatedNote.id,
+            updatedAt: updatedNote.updatedAt,
+            wordCount: updatedNote.wordCount,
+            characterCount: updatedNote.characterCount
+          }
+        : prev)
+    } catch (error) {
+      console.error('Failed to save note:', error)
+    }
+  }, [currentNote])
 
   // Delete note
   const deleteNote = useCallback((noteId: string) => {
-    setNotes(prev => {
-      const updated = prev.filter(note => note.id !== noteId)
-      saveNotesToStorage(updated)
-      return updated
-    })
+    setNotes(prev => prev.filter(note => note.id !== noteId))
+    deleteStoredNote(noteId).catch(error => console.error('Failed to delete note:', error))
 
     if (currentNote?.id === noteId) {
       const remainingNotes = notes.filter(note => note.id !== noteId)
@@ -172,7 +209,7 @@ export const EnhancedNotepad: React.FC = () => {
         createNewNote()
       }
     }
-  }, [currentNote, notes, saveNotesToStorage, createNewNote])
+  }, [currentNote, notes, createNewNote])
 
   // Update note content
   const updateNoteContent = useCallback((content: string) => {
@@ -270,29 +307,17 @@ export const EnhancedNotepad: React.FC = () => {
     if (!file) return
 
     const reader = new FileReader()
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       const content = e.target?.result as string
-      const newNote: Note = {
-        id: Date.now().toString(),
-        title: file.name.replace(/\.[^/.]+$/, ""), // Remove file extension
-        content,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        tags: [],
-        wordCount: content.trim().split(/\s+/).filter(word => word.length > 0).length,
-        characterCount: content.length
-      }
+      // Remove file extension for the title
+      const newNote = toNote(await createStoredNote(file.name.replace(/\.[^/.]+$/, ""), content))
 
-      setNotes(prev => {
-        const updated = [newNote, ...prev]
-        saveNotesToStorage(updated)
-        return updated
-      })
+      setNotes(prev => [newNote, ...prev.filter(note => note.id !== newNote.id)])
       setCurrentNote(newNote)
       setIsEditing(true)
     }
     reader.readAsText(file)
-  }, [saveNotesToStorage])
+  }, [])
 
   // Filter notes based on search
   const filteredNotes = notes.filter(note =>
@@ -4,79 +4,64 @@ import {
   Upload,
   Download,
   ArrowRightLeft,
-  FileText,
-  File,
+  FolderDown,
   CheckCircle,
   AlertCircle,
   X,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import {
+  CONVERSION_ROUTES,
+  ConversionResult,
+  FILE_FORMATS,
+  FormatId,
+  convertFile,
+  formatForFile,
+  getFormat,
+} from '@/lib/file-conversion'
+import { vfs, VFS_PATHS, joinPath } from '@/services/vfs'
+import { downloadFile } from '@/lib/download'
 
 interface ConversionTask {
   id: string
   fileName: string
-  fromFormat: string
-  toFormat: string
+  fromFormat: FormatId
+  toFormat: FormatId
   status: 'pending' | 'processing' | 'completed' | 'error'
   progress: number
   error?: string
+  result?: ConversionResult
+  savedPath?: string
 }
 
-const SUPPORTED_FORMATS = [
-  { ext: 'pdf', label: 'PDF', icon: FileText },
-  { ext: 'docx', label: 'Word (.docx)', icon: FileText },
-  { ext: 'doc', label: 'Word (.doc)', icon: FileText },
-  { ext: 'pptx', label: 'PowerPoint', icon: File },
-  { ext: 'ppt', label: 'PowerPoint (.ppt)', icon: File },
-  { ext: 'xlsx', label: 'Excel', icon: File },
-  { ext: 'csv', label: 'CSV', icon: FileText },
-  { ext: 'txt', label: 'Text', icon: FileText },
-  { ext: 'jpg', label: 'JPEG', icon: File },
-  { ext: 'png', label: 'PNG', icon: File },
-]
-
-const CONVERSION_ROUTES: Record<string, string[]> = {
-  'pdf': ['docx', 'txt', 'xlsx'],
-  'docx': ['pdf', 'txt', 'pptx'],
-  'doc': ['pdf', 'docx', 'txt'],
-  'pptx': ['pdf', 'docx'],
-  'ppt': ['pptx', 'pdf'],
-  'xlsx': ['pdf', 'csv', 'txt'],
-  'csv': ['xlsx', 'txt'],
-  'txt': ['docx', 'pdf'],
-  'jpg': ['png', 'pdf'],
-  'png': ['jpg', 'pdf'],
-}
+const SOURCE_FORMATS = FILE_FORMATS.filter(format => CONVERSION_ROUTES[format.id]?.length)
 
 export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) => {
   const [tasks, setTasks] = useState<ConversionTask[]>([])
-  const [selectedFromFormat, setSelectedFromFormat] = useState('pdf')
-  const [selectedToFormat, setSelectedToFormat] = useState('docx')
+  const [selectedFromFormat, setSelectedFromFormat] = useState<FormatId>('md')
+  const [selectedToFormat, setSelectedToFormat] = useState<FormatId>('html')
   const fileInputRef = useRef<HTMLInputElement>(null)
   const dragRef = useRef<HTMLDivElement>(null)
 
   const availableFormats = CONVERSION_ROUTES[selectedFromFormat] || []
 
-  const simulateConversion = (task: ConversionTask) => {
-    let progress = 0
-    const interval = setInterval(() => {
-      progress += Math.random() * 20
-      if (progress >= 100) {
-        progress = 100
-        clearInterval(interval)
-        setTasks(prev => prev.map(t =>
-          t.id === task.id
-            ? { ...t, status: 'completed', progress: 100 }
-            : t
-        ))
-      } else {
-        setTasks(prev => prev.map(t =>
-          t.id === task.id
-            ? { ...t, progress: Math.min(progress, 100) }
-            : t
-        ))
-      }
-    }, 300)
+  const updateTask = (id: string, updates: Partial<ConversionTask>) => {
+    setTasks(prev => prev.map(t => (t.id === id ? { ...t, ...updates } : t)))
+  }
+
+  const runConversion = async (task: ConversionTask, file: File) => {
+    updateTask(task.id, { status: 'processing', progress: 30 })
+    try {
+      const result = await convertFile(file, file.name, task.fromFormat, task.toFormat)
+      updateTask(task.id, { status: 'completed', progress: 100, result })
+    } catch (error) {
+      console.error('Conversion failed:', error)
+      updateTask(task.id, {
+        status: 'error',
+        progress: 100,
+        error: error instanceof Error ? error.message : 'Conversion failed'
+      })
+    }
   }
 
   const handleFileSelect = (files: FileList | null) => {
@@ -84,43 +69,42 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i]
-      const ext = file.name.split('.').pop()?.toLowerCase() || ''
-
-      if (ext !== selectedFromFormat) {
-        alert(`File ${file.name} is not a ${selectedFromFormat.toUpperCase()} file`)
-        continue
-      }
-
       const task: ConversionTask = {
         id: `task-${Date.now()}-${i}`,
         fileName: file.name,
         fromFormat: selectedFromFormat,
         toFormat: selectedToFormat,
-        status: 'processing',
+        status: 'pending',
         progress: 0,
       }
 
-      setTasks(prev => [...prev, task])
+      // Files that don't match the chosen source format are listed as failed instead of guessed at
+      if (formatForFile(file.name) !== selectedFromFormat) {
+        task.status = 'error'
+        task.error = `Not a ${getFormat(selectedFromFormat).label} file`
+        setTasks(prev => [...prev, task])
+        continue
+      }
 
-      // Simulate conversion
-      setTimeout(() => {
-        simulateConversion(task)
-      }, 300)
+      setTasks(prev => [...prev, task])
+      runConversion(task, file)
     }
   }
 
-  const downloadFile = (task: ConversionTask) => {
-    const ext = task.toFormat
-    const newFileName = task.fileName.replace(`.${task.fromFormat}`, `.${ext}`)
+  const downloadResult = (task: ConversionTask) => {
+    if (!task.result) return
+    downloadFile(task.result.blob, task.result.fileName, 'file-converter')
+  }
 
-    // Create a mock file (in real app, this would be the actual converted file)
-    const mockContent = `Converted file: ${task.fileName} to ${ext}`
-    const blob = new Blob([mockContent], { type: 'application/octet-stream' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = newFileName
-    a.click()
+  const saveToFiles = async (task: ConversionTask) => {
+    if (!task.result) return
+    try {
+      const path = await vfs.uniquePath(joinPath(VFS_PATHS.documents, task.result.fileName))
+      await vfs.writeFile(path, task.result.blob, { mimeType: task.result.blob.type.split(';')[0] })
+      updateTask(task.id, { savedPath: path })
+    } catch (error) {
+      updateTask(task.id, { error: error instanceof Error ? error.message : 'Could not save file' })
+    }
   }
 
   const removeTask = (id: string) => {
@@ -128,7 +112,7 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
   }
 
   const swapFormats = () => {
-    if (availableFormats.includes(selectedFromFormat)) {
+    if (CONVERSION_ROUTES[selectedToFormat]?.includes(selectedFromFormat)) {
       setSelectedFromFormat(selectedToFormat)
       setSelectedToFormat(selectedFromFormat)
     }
@@ -165,13 +149,14 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
               <select
                 value={selectedFromFormat}
                 onChange={(e) => {
-                  setSelectedFromFormat(e.target.value)
-                  setSelectedToFormat(CONVERSION_ROUTES[e.target.value]?.[0] || '')
+                  const from = e.target.value as FormatId
+                  setSelectedFromFormat(from)
+                  setSelectedToFormat(CONVERSION_ROUTES[from]![0])
                 }}
                 className="w-full px-4 py-2 bg-gray-800 border border-purple-400/20 rounded text-white"
               >
-                {SUPPORTED_FORMATS.map(fmt => (
-                  <option key={fmt.ext} value={fmt.ext}>
+                {SOURCE_FORMATS.map(fmt => (
+                  <option key={fmt.id} value={fmt.id}>
                     {fmt.label}
                   </option>
                 ))}
@@ -194,17 +179,14 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
               <label className="text-white text-sm font-medium mb-2 block">To Format</label>
               <select
                 value={selectedToFormat}
-                onChange={(e) => setSelectedToFormat(e.target.value)}
+                onChange={(e) => setSelectedToFormat(e.target.value as FormatId)}
                 className="w-full px-4 py-2 bg-gray-800 border border-purple-400/20 rounded text-white"
               >
-                {availableFormats.map(fmt => {
-                  const format = SUPPORTED_FORMATS.find(f => f.ext === fmt)
-                  return format ? (
-                    <option key={fmt} value={fmt}>
-                      {format.label}
-                    </option>
-                  ) : null
-                })}
+                {availableFormats.map(fmt => (
+                  <option key={fmt} value={fmt}>
+                    {getFormat(fmt).label}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -244,7 +226,7 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
               <h3 className="text-white font-semibold mb-2">Drop files here</h3>
               <p className="text-white/60 text-sm mb-4">or click to select files</p>
               <p className="text-white/40 text-xs">
-                Supported: {SUPPORTED_FORMATS.map(f => f.ext).join(', ')}
+                Supported: {SOURCE_FORMATS.map(f => f.extensions[0]).join(', ')}
               </p>
             </motion.div>
           </motion.div>
@@ -313,15 +295,31 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
                       </div>
 
                       <div className="flex items-center justify-between">
-                        <span className="text-white/60 text-xs">{task.progress.toFixed(0)}%</span>
+                        {task.error ? (
+                          <span className="text-red-400 text-xs">{task.error}</span>
+                        ) : task.savedPath ? (
+                          <span className="text-green-400 text-xs">Saved to {task.savedPath}</span>
+                        ) : (
+                          <span className="text-white/60 text-xs">{task.progress.toFixed(0)}%</span>
+                        )}
                         {task.status === 'completed' && (
-                          <button
-                            onClick={() => downloadFile(task)}
-                            className="flex items-center gap-2 px-3 py-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 rounded text-xs transition-colors"
-                          >
-                            <Download className="w-3 h-3" />
-                            Download
-                          </button>
+                          <div className="flex items-center gap-2 ml-auto mr-2">
+                            <button
+                              onClick={() => saveToFiles(task)}
+                              disabled={!!task.savedPath}
+                              className="flex items-center gap-2 px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 disabled:opacity-50 text-purple-300 rounded text-xs transition-colors"
+                            >
+                              <FolderDown className="w-3 h-3" />
+                              Save to Files
+                            </button>
+                            <button
+                              onClick={() => downloadResult(task)}
+                              className="flex items-center gap-2 px-3 py-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 rounded text-xs transition-colors"
+                            >
+                              <Download className="w-3 h-3" />
+                              Download
+                            </button>
+                          </div>
                         )}
                         <button
                           onClick={() => removeTask(task.id)}
@@ -356,7 +354,7 @@ export const FileConverter: React.FC<{ windowId?: string }> = ({ windowId }) =>
         type="file"
         multiple
         onChange={(e) => handleFileSelect(e.target.files)}
-        accept={`.${selectedFromFormat}`}
+        accept={getFormat(selectedFromFormat).extensions.map(ext => `.${ext}`).join(',')}
         className="hidden"
       />
     </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useSamStore } from '@/store/sam-store'
 import { 
@@ -31,6 +31,10 @@ import {
   RefreshCw
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { launchApp } from '@/lib/app-launcher'
+import { vfs, VfsEntry, VfsUsage, isTextEntry, joinPath } from '@/services/vfs'
+import { useVfsDirectory } from '@/hooks/useVfs'
+import { downloadFile } from '@/lib/download'
 
 interface FilesProps {
   windowId: string
@@ -44,12 +48,35 @@ interface FileItem {
   size?: number
   modified: Date
   created: Date
-  content?: string
   parent?: string
   starred?: boolean
   path: string
 }
 
+const fileTypeFor = (entry: VfsEntry): FileItem['fileType'] => {
+  const mime = entry.mimeType || ''
+  if (mime === 'application/pdf') return 'pdf'
+  if (mime.includes('word') || mime.includes('presentation') || mime.includes('spreadsheet')) return 'doc'
+  if (isTextEntry(entry)) return 'text'
+  if (mime.startsWith('image/')) return 'image'
+  if (mime.startsWith('audio/')) return 'audio'
+  if (mime.startsWith('video/')) return 'video'
+  return 'other'
+}
+
+const toFileItem = (entry: VfsEntry): FileItem => ({
+  id: entry.path,
+  name: entry.name,
+  type: entry.type === 'directory' ? 'folder' : 'file',
+  fileType: entry.type === 'file' ? fileTypeFor(entry) : undefined,
+  size: entry.type === 'file' ? entry.size : undefined,
+  modified: new Date(entry.modified),
+  created: new Date(entry.created),
+  parent: entry.parent,
+  starred: entry.starred,
+  path: entry.path
+})
+
 const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes'
   const k = 1024
@@ -71,155 +98,24 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
   const [history, setHistory] = useState<string[]>(['/'])
   const [historyIndex, setHistoryIndex] = useState(0)
   
-  // Complete file system simulation
-  const [fileSystem, setFileSystem] = useState<FileItem[]>(() => {
-    const now = new Date()
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000)
-    const lastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-    
-    return [
-      // Root folders
-      {
-        id: 'desktop',
-        name: 'Desktop',
-        type: 'folder',
-        modified: now,
-        created: lastWeek,
-        path: '/Desktop',
-        parent: '/'
-      },
-      {
-        id: 'documents',
-        name: 'Documents',
-        type: 'folder',
-        modified: yesterday,
-        created: lastWeek,
-        path: '/Documents',
-        parent: '/'
-      },
-      {
-        id: 'downloads',
-        name: 'Downloads',
-        type: 'folder',
-        modified: now,
-        created: lastWeek,
-        path: '/Downloads',
-        parent: '/'
-      },
-      {
-        id: 'pictures',
-        name: 'Pictures',
-        type: 'folder',
-        modified: yesterday,
-        created: lastWeek,
-        path: '/Pictures',
-        parent: '/'
-      },
-      {
-        id: 'music',
-        name: 'Music',
-        type: 'folder',
-        modified: lastWeek,
-        created: lastWeek,
-        path: '/Music',
-        parent: '/'
-      },
-      {
-        id: 'videos',
-        name: 'Videos',
-        type: 'folder',
-        modified: lastWeek,
-        created: lastWeek,
-        path: '/Videos',
-        parent: '/'
-      },
-      // Sample files
-      {
-        id: 'readme',
-        name: 'README.txt',
-        type: 'file',
-        fileType: 'text',
-        size: 2400,
-        modified: now,
-        created: yesterday,
-        path: '/README.txt',
-        parent: '/',
-        content: 'Welcome to Nyx OS!\n\nThis is a fully functional file system with:\n- Folder navigation\n- File operations (copy, cut, paste, delete)\n- Search functionality\n- Multiple view modes\n- Drag & drop support\n- Context menus\n- File preview\n\nBuilt with React and TypeScript for the ultimate desktop experience.',
-        starred: true
-      },
-      {
-        id: 'report-doc',
-        name: 'Project Report.doc',
-        type: 'file',
-        fileType: 'doc',
-        size: 45600,
-        modified: yesterday,
-        created: lastWeek,
-        path: '/Documents/Project Report.doc',
-        parent: '/Documents'
-      },
-      {
-        id: 'presentation',
-        name: 'Presentation.pdf',
-        type: 'file',
-        fileType: 'pdf',
-        size: 2340000,
-        modified: yesterday,
-        created: lastWeek,
-        path: '/Documents/Presentation.pdf',
-        parent: '/Documents'
-      },
-      {
-        id: 'wallpaper1',
-        name: 'cosmic-wallpaper.jpg',
-        type: 'file',
-        fileType: 'image',
-        size: 1240000,
-        modified: lastWeek,
-        created: lastWeek,
-        path: '/Pictures/cosmic-wallpaper.jpg',
-        parent: '/Pictures',
-        starred: true
-      },
-      {
-        id: 'photo1',
-        name: 'vacation-photo.png',
-        type: 'file',
-        fileType: 'image',
-        size: 890000,
-        modified: yesterday,
-        created: yesterday,
-        path: '/Pictures/vacation-photo.png',
-        parent: '/Pictures'
-      },
-      {
-        id: 'song1',
-        name: 'ambient-space.mp3',
-        type: 'file',
-        fileType: 'audio',
-        size: 5100000,
-        modified: lastWeek,
-        created: lastWeek,
-        path: '/Music/ambient-space.mp3',
-        parent: '/Music'
-      },
-      {
-        id: 'video1',
-        name: 'demo-video.mp4',
-        type: 'file',
-        fileType: 'video',
-        size: 45000000,
-        modified: lastWeek,
-        created: lastWeek,
-        path: '/Videos/demo-video.mp4',
-        parent: '/Videos'
-      }
-    ]
-  })
-  
+  const { entries, refresh } = useVfsDirectory(currentPath)
+  const fileSystem = useMemo(() => entries.map(toFileItem), [entries])
+  const [usage, setUsage] = useState<VfsUsage | null>(null)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    vfs.usage().then(setUsage)
+  }, [entries])
+
   const getCurrentFiles = useCallback(() => {
     return fileSystem.filter(file => file.parent === currentPath)
   }, [fileSystem, currentPath])
+
+  const reportError = (action: string, error: unknown) => {
+    console.error(`Failed to ${action}:`, error)
+    setEmotion('confused', 0.7)
+    addMessage(`Couldn't ${action}: ${error instanceof Error ? error.message : error}`, 'sam', 'confused')
+  }
   
   const getFileIcon = (item: FileItem) => {
     if (item.type === 'folder') return Folder
@@ -295,73 +191,87 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
       setEmotion('happy', 0.7)
       addMessage(`Opening ${file.name}. That's a ${file.fileType} file! Pretty cool stuff, bruv!`, 'sam', 'happy')
       
-      // Simulate file opening
-      if (file.fileType === 'text' && file.content) {
-        // Could open in notepad app
-        console.log('Opening text file:', file.content)
+      if (file.name.endsWith('.nyxdoc')) {
+        launchApp('document-editor', { props: { path: file.path } })
+      } else if (file.fileType === 'text') {
+        launchApp('notepad', { title: file.name, props: { path: file.path } })
+      } else if (file.fileType === 'image' || file.fileType === 'video') {
+        launchApp('gallery', { props: { path: file.path } })
+      } else {
+        downloadItem(file)
       }
     }
   }
+
+  const downloadItem = async (file: FileItem) => {
+    try {
+      downloadFile(await vfs.readBlob(file.path), file.name, 'files')
+    } catch (error) {
+      reportError(`download ${file.name}`, error)
+    }
+  }
+
+  const uploadFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    for (const file of files) {
+      try {
+        const path = await vfs.uniquePath(joinPath(currentPath, file.name))
+        await vfs.writeFile(path, file, { mimeType: file.type || undefined })
+      } catch (error) {
+        reportError(`upload ${file.name}`, error)
+        return
+      }
+    }
+    if (files.length > 0) {
+      setEmotion('excited', 0.7)
+      addMessage(`Uploaded ${files.length} file${files.length > 1 ? 's' : ''}!`, 'sam', 'excited')
+    }
+  }
   
-  const createNewFolder = () => {
+  const createNewFolder = async () => {
     const name = prompt('Enter folder name:')
     if (name && name.trim()) {
-      const newFolder: FileItem = {
-        id: `folder-${Date.now()}`,
-        name: name.trim(),
-        type: 'folder',
-        modified: new Date(),
-        created: new Date(),
-        path: `${currentPath}${currentPath.endsWith('/') ? '' : '/'}${name.trim()}`,
-        parent: currentPath
+      const path = joinPath(currentPath, name.trim().replace(/\//g, '-'))
+      try {
+        if (await vfs.exists(path)) throw new Error(`"${name.trim()}" already exists`)
+        await vfs.mkdir(path)
+      } catch (error) {
+        reportError('create the folder', error)
+        return
       }
-      
-      setFileSystem(prev => [...prev, newFolder])
       setEmotion('excited', 0.8)
       addMessage(`Created new folder "${name}"! Organization is key, my friend!`, 'sam', 'excited')
     }
   }
   
-  const createNewFile = () => {
+  const createNewFile = async () => {
     const name = prompt('Enter file name (with extension):')
     if (name && name.trim()) {
-      const extension = name.split('.').pop()?.toLowerCase()
-      let fileType: FileItem['fileType'] = 'other'
-      
-      if (['txt', 'md', 'js', 'ts', 'css', 'html'].includes(extension || '')) fileType = 'text'
-      else if (['jpg', 'jpeg', 'png', 'gif', 'svg'].includes(extension || '')) fileType = 'image'
-      else if (['mp3', 'wav', 'ogg'].includes(extension || '')) fileType = 'audio'
-      else if (['mp4', 'avi', 'mov'].includes(extension || '')) fileType = 'video'
-      else if (extension === 'pdf') fileType = 'pdf'
-      else if (['doc', 'docx'].includes(extension || '')) fileType = 'doc'
-      
-      const newFile: FileItem = {
-        id: `file-${Date.now()}`,
-        name: name.trim(),
-        type: 'file',
-        fileType,
-        size: Math.floor(Math.random() * 10000) + 100,
-        modified: new Date(),
-        created: new Date(),
-        path: `${currentPath}${currentPath.endsWith('/') ? '' : '/'}${name.trim()}`,
-        parent: currentPath,
-        content: fileType === 'text' ? 'New file content...' : undefined
+      try {
+        await vfs.writeFile(joinPath(currentPath, name.trim().replace(/\//g, '-')), '', { overwrite: false })
+      } catch (error) {
+        reportError('create the file', error)
+        return
       }
-      
-      setFileSystem(prev => [...prev, newFile])
       setEmotion('happy', 0.7)
       addMessage(`Created new file "${name}"! Ready to fill it with awesome content!`, 'sam', 'happy')
     }
   }
   
-  const deleteFiles = (fileIds: string[]) => {
+  const deleteFiles = async (fileIds: string[]) => {
     if (fileIds.length === 0) return
     
     const fileNames = fileSystem.filter(f => fileIds.includes(f.id)).map(f => f.name)
     const confirm = window.confirm(`Delete ${fileNames.join(', ')}?`)
     
     if (confirm) {
-      setFileSystem(prev => prev.filter(f => !fileIds.includes(f.id)))
+      try {
+        for (const path of fileIds) await vfs.remove(path, { recursive: true })
+      } catch (error) {
+        reportError('delete', error)
+        return
+      }
       setSelectedFiles([])
       setEmotion('focused', 0.6)
       addMessage(`Deleted ${fileIds.length} item${fileIds.length > 1 ? 's' : ''}. Gone but not forgotten!`, 'sam', 'focused')
@@ -382,36 +292,39 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
     addMessage(`Cut ${files.length} item${files.length > 1 ? 's' : ''} to clipboard!`, 'sam', 'focused')
   }
   
-  const pasteFiles = () => {
+  const pasteFiles = async () => {
     if (!clipboard) return
     
-    const newFiles = clipboard.files.map(file => ({
-      ...file,
-      id: `${file.id}-copy-${Date.now()}`,
-      name: clipboard.operation === 'copy' ? `${file.name} copy` : file.name,
-      path: `${currentPath}${currentPath.endsWith('/') ? '' : '/'}${clipboard.operation === 'copy' ? `${file.name} copy` : file.name}`,
-      parent: currentPath,
-      modified: new Date()
-    }))
-    
-    if (clipboard.operation === 'cut') {
-      setFileSystem(prev => prev.filter(f => !clipboard.files.some(cf => cf.id === f.id)).concat(newFiles))
-    } else {
-      setFileSystem(prev => [...prev, ...newFiles])
+    try {
+      for (const file of clipboard.files) {
+        if (clipboard.operation === 'cut' && file.parent === currentPath) continue
+        const target = await vfs.uniquePath(joinPath(currentPath, file.name))
+        if (clipboard.operation === 'cut') {
+          await vfs.move(file.path, target)
+        } else {
+          await vfs.copy(file.path, target)
+        }
+      }
+    } catch (error) {
+      reportError('paste', error)
+      return
     }
     
+    const count = clipboard.files.length
     setClipboard(null)
     setEmotion('excited', 0.8)
-    addMessage(`Pasted ${newFiles.length} item${newFiles.length > 1 ? 's' : ''}! Smooth operation, bruv!`, 'sam', 'excited')
+    addMessage(`Pasted ${count} item${count > 1 ? 's' : ''}! Smooth operation, bruv!`, 'sam', 'excited')
   }
   
-  const toggleStar = (fileId: string) => {
-    setFileSystem(prev => prev.map(f => 
-      f.id === fileId ? { ...f, starred: !f.starred } : f
-    ))
-    
+  const toggleStar = async (fileId: string) => {
     const file = fileSystem.find(f => f.id === fileId)
     if (file) {
+      try {
+        await vfs.updateMetadata(file.path, { starred: !file.starred })
+      } catch (error) {
+        reportError(`star ${file.name}`, error)
+        return
+      }
       setEmotion('happy', 0.6)
       addMessage(`${file.starred ? 'Unstarred' : 'Starred'} ${file.name}!`, 'sam', 'happy')
     }
@@ -464,7 +377,7 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
               <ArrowRight className="w-4 h-4" />
             </button>
             <button
-              onClick={() => navigateToPath(currentPath)}
+              onClick={() => refresh()}
               className="p-2 rounded-lg transition-colors text-white/60 hover:text-white hover:bg-white/10"
             >
               <RefreshCw className="w-4 h-4" />
@@ -486,6 +399,20 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
             >
               <Plus className="w-4 h-4" />
             </button>
+            <button
+              onClick={() => uploadInputRef.current?.click()}
+              className="p-2 rounded-lg transition-colors text-white/60 hover:text-white hover:bg-white/10"
+              title="Upload Files"
+            >
+              <Upload className="w-4 h-4" />
+            </button>
+            <input
+              ref={uploadInputRef}
+              type="file"
+              multiple
+              onChange={uploadFiles}
+              className="hidden"
+            />
             <div className="w-px h-6 bg-white/20 mx-1" />
             <button
               onClick={() => setViewMode('grid')}
@@ -693,6 +620,11 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
                 Paste {clipboard.files.length} item{clipboard.files.length > 1 ? 's' : ''}
               </button>
             )}
+            {usage && (
+              <div className="text-white/40 text-xs">
+                {formatFileSize(usage.used)} of {formatFileSize(usage.quota)} used
+              </div>
+            )}
             <div className="text-white/40 text-xs">
               {currentPath}
             </div>
@@ -724,6 +656,19 @@ export const Files: React.FC<FilesProps> = ({ windowId }) => {
                   <Eye className="w-4 h-4" />
                   Open
                 </button>
+                {fileSystem.find(f => f.id === contextMenu.fileId)?.type === 'file' && (
+                  <button
+                    onClick={() => {
+                      const file = fileSystem.find(f => f.id === contextMenu.fileId)
+                      if (file) downloadItem(file)
+                      setContextMenu(null)
+                    }}
+                    className="w-full px-4 py-2 text-left text-white text-sm hover:bg-white/10 transition-colors flex items-center gap-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     copyFiles([contextMenu.fileId!])
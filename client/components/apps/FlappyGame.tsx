@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Play, Pause, RotateCcw, Trophy, Star } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { userStorage } from '@/lib/user-storage'
 
 interface Pipe {
   x: number
@@ -49,7 +50,7 @@ export const FlappyGame: React.FC = () => {
   })
   
   const [highScores, setHighScores] = useState(() => {
-    const saved = localStorage.getItem('nyx-flappy-scores')
+    const saved = userStorage.getItem('nyx-flappy-scores')
     return saved ? JSON.parse(saved) : { easy: 0, medium: 0, hard: 0 }
   })
   
@@ -158,7 +159,7 @@ export const FlappyGame: React.FC = () => {
       if (state.score > highScores[state.difficulty]) {
         const newHighScores = { ...highScores, [state.difficulty]: state.score }
         setHighScores(newHighScores)
-        localStorage.setItem('nyx-flappy-scores', JSON.stringify(newHighScores))
+        userStorage.setItem('nyx-flappy-scores', JSON.stringify(newHighScores))
       }
       
       return newState
@@ -177,7 +178,7 @@ export const FlappyGame: React.FC = () => {
         if (state.score > highScores[state.difficulty]) {
           const newHighScores = { ...highScores, [state.difficulty]: state.score }
           setHighScores(newHighScores)
-          localStorage.setItem('nyx-flappy-scores', JSON.stringify(newHighScores))
+          userStorage.setItem('nyx-flappy-scores', JSON.stringify(newHighScores))
         }
         
         return newState
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { useAppForgeStore } from '@/store/app-forge-store'
+import { useWindowStore } from '@/store/window-store'
+import { compileForgeApp, ForgeCompileError } from '@/lib/forge-compiler'
+import { buildSandboxDocument, collectHostStyles, parseForgeRequest, FORGE_CHANNEL, ForgeRequest, ForgeResponse } from '@/lib/forge-sandbox'
+import { showNotification } from '@/lib/tauri-api'
+import { userStorage } from '@/lib/user-storage'
+
+interface ForgeAppWindowProps {
+  appId: string
+  windowId?: string // absent when rendered as the AppForge preview
+}
+
+const STORAGE_QUOTA = 256 * 1024
+
+// Each generated app gets its own small key/value store per user, separate from the OS's own keys
+const storageKey = (appId: string) => `nyx-forge-storage:${appId}`
+
+const readAppStorage = (appId: string): Record<string, string> => {
+  try {
+    return JSON.parse(userStorage.getItem(storageKey(appId)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const writeAppStorage = (appId: string, data: Record<string, string>) => {
+  const json = JSON.stringify(data)
+  if (json.length > STORAGE_QUOTA) throw new Error('Storage quota exceeded')
+  userStorage.setItem(storageKey(appId), json)
+}
+
+const handleStorageRequest = (appId: string, request: ForgeRequest): unknown => {
+  const data = readAppStorage(appId)
+  switch (request.type) {
+    case 'storage.get':
+      // Own keys only: an app asking for "constructor" or "__proto__" mustn't get Object.prototype's
+      return Object.prototype.hasOwnProperty.call(data, request.key) ? data[request.key] : null
+    case 'storage.set':
+      writeAppStorage(appId, { ...data, [request.key]: request.value })
+      return null
+    case 'storage.remove': {
+      const { [request.key]: _removed, ...rest } = data
+      writeAppStorage(appId, rest)
+      return null
+    }
+    case 'storage.keys':
+      return Object.keys(data)
+    default:
+      return null
+  }
+}
+
+// Runs an AppForge app inside a sandboxed iframe and answers its bridge requests
+export const ForgeAppWindow: React.FC<ForgeAppWindowProps> = ({ appId, windowId }) => {
+  const app = useAppForgeStore(state => state.generatedApps.find(a => a.id === appId))
+  const reportError = useAppForgeStore(state => state.reportError)
+  const setWindowTitle = useWindowStore(state => state.setWindowTitle)
+  const iframeRef = useRef<HTMLIFrameElement>(null)
+  const [sandboxDocument, setSandboxDocument] = useState<string | null>(null)
+  const [compileError, setCompileError] = useState<string | null>(null)
+
+  const code = app?.code
+  const styles = useMemo(() => collectHostStyles(), [])
+
+  useEffect(() => {
+    if (code === undefined) return
+    let cancelled = false
+    setSandboxDocument(null)
+    setCompileError(null)
+
+    compileForgeApp(code)
+      .then(compiled => {
+        if (cancelled) return
+        setSandboxDocument(buildSandboxDocument(compiled, styles))
+      })
+      .catch(error => {
+        if (cancelled) return
+        const message = error instanceof ForgeCompileError ? error.message : `Compiler failed: ${error?.message || error}`
+        setCompileError(message)
+        reportError(appId, { kind: 'compile', message })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [appId, code, styles, reportError])
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // Only the iframe we created may talk to us
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return
+      const request = parseForgeRequest(event.data)
+      if (!request) return
+
+      const respond = (id: number, result?: unknown, error?: string) => {
+        const response: ForgeResponse = { channel: FORGE_CHANNEL, type: 'response', id, result, error }
+        iframeRef.current?.contentWindow?.postMessage(response, '*')
+      }
+
+      switch (request.type) {
+        case 'ready':
+          reportError(appId, null)
+          break
+        case 'error':
+          reportError(appId, { kind: 'runtime', message: request.message })
+          break
+        case 'setTitle':
+          if (windowId) setWindowTitle(windowId, request.title)
+          break
+        case 'notify':
+          showNotification(request.title, request.body).catch(error => console.warn('Notification failed:', error))
+          break
+        default:
+          try {
+            respond(request.id, handleStorageRequest(appId, request))
+          } catch (error: any) {
+            respond(request.id, undefined, error?.message || 'Storage error')
+          }
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [appId, windowId, reportError, setWindowTitle])
+
+  if (!app) {
+    return (
+      <div className="flex items-center justify-center h-full text-white/60 text-sm">
+        This app was deleted from AppForge.
+      </div>
+    )
+  }
+
+  if (compileError) {
+    return (
+      <div className="h-full p-4 overflow-auto">
+        <div className="flex items-center gap-2 text-red-400 mb-2">
+          <AlertCircle className="w-4 h-4" />
+          <span className="text-sm font-medium">{app.name} failed to compile</span>
+        </div>
+        <pre className="text-red-300 text-xs font-mono whitespace-pre-wrap">{compileError}</pre>
+      </div>
+    )
+  }
+
+  if (!sandboxDocument) {
+    return (
+      <div className="flex items-center justify-center h-full text-white/60 text-sm gap-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Compiling {app.name}...
+      </div>
+    )
+  }
+
+  return (
+    <iframe
+      ref={iframeRef}
+      title={app.name}
+      srcDoc={sandboxDocument}
+      sandbox="allow-scripts"
+      className="w-full h-full border-0 bg-transparent"
+    />
+  )
+}
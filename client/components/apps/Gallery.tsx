@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   ArrowLeft, Search, MoreHorizontal, Download, Share2, 
@@ -8,6 +8,8 @@ import {
   ZoomIn, ZoomOut, Maximize2
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { vfs, VfsEntry, VFS_PATHS, basename } from '@/services/vfs'
+import { useVfsDirectory, useVfsObjectUrls } from '@/hooks/useVfs'
 
 interface MediaItem {
   id: string
@@ -24,90 +26,45 @@ interface MediaItem {
 type ViewMode = 'grid' | 'list'
 type SortBy = 'date' | 'name' | 'size' | 'type'
 
-export const Gallery: React.FC = () => {
-  const [mediaItems, setMediaItems] = useState<MediaItem[]>([])
+const isMedia = (entry: VfsEntry) =>
+  entry.type === 'file' && !!entry.mimeType && (entry.mimeType.startsWith('image/') || entry.mimeType.startsWith('video/'))
+
+interface GalleryProps {
+  windowId?: string
+  // Media file to show on open, e.g. when launched from Files
+  path?: string
+}
+
+export const Gallery: React.FC<GalleryProps> = ({ path }) => {
+  const { entries: pictures } = useVfsDirectory(VFS_PATHS.pictures, { recursive: true, create: true })
+  const { entries: videos } = useVfsDirectory(VFS_PATHS.videos, { recursive: true, create: true })
+  const mediaEntries = useMemo(() => [...pictures, ...videos].filter(isMedia), [pictures, videos])
+  const urls = useVfsObjectUrls(mediaEntries)
+
+  // Media comes from the Pictures and Videos folders; sub-folders such as Camera act as albums
+  const mediaItems = useMemo<MediaItem[]>(() => mediaEntries.map(entry => ({
+    id: entry.path,
+    name: entry.name.replace(/\.[^.]+$/, ''),
+    url: urls[entry.path] || '',
+    type: entry.mimeType!.startsWith('video/') ? 'video' : 'photo',
+    size: entry.size,
+    timestamp: new Date(entry.created),
+    favorite: !!entry.starred,
+    album: entry.parent === VFS_PATHS.pictures || entry.parent === VFS_PATHS.videos ? undefined : basename(entry.parent),
+    tags: Array.isArray(entry.meta?.tags) ? (entry.meta!.tags as string[]) : []
+  })), [mediaEntries, urls])
+
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set())
   const [viewMode, setViewMode] = useState<ViewMode>('grid')
   const [sortBy, setSortBy] = useState<SortBy>('date')
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedAlbum, setSelectedAlbum] = useState<string>('all')
-  const [showDetails, setShowDetails] = useState(false)
-  const [currentItem, setCurrentItem] = useState<MediaItem | null>(null)
+  const [showDetails, setShowDetails] = useState(!!path)
+  const [currentItemId, setCurrentItemId] = useState<string | null>(path || null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [selectionMode, setSelectionMode] = useState(false)
 
-  // Load sample media items
-  useEffect(() => {
-    const sampleMedia: MediaItem[] = [
-      {
-        id: '1',
-        name: 'Mountain Sunset',
-        url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400',
-        type: 'photo',
-        size: 2480000,
-        timestamp: new Date('2024-01-15'),
-        favorite: true,
-        album: 'Nature',
-        tags: ['sunset', 'mountain', 'landscape']
-      },
-      {
-        id: '2',
-        name: 'City Lights',
-        url: 'https://images.unsplash.com/photo-1519501025264-65ba15a82390?w=400',
-        type: 'photo',
-        size: 1920000,
-        timestamp: new Date('2024-01-14'),
-        favorite: false,
-        album: 'Urban',
-        tags: ['city', 'night', 'lights']
-      },
-      {
-        id: '3',
-        name: 'Ocean Waves',
-        url: 'https://images.unsplash.com/photo-1505142468610-359e7d316be0?w=400',
-        type: 'video',
-        size: 15600000,
-        timestamp: new Date('2024-01-13'),
-        favorite: true,
-        album: 'Nature',
-        tags: ['ocean', 'waves', 'beach']
-      },
-      {
-        id: '4',
-        name: 'Forest Path',
-        url: 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=400',
-        type: 'photo',
-        size: 3100000,
-        timestamp: new Date('2024-01-12'),
-        favorite: false,
-        album: 'Nature',
-        tags: ['forest', 'path', 'trees']
-      },
-      {
-        id: '5',
-        name: 'Abstract Art',
-        url: 'https://images.unsplash.com/photo-1541961017774-22349e4a1262?w=400',
-        type: 'photo',
-        size: 1450000,
-        timestamp: new Date('2024-01-11'),
-        favorite: false,
-        album: 'Art',
-        tags: ['abstract', 'colorful', 'art']
-      },
-      {
-        id: '6',
-        name: 'Street Performance',
-        url: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400',
-        type: 'video',
-        size: 22400000,
-        timestamp: new Date('2024-01-10'),
-        favorite: true,
-        album: 'Urban',
-        tags: ['street', 'performance', 'music']
-      }
-    ]
-    setMediaItems(sampleMedia)
-  }, [])
+  const currentItem = mediaItems.find(item => item.id === currentItemId) || null
 
   // Get unique albums
   const albums = ['all', ...Array.from(new Set(mediaItems.map(item => item.album).filter(Boolean)))]
@@ -147,16 +104,19 @@ export const Gallery: React.FC = () => {
 
   // Toggle favorite
   const toggleFavorite = (itemId: string) => {
-    setMediaItems(prev => 
-      prev.map(item => 
-        item.id === itemId ? { ...item, favorite: !item.favorite } : item
-      )
-    )
+    const item = mediaItems.find(i => i.id === itemId)
+    if (!item) return
+    vfs.updateMetadata(itemId, { starred: !item.favorite })
+      .catch(error => console.error('Failed to update favorite:', error))
   }
 
   // Delete selected items
-  const deleteSelectedItems = () => {
-    setMediaItems(prev => prev.filter(item => !selectedItems.has(item.id)))
+  const deleteSelectedItems = async () => {
+    try {
+      for (const itemId of selectedItems) await vfs.remove(itemId)
+    } catch (error) {
+      console.error('Failed to delete media:', error)
+    }
     setSelectedItems(new Set())
     setSelectionMode(false)
   }
@@ -172,7 +132,7 @@ export const Gallery: React.FC = () => {
 
   // Open item in detail view
   const openDetailView = (item: MediaItem) => {
-    setCurrentItem(item)
+    setCurrentItemId(item.id)
     setShowDetails(true)
   }
 
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { RotateCcw, Trophy, Star, Zap, Target } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { userStorage } from '@/lib/user-storage'
 
 interface Tile {
   id: string
@@ -49,13 +50,13 @@ const TILE_COLORS = {
 export const Game2048: React.FC = () => {
   const gameRef = useRef<HTMLDivElement>(null)
   const [gameState, setGameState] = useState<GameState>(() => {
-    const saved = localStorage.getItem('nyx-2048-game')
+    const saved = userStorage.getItem('nyx-2048-game')
     if (saved) {
       try {
         const parsed = JSON.parse(saved)
         return {
           ...parsed,
-          bestScore: localStorage.getItem('nyx-2048-best') ? parseInt(localStorage.getItem('nyx-2048-best')!) : 0
+          bestScore: userStorage.getItem('nyx-2048-best') ? parseInt(userStorage.getItem('nyx-2048-best')!) : 0
         }
       } catch {
         // Fall through to default state
@@ -65,7 +66,7 @@ export const Game2048: React.FC = () => {
     return {
       board: Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(null)),
       score: 0,
-      bestScore: localStorage.getItem('nyx-2048-best') ? parseInt(localStorage.getItem('nyx-2048-best')!) : 0,
+      bestScore: userStorage.getItem('nyx-2048-best') ? parseInt(userStorage.getItem('nyx-2048-best')!) : 0,
       isGameOver: false,
       isWon: false,
       tiles: [],
@@ -93,9 +94,9 @@ export const Game2048: React.FC = () => {
 
   // Save game state
   useEffect(() => {
-    localStorage.setItem('nyx-2048-game', JSON.stringify(gameState))
+    userStorage.setItem('nyx-2048-game', JSON.stringify(gameState))
     if (gameState.score > gameState.bestScore) {
-      localStorage.setItem('nyx-2048-best', gameState.score.toString())
+      userStorage.setItem('nyx-2048-best', gameState.score.toString())
     }
   }, [gameState])
 
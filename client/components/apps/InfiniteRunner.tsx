@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Play, Pause, RotateCcw, Trophy, Zap } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { userStorage } from '@/lib/user-storage'
 
 interface Obstacle {
   x: number
@@ -56,7 +57,7 @@ export const InfiniteRunner: React.FC = () => {
   })
   
   const [highScore, setHighScore] = useState(() => {
-    return parseInt(localStorage.getItem('nyx-runner-highscore') || '0')
+    return parseInt(userStorage.getItem('nyx-runner-highscore') || '0')
   })
   
   const playerWidth = 40
@@ -158,7 +159,7 @@ export const InfiniteRunner: React.FC = () => {
           newState.isGameOver = true
           if (newState.score > highScore) {
             setHighScore(newState.score)
-            localStorage.setItem('nyx-runner-highscore', newState.score.toString())
+            userStorage.setItem('nyx-runner-highscore', newState.score.toString())
           }
         }
         break
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Brain, 
@@ -19,15 +19,18 @@ import {
   VolumeX
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { useSamStore, UserMemory, Alarm, ScheduleEvent } from '@/store/sam-store'
+import { useSamStore, UserMemory, Alarm } from '@/store/sam-store'
+import { useCalendarStore } from '@/store/calendar-store'
+import { describeConflicts, formatTime, occurrenceKey, occurrencesBetween, withTime, type CalendarEvent } from '@/lib/calendar'
 
 type TabType = 'memory' | 'alarms' | 'schedule'
 
+const SCHEDULE_DAYS = 14
+
 export const MemoryAlarms: React.FC = () => {
   const {
     userMemories,
     alarms,
-    schedule,
     userName,
     addMemory,
     updateMemory,
@@ -37,14 +40,15 @@ export const MemoryAlarms: React.FC = () => {
     updateAlarm,
     removeAlarm,
     toggleAlarm,
-    addScheduleEvent,
-    updateScheduleEvent,
-    removeScheduleEvent,
-    getTodayEvents,
     setUserName,
     addMessage,
     setEmotion
   } = useSamStore()
+  const { events, load: loadCalendar, addEvent, removeEvent } = useCalendarStore()
+
+  useEffect(() => {
+    loadCalendar()
+  }, [loadCalendar])
 
   const [activeTab, setActiveTab] = useState<TabType>('memory')
   const [searchTerm, setSearchTerm] = useState('')
@@ -73,33 +77,18 @@ export const MemoryAlarms: React.FC = () => {
     description: '',
     startTime: '',
     endTime: '',
-    category: 'personal' as ScheduleEvent['category'],
-    priority: 'medium' as ScheduleEvent['priority']
+    type: 'personal' as CalendarEvent['type'],
+    priority: 'medium' as CalendarEvent['priority']
   })
 
-  // Check for triggered alarms
-  useEffect(() => {
-    const checkAlarms = () => {
-      const now = new Date()
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
-      
-      alarms.forEach(alarm => {
-        if (alarm.enabled && alarm.time === currentTime) {
-          setEmotion('excited', 0.8)
-          addMessage(`🔔 Alarm: ${alarm.title}${alarm.message ? ` - ${alarm.message}` : ''}`, 'sam', 'excited')
-          
-          if (alarm.sound) {
-            // Play alarm sound
-            const audio = new Audio('data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmUeCTaN0fPTgjMGHm7C7+OZTS0NVqzn77BdGAg+ltryxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9')
-            audio.play().catch(console.error)
-          }
-        }
-      })
-    }
-
-    const interval = setInterval(checkAlarms, 60000) // Check every minute
-    return () => clearInterval(interval)
-  }, [alarms, setEmotion, addMessage])
+  // The same events the Calendar shows, as occurrences over the next two weeks
+  const upcoming = useMemo(() => {
+    const today = new Date()
+    const from = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + SCHEDULE_DAYS)
+    return occurrencesBetween(events.filter(e => e.status !== 'cancelled'), from, to)
+      .sort((a, b) => withTime(a.date, a.startTime).getTime() - withTime(b.date, b.startTime).getTime())
+  }, [events])
 
   const filteredMemories = userMemories.filter(memory => {
     const matchesSearch = memory.key.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -141,15 +130,22 @@ export const MemoryAlarms: React.FC = () => {
       const startTime = new Date(newEventForm.startTime)
       const endTime = newEventForm.endTime ? new Date(newEventForm.endTime) : new Date(startTime.getTime() + 60 * 60 * 1000)
       
-      addScheduleEvent({
+      const event = {
         title: newEventForm.title,
-        description: newEventForm.description,
-        startTime,
-        endTime,
-        category: newEventForm.category,
-        priority: newEventForm.priority
-      })
-      setNewEventForm({ title: '', description: '', startTime: '', endTime: '', category: 'personal', priority: 'medium' })
+        description: newEventForm.description || undefined,
+        date: new Date(startTime.getFullYear(), startTime.getMonth(), startTime.getDate()),
+        startTime: formatTime(startTime),
+        endTime: formatTime(endTime),
+        type: newEventForm.type,
+        priority: newEventForm.priority,
+        reminders: [15]
+      }
+      const { event: added, conflicts } = addEvent(event)
+      if (!added) {
+        if (!window.confirm(`This overlaps ${describeConflicts(conflicts)}. Save anyway?`)) return
+        addEvent(event, { allowConflicts: true })
+      }
+      setNewEventForm({ title: '', description: '', startTime: '', endTime: '', type: 'personal', priority: 'medium' })
       setIsAddingNew(false)
       setEmotion('excited', 0.7)
       addMessage(`Event scheduled! I'll keep track of "${newEventForm.title}" for you.`, 'sam', 'excited')
@@ -416,6 +412,11 @@ export const MemoryAlarms: React.FC = () => {
                       {alarm.time} {alarm.date && `on ${alarm.date}`}
                       {alarm.recurring !== 'none' && ` (${alarm.recurring})`}
                     </p>
+                    {alarm.snoozedUntil && alarm.snoozedUntil > Date.now() && (
+                      <p className="text-yellow-400 text-sm">
+                        Snoozed until {new Date(alarm.snoozedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    )}
                     {alarm.message && <p className="text-purple-400 text-sm">{alarm.message}</p>}
                   </div>
                 </div>
@@ -491,23 +492,26 @@ export const MemoryAlarms: React.FC = () => {
           </div>
           <div className="grid grid-cols-2 gap-4">
             <select
-              value={newEventForm.category}
-              onChange={(e) => setNewEventForm({ ...newEventForm, category: e.target.value as ScheduleEvent['category'] })}
+              value={newEventForm.type}
+              onChange={(e) => setNewEventForm({ ...newEventForm, type: e.target.value as CalendarEvent['type'] })}
               className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded text-white focus:border-purple-400/50 focus:outline-none"
             >
               <option value="personal">Personal</option>
               <option value="work">Work</option>
               <option value="meeting">Meeting</option>
               <option value="reminder">Reminder</option>
+              <option value="task">Task</option>
+              <option value="appointment">Appointment</option>
             </select>
             <select
               value={newEventForm.priority}
-              onChange={(e) => setNewEventForm({ ...newEventForm, priority: e.target.value as ScheduleEvent['priority'] })}
+              onChange={(e) => setNewEventForm({ ...newEventForm, priority: e.target.value as CalendarEvent['priority'] })}
               className="px-3 py-2 bg-black/40 border border-purple-500/30 rounded text-white focus:border-purple-400/50 focus:outline-none"
             >
               <option value="low">Low Priority</option>
               <option value="medium">Medium Priority</option>
               <option value="high">High Priority</option>
+              <option value="urgent">Urgent</option>
             </select>
           </div>
           <div className="flex gap-2">
@@ -531,13 +535,16 @@ export const MemoryAlarms: React.FC = () => {
 
       {/* Schedule list */}
       <div className="space-y-2">
-        {schedule.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()).map((event) => (
+        {upcoming.length === 0 && (
+          <p className="text-purple-300/70 text-center py-8">Nothing scheduled for the next {SCHEDULE_DAYS} days</p>
+        )}
+        {upcoming.map((event) => (
           <motion.div
-            key={event.id}
+            key={occurrenceKey(event)}
             className={cn(
               "bg-black/40 border border-purple-500/30 rounded-lg p-4",
               {
-                'border-red-500/30': event.priority === 'high',
+                'border-red-500/30': event.priority === 'high' || event.priority === 'urgent',
                 'border-yellow-500/30': event.priority === 'medium',
                 'border-gray-500/30': event.priority === 'low'
               }
@@ -552,18 +559,19 @@ export const MemoryAlarms: React.FC = () => {
                   <span className={cn(
                     "px-2 py-1 rounded text-xs",
                     {
-                      'bg-blue-500/20 text-blue-400': event.category === 'personal',
-                      'bg-green-500/20 text-green-400': event.category === 'work',
-                      'bg-purple-500/20 text-purple-400': event.category === 'meeting',
-                      'bg-yellow-500/20 text-yellow-400': event.category === 'reminder'
+                      'bg-blue-500/20 text-blue-400': event.type === 'personal',
+                      'bg-green-500/20 text-green-400': event.type === 'work',
+                      'bg-purple-500/20 text-purple-400': event.type === 'meeting',
+                      'bg-yellow-500/20 text-yellow-400': event.type === 'reminder',
+                      'bg-gray-500/20 text-gray-300': event.type === 'task' || event.type === 'appointment'
                     }
                   )}>
-                    {event.category}
+                    {event.type}
                   </span>
                   <span className={cn(
                     "px-2 py-1 rounded text-xs",
                     {
-                      'bg-red-500/20 text-red-400': event.priority === 'high',
+                      'bg-red-500/20 text-red-400': event.priority === 'high' || event.priority === 'urgent',
                       'bg-yellow-500/20 text-yellow-400': event.priority === 'medium',
                       'bg-gray-500/20 text-gray-400': event.priority === 'low'
                     }
@@ -573,11 +581,11 @@ export const MemoryAlarms: React.FC = () => {
                 </div>
                 {event.description && <p className="text-purple-300 mb-2">{event.description}</p>}
                 <p className="text-purple-400 text-sm">
-                  {event.startTime.toLocaleDateString()} {event.startTime.toLocaleTimeString()} - {event.endTime.toLocaleTimeString()}
+                  {event.date.toLocaleDateString()} {event.isAllDay ? 'All day' : `${event.startTime} - ${event.endTime}`}
                 </p>
               </div>
               <button
-                onClick={() => removeScheduleEvent(event.id)}
+                onClick={() => removeEvent(event.id)}
                 className="p-1 hover:bg-red-500/20 rounded transition-colors"
               >
                 <Trash2 className="w-4 h-4 text-red-400" />
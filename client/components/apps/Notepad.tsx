@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo, useDeferredValue } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Save, 
@@ -25,10 +25,28 @@ import {
   RotateCw,
   ZoomIn,
   ZoomOut,
-  Type
+  Type,
+  Eye,
+  Columns2,
+  ListTree
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useSamStore } from '@/store/sam-store'
+import { vfs } from '@/services/vfs'
+import { downloadFile } from '@/lib/download'
+import { useUndoableState } from '@/hooks/useUndoableState'
+import { markdownHeadings, markdownTableOfContents, markdownToHtml } from '@/lib/markdown'
+import { highlightCode } from '@/lib/syntax-highlight'
+import { markdownToHtmlDocument } from '@/lib/file-conversion'
+import {
+  NOTES_DIRECTORY,
+  StoredNote,
+  createNote,
+  deleteNote as deleteStoredNote,
+  loadNote,
+  loadNotes,
+  saveNote
+} from '@/lib/notes-storage'
 
 interface NoteFile {
   id: string
@@ -38,22 +56,14 @@ interface NoteFile {
   tags: string[]
 }
 
-export const Notepad: React.FC = () => {
-  const { addMessage, setEmotion } = useSamStore()
-  
-  const [notes, setNotes] = useState<NoteFile[]>(() => {
-    const saved = localStorage.getItem('nyx-notepad-files')
-    return saved ? JSON.parse(saved) : [
-      {
-        id: 'welcome',
-        name: 'Welcome to Nyx Notepad',
-        content: `# Welcome to Nyx Notepad
+const WELCOME_CONTENT = `# Welcome to Nyx Notepad
 
 This is your quantum text editor! Here's what you can do:
 
 ## Features:
 - Create, edit, and save notes
 - Rich text formatting
+- Markdown preview side by side, with a table of contents
 - Search functionality
 - Export to various formats
 - Auto-save (every 30 seconds)
@@ -68,15 +78,55 @@ This is your quantum text editor! Here's what you can do:
 - Ctrl+I: Italic
 - Ctrl+U: Underline
 
-Start typing and let your ideas flow!`,
-        lastModified: new Date(),
-        tags: ['welcome', 'guide']
-      }
-    ]
-  })
+Start typing and let your ideas flow!`
+
+const WELCOME_NOTE: NoteFile = {
+  id: `${NOTES_DIRECTORY}/Welcome to Nyx Notepad.txt`,
+  name: 'Welcome to Nyx Notepad',
+  content: WELCOME_CONTENT,
+  lastModified: new Date(),
+  tags: ['welcome', 'guide']
+}
+
+const toNoteFile = (note: StoredNote): NoteFile => ({
+  id: note.path,
+  name: note.title,
+  content: note.content,
+  lastModified: note.modified,
+  tags: note.tags
+})
+
+// Notes are written in Markdown; the preview renders it beside or instead of the source
+type ViewMode = 'edit' | 'split' | 'preview'
+
+const VIEW_MODES: { mode: ViewMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'edit', label: 'Editor only', icon: Edit3 },
+  { mode: 'split', label: 'Editor and preview', icon: Columns2 },
+  { mode: 'preview', label: 'Preview only', icon: Eye },
+]
+
+interface NotepadProps {
+  windowId?: string
+  // File to open, e.g. when launched from Files
+  path?: string
+}
+
+export const Notepad: React.FC<NotepadProps> = ({ windowId, path }) => {
+  const { addMessage, setEmotion } = useSamStore()
+  
+  // Notes are files in the virtual filesystem; the welcome note shows until they are loaded
+  const [notes, setNotes] = useState<NoteFile[]>([WELCOME_NOTE])
   
   const [currentNote, setCurrentNote] = useState<NoteFile>(notes[0])
-  const [content, setContent] = useState(currentNote.content)
+  const {
+    state: content,
+    setState: setContent,
+    reset: resetContent,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState(currentNote.content, { windowId })
   const [showFileExplorer, setShowFileExplorer] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [isSearchOpen, setIsSearchOpen] = useState(false)
@@ -87,14 +137,14 @@ Start typing and let your ideas flow!`,
   const [showNewNoteDialog, setShowNewNoteDialog] = useState(false)
   const [newNoteName, setNewNoteName] = useState('')
   const [selectedText, setSelectedText] = useState('')
-  const [undoHistory, setUndoHistory] = useState<string[]>([currentNote.content])
-  const [redoHistory, setRedoHistory] = useState<string[]>([])
-  const [historyIndex, setHistoryIndex] = useState(0)
+  // Files opened as .md start side by side with their preview
+  const [viewMode, setViewMode] = useState<ViewMode>(path?.toLowerCase().endsWith('.md') ? 'split' : 'edit')
+  const [showOutline, setShowOutline] = useState(false)
 
   const textAreaRef = useRef<HTMLTextAreaElement>(null)
+  const previewRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const historyTimerRef = useRef<NodeJS.Timeout | null>(null)
 
   // Auto-save functionality
   useEffect(() => {
@@ -120,10 +170,47 @@ Start typing and let your ideas flow!`,
     setHasUnsavedChanges(content !== currentNote.content)
   }, [content, currentNote.content])
 
-  // Save notes to localStorage whenever notes change
+  // Load notes from the filesystem and keep the list in sync with other apps
   useEffect(() => {
-    localStorage.setItem('nyx-notepad-files', JSON.stringify(notes))
-  }, [notes])
+    let cancelled = false
+
+    const refresh = async () => {
+      let stored = await loadNotes()
+      if (stored.length === 0) {
+        stored = [await createNote(WELCOME_NOTE.name, WELCOME_CONTENT, WELCOME_NOTE.tags)]
+      }
+      if (cancelled) return
+      setNotes(prev => {
+        const loaded = stored.map(toNoteFile)
+        // Keep notes opened from elsewhere in the filesystem in the list
+        const external = prev.filter(note => !note.id.startsWith(`${NOTES_DIRECTORY}/`) && !loaded.some(n => n.id === note.id))
+        return [...loaded, ...external]
+      })
+      return stored
+    }
+
+    refresh()
+      .then(async stored => {
+        if (cancelled || !stored) return
+        const requested = path ? await loadNote(path) : null
+        if (cancelled) return
+        const initial = requested ? toNoteFile(requested) : toNoteFile(stored.find(n => n.path === currentNote.id) || stored[0])
+        if (requested && !stored.some(n => n.path === requested.path)) {
+          setNotes(prev => [...prev, initial])
+        }
+        setCurrentNote(initial)
+        resetContent(initial.content)
+      })
+      .catch(error => console.error('Failed to load notes:', error))
+
+    const unwatch = vfs.watch(NOTES_DIRECTORY, () => {
+      refresh().catch(error => console.error('Failed to refresh notes:', error))
+    })
+    return () => {
+      cancelled = true
+      unwatch()
+    }
+  }, [path])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -158,14 +245,6 @@ Start typing and let your ideas flow!`,
             e.preventDefault()
             applyFormatting('underline')
             break
-          case 'z':
-            e.preventDefault()
-            if (e.shiftKey) {
-              redo()
-            } else {
-              undo()
-            }
-            break
         }
       }
     }
@@ -174,76 +253,40 @@ Start typing and let your ideas flow!`,
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [])
 
-  const addToHistory = (newContent: string) => {
-    // Debounce history updates to prevent performance issues
-    if (historyTimerRef.current) {
-      clearTimeout(historyTimerRef.current)
-    }
-
-    historyTimerRef.current = setTimeout(() => {
-      const newHistory = undoHistory.slice(0, historyIndex + 1)
-      newHistory.push(newContent)
-      setUndoHistory(newHistory)
-      setHistoryIndex(newHistory.length - 1)
-      setRedoHistory([])
-    }, 500) // Wait 500ms before adding to history
-  }
-
-  const undo = () => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1
-      setHistoryIndex(newIndex)
-      setContent(undoHistory[newIndex])
-    }
-  }
-
-  const redo = () => {
-    if (historyIndex < undoHistory.length - 1) {
-      const newIndex = historyIndex + 1
-      setHistoryIndex(newIndex)
-      setContent(undoHistory[newIndex])
-    }
-  }
-
-  const saveCurrentNote = () => {
-    const updatedNote = {
-      ...currentNote,
-      content,
-      lastModified: new Date()
-    }
-    
-    setNotes(prev => prev.map(note => 
-      note.id === currentNote.id ? updatedNote : note
-    ))
-    
-    setCurrentNote(updatedNote)
-    setHasUnsavedChanges(false)
-    
+  const saveCurrentNote = async () => {
     if (autoSaveTimerRef.current) {
       clearTimeout(autoSaveTimerRef.current)
     }
-    
-    setEmotion('happy', 0.6)
-    addMessage(`Note "${currentNote.name}" saved successfully!`, 'sam', 'happy')
+
+    try {
+      const updatedNote = toNoteFile(await saveNote({ path: currentNote.id, content, tags: currentNote.tags }))
+      
+      setNotes(prev => prev.map(note => 
+        note.id === currentNote.id ? updatedNote : note
+      ))
+      
+      setCurrentNote(updatedNote)
+      setHasUnsavedChanges(false)
+      
+      setEmotion('happy', 0.6)
+      addMessage(`Note "${currentNote.name}" saved successfully!`, 'sam', 'happy')
+    } catch (error) {
+      console.error('Failed to save note:', error)
+      setEmotion('confused', 0.7)
+      addMessage(`Couldn't save "${currentNote.name}": ${error instanceof Error ? error.message : error}`, 'sam', 'confused')
+    }
   }
 
-  const createNewNote = () => {
+  const createNewNote = async () => {
     if (!newNoteName.trim()) return
     
-    const newNote: NoteFile = {
-      id: `note-${Date.now()}`,
-      name: newNoteName.trim(),
-      content: '',
-      lastModified: new Date(),
-      tags: []
-    }
+    const newNote = toNoteFile(await createNote(newNoteName.trim()))
     
-    setNotes(prev => [...prev, newNote])
+    setNotes(prev => prev.some(note => note.id === newNote.id) ? prev : [...prev, newNote])
     setCurrentNote(newNote)
-    setContent('')
+    resetContent('')
     setNewNoteName('')
     setShowNewNoteDialog(false)
-    addToHistory('')
     
     setEmotion('excited', 0.7)
     addMessage(`New note "${newNote.name}" created! Let's write something cool.`, 'sam', 'excited')
@@ -258,12 +301,8 @@ Start typing and let your ideas flow!`,
     }
     
     setCurrentNote(note)
-    setContent(note.content)
+    resetContent(note.content)
     setShowFileExplorer(false)
-    addToHistory(note.content)
-    setHistoryIndex(0)
-    setUndoHistory([note.content])
-    setRedoHistory([])
   }
 
   const deleteNote = (noteId: string) => {
@@ -273,6 +312,7 @@ Start typing and let your ideas flow!`,
     }
     
     setNotes(prev => prev.filter(note => note.id !== noteId))
+    deleteStoredNote(noteId).catch(error => console.error('Failed to delete note:', error))
     
     if (currentNote.id === noteId) {
       const remainingNotes = notes.filter(note => note.id !== noteId)
@@ -294,26 +334,14 @@ Start typing and let your ideas flow!`,
         extension = 'md'
         break
       case 'html':
-        exportContent = content
-          .replace(/\n/g, '<br>')
-          .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-          .replace(/\*(.*?)\*/g, '<em>$1</em>')
-        exportContent = `<!DOCTYPE html><html><head><title>${currentNote.name}</title></head><body>${exportContent}</body></html>`
+        exportContent = markdownToHtmlDocument(content, currentNote.name)
         mimeType = 'text/html'
         extension = 'html'
         break
     }
     
-    const blob = new Blob([exportContent], { type: mimeType })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${currentNote.name}.${extension}`
-    a.click()
-    URL.revokeObjectURL(url)
-    
+    downloadFile(new Blob([exportContent], { type: mimeType }), `${currentNote.name}.${extension}`, 'notepad')
     setEmotion('happy', 0.7)
-    addMessage(`Exported as ${format.toUpperCase()}! Download should start now.`, 'sam', 'happy')
   }
 
   const importFile = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -321,17 +349,11 @@ Start typing and let your ideas flow!`,
     if (!file) return
     
     const reader = new FileReader()
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       const content = e.target?.result as string
-      const newNote: NoteFile = {
-        id: `imported-${Date.now()}`,
-        name: file.name.replace(/\.[^/.]+$/, ''),
-        content,
-        lastModified: new Date(),
-        tags: ['imported']
-      }
+      const newNote = toNoteFile(await createNote(file.name.replace(/\.[^/.]+$/, ''), content, ['imported']))
       
-      setNotes(prev => [...prev, newNote])
+      setNotes(prev => prev.some(note => note.id === newNote.id) ? prev : [...prev, newNote])
       openNote(newNote)
       setEmotion('excited', 0.8)
       addMessage(`File imported! Welcome to the Nyx ecosystem, "${newNote.name}".`, 'sam', 'excited')
@@ -362,8 +384,7 @@ Start typing and let your ideas flow!`,
       }
       
       const newContent = content.substring(0, start) + formattedText + content.substring(end)
-      setContent(newContent)
-      addToHistory(newContent)
+      setContent(newContent, { label: 'Format' })
     }
   }
 
@@ -376,6 +397,55 @@ Start typing and let your ideas flow!`,
     }
   }
 
+  // The preview follows typing at a lower priority, so long notes don't lag the editor
+  const previewSource = useDeferredValue(content)
+  const previewHtml = useMemo(
+    () => viewMode === 'edit' ? '' : markdownToHtml(previewSource, { headingIds: true, highlight: highlightCode }),
+    [previewSource, viewMode]
+  )
+  const headings = useMemo(() => markdownHeadings(previewSource), [previewSource])
+
+  const scrollPreviewTo = (id: string) => {
+    previewRef.current?.querySelector(`[id="${CSS.escape(id)}"]`)?.scrollIntoView({ block: 'start', behavior: 'smooth' })
+  }
+
+  const goToHeading = (id: string) => {
+    if (viewMode === 'edit') {
+      setViewMode('split')
+      // The preview mounts with this render
+      requestAnimationFrame(() => scrollPreviewTo(id))
+    } else {
+      scrollPreviewTo(id)
+    }
+  }
+
+  const insertTableOfContents = () => {
+    if (headings.length === 0) return
+    const textarea = textAreaRef.current
+    const position = textarea ? textarea.selectionStart : 0
+    const toc = `${markdownTableOfContents(headings)}\n\n`
+    setContent(content.substring(0, position) + toc + content.substring(position), { label: 'Insert table of contents' })
+  }
+
+  // Links in the preview jump to headings or open in the browser, never in place of the app
+  const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest('a')
+    if (!link) return
+    e.preventDefault()
+    const href = link.getAttribute('href') || ''
+    if (href.startsWith('#')) scrollPreviewTo(decodeURIComponent(href.slice(1)))
+    else window.open(href, '_blank', 'noopener,noreferrer')
+  }
+
+  // Side by side, the preview keeps to the same relative position as the editor
+  const syncPreviewScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    const preview = previewRef.current
+    if (!preview || viewMode !== 'split') return
+    const editor = e.currentTarget
+    const ratio = editor.scrollTop / Math.max(1, editor.scrollHeight - editor.clientHeight)
+    preview.scrollTop = ratio * (preview.scrollHeight - preview.clientHeight)
+  }
+
   const filteredNotes = notes.filter(note =>
     note.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     note.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -464,7 +534,7 @@ Start typing and let your ideas flow!`,
           {/* Undo/Redo */}
           <button
             onClick={undo}
-            disabled={historyIndex <= 0}
+            disabled={!canUndo}
             className="p-1.5 hover:bg-purple-500/20 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             title="Undo (Ctrl+Z)"
           >
@@ -472,7 +542,7 @@ Start typing and let your ideas flow!`,
           </button>
           <button
             onClick={redo}
-            disabled={historyIndex >= undoHistory.length - 1}
+            disabled={!canRedo}
             className="p-1.5 hover:bg-purple-500/20 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             title="Redo (Ctrl+Shift+Z)"
           >
@@ -522,6 +592,33 @@ Start typing and let your ideas flow!`,
             onChange={importFile}
             className="hidden"
           />
+
+          <div className="w-px h-6 bg-purple-500/20 mx-2" />
+
+          {/* Markdown view */}
+          {VIEW_MODES.map(({ mode, label, icon: Icon }) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={cn(
+                "p-1.5 rounded transition-colors",
+                viewMode === mode ? "bg-purple-500/30" : "hover:bg-purple-500/20"
+              )}
+              title={label}
+            >
+              <Icon className="w-4 h-4 text-purple-400" />
+            </button>
+          ))}
+          <button
+            onClick={() => setShowOutline(!showOutline)}
+            className={cn(
+              "p-1.5 rounded transition-colors",
+              showOutline ? "bg-purple-500/30" : "hover:bg-purple-500/20"
+            )}
+            title="Table of Contents"
+          >
+            <ListTree className="w-4 h-4 text-purple-400" />
+          </button>
         </div>
         
         <div className="flex items-center gap-4 text-sm text-purple-300">
@@ -589,29 +686,79 @@ Start typing and let your ideas flow!`,
       </AnimatePresence>
 
       {/* Main Editor Area */}
-      <div className="flex-1 flex">
+      <div className="flex-1 flex min-h-0">
+        {/* Table of Contents */}
+        {showOutline && (
+          <div className="w-56 flex flex-col border-r border-purple-500/20 bg-black/20">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-purple-500/10">
+              <span className="text-sm font-medium text-purple-200">Contents</span>
+              <button
+                onClick={insertTableOfContents}
+                disabled={headings.length === 0}
+                className="p-1 hover:bg-purple-500/20 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Insert table of contents at the cursor"
+              >
+                <Plus className="w-3.5 h-3.5 text-purple-400" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2">
+              {headings.length === 0 ? (
+                <p className="px-2 text-xs text-purple-300/60">Headings (# Title) appear here.</p>
+              ) : (
+                headings.map(heading => (
+                  <button
+                    key={heading.id}
+                    onClick={() => goToHeading(heading.id)}
+                    className="block w-full truncate text-left py-1 pr-2 rounded text-sm text-purple-300 hover:bg-purple-500/20 hover:text-white"
+                    style={{ paddingLeft: `${0.5 + (heading.level - 1) * 0.75}rem` }}
+                    title={heading.text}
+                  >
+                    {heading.text}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Text Editor */}
-        <div className="flex-1 p-4">
-          <textarea
-            ref={textAreaRef}
-            value={content}
-            onChange={(e) => {
-              setContent(e.target.value)
-              // Only add to history after user stops typing
-              addToHistory(e.target.value)
-            }}
-            onSelect={getTextSelection}
-            placeholder="Start writing your masterpiece..."
-            className={cn(
-              "w-full h-full bg-black/20 border border-purple-500/30 rounded-lg p-4 text-white placeholder-purple-300/50 focus:border-purple-400/50 focus:outline-none resize-none",
-              wordWrap ? "whitespace-pre-wrap" : "whitespace-pre overflow-x-auto"
-            )}
-            style={{
-              fontSize: `${fontSize}px`,
-              fontFamily: 'JetBrains Mono, Consolas, Monaco, monospace'
-            }}
-          />
-        </div>
+        {viewMode !== 'preview' && (
+          <div className="flex-1 min-w-0 p-4">
+            <textarea
+              ref={textAreaRef}
+              value={content}
+              onChange={(e) => {
+                // A burst of typing undoes as one step
+                setContent(e.target.value, { coalesce: 'typing' })
+              }}
+              onSelect={getTextSelection}
+              onScroll={syncPreviewScroll}
+              placeholder="Start writing your masterpiece..."
+              className={cn(
+                "w-full h-full bg-black/20 border border-purple-500/30 rounded-lg p-4 text-white placeholder-purple-300/50 focus:border-purple-400/50 focus:outline-none resize-none",
+                wordWrap ? "whitespace-pre-wrap" : "whitespace-pre overflow-x-auto"
+              )}
+              style={{
+                fontSize: `${fontSize}px`,
+                fontFamily: 'JetBrains Mono, Consolas, Monaco, monospace'
+              }}
+            />
+          </div>
+        )}
+
+        {/* Markdown Preview */}
+        {viewMode !== 'edit' && (
+          <div className={cn("flex-1 min-w-0 p-4", viewMode === 'split' && "pl-0")}>
+            <div
+              ref={previewRef}
+              onClick={handlePreviewClick}
+              className="markdown-preview h-full overflow-y-auto bg-black/20 border border-purple-500/30 rounded-lg p-6"
+              style={{ fontSize: `${fontSize + 1}px` }}
+              // markdownToHtml escapes raw HTML and drops unsafe link schemes
+              dangerouslySetInnerHTML={{ __html: previewHtml }}
+            />
+          </div>
+        )}
       </div>
 
       {/* Status Bar */}
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { SlideCanvas } from '@/components/apps/SlideCanvas'
+import { navigationForKey } from '@/lib/presentation'
+import { AudienceState, openPresentationChannel, PresentationChannel } from '@/lib/presentation-sync'
+
+// The audience side of presenter mode: a full-window slide that follows the
+// presenter console. Keys and clicks here drive the presenter, so a clicker
+// works whichever of the two windows has focus.
+export const PresentationAudience: React.FC<{ session: string }> = ({ session }) => {
+  const [state, setState] = useState<AudienceState | null>(null)
+  const [ended, setEnded] = useState(false)
+  const channelRef = useRef<PresentationChannel | null>(null)
+
+  useEffect(() => {
+    const channel = openPresentationChannel(session)
+    channelRef.current = channel
+    const unsubscribe = channel.subscribe(message => {
+      if (message.type === 'state' && message.state) {
+        setState(message.state)
+        setEnded(false)
+      } else if (message.type === 'end') {
+        setEnded(true)
+        window.close()
+      }
+    })
+    channel.send({ type: 'ready' })
+
+    const announceClosed = () => channel.send({ type: 'closed' })
+    window.addEventListener('beforeunload', announceClosed)
+    return () => {
+      window.removeEventListener('beforeunload', announceClosed)
+      announceClosed()
+      unsubscribe()
+      channel.close()
+    }
+  }, [session])
+
+  useEffect(() => {
+    document.title = state ? state.presentation.name : 'Presentation'
+  }, [state?.presentation.name])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = navigationForKey(event.key)
+      if (!action) return
+      event.preventDefault()
+      channelRef.current?.send({ type: 'navigate', action })
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const slide = state?.presentation.slides[state.position.slide]
+
+  return (
+    <div
+      className="w-screen h-screen bg-black cursor-none"
+      onClick={() => channelRef.current?.send({ type: 'navigate', action: 'next' })}
+      onContextMenu={(e) => {
+        e.preventDefault()
+        channelRef.current?.send({ type: 'navigate', action: 'previous' })
+      }}
+    >
+      {state && !ended ? (
+        <SlideCanvas slide={slide} step={state.position.step} blackout={state.blackout} className="w-full h-full" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-white/50 text-sm">
+          {ended ? 'The presentation has ended' : 'Waiting for the presenter…'}
+        </div>
+      )}
+    </div>
+  )
+}
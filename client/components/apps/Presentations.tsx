@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react'
+import React, { useState, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Plus,
@@ -18,36 +18,43 @@ import {
   Settings,
   Move,
   Maximize2,
+  RotateCcw,
+  RotateCw,
+  FolderOpen,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
-
-interface SlideElement {
-  id: string
-  type: 'text' | 'shape' | 'image'
-  x: number
-  y: number
-  width: number
-  height: number
-  content: string
-  color?: string
-  bgColor?: string
-  fontSize?: number
-  fontFamily?: string
-  shape?: 'rectangle' | 'circle' | 'triangle'
-  animation?: 'fade' | 'slide' | 'bounce' | 'zoom' | 'rotate' | 'none'
-  transition?: 'fade' | 'push' | 'wipe' | 'none'
-  imageUrl?: string
-  rotation?: number
-}
-
-interface Slide {
-  id: string
-  title: string
-  bgColor: string
-  textColor: string
-  elements: SlideElement[]
-  transition: 'fade' | 'push' | 'wipe' | 'none'
-}
+import { downloadFile } from '@/lib/download'
+import { ConversionError, reencodeImage } from '@/lib/file-conversion'
+import { imageSize } from '@/lib/ooxml'
+import type { PdfImagePage } from '@/lib/pdf'
+import { PPTX_MIME_TYPE, PptxError, presentationToPptx, pptxToPresentation } from '@/lib/pptx'
+import { presentationToPdf } from '@/lib/presentation-pdf'
+import { RecordOptions } from '@/lib/undo-history'
+import { useUndoableState } from '@/hooks/useUndoableState'
+import {
+  Presentation,
+  Slide,
+  SlideElement,
+  SlidePosition,
+  SlideTransition,
+  clampPosition,
+  formatElapsed,
+  isSamePosition,
+  navigate,
+  navigationForKey,
+  slideBackgroundCss,
+  slideTextColor,
+  stepCount,
+  type NavigationAction,
+} from '@/lib/presentation'
+import {
+  AudienceWindow,
+  PresentationChannel,
+  PresentationError,
+  openAudienceWindow,
+  openPresentationChannel,
+} from '@/lib/presentation-sync'
+import { SlideCanvas, getAnimationVariants } from '@/components/apps/SlideCanvas'
 
 const SLIDE_TEMPLATES = [
   { name: 'Title Slide', bgColor: 'from-purple-600 to-indigo-600', textColor: 'text-white' },
@@ -59,20 +66,206 @@ const FONTS = ['Inter', 'Georgia', 'Courier', 'Comic Sans MS', 'Trebuchet MS']
 const ANIMATIONS = ['none', 'fade', 'slide', 'bounce', 'zoom', 'rotate']
 const TRANSITIONS = ['none', 'fade', 'push', 'wipe']
 
-const getAnimationVariants = (animation: string) => {
-  const variants: Record<string, any> = {
-    'none': { initial: { opacity: 1 }, animate: { opacity: 1 } },
-    'fade': { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { duration: 0.6 } },
-    'slide': { initial: { x: -100, opacity: 0 }, animate: { x: 0, opacity: 1 }, transition: { duration: 0.6 } },
-    'bounce': { initial: { y: 50, opacity: 0 }, animate: { y: 0, opacity: 1 }, transition: { type: 'bounce', stiffness: 300 } },
-    'zoom': { initial: { scale: 0, opacity: 0 }, animate: { scale: 1, opacity: 1 }, transition: { duration: 0.5 } },
-    'rotate': { initial: { rotate: -180, opacity: 0 }, animate: { rotate: 0, opacity: 1 }, transition: { duration: 0.6 } },
+interface PresenterConsoleProps {
+  presentation: Presentation
+  startSlide: number
+  onExit: (slide: number) => void
+}
+
+// Presenter view: the current and upcoming slide, speaker notes and a timer,
+// driving an optional audience window on another screen
+const PresenterConsole: React.FC<PresenterConsoleProps> = ({ presentation, startSlide, onExit }) => {
+  const slides = presentation.slides
+  const [position, setPosition] = useState<SlidePosition>({ slide: startSlide, step: 0 })
+  const [blackout, setBlackout] = useState(false)
+  const [elapsed, setElapsed] = useState(0)
+  const [timerRunning, setTimerRunning] = useState(true)
+  const [audience, setAudience] = useState<'closed' | 'opening' | 'open'>('closed')
+  const [error, setError] = useState<string | null>(null)
+  const [session] = useState(() => Date.now().toString(36))
+  const channelRef = useRef<PresentationChannel | null>(null)
+  const audienceWindowRef = useRef<AudienceWindow | null>(null)
+  const consoleRef = useRef<HTMLDivElement>(null)
+  const elapsedRef = useRef(elapsed)
+  elapsedRef.current = elapsed
+
+  const current = clampPosition(slides, position)
+  const upcoming = navigate(slides, current, 'next')
+  const currentSlide = slides[current.slide]
+  const steps = stepCount(currentSlide)
+
+  const act = (action: NavigationAction) => {
+    if (action === 'end') {
+      onExit(current.slide)
+    } else if (action === 'blackout') {
+      setBlackout(on => !on)
+    } else {
+      setBlackout(false)
+      setPosition(previous => navigate(slides, clampPosition(slides, previous), action))
+    }
+  }
+  // The channel subscription outlives renders; it always calls the latest act
+  const actRef = useRef(act)
+  actRef.current = act
+  const stateRef = useRef({ presentation, position: current, blackout })
+  stateRef.current = { presentation, position: current, blackout }
+
+  useEffect(() => {
+    const channel = openPresentationChannel(session)
+    channelRef.current = channel
+    const unsubscribe = channel.subscribe(message => {
+      if (message.type === 'ready') {
+        setAudience('open')
+        channel.send({ type: 'state', state: stateRef.current })
+      } else if (message.type === 'navigate' && message.action) {
+        actRef.current(message.action)
+      } else if (message.type === 'closed') {
+        setAudience('closed')
+      }
+    })
+    return () => {
+      channel.send({ type: 'end' })
+      audienceWindowRef.current?.close()
+      unsubscribe()
+      channel.close()
+    }
+  }, [session])
+
+  useEffect(() => {
+    channelRef.current?.send({ type: 'state', state: stateRef.current })
+  }, [presentation, current.slide, current.step, blackout])
+
+  // Keys go to the console from the start, so a clicker works right away
+  useEffect(() => consoleRef.current?.focus(), [])
+
+  useEffect(() => {
+    if (!timerRunning) return
+    const start = Date.now() - elapsedRef.current
+    const timer = setInterval(() => setElapsed(Date.now() - start), 250)
+    return () => clearInterval(timer)
+  }, [timerRunning])
+
+  const showAudienceWindow = async () => {
+    setError(null)
+    setAudience('opening')
+    try {
+      audienceWindowRef.current = await openAudienceWindow(session, presentation.name)
+    } catch (e) {
+      if (!(e instanceof PresentationError)) throw e
+      setError(e.message)
+      setAudience('closed')
+    }
   }
-  return variants[animation] || variants['fade']
+
+  const consoleButton = 'px-3 py-1.5 rounded bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-40'
+
+  return (
+    <div
+      className="w-full h-full flex flex-col bg-gray-950 outline-none"
+      tabIndex={0}
+      ref={consoleRef}
+      onKeyDown={(e) => {
+        const action = navigationForKey(e.key)
+        if (!action || (e.target as HTMLElement).tagName === 'BUTTON' && (e.key === ' ' || e.key === 'Enter')) return
+        e.preventDefault()
+        act(action)
+      }}
+    >
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-white/10 text-white">
+        <span className="font-mono text-2xl tabular-nums">{formatElapsed(elapsed)}</span>
+        <button onClick={() => setTimerRunning(running => !running)} className={consoleButton}>
+          {timerRunning ? 'Pause' : 'Resume'}
+        </button>
+        <button onClick={() => setElapsed(0)} className={consoleButton}>Reset</button>
+        <span className="text-white/60 text-sm ml-2">
+          Slide {current.slide + 1} of {slides.length}
+          {steps > 0 && ` · build ${current.step} of ${steps}`}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          {audience === 'open' ? (
+            <span className="text-xs text-green-300">Audience window connected</span>
+          ) : (
+            <button onClick={showAudienceWindow} disabled={audience === 'opening'} className={consoleButton}>
+              {audience === 'opening' ? 'Opening…' : 'Open audience window'}
+            </button>
+          )}
+          <button onClick={() => act('blackout')} className={cn(consoleButton, blackout && 'bg-white/30')} title="Black screen (B)">
+            Black screen
+          </button>
+          <button onClick={() => act('end')} className="px-3 py-1.5 rounded bg-red-500/80 hover:bg-red-500 text-white text-xs">
+            End show
+          </button>
+        </div>
+      </div>
+      {error && <div className="px-4 py-2 bg-red-500/15 text-red-200 text-sm">{error}</div>}
+
+      <div className="flex-1 min-h-0 grid grid-cols-[2fr_1fr] gap-4 p-4">
+        <div className="flex flex-col min-h-0 gap-2">
+          <span className="text-white/50 text-xs uppercase tracking-wide">Current</span>
+          <SlideCanvas slide={currentSlide} step={current.step} blackout={blackout} className="flex-1 min-h-0 rounded-lg bg-black" />
+        </div>
+        <div className="flex flex-col min-h-0 gap-2">
+          <span className="text-white/50 text-xs uppercase tracking-wide">
+            {isSamePosition(upcoming, current) ? 'End of presentation' : upcoming.slide === current.slide ? 'Next build' : 'Next slide'}
+          </span>
+          <SlideCanvas
+            slide={isSamePosition(upcoming, current) ? undefined : slides[upcoming.slide]}
+            step={upcoming.step}
+            animated={false}
+            className="aspect-video rounded-lg bg-black"
+          />
+          <span className="text-white/50 text-xs uppercase tracking-wide mt-2">Notes</span>
+          <div className="flex-1 min-h-0 overflow-y-auto rounded-lg bg-white/5 p-3 text-white text-lg leading-relaxed whitespace-pre-wrap">
+            {currentSlide?.notes || <span className="text-white/30 text-sm">No notes for this slide</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-4 px-4 py-3 border-t border-white/10">
+        <button onClick={() => act('previous')} className="p-2 rounded hover:bg-white/10 text-white" title="Previous (←, Page Up)">
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+        <span className="text-white/40 text-xs">Arrows, Space or a clicker move through the show · B blacks out the screen · Esc ends it</span>
+        <button onClick={() => act('next')} className="p-2 rounded hover:bg-white/10 text-white" title="Next (→, Page Down, Space)">
+          <ChevronRight className="w-6 h-6" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// PDF pages embed only JPEGs, so other pictures are re-encoded first. Ones
+// that can't be loaded, such as remote images served without CORS, are left out.
+const jpegImages = async (presentation: Presentation) => {
+  const urls = new Set(
+    presentation.slides.flatMap(slide => slide.elements.map(element => element.imageUrl))
+      .filter(url => url && !/^data:image\/jpe?g;/i.test(url))
+  )
+  const images = new Map<string, PdfImagePage>()
+  await Promise.all([...urls].map(async url => {
+    try {
+      const source = await (await fetch(url)).blob()
+      const jpeg = new Uint8Array(await (await reencodeImage(source, 'jpg')).arrayBuffer())
+      const size = imageSize(jpeg)
+      if (size) images.set(url, { jpeg, ...size })
+    } catch (error) {
+      if (!(error instanceof ConversionError || error instanceof TypeError || error instanceof DOMException)) throw error
+    }
+  }))
+  return images
 }
 
 export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) => {
-  const [presentations, setPresentations] = useState([
+  const [activePresentationId, setActivePresentationId] = useState('1')
+  const [activeSlideIndex, setActiveSlideIndex] = useState(0)
+  const {
+    state: presentations,
+    setState: setPresentations,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<Presentation[]>([
     {
       id: '1',
       name: 'My Presentation',
@@ -102,14 +295,24 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
         }
       ]
     }
-  ])
-  const [activePresentationId, setActivePresentationId] = useState('1')
-  const [activeSlideIndex, setActiveSlideIndex] = useState(0)
+  ], {
+    windowId,
+    // Undoing "add slide" can leave the selected slide past the end
+    onRestore: restored => {
+      // Undoing an import removes the presentation it opened
+      const active = restored.find(p => p.id === activePresentationId) ?? restored[0]
+      if (active.id !== activePresentationId) setActivePresentationId(active.id)
+      setActiveSlideIndex(index => Math.min(index, active.slides.length - 1))
+    },
+  })
   const [isPresenting, setIsPresenting] = useState(false)
   const [showTemplates, setShowTemplates] = useState(false)
   const [selectedElement, setSelectedElement] = useState<string | null>(null)
   const [editingElement, setEditingElement] = useState<string | null>(null)
+  const [showExport, setShowExport] = useState(false)
+  const [error, setError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const activePresentation = presentations.find(p => p.id === activePresentationId)
   const activeSlide = activePresentation?.slides[activeSlideIndex]
@@ -134,7 +337,7 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
     ))
   }
 
-  const updateSlide = (updates: Partial<Slide>) => {
+  const updateSlide = (updates: Partial<Slide>, options?: RecordOptions) => {
     if (!activePresentation) return
 
     setPresentations(prev => prev.map(p =>
@@ -146,7 +349,7 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
             )
           }
         : p
-    ))
+    ), options)
   }
 
   const addElement = (type: 'text' | 'shape' | 'image') => {
@@ -176,14 +379,14 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
     setSelectedElement(newElement.id)
   }
 
-  const updateElement = (elementId: string, updates: Partial<SlideElement>) => {
+  const updateElement = (elementId: string, updates: Partial<SlideElement>, options?: RecordOptions) => {
     if (!activePresentation || !activeSlide) return
 
     updateSlide({
       elements: activeSlide.elements.map(el =>
         el.id === elementId ? { ...el, ...updates } : el
       )
-    })
+    }, options)
   }
 
   const deleteElement = (elementId: string) => {
@@ -221,7 +424,7 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
     }
   }
 
-  const exportPresentation = () => {
+  const exportHtml = () => {
     const htmlContent = activePresentation?.slides.map((slide, i) => `
       <div style="width: 100%; height: 100vh; background: linear-gradient(135deg, var(--slide-bg)); padding: 60px; display: flex; flex-direction: column; justify-content: center; position: relative;">
         ${slide.elements.map(el => {
@@ -238,16 +441,63 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
 
     const html = `<!DOCTYPE html><html><head><title>${activePresentation?.name}</title><style>* { margin: 0; padding: 0; }</style></head><body>${htmlContent}</body></html>`
 
-    const blob = new Blob([html], { type: 'text/html' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${activePresentation?.name || 'presentation'}.html`
-    a.click()
+    downloadFile(new Blob([html], { type: 'text/html' }), `${activePresentation?.name || 'presentation'}.html`, 'presentations')
+  }
+
+  const exportAs = async (kind: 'pptx' | 'pdf' | 'html') => {
+    setShowExport(false)
+    if (!activePresentation) return
+    const name = activePresentation.name || 'presentation'
+    if (kind === 'html') {
+      exportHtml()
+    } else if (kind === 'pptx') {
+      const pptx = presentationToPptx(activePresentation)
+      downloadFile(new Blob([pptx.buffer as ArrayBuffer], { type: PPTX_MIME_TYPE }), `${name}.pptx`, 'presentations')
+    } else {
+      const pdf = presentationToPdf(activePresentation, await jpegImages(activePresentation))
+      downloadFile(new Blob([pdf.buffer as ArrayBuffer], { type: 'application/pdf' }), `${name}.pdf`, 'presentations')
+    }
+  }
+
+  // Opens a PowerPoint deck as a new presentation
+  const importPptx = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const imported = await pptxToPresentation(new Uint8Array(await file.arrayBuffer()), file.name.replace(/\.[^.]+$/, ''))
+      setPresentations(prev => [...prev, imported])
+      setActivePresentationId(imported.id)
+      setActiveSlideIndex(0)
+      setSelectedElement(null)
+      setError(null)
+    } catch (error) {
+      // Nothing can catch a rethrow from this handler, so unexpected failures get a message too
+      if (error instanceof PptxError) {
+        setError(`${file.name} can't be opened: ${error.message}`)
+      } else {
+        console.error('Error importing presentation:', error)
+        setError(`${file.name} couldn't be imported`)
+      }
+    }
   }
 
   if (!activePresentation || !activeSlide) return null
 
+  if (isPresenting) {
+    return (
+      <PresenterConsole
+        presentation={activePresentation}
+        startSlide={activeSlideIndex}
+        onExit={(slide) => {
+          setActiveSlideIndex(slide)
+          setIsPresenting(false)
+        }}
+      />
+    )
+  }
+
   return (
     <div className="w-full h-full flex bg-gray-900">
       {/* Left Sidebar - Slides */}
@@ -330,6 +580,23 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
       >
         {/* Toolbar */}
         <div className="glass-purple-dark border-b border-purple-400/20 px-6 py-3 flex items-center gap-4">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors disabled:opacity-40"
+            title="Undo (Ctrl+Z)"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors disabled:opacity-40"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <RotateCw className="w-4 h-4" />
+          </button>
+          <div className="w-px h-6 bg-purple-400/20" />
           <button
             onClick={() => addElement('text')}
             className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs"
@@ -354,16 +621,62 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
             <ImageIcon className="w-4 h-4 inline mr-1" />
             Image
           </button>
+          <select
+            value={activeSlide.transition}
+            onChange={(e) => updateSlide({ transition: e.target.value as SlideTransition })}
+            className="p-1.5 bg-gray-800 border border-purple-400/20 rounded text-white text-xs"
+            title="Slide transition"
+          >
+            {TRANSITIONS.map(t => <option key={t} value={t}>{t === 'none' ? 'No transition' : t}</option>)}
+          </select>
           <div className="w-px h-6 bg-white/20" />
+          {presentations.length > 1 && (
+            <select
+              value={activePresentationId}
+              onChange={(e) => {
+                setActivePresentationId(e.target.value)
+                setActiveSlideIndex(0)
+                setSelectedElement(null)
+              }}
+              className="p-1.5 max-w-40 bg-gray-800 border border-purple-400/20 rounded text-white text-xs"
+              title="Presentation"
+            >
+              {presentations.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
           <button
-            onClick={exportPresentation}
+            onClick={() => importInputRef.current?.click()}
             className="p-2 hover:bg-white/20 rounded text-white transition-colors"
-            title="Export"
+            title="Open a PowerPoint presentation"
           >
-            <Download className="w-4 h-4" />
+            <FolderOpen className="w-4 h-4" />
           </button>
+          <input ref={importInputRef} type="file" accept=".pptx" onChange={importPptx} className="hidden" />
+          <div className="relative">
+            <button
+              onClick={() => setShowExport(s => !s)}
+              className="p-2 hover:bg-white/20 rounded text-white transition-colors"
+              title="Export"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            {showExport && (
+              <div className="absolute left-0 top-full mt-2 z-20 w-52 py-1 rounded-lg glass-purple-dark border border-purple-400/20 shadow-xl">
+                {([
+                  ['pptx', 'PowerPoint (.pptx)'],
+                  ['pdf', 'PDF (.pdf)'],
+                  ['html', 'Web page (.html)'],
+                ] as const).map(([kind, label]) => (
+                  <button key={kind} onClick={() => exportAs(kind)} className="w-full px-3 py-2 text-left text-sm text-white hover:bg-white/10">
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <button
-            onClick={() => setIsPresenting(!isPresenting)}
+            onClick={() => setIsPresenting(true)}
+            title="Present from this slide"
             className="ml-auto p-2 bg-purple-500 hover:bg-purple-600 rounded text-white transition-colors flex items-center gap-2"
           >
             <Play className="w-4 h-4" />
@@ -371,148 +684,117 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
           </button>
         </div>
 
+        {error && (
+          <div className="px-6 py-2 bg-red-500/15 border-b border-red-400/30 text-red-200 text-sm flex justify-between">
+            {error}
+            <button onClick={() => setError(null)} className="text-red-200/70 hover:text-red-100">×</button>
+          </div>
+        )}
+
         {/* Slide Editor */}
-        {!isPresenting ? (
+        <motion.div
+          className="flex-1 p-8 overflow-auto flex flex-col items-center justify-center gap-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
           <motion.div
-            className="flex-1 p-8 overflow-auto flex items-center justify-center"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
+            className="w-full max-w-5xl aspect-video rounded-lg shadow-2xl p-8 flex flex-col justify-center items-center relative overflow-hidden"
+            style={{ backgroundImage: slideBackgroundCss(activeSlide), color: slideTextColor(activeSlide) }}
           >
-            <motion.div
-              className={cn(
-                'w-full max-w-5xl aspect-video rounded-lg shadow-2xl p-8 flex flex-col justify-center items-center relative overflow-hidden',
-                `bg-gradient-to-br ${activeSlide.bgColor}`,
-                activeSlide.textColor
-              )}
-            >
-              <AnimatePresence>
-                {activeSlide.elements.map((element) => {
-                  const animVariants = getAnimationVariants(element.animation || 'fade')
-                  
-                  return (
-                    <motion.div
-                      key={element.id}
-                      {...animVariants}
-                      className={cn(
-                        'absolute cursor-move rounded',
-                        selectedElement === element.id && 'ring-2 ring-yellow-400'
-                      )}
-                      style={{
-                        left: element.x,
-                        top: element.y,
-                        width: element.width,
-                        height: element.height,
-                      }}
-                      onClick={() => setSelectedElement(element.id)}
-                      onDoubleClick={() => setEditingElement(element.id)}
-                      drag
-                      dragMomentum={false}
-                      onDragEnd={(_, info) => {
-                        updateElement(element.id, {
-                          x: Math.max(0, element.x + info.offset.x),
-                          y: Math.max(0, element.y + info.offset.y)
-                        })
-                      }}
-                    >
-                      {element.type === 'text' && (
-                        <div
-                          className="w-full h-full flex items-center justify-center p-2"
-                          style={{
-                            fontSize: element.fontSize,
-                            fontFamily: element.fontFamily,
-                            color: element.color,
-                            transform: `rotate(${element.rotation || 0}deg)`
-                          }}
-                        >
-                          {editingElement === element.id ? (
-                            <input
-                              type="text"
-                              value={element.content}
-                              onChange={(e) => updateElement(element.id, { content: e.target.value })}
-                              onBlur={() => setEditingElement(null)}
-                              className="w-full h-full bg-transparent outline-none text-center"
-                              autoFocus
-                            />
-                          ) : (
-                            element.content
-                          )}
-                        </div>
-                      )}
-                      
-                      {element.type === 'shape' && (
-                        <div
-                          className="w-full h-full"
-                          style={{
-                            backgroundColor: element.bgColor,
-                            borderRadius: element.shape === 'circle' ? '50%' : element.shape === 'triangle' ? '0' : '8px',
-                            transform: `rotate(${element.rotation || 0}deg)`
-                          }}
-                        />
-                      )}
-                      
-                      {element.type === 'image' && (
-                        element.imageUrl ? (
-                          <img
-                            src={element.imageUrl}
-                            alt="Slide element"
-                            className="w-full h-full object-cover rounded"
-                            style={{ transform: `rotate(${element.rotation || 0}deg)` }}
+            <AnimatePresence>
+              {activeSlide.elements.map((element) => {
+                const animVariants = getAnimationVariants(element.animation || 'fade')
+                
+                return (
+                  <motion.div
+                    key={element.id}
+                    {...animVariants}
+                    className={cn(
+                      'absolute cursor-move rounded',
+                      selectedElement === element.id && 'ring-2 ring-yellow-400'
+                    )}
+                    style={{
+                      left: element.x,
+                      top: element.y,
+                      width: element.width,
+                      height: element.height,
+                    }}
+                    onClick={() => setSelectedElement(element.id)}
+                    onDoubleClick={() => setEditingElement(element.id)}
+                    drag
+                    dragMomentum={false}
+                    onDragEnd={(_, info) => {
+                      updateElement(element.id, {
+                        x: Math.max(0, element.x + info.offset.x),
+                        y: Math.max(0, element.y + info.offset.y)
+                      })
+                    }}
+                  >
+                    {element.type === 'text' && (
+                      <div
+                        className="w-full h-full flex items-center justify-center p-2"
+                        style={{
+                          fontSize: element.fontSize,
+                          fontFamily: element.fontFamily,
+                          color: element.color,
+                          transform: `rotate(${element.rotation || 0}deg)`
+                        }}
+                      >
+                        {editingElement === element.id ? (
+                          <input
+                            type="text"
+                            value={element.content}
+                            onChange={(e) => updateElement(element.id, { content: e.target.value }, { coalesce: `content:${element.id}` })}
+                            onBlur={() => setEditingElement(null)}
+                            className="w-full h-full bg-transparent outline-none text-center"
+                            autoFocus
                           />
                         ) : (
-                          <button
-                            onClick={() => fileInputRef.current?.click()}
-                            className="w-full h-full flex items-center justify-center bg-gray-700/50 rounded hover:bg-gray-700"
-                          >
-                            <ImageIcon className="w-6 h-6 text-white/50" />
-                          </button>
-                        )
-                      )}
-                    </motion.div>
-                  )
-                })}
-              </AnimatePresence>
-            </motion.div>
-          </motion.div>
-        ) : (
-          <motion.div
-            className={cn(
-              'flex-1 flex flex-col justify-center items-center',
-              `bg-gradient-to-br ${activeSlide.bgColor}`,
-              activeSlide.textColor
-            )}
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-          >
-            {activeSlide.elements.map((element) => {
-              const animVariants = getAnimationVariants(element.animation || 'fade')
-              return (
-                <motion.div
-                  key={element.id}
-                  {...animVariants}
-                  className="absolute"
-                  style={{
-                    left: element.x,
-                    top: element.y,
-                    width: element.width,
-                    height: element.height,
-                  }}
-                >
-                  {element.type === 'text' && (
-                    <div style={{ fontSize: element.fontSize, fontFamily: element.fontFamily, color: element.color }}>
-                      {element.content}
-                    </div>
-                  )}
-                  {element.type === 'shape' && (
-                    <div style={{ backgroundColor: element.bgColor, borderRadius: element.shape === 'circle' ? '50%' : '0', width: '100%', height: '100%' }} />
-                  )}
-                  {element.type === 'image' && element.imageUrl && (
-                    <img src={element.imageUrl} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-                  )}
-                </motion.div>
-              )
-            })}
+                          element.content
+                        )}
+                      </div>
+                    )}
+                    
+                    {element.type === 'shape' && (
+                      <div
+                        className="w-full h-full"
+                        style={{
+                          backgroundColor: element.bgColor,
+                          borderRadius: element.shape === 'circle' ? '50%' : element.shape === 'triangle' ? '0' : '8px',
+                          transform: `rotate(${element.rotation || 0}deg)`
+                        }}
+                      />
+                    )}
+                    
+                    {element.type === 'image' && (
+                      element.imageUrl ? (
+                        <img
+                          src={element.imageUrl}
+                          alt="Slide element"
+                          className="w-full h-full object-cover rounded"
+                          style={{ transform: `rotate(${element.rotation || 0}deg)` }}
+                        />
+                      ) : (
+                        <button
+                          onClick={() => fileInputRef.current?.click()}
+                          className="w-full h-full flex items-center justify-center bg-gray-700/50 rounded hover:bg-gray-700"
+                        >
+                          <ImageIcon className="w-6 h-6 text-white/50" />
+                        </button>
+                      )
+                    )}
+                  </motion.div>
+                )
+              })}
+            </AnimatePresence>
           </motion.div>
-        )}
+          <textarea
+            value={activeSlide.notes || ''}
+            onChange={(e) => updateSlide({ notes: e.target.value }, { coalesce: `notes:${activeSlide.id}` })}
+            placeholder="Speaker notes — only you see these while presenting"
+            className="w-full max-w-5xl h-24 shrink-0 p-3 rounded-lg bg-gray-800/60 border border-purple-400/20 text-sm text-white placeholder:text-white/40 outline-none resize-none focus:border-purple-400/50"
+          />
+        </motion.div>
 
         {/* Properties Panel */}
         {selectedElement && activeSlide.elements.find(el => el.id === selectedElement) && (
@@ -537,14 +819,14 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
                       <input
                         type="number"
                         value={element.fontSize}
-                        onChange={(e) => updateElement(element.id, { fontSize: parseInt(e.target.value) })}
+                        onChange={(e) => updateElement(element.id, { fontSize: parseInt(e.target.value) }, { coalesce: `font-size:${element.id}` })}
                         className="p-1 bg-gray-800 border border-purple-400/20 rounded text-white"
                         placeholder="Font size"
                       />
                       <input
                         type="color"
                         value={element.color}
-                        onChange={(e) => updateElement(element.id, { color: e.target.value })}
+                        onChange={(e) => updateElement(element.id, { color: e.target.value }, { coalesce: `color:${element.id}` })}
                         className="p-1 bg-gray-800 border border-purple-400/20 rounded"
                       />
                       <select
@@ -561,7 +843,7 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
                       <input
                         type="color"
                         value={element.bgColor}
-                        onChange={(e) => updateElement(element.id, { bgColor: e.target.value })}
+                        onChange={(e) => updateElement(element.id, { bgColor: e.target.value }, { coalesce: `bg-color:${element.id}` })}
                         className="p-1 bg-gray-800 border border-purple-400/20 rounded"
                       />
                       <select
@@ -573,6 +855,17 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
                       </select>
                     </>
                   )}
+                  <select
+                    value={element.build || 0}
+                    onChange={(e) => updateElement(element.id, { build: Number(e.target.value) || undefined })}
+                    className="p-1 bg-gray-800 border border-purple-400/20 rounded text-white"
+                    title="When the element appears while presenting"
+                  >
+                    <option value={0}>With slide</option>
+                    {Array.from({ length: Math.max(0, ...activeSlide.elements.map(el => el.build || 0)) + 1 }, (_, i) => (
+                      <option key={i + 1} value={i + 1}>On click {i + 1}</option>
+                    ))}
+                  </select>
                   <button
                     onClick={() => deleteElement(element.id)}
                     className="p-1 bg-red-500/20 hover:bg-red-500/30 rounded text-red-400"
@@ -586,27 +879,25 @@ export const Presentations: React.FC<{ windowId?: string }> = ({ windowId }) =>
         )}
 
         {/* Navigation */}
-        {!isPresenting && (
-          <div className="glass-purple-dark border-t border-purple-400/20 px-6 py-3 flex items-center justify-between">
-            <button
-              onClick={() => setActiveSlideIndex(Math.max(0, activeSlideIndex - 1))}
-              disabled={activeSlideIndex === 0}
-              className="p-2 hover:bg-white/20 rounded text-white disabled:opacity-50"
-            >
-              <ChevronLeft className="w-5 h-5" />
-            </button>
-            <span className="text-white text-sm">
-              Slide {activeSlideIndex + 1} of {activePresentation.slides.length}
-            </span>
-            <button
-              onClick={() => setActiveSlideIndex(Math.min(activePresentation.slides.length - 1, activeSlideIndex + 1))}
-              disabled={activeSlideIndex === activePresentation.slides.length - 1}
-              className="p-2 hover:bg-white/20 rounded text-white disabled:opacity-50"
-            >
-              <ChevronRight className="w-5 h-5" />
-            </button>
-          </div>
-        )}
+        <div className="glass-purple-dark border-t border-purple-400/20 px-6 py-3 flex items-center justify-between">
+          <button
+            onClick={() => setActiveSlideIndex(Math.max(0, activeSlideIndex - 1))}
+            disabled={activeSlideIndex === 0}
+            className="p-2 hover:bg-white/20 rounded text-white disabled:opacity-50"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-white text-sm">
+            Slide {activeSlideIndex + 1} of {activePresentation.slides.length}
+          </span>
+          <button
+            onClick={() => setActiveSlideIndex(Math.min(activePresentation.slides.length - 1, activeSlideIndex + 1))}
+            disabled={activeSlideIndex === activePresentation.slides.length - 1}
+            className="p-2 hover:bg-white/20 rounded text-white disabled:opacity-50"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
       </motion.div>
 
       <input
@@ -1,18 +1,28 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { useSamStore } from '@/store/sam-store'
+import { useWindowStore } from '@/store/window-store'
+import { notify } from '@/store/notification-store'
 import { aiService } from '@/services/ai-service'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Loader2 } from 'lucide-react'
+import { Send, Loader2, Square, ShieldAlert } from 'lucide-react'
+import type { ToolConfirmation } from '@/lib/ai-tools'
 import { cn } from '@/lib/utils'
 
 interface SamChatProps {
   windowId: string
 }
 
+interface PendingConfirmation extends ToolConfirmation {
+  resolve: (approved: boolean) => void
+}
+
 export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
   const {
     messages,
     addMessage,
+    startStreamingMessage,
+    appendToMessage,
+    updateMessage,
     isThinking,
     setThinking,
     currentEmotion,
@@ -31,44 +41,97 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
     scrollToBottom()
   }, [messages])
   
+  const abortRef = useRef<AbortController | null>(null)
+  const [isStreaming, setStreaming] = useState(false)
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null)
+  const confirmationRef = useRef<PendingConfirmation | null>(null)
+
+  const answerConfirmation = (approved: boolean) => {
+    confirmationRef.current?.resolve(approved)
+    confirmationRef.current = null
+    setConfirmation(null)
+  }
+
+  // Destructive tools wait here until the user allows or denies them
+  const confirmTool = (request: ToolConfirmation) =>
+    new Promise<boolean>(resolve => {
+      const pending = { ...request, resolve }
+      confirmationRef.current = pending
+      setConfirmation(pending)
+    })
+
+  // Don't keep a reply streaming into a closed window
+  useEffect(() => () => {
+    confirmationRef.current?.resolve(false)
+    abortRef.current?.abort()
+  }, [])
+
+  const stopResponse = () => {
+    answerConfirmation(false)
+    abortRef.current?.abort()
+  }
+
   const handleSendMessage = async () => {
-    if (!input.trim() || isThinking) return
+    if (!input.trim() || isThinking || isStreaming) return
 
     const userMessage = input.trim()
     setInput('')
     addMessage(userMessage, 'user')
 
-    // Simulate Sam's thinking and response
     setThinking(true)
+    setStreaming(true)
     setEmotion('focused', 0.7)
 
+    const controller = new AbortController()
+    abortRef.current = controller
+    let replyId: string | null = null
+    let reply = ''
+
     try {
-      // Use real AI service
-      const response = await aiService.sendMessage(userMessage)
+      const stream = aiService.streamMessage(userMessage, { signal: controller.signal, confirm: confirmTool })
+      for await (const delta of stream) {
+        if (!replyId) {
+          // Swap the thinking indicator for the live reply on the first token
+          replyId = startStreamingMessage(currentEmotion)
+          setThinking(false)
+        }
+        reply += delta
+        appendToMessage(replyId, delta)
+      }
 
-      // Set Sam's emotion based on response content or use emotion from AI
-      if (response.emotion) {
-        setEmotion(response.emotion as any, 0.8)
+      if (!replyId) return
+
+      // Analyze response text for emotion cues
+      const text = reply.toLowerCase()
+      let emotion: typeof currentEmotion = 'happy'
+      if (text.includes('brilliant') || text.includes('awesome') || text.includes('amazing')) {
+        emotion = 'excited'
+        setEmotion(emotion, 0.8)
+      } else if (text.includes('frustrated') || text.includes('annoying') || text.includes('damn')) {
+        emotion = 'annoyed'
+        setEmotion(emotion, 0.6)
+      } else if (text.includes('focused') || text.includes('thinking') || text.includes('analyzing')) {
+        emotion = 'focused'
+        setEmotion(emotion, 0.7)
       } else {
-        // Analyze response text for emotion cues
-        const text = response.text.toLowerCase()
-        if (text.includes('brilliant') || text.includes('awesome') || text.includes('amazing')) {
-          setEmotion('excited', 0.8)
-        } else if (text.includes('frustrated') || text.includes('annoying') || text.includes('damn')) {
-          setEmotion('annoyed', 0.6)
-        } else if (text.includes('focused') || text.includes('thinking') || text.includes('analyzing')) {
-          setEmotion('focused', 0.7)
-        } else {
-          setEmotion('happy', 0.7)
-        }
+        setEmotion(emotion, 0.7)
       }
+      updateMessage(replyId, { streaming: false, emotion })
 
-      addMessage(response.text, 'sam', currentEmotion)
+      // Let the user know when the answer lands while they're elsewhere
+      if (!controller.signal.aborted && (document.hidden || useWindowStore.getState().focusedWindowId !== windowId)) {
+        notify({
+          appId: 'sam-chat',
+          group: 'sam-replies',
+          title: 'Sam replied',
+          body: reply.length > 140 ? `${reply.slice(0, 140)}…` : reply,
+        })
+      }
 
       // Play audio if available
-      if (response.audio) {
-        const audio = new Audio(response.audio)
-        audio.play().catch(console.warn)
+      const audio = controller.signal.aborted ? undefined : await aiService.voiceFor(reply)
+      if (audio) {
+        new Audio(audio).play().catch(console.warn)
       }
 
     } catch (error) {
@@ -89,7 +152,10 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
         setEmotion('happy', 0.7)
       }, 1000)
     } finally {
+      if (replyId) updateMessage(replyId, { streaming: false })
+      if (abortRef.current === controller) abortRef.current = null
       setThinking(false)
+      setStreaming(false)
     }
   }
   
@@ -125,7 +191,7 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
           <div>
             <div className="text-white font-medium">Sam</div>
             <div className={cn("text-xs transition-colors", getEmotionColor())}>
-              {isThinking ? 'thinking...' : `feeling ${currentEmotion}`}
+              {isThinking ? 'thinking...' : isStreaming ? 'typing...' : `feeling ${currentEmotion}`}
             </div>
           </div>
         </div>
@@ -154,6 +220,9 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
                 )}
               >
                 {message.content}
+                {message.streaming && (
+                  <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-white/70 animate-pulse" />
+                )}
                 <div className="text-xs opacity-60 mt-1">
                   {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                 </div>
@@ -162,7 +231,7 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
           ))}
         </AnimatePresence>
         
-        {isThinking && (
+        {isThinking && !confirmation && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -177,6 +246,35 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
           </motion.div>
         )}
         
+        {confirmation && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex justify-start"
+          >
+            <div className="max-w-[80%] rounded-2xl px-4 py-3 text-sm bg-amber-500/10 text-white/90 border border-amber-400/40 backdrop-blur-sm">
+              <div className="flex items-center gap-2 font-medium">
+                <ShieldAlert className="w-4 h-4 text-amber-300" />
+                Sam wants to: {confirmation.summary}
+              </div>
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => answerConfirmation(true)}
+                  className="px-3 py-1 rounded-lg bg-amber-500/80 hover:bg-amber-500 text-white transition-colors"
+                >
+                  Allow
+                </button>
+                <button
+                  onClick={() => answerConfirmation(false)}
+                  className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+                >
+                  Deny
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
         <div ref={messagesEndRef} />
       </div>
       
@@ -190,15 +288,25 @@ export const SamChat: React.FC<SamChatProps> = ({ windowId }) => {
             onKeyPress={handleKeyPress}
             placeholder="Type to Sam..."
             className="flex-1 bg-white/10 border border-white/20 rounded-xl px-4 py-2 text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-blue-400/50 backdrop-blur-sm"
-            disabled={isThinking}
+            disabled={isStreaming}
           />
-          <button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isThinking}
-            className="p-2 bg-blue-500/80 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl transition-colors"
-          >
-            <Send className="w-4 h-4 text-white" />
-          </button>
+          {isStreaming ? (
+            <button
+              onClick={stopResponse}
+              title="Stop responding"
+              className="p-2 bg-red-500/80 hover:bg-red-500 rounded-xl transition-colors"
+            >
+              <Square className="w-4 h-4 text-white" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!input.trim()}
+              className="p-2 bg-blue-500/80 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl transition-colors"
+            >
+              <Send className="w-4 h-4 text-white" />
+            </button>
+          )}
         </div>
       </div>
     </div>
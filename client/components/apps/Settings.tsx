@@ -1,7 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useSamStore } from '@/store/sam-store'
+import { useSamStore, exportSamData, importSamData } from '@/store/sam-store'
 import { useThemeStore } from '@/store/theme-store'
+import { useCalendarStore } from '@/store/calendar-store'
+import { useUserStore, selectCurrentProfile } from '@/store/user-store'
+import { applyUserTheme, deleteUser } from '@/services/user-session'
+import { UserAvatar } from '@/components/os/UserAvatar'
 import { useDeviceAuthStore, AuthMethod, DeviceType } from '@/store/device-auth-store'
 import {
   Settings as SettingsIcon,
@@ -24,6 +28,7 @@ import {
   Cpu,
   ChevronRight,
   Upload,
+  Download,
   Save,
   RotateCcw,
   Eye,
@@ -42,9 +47,14 @@ import {
   Timer,
   Hand,
   Vibrate,
-  Gauge
+  Gauge,
+  Trash2
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { downloadFile } from '@/lib/download'
+import { SamDataError } from '@/lib/sam-data'
+import { userStorage } from '@/lib/user-storage'
+import { PROFILE_THEMES, ProfileError, isImageAvatar } from '@/lib/user-profiles'
 
 interface SettingsProps {
   windowId: string
@@ -60,16 +70,19 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
     userName,
     setUserName,
     userMemories,
-    alarms,
-    schedule
+    alarms
   } = useSamStore()
+  const { events: calendarEvents, load: loadCalendar } = useCalendarStore()
+  const currentProfile = useUserStore(selectCurrentProfile)
+  const { profiles, renameProfile, updateProfile } = useUserStore()
 
   const { isDarkMode, setDarkMode } = useThemeStore()
 
   const {
     authMethod,
-    passcode,
-    pattern,
+    passcodeHash,
+    patternHash,
+    recoveryHash,
     biometricEnabled,
     autoLockTimeout,
     deviceType,
@@ -84,6 +97,8 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
     setAuthMethod,
     setPasscode,
     setPattern,
+    regenerateRecoveryCode,
+    lockDevice,
     setBiometric,
     setAutoLockTimeout,
     setDeviceType,
@@ -96,22 +111,23 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
   } = useDeviceAuthStore()
   
   const [activeSection, setActiveSection] = useState('profile')
-  const [profilePicture, setProfilePicture] = useState(() => {
-    return localStorage.getItem('nyx-profile-picture') || '👤'
-  })
+  const profilePicture = currentProfile?.avatar ?? '👤'
   const [tempProfilePic, setTempProfilePic] = useState(profilePicture)
+  const [nameDraft, setNameDraft] = useState(currentProfile?.displayName ?? userName)
+  const [nameError, setNameError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const samDataInputRef = useRef<HTMLInputElement>(null)
 
   // Security section state - moved from renderSecuritySection to fix Rules of Hooks
   const [tempPasscode, setTempPasscode] = useState('')
   const [tempPattern, setTempPattern] = useState<number[]>([])
   const [showPasscode, setShowPasscode] = useState(false)
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null) // shown once, only the hash is kept
   
   const [settings, setSettings] = useState(() => {
-    const savedSettings = localStorage.getItem('nyx-settings')
+    const savedSettings = userStorage.getItem('nyx-settings')
     return savedSettings ? JSON.parse(savedSettings) : {
       // Profile
-      displayName: userName,
       email: 'user@nyx.os',
       bio: 'Digital explorer in the quantum realm',
       
@@ -171,13 +187,12 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
 
   // Save settings to localStorage whenever they change
   useEffect(() => {
-    localStorage.setItem('nyx-settings', JSON.stringify(settings))
+    userStorage.setItem('nyx-settings', JSON.stringify(settings))
   }, [settings])
 
-  // Save profile picture to localStorage
   useEffect(() => {
-    localStorage.setItem('nyx-profile-picture', profilePicture)
-  }, [profilePicture])
+    loadCalendar()
+  }, [loadCalendar])
 
   const updateSetting = (key: string, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }))
@@ -187,9 +202,6 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
       case 'theme':
         setDarkMode(value === 'dark')
         break
-      case 'displayName':
-        setUserName(value)
-        break
       case 'emotionIntensity':
         // Update Sam's current emotion intensity
         setEmotion(currentEmotion, value / 100)
@@ -219,14 +231,62 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
   }
 
   const saveProfilePicture = () => {
-    setProfilePicture(tempProfilePic)
+    if (!currentProfile) return
+    updateProfile(currentProfile.id, { avatar: tempProfilePic })
     setEmotion('happy', 0.8)
     addMessage('Profile picture updated! Looking fresh, my dude.', 'sam', 'happy')
   }
 
   const resetProfilePicture = () => {
     setTempProfilePic('👤')
-    setProfilePicture('👤')
+    if (currentProfile) updateProfile(currentProfile.id, { avatar: '👤' })
+  }
+
+  const saveDisplayName = () => {
+    if (!currentProfile || nameDraft === currentProfile.displayName) return
+    try {
+      renameProfile(currentProfile.id, nameDraft)
+      setUserName(nameDraft.trim())
+      setNameError(null)
+    } catch (error) {
+      if (!(error instanceof ProfileError)) throw error
+      setNameError(error.message)
+    }
+  }
+
+  const changeProfileTheme = (theme: typeof PROFILE_THEMES[string]) => {
+    if (!currentProfile) return
+    updateProfile(currentProfile.id, { theme })
+    applyUserTheme({ ...currentProfile, theme })
+  }
+
+  const removeUser = async (id: string, name: string) => {
+    if (!window.confirm(`Delete ${name} and all of their files, notes and settings? This can't be undone.`)) return
+    try {
+      await deleteUser(id)
+    } catch (error) {
+      if (!(error instanceof ProfileError)) throw error
+      window.alert(error.message)
+    }
+  }
+
+  const exportSam = () => {
+    downloadFile(new Blob([exportSamData()], { type: 'application/json' }), 'nyx-sam-data.json', 'settings')
+  }
+
+  const importSam = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (!window.confirm('Replace Sam\'s conversation, memories and alarms with this file?')) return
+    try {
+      importSamData(await file.text())
+      setEmotion('excited', 0.8)
+      addMessage('Data imported. Everything\'s back where it belongs.', 'sam', 'excited')
+    } catch (error) {
+      if (!(error instanceof SamDataError)) throw error
+      window.alert(error.message)
+    }
   }
 
   const settingSections = [
@@ -560,9 +620,10 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
                 </button>
               </div>
               <button
-                onClick={() => {
+                onClick={async () => {
                   if (tempPasscode.length >= 4) {
-                    setPasscode(tempPasscode)
+                    setRecoveryCode(await setPasscode(tempPasscode))
+                    setTempPasscode('')
                     addMessage('Passcode updated successfully!', 'sam', 'happy')
                   }
                 }}
@@ -571,7 +632,7 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
               >
                 Set Passcode
               </button>
-              {passcode && (
+              {passcodeHash && (
                 <div className="text-green-400 text-xs">✓ Passcode is set</div>
               )}
             </div>
@@ -611,9 +672,9 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
                   Clear
                 </button>
                 <button
-                  onClick={() => {
+                  onClick={async () => {
                     if (tempPattern.length >= 4) {
-                      setPattern(tempPattern)
+                      setRecoveryCode(await setPattern(tempPattern))
                       addMessage('Pattern updated successfully!', 'sam', 'happy')
                       setTempPattern([])
                     }
@@ -624,8 +685,43 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
                   Set Pattern
                 </button>
               </div>
-              {pattern.length > 0 && (
-                <div className="text-green-400 text-xs text-center">✓ Pattern is set ({pattern.length} points)</div>
+              {patternHash && (
+                <div className="text-green-400 text-xs text-center">✓ Pattern is set</div>
+              )}
+            </div>
+          )}
+
+          {/* Recovery code */}
+          {(authMethod === 'passcode' || authMethod === 'pattern') && (passcodeHash || patternHash) && (
+            <div className="mt-4 pt-4 border-t border-purple-500/20 space-y-3">
+              <div className="text-white text-sm">Recovery Code</div>
+              {recoveryCode ? (
+                <div className="space-y-2">
+                  <div className="font-mono text-lg tracking-wider text-white bg-black/40 border border-purple-500/30 rounded-lg px-3 py-2 text-center select-all">
+                    {recoveryCode}
+                  </div>
+                  <div className="text-amber-300 text-xs">
+                    Write this down. It unlocks the device if you forget your {authMethod}, and it won't be shown again.
+                  </div>
+                  <button
+                    onClick={() => setRecoveryCode(null)}
+                    className="px-3 py-1 bg-purple-500/20 hover:bg-purple-500/40 rounded text-purple-300 text-sm"
+                  >
+                    I've saved it
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="text-purple-300 text-xs">
+                    {recoveryHash ? 'A recovery code is set.' : 'No recovery code yet.'}
+                  </div>
+                  <button
+                    onClick={async () => setRecoveryCode(await regenerateRecoveryCode())}
+                    className="px-3 py-1 bg-purple-500/20 hover:bg-purple-500/40 rounded text-purple-300 text-sm"
+                  >
+                    {recoveryHash ? 'New Recovery Code' : 'Create Recovery Code'}
+                  </button>
+                </div>
               )}
             </div>
           )}
@@ -648,6 +744,16 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
               { value: '60', label: '1 hour' }
             ]}
           />
+          <div className="text-purple-300 text-xs">Locks after this long without keyboard, mouse or touch input.</div>
+
+          {authMethod !== 'none' && (
+            <button
+              onClick={lockDevice}
+              className="px-4 py-2 bg-purple-500/20 hover:bg-purple-500/40 rounded-lg transition-colors text-purple-300 text-sm"
+            >
+              Lock Now
+            </button>
+          )}
         </div>
 
         {/* Biometric */}
@@ -681,7 +787,7 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
         <h4 className="text-white font-medium mb-4">Profile Picture</h4>
         <div className="flex items-center gap-6">
           <div className="relative">
-            {tempProfilePic.startsWith('data:') ? (
+            {isImageAvatar(tempProfilePic) ? (
               <img
                 src={tempProfilePic}
                 alt="Profile"
@@ -738,10 +844,31 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
           <label className="text-white text-sm">Display Name</label>
           <input
             type="text"
-            value={settings.displayName}
-            onChange={(e) => updateSetting('displayName', e.target.value)}
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onBlur={saveDisplayName}
+            onKeyDown={(e) => e.key === 'Enter' && saveDisplayName()}
             className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white focus:border-purple-400/50 focus:outline-none"
           />
+          {nameError && <p className="text-red-400 text-xs">{nameError}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-white text-sm">Colour</label>
+          <div className="flex gap-2">
+            {Object.entries(PROFILE_THEMES).map(([name, theme]) => (
+              <button
+                key={name}
+                title={name}
+                onClick={() => changeProfileTheme(theme)}
+                className={cn(
+                  'w-8 h-8 rounded-full border-2 transition-transform hover:scale-110',
+                  currentProfile?.theme.accentColor === theme.accentColor ? 'border-white' : 'border-transparent'
+                )}
+                style={{ background: `linear-gradient(135deg, ${theme.primary}, ${theme.secondary})` }}
+              />
+            ))}
+          </div>
         </div>
         
         <div className="space-y-2">
@@ -765,6 +892,34 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
         </div>
       </div>
 
+      {/* Other users on this device */}
+      <div className="bg-black/40 border border-purple-500/30 rounded-lg p-6">
+        <h4 className="text-white font-medium mb-4">Users on This Device</h4>
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center gap-3 p-2 rounded-lg bg-purple-500/10">
+              <UserAvatar avatar={profile.avatar} className="w-9 h-9" />
+              <div className="flex-1">
+                <div className="text-white text-sm">{profile.displayName}</div>
+                <div className="text-purple-300/70 text-xs">@{profile.username}</div>
+              </div>
+              {profile.id === currentProfile?.id ? (
+                <span className="text-purple-300 text-xs">Signed in</span>
+              ) : (
+                <button
+                  onClick={() => removeUser(profile.id, profile.displayName)}
+                  title={`Delete ${profile.displayName}`}
+                  className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-purple-300/70 text-xs mt-3">New users can be added from the sign-in screen.</p>
+      </div>
+
       {/* Account Stats */}
       <div className="bg-black/40 border border-purple-500/30 rounded-lg p-6">
         <h4 className="text-white font-medium mb-4">Account Statistics</h4>
@@ -778,10 +933,33 @@ export const Settings: React.FC<SettingsProps> = ({ windowId }) => {
             <div className="text-purple-300 text-sm">Alarms</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-purple-400">{schedule.length}</div>
+            <div className="text-2xl font-bold text-purple-400">{calendarEvents.length}</div>
             <div className="text-purple-300 text-sm">Events</div>
           </div>
         </div>
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={exportSam}
+            className="px-4 py-2 bg-purple-500/20 hover:bg-purple-500/40 rounded-lg transition-colors text-purple-300 text-sm flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export Sam's Data
+          </button>
+          <button
+            onClick={() => samDataInputRef.current?.click()}
+            className="px-4 py-2 bg-purple-500/20 hover:bg-purple-500/40 rounded-lg transition-colors text-purple-300 text-sm flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <input
+            ref={samDataInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={importSam}
+            className="hidden"
+          />
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { cn } from '@/lib/utils'
+import {
+  SLIDE_HEIGHT,
+  SLIDE_WIDTH,
+  Slide,
+  SlideElement,
+  SlideTransition,
+  slideBackgroundCss,
+  slideTextColor,
+  visibleElements,
+} from '@/lib/presentation'
+
+export const getAnimationVariants = (animation: string) => {
+  const variants: Record<string, any> = {
+    'none': { initial: { opacity: 1 }, animate: { opacity: 1 } },
+    'fade': { initial: { opacity: 0 }, animate: { opacity: 1 }, transition: { duration: 0.6 } },
+    'slide': { initial: { x: -100, opacity: 0 }, animate: { x: 0, opacity: 1 }, transition: { duration: 0.6 } },
+    'bounce': { initial: { y: 50, opacity: 0 }, animate: { y: 0, opacity: 1 }, transition: { type: 'bounce', stiffness: 300 } },
+    'zoom': { initial: { scale: 0, opacity: 0 }, animate: { scale: 1, opacity: 1 }, transition: { duration: 0.5 } },
+    'rotate': { initial: { rotate: -180, opacity: 0 }, animate: { rotate: 0, opacity: 1 }, transition: { duration: 0.6 } },
+  }
+  return variants[animation] || variants['fade']
+}
+
+const TRANSITION_VARIANTS: Record<SlideTransition, any> = {
+  none: { initial: { opacity: 1 }, animate: { opacity: 1 }, exit: { opacity: 1 }, transition: { duration: 0 } },
+  fade: { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 }, transition: { duration: 0.4 } },
+  push: { initial: { x: '100%' }, animate: { x: 0 }, exit: { x: '-100%' }, transition: { duration: 0.45, ease: 'easeInOut' } },
+  wipe: {
+    initial: { clipPath: 'inset(0 100% 0 0)' },
+    animate: { clipPath: 'inset(0 0% 0 0)' },
+    exit: { opacity: 1 },
+    transition: { duration: 0.5, ease: 'easeInOut' },
+  },
+}
+
+export const SlideElementContent: React.FC<{ element: SlideElement }> = ({ element }) => {
+  const rotation = `rotate(${element.rotation || 0}deg)`
+  if (element.type === 'text') {
+    return (
+      <div
+        className="w-full h-full flex items-center justify-center p-2 whitespace-pre-wrap"
+        style={{ fontSize: element.fontSize, fontFamily: element.fontFamily, color: element.color, transform: rotation }}
+      >
+        {element.content}
+      </div>
+    )
+  }
+  if (element.type === 'shape') {
+    return (
+      <div
+        className="w-full h-full"
+        style={{
+          backgroundColor: element.bgColor,
+          borderRadius: element.shape === 'circle' ? '50%' : element.shape === 'triangle' ? '0' : '8px',
+          clipPath: element.shape === 'triangle' ? 'polygon(50% 0, 100% 100%, 0 100%)' : undefined,
+          transform: rotation,
+        }}
+      />
+    )
+  }
+  return element.imageUrl ? (
+    <img src={element.imageUrl} alt="" className="w-full h-full object-cover rounded" style={{ transform: rotation }} />
+  ) : null
+}
+
+interface SlideCanvasProps {
+  slide: Slide | undefined
+  // Builds shown so far; elements of later builds stay hidden
+  step?: number
+  blackout?: boolean
+  // Plays slide transitions and element animations; previews render still
+  animated?: boolean
+  className?: string
+}
+
+// A read-only slide scaled to fit its container, as the audience sees it
+export const SlideCanvas: React.FC<SlideCanvasProps> = ({ slide, step = Infinity, blackout = false, animated = true, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [scale, setScale] = useState(1)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setScale(Math.min(width / SLIDE_WIDTH, height / SLIDE_HEIGHT) || 1)
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const transition = animated && slide ? TRANSITION_VARIANTS[slide.transition] || TRANSITION_VARIANTS.fade : TRANSITION_VARIANTS.none
+
+  return (
+    <div ref={containerRef} className={cn('relative flex items-center justify-center overflow-hidden', className)}>
+      <div className="relative shrink-0 overflow-hidden" style={{ width: SLIDE_WIDTH * scale, height: SLIDE_HEIGHT * scale }}>
+        <AnimatePresence initial={false}>
+          {slide && (
+            <motion.div
+              key={slide.id}
+              {...transition}
+              className="absolute top-0 left-0 origin-top-left"
+              style={{ width: SLIDE_WIDTH, height: SLIDE_HEIGHT, scale, backgroundImage: slideBackgroundCss(slide), color: slideTextColor(slide) }}
+            >
+              <AnimatePresence>
+                {visibleElements(slide, step).map(element => {
+                  const variants = animated ? getAnimationVariants(element.animation || 'fade') : getAnimationVariants('none')
+                  return (
+                    <motion.div
+                      key={element.id}
+                      {...variants}
+                      exit={{ opacity: 0 }}
+                      className="absolute"
+                      style={{ left: element.x, top: element.y, width: element.width, height: element.height }}
+                    >
+                      <SlideElementContent element={element} />
+                    </motion.div>
+                  )
+                })}
+              </AnimatePresence>
+            </motion.div>
+          )}
+        </AnimatePresence>
+        {blackout && <div className="absolute inset-0 bg-black" />}
+      </div>
+    </div>
+  )
+}
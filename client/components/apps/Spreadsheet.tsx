@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useMemo } from 'react'
-import { motion } from 'framer-motion'
+import React, { useState, useCallback, useMemo, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
 import {
   Plus,
   Download,
@@ -9,8 +9,26 @@ import {
   FunctionSquare,
   Filter,
   ChevronDown,
+  Upload,
+  Save,
+  X,
+  RotateCcw,
+  RotateCw,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { FormulaEngine, FormulaError, columnName, formatCellValue, parseAddress, removeRowFromFormula } from '@/lib/formula-engine'
+import {
+  DELIMITERS,
+  Delimiter,
+  decodeText,
+  delimiterForFile,
+  detectDelimiter,
+  parseDelimited,
+  serializeDelimited,
+} from '@/lib/csv'
+import { createSpreadsheet, parseSpreadsheet, serializeSpreadsheet, NYX_SPREADSHEET_EXTENSION } from '@/lib/native-formats'
+import { downloadFile } from '@/lib/download'
+import { useUndoableState } from '@/hooks/useUndoableState'
 
 interface CellData {
   [key: string]: string | number
@@ -23,45 +41,111 @@ interface SheetData {
   columns: string[]
 }
 
-// Generate column names: A-Z, AA-ZZ, AAA-ZZZ
-const generateColumnName = (index: number): string => {
-  let col = ''
-  let num = index + 1
-  while (num > 0) {
-    num--
-    col = String.fromCharCode(65 + (num % 26)) + col
-    num = Math.floor(num / 26)
-  }
-  return col
+interface PendingImport {
+  fileName: string
+  text: string
+  encoding: string
+  delimiter: Delimiter
+  sheetName: string
 }
 
-// Generate multiple columns
+// Generate multiple columns: A-Z, AA-ZZ, AAA-ZZZ
 const generateColumns = (count: number): string[] => {
-  return Array.from({ length: count }, (_, i) => generateColumnName(i))
+  return Array.from({ length: count }, (_, i) => columnName(i))
+}
+
+const createEmptyRows = (columns: string[], count: number): CellData[] =>
+  Array(count).fill(null).map(() =>
+    columns.reduce((acc, col) => {
+      acc[col] = ''
+      return acc
+    }, {} as CellData)
+  )
+
+// Non-empty cells of a sheet keyed by A1 address, as the formula engine expects them
+const toEngineCells = (rows: CellData[]) => {
+  const cells: Record<string, string> = {}
+  rows.forEach((row, rowIndex) => {
+    Object.entries(row).forEach(([col, value]) => {
+      if (value !== '' && value != null) cells[`${col}${rowIndex + 1}`] = String(value)
+    })
+  })
+  return cells
+}
+
+const createEngine = (sheets: SheetData[]) => {
+  const engine = new FormulaEngine()
+  sheets.forEach(sheet => engine.loadSheet(sheet.name, toEngineCells(sheet.rows)))
+  return engine
+}
+
+// Grid rows for a sheet loaded from A1-addressed cells (the .nyxsheet layout)
+const rowsFromCells = (cells: Record<string, string>) => {
+  let width = 26
+  let height = 100
+  Object.keys(cells).forEach(address => {
+    const position = parseAddress(address)
+    if (!position) return
+    width = Math.max(width, position.col + 1)
+    height = Math.max(height, position.row + 1)
+  })
+  const columns = generateColumns(width)
+  const rows = createEmptyRows(columns, height)
+  Object.entries(cells).forEach(([address, value]) => {
+    const position = parseAddress(address)
+    if (position) rows[position.row][columns[position.col]] = value
+  })
+  return { columns, rows }
 }
 
 export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
-  const [sheets, setSheets] = useState<SheetData[]>([
+  const [activeSheetId, setActiveSheetId] = useState('1')
+  const engineRef = useRef<FormulaEngine | null>(null)
+  const {
+    state: sheets,
+    setState: setSheets,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<SheetData[]>([
     {
       id: '1',
       name: 'Sheet 1',
       columns: generateColumns(26), // Start with A-Z
-      rows: Array(100).fill(null).map(() => 
-        generateColumns(26).reduce((acc, col) => {
-          acc[col] = ''
-          return acc
-        }, {} as CellData)
-      )
+      rows: createEmptyRows(generateColumns(26), 100)
     }
-  ])
-  const [activeSheetId, setActiveSheetId] = useState('1')
+  ], {
+    windowId,
+    // The engine only follows edits, so it is rebuilt from the restored sheets
+    onRestore: restored => {
+      engineRef.current = createEngine(restored)
+      if (!restored.some(sheet => sheet.id === activeSheetId)) {
+        setActiveSheetId(restored[0].id)
+        setSelectedCell(null)
+      }
+    },
+  })
   const [selectedCell, setSelectedCell] = useState<{ row: number; col: string } | null>(null)
   const [visibleRows, setVisibleRows] = useState(100)
   const [visibleCols, setVisibleCols] = useState(26)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const importPreview = useMemo(
+    () => pendingImport ? parseDelimited(pendingImport.text, { delimiter: pendingImport.delimiter }) : null,
+    [pendingImport?.text, pendingImport?.delimiter]
+  )
+
+  if (!engineRef.current) engineRef.current = createEngine(sheets)
+  const engine = engineRef.current
 
   const activeSheet = sheets.find(s => s.id === activeSheetId)
 
   const updateCell = (rowIndex: number, colName: string, value: string | number) => {
+    if (activeSheet) {
+      engine.setCell(activeSheet.name, `${colName}${rowIndex + 1}`, String(value))
+    }
     setSheets(prev => prev.map(sheet =>
       sheet.id === activeSheetId
         ? {
@@ -71,18 +155,13 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
             )
           }
         : sheet
-    ))
+    ), { coalesce: `cell:${activeSheetId}:${colName}${rowIndex + 1}` })
   }
 
   const addRows = (count: number = 100) => {
     if (!activeSheet) return
 
-    const newRows = Array(count).fill(null).map(() =>
-      activeSheet.columns.reduce((acc, col) => {
-        acc[col] = ''
-        return acc
-      }, {} as CellData)
-    )
+    const newRows = createEmptyRows(activeSheet.columns, count)
 
     setSheets(prev => prev.map(sheet =>
       sheet.id === activeSheetId
@@ -119,53 +198,186 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
   }
 
   const deleteRow = (index: number) => {
-    setSheets(prev => prev.map(sheet =>
-      sheet.id === activeSheetId
-        ? { ...sheet, rows: sheet.rows.filter((_, i) => i !== index) }
-        : sheet
-    ))
+    if (!activeSheet) return
+
+    // Rows below shift up, and formulas on every sheet may point at them, so each
+    // sheet's formulas are rewritten and the sheets reloaded into the engine
+    const rewrite = (sheet: SheetData): SheetData => {
+      const rows = (sheet.id === activeSheetId ? sheet.rows.filter((_, i) => i !== index) : sheet.rows)
+        .map(row => {
+          const newRow: CellData = {}
+          Object.entries(row).forEach(([col, value]) => {
+            newRow[col] = typeof value === 'string' ? removeRowFromFormula(value, sheet.name, activeSheet.name, index) : value
+          })
+          return newRow
+        })
+      return { ...sheet, rows }
+    }
+    const updated = sheets.map(rewrite)
+    updated.forEach(sheet => engine.loadSheet(sheet.name, toEngineCells(sheet.rows)))
+    setSheets(updated)
+  }
+
+  const uniqueSheetName = (base: string) => {
+    const taken = (name: string) => sheets.some(s => s.name.toLowerCase() === name.toLowerCase())
+    if (!taken(base)) return base
+    let number = 2
+    while (taken(`${base} (${number})`)) number++
+    return `${base} (${number})`
+  }
+
+  const addSheet = (name?: string, columns = generateColumns(26), rows = createEmptyRows(columns, 100)) => {
+    let sheetName = name && uniqueSheetName(name)
+    if (!sheetName) {
+      let number = sheets.length + 1
+      while (sheets.some(s => s.name === `Sheet ${number}`)) number++
+      sheetName = `Sheet ${number}`
+    }
+    const sheet: SheetData = {
+      id: Date.now().toString(),
+      name: sheetName,
+      columns,
+      rows
+    }
+
+    engine.loadSheet(sheet.name, toEngineCells(rows))
+    setSheets(prev => [...prev, sheet])
+    setActiveSheetId(sheet.id)
+    setSelectedCell(null)
+    setVisibleRows(prev => Math.max(prev, rows.length))
+    setVisibleCols(prev => Math.max(prev, columns.length))
   }
 
-  const exportAsCSV = () => {
+  const deleteSheet = (id: string) => {
+    const sheet = sheets.find(s => s.id === id)
+    if (!sheet || sheets.length <= 1) return
+
+    engine.removeSheet(sheet.name)
+    const remaining = sheets.filter(s => s.id !== id)
+    setSheets(remaining)
+    if (activeSheetId === id) {
+      setActiveSheetId(remaining[0].id)
+      setSelectedCell(null)
+    }
+  }
+
+  // Exports the used range of the active sheet with computed values
+  const exportSheet = (delimiter: Delimiter) => {
     if (!activeSheet) return
 
-    const rows = [
-      activeSheet.columns.slice(0, visibleCols).join(','),
-      ...activeSheet.rows.slice(0, visibleRows).map(row =>
-        activeSheet.columns.slice(0, visibleCols).map(col => row[col] || '').join(',')
-      )
-    ]
-
-    const csv = rows.join('\n')
-    const blob = new Blob([csv], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${activeSheet.name}.csv`
-    a.click()
+    let lastRow = -1
+    let lastCol = -1
+    activeSheet.rows.forEach((row, rowIndex) => {
+      activeSheet.columns.forEach((col, colIndex) => {
+        if (row[col] !== '' && row[col] != null) {
+          lastRow = Math.max(lastRow, rowIndex)
+          lastCol = Math.max(lastCol, colIndex)
+        }
+      })
+    })
+
+    const columns = activeSheet.columns.slice(0, lastCol + 1)
+    const rows = activeSheet.rows.slice(0, lastRow + 1).map((_, rowIndex) =>
+      columns.map(col => engine.getExportValue(activeSheet.name, `${col}${rowIndex + 1}`))
+    )
+
+    const isTsv = delimiter === '\t'
+    // The BOM lets Excel recognise the file as UTF-8
+    const text = '\uFEFF' + serializeDelimited(rows, { delimiter })
+    const blob = new Blob([text], { type: isTsv ? 'text/tab-separated-values' : 'text/csv' })
+    downloadFile(blob, `${activeSheet.name}.${isTsv ? 'tsv' : 'csv'}`, 'spreadsheet')
+  }
+
+  // Saves every sheet with its raw input (formulas included) as a .nyxsheet workbook
+  const saveWorkbook = () => {
+    const workbook = createSpreadsheet(sheets.map(sheet => ({ name: sheet.name, cells: toEngineCells(sheet.rows) })))
+    const blob = new Blob([serializeSpreadsheet(workbook)], { type: 'application/json' })
+    downloadFile(blob, `Workbook.${NYX_SPREADSHEET_EXTENSION}`, 'spreadsheet')
+  }
+
+  // Adds the sheets of a .nyxsheet workbook next to the open ones
+  const openWorkbook = (text: string) => {
+    const workbook = parseSpreadsheet(text)
+    const names = new Set(sheets.map(s => s.name.toLowerCase()))
+    const added: SheetData[] = workbook.sheets.map((sheet, index) => {
+      let name = sheet.name
+      for (let number = 2; names.has(name.toLowerCase()); number++) name = `${sheet.name} (${number})`
+      names.add(name.toLowerCase())
+      engine.loadSheet(name, sheet.cells)
+      return { id: `${Date.now()}-${index}`, name, ...rowsFromCells(sheet.cells) }
+    })
+
+    setSheets(prev => [...prev, ...added])
+    setActiveSheetId(added[0].id)
+    setSelectedCell(null)
+    setVisibleRows(prev => Math.max(prev, ...added.map(sheet => sheet.rows.length)))
+    setVisibleCols(prev => Math.max(prev, ...added.map(sheet => sheet.columns.length)))
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const { text, encoding } = decodeText(await file.arrayBuffer())
+      if (file.name.toLowerCase().endsWith(`.${NYX_SPREADSHEET_EXTENSION}`)) {
+        openWorkbook(text)
+        return
+      }
+      setPendingImport({
+        fileName: file.name,
+        text,
+        encoding,
+        delimiter: delimiterForFile(file.name) ?? detectDelimiter(text),
+        sheetName: file.name.replace(/\.[^.]+$/, '') || 'Imported'
+      })
+    } catch (error) {
+      console.error('Failed to read file:', error)
+    }
+  }
+
+  const confirmImport = () => {
+    if (!pendingImport || !importPreview) return
+
+    const width = Math.max(26, ...importPreview.rows.map(r => r.length))
+    const columns = generateColumns(width)
+    const rows = createEmptyRows(columns, Math.max(100, importPreview.rows.length))
+    importPreview.rows.forEach((values, rowIndex) => {
+      values.forEach((value, colIndex) => {
+        rows[rowIndex][columns[colIndex]] = value
+      })
+    })
+
+    addSheet(pendingImport.sheetName.trim() || 'Imported', columns, rows)
+    setPendingImport(null)
+  }
+
+  // Computed numeric values of a column, so formula results count towards the stats
+  const columnNumbers = (colName: string) => {
+    if (!activeSheet) return []
+    return activeSheet.rows
+      .map((_, rowIndex) => engine.getValue(activeSheet.name, `${colName}${rowIndex + 1}`))
+      .filter((value): value is number => typeof value === 'number')
   }
 
   const calculateSum = (colName: string) => {
-    if (!activeSheet) return 0
-    return activeSheet.rows.reduce((sum, row) => {
-      const val = parseFloat(String(row[colName] || 0))
-      return sum + (isNaN(val) ? 0 : val)
-    }, 0)
+    return columnNumbers(colName).reduce((sum, val) => sum + val, 0)
   }
 
   const calculateAverage = (colName: string) => {
-    if (!activeSheet) return 0
-    const sum = calculateSum(colName)
-    return activeSheet.rows.length > 0 ? sum / activeSheet.rows.length : 0
+    const numbers = columnNumbers(colName)
+    return numbers.length > 0 ? calculateSum(colName) / numbers.length : 0
   }
 
   if (!activeSheet) return null
 
   const visibleColumns = activeSheet.columns.slice(0, visibleCols)
   const visibleSheetRows = activeSheet.rows.slice(0, visibleRows)
+  const selectedAddress = selectedCell ? `${selectedCell.col}${selectedCell.row + 1}` : ''
 
   return (
-    <div className="w-full h-full flex flex-col bg-gray-900">
+    <div className="relative w-full h-full flex flex-col bg-gray-900">
       {/* Header */}
       <motion.div
         className="glass-purple-dark px-6 py-4 border-b border-purple-400/20 flex items-center justify-between"
@@ -180,6 +392,22 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
           </span>
         </div>
         <div className="flex gap-2">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs disabled:opacity-40"
+            title="Undo (Ctrl+Z)"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs disabled:opacity-40"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <RotateCw className="w-4 h-4" />
+          </button>
           <button
             onClick={() => addColumns(26)}
             className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs"
@@ -197,15 +425,63 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
             Rows
           </button>
           <button
-            onClick={exportAsCSV}
-            className="p-2 hover:bg-white/20 rounded text-white transition-colors"
+            onClick={() => importInputRef.current?.click()}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs"
+            title="Import CSV/TSV or a .nyxsheet workbook"
+          >
+            <Upload className="w-4 h-4 inline mr-1" />
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,.tsv,.tab,.txt,.nyxsheet,text/csv,text/tab-separated-values"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={saveWorkbook}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs"
+            title="Save all sheets as a .nyxsheet workbook"
+          >
+            <Save className="w-4 h-4 inline mr-1" />
+            Save
+          </button>
+          <button
+            onClick={() => exportSheet(',')}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs"
             title="Export as CSV"
           >
-            <Download className="w-4 h-4" />
+            <Download className="w-4 h-4 inline mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={() => exportSheet('\t')}
+            className="p-2 hover:bg-white/20 rounded text-white transition-colors text-xs"
+            title="Export as TSV"
+          >
+            <Download className="w-4 h-4 inline mr-1" />
+            TSV
           </button>
         </div>
       </motion.div>
 
+      {/* Formula Bar */}
+      <div className="flex items-center gap-2 px-4 py-2 bg-gray-900 border-b border-purple-400/20">
+        <span className="w-16 text-center text-xs font-semibold text-purple-300">
+          {selectedAddress || '—'}
+        </span>
+        <FunctionSquare className="w-4 h-4 text-white/50" />
+        <input
+          type="text"
+          value={selectedCell ? activeSheet.rows[selectedCell.row]?.[selectedCell.col] ?? '' : ''}
+          onChange={(e) => selectedCell && updateCell(selectedCell.row, selectedCell.col, e.target.value)}
+          disabled={!selectedCell}
+          className="flex-1 h-8 px-2 text-sm rounded bg-gray-800/50 border border-purple-400/10 text-white outline-none focus:bg-gray-700 disabled:opacity-50"
+          placeholder="Select a cell, then type a value or a formula like =SUM(A1:A10)"
+        />
+      </div>
+
       {/* Spreadsheet */}
       <motion.div
         className="flex-1 overflow-auto"
@@ -232,21 +508,28 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
               <div className="w-12 h-10 glass-purple border border-purple-400/10 flex items-center justify-center text-white/60 text-xs flex-shrink-0">
                 {rowIndex + 1}
               </div>
-              {visibleColumns.map(col => (
-                <input
-                  key={`${rowIndex}-${col}`}
-                  type="text"
-                  value={row[col] || ''}
-                  onChange={(e) => updateCell(rowIndex, col, e.target.value)}
-                  onFocus={() => setSelectedCell({ row: rowIndex, col })}
-                  className={cn(
-                    'w-32 h-10 px-2 text-sm border border-purple-400/10 bg-gray-800/50 text-white',
-                    'hover:bg-gray-800 focus:bg-gray-700 outline-none flex-shrink-0',
-                    selectedCell?.row === rowIndex && selectedCell?.col === col && 'ring-2 ring-purple-400'
-                  )}
-                  placeholder={`${col}${rowIndex + 1}`}
-                />
-              ))}
+              {visibleColumns.map(col => {
+                const isSelected = selectedCell?.row === rowIndex && selectedCell?.col === col
+                const value = engine.getValue(activeSheet.name, `${col}${rowIndex + 1}`)
+                return (
+                  <input
+                    key={`${rowIndex}-${col}`}
+                    type="text"
+                    // The selected cell shows its raw input (e.g. the formula), others their computed value
+                    value={isSelected ? row[col] ?? '' : formatCellValue(value)}
+                    onChange={(e) => updateCell(rowIndex, col, e.target.value)}
+                    onFocus={() => setSelectedCell({ row: rowIndex, col })}
+                    className={cn(
+                      'w-32 h-10 px-2 text-sm border border-purple-400/10 bg-gray-800/50 text-white',
+                      'hover:bg-gray-800 focus:bg-gray-700 outline-none flex-shrink-0',
+                      !isSelected && typeof value === 'number' && 'text-right',
+                      !isSelected && value instanceof FormulaError && 'text-red-400',
+                      isSelected && 'ring-2 ring-purple-400'
+                    )}
+                    placeholder={`${col}${rowIndex + 1}`}
+                  />
+                )
+              })}
               <button
                 onClick={() => deleteRow(rowIndex)}
                 className="w-10 h-10 flex items-center justify-center hover:bg-red-500/20 text-red-400 transition-colors flex-shrink-0"
@@ -271,6 +554,46 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
         </div>
       </motion.div>
 
+      {/* Sheet Tabs */}
+      <div className="flex items-center gap-1 px-4 py-1 bg-gray-900 border-t border-purple-400/20 overflow-x-auto">
+        {sheets.map(sheet => (
+          <div
+            key={sheet.id}
+            className={cn(
+              'group flex items-center gap-1 px-3 py-1 rounded text-xs cursor-pointer whitespace-nowrap transition-colors',
+              sheet.id === activeSheetId
+                ? 'bg-purple-500/30 text-white'
+                : 'text-white/60 hover:bg-white/10 hover:text-white'
+            )}
+            onClick={() => {
+              setActiveSheetId(sheet.id)
+              setSelectedCell(null)
+            }}
+          >
+            {sheet.name}
+            {sheets.length > 1 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  deleteSheet(sheet.id)
+                }}
+                className="opacity-0 group-hover:opacity-100 text-red-400 hover:text-red-300"
+                title="Delete sheet"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => addSheet()}
+          className="p-1 hover:bg-white/20 rounded text-white/70 hover:text-white transition-colors"
+          title="Add sheet"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
       {/* Footer - Statistics */}
       <motion.div
         className="glass-purple-dark border-t border-purple-400/20 px-6 py-3 flex items-center gap-4 overflow-x-auto max-h-20"
@@ -289,6 +612,94 @@ export const Spreadsheet: React.FC<{ windowId?: string }> = ({ windowId }) => {
           <span className="text-white/60 text-xs">+ {visibleColumns.length - 5} more columns</span>
         )}
       </motion.div>
+
+      {/* Import Dialog */}
+      <AnimatePresence>
+        {pendingImport && importPreview && (
+          <motion.div
+            className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="glass-purple-dark rounded-2xl p-6 w-full max-w-2xl mx-4 max-h-[90%] overflow-auto"
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white">Import {pendingImport.fileName}</h3>
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="text-white/60 hover:text-white transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-white/80 text-sm mb-2">Sheet name</label>
+                  <input
+                    type="text"
+                    value={pendingImport.sheetName}
+                    onChange={(e) => setPendingImport(prev => prev && { ...prev, sheetName: e.target.value })}
+                    className="w-full p-2 rounded-lg bg-gray-800/50 border border-purple-400/20 text-white text-sm outline-none focus:ring-2 focus:ring-purple-400/50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-white/80 text-sm mb-2">Delimiter</label>
+                  <select
+                    value={pendingImport.delimiter}
+                    onChange={(e) => setPendingImport(prev => prev && { ...prev, delimiter: e.target.value as Delimiter })}
+                    className="w-full p-2 rounded-lg bg-gray-800 border border-purple-400/20 text-white text-sm outline-none"
+                  >
+                    {DELIMITERS.map(d => (
+                      <option key={d.label} value={d.value}>{d.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <p className="text-white/60 text-xs mb-2">
+                {importPreview.rows.length} rows · encoding {pendingImport.encoding}
+              </p>
+              <div className="overflow-auto max-h-60 rounded-lg border border-purple-400/20 mb-4">
+                <table className="text-xs text-white/80">
+                  <tbody>
+                    {importPreview.rows.slice(0, 8).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-b border-purple-400/10">
+                        {row.map((value, colIndex) => (
+                          <td key={colIndex} className="px-2 py-1 whitespace-nowrap max-w-[12rem] truncate">
+                            {value}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="px-4 py-2 rounded-lg text-white/70 hover:bg-white/10 text-sm transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmImport}
+                  disabled={importPreview.rows.length === 0}
+                  className="px-4 py-2 rounded-lg bg-purple-500 hover:bg-purple-600 text-white text-sm transition-colors disabled:opacity-50"
+                >
+                  Import as new sheet
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Mic, Square, Play, Pause, MoreHorizontal, Trash2, 
@@ -7,6 +7,10 @@ import {
   Edit3, Save, X, Waves, MicOff
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { vfs, VFS_PATHS, basename, dirname, joinPath } from '@/services/vfs'
+import { useVfsDirectory, useVfsObjectUrls } from '@/hooks/useVfs'
+import { saveRecording } from '@/lib/media-storage'
+import { downloadFile } from '@/lib/download'
 
 interface Recording {
   id: string
@@ -29,7 +33,23 @@ export const VoiceRecorder: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
   const [duration, setDuration] = useState(0)
-  const [recordings, setRecordings] = useState<Recording[]>([])
+  const { entries: recordingEntries } = useVfsDirectory(VFS_PATHS.recordings, { create: true })
+  const audioEntries = useMemo(
+    () => recordingEntries.filter(entry => entry.type === 'file' && entry.mimeType?.startsWith('audio/')),
+    [recordingEntries]
+  )
+  const urls = useVfsObjectUrls(audioEntries)
+
+  // Recordings are audio files in Music/Recordings, so they show up in Files too
+  const recordings = useMemo<Recording[]>(() => audioEntries.map(entry => ({
+    id: entry.path,
+    name: entry.name.replace(/\.[^.]+$/, ''),
+    url: urls[entry.path] || '',
+    duration: Number(entry.meta?.duration) || 0,
+    timestamp: new Date(entry.created),
+    size: entry.size,
+    quality: (entry.meta?.quality as Recording['quality']) || 'medium'
+  })), [audioEntries, urls])
   const [selectedRecording, setSelectedRecording] = useState<Recording | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [playbackTime, setPlaybackTime] = useState(0)
@@ -48,6 +68,11 @@ export const VoiceRecorder: React.FC = () => {
   const analyserRef = useRef<AnalyserNode | null>(null)
   const dataArrayRef = useRef<Uint8Array | null>(null)
   const durationTimerRef = useRef<NodeJS.Timeout>()
+  const durationRef = useRef(0)
+
+  useEffect(() => {
+    durationRef.current = duration
+  }, [duration])
 
   const [settings, setSettings] = useState<RecorderSettings>({
     quality: 'medium',
@@ -132,20 +157,12 @@ export const VoiceRecorder: React.FC = () => {
     }
 
     mediaRecorder.onstop = () => {
-      const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' })
-      const audioUrl = URL.createObjectURL(audioBlob)
-      
-      const newRecording: Recording = {
-        id: Date.now().toString(),
-        name: `Recording ${recordings.length + 1}`,
-        url: audioUrl,
-        duration: duration,
-        timestamp: new Date(),
-        size: audioBlob.size,
-        quality: settings.quality
-      }
+      const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' })
 
-      setRecordings(prev => [newRecording, ...prev])
+      saveRecording(audioBlob, `Recording ${recordings.length + 1}`, {
+        duration: durationRef.current,
+        quality: settings.quality
+      }).catch(error => console.error('Failed to save recording:', error))
       setDuration(0)
     }
 
@@ -260,8 +277,7 @@ export const VoiceRecorder: React.FC = () => {
 
   // Delete recording
   const deleteRecording = useCallback((recording: Recording) => {
-    URL.revokeObjectURL(recording.url)
-    setRecordings(prev => prev.filter(r => r.id !== recording.id))
+    vfs.remove(recording.id).catch(error => console.error('Failed to delete recording:', error))
     
     if (selectedRecording?.id === recording.id) {
       if (audioRef.current) {
@@ -275,12 +291,7 @@ export const VoiceRecorder: React.FC = () => {
 
   // Download recording
   const downloadRecording = useCallback((recording: Recording) => {
-    const link = document.createElement('a')
-    link.href = recording.url
-    link.download = `${recording.name}.wav`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+    downloadFile(recording.url, basename(recording.id), 'voice-recorder')
   }, [])
 
   // Share recording
@@ -289,7 +300,7 @@ export const VoiceRecorder: React.FC = () => {
       try {
         const response = await fetch(recording.url)
         const blob = await response.blob()
-        const file = new File([blob], `${recording.name}.wav`, { type: 'audio/wav' })
+        const file = new File([blob], basename(recording.id), { type: blob.type })
         
         await navigator.share({
           files: [file],
@@ -302,12 +313,17 @@ export const VoiceRecorder: React.FC = () => {
   }, [])
 
   // Rename recording
-  const renameRecording = useCallback((recording: Recording, newName: string) => {
-    setRecordings(prev => 
-      prev.map(r => 
-        r.id === recording.id ? { ...r, name: newName } : r
-      )
-    )
+  const renameRecording = useCallback(async (recording: Recording, newName: string) => {
+    const name = newName.trim().replace(/\//g, '-')
+    if (name && name !== recording.name) {
+      try {
+        const extension = recording.id.match(/\.[^./]+$/)?.[0] || ''
+        const target = await vfs.uniquePath(joinPath(dirname(recording.id), `${name}${extension}`))
+        await vfs.move(recording.id, target)
+      } catch (error) {
+        console.error('Failed to rename recording:', error)
+      }
+    }
     setShowRename(false)
     setNewName('')
   }, [])
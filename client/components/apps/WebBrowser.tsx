@@ -40,6 +40,7 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useSamStore } from '@/store/sam-store'
+import { userStorage } from '@/lib/user-storage'
 
 interface BrowserTab {
   id: string
@@ -141,7 +142,7 @@ export const WebBrowser: React.FC = () => {
   const [showSuggestions, setShowSuggestions] = useState(false)
   
   const [bookmarks, setBookmarks] = useState<Bookmark[]>(() => {
-    const saved = localStorage.getItem('nyx-browser-bookmarks')
+    const saved = userStorage.getItem('nyx-browser-bookmarks')
     return saved ? JSON.parse(saved).map((b: any) => ({
       ...b,
       created: new Date(b.created || Date.now())
@@ -157,7 +158,7 @@ export const WebBrowser: React.FC = () => {
   })
   
   const [history, setHistory] = useState<HistoryEntry[]>(() => {
-    const saved = localStorage.getItem('nyx-browser-history')
+    const saved = userStorage.getItem('nyx-browser-history')
     return saved ? JSON.parse(saved).map((entry: any) => ({
       ...entry,
       timestamp: new Date(entry.timestamp)
@@ -165,7 +166,7 @@ export const WebBrowser: React.FC = () => {
   })
   
   const [downloads, setDownloads] = useState<Download[]>(() => {
-    const saved = localStorage.getItem('nyx-browser-downloads')
+    const saved = userStorage.getItem('nyx-browser-downloads')
     return saved ? JSON.parse(saved).map((d: any) => ({
       ...d,
       timestamp: new Date(d.timestamp)
@@ -177,15 +178,15 @@ export const WebBrowser: React.FC = () => {
   
   // Save data to localStorage
   useEffect(() => {
-    localStorage.setItem('nyx-browser-bookmarks', JSON.stringify(bookmarks))
+    userStorage.setItem('nyx-browser-bookmarks', JSON.stringify(bookmarks))
   }, [bookmarks])
   
   useEffect(() => {
-    localStorage.setItem('nyx-browser-history', JSON.stringify(history))
+    userStorage.setItem('nyx-browser-history', JSON.stringify(history))
   }, [history])
   
   useEffect(() => {
-    localStorage.setItem('nyx-browser-downloads', JSON.stringify(downloads))
+    userStorage.setItem('nyx-browser-downloads', JSON.stringify(downloads))
   }, [downloads])
   
   const getActiveTab = () => tabs.find(tab => tab.id === activeTabId) || tabs[0]
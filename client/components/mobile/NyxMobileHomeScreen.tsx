@@ -1,33 +1,29 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
-  Phone, Camera, Chrome, Settings, Calculator,
-  Image, Clock, Cloud, Calendar, FileText,
-  Mic, MapPin, Search, Wifi, Battery, Signal,
+  Search, Wifi, Battery, Signal,
   ArrowUp, Home, Square, Triangle, WifiOff
 } from 'lucide-react'
-import { useWindowStore } from '@/store/window-store'
-import { useSamStore } from '@/store/sam-store'
 import { useDeviceInfo } from '@/hooks/useDeviceInfo'
 import { cn } from '@/lib/utils'
+import { AppManifest, getAppManifest, getAppsForDevice } from '@/lib/app-registry'
+import { launchApp } from '@/lib/app-launcher'
 
-// Nyx OS Mobile Apps - Clean and Essential
-const nyxApps = [
-  // Core Nyx OS Apps
-  { id: 'call-sam', name: 'Call Sam', icon: Phone, color: '#8b5cf6', category: 'nyx' },
-  { id: 'camera', name: 'Camera', icon: Camera, color: '#dc2626', category: 'media' },
-  { id: 'gallery', name: 'Gallery', icon: Image, color: '#7c3aed', category: 'media' },
-  { id: 'notes', name: 'Notepad', icon: FileText, color: '#ca8a04', category: 'nyx' },
-  { id: 'browser', name: 'Nyx Browse', icon: Chrome, color: '#ea580c', category: 'nyx' },
-  { id: 'voice-recorder', name: 'Voice Recorder', icon: Mic, color: '#be123c', category: 'nyx' },
-  { id: 'settings', name: 'Settings', icon: Settings, color: '#6b7280', category: 'system' },
-  { id: 'calculator', name: 'Calculator', icon: Calculator, color: '#059669', category: 'tools' },
-  
-  // Essential Mobile Apps
-  { id: 'maps', name: 'Maps', icon: MapPin, color: '#16a34a', category: 'tools' },
-  { id: 'calendar', name: 'Calendar', icon: Calendar, color: '#0891b2', category: 'productivity' },
-  { id: 'clock', name: 'Clock', icon: Clock, color: '#4f46e5', category: 'tools' },
-  { id: 'weather', name: 'Weather', icon: Cloud, color: '#0369a1', category: 'tools' },
+// Apps pinned to the home screen; everything else for this device lives in the drawer
+const HOME_SCREEN_APP_IDS = [
+  'call-sam',
+  'camera',
+  'gallery',
+  'notepad',
+  'browser',
+  'voice-recorder',
+  'settings',
+  'calculator',
+]
+
+const nyxApps: AppManifest[] = [
+  ...HOME_SCREEN_APP_IDS.map(getAppManifest).filter(Boolean),
+  ...getAppsForDevice('phone').filter(app => !HOME_SCREEN_APP_IDS.includes(app.id)),
 ]
 
 export const NyxMobileHomeScreen: React.FC = () => {
@@ -35,8 +31,6 @@ export const NyxMobileHomeScreen: React.FC = () => {
   const [showAppDrawer, setShowAppDrawer] = useState(false)
   const iconRefs = useRef<Record<string, HTMLElement | null>>({})
 
-  const { openWindow } = useWindowStore()
-  const { addMessage } = useSamStore()
   const {
     deviceInfo,
     getBatteryPercentage,
@@ -63,7 +57,7 @@ export const NyxMobileHomeScreen: React.FC = () => {
       )
     : nyxApps
 
-  const handleAppOpen = (app: typeof nyxApps[0], event?: React.MouseEvent) => {
+  const handleAppOpen = (app: AppManifest, event?: React.MouseEvent) => {
     // Get icon position for animation
     const iconElement = iconRefs.current[app.id]
     let iconPosition = { x: window.innerWidth / 2, y: window.innerHeight / 2 }
@@ -76,106 +70,13 @@ export const NyxMobileHomeScreen: React.FC = () => {
       }
     }
 
-    // Import and open the app component dynamically
-    switch (app.id) {
-      case 'camera':
-        import('@/components/apps/EnhancedCameraApp').then(({ EnhancedCameraApp }) => {
-          openWindow({
-            title: app.name,
-            component: EnhancedCameraApp,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'call-sam':
-        import('@/components/apps/EnhancedCallSam').then(({ EnhancedCallSam }) => {
-          openWindow({
-            title: 'Call Sam',
-            component: EnhancedCallSam,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'voice-recorder':
-        import('@/components/apps/VoiceRecorder').then(({ VoiceRecorder }) => {
-          openWindow({
-            title: app.name,
-            component: VoiceRecorder,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'notes':
-        import('@/components/apps/EnhancedNotepad').then(({ EnhancedNotepad }) => {
-          openWindow({
-            title: 'Notepad',
-            component: EnhancedNotepad,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'gallery':
-        import('@/components/apps/Gallery').then(({ Gallery }) => {
-          openWindow({
-            title: app.name,
-            component: Gallery,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'browser':
-        import('@/components/apps/NyxBrowser').then(({ NyxBrowser }) => {
-          openWindow({
-            title: 'Nyx Browse',
-            component: NyxBrowser,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'calculator':
-        import('@/components/apps/Calculator').then(({ Calculator }) => {
-          openWindow({
-            title: 'Calculator',
-            component: Calculator,
-            position: { x: 50, y: 50 },
-            size: { width: 350, height: 500 },
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      case 'settings':
-        import('@/components/apps/Settings').then(({ Settings }) => {
-          openWindow({
-            title: 'Settings',
-            component: Settings,
-            position: { x: 0, y: 0 },
-            size: { width: window.innerWidth, height: window.innerHeight },
-            isFullscreen: true,
-            animationOrigin: iconPosition,
-          })
-        })
-        break
-      default:
-        addMessage(`${app.name} - Demo app opening soon!`, 'system', 'neutral')
-    }
+    launchApp(app.id, {
+      deviceType: 'phone',
+      position: { x: 0, y: 0 },
+      size: { width: window.innerWidth, height: window.innerHeight },
+      isFullscreen: true,
+      animationOrigin: iconPosition,
+    })
     
     setShowAppDrawer(false)
   }
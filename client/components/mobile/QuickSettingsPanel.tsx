@@ -32,6 +32,8 @@ import {
 } from 'lucide-react'
 import { useDeviceAuthStore, triggerHaptic } from '@/store/device-auth-store'
 import { useThemeStore } from '@/store/theme-store'
+import { useNotificationStore } from '@/store/notification-store'
+import { NotificationCenter } from '@/components/os/NotificationCenter'
 import { cn } from '@/lib/utils'
 
 interface QuickSettingsTile {
@@ -65,6 +67,7 @@ export const QuickSettingsPanel: React.FC<QuickSettingsPanelProps> = ({
     enableHapticFeedback 
   } = useDeviceAuthStore()
   const { settings: themeSettings, setThemeMode } = useThemeStore()
+  const { doNotDisturb, setDoNotDisturb } = useNotificationStore()
   
   const [editMode, setEditMode] = useState(false)
   const [brightness, setBrightness] = useState(80)
@@ -75,7 +78,6 @@ export const QuickSettingsPanel: React.FC<QuickSettingsPanelProps> = ({
     airplane: false,
     flashlight: false,
     autoRotate: true,
-    doNotDisturb: false,
     hotspot: false,
     location: true,
     nfc: true,
@@ -128,9 +130,9 @@ export const QuickSettingsPanel: React.FC<QuickSettingsPanelProps> = ({
     },
     do_not_disturb: {
       id: 'do_not_disturb',
-      icon: systemStates.doNotDisturb ? BellOff : Bell,
+      icon: doNotDisturb.enabled ? BellOff : Bell,
       label: 'Do Not Disturb',
-      description: systemStates.doNotDisturb ? 'On' : 'Off'
+      description: doNotDisturb.enabled ? 'On' : 'Off'
     },
     hotspot: {
       id: 'hotspot',
@@ -170,7 +172,7 @@ export const QuickSettingsPanel: React.FC<QuickSettingsPanelProps> = ({
     bluetooth: () => setSystemStates(prev => ({ ...prev, bluetooth: !prev.bluetooth })),
     airplane: () => setSystemStates(prev => ({ ...prev, airplane: !prev.airplane })),
     battery_saver: () => setSystemStates(prev => ({ ...prev, batterySaver: !prev.batterySaver })),
-    do_not_disturb: () => setSystemStates(prev => ({ ...prev, doNotDisturb: !prev.doNotDisturb })),
+    do_not_disturb: () => setDoNotDisturb({ enabled: !doNotDisturb.enabled }),
     hotspot: () => setSystemStates(prev => ({ ...prev, hotspot: !prev.hotspot })),
     location: () => setSystemStates(prev => ({ ...prev, location: !prev.location })),
     auto_rotate: () => setSystemStates(prev => ({ ...prev, autoRotate: !prev.autoRotate })),
@@ -188,6 +190,7 @@ export const QuickSettingsPanel: React.FC<QuickSettingsPanelProps> = ({
     const isActive = (() => {
       switch (tileId) {
         case 'dark_mode': return themeSettings.mode === 'dark'
+        case 'do_not_disturb': return doNotDisturb.enabled
         case 'brightness': case 'volume': return true // Always "active" for sliders
         default: return systemStates[tileId as keyof typeof systemStates] as boolean
       }
@@ -375,6 +378,9 @@ export const QuickSettingsPanel: React.FC<QuickSettingsPanelProps> = ({
                 ))}
               </div>
 
+              {/* Notifications */}
+              <NotificationCenter dark={isDark} className="mb-6" />
+
               {/* Additional Controls */}
               <div className="space-y-4">
                 {/* Power Options */}
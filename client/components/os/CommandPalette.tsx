@@ -1,9 +1,11 @@
 import React, { useEffect, useMemo, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useDesktopStore } from '@/store/desktop-store'
-import { useWindowStore } from '@/store/window-store'
 import { useThemeStore } from '@/store/theme-store'
-import { Search, Moon, Sun, Settings as SettingsIcon, Calendar as CalendarIcon } from 'lucide-react'
+import { getAppsForDevice } from '@/lib/app-registry'
+import { launchApp } from '@/lib/app-launcher'
+import { useWindowStore } from '@/store/window-store'
+import { useVirtualDesktopStore, selectCurrentDesktop } from '@/store/virtual-desktop-store'
+import { Search, Moon, Sun, Settings as SettingsIcon, Calendar as CalendarIcon, LayoutGrid, LayoutDashboard, Monitor } from 'lucide-react'
 
 interface CommandItem {
   id: string
@@ -15,9 +17,8 @@ interface CommandItem {
 }
 
 export const CommandPalette: React.FC = () => {
-  const { icons } = useDesktopStore()
-  const { openWindow } = useWindowStore()
   const { settings, setThemeMode } = useThemeStore()
+  const { desktops, currentDesktopId } = useVirtualDesktopStore()
 
   const [open, setOpen] = useState(false)
   const [query, setQuery] = useState('')
@@ -37,49 +38,41 @@ export const CommandPalette: React.FC = () => {
   }, [open])
 
   const items: CommandItem[] = useMemo(() => {
-    const desktopCommands: CommandItem[] = [0,1,2,3].map((idx) => ({
-      id: `cmd-switch-desktop-${idx+1}`,
+    const otherDesktops = desktops.filter(d => d.id !== currentDesktopId)
+
+    const desktopCommands: CommandItem[] = otherDesktops.map((desktop) => ({
+      id: `cmd-switch-desktop-${desktop.id}`,
       type: 'command',
-      title: `Switch to Desktop ${idx + 1}`,
+      title: `Switch to ${desktop.name}`,
+      icon: <Monitor className="w-4 h-4" />,
       action: () => {
-        const store = require('@/store/virtual-desktop-store') as any
-        store.useVirtualDesktopStore.getState().switchDesktop(idx)
+        useVirtualDesktopStore.getState().switchDesktop(desktop.id)
         setOpen(false)
       }
     }))
 
-    const moveWindowCommands: CommandItem[] = [0,1,2,3].map((idx) => ({
-      id: `cmd-move-window-desktop-${idx+1}`,
+    const moveWindowCommands: CommandItem[] = otherDesktops.map((desktop) => ({
+      id: `cmd-move-window-desktop-${desktop.id}`,
       type: 'command',
-      title: `Move focused window to Desktop ${idx + 1}`,
+      title: `Move focused window to ${desktop.name}`,
+      icon: <Monitor className="w-4 h-4" />,
       action: () => {
-        const store = require('@/store/virtual-desktop-store') as any
-        store.useVirtualDesktopStore.getState().switchDesktop(idx)
-        const { focusedWindowId, moveWindowToDesktop } = require('@/store/window-store') as any
-        const id = (require('@/store/window-store') as any).useWindowStore.getState().focusedWindowId
-        if (id) {
-          ;(require('@/store/window-store') as any).useWindowStore.getState().moveWindowToDesktop(id, idx)
-        }
+        const { focusedWindowId, moveWindowToDesktop } = useWindowStore.getState()
+        if (focusedWindowId) moveWindowToDesktop(focusedWindowId, desktop.id)
+        useVirtualDesktopStore.getState().switchDesktop(desktop.id)
         setOpen(false)
       }
     }))
 
-    const appItems: CommandItem[] = icons.map((icon) => ({
-      id: `app-${icon.appId}`,
+    const appItems: CommandItem[] = getAppsForDevice('desktop').map((app) => ({
+      id: `app-${app.id}`,
       type: 'app',
-      title: icon.name,
-      subtitle: icon.description,
-      icon: React.createElement(icon.icon, { className: 'w-4 h-4' }),
+      title: app.name,
+      subtitle: app.description,
+      icon: React.createElement(app.icon, { className: 'w-4 h-4' }),
       action: () => {
         // Open app with its defaults
-        openWindow({
-          appId: icon.appId,
-          title: icon.name,
-          component: icon.component,
-          position: icon.defaultPosition,
-          size: icon.defaultSize,
-          mode: 'windowed',
-        })
+        launchApp(app.id)
         setOpen(false)
       }
     }))
@@ -97,16 +90,37 @@ export const CommandPalette: React.FC = () => {
       },
       ...desktopCommands,
       ...moveWindowCommands,
+      {
+        id: 'cmd-show-all-windows',
+        type: 'command',
+        title: 'Show All Windows',
+        subtitle: 'Overview of every desktop (F3)',
+        icon: <LayoutDashboard className="w-4 h-4" />,
+        action: () => {
+          setOpen(false)
+          window.dispatchEvent(new CustomEvent('nyx:toggle-expose'))
+        }
+      },
+      {
+        id: 'cmd-toggle-tiling',
+        type: 'command',
+        title: 'Toggle Tiling on This Desktop',
+        subtitle: 'Arrange every window in a grid',
+        icon: <LayoutGrid className="w-4 h-4" />,
+        action: () => {
+          const desktops = useVirtualDesktopStore.getState()
+          const { id, layout } = selectCurrentDesktop(desktops)
+          desktops.setDesktopLayout(id, { tiling: !layout.tiling })
+          setOpen(false)
+        }
+      },
       {
         id: 'cmd-open-settings',
         type: 'command',
         title: 'Open Settings',
         icon: <SettingsIcon className="w-4 h-4" />,
         action: () => {
-          const icon = icons.find(i => i.appId === 'settings')
-          if (icon) {
-            openWindow({ title: icon.name, appId: icon.appId, component: icon.component, position: icon.defaultPosition, size: icon.defaultSize, mode: 'windowed' })
-          }
+          launchApp('settings')
           setOpen(false)
         }
       },
@@ -116,17 +130,14 @@ export const CommandPalette: React.FC = () => {
         title: 'Open Calendar',
         icon: <CalendarIcon className="w-4 h-4" />,
         action: () => {
-          const icon = icons.find(i => i.appId === 'calendar')
-          if (icon) {
-            openWindow({ title: icon.name, appId: icon.appId, component: icon.component, position: icon.defaultPosition, size: icon.defaultSize, mode: 'windowed' })
-          }
+          launchApp('calendar')
           setOpen(false)
         }
       }
     ]
 
     return [...commandItems, ...appItems]
-  }, [icons, openWindow, settings, setThemeMode])
+  }, [settings, setThemeMode, desktops, currentDesktopId])
 
   const filtered = items.filter((item) =>
     (item.title + ' ' + (item.subtitle || ''))
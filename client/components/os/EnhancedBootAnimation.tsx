@@ -1,17 +1,10 @@
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { LoginScreen } from './LoginScreen'
-
-interface User {
-  id: string
-  username: string
-  displayName: string
-  password: string
-  avatar?: string
-}
+import type { UserProfile } from '@/lib/user-profiles'
 
 interface EnhancedBootAnimationProps {
-  onComplete: (user: User) => void
+  onComplete: (user: UserProfile) => void
 }
 
 export const EnhancedBootAnimation: React.FC<EnhancedBootAnimationProps> = ({ onComplete }) => {
@@ -68,7 +61,7 @@ export const EnhancedBootAnimation: React.FC<EnhancedBootAnimationProps> = ({ on
     timeline()
   }, [])
   
-  const handleLogin = (user: User) => {
+  const handleLogin = (user: UserProfile) => {
     setPhase('complete')
     setTimeout(() => onComplete(user), 1000)
   }
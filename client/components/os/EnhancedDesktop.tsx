@@ -8,55 +8,13 @@ import { useWindowStore } from '@/store/window-store'
 import { useDesktopStore } from '@/store/desktop-store'
 import { useSamStore } from '@/store/sam-store'
 import { MobileNavigation } from '@/components/mobile/MobileGestureSystem'
-import { SamChat } from '@/components/apps/SamChat'
-import { CallSam } from '@/components/apps/CallSam'
-import { AppForge } from '@/components/apps/AppForge'
-import { Files } from '@/components/apps/Files'
-import { Calendar } from '@/components/apps/Calendar'
-import { Settings } from '@/components/apps/Settings'
-import { NyxBrowser } from '@/components/apps/NyxBrowser'
-import { InfiniteRunner } from '@/components/apps/InfiniteRunner'
-import { FlappyGame } from '@/components/apps/FlappyGame'
-import { ChessGame } from '@/components/apps/ChessGame'
-import { MemoryAlarms } from '@/components/apps/MemoryAlarms'
-import { Notepad } from '@/components/apps/Notepad'
-import { Calculator } from '@/components/apps/Calculator'
-import { WebBrowser } from '@/components/apps/WebBrowser'
-import { Game2048 } from '@/components/apps/Game2048'
-import { NyxManual } from '@/components/apps/NyxManual'
-import { WindowsMediaPlayer } from '@/components/apps/WindowsMediaPlayer'
-import { DocumentEditor } from '@/components/apps/DocumentEditor'
-import { Presentations } from '@/components/apps/Presentations'
-import { Spreadsheet } from '@/components/apps/Spreadsheet'
-import { FileConverter } from '@/components/apps/FileConverter'
-import { AppErrorBoundary } from '@/components/apps/AppErrorBoundary'
+import { getAppsForDevice, getAppComponent } from '@/lib/app-registry'
+import { launchApp } from '@/lib/app-launcher'
 import {
-  MessageCircle,
-  Phone,
-  Folder,
-  Wrench,
-  Calendar as CalendarIcon,
-  Settings as SettingsIcon,
-  Globe,
   FolderPlus,
   Copy,
   Trash2,
   Edit,
-  Plus,
-  Gamepad2,
-  Crown,
-  Zap,
-  Brain,
-  FileText,
-  Calculator as CalculatorIcon,
-  Chrome,
-  Grid3x3,
-  HelpCircle,
-  Music,
-  FileCode,
-  Presentation,
-  BarChart3,
-  ArrowRightLeft,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { DesktopIcon } from './DesktopIcon'
@@ -106,239 +64,17 @@ export const EnhancedDesktop: React.FC = () => {
         y: startY + Math.floor(index / iconsPerRow) * gridSize
       })
 
-      const defaultApps = [
-        {
-          appId: 'sam-chat',
-          name: 'Sam',
-          icon: MessageCircle,
-          component: SamChat,
-          defaultSize: { width: 450, height: 650 },
-          defaultPosition: { x: 100, y: 100 },
-          description: 'Chat with Sam AI',
-          position: getGridPosition(0),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'call-sam',
-          name: 'Call Sam',
-          icon: Phone,
-          component: CallSam,
-          defaultSize: { width: 550, height: 700 },
-          defaultPosition: { x: 200, y: 100 },
-          description: 'Voice chat with Sam',
-          position: getGridPosition(1),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'files',
-          name: 'Files',
-          icon: Folder,
-          component: Files,
-          defaultSize: { width: 800, height: 600 },
-          defaultPosition: { x: 150, y: 120 },
-          description: 'File manager',
-          position: getGridPosition(2),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'app-forge',
-          name: 'App Forge',
-          icon: Wrench,
-          component: AppForge,
-          defaultSize: { width: 900, height: 700 },
-          defaultPosition: { x: 250, y: 80 },
-          description: 'AI-powered app builder',
-          position: getGridPosition(3),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'calendar',
-          name: 'Chrono',
-          icon: CalendarIcon,
-          component: Calendar,
-          defaultSize: { width: 900, height: 600 },
-          defaultPosition: { x: 200, y: 50 },
-          description: 'Calendar & scheduling',
-          position: getGridPosition(4),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'settings',
-          name: 'Settings',
-          icon: SettingsIcon,
-          component: Settings,
-          defaultSize: { width: 1000, height: 700 },
-          defaultPosition: { x: 300, y: 100 },
-          description: 'System settings & customization',
-          position: getGridPosition(5),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'browser',
-          name: 'Nyx Browse',
-          icon: Globe,
-          component: NyxBrowser,
-          defaultSize: { width: 1000, height: 700 },
-          defaultPosition: { x: 100, y: 50 },
-          description: 'Quantum web browser',
-          position: getGridPosition(6),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'web-browser',
-          name: 'Web Browser',
-          icon: Chrome,
-          component: WebBrowser,
-          defaultSize: { width: 1200, height: 800 },
-          defaultPosition: { x: 120, y: 40 },
-          description: 'Full-featured web browser',
-          position: getGridPosition(7),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'runner-game',
-          name: 'Nyx Runner',
-          icon: Zap,
-          component: InfiniteRunner,
-          defaultSize: { width: 900, height: 600 },
-          defaultPosition: { x: 120, y: 80 },
-          description: '2D infinite runner game',
-          position: getGridPosition(8),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'flappy-game',
-          name: 'Nyx Flap',
-          icon: Gamepad2,
-          component: FlappyGame,
-          defaultSize: { width: 900, height: 600 },
-          defaultPosition: { x: 140, y: 100 },
-          description: 'Flappy bird inspired game',
-          position: getGridPosition(9),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'chess-game',
-          name: 'Nyx Chess',
-          icon: Crown,
-          component: ChessGame,
-          defaultSize: { width: 800, height: 700 },
-          defaultPosition: { x: 160, y: 60 },
-          description: 'Strategic chess game',
-          position: getGridPosition(10),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'memory-alarms',
-          name: 'Memory',
-          icon: Brain,
-          component: MemoryAlarms,
-          defaultSize: { width: 900, height: 700 },
-          defaultPosition: { x: 180, y: 40 },
-          description: 'Memory, alarms, and scheduling',
-          position: getGridPosition(11),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'notepad',
-          name: 'Notepad',
-          icon: FileText,
-          component: Notepad,
-          defaultSize: { width: 900, height: 700 },
-          defaultPosition: { x: 200, y: 120 },
-          description: 'Text editor with rich features',
-          position: getGridPosition(12),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'calculator',
-          name: 'Calculator',
-          icon: CalculatorIcon,
-          component: Calculator,
-          defaultSize: { width: 450, height: 700 },
-          defaultPosition: { x: 220, y: 100 },
-          description: 'Scientific calculator',
-          position: getGridPosition(13),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: '2048-game',
-          name: '2048',
-          icon: Grid3x3,
-          component: Game2048,
-          defaultSize: { width: 600, height: 700 },
-          defaultPosition: { x: 240, y: 80 },
-          description: 'Classic 2048 puzzle game',
-          position: getGridPosition(14),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'nyx-manual',
-          name: 'Manual',
-          icon: HelpCircle,
-          component: NyxManual,
-          defaultSize: { width: 1000, height: 700 },
-          defaultPosition: { x: 260, y: 60 },
-          description: 'Complete Nyx OS manual with shortcuts and tips',
-          position: getGridPosition(15),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'media-player',
-          name: 'Media Player',
-          icon: Music,
-          component: WindowsMediaPlayer,
-          defaultSize: { width: 1000, height: 700 },
-          defaultPosition: { x: 180, y: 80 },
-          description: 'Windows-style media player for all your audio needs',
-          position: getGridPosition(16),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'document-editor',
-          name: 'Word',
-          icon: FileCode,
-          component: DocumentEditor,
-          defaultSize: { width: 1000, height: 700 },
-          defaultPosition: { x: 200, y: 100 },
-          description: 'Full-featured document editor with formatting and export',
-          position: getGridPosition(17),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'presentations',
-          name: 'PowerPoint',
-          icon: Presentation,
-          component: Presentations,
-          defaultSize: { width: 1200, height: 800 },
-          defaultPosition: { x: 220, y: 120 },
-          description: 'Create stunning presentations with slides and animations',
-          position: getGridPosition(18),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'spreadsheet',
-          name: 'Excel',
-          icon: BarChart3,
-          component: Spreadsheet,
-          defaultSize: { width: 1100, height: 700 },
-          defaultPosition: { x: 240, y: 100 },
-          description: 'Spreadsheet application with formulas and calculations',
-          position: getGridPosition(19),
-          size: { width: 64, height: 64 }
-        },
-        {
-          appId: 'file-converter',
-          name: 'Converter',
-          icon: ArrowRightLeft,
-          component: FileConverter,
-          defaultSize: { width: 900, height: 700 },
-          defaultPosition: { x: 260, y: 80 },
-          description: 'Convert files between different formats',
-          position: getGridPosition(20),
-          size: { width: 64, height: 64 }
-        }
-      ]
+      const defaultApps = getAppsForDevice('desktop').map((app, index) => ({
+        appId: app.id,
+        name: app.name,
+        icon: app.icon,
+        component: getAppComponent(app),
+        defaultSize: app.defaultSize,
+        defaultPosition: app.defaultPosition,
+        description: app.description,
+        position: getGridPosition(index),
+        size: { width: 64, height: 64 }
+      }))
       
       // Only add each app once to prevent duplicates
       defaultApps.forEach(app => {
@@ -405,21 +141,14 @@ export const EnhancedDesktop: React.FC = () => {
       windowPosition = { x: uiConfig.windowPadding || 8, y: uiConfig.statusBarHeight || 32 }
     }
 
-    // Wrap component with error boundary
-    const WrappedComponent = (props: any) => (
-      <AppErrorBoundary appName={icon.name}>
-        <icon.component {...props} />
-      </AppErrorBoundary>
-    )
-
-    openWindow({
-      appId: icon.appId,
+    const windowId = launchApp(icon.appId, {
+      deviceType: deviceInfo.type,
       title: icon.name,
-      component: WrappedComponent,
       position: windowPosition,
       size: windowSize,
       mode: windowMode,
     })
+    if (!windowId) return
     
     // Sam reacts to app opening
     if (icon.appId === 'sam-chat') {
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ArrowDown, ArrowUp, Pencil, Pin, Plus, Trash2 } from 'lucide-react'
+import { useWindowStore, windowsByRecency } from '@/store/window-store'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { activateWindow } from '@/lib/app-launcher'
+import { DESKTOP_WALLPAPERS, DesktopError, type DesktopWallpaperId, type VirtualDesktop } from '@/lib/virtual-desktops'
+import { cn } from '@/lib/utils'
+import { WindowThumbnail } from '@/components/window/WindowThumbnail'
+
+const THUMBNAIL_WIDTH = 240
+const THUMBNAIL_HEIGHT = 150
+const DRAG_TYPE = 'application/x-nyx-window'
+const NEW_DESKTOP = 'new'
+
+interface DesktopHeaderProps {
+  desktop: VirtualDesktop
+  index: number
+  count: number
+  isCurrent: boolean
+  onOpen: () => void
+}
+
+// Name, wallpaper and place of one desktop in the overview
+const DesktopHeader: React.FC<DesktopHeaderProps> = ({ desktop, index, count, isCurrent, onOpen }) => {
+  const { renameDesktop, setDesktopWallpaper, moveDesktop, removeDesktop } = useVirtualDesktopStore()
+  const [draft, setDraft] = useState<string | null>(null) // null unless renaming
+  const [error, setError] = useState<string | null>(null)
+
+  const commitRename = () => {
+    if (draft === null) return
+    try {
+      renameDesktop(desktop.id, draft)
+      setDraft(null)
+      setError(null)
+    } catch (e) {
+      if (!(e instanceof DesktopError)) throw e
+      setError(e.message)
+    }
+  }
+
+  const iconButton = 'p-1.5 rounded-md text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none'
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2">
+      {draft === null ? (
+        <button
+          onClick={onOpen}
+          onDoubleClick={() => setDraft(desktop.name)}
+          className={cn('text-sm font-medium hover:text-white', isCurrent ? 'text-purple-200' : 'text-white/70')}
+        >
+          {desktop.name}{isCurrent && ' (current)'}
+        </button>
+      ) : (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            e.stopPropagation() // Escape cancels the rename, not the overview
+            if (e.key === 'Enter') commitRename()
+            if (e.key === 'Escape') {
+              setDraft(null)
+              setError(null)
+            }
+          }}
+          aria-label="Desktop name"
+          className="px-2 py-1 rounded-md bg-black/40 border border-white/20 text-sm text-white outline-none focus:border-purple-400"
+        />
+      )}
+      {error && <span className="text-xs text-red-300">{error}</span>}
+
+      <div className="ml-auto flex items-center gap-1">
+        <select
+          value={desktop.wallpaper}
+          onChange={(e) => setDesktopWallpaper(desktop.id, e.target.value as DesktopWallpaperId)}
+          aria-label={`Wallpaper of ${desktop.name}`}
+          className="mr-1 px-2 py-1 rounded-md bg-black/40 border border-white/15 text-xs text-white/80 outline-none"
+        >
+          {Object.entries(DESKTOP_WALLPAPERS).map(([id, wallpaper]) => (
+            <option key={id} value={id}>{wallpaper.name}</option>
+          ))}
+        </select>
+        <button className={iconButton} onClick={() => setDraft(desktop.name)} title="Rename">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button className={iconButton} onClick={() => moveDesktop(desktop.id, index - 1)} disabled={index === 0} title="Move up">
+          <ArrowUp className="w-3.5 h-3.5" />
+        </button>
+        <button className={iconButton} onClick={() => moveDesktop(desktop.id, index + 1)} disabled={index === count - 1} title="Move down">
+          <ArrowDown className="w-3.5 h-3.5" />
+        </button>
+        <button
+          className={iconButton}
+          onClick={() => removeDesktop(desktop.id)}
+          disabled={count <= 1}
+          title="Remove desktop; its windows move to the one above"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Every window on every desktop at once. Click one to go to it, or drag it onto
+// another desktop (or the new desktop slot) to move it there. Desktops can be
+// renamed, reordered, given a wallpaper or removed from here too.
+export const ExposeOverview: React.FC = () => {
+  const { windows, moveWindowToDesktop } = useWindowStore()
+  const { desktops, currentDesktopId, addDesktop, switchDesktop } = useVirtualDesktopStore()
+  const [open, setOpen] = useState(false)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  useEffect(() => {
+    const onToggle = () => setOpen((o) => !o)
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false)
+    }
+    window.addEventListener('nyx:toggle-expose', onToggle)
+    window.addEventListener('keydown', onKeyDown)
+    return () => {
+      window.removeEventListener('nyx:toggle-expose', onToggle)
+      window.removeEventListener('keydown', onKeyDown)
+    }
+  }, [])
+
+  const dropProps = (desktopId: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      setDropTarget(desktopId)
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      setDropTarget(null)
+      const id = e.dataTransfer.getData(DRAG_TYPE)
+      if (!id) return
+      moveWindowToDesktop(id, desktopId === NEW_DESKTOP ? addDesktop().id : desktopId)
+    },
+  })
+
+  const recent = windowsByRecency(windows)
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className="fixed inset-0 z-[140] overflow-y-auto bg-black/50 backdrop-blur-md p-8"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={() => setOpen(false)}
+        >
+          <div className="max-w-6xl mx-auto space-y-6" onClick={(e) => e.stopPropagation()}>
+            {desktops.map((desktop, index) => {
+              const desktopWindows = recent.filter(w => w.desktopId === desktop.id)
+              return (
+                <section
+                  key={desktop.id}
+                  {...dropProps(desktop.id)}
+                  className={cn(
+                    'rounded-2xl border p-4 transition-colors',
+                    dropTarget === desktop.id ? 'border-purple-400 bg-purple-500/15' : 'border-white/10 bg-white/5'
+                  )}
+                >
+                  <DesktopHeader
+                    desktop={desktop}
+                    index={index}
+                    count={desktops.length}
+                    isCurrent={desktop.id === currentDesktopId}
+                    onOpen={() => {
+                      switchDesktop(desktop.id)
+                      setOpen(false)
+                    }}
+                  />
+                  {desktopWindows.length === 0 ? (
+                    <div className="text-white/40 text-sm py-6 text-center">No windows. Drop one here to move it.</div>
+                  ) : (
+                    <div className="flex flex-wrap gap-4">
+                      {desktopWindows.map((window) => (
+                        <button
+                          key={window.id}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData(DRAG_TYPE, window.id)
+                            e.dataTransfer.effectAllowed = 'move'
+                          }}
+                          onClick={() => {
+                            activateWindow(window.id)
+                            setOpen(false)
+                          }}
+                          className="flex flex-col items-center gap-2 p-2 rounded-xl hover:bg-white/10 border border-transparent hover:border-white/20 transition-colors cursor-grab"
+                        >
+                          <WindowThumbnail window={window} width={THUMBNAIL_WIDTH} height={THUMBNAIL_HEIGHT} />
+                          <div className="max-w-[240px] flex items-center gap-1 text-white text-xs">
+                            {window.isPinned && <Pin className="w-3 h-3 shrink-0 text-white/60" />}
+                            <span className="truncate">{window.title}</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              )
+            })}
+
+            <button
+              {...dropProps(NEW_DESKTOP)}
+              onClick={() => addDesktop()}
+              className={cn(
+                'w-full rounded-2xl border-2 border-dashed p-6 flex items-center justify-center gap-2 text-sm transition-colors hover:text-white/80',
+                dropTarget === NEW_DESKTOP ? 'border-purple-400 text-purple-200 bg-purple-500/15' : 'border-white/15 text-white/50'
+              )}
+            >
+              <Plus className="w-4 h-4" />
+              New desktop, or drop a window here to move it to one
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -1,17 +1,11 @@
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Stars, Sparkles, Heart, Zap } from 'lucide-react'
-
-interface User {
-  id: string
-  username: string
-  displayName: string
-  password: string
-  avatar?: string
-}
+import { Stars } from 'lucide-react'
+import type { UserProfile } from '@/lib/user-profiles'
+import { UserAvatar } from './UserAvatar'
 
 interface IntroCutsceneProps {
-  user: User
+  user: UserProfile
   onComplete: () => void
 }
 
@@ -37,31 +31,12 @@ export const IntroCutscene: React.FC<IntroCutsceneProps> = ({ user, onComplete }
   }, [onComplete])
 
   const getPersonalizedMessage = () => {
-    switch (user.username) {
-      case 'suhaeb':
-        return {
-          message: "Welcome back, Chief! Ready to build something insane today?",
-          icon: <Zap className="w-8 h-8 text-yellow-400" />,
-          gradient: "from-purple-500 via-violet-500 to-purple-600"
-        }
-      case 'shreya':
-        return {
-          message: "Hey Shreya! Your pinkish-purple vibe is loading... ✨",
-          icon: <Heart className="w-8 h-8 text-pink-400" />,
-          gradient: "from-pink-400 via-purple-500 to-pink-600"
-        }
-      case 'raheel':
-        return {
-          message: "What's good, Raheel! Time to code like a beast! 🔥",
-          icon: <Sparkles className="w-8 h-8 text-blue-400" />,
-          gradient: "from-blue-500 via-purple-500 to-violet-600"
-        }
-      default:
-        return {
-          message: `Welcome to your digital kingdom, ${user.displayName}!`,
-          icon: <Stars className="w-8 h-8 text-purple-400" />,
-          gradient: "from-purple-500 via-violet-500 to-purple-600"
-        }
+    const hour = new Date().getHours()
+    const greeting = hour < 12 ? 'Good morning' : hour < 18 ? 'Good afternoon' : 'Good evening'
+    return {
+      message: `${greeting}, ${user.displayName}! Everything is just how you left it.`,
+      icon: <Stars className="w-8 h-8" style={{ color: user.theme.accentColor }} />,
+      gradient: "from-purple-500 via-violet-500 to-purple-600"
     }
   }
 
@@ -115,12 +90,12 @@ export const IntroCutscene: React.FC<IntroCutsceneProps> = ({ user, onComplete }
             >
               {/* User avatar */}
               <motion.div
-                className="w-32 h-32 mx-auto bg-gradient-to-br from-purple-600 to-violet-700 rounded-full flex items-center justify-center text-6xl shadow-2xl"
+                className="w-32 h-32 mx-auto shadow-2xl rounded-full"
                 initial={{ scale: 0, rotate: -180 }}
                 animate={{ scale: 1, rotate: 0 }}
                 transition={{ delay: 0.3, type: "spring", stiffness: 200, damping: 20 }}
               >
-                {user.avatar}
+                <UserAvatar avatar={user.avatar} className="w-full h-full text-6xl" />
               </motion.div>
 
               {/* Welcome text */}
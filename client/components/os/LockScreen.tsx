@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Delete, Lock } from 'lucide-react'
+import { useDeviceAuthStore, type UnlockResult } from '@/store/device-auth-store'
+import { useUserStore, selectCurrentProfile } from '@/store/user-store'
+import { cn } from '@/lib/utils'
+import { UserAvatar } from './UserAvatar'
+
+const PASSCODE_MAX_LENGTH = 8
+const PATTERN_MIN_LENGTH = 4
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete']
+
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`
+}
+
+const describeFailure = (result: UnlockResult) => {
+  if (result.ok) return null
+  if (!('attemptsLeft' in result)) return 'Too many attempts'
+  return result.attemptsLeft > 0
+    ? `Wrong, ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'try' : 'tries'} left before a lockout`
+    : 'Wrong, try again'
+}
+
+export const LockScreen: React.FC = () => {
+  const { authMethod, lockedUntil, recoveryHash, attemptUnlock, recoverAccess, requiresCredential } = useDeviceAuthStore()
+  const profile = useUserStore(selectCurrentProfile)
+  const [now, setNow] = useState(Date.now())
+  const [passcode, setPasscode] = useState('')
+  const [pattern, setPattern] = useState<number[]>([])
+  const [recoveryCode, setRecoveryCode] = useState('')
+  const [isRecovering, setIsRecovering] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Drives both the clock and the lockout countdown
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Take focus from whatever window was active so typing goes to the keypad
+  useEffect(() => {
+    containerRef.current?.focus()
+  }, [])
+
+  const lockoutRemaining = lockedUntil && lockedUntil > now ? lockedUntil - now : 0
+  const needsCredential = requiresCredential()
+
+  const submit = async (unlock: () => Promise<UnlockResult>) => {
+    if (isChecking) return
+    setIsChecking(true)
+    const result = await unlock()
+    setIsChecking(false)
+    setNow(Date.now())
+    setPasscode('')
+    setPattern([])
+    setError(describeFailure(result))
+    if (result.ok) setRecoveryCode('')
+  }
+
+  const pressKey = (key: string) => {
+    if (key === 'delete') {
+      setPasscode(passcode.slice(0, -1))
+      return
+    }
+    if (passcode.length < PASSCODE_MAX_LENGTH) setPasscode(passcode + key)
+  }
+
+  const pressDot = (dot: number) => {
+    if (!pattern.includes(dot)) setPattern([...pattern, dot])
+  }
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[400] bg-black/70 backdrop-blur-2xl flex flex-col items-center justify-center text-white select-none"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onKeyDown={(e) => {
+        if (authMethod !== 'passcode' || isRecovering || !needsCredential || lockoutRemaining) return
+        if (/^\d$/.test(e.key)) pressKey(e.key)
+        else if (e.key === 'Backspace') pressKey('delete')
+        else if (e.key === 'Enter' && passcode) submit(() => attemptUnlock(passcode))
+      }}
+      tabIndex={-1}
+      ref={containerRef}
+    >
+      <div className="text-7xl font-light tabular-nums">
+        {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </div>
+      <div className="text-purple-200/80 mb-10">
+        {new Date(now).toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}
+      </div>
+
+      {profile && (
+        <div className="flex flex-col items-center mb-6">
+          <UserAvatar avatar={profile.avatar} className="w-20 h-20 text-4xl mb-2" />
+          <div className="text-lg">{profile.displayName}</div>
+        </div>
+      )}
+
+      {lockoutRemaining > 0 ? (
+        <div className="flex flex-col items-center gap-2 text-center">
+          <Lock className="w-6 h-6 text-red-300" />
+          <div className="text-red-300">Too many failed attempts</div>
+          <div className="text-purple-200/80 text-sm">Try again in {formatWait(lockoutRemaining)}</div>
+        </div>
+      ) : isRecovering ? (
+        <form
+          className="flex flex-col items-center gap-3 w-72"
+          onSubmit={(e) => {
+            e.preventDefault()
+            submit(() => recoverAccess(recoveryCode))
+          }}
+        >
+          <div className="text-sm text-purple-200/80 text-center">
+            Enter the recovery code you saved when setting your {authMethod}
+          </div>
+          <input
+            autoFocus
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX-XXXX"
+            className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-center font-mono tracking-wider uppercase focus:border-purple-400/50 focus:outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => { setIsRecovering(false); setError(null) }}
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm"
+            >
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={!recoveryCode.trim() || isChecking}
+              className="px-4 py-2 bg-purple-500/40 hover:bg-purple-500/60 disabled:opacity-50 rounded-lg text-sm"
+            >
+              Unlock
+            </button>
+          </div>
+        </form>
+      ) : !needsCredential ? (
+        <button
+          onClick={() => submit(() => attemptUnlock(''))}
+          className="px-6 py-3 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+        >
+          {authMethod === 'swipe' ? 'Click to unlock' : 'Unlock'}
+        </button>
+      ) : authMethod === 'passcode' ? (
+        <div className="flex flex-col items-center gap-4">
+          <div className="flex gap-2 h-4">
+            {Array.from({ length: Math.max(passcode.length, 4) }, (_, i) => (
+              <div key={i} className={cn('w-3 h-3 rounded-full border border-white/60', i < passcode.length && 'bg-white')} />
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {KEYPAD.map((key, i) =>
+              key ? (
+                <button
+                  key={i}
+                  onClick={() => pressKey(key)}
+                  className="w-16 h-16 rounded-full bg-white/10 hover:bg-white/20 text-2xl flex items-center justify-center transition-colors"
+                >
+                  {key === 'delete' ? <Delete className="w-5 h-5" /> : key}
+                </button>
+              ) : (
+                <div key={i} />
+              )
+            )}
+          </div>
+          <button
+            onClick={() => submit(() => attemptUnlock(passcode))}
+            disabled={!passcode || isChecking}
+            className="px-6 py-2 bg-purple-500/40 hover:bg-purple-500/60 disabled:opacity-50 rounded-full"
+          >
+            Unlock
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-4">
+          <div className="grid grid-cols-3 gap-4">
+            {Array.from({ length: 9 }, (_, dot) => (
+              <button
+                key={dot}
+                onClick={() => pressDot(dot)}
+                className={cn(
+                  'w-14 h-14 rounded-full border-2 flex items-center justify-center transition-all',
+                  pattern.includes(dot) ? 'bg-purple-500 border-purple-300' : 'border-white/40 hover:border-white/70'
+                )}
+              >
+                {pattern.includes(dot) && <span className="text-sm">{pattern.indexOf(dot) + 1}</span>}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => setPattern([])} className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-full text-sm">
+              Clear
+            </button>
+            <button
+              onClick={() => submit(() => attemptUnlock(pattern))}
+              disabled={pattern.length < PATTERN_MIN_LENGTH || isChecking}
+              className="px-6 py-2 bg-purple-500/40 hover:bg-purple-500/60 disabled:opacity-50 rounded-full text-sm"
+            >
+              Unlock
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && !lockoutRemaining && <div className="mt-4 text-red-300 text-sm">{error}</div>}
+
+      {needsCredential && recoveryHash && !isRecovering && !lockoutRemaining && (
+        <button
+          onClick={() => { setIsRecovering(true); setError(null) }}
+          className="mt-6 text-purple-200/70 hover:text-white text-sm underline-offset-4 hover:underline"
+        >
+          Forgot your {authMethod}?
+        </button>
+      )}
+    </motion.div>
+  )
+}
@@ -1,55 +1,48 @@
 import React, { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Users } from 'lucide-react'
-
-interface User {
-  id: string
-  username: string
-  displayName: string
-  password: string
-  avatar?: string
-}
+import { Users, UserPlus } from 'lucide-react'
+import { useUserStore } from '@/store/user-store'
+import { signIn } from '@/services/user-session'
+import { PROFILE_AVATARS, ProfileError, type UserProfile } from '@/lib/user-profiles'
+import { UserAvatar } from './UserAvatar'
 
 interface LoginScreenProps {
-  onLogin: (user: User) => void
+  onLogin: (user: UserProfile) => void
 }
 
-const defaultUsers: User[] = [
-  {
-    id: 'user1',
-    username: 'suhaeb',
-    displayName: 'Suhaeb',
-    password: '',
-    avatar: '👤'
-  },
-  {
-    id: 'user2',
-    username: 'shreya',
-    displayName: 'Shreya',
-    password: '',
-    avatar: '👩‍💻'
-  },
-  {
-    id: 'user3',
-    username: 'raheel',
-    displayName: 'Raheel',
-    password: '',
-    avatar: '🧑‍💻'
-  }
-]
-
 export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
-  const [selectedUser, setSelectedUser] = useState(defaultUsers[0])
+  const { profiles, lastUserId, createProfile } = useUserStore()
+  const [selectedId, setSelectedId] = useState(lastUserId)
   const [isLoggingIn, setIsLoggingIn] = useState(false)
   const [showUserSwitcher, setShowUserSwitcher] = useState(false)
+  const [isAddingUser, setIsAddingUser] = useState(false)
+  const [newUserName, setNewUserName] = useState('')
+  const [newUserAvatar, setNewUserAvatar] = useState(PROFILE_AVATARS[0])
+  const [addUserError, setAddUserError] = useState<string | null>(null)
+
+  const selectedUser = profiles.find(p => p.id === selectedId) ?? profiles[0]
 
   const handleLogin = async () => {
     setIsLoggingIn(true)
 
-    // Simulate login process
-    setTimeout(() => {
-      onLogin(selectedUser)
-    }, 1500)
+    // Load the user's data while the sign-in animation plays
+    const user = selectedUser
+    await Promise.all([signIn(user), new Promise(resolve => setTimeout(resolve, 1500))])
+    onLogin(user)
+  }
+
+  const handleAddUser = () => {
+    try {
+      const profile = createProfile({ displayName: newUserName, avatar: newUserAvatar })
+      setSelectedId(profile.id)
+      setNewUserName('')
+      setAddUserError(null)
+      setIsAddingUser(false)
+      setShowUserSwitcher(false)
+    } catch (error) {
+      if (!(error instanceof ProfileError)) throw error
+      setAddUserError(error.message)
+    }
   }
 
   return (
@@ -90,11 +83,11 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
             >
               <h3 className="text-purple-300 text-sm font-medium mb-3">Switch User</h3>
               <div className="space-y-2">
-                {defaultUsers.map((user) => (
+                {profiles.map((user) => (
                   <button
                     key={user.id}
                     onClick={() => {
-                      setSelectedUser(user)
+                      setSelectedId(user.id)
                       setShowUserSwitcher(false)
                     }}
                     className={`w-full flex items-center gap-3 p-3 rounded-lg transition-colors text-left ${
@@ -103,9 +96,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
                         : 'hover:bg-purple-800/20'
                     }`}
                   >
-                    <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-purple-600 to-violet-700 rounded-full flex items-center justify-center text-sm sm:text-lg">
-                      {user.avatar}
-                    </div>
+                    <UserAvatar avatar={user.avatar} className="w-10 h-10 sm:w-12 sm:h-12 text-sm sm:text-lg" />
                     <div>
                       <div className="text-white text-sm font-medium">{user.displayName}</div>
                       <div className="text-purple-300/70 text-xs">@{user.username}</div>
@@ -116,6 +107,56 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
                   </button>
                 ))}
               </div>
+              {isAddingUser ? (
+                <div className="mt-3 space-y-2">
+                  <input
+                    type="text"
+                    autoFocus
+                    placeholder="Name"
+                    value={newUserName}
+                    onChange={(e) => setNewUserName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddUser()}
+                    className="w-full px-3 py-2 bg-black/40 border border-purple-500/30 rounded-lg text-white text-sm placeholder-purple-300/50 focus:border-purple-400/50 focus:outline-none"
+                  />
+                  <div className="flex flex-wrap gap-1">
+                    {PROFILE_AVATARS.map((avatar) => (
+                      <button
+                        key={avatar}
+                        onClick={() => setNewUserAvatar(avatar)}
+                        className={`w-8 h-8 rounded-lg text-lg ${newUserAvatar === avatar ? 'bg-purple-600/50' : 'hover:bg-purple-800/30'}`}
+                      >
+                        {avatar}
+                      </button>
+                    ))}
+                  </div>
+                  {addUserError && <p className="text-red-400 text-xs">{addUserError}</p>}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleAddUser}
+                      className="flex-1 py-2 bg-purple-600/40 hover:bg-purple-600/60 rounded-lg text-white text-sm transition-colors"
+                    >
+                      Add
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsAddingUser(false)
+                        setAddUserError(null)
+                      }}
+                      className="flex-1 py-2 hover:bg-purple-800/30 rounded-lg text-purple-300 text-sm transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setIsAddingUser(true)}
+                  className="mt-3 w-full flex items-center gap-2 p-3 rounded-lg text-purple-300 text-sm hover:bg-purple-800/20 transition-colors"
+                >
+                  <UserPlus className="w-4 h-4" />
+                  Add user
+                </button>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -127,9 +168,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
         >
-          <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-purple-600 to-violet-700 rounded-full flex items-center justify-center text-sm sm:text-lg">
-            {selectedUser.avatar}
-          </div>
+          <UserAvatar avatar={selectedUser.avatar} className="w-10 h-10 sm:w-12 sm:h-12 text-sm sm:text-lg" />
           <div className="text-left">
             <div className="text-white text-xs sm:text-sm font-medium">{selectedUser.displayName}</div>
             <div className="text-purple-300/70 text-xs">@{selectedUser.username}</div>
@@ -170,12 +209,12 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
             {/* Current User Display */}
             <div className="mb-6 text-center">
               <motion.div
-                className="w-20 h-20 sm:w-24 sm:h-24 bg-gradient-to-br from-purple-600 to-violet-700 rounded-full flex items-center justify-center text-2xl sm:text-3xl mx-auto mb-4"
+                className="w-20 h-20 sm:w-24 sm:h-24 mx-auto mb-4"
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
                 transition={{ type: "spring", stiffness: 300, damping: 30, delay: 0.3 }}
               >
-                {selectedUser.avatar}
+                <UserAvatar avatar={selectedUser.avatar} className="w-full h-full text-2xl sm:text-3xl" />
               </motion.div>
 
               <motion.div
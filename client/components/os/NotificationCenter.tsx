@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Bell, BellOff, ChevronDown, Moon, X } from 'lucide-react'
+import { useNotificationStore } from '@/store/notification-store'
+import { getAppManifest } from '@/lib/app-registry'
+import { formatNotificationTime, groupNotifications, isDoNotDisturb, type NotificationGroup } from '@/lib/notifications'
+import { cn } from '@/lib/utils'
+
+interface NotificationCenterProps {
+  dark?: boolean
+  className?: string
+}
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' }
+
+const Group: React.FC<{ group: NotificationGroup; dark: boolean }> = ({ group, dark }) => {
+  const { openNotification, dismiss, dismissGroup, runAction } = useNotificationStore()
+  const [expanded, setExpanded] = useState(false)
+  const app = getAppManifest(group.appId)
+  const Icon = app?.icon ?? Bell
+  const shown = expanded ? group.notifications : group.notifications.slice(0, 1)
+  const muted = dark ? 'text-white/50' : 'text-gray-500'
+
+  return (
+    <motion.div
+      layout
+      className={cn('rounded-xl border p-3', dark ? 'bg-white/5 border-white/10' : 'bg-gray-100 border-gray-200')}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Icon className={cn('w-3.5 h-3.5', muted)} />
+        <span className={cn('text-xs flex-1', muted)}>
+          {app?.name ?? 'Nyx OS'}
+          {group.unread > 0 && <span className="ml-1 text-purple-400">• {group.unread} new</span>}
+        </span>
+        {group.notifications.length > 1 && (
+          <button
+            className={cn('text-xs flex items-center gap-0.5', muted)}
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? 'Less' : `+${group.notifications.length - 1}`}
+            <ChevronDown className={cn('w-3 h-3 transition-transform', expanded && 'rotate-180')} />
+          </button>
+        )}
+        <button className={cn('p-0.5 rounded hover:bg-white/10', muted)} onClick={() => dismissGroup(group.key)} aria-label="Clear group">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {shown.map(notification => (
+          <div key={notification.id} className="group/item relative">
+            <button className="w-full text-left" onClick={() => openNotification(notification.id)}>
+              <div className="flex items-start justify-between gap-2">
+                <div className={cn('text-sm font-medium', dark ? 'text-white' : 'text-gray-900', notification.read && 'opacity-70')}>
+                  {!notification.read && <span className="inline-block w-1.5 h-1.5 rounded-full bg-purple-400 mr-1.5 align-middle" />}
+                  {notification.title}
+                </div>
+                <span className={cn('text-xs shrink-0', muted)}>{formatNotificationTime(notification.timestamp)}</span>
+              </div>
+              {notification.body && (
+                <div className={cn('text-xs mt-0.5', dark ? 'text-white/70' : 'text-gray-600')}>{notification.body}</div>
+              )}
+            </button>
+            {notification.actions && notification.actions.length > 0 && (
+              <div className="flex gap-2 mt-2">
+                {notification.actions.map(action => (
+                  <button
+                    key={action.id}
+                    className={cn('px-2 py-0.5 text-xs rounded-md transition-colors', dark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-white hover:bg-gray-200 text-gray-800')}
+                    onClick={() => runAction(notification.id, action.id)}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              className={cn('absolute -right-1 top-5 p-0.5 rounded opacity-0 group-hover/item:opacity-100', muted)}
+              onClick={() => dismiss(notification.id)}
+              aria-label="Dismiss"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  )
+}
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ dark = true, className }) => {
+  const { notifications, doNotDisturb, clearAll, markAllRead, setDoNotDisturb } = useNotificationStore()
+  const groups = useMemo(() => groupNotifications(notifications), [notifications])
+  const quiet = isDoNotDisturb(doNotDisturb, new Date())
+  const muted = dark ? 'text-white/60' : 'text-gray-500'
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={cn('font-medium text-sm', dark ? 'text-white' : 'text-gray-900')}>Notifications</h3>
+        <div className="flex items-center gap-3">
+          {notifications.some(n => !n.read) && (
+            <button className="text-xs text-purple-400 hover:text-purple-300" onClick={markAllRead}>
+              Mark all read
+            </button>
+          )}
+          {notifications.length > 0 && (
+            <button className="text-xs text-purple-400 hover:text-purple-300" onClick={clearAll}>
+              Clear all
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={cn('flex items-center gap-2 mb-3 text-xs', muted)}>
+        <button
+          className={cn(
+            'flex items-center gap-1.5 px-2 py-1 rounded-lg transition-colors',
+            doNotDisturb.enabled ? 'bg-purple-500/80 text-white' : dark ? 'bg-white/10 hover:bg-white/15' : 'bg-gray-200 hover:bg-gray-300'
+          )}
+          onClick={() => setDoNotDisturb({ enabled: !doNotDisturb.enabled })}
+        >
+          {doNotDisturb.enabled ? <BellOff className="w-3 h-3" /> : <Bell className="w-3 h-3" />}
+          Do not disturb
+        </button>
+        <button
+          className={cn(
+            'flex items-center gap-1.5 px-2 py-1 rounded-lg transition-colors',
+            doNotDisturb.schedule ? 'bg-purple-500/40 text-white' : dark ? 'bg-white/10 hover:bg-white/15' : 'bg-gray-200 hover:bg-gray-300'
+          )}
+          onClick={() => setDoNotDisturb({ schedule: doNotDisturb.schedule ? null : DEFAULT_QUIET_HOURS })}
+          title="Quiet hours"
+        >
+          <Moon className="w-3 h-3" />
+          {doNotDisturb.schedule ? `${doNotDisturb.schedule.start}–${doNotDisturb.schedule.end}` : 'Quiet hours'}
+        </button>
+        {quiet && !doNotDisturb.enabled && <span>Silenced now</span>}
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {groups.map(group => (
+          <Group key={group.key} group={group} dark={dark} />
+        ))}
+      </div>
+
+      {groups.length === 0 && (
+        <div className={cn('text-center py-8 text-sm', muted)}>No notifications</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import React, { useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Bell, X } from 'lucide-react'
+import { useNotificationStore } from '@/store/notification-store'
+import { getAppManifest } from '@/lib/app-registry'
+import type { NyxNotification } from '@/lib/notifications'
+import { cn } from '@/lib/utils'
+
+// How long a toast stays up; urgent ones wait for the user
+const TOAST_DURATION: Record<NyxNotification['priority'], number | null> = {
+  low: 4000,
+  normal: 6000,
+  high: 10000,
+  urgent: null,
+}
+
+const Toast: React.FC<{ notification: NyxNotification }> = ({ notification }) => {
+  const { dismissToast, openNotification, runAction } = useNotificationStore()
+  const app = getAppManifest(notification.appId)
+  const Icon = app?.icon ?? Bell
+
+  useEffect(() => {
+    const duration = TOAST_DURATION[notification.priority]
+    if (duration === null) return
+    const timer = setTimeout(() => dismissToast(notification.id), duration)
+    return () => clearTimeout(timer)
+  }, [notification.id, notification.priority, dismissToast])
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, x: 60, scale: 0.95 }}
+      animate={{ opacity: 1, x: 0, scale: 1 }}
+      exit={{ opacity: 0, x: 60, scale: 0.95 }}
+      transition={{ type: 'spring', stiffness: 400, damping: 32 }}
+      className={cn(
+        'w-80 bg-black/80 backdrop-blur-xl border rounded-2xl p-3 shadow-2xl pointer-events-auto',
+        notification.priority === 'urgent' ? 'border-red-400/60' : 'border-purple-500/30'
+      )}
+      role="status"
+    >
+      <div className="flex items-start gap-3">
+        <div
+          className="w-8 h-8 rounded-lg flex items-center justify-center shrink-0"
+          style={{ backgroundColor: `${app?.color ?? '#8b5cf6'}33` }}
+        >
+          <Icon className="w-4 h-4 text-white" />
+        </div>
+        <button className="flex-1 min-w-0 text-left" onClick={() => openNotification(notification.id)}>
+          <div className="text-[11px] text-white/50">{app?.name ?? 'Nyx OS'}</div>
+          <div className="text-sm text-white font-medium truncate">{notification.title}</div>
+          {notification.body && <div className="text-xs text-white/70 mt-0.5 line-clamp-2">{notification.body}</div>}
+        </button>
+        <button
+          className="p-1 text-white/50 hover:text-white rounded-md hover:bg-white/10"
+          onClick={() => dismissToast(notification.id)}
+          aria-label="Dismiss"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {notification.actions && notification.actions.length > 0 && (
+        <div className="flex gap-2 mt-3 pl-11">
+          {notification.actions.map(action => (
+            <button
+              key={action.id}
+              className="px-3 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+              onClick={() => runAction(notification.id, action.id)}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
+export const NotificationToasts: React.FC = () => {
+  const toasts = useNotificationStore(state => state.toasts)
+  const notifications = useNotificationStore(state => state.notifications)
+  const visible = toasts
+    .map(id => notifications.find(n => n.id === id))
+    .filter((n): n is NyxNotification => Boolean(n))
+
+  return (
+    <div className="fixed top-4 right-4 z-[60] flex flex-col gap-2 pointer-events-none">
+      <AnimatePresence initial={false}>
+        {visible.map(notification => (
+          <Toast key={notification.id} notification={notification} />
+        ))}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -23,33 +23,29 @@ import {
   Moon,
   Maximize2,
   Minimize2,
-  MessageCircle,
-  Phone,
-  Folder,
-  Wrench,
-  Calendar as CalendarIcon,
-  Globe,
-  Calculator as CalculatorIcon,
-  FileText,
-  Crown,
-  Gamepad2,
-  HelpCircle,
-  Music,
   LogOut,
   Search,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getAppManifest } from "@/lib/app-registry";
+import { launchApp } from "@/lib/app-launcher";
+import { isDoNotDisturb } from "@/lib/notifications";
+import { notify, selectUnreadCount, useNotificationStore } from "@/store/notification-store";
+import { NotificationCenter } from "@/components/os/NotificationCenter";
 
 export const NyxTaskbar: React.FC = () => {
-  const { windows, focusedWindowId, minimizeWindow, focusWindow, openWindow } =
+  const { windows, focusedWindowId, minimizeWindow, focusWindow } =
     useWindowStore();
-  const { currentEmotion, emotionIntensity, addMessage } = useSamStore();
+  const { currentEmotion, emotionIntensity } = useSamStore();
+  const unreadNotifications = useNotificationStore(selectUnreadCount);
+  const doNotDisturb = useNotificationStore((state) => state.doNotDisturb);
   const { setEditMode } = useDesktopStore();
   const { setThemeMode, settings: themeSettings } = useThemeStore();
 
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isMoonMenuOpen, setIsMoonMenuOpen] = useState(false);
   const [isNotificationOpen, setIsNotificationOpen] = useState(false);
+  const [isSystemInfoOpen, setIsSystemInfoOpen] = useState(false);
   const [systemStats, setSystemStats] = useState({
     wifi: navigator.onLine,
     bluetooth: false,
@@ -57,7 +53,6 @@ export const NyxTaskbar: React.FC = () => {
     batteryLevel: 1,
     batteryCharging: false,
     volume: 1,
-    notifications: 3,
     memoryUsage: null as any,
     networkSpeed: 0,
   });
@@ -216,35 +211,15 @@ export const NyxTaskbar: React.FC = () => {
     {
       icon: Settings,
       label: "Settings",
-      action: async () => {
-        const { Settings: SettingsApp } = await import(
-          "@/components/apps/Settings"
-        );
-        openWindow({
-          appId: "settings",
-          title: "Settings",
-          component: SettingsApp,
-          position: { x: 100, y: 100 },
-          size: { width: 900, height: 700 },
-        });
-        addMessage("⚙️ Opening Settings", "sam", "focused");
+      action: () => {
+        launchApp("settings");
       },
     },
     {
       icon: Monitor,
       label: "Display",
-      action: async () => {
-        const { Settings: SettingsApp } = await import(
-          "@/components/apps/Settings"
-        );
-        openWindow({
-          appId: "settings-display",
-          title: "Display Settings",
-          component: SettingsApp,
-          position: { x: 100, y: 100 },
-          size: { width: 900, height: 700 },
-        });
-        addMessage("🖥️ Opening Display Settings", "sam", "focused");
+      action: () => {
+        launchApp("settings", { title: "Display Settings" });
       },
     },
     {
@@ -253,11 +228,12 @@ export const NyxTaskbar: React.FC = () => {
       action: () => {
         // Toggle network status simulation
         setSystemStats((prev) => ({ ...prev, wifi: !prev.wifi }));
-        addMessage(
-          systemStats.wifi ? "Network disconnected" : "Network connected",
-          "sam",
-          "neutral",
-        );
+        notify({
+          appId: "system",
+          group: "connectivity",
+          title: systemStats.wifi ? "Network disconnected" : "Network connected",
+          priority: "low",
+        });
       },
     },
     {
@@ -266,11 +242,12 @@ export const NyxTaskbar: React.FC = () => {
       action: () => {
         // Toggle bluetooth status simulation
         setSystemStats((prev) => ({ ...prev, bluetooth: !prev.bluetooth }));
-        addMessage(
-          systemStats.bluetooth ? "Bluetooth disabled" : "Bluetooth enabled",
-          "sam",
-          "neutral",
-        );
+        notify({
+          appId: "system",
+          group: "connectivity",
+          title: systemStats.bluetooth ? "Bluetooth disabled" : "Bluetooth enabled",
+          priority: "low",
+        });
       },
     },
     {
@@ -285,129 +262,26 @@ export const NyxTaskbar: React.FC = () => {
   ];
 
   const frequentApps = [
-    {
-      icon: MessageCircle,
-      label: "Sam Chat",
-      action: async () => {
-        const { SamChat } = await import("@/components/apps/SamChat");
-        openWindow({
-          appId: "sam-chat",
-          title: "Sam Chat",
-          component: SamChat,
-          position: { x: 100, y: 100 },
-          size: { width: 450, height: 650 },
-        });
-        setIsLauncherOpen(false);
-      },
-    },
-    {
-      icon: Music,
-      label: "Media Player",
-      action: async () => {
-        const { WindowsMediaPlayer } = await import(
-          "@/components/apps/WindowsMediaPlayer"
-        );
-        openWindow({
-          appId: "media-player",
-          title: "Windows Media Player",
-          component: WindowsMediaPlayer,
-          position: { x: 180, y: 80 },
-          size: { width: 1000, height: 700 },
-        });
-        setIsLauncherOpen(false);
-      },
-    },
-    {
-      icon: Folder,
-      label: "Files",
-      action: async () => {
-        const { Files } = await import("@/components/apps/Files");
-        openWindow({
-          appId: "files",
-          title: "Files",
-          component: Files,
-          position: { x: 150, y: 120 },
-          size: { width: 800, height: 600 },
-        });
-        setIsLauncherOpen(false);
-      },
-    },
-    {
-      icon: Globe,
-      label: "Browser",
-      action: async () => {
-        const { NyxBrowser } = await import("@/components/apps/NyxBrowser");
-        openWindow({
-          appId: "nyx-browser",
-          title: "Nyx Browser",
-          component: NyxBrowser,
-          position: { x: 50, y: 50 },
-          size: { width: 1200, height: 800 },
-        });
-        setIsLauncherOpen(false);
-      },
-    },
-    {
-      icon: CalculatorIcon,
-      label: "Calculator",
-      action: async () => {
-        const { Calculator } = await import("@/components/apps/Calculator");
-        openWindow({
-          appId: "calculator",
-          title: "Calculator",
-          component: Calculator,
-          position: { x: 300, y: 150 },
-          size: { width: 350, height: 500 },
-        });
-        setIsLauncherOpen(false);
-      },
-    },
-    {
-      icon: CalendarIcon,
-      label: "Calendar",
-      action: async () => {
-        const { Calendar } = await import("@/components/apps/Calendar");
-        openWindow({
-          appId: "calendar",
-          title: "Chrono",
-          component: Calendar,
-          position: { x: 200, y: 50 },
-          size: { width: 900, height: 600 },
-        });
-        setIsLauncherOpen(false);
-      },
-    },
-  ];
-
-  const notifications = [
-    {
-      id: 1,
-      title: "System Update",
-      message: "Nyx OS 1.1 is available",
-      time: "2m ago",
-      type: "system",
-    },
-    {
-      id: 2,
-      title: "AI Assistant",
-      message: "Voice recognition optimized",
-      time: "5m ago",
-      type: "ai",
-    },
-    {
-      id: 3,
-      title: "Security",
-      message: "All systems secure",
-      time: "10m ago",
-      type: "security",
-    },
-  ];
+    "sam-chat",
+    "media-player",
+    "files",
+    "browser",
+    "calculator",
+    "calendar",
+  ]
+    .map((appId) => getAppManifest(appId))
+    .filter(Boolean)
+    .map((app) => ({
+      icon: app.icon,
+      label: app.name,
+      action: () => launchApp(app.id),
+    }));
 
   return (
     <div className="fixed bottom-0 left-0 right-0 z-50">
       {/* System Info Tooltip */}
       <AnimatePresence>
-        {isNotificationOpen && (
+        {isSystemInfoOpen && (
           <motion.div
             className="absolute bottom-16 right-4 w-80 liquid-glass-dark rounded-2xl p-4 z-40 liquid-reflection"
             initial={{ opacity: 0, y: 20, scale: 0.9 }}
@@ -568,26 +442,33 @@ export const NyxTaskbar: React.FC = () => {
           {/* Notifications */}
           <motion.button
             className="relative p-2 hover:bg-white/10 rounded-lg transition-colors"
-            onClick={() => setIsNotificationOpen(!isNotificationOpen)}
+            onClick={() => {
+              setIsNotificationOpen(!isNotificationOpen);
+              setIsSystemInfoOpen(false);
+            }}
             whileHover={{ scale: 1.08 }}
             whileTap={{ scale: 0.92 }}
+            title={isDoNotDisturb(doNotDisturb, currentTime) ? "Do not disturb" : "Notifications"}
           >
-            {systemStats.notifications > 0 ? (
-              <>
-                <Bell className="w-4 h-4 text-white/70" />
-                <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center font-bold">
-                  {Math.min(systemStats.notifications, 9)}
-                </span>
-              </>
-            ) : (
+            {isDoNotDisturb(doNotDisturb, currentTime) ? (
               <BellOff className="w-4 h-4 text-white/70" />
+            ) : (
+              <Bell className="w-4 h-4 text-white/70" />
+            )}
+            {unreadNotifications > 0 && (
+              <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center font-bold">
+                {unreadNotifications > 9 ? "9+" : unreadNotifications}
+              </span>
             )}
           </motion.button>
 
           {/* Time Display */}
           <button
             className="text-right px-3 py-2 hover:bg-white/10 rounded-lg transition-colors"
-            onClick={() => setIsNotificationOpen(!isNotificationOpen)}
+            onClick={() => {
+              setIsSystemInfoOpen(!isSystemInfoOpen);
+              setIsNotificationOpen(false);
+            }}
             title="System Information"
           >
             <div className="text-xs text-white/90 font-medium">
@@ -665,11 +546,6 @@ export const NyxTaskbar: React.FC = () => {
                   const newMode =
                     themeSettings.mode === "dark" ? "light" : "dark";
                   setThemeMode(newMode);
-                  addMessage(
-                    `${newMode === "dark" ? "🌙" : "☀️"} Switched to ${newMode} mode`,
-                    "sam",
-                    "happy",
-                  );
                   setIsMoonMenuOpen(false);
                 }}
                 whileHover={{ x: 4 }}
@@ -694,11 +570,6 @@ export const NyxTaskbar: React.FC = () => {
                 className="w-full p-2.5 bg-white/5 hover:bg-white/10 rounded-lg text-left text-xs text-white/80 transition-all"
                 onClick={() => {
                   setEditMode(true);
-                  addMessage(
-                    "✏️ Desktop customization enabled",
-                    "sam",
-                    "focused",
-                  );
                   setIsMoonMenuOpen(false);
                 }}
                 whileHover={{ x: 4 }}
@@ -720,60 +591,19 @@ export const NyxTaskbar: React.FC = () => {
             exit={{ opacity: 0, scale: 0.8, y: 20 }}
             transition={{ duration: 0.2 }}
           >
-            <div className="flex items-center justify-between mb-3">
-              <h3 className="text-white font-medium text-sm">Notifications</h3>
-              <button
-                className="text-xs text-purple-400 hover:text-purple-300"
-                onClick={() =>
-                  setSystemStats((prev) => ({ ...prev, notifications: 0 }))
-                }
-              >
-                Clear All
-              </button>
-            </div>
-
-            <div className="space-y-2 max-h-64 overflow-y-auto">
-              {notifications.map((notification, index) => (
-                <motion.div
-                  key={notification.id}
-                  className="p-3 bg-white/5 rounded-xl border border-white/10"
-                  initial={{ opacity: 0, x: 20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="text-sm text-white font-medium">
-                        {notification.title}
-                      </div>
-                      <div className="text-xs text-white/70 mt-1">
-                        {notification.message}
-                      </div>
-                    </div>
-                    <span className="text-xs text-white/50 ml-2">
-                      {notification.time}
-                    </span>
-                  </div>
-                </motion.div>
-              ))}
-            </div>
-
-            {notifications.length === 0 && (
-              <div className="text-center py-8 text-white/60 text-sm">
-                No new notifications
-              </div>
-            )}
+            <NotificationCenter />
           </motion.div>
         )}
       </AnimatePresence>
 
       {/* Click outside to close */}
-      {(isMoonMenuOpen || isNotificationOpen) && (
+      {(isMoonMenuOpen || isNotificationOpen || isSystemInfoOpen) && (
         <div
           className="fixed inset-0 z-40"
           onClick={() => {
             setIsMoonMenuOpen(false);
             setIsNotificationOpen(false);
+            setIsSystemInfoOpen(false);
           }}
         />
       )}
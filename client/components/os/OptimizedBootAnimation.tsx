@@ -3,17 +3,10 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { LoginScreen } from './LoginScreen'
 import { usePerformanceManager } from '@/hooks/usePerformanceManager'
 import { useDeviceDetection } from '@/hooks/useDeviceDetection'
-
-interface User {
-  id: string
-  username: string
-  displayName: string
-  password: string
-  avatar?: string
-}
+import type { UserProfile } from '@/lib/user-profiles'
 
 interface OptimizedBootAnimationProps {
-  onComplete: (user: User) => void
+  onComplete: (user: UserProfile) => void
 }
 
 export const OptimizedBootAnimation: React.FC<OptimizedBootAnimationProps> = ({ onComplete }) => {
@@ -100,7 +93,7 @@ export const OptimizedBootAnimation: React.FC<OptimizedBootAnimationProps> = ({
     timeline()
   }, [isLowPerformance, nyxFacts.length])
   
-  const handleLogin = (user: User) => {
+  const handleLogin = (user: UserProfile) => {
     setPhase('complete')
     setTimeout(() => onComplete(user), 1000)
   }
@@ -11,27 +11,29 @@ import { AndroidNavigation } from "@/components/mobile/AndroidNavigation";
 import { OptimizedShutdownSystem } from "@/components/os/OptimizedShutdownSystem";
 import { IntroCutscene } from "@/components/os/IntroCutscene";
 import { PerformanceMonitor } from "@/components/os/PerformanceMonitor";
-import { NyxBrowser } from "@/components/apps/NyxBrowser";
+import { NotificationToasts } from "@/components/os/NotificationToasts";
+import { LockScreen } from "@/components/os/LockScreen";
+import { WindowSwitcher } from "@/components/os/WindowSwitcher";
+import { ExposeOverview } from "@/components/os/ExposeOverview";
 import { useSamStore } from "@/store/sam-store";
-import { useWindowStore } from "@/store/window-store";
+import { useDeviceAuthStore } from "@/store/device-auth-store";
 import { useThemeStore, updateCSSVariables } from "@/store/theme-store";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { useDeviceDetection, DeviceType } from "@/hooks/useDeviceDetection";
 import { usePerformanceManager } from "@/hooks/usePerformanceManager";
 import { aiService } from "@/services/ai-service";
+import { restoreSession, startSessionPersistence } from "@/lib/session";
+import { startScheduler } from "@/services/scheduler";
+import { startAutoLock } from "@/services/auto-lock";
+import { applyUserTheme } from "@/services/user-session";
+import type { UserProfile } from "@/lib/user-profiles";
+import { registerPinnedForgeApps } from "@/store/app-forge-store";
+import { launchApp } from "@/lib/app-launcher";
+import { DESKTOP_WALLPAPERS } from "@/lib/virtual-desktops";
+import { useVirtualDesktopStore, selectCurrentDesktop } from "@/store/virtual-desktop-store";
 import { cn } from "@/lib/utils";
 import { useLiquidGlass } from "@/hooks/useLiquidGlass";
 
-interface User {
-  id: string;
-  username: string;
-  displayName: string;
-  avatar?: string;
-  passcode?: string;
-  pattern?: number[];
-  authMethod: "none" | "passcode" | "pattern";
-}
-
 interface DisclaimerProps {
   onClose: () => void;
 }
@@ -99,13 +101,14 @@ const DisclaimerModal: React.FC<DisclaimerProps> = ({ onClose }) => {
 export const NyxOS: React.FC = () => {
   const { currentEmotion, emotionIntensity, addMessage, setEmotion } =
     useSamStore();
-  const { openWindow } = useWindowStore();
   const { settings: themeSettings, setThemeMode } = useThemeStore();
   const { deviceInfo, uiConfig, isPhone, isTablet, isDesktop } =
     useDeviceDetection();
   const { profile, isLowPerformance, optimizeMemory } = usePerformanceManager();
   const [isBooted, setIsBooted] = useState(false);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const isLocked = useDeviceAuthStore((state) => state.isLocked);
+  const wallpaper = DESKTOP_WALLPAPERS[useVirtualDesktopStore(selectCurrentDesktop).wallpaper];
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
   const [showIntroCutscene, setShowIntroCutscene] = useState(false);
   const [showDisclaimer, setShowDisclaimer] = useState(false);
   const [navigationStyle, setNavigationStyle] = useState<
@@ -136,7 +139,7 @@ export const NyxOS: React.FC = () => {
       : selectedDeviceType;
 
   // Enable global keyboard shortcuts (disabled on phone)
-  useKeyboardShortcuts(!isPhone && actualDeviceType !== "phone");
+  useKeyboardShortcuts(!isPhone && actualDeviceType !== "phone" && !isLocked);
 
   // Update CSS variables when theme changes
   useEffect(() => {
@@ -171,7 +174,30 @@ export const NyxOS: React.FC = () => {
     return () => document.removeEventListener("keydown", handleKeyDown, true);
   }, []);
 
-  const handleBootComplete = (user: User) => {
+  // Keep the desktop session saved once the OS is up
+  useEffect(() => {
+    if (!isBooted) return;
+    return startSessionPersistence();
+  }, [isBooted]);
+
+  // Alarms and calendar reminders run for as long as the OS is up
+  useEffect(() => {
+    if (!isBooted) return;
+    return startScheduler();
+  }, [isBooted]);
+
+  // Lock after the configured idle time
+  useEffect(() => {
+    if (!isBooted) return;
+    return startAutoLock();
+  }, [isBooted]);
+
+  // The login screen has already signed the user in and loaded their data
+  const handleBootComplete = (user: UserProfile) => {
+    // Bring back windows, desktops and icons from the previous session
+    registerPinnedForgeApps();
+    restoreSession(actualDeviceType);
+
     setCurrentUser(user);
     setIsBooted(true);
     setShowIntroCutscene(true);
@@ -216,76 +242,23 @@ export const NyxOS: React.FC = () => {
 
     // Apply user-specific theme
     if (currentUser) {
-      applyUserTheme(currentUser.username);
-    }
-  };
-
-  const applyUserTheme = (username: string) => {
-    const { updateSettings } = useThemeStore.getState();
-
-    switch (username) {
-      case "shreya":
-        updateSettings({
-          accentColor: "#ec4899",
-          customColors: {
-            primary: "#be185d",
-            secondary: "#f472b6",
-            accent: "#ec4899",
-          },
-        });
-        break;
-      case "suhaeb":
-        updateSettings({
-          accentColor: "#8b5cf6",
-          customColors: {
-            primary: "#7c3aed",
-            secondary: "#a855f7",
-            accent: "#8b5cf6",
-          },
-        });
-        break;
-      case "raheel":
-        updateSettings({
-          accentColor: "#3b82f6",
-          customColors: {
-            primary: "#1d4ed8",
-            secondary: "#60a5fa",
-            accent: "#3b82f6",
-          },
-        });
-        break;
-      default:
-        updateSettings({
-          accentColor: "#8b5cf6",
-          customColors: {
-            primary: "#7c3aed",
-            secondary: "#a855f7",
-            accent: "#8b5cf6",
-          },
-        });
+      applyUserTheme(currentUser);
     }
   };
 
   // Handle system events
   useEffect(() => {
+    const handleOpenApp = (event: Event) => {
+      const { appId } = (event as CustomEvent<{ appId: string }>).detail || {};
+      if (appId) launchApp(appId, { deviceType: actualDeviceType });
+    };
+
     const handleOpenBrowser = () => {
-      openWindow({
-        title: "Nyx Browse",
-        component: NyxBrowser,
-        position: { x: 100, y: 50 },
-        size: { width: 1000, height: 700 },
-      });
+      launchApp("browser", { deviceType: actualDeviceType });
     };
 
     const handleOpenSettings = () => {
-      import("@/components/apps/Settings").then(({ Settings }) => {
-        openWindow({
-          title: "Settings",
-          component: Settings,
-          position: { x: 200, y: 100 },
-          size: { width: 800, height: 600 },
-        });
-      });
+      launchApp("settings", { deviceType: actualDeviceType });
     };
 
     const handleChangeWallpaper = () => {
@@ -297,16 +270,18 @@ export const NyxOS: React.FC = () => {
       );
     };
 
+    window.addEventListener("nyx:open-app", handleOpenApp);
     window.addEventListener("nyx:open-browser", handleOpenBrowser);
     window.addEventListener("nyx:open-settings", handleOpenSettings);
     window.addEventListener("nyx:change-wallpaper", handleChangeWallpaper);
 
     return () => {
+      window.removeEventListener("nyx:open-app", handleOpenApp);
       window.removeEventListener("nyx:open-browser", handleOpenBrowser);
       window.removeEventListener("nyx:open-settings", handleOpenSettings);
       window.removeEventListener("nyx:change-wallpaper", handleChangeWallpaper);
     };
-  }, [openWindow, setEmotion, addMessage]);
+  }, [actualDeviceType, setEmotion, addMessage]);
 
   const getBackgroundGradient = () => {
     const baseIntensity = themeSettings.mode === "dark" ? 0.3 : 0.15;
@@ -353,8 +328,11 @@ export const NyxOS: React.FC = () => {
         animate={{ opacity: 1 }}
         transition={{ duration: profile.useReducedMotion ? 0.3 : 1 }}
       >
-        {/* Wallpaper */}
+        {/* Wallpaper: each desktop may paint its own over the space scene */}
         <SpaceWallpaper />
+        {wallpaper.background && (
+          <div className="absolute inset-0 pointer-events-none transition-[background] duration-700" style={{ background: wallpaper.background }} />
+        )}
 
         {/* Emotional Overlay */}
         <div
@@ -458,6 +436,18 @@ export const NyxOS: React.FC = () => {
 
         {/* Nyx Taskbar - Desktop only, tablet uses Android navigation */}
         {actualDeviceType === "desktop" && <NyxTaskbar />}
+
+        {/* Alt+Tab switcher and window overview - wherever keyboard shortcuts work */}
+        {actualDeviceType !== "phone" && (
+          <>
+            <WindowSwitcher />
+            <ExposeOverview />
+          </>
+        )}
+
+        <NotificationToasts />
+
+        {isLocked && <LockScreen />}
       </motion.div>
 
       {/* Disclaimer Modal */}
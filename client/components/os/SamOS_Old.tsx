@@ -17,16 +17,7 @@ import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts'
 import { useDeviceDetection, DeviceType } from '@/hooks/useDeviceDetection'
 import { aiService } from '@/services/ai-service'
 import { cn } from '@/lib/utils'
-
-interface User {
-  id: string
-  username: string
-  displayName: string
-  avatar?: string
-  passcode?: string
-  pattern?: number[]
-  authMethod: 'none' | 'passcode' | 'pattern'
-}
+import type { UserProfile } from '@/lib/user-profiles'
 
 export const NyxOS: React.FC = () => {
   const { currentEmotion, emotionIntensity, addMessage, setEmotion } = useSamStore()
@@ -34,7 +25,7 @@ export const NyxOS: React.FC = () => {
   const { settings: themeSettings, setThemeMode } = useThemeStore()
   const { deviceInfo, uiConfig, isPhone, isTablet, isDesktop } = useDeviceDetection()
   const [isBooted, setIsBooted] = useState(false)
-  const [currentUser, setCurrentUser] = useState<User | null>(null)
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null)
   const [navigationStyle, setNavigationStyle] = useState<'gestures' | 'buttons'>('gestures')
 
   // Auto-detect device type
@@ -79,7 +70,7 @@ export const NyxOS: React.FC = () => {
 
 
 
-  const handleBootComplete = (user: User) => {
+  const handleBootComplete = (user: UserProfile) => {
     // Auto-detect device type and set up user
     setCurrentUser(user)
     setIsBooted(true)
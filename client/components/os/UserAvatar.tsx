@@ -0,0 +1,15 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+import { isImageAvatar } from '@/lib/user-profiles'
+
+interface UserAvatarProps {
+  avatar: string
+  className?: string
+}
+
+// An emoji, or the picture the user uploaded, in the round purple badge
+export const UserAvatar: React.FC<UserAvatarProps> = ({ avatar, className }) => (
+  <div className={cn('bg-gradient-to-br from-purple-600 to-violet-700 rounded-full flex items-center justify-center overflow-hidden', className)}>
+    {isImageAvatar(avatar) ? <img src={avatar} alt="" className="w-full h-full object-cover" /> : avatar}
+  </div>
+)
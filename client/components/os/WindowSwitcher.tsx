@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useWindowStore, windowsByRecency } from '@/store/window-store'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { activateWindow } from '@/lib/app-launcher'
+import { cn } from '@/lib/utils'
+import { WindowThumbnail } from '@/components/window/WindowThumbnail'
+
+const THUMBNAIL_WIDTH = 200
+const THUMBNAIL_HEIGHT = 130
+
+// Alt+Tab: windows most recently used first, across all desktops. Holding Alt
+// keeps it open, each Tab (Shift+Tab backwards) moves the selection, and
+// letting go of Alt switches to the selected window.
+export const WindowSwitcher: React.FC = () => {
+  const windows = useWindowStore((state) => state.windows)
+  const { desktops, currentDesktopId } = useVirtualDesktopStore()
+  const [order, setOrder] = useState<string[] | null>(null) // null while closed
+  const [selected, setSelected] = useState(0)
+  const stateRef = useRef({ order, selected })
+  stateRef.current = { order, selected }
+
+  useEffect(() => {
+    const close = () => setOrder(null)
+
+    const onSwitch = (event: Event) => {
+      const reverse = (event as CustomEvent<{ reverse?: boolean }>).detail?.reverse ?? false
+      const { order, selected } = stateRef.current
+      if (order) {
+        setSelected((selected + (reverse ? -1 : 1) + order.length) % order.length)
+        return
+      }
+      const ids = windowsByRecency(useWindowStore.getState().windows).map(w => w.id)
+      if (ids.length === 0) return
+      setOrder(ids)
+      setSelected(ids.length === 1 ? 0 : reverse ? ids.length - 1 : 1)
+    }
+
+    const onKeyUp = (event: KeyboardEvent) => {
+      const { order, selected } = stateRef.current
+      if (event.key !== 'Alt' || !order) return
+      activateWindow(order[selected])
+      close()
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && stateRef.current.order) {
+        event.preventDefault()
+        close()
+      }
+    }
+
+    window.addEventListener('nyx:window-switcher', onSwitch)
+    window.addEventListener('keyup', onKeyUp, true)
+    window.addEventListener('keydown', onKeyDown, true)
+    window.addEventListener('blur', close) // Alt released outside the page
+    return () => {
+      window.removeEventListener('nyx:window-switcher', onSwitch)
+      window.removeEventListener('keyup', onKeyUp, true)
+      window.removeEventListener('keydown', onKeyDown, true)
+      window.removeEventListener('blur', close)
+    }
+  }, [])
+
+  // Windows closed while the switcher is up drop out of it
+  const items = (order ?? []).flatMap(id => windows.filter(w => w.id === id))
+
+  return (
+    <AnimatePresence>
+      {order && items.length > 0 && (
+        <motion.div
+          className="fixed inset-0 z-[150] flex items-center justify-center bg-black/30"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.12 }}
+          onClick={() => setOrder(null)}
+        >
+          <div className="max-w-[90vw] flex flex-wrap justify-center gap-3 p-4 rounded-2xl backdrop-blur-xl bg-black/60 border border-white/15">
+            {items.map((window, index) => (
+              <button
+                key={window.id}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  activateWindow(window.id)
+                  setOrder(null)
+                }}
+                onMouseEnter={() => setSelected(index)}
+                className={cn(
+                  'flex flex-col items-center gap-2 p-2 rounded-xl border-2 transition-colors',
+                  index === Math.min(selected, items.length - 1) ? 'border-purple-400 bg-white/10' : 'border-transparent'
+                )}
+              >
+                <WindowThumbnail window={window} width={THUMBNAIL_WIDTH} height={THUMBNAIL_HEIGHT} refreshMs={500} />
+                <div className="max-w-[200px] flex items-center gap-2 text-white text-xs">
+                  <span className="truncate">{window.title}</span>
+                  {!window.isPinned && window.desktopId !== currentDesktopId && (
+                    <span className="shrink-0 max-w-[80px] truncate px-1.5 rounded bg-white/15 text-white/70">
+                      {desktops.find(d => d.id === window.desktopId)?.name}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
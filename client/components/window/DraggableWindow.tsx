@@ -1,19 +1,28 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react'
 import { motion, PanInfo } from 'framer-motion'
-import { useWindowStore, Window } from '@/store/window-store'
+import { useWindowStore, Window, tiledWindowsOn } from '@/store/window-store'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
 import { useSamStore } from '@/store/sam-store'
 import { useThemeStore } from '@/store/theme-store'
 import { useDeviceDetection } from '@/hooks/useDeviceDetection'
+import { useWorkArea } from '@/hooks/useWorkArea'
+import { detectSnapTarget, rectIndexAt, snapZoneRect, tileGrid, type Rect, type SnapTarget } from '@/lib/window-layout'
+import { DEFAULT_DESKTOP_LAYOUT } from '@/lib/virtual-desktops'
 import { FloatingWindowControls } from '@/components/mobile/MobileGestureSystem'
 import { X, Minimize2, Maximize2, Pin, PinOff } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface DraggableWindowProps {
   window: Window
+  layoutRect?: Rect // where the layout engine puts a snapped or tiled window
+  isTiled?: boolean
   children: React.ReactNode
 }
 
-export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, children }) => {
+// Pointer travel before dragging a snapped window pulls it out of its zone
+const UNSNAP_DISTANCE = 6
+
+export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, layoutRect, isTiled = false, children }) => {
   const {
     focusWindow,
     closeWindow,
@@ -22,18 +31,22 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
     updateWindowPosition,
     updateWindowSize,
     togglePin,
+    snapWindow,
+    swapWindows,
     focusedWindowId,
   } = useWindowStore()
 
   const { currentEmotion, emotionIntensity } = useSamStore()
   const { settings: themeSettings } = useThemeStore()
   const { deviceInfo, uiConfig, isPhone, isTablet } = useDeviceDetection()
+  const safeArea = useWorkArea()
   const windowRef = useRef<HTMLDivElement>(null)
   const [isResizing, setIsResizing] = useState(false)
   const [resizeHandle, setResizeHandle] = useState<string | null>(null)
   const [isAnimating, setIsAnimating] = useState(false)
   const [isDragging, setIsDragging] = useState(false)
   const [dragTimeout, setDragTimeout] = useState<NodeJS.Timeout | null>(null)
+  const [snapPreview, setSnapPreview] = useState<Rect | null>(null)
 
   const isFocused = focusedWindowId === window.id
 
@@ -157,24 +170,19 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
   const viewportWidth = typeof globalThis.window !== 'undefined' ? globalThis.window.innerWidth : 1200
   const viewportHeight = typeof globalThis.window !== 'undefined' ? globalThis.window.innerHeight : 720
 
-  // Define a consistent safe area (excludes status bar, nav bar, taskbar)
-  const statusBarHeight = uiConfig.statusBarHeight || (isPhone ? 32 : isTablet ? 28 : 0)
-  const navigationHeight = (isPhone || isTablet) ? (uiConfig.navigationHeight || 64) : 0
-  const taskbarHeight = (!isPhone && !isTablet) ? (uiConfig.taskbarHeight || 80) : 0
+  // The safe area excludes status bar, nav bar and taskbar
+  const statusBarHeight = safeArea.y
   const headerHeight = 40 // Window header height
 
-  const safeArea = {
-    x: 0,
-    y: statusBarHeight,
-    width: viewportWidth,
-    height: Math.max(0, viewportHeight - statusBarHeight - navigationHeight - taskbarHeight)
-  }
-
   // Enhanced responsive window configuration
   const getResponsiveWindowConfig = () => {
     const availableHeight = safeArea.height
     const availableWidth = safeArea.width
 
+    if (layoutRect && !window.isMaximized) {
+      return layoutRect
+    }
+
     if (isPhone) {
       // Phone: Prioritize fullscreen for all apps except calculator
       if (window.appId === 'calculator') {
@@ -186,21 +194,7 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
         }
       }
 
-      if (window.mode === 'split-left') {
-        return {
-          x: 0,
-          y: statusBarHeight,
-          width: viewportWidth / 2,
-          height: availableHeight
-        }
-      } else if (window.mode === 'split-right') {
-        return {
-          x: viewportWidth / 2,
-          y: statusBarHeight,
-          width: viewportWidth / 2,
-          height: availableHeight
-        }
-      } else if (window.mode === 'floating') {
+      if (window.mode === 'floating') {
         const floatingWidth = Math.min(safeSize.width, viewportWidth * 0.85)
         const floatingHeight = Math.min(safeSize.height, availableHeight * 0.7)
         return {
@@ -220,21 +214,7 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
       }
     } else if (isTablet) {
       // Tablet: Hybrid approach - apps can be fullscreen or windowed
-      if (window.mode === 'split-left') {
-        return {
-          x: 0,
-          y: statusBarHeight,
-          width: viewportWidth / 2 - 8,
-          height: availableHeight
-        }
-      } else if (window.mode === 'split-right') {
-        return {
-          x: viewportWidth / 2 + 8,
-          y: statusBarHeight,
-          width: viewportWidth / 2 - 8,
-          height: availableHeight
-        }
-      } else if (window.mode === 'floating') {
+      if (window.mode === 'floating') {
         const floatingWidth = Math.min(safeSize.width, viewportWidth * 0.75)
         const floatingHeight = Math.min(safeSize.height, availableHeight * 0.8)
         return {
@@ -271,20 +251,6 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
           width: safeArea.width,
           height: safeArea.height
         }
-      } else if (window.mode === 'split-left') {
-        return {
-          x: safeArea.x,
-          y: safeArea.y,
-          width: safeArea.width / 2 - 8,
-          height: safeArea.height
-        }
-      } else if (window.mode === 'split-right') {
-        return {
-          x: safeArea.x + safeArea.width / 2 + 8,
-          y: safeArea.y,
-          width: safeArea.width / 2 - 8,
-          height: safeArea.height
-        }
       } else {
         // Regular windowed mode
         const minWidth = Math.max(300, safeArea.width * 0.2)
@@ -305,8 +271,17 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
   const windowConfig = getResponsiveWindowConfig()
   
   return (
+    <>
+    {/* Where the window will land when the drag ends */}
+    {snapPreview && (
+      <div
+        className="fixed pointer-events-none rounded-2xl border-2 border-purple-400/60 bg-purple-500/15 backdrop-blur-sm transition-all duration-150"
+        style={{ left: snapPreview.x, top: snapPreview.y, width: snapPreview.width, height: snapPreview.height, zIndex: window.zIndex }}
+      />
+    )}
     <motion.div
       ref={windowRef}
+      data-window-id={window.id}
       className={cn(
         "absolute overflow-hidden flex flex-col",
         isPhone ? `rounded-none ${themeSettings.mode === 'dark' ? 'bg-black/40' : 'bg-white/40'} backdrop-blur-sm` :
@@ -316,6 +291,8 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
         isFocused && !isPhone && `ring-2 ${themeSettings.mode === 'dark' ? 'ring-purple-400/50 shadow-xl shadow-purple-500/30' : 'ring-blue-400/50 shadow-xl shadow-blue-500/30'}`
       )}
       style={{
+        left: 0,
+        top: 0,
         zIndex: window.zIndex,
         borderColor: getEmotionBorderColor(),
         opacity: window.opacity || 1,
@@ -361,10 +338,6 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
         duration: window.animationOrigin ? 0.6 : 0.4
       }}
       onClick={() => focusWindow(window.id)}
-      style={{
-        left: 0,
-        top: 0
-      }}
     >
       {/* Window Header */}
       <div
@@ -394,16 +367,41 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
           }
 
           e.preventDefault()
+          focusWindow(window.id)
           setIsDragging(true)
 
           const startX = e.clientX
           const startY = e.clientY
-          const startPosX = safePosition.x
-          const startPosY = safePosition.y
+          const desktopId = window.desktopId
+          // A snapped window comes loose at its own size, with the pointer on its title bar
+          let isLoose = !layoutRect
+          const startPosX = isLoose ? safePosition.x : startX - safeSize.width / 2
+          const startPosY = isLoose ? safePosition.y : startY - headerHeight / 2
+          let snapTarget: SnapTarget | null = null
+          let swapWith: string | null = null
+
+          // Tiled windows stay in their tile; dropping one on another swaps them
+          const handleTiledMove = (moveEvent: MouseEvent) => {
+            const tiled = tiledWindowsOn(useWindowStore.getState().windows, desktopId)
+            const rects = tileGrid(tiled.length, safeArea)
+            const index = rectIndexAt({ x: moveEvent.clientX, y: moveEvent.clientY }, rects)
+            swapWith = index >= 0 && tiled[index].id !== window.id ? tiled[index].id : null
+            setSnapPreview(swapWith ? rects[index] : null)
+          }
 
           const handleMouseMove = (moveEvent: MouseEvent) => {
+            if (isTiled) {
+              handleTiledMove(moveEvent)
+              return
+            }
+
             const deltaX = moveEvent.clientX - startX
             const deltaY = moveEvent.clientY - startY
+            if (!isLoose) {
+              if (Math.hypot(deltaX, deltaY) < UNSNAP_DISTANCE) return
+              snapWindow(window.id, null)
+              isLoose = true
+            }
 
             // Keep window within safe area
             const minX = safeArea.x
@@ -415,22 +413,22 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
             const newY = Math.max(minY, Math.min(startPosY + deltaY, maxY))
 
             updateWindowPosition(window.id, { x: newX, y: newY })
+
+            snapTarget = detectSnapTarget({ x: moveEvent.clientX, y: moveEvent.clientY }, safeArea)
+            const { splitRatio } = useVirtualDesktopStore.getState().desktops.find(d => d.id === desktopId)?.layout ?? DEFAULT_DESKTOP_LAYOUT
+            setSnapPreview(
+              snapTarget === 'maximize' ? safeArea : snapTarget ? snapZoneRect(snapTarget, safeArea, splitRatio) : null
+            )
           }
 
           const handleMouseUp = () => {
             setIsDragging(false)
+            setSnapPreview(null)
 
-            // Edge snapping
-            const current = useWindowStore.getState().getWindow(window.id)
-            if (current && !isPhone) {
-              const snapThreshold = 32
-              if (current.position.x <= snapThreshold) {
-                useWindowStore.getState().updateWindowMode(window.id, 'split-left')
-              } else if (current.position.x + current.size.width >= viewportWidth - snapThreshold) {
-                useWindowStore.getState().updateWindowMode(window.id, 'split-right')
-              } else if (current.position.y <= snapThreshold) {
-                useWindowStore.getState().maximizeWindow(window.id)
-              }
+            if (swapWith) {
+              swapWindows(window.id, swapWith)
+            } else if (snapTarget) {
+              snapWindow(window.id, snapTarget)
             }
 
             document.removeEventListener('mousemove', handleMouseMove)
@@ -574,5 +572,6 @@ export const DraggableWindow: React.FC<DraggableWindowProps> = ({ window, childr
         </>
       )}
     </motion.div>
+    </>
   )
 }
@@ -0,0 +1,56 @@
+import React, { useState } from 'react'
+import { cn } from '@/lib/utils'
+import { DEFAULT_SPLIT_RATIO, SNAP_GAP, clampSplitRatio, type Rect } from '@/lib/window-layout'
+
+interface SplitDividerProps {
+  area: Rect
+  ratio: number
+  zIndex: number
+  onChange: (ratio: number) => void
+}
+
+// The bar in the gap between left- and right-snapped windows; dragging it
+// moves the split for both sides at once.
+export const SplitDivider: React.FC<SplitDividerProps> = ({ area, ratio, zIndex, onChange }) => {
+  const [isDragging, setIsDragging] = useState(false)
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault()
+    setIsDragging(true)
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      onChange(clampSplitRatio((moveEvent.clientX - area.x) / area.width))
+    }
+
+    const handleMouseUp = () => {
+      setIsDragging(false)
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+  }
+
+  return (
+    <div
+      className="absolute pointer-events-auto cursor-col-resize flex items-center justify-center group"
+      style={{
+        left: area.x + area.width * ratio - SNAP_GAP / 2,
+        top: area.y,
+        width: SNAP_GAP,
+        height: area.height,
+        zIndex,
+      }}
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => onChange(DEFAULT_SPLIT_RATIO)}
+    >
+      <div
+        className={cn(
+          'w-1 h-16 rounded-full bg-white/30 transition-all group-hover:bg-white/70 group-hover:h-24',
+          isDragging && 'bg-purple-400 h-24'
+        )}
+      />
+    </div>
+  )
+}
@@ -1,26 +1,67 @@
 import React from 'react'
-import { useWindowStore } from '@/store/window-store'
-import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { useWindowStore, tiledWindowsOn, type Window } from '@/store/window-store'
+import { useVirtualDesktopStore, selectCurrentDesktop } from '@/store/virtual-desktop-store'
+import { useDeviceDetection } from '@/hooks/useDeviceDetection'
+import { useWorkArea } from '@/hooks/useWorkArea'
+import { isLeftColumn, isRightColumn, snapZoneRect, tileGrid, type Rect } from '@/lib/window-layout'
+import { cn } from '@/lib/utils'
 import { DraggableWindow } from './DraggableWindow'
+import { SplitDivider } from './SplitDivider'
 import { AnimatePresence } from 'framer-motion'
 
 export const WindowManager: React.FC = () => {
-  const { windows } = useWindowStore()
-  const { currentDesktop } = useVirtualDesktopStore()
+  const { windows, nextZIndex } = useWindowStore()
+  const desktop = useVirtualDesktopStore(selectCurrentDesktop)
+  const setDesktopLayout = useVirtualDesktopStore((state) => state.setDesktopLayout)
+  const { isPhone } = useDeviceDetection()
+  const area = useWorkArea()
 
-  const visibleWindows = windows.filter(w => (w.desktopId ?? 0) === currentDesktop || w.isPinned)
+  const isVisible = (w: Window) => w.desktopId === desktop.id || w.isPinned
+  const visibleWindows = windows.filter(isVisible)
+  const { layout } = desktop
+  const isTiling = layout.tiling && !isPhone
+
+  // Snapped and tiled windows get their place from the layout, recomputed whenever the work area changes
+  const layoutRects = new Map<string, Rect>()
+  if (isTiling) {
+    const tiled = tiledWindowsOn(windows, desktop.id)
+    tileGrid(tiled.length, area).forEach((rect, i) => layoutRects.set(tiled[i].id, rect))
+  } else {
+    visibleWindows.forEach((w) => {
+      if (w.mode === 'snapped' && w.snapZone) layoutRects.set(w.id, snapZoneRect(w.snapZone, area, layout.splitRatio))
+    })
+  }
+
+  const snappedZones = visibleWindows
+    .filter(w => !isTiling && !w.isMinimized && !w.isMaximized && w.mode === 'snapped' && w.snapZone)
+    .map(w => w.snapZone!)
+  const showDivider = !isPhone && snappedZones.some(isLeftColumn) && snappedZones.some(isRightColumn)
 
   return (
     <div className="fixed inset-0 pointer-events-none z-40">
       <AnimatePresence>
-        {visibleWindows.map((window) => (
-          <div key={window.id} className="pointer-events-auto">
-            <DraggableWindow window={window}>
+        {/* Windows on other desktops stay mounted, hidden, so they keep their state and thumbnails */}
+        {windows.map((window) => (
+          <div
+            key={window.id}
+            className={cn('pointer-events-auto', !isVisible(window) && 'invisible pointer-events-none')}
+            aria-hidden={!isVisible(window)}
+          >
+            <DraggableWindow window={window} layoutRect={layoutRects.get(window.id)} isTiled={isTiling && layoutRects.has(window.id)}>
               <window.component {...(window.props || {})} windowId={window.id} />
             </DraggableWindow>
           </div>
         ))}
       </AnimatePresence>
+
+      {showDivider && (
+        <SplitDivider
+          area={area}
+          ratio={layout.splitRatio}
+          zIndex={nextZIndex}
+          onChange={(splitRatio) => setDesktopLayout(desktop.id, { splitRatio })}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react'
+import type { Window } from '@/store/window-store'
+import { getAppManifest } from '@/lib/app-registry'
+import { cn } from '@/lib/utils'
+
+interface WindowThumbnailProps {
+  window: Window
+  width: number
+  height: number
+  refreshMs?: number
+  className?: string
+}
+
+// Elements that would load again or play when copied
+const UNCLONEABLE = 'iframe, video, audio, object, embed'
+
+// Copies the window's rendered DOM rather than mounting the app a second time,
+// so the preview shows its real state. Canvases are copied pixel by pixel.
+const cloneWindow = (source: HTMLElement) => {
+  const clone = source.cloneNode(true) as HTMLElement
+  const sourceCanvases = source.querySelectorAll('canvas')
+  clone.querySelectorAll('canvas').forEach((canvas, i) => {
+    try {
+      canvas.getContext('2d')?.drawImage(sourceCanvases[i], 0, 0)
+    } catch {
+      // WebGL or tainted canvases stay blank
+    }
+  })
+  clone.querySelectorAll(UNCLONEABLE).forEach((element) => {
+    const placeholder = document.createElement('div')
+    placeholder.style.cssText = 'width:100%;height:100%;background:rgba(0,0,0,0.4)'
+    element.replaceWith(placeholder)
+  })
+  clone.removeAttribute('data-window-id')
+  Object.assign(clone.style, {
+    transform: 'none',
+    position: 'static',
+    visibility: 'visible',
+    opacity: '1',
+    width: `${source.offsetWidth}px`,
+    height: `${source.offsetHeight}px`,
+  })
+  return clone
+}
+
+export const WindowThumbnail: React.FC<WindowThumbnailProps> = ({ window, width, height, refreshMs = 1000, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [hasPreview, setHasPreview] = useState(false)
+
+  useEffect(() => {
+    const render = () => {
+      const container = containerRef.current
+      const source = document.querySelector<HTMLElement>(`[data-window-id="${CSS.escape(window.id)}"]`)
+      if (!container || !source || !source.offsetWidth || !source.offsetHeight) {
+        setHasPreview(false)
+        return
+      }
+      const scale = Math.min(width / source.offsetWidth, height / source.offsetHeight)
+      const frame = document.createElement('div')
+      frame.style.cssText = `transform: scale(${scale}); transform-origin: top left; width: ${source.offsetWidth}px; height: ${source.offsetHeight}px`
+      frame.appendChild(cloneWindow(source))
+      container.replaceChildren(frame)
+      container.style.width = `${source.offsetWidth * scale}px`
+      container.style.height = `${source.offsetHeight * scale}px`
+      setHasPreview(true)
+    }
+
+    render()
+    const interval = setInterval(render, refreshMs)
+    return () => clearInterval(interval)
+  }, [window.id, window.isMinimized, width, height, refreshMs])
+
+  const app = getAppManifest(window.appId)
+
+  return (
+    <div className={cn('relative flex items-center justify-center', className)} style={{ width, height }}>
+      {/* inert: the copy is only a picture, nothing in it can be clicked or focused */}
+      <div ref={containerRef} className="overflow-hidden rounded-lg pointer-events-none" {...{ inert: '' }} hidden={!hasPreview} />
+      {!hasPreview && (
+        <div className="flex flex-col items-center justify-center gap-2 w-full h-full rounded-lg bg-white/5 border border-white/10 text-white/70">
+          {app && React.createElement(app.icon, { className: 'w-10 h-10' })}
+          {window.isMinimized && <span className="text-xs">Minimized</span>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,17 +1,17 @@
 import { useEffect, useCallback } from 'react'
 import { useWindowStore } from '@/store/window-store'
+import { nextSnapTarget } from '@/lib/window-layout'
 import { useDesktopStore } from '@/store/desktop-store'
 import { useSamStore } from '@/store/sam-store'
 import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { undoTargetFor } from '@/lib/undo-history'
 
 export const useKeyboardShortcuts = (enabled: boolean = true) => {
   const { 
-    windows, 
     focusedWindowId, 
     closeWindow, 
     minimizeWindow, 
     maximizeWindow, 
-    focusWindow,
     openWindow 
   } = useWindowStore()
   
@@ -71,14 +71,26 @@ export const useKeyboardShortcuts = (enabled: boolean = true) => {
     }
 
     if (altKey && key === 'Tab') {
-      // Alt+Tab window switching
+      // Alt+Tab window switcher; it switches when Alt is released
       preventDefault()
-      const visibleWindows = windows.filter(w => !w.isMinimized)
-      if (visibleWindows.length > 1) {
-        const currentIndex = visibleWindows.findIndex(w => w.id === focusedWindowId)
-        const nextIndex = (currentIndex + 1) % visibleWindows.length
-        focusWindow(visibleWindows[nextIndex].id)
-        addMessage("Switched windows with Alt+Tab. Classic move!", 'sam', 'focused')
+      window.dispatchEvent(new CustomEvent('nyx:window-switcher', { detail: { reverse: shiftKey } }))
+      return
+    }
+
+    // Overview of every window on every desktop
+    if (key === 'F3') {
+      preventDefault()
+      window.dispatchEvent(new CustomEvent('nyx:toggle-expose'))
+      return
+    }
+
+    // Undo/redo in the focused window's editor; other windows keep the browser's own undo
+    if (cmdKey && !altKey && (key.toLowerCase() === 'z' || key.toLowerCase() === 'y')) {
+      const target = undoTargetFor(focusedWindowId)
+      if (target) {
+        preventDefault()
+        if (shiftKey || key.toLowerCase() === 'y') target.redo()
+        else target.undo()
       }
       return
     }
@@ -90,17 +102,14 @@ export const useKeyboardShortcuts = (enabled: boolean = true) => {
       return
     }
 
-    // Snap focused window
-    if (ctrlKey && (key === 'ArrowLeft' || key === 'ArrowRight' || key === 'ArrowUp')) {
+    // Snap focused window: halves, then quarters with up/down, maximize with up
+    if (ctrlKey && !altKey && (key === 'ArrowLeft' || key === 'ArrowRight' || key === 'ArrowUp' || key === 'ArrowDown')) {
       preventDefault()
-      if (focusedWindowId) {
-        if (key === 'ArrowLeft') {
-          useWindowStore.getState().updateWindowMode(focusedWindowId, 'split-left')
-        } else if (key === 'ArrowRight') {
-          useWindowStore.getState().updateWindowMode(focusedWindowId, 'split-right')
-        } else if (key === 'ArrowUp') {
-          useWindowStore.getState().maximizeWindow(focusedWindowId)
-        }
+      const focused = focusedWindowId ? useWindowStore.getState().getWindow(focusedWindowId) : undefined
+      if (focused) {
+        const current = focused.isMaximized ? 'maximize' : focused.mode === 'snapped' ? focused.snapZone ?? null : null
+        const direction = key === 'ArrowLeft' ? 'left' : key === 'ArrowRight' ? 'right' : key === 'ArrowUp' ? 'up' : 'down'
+        useWindowStore.getState().snapWindow(focused.id, nextSnapTarget(current, direction))
       }
       return
     }
@@ -224,12 +233,10 @@ export const useKeyboardShortcuts = (enabled: boolean = true) => {
 
   }, [
     enabled,
-    windows,
     focusedWindowId,
     closeWindow,
     minimizeWindow,
     maximizeWindow,
-    focusWindow,
     isEditMode,
     setEditMode,
     selectedIcons,
@@ -253,6 +260,9 @@ export const useKeyboardShortcuts = (enabled: boolean = true) => {
       'Cmd/Ctrl + M': 'Minimize window',
       'Cmd/Ctrl + Shift + M': 'Maximize window',
       'Alt + Tab': 'Switch between windows',
+      'F3': 'Show all windows',
+      'Cmd/Ctrl + Z': 'Undo in the focused editor',
+      'Cmd/Ctrl + Shift + Z or Cmd/Ctrl + Y': 'Redo in the focused editor',
       'F2 or Cmd/Ctrl + R': 'Enter edit mode',
       'Escape': 'Exit edit mode / Clear selection',
       'Cmd/Ctrl + 1-5': 'Launch apps',
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { RecordOptions, UndoHistory, UndoHistoryOptions, registerUndoTarget } from '@/lib/undo-history'
+
+interface UseUndoableStateOptions<T> extends UndoHistoryOptions {
+  // Window whose Ctrl+Z / Ctrl+Shift+Z should undo and redo this state
+  windowId?: string
+  // Called with the state an undo or redo restored, for apps that mirror it elsewhere
+  onRestore?: (state: T) => void
+}
+
+type Update<T> = T | ((previous: T) => T)
+
+// State with an undo history. Every setState is recorded as a patch, so keep
+// updates immutable: unchanged parts of the state must keep their identity.
+export const useUndoableState = <T>(initial: T | (() => T), options: UseUndoableStateOptions<T> = {}) => {
+  const { windowId, onRestore, maxEntries, maxSize, coalesceMs } = options
+  const [state, setRawState] = useState(initial)
+  const [, setVersion] = useState(0)
+  const stateRef = useRef(state)
+  const historyRef = useRef<UndoHistory<T> | null>(null)
+  if (!historyRef.current) historyRef.current = new UndoHistory<T>({ maxEntries, maxSize, coalesceMs })
+  const history = historyRef.current
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+
+  const commit = useCallback((next: T) => {
+    stateRef.current = next
+    setRawState(next)
+    setVersion(version => version + 1)
+  }, [])
+
+  const setState = useCallback((update: Update<T>, recordOptions?: RecordOptions) => {
+    const previous = stateRef.current
+    const next = typeof update === 'function' ? (update as (previous: T) => T)(previous) : update
+    if (Object.is(next, previous)) return
+    history.record(previous, next, recordOptions)
+    commit(next)
+  }, [history, commit])
+
+  // Replaces the state without history, e.g. after opening another file
+  const reset = useCallback((next: T) => {
+    history.clear()
+    commit(next)
+  }, [history, commit])
+
+  const restore = useCallback((next: T | undefined) => {
+    if (next === undefined) return
+    commit(next)
+    onRestoreRef.current?.(next)
+  }, [commit])
+
+  const undo = useCallback(() => restore(history.undo(stateRef.current)), [history, restore])
+  const redo = useCallback(() => restore(history.redo(stateRef.current)), [history, restore])
+
+  // Several updates that should undo as one step
+  const transact = useCallback((label: string, run: () => void) => {
+    history.beginGroup(label)
+    try {
+      run()
+    } finally {
+      history.endGroup()
+      setVersion(version => version + 1)
+    }
+  }, [history])
+
+  useEffect(() => (windowId ? registerUndoTarget(windowId, { undo, redo }) : undefined), [windowId, undo, redo])
+
+  return {
+    state,
+    setState,
+    reset,
+    undo,
+    redo,
+    transact,
+    breakCoalescing: () => history.breakCoalescing(),
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    undoLabel: history.undoLabel,
+    redoLabel: history.redoLabel,
+  }
+}
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react'
+import { vfs, VfsEntry, VfsError } from '@/services/vfs'
+
+interface UseVfsDirectoryOptions {
+  recursive?: boolean
+  // Create the directory when it does not exist yet instead of reporting an error
+  create?: boolean
+}
+
+// Lists a directory and keeps the listing in sync with changes made by any app
+export const useVfsDirectory = (path: string, options: UseVfsDirectoryOptions = {}) => {
+  const { recursive = false, create = false } = options
+  const [entries, setEntries] = useState<VfsEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      if (create) await vfs.mkdir(path)
+      setEntries(await vfs.list(path, { recursive }))
+      setError(null)
+    } catch (err) {
+      setEntries([])
+      setError(err instanceof VfsError ? err.message : String(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [path, recursive, create])
+
+  useEffect(() => {
+    setIsLoading(true)
+    refresh()
+    return vfs.watch(path, () => refresh(), { recursive })
+  }, [path, recursive, refresh])
+
+  return { entries, isLoading, error, refresh }
+}
+
+// Object URLs for the given file entries; URLs are revoked when entries go away or on unmount
+export const useVfsObjectUrls = (entries: VfsEntry[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const key = entries.map(entry => `${entry.path}:${entry.modified}`).join('|')
+
+  useEffect(() => {
+    let cancelled = false
+    const created: string[] = []
+
+    Promise.all(
+      entries
+        .filter(entry => entry.type === 'file')
+        .map(async entry => {
+          try {
+            const blob = await vfs.readBlob(entry.path)
+            if (cancelled) return null
+            const url = URL.createObjectURL(blob)
+            created.push(url)
+            return [entry.path, url] as const
+          } catch {
+            return null
+          }
+        }),
+    ).then(results => {
+      if (cancelled) return
+      setUrls(Object.fromEntries(results.filter(Boolean) as (readonly [string, string])[]))
+    })
+
+    return () => {
+      cancelled = true
+      created.forEach(url => URL.revokeObjectURL(url))
+    }
+  }, [key])
+
+  return urls
+}
@@ -0,0 +1,22 @@
+import { useDeviceDetection } from '@/hooks/useDeviceDetection'
+import type { Rect } from '@/lib/window-layout'
+
+const NAVIGATION_HEIGHT = 64
+const TASKBAR_HEIGHT = 80
+
+// The part of the screen windows may cover: below the status bar and above the
+// taskbar or navigation bar. Follows the viewport as it resizes.
+export const useWorkArea = (): Rect => {
+  const { deviceInfo, uiConfig, isPhone, isTablet } = useDeviceDetection()
+
+  const statusBarHeight = uiConfig.statusBarHeight || (isPhone ? 32 : isTablet ? 28 : 0)
+  const navigationHeight = (isPhone || isTablet) ? NAVIGATION_HEIGHT : 0
+  const taskbarHeight = (!isPhone && !isTablet) ? TASKBAR_HEIGHT : 0
+
+  return {
+    x: 0,
+    y: statusBarHeight,
+    width: deviceInfo.screenWidth,
+    height: Math.max(0, deviceInfo.screenHeight - statusBarHeight - navigationHeight - taskbarHeight),
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { defineTool, runTool, runToolCall, toolDefinition, ToolError } from "./ai-tools";
+
+const setAlarm = defineTool({
+  name: "set_alarm",
+  description: "Set an alarm",
+  parameters: z.object({
+    time: z.string().regex(/^\d\d:\d\d$/).describe("HH:MM"),
+    repeat: z.enum(["none", "daily"]).default("none"),
+    label: z.string().max(20).optional(),
+    snoozeMinutes: z.number().int().min(1).max(30).optional(),
+  }),
+  run: ({ time, repeat }) => `Alarm at ${time} (${repeat})`,
+});
+
+const deleteAll = defineTool({
+  name: "delete_all",
+  description: "Delete everything",
+  parameters: z.object({ what: z.string() }),
+  destructive: true,
+  summarize: ({ what }) => `Delete all ${what}`,
+  run: ({ what }) => `Deleted all ${what}`,
+});
+
+const failing = defineTool({
+  name: "failing",
+  description: "Always fails",
+  parameters: z.object({}),
+  run: () => {
+    throw new ToolError("Nothing to do");
+  },
+});
+
+const tools = [setAlarm, deleteAll, failing];
+
+describe("toolDefinition", () => {
+  it("describes zod parameters as JSON Schema", () => {
+    expect(toolDefinition(setAlarm)).toEqual({
+      name: "set_alarm",
+      description: "Set an alarm",
+      parameters: {
+        type: "object",
+        properties: {
+          time: { type: "string", pattern: "^\\d\\d:\\d\\d$", description: "HH:MM" },
+          repeat: { type: "string", enum: ["none", "daily"], default: "none" },
+          label: { type: "string", maxLength: 20 },
+          snoozeMinutes: { type: "integer", minimum: 1, maximum: 30 },
+        },
+        required: ["time"],
+        additionalProperties: false,
+      },
+    });
+  });
+});
+
+describe("runTool", () => {
+  it("validates arguments and applies defaults", async () => {
+    expect(await runTool(tools, "set_alarm", { time: "07:30" })).toEqual({ ok: true, output: "Alarm at 07:30 (none)" });
+    expect(await runTool(tools, "set_alarm", { time: "7am" })).toEqual({
+      ok: false,
+      output: expect.stringContaining("Invalid arguments for set_alarm: time:"),
+    });
+  });
+
+  it("asks before running destructive tools", async () => {
+    const confirm = vi.fn(async () => false);
+    expect(await runTool(tools, "delete_all", { what: "alarms" }, confirm)).toEqual({
+      ok: false,
+      output: "The user declined: Delete all alarms",
+    });
+    expect(confirm).toHaveBeenCalledWith({ tool: "delete_all", summary: "Delete all alarms" });
+
+    expect((await runTool(tools, "delete_all", { what: "alarms" }, async () => true)).output).toBe("Deleted all alarms");
+    // Without a way to ask, destructive tools never run
+    expect((await runTool(tools, "delete_all", { what: "alarms" })).ok).toBe(false);
+  });
+
+  it("reports unknown tools and tool errors as results", async () => {
+    expect(await runTool(tools, "launch_rockets", {})).toEqual({ ok: false, output: 'Unknown tool "launch_rockets"' });
+    expect(await runTool(tools, "failing", {})).toEqual({ ok: false, output: "Nothing to do" });
+  });
+});
+
+describe("runToolCall", () => {
+  it("parses the model's JSON arguments", async () => {
+    const call = { id: "1", name: "set_alarm", arguments: '{"time":"06:00","repeat":"daily"}' };
+    expect((await runToolCall(tools, call)).output).toBe("Alarm at 06:00 (daily)");
+    expect((await runToolCall(tools, { ...call, arguments: "{oops" })).output).toBe(
+      "Arguments for set_alarm are not valid JSON",
+    );
+  });
+});
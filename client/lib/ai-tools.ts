@@ -0,0 +1,140 @@
+import { z } from 'zod'
+import type { AITool as AIToolDefinition, AIToolCall } from '@shared/api'
+
+// Typed tools the assistant can call. Arguments are described with zod, which
+// gives us both the JSON Schema sent to the model and validation of whatever
+// the model sends back. Every outcome, including failures, becomes text for
+// the model so it can report or retry.
+
+export interface AITool<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string
+  description: string
+  parameters: S
+  /** Destructive tools only run after the user confirms */
+  destructive?: boolean
+  /** One line describing the call, shown when asking for confirmation */
+  summarize?: (args: z.infer<S>) => string
+  run: (args: z.infer<S>) => string | Promise<string>
+}
+
+export interface ToolConfirmation {
+  tool: string
+  summary: string
+}
+
+export type ConfirmTool = (request: ToolConfirmation) => Promise<boolean>
+
+export interface ToolResult {
+  ok: boolean
+  output: string
+}
+
+/** Failure with a message meant for the model and user, e.g. "No alarm named …" */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ToolError'
+  }
+}
+
+export const defineTool = <S extends z.ZodTypeAny>(tool: AITool<S>): AITool<S> => tool
+
+type JsonSchema = Record<string, unknown>
+
+// Covers the zod types tool parameters use; anything else is left unconstrained
+export const zodToJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const withDescription = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...zodToJsonSchema(schema.unwrap()), ...withDescription({}) }
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), ...withDescription({ default: schema._def.defaultValue() }) }
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...zodToJsonSchema(schema.innerType()), ...withDescription({}) }
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional())
+    return withDescription({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length ? { required } : {}),
+      additionalProperties: false,
+    })
+  }
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' }
+    schema._def.checks.forEach(check => {
+      if (check.kind === 'min') json.minLength = check.value
+      if (check.kind === 'max') json.maxLength = check.value
+      if (check.kind === 'regex') json.pattern = check.regex.source
+    })
+    return withDescription(json)
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? 'integer' : 'number' }
+    schema._def.checks.forEach(check => {
+      if (check.kind === 'min') json.minimum = check.value
+      if (check.kind === 'max') json.maximum = check.value
+    })
+    return withDescription(json)
+  }
+  if (schema instanceof z.ZodBoolean) return withDescription({ type: 'boolean' })
+  if (schema instanceof z.ZodEnum) return withDescription({ type: 'string', enum: schema.options })
+  if (schema instanceof z.ZodArray) return withDescription({ type: 'array', items: zodToJsonSchema(schema.element) })
+  return withDescription({})
+}
+
+export const toolDefinition = (tool: AITool): AIToolDefinition => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: zodToJsonSchema(tool.parameters),
+})
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ')
+
+/**
+ * Validates and runs one tool. Destructive tools need `confirm` to resolve
+ * true; without a way to ask, they're refused.
+ */
+export const runTool = async (
+  tools: readonly AITool[],
+  name: string,
+  args: unknown,
+  confirm?: ConfirmTool
+): Promise<ToolResult> => {
+  const tool = tools.find(t => t.name === name)
+  if (!tool) return { ok: false, output: `Unknown tool "${name}"` }
+
+  const parsed = tool.parameters.safeParse(args ?? {})
+  if (!parsed.success) return { ok: false, output: `Invalid arguments for ${name}: ${formatIssues(parsed.error)}` }
+
+  if (tool.destructive) {
+    const summary = tool.summarize?.(parsed.data) ?? `Run ${name}`
+    const approved = confirm ? await confirm({ tool: name, summary }) : false
+    if (!approved) return { ok: false, output: `The user declined: ${summary}` }
+  }
+
+  try {
+    return { ok: true, output: await tool.run(parsed.data) }
+  } catch (error) {
+    if (error instanceof ToolError) return { ok: false, output: error.message }
+    console.error(`Tool ${name} failed:`, error)
+    return { ok: false, output: `${name} failed unexpectedly` }
+  }
+}
+
+/** Runs a call exactly as the model produced it, arguments still JSON-encoded */
+export const runToolCall = (tools: readonly AITool[], call: AIToolCall, confirm?: ConfirmTool): Promise<ToolResult> => {
+  let args: unknown
+  try {
+    args = call.arguments.trim() ? JSON.parse(call.arguments) : {}
+  } catch {
+    return Promise.resolve({ ok: false, output: `Arguments for ${call.name} are not valid JSON` })
+  }
+  return runTool(tools, call.name, args, confirm)
+}
@@ -0,0 +1,60 @@
+import type { DeviceType } from '@/hooks/useDeviceDetection'
+import { useWindowStore, WindowMode } from '@/store/window-store'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { getAppManifest, getAppComponent } from '@/lib/app-registry'
+
+export interface LaunchOptions {
+  deviceType?: DeviceType
+  title?: string
+  props?: Record<string, unknown>
+  position?: { x: number; y: number }
+  size?: { width: number; height: number }
+  mode?: WindowMode
+  isFullscreen?: boolean
+  animationOrigin?: { x: number; y: number }
+}
+
+// Brings a window to the front wherever it is: switches to its desktop and restores it if minimized
+export const activateWindow = (id: string) => {
+  const { getWindow, minimizeWindow, focusWindow } = useWindowStore.getState()
+  const window = getWindow(id)
+  if (!window) return
+  if (!window.isPinned && window.desktopId) useVirtualDesktopStore.getState().switchDesktop(window.desktopId)
+  if (window.isMinimized) minimizeWindow(id)
+  focusWindow(id)
+}
+
+// Opens an app from the registry, or focuses the running instance of a single-instance app.
+// Returns the window id, or null when the app is unknown.
+export const launchApp = (appId: string, options: LaunchOptions = {}): string | null => {
+  const app = getAppManifest(appId)
+  if (!app) {
+    console.warn(`Unknown app: ${appId}`)
+    return null
+  }
+
+  const { windows, openWindow } = useWindowStore.getState()
+
+  if (app.singleInstance) {
+    const existing = windows.find(w => w.appId === app.id)
+    if (existing) {
+      activateWindow(existing.id)
+      return existing.id
+    }
+  }
+
+  return openWindow({
+    appId: app.id,
+    title: options.title || app.name,
+    component: getAppComponent(app, options.deviceType),
+    props: options.props,
+    position: options.position || app.defaultPosition,
+    size: options.size || app.defaultSize,
+    mode: options.mode || 'windowed',
+    isFullscreen: options.isFullscreen,
+    animationOrigin: options.animationOrigin,
+    isMinimized: false,
+    isMaximized: false,
+    isPinned: false,
+  })
+}
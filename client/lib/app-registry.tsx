@@ -0,0 +1,486 @@
+import React, { Suspense } from 'react'
+import type { DeviceType } from '@/hooks/useDeviceDetection'
+import { AppErrorBoundary } from '@/components/apps/AppErrorBoundary'
+import {
+  MessageCircle,
+  Phone,
+  Folder,
+  Wrench,
+  Calendar as CalendarIcon,
+  Settings as SettingsIcon,
+  Globe,
+  Gamepad2,
+  Crown,
+  Zap,
+  Brain,
+  FileText,
+  Calculator as CalculatorIcon,
+  Chrome,
+  Grid3x3,
+  HelpCircle,
+  Music,
+  FileCode,
+  Presentation,
+  BarChart3,
+  ArrowRightLeft,
+  Camera,
+  Image,
+  Mic,
+} from 'lucide-react'
+
+export type AppCategory = 'assistant' | 'productivity' | 'internet' | 'media' | 'games' | 'system' | 'developer'
+
+export type AppCapability =
+  | 'ai'
+  | 'voice'
+  | 'camera'
+  | 'microphone'
+  | 'network'
+  | 'storage'
+  | 'notifications'
+
+type AppLoader = () => Promise<React.ComponentType<any>>
+
+export interface AppManifest {
+  id: string
+  name: string
+  description: string
+  icon: React.ComponentType<any>
+  color: string
+  category: AppCategory
+  capabilities: AppCapability[]
+  singleInstance: boolean
+  deviceTypes: DeviceType[]
+  defaultSize: { width: number; height: number }
+  defaultPosition: { x: number; y: number }
+  load: AppLoader
+  loadMobile?: AppLoader // touch-optimised variant used on phones and tablets
+  aliases?: string[] // extra names Sam and the command palette match on
+}
+
+const ALL_DEVICES: DeviceType[] = ['desktop', 'tablet', 'phone']
+const MOBILE_DEVICES: DeviceType[] = ['tablet', 'phone']
+
+export const APP_MANIFESTS: AppManifest[] = [
+  {
+    id: 'sam-chat',
+    name: 'Sam',
+    description: 'Chat with Sam AI',
+    icon: MessageCircle,
+    color: '#8b5cf6',
+    category: 'assistant',
+    capabilities: ['ai', 'network'],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 450, height: 650 },
+    defaultPosition: { x: 100, y: 100 },
+    load: () => import('@/components/apps/SamChat').then(m => m.SamChat),
+    aliases: ['sam chat', 'chat', 'assistant'],
+  },
+  {
+    id: 'call-sam',
+    name: 'Call Sam',
+    description: 'Voice chat with Sam',
+    icon: Phone,
+    color: '#7c3aed',
+    category: 'assistant',
+    capabilities: ['ai', 'voice', 'microphone', 'network'],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 550, height: 700 },
+    defaultPosition: { x: 200, y: 100 },
+    load: () => import('@/components/apps/CallSam').then(m => m.CallSam),
+    loadMobile: () => import('@/components/apps/EnhancedCallSam').then(m => m.EnhancedCallSam),
+    aliases: ['call', 'voice chat'],
+  },
+  {
+    id: 'files',
+    name: 'Files',
+    description: 'File manager',
+    icon: Folder,
+    color: '#2563eb',
+    category: 'system',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 800, height: 600 },
+    defaultPosition: { x: 150, y: 120 },
+    load: () => import('@/components/apps/Files').then(m => m.Files),
+    aliases: ['file manager', 'explorer'],
+  },
+  {
+    id: 'app-forge',
+    name: 'App Forge',
+    description: 'AI-powered app builder',
+    icon: Wrench,
+    color: '#ea580c',
+    category: 'developer',
+    capabilities: ['ai', 'network', 'storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop', 'tablet'],
+    defaultSize: { width: 900, height: 700 },
+    defaultPosition: { x: 250, y: 80 },
+    load: () => import('@/components/apps/AppForge').then(m => m.AppForge),
+    aliases: ['forge', 'app builder'],
+  },
+  {
+    id: 'calendar',
+    name: 'Chrono',
+    description: 'Calendar & scheduling',
+    icon: CalendarIcon,
+    color: '#0891b2',
+    category: 'productivity',
+    capabilities: ['storage', 'notifications'],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 900, height: 600 },
+    defaultPosition: { x: 200, y: 50 },
+    load: () => import('@/components/apps/Calendar').then(m => m.Calendar),
+    aliases: ['calendar', 'schedule'],
+  },
+  {
+    id: 'settings',
+    name: 'Settings',
+    description: 'System settings & customization',
+    icon: SettingsIcon,
+    color: '#6b7280',
+    category: 'system',
+    capabilities: ['storage'],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 1000, height: 700 },
+    defaultPosition: { x: 300, y: 100 },
+    load: () => import('@/components/apps/Settings').then(m => m.Settings),
+    aliases: ['preferences', 'control panel'],
+  },
+  {
+    id: 'browser',
+    name: 'Nyx Browse',
+    description: 'Quantum web browser',
+    icon: Globe,
+    color: '#0d9488',
+    category: 'internet',
+    capabilities: ['network'],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 1000, height: 700 },
+    defaultPosition: { x: 100, y: 50 },
+    load: () => import('@/components/apps/NyxBrowser').then(m => m.NyxBrowser),
+    aliases: ['browser', 'nyx browser', 'internet'],
+  },
+  {
+    id: 'web-browser',
+    name: 'Web Browser',
+    description: 'Full-featured web browser',
+    icon: Chrome,
+    color: '#f97316',
+    category: 'internet',
+    capabilities: ['network', 'storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop'],
+    defaultSize: { width: 1200, height: 800 },
+    defaultPosition: { x: 120, y: 40 },
+    load: () => import('@/components/apps/WebBrowser').then(m => m.WebBrowser),
+  },
+  {
+    id: 'camera',
+    name: 'Camera',
+    description: 'Take photos and record video',
+    icon: Camera,
+    color: '#dc2626',
+    category: 'media',
+    capabilities: ['camera', 'microphone', 'storage'],
+    singleInstance: true,
+    deviceTypes: MOBILE_DEVICES,
+    defaultSize: { width: 800, height: 600 },
+    defaultPosition: { x: 120, y: 60 },
+    load: () => import('@/components/apps/EnhancedCameraApp').then(m => m.EnhancedCameraApp),
+  },
+  {
+    id: 'gallery',
+    name: 'Gallery',
+    description: 'Browse your photos and videos',
+    icon: Image,
+    color: '#7c3aed',
+    category: 'media',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: MOBILE_DEVICES,
+    defaultSize: { width: 900, height: 650 },
+    defaultPosition: { x: 140, y: 60 },
+    load: () => import('@/components/apps/Gallery').then(m => m.Gallery),
+    aliases: ['photos'],
+  },
+  {
+    id: 'voice-recorder',
+    name: 'Voice Recorder',
+    description: 'Record and play back audio notes',
+    icon: Mic,
+    color: '#be123c',
+    category: 'media',
+    capabilities: ['microphone', 'storage'],
+    singleInstance: false,
+    deviceTypes: MOBILE_DEVICES,
+    defaultSize: { width: 500, height: 700 },
+    defaultPosition: { x: 200, y: 80 },
+    load: () => import('@/components/apps/VoiceRecorder').then(m => m.VoiceRecorder),
+    aliases: ['recorder'],
+  },
+  {
+    id: 'runner-game',
+    name: 'Nyx Runner',
+    description: '2D infinite runner game',
+    icon: Zap,
+    color: '#eab308',
+    category: 'games',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop'],
+    defaultSize: { width: 900, height: 600 },
+    defaultPosition: { x: 120, y: 80 },
+    load: () => import('@/components/apps/InfiniteRunner').then(m => m.InfiniteRunner),
+    aliases: ['runner'],
+  },
+  {
+    id: 'flappy-game',
+    name: 'Nyx Flap',
+    description: 'Flappy bird inspired game',
+    icon: Gamepad2,
+    color: '#e11d48',
+    category: 'games',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 900, height: 600 },
+    defaultPosition: { x: 140, y: 100 },
+    load: () => import('@/components/apps/FlappyGame').then(m => m.FlappyGame),
+    aliases: ['flappy'],
+  },
+  {
+    id: 'chess-game',
+    name: 'Nyx Chess',
+    description: 'Strategic chess game',
+    icon: Crown,
+    color: '#a16207',
+    category: 'games',
+    capabilities: [],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 800, height: 700 },
+    defaultPosition: { x: 160, y: 60 },
+    load: () => import('@/components/apps/ChessGame').then(m => m.ChessGame),
+    aliases: ['chess'],
+  },
+  {
+    id: 'memory-alarms',
+    name: 'Memory',
+    description: 'Memory, alarms, and scheduling',
+    icon: Brain,
+    color: '#4f46e5',
+    category: 'productivity',
+    capabilities: ['notifications'],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 900, height: 700 },
+    defaultPosition: { x: 180, y: 40 },
+    load: () => import('@/components/apps/MemoryAlarms').then(m => m.MemoryAlarms),
+    aliases: ['alarms', 'clock', 'memories'],
+  },
+  {
+    id: 'notepad',
+    name: 'Notepad',
+    description: 'Text editor with rich features',
+    icon: FileText,
+    color: '#ca8a04',
+    category: 'productivity',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 900, height: 700 },
+    defaultPosition: { x: 200, y: 120 },
+    load: () => import('@/components/apps/Notepad').then(m => m.Notepad),
+    loadMobile: () => import('@/components/apps/EnhancedNotepad').then(m => m.EnhancedNotepad),
+    aliases: ['notes', 'text editor'],
+  },
+  {
+    id: 'calculator',
+    name: 'Calculator',
+    description: 'Scientific calculator',
+    icon: CalculatorIcon,
+    color: '#059669',
+    category: 'productivity',
+    capabilities: [],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 450, height: 700 },
+    defaultPosition: { x: 220, y: 100 },
+    load: () => import('@/components/apps/Calculator').then(m => m.Calculator),
+  },
+  {
+    id: '2048-game',
+    name: '2048',
+    description: 'Classic 2048 puzzle game',
+    icon: Grid3x3,
+    color: '#f59e0b',
+    category: 'games',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 600, height: 700 },
+    defaultPosition: { x: 240, y: 80 },
+    load: () => import('@/components/apps/Game2048').then(m => m.Game2048),
+  },
+  {
+    id: 'nyx-manual',
+    name: 'Manual',
+    description: 'Complete Nyx OS manual with shortcuts and tips',
+    icon: HelpCircle,
+    color: '#8b5cf6',
+    category: 'system',
+    capabilities: [],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 1000, height: 700 },
+    defaultPosition: { x: 260, y: 60 },
+    load: () => import('@/components/apps/NyxManual').then(m => m.NyxManual),
+    aliases: ['help', 'nyx manual'],
+  },
+  {
+    id: 'media-player',
+    name: 'Media Player',
+    description: 'Windows-style media player for all your audio needs',
+    icon: Music,
+    color: '#4338ca',
+    category: 'media',
+    capabilities: ['storage'],
+    singleInstance: true,
+    deviceTypes: ALL_DEVICES,
+    defaultSize: { width: 1000, height: 700 },
+    defaultPosition: { x: 180, y: 80 },
+    load: () => import('@/components/apps/WindowsMediaPlayer').then(m => m.WindowsMediaPlayer),
+    aliases: ['music', 'music player'],
+  },
+  {
+    id: 'document-editor',
+    name: 'Word',
+    description: 'Full-featured document editor with formatting and export',
+    icon: FileCode,
+    color: '#1d4ed8',
+    category: 'productivity',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop', 'tablet'],
+    defaultSize: { width: 1000, height: 700 },
+    defaultPosition: { x: 200, y: 100 },
+    load: () => import('@/components/apps/DocumentEditor').then(m => m.DocumentEditor),
+    aliases: ['documents', 'document editor'],
+  },
+  {
+    id: 'presentations',
+    name: 'PowerPoint',
+    description: 'Create stunning presentations with slides and animations',
+    icon: Presentation,
+    color: '#c2410c',
+    category: 'productivity',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop', 'tablet'],
+    defaultSize: { width: 1200, height: 800 },
+    defaultPosition: { x: 220, y: 120 },
+    load: () => import('@/components/apps/Presentations').then(m => m.Presentations),
+    aliases: ['presentations', 'slides'],
+  },
+  {
+    id: 'spreadsheet',
+    name: 'Excel',
+    description: 'Spreadsheet application with formulas and calculations',
+    icon: BarChart3,
+    color: '#15803d',
+    category: 'productivity',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop', 'tablet'],
+    defaultSize: { width: 1100, height: 700 },
+    defaultPosition: { x: 240, y: 100 },
+    load: () => import('@/components/apps/Spreadsheet').then(m => m.Spreadsheet),
+    aliases: ['spreadsheet', 'sheets'],
+  },
+  {
+    id: 'file-converter',
+    name: 'Converter',
+    description: 'Convert files between different formats',
+    icon: ArrowRightLeft,
+    color: '#0f766e',
+    category: 'productivity',
+    capabilities: ['storage'],
+    singleInstance: false,
+    deviceTypes: ['desktop', 'tablet'],
+    defaultSize: { width: 900, height: 700 },
+    defaultPosition: { x: 260, y: 80 },
+    load: () => import('@/components/apps/FileConverter').then(m => m.FileConverter),
+    aliases: ['file converter'],
+  },
+]
+
+// Adds an app that isn't built in (e.g. an AppForge app pinned to the desktop), replacing one with the same id
+export const registerApp = (manifest: AppManifest) => {
+  unregisterApp(manifest.id)
+  APP_MANIFESTS.push(manifest)
+}
+
+export const unregisterApp = (appId: string) => {
+  const index = APP_MANIFESTS.findIndex(app => app.id === appId)
+  if (index !== -1) APP_MANIFESTS.splice(index, 1)
+  appComponents.delete(appId)
+  appComponents.delete(`${appId}:mobile`)
+}
+
+export const getAppManifest = (appId: string): AppManifest | undefined => {
+  return APP_MANIFESTS.find(app => app.id === appId)
+}
+
+export const getAppsForDevice = (deviceType: DeviceType): AppManifest[] => {
+  return APP_MANIFESTS.filter(app => app.deviceTypes.includes(deviceType))
+}
+
+// Matches a spoken or typed app name ("open the browser") against names, ids and aliases
+export const findAppByName = (query: string): AppManifest | undefined => {
+  const text = query.toLowerCase().trim()
+  if (!text) return undefined
+
+  const names = (app: AppManifest) => [app.name, app.id, ...(app.aliases || [])].map(n => n.toLowerCase())
+  return (
+    APP_MANIFESTS.find(app => names(app).includes(text)) ||
+    APP_MANIFESTS.find(app => names(app).some(name => text.includes(name)))
+  )
+}
+
+const isMobileDevice = (deviceType?: DeviceType) => deviceType === 'phone' || deviceType === 'tablet'
+
+// Lazy components are cached per variant so every launcher and restored window renders the same type
+const appComponents = new Map<string, React.ComponentType<any>>()
+
+export const getAppComponent = (app: AppManifest, deviceType?: DeviceType): React.ComponentType<any> => {
+  const useMobile = isMobileDevice(deviceType) && !!app.loadMobile
+  const cacheKey = useMobile ? `${app.id}:mobile` : app.id
+  const cached = appComponents.get(cacheKey)
+  if (cached) return cached
+
+  const loader = useMobile ? app.loadMobile! : app.load
+  const LazyComponent = React.lazy(() => loader().then(component => ({ default: component })))
+  const AppComponent = (props: any) => (
+    <AppErrorBoundary appName={app.name}>
+      <Suspense
+        fallback={
+          <div className="flex items-center justify-center h-full text-white/60 text-sm">
+            Loading {app.name}...
+          </div>
+        }
+      >
+        <LazyComponent {...props} />
+      </Suspense>
+    </AppErrorBoundary>
+  )
+  appComponents.set(cacheKey, AppComponent)
+  return AppComponent
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { eventsOn, findConflicts, migrateEvent, type CalendarEvent } from "./calendar";
+
+// 2024-06-03 is a Monday
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: "e1",
+  title: "Standup",
+  date: new Date(2024, 5, 3),
+  startTime: "09:00",
+  endTime: "09:30",
+  type: "meeting",
+  priority: "medium",
+  status: "upcoming",
+  created: new Date(2024, 0, 1),
+  modified: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+describe("migrateEvent", () => {
+  it("reads Sam's old schedule entries", () => {
+    const migrated = migrateEvent({
+      id: "s1",
+      title: "Dentist",
+      startTime: new Date(2099, 0, 5, 14, 30).toISOString(),
+      endTime: new Date(2099, 0, 5, 15, 15).toISOString(),
+      category: "personal",
+      priority: "high",
+    });
+    expect(migrated).toMatchObject({
+      id: "s1",
+      date: new Date(2099, 0, 5),
+      startTime: "14:30",
+      endTime: "15:15",
+      type: "personal",
+      priority: "high",
+      status: "upcoming",
+    });
+  });
+
+  it("turns the Calendar's old recurrence flags into an RRULE and revives dates", () => {
+    const stored = JSON.parse(JSON.stringify({ ...event({}), isRecurring: true, recurrenceType: "weekly" }));
+    const migrated = migrateEvent(stored);
+    expect(migrated.rrule).toBe("FREQ=WEEKLY");
+    expect(migrated.date).toEqual(new Date(2024, 5, 3));
+    expect(migrated).not.toHaveProperty("isRecurring");
+  });
+});
+
+describe("findConflicts", () => {
+  const standup = event({ rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" });
+
+  it("finds overlapping occurrences of recurring events", () => {
+    const review = event({ id: "e2", title: "Review", date: new Date(2024, 5, 12), startTime: "09:15", endTime: "10:00" });
+    expect(findConflicts([standup], review).map((c) => c.start)).toEqual([new Date(2024, 5, 12, 9, 0)]);
+    expect(findConflicts([standup], { ...review, startTime: "09:30" })).toEqual([]); // back to back is fine
+    expect(findConflicts([standup], { ...review, date: new Date(2024, 5, 15) })).toEqual([]); // Saturday
+  });
+
+  it("ignores all-day and cancelled events", () => {
+    const offsite = event({ id: "e2", isAllDay: true });
+    const cancelled = event({ id: "e3", status: "cancelled" });
+    expect(findConflicts([offsite, cancelled], event({ id: "e4" }))).toEqual([]);
+  });
+
+  it("sees events that run past midnight", () => {
+    const party = event({ id: "e2", date: new Date(2024, 5, 7), startTime: "22:00", endTime: "01:00" });
+    const early = event({ id: "e3", date: new Date(2024, 5, 8), startTime: "00:30", endTime: "02:00" });
+    expect(findConflicts([party], early)).toHaveLength(1);
+  });
+});
+
+describe("eventsOn", () => {
+  it("lists the day's occurrences with all-day events first", () => {
+    const events = [
+      event({ id: "late", title: "Late", startTime: "16:00", endTime: "17:00" }),
+      event({ id: "daily", rrule: "FREQ=DAILY", exdates: ["2024-06-05"] }),
+      event({ id: "holiday", title: "Holiday", date: new Date(2024, 5, 4), isAllDay: true }),
+    ];
+    expect(eventsOn(events, new Date(2024, 5, 3)).map((e) => e.id)).toEqual(["daily", "late"]);
+    expect(eventsOn(events, new Date(2024, 5, 4, 12)).map((e) => e.id)).toEqual(["holiday", "daily"]);
+    expect(eventsOn(events, new Date(2024, 5, 5))).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import { dateKey, expandOccurrences, legacyRRule, parseRRule, RecurrenceError, type RecurrenceRule } from '@/lib/recurrence'
+import type { IcsEvent } from '@/lib/icalendar'
+
+// The one event model shared by the Calendar app, Sam and the scheduler, with
+// the conversions from the shapes events used to be stored in.
+
+export type EventType = 'meeting' | 'reminder' | 'task' | 'personal' | 'work' | 'appointment'
+export type EventPriority = 'low' | 'medium' | 'high' | 'urgent'
+export type EventStatus = 'upcoming' | 'completed' | 'cancelled'
+
+export interface CalendarEvent {
+  id: string
+  title: string
+  description?: string
+  date: Date // day of the first occurrence
+  startTime: string // HH:MM
+  endTime: string // HH:MM, before startTime when the event runs past midnight
+  type: EventType
+  priority: EventPriority
+  location?: string
+  attendees?: string[]
+  rrule?: string // RFC 5545 RRULE
+  exdates?: string[] // skipped occurrences, YYYY-MM-DD
+  reminders?: number[] // minutes before
+  status: EventStatus
+  color?: string
+  isAllDay?: boolean
+  created: Date
+  modified: Date
+}
+
+/** How Sam's store kept events before they moved to the calendar */
+export interface LegacyScheduleEvent {
+  id: string
+  title: string
+  description?: string
+  startTime: Date | string
+  endTime: Date | string
+  category: 'work' | 'personal' | 'reminder' | 'meeting'
+  priority: 'low' | 'medium' | 'high'
+}
+
+export interface EventConflict {
+  event: CalendarEvent // the clashing occurrence
+  start: Date
+  end: Date
+}
+
+export const EVENT_TYPES: EventType[] = ['meeting', 'work', 'personal', 'reminder', 'task', 'appointment']
+
+const DAY = 86400000
+const CONFLICT_HORIZON_DAYS = 366 // how far ahead recurring events are checked against each other
+
+const pad = (value: number) => String(value).padStart(2, '0')
+export const formatTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+export const withTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours || 0, minutes || 0)
+}
+
+const isScheduleEvent = (raw: any): raw is LegacyScheduleEvent =>
+  raw && typeof raw.category === 'string' && !raw.type && !Number.isNaN(Date.parse(raw.startTime))
+
+export const fromScheduleEvent = (legacy: LegacyScheduleEvent): CalendarEvent => {
+  const start = new Date(legacy.startTime)
+  const end = new Date(legacy.endTime)
+  const now = new Date()
+  return {
+    id: legacy.id,
+    title: legacy.title,
+    description: legacy.description,
+    date: new Date(start.getFullYear(), start.getMonth(), start.getDate()),
+    startTime: formatTime(start),
+    endTime: formatTime(end),
+    type: legacy.category,
+    priority: legacy.priority,
+    reminders: [15],
+    status: end < now ? 'completed' : 'upcoming',
+    created: now,
+    modified: now,
+  }
+}
+
+/**
+ * Turns stored JSON back into an event: the Calendar's own format, including
+ * files from before RRULE support, or one of Sam's old schedule entries
+ */
+export const migrateEvent = (raw: any): CalendarEvent => {
+  if (isScheduleEvent(raw)) return fromScheduleEvent(raw)
+  const { isRecurring, recurrenceType, ...event } = raw
+  return {
+    ...event,
+    rrule: event.rrule ?? (isRecurring && recurrenceType ? legacyRRule(recurrenceType) : undefined),
+    date: new Date(event.date),
+    created: new Date(event.created ?? Date.now()),
+    modified: new Date(event.modified ?? Date.now()),
+  }
+}
+
+export const ruleOf = (event: Pick<CalendarEvent, 'rrule'>): RecurrenceRule | null => {
+  if (!event.rrule) return null
+  try {
+    return parseRRule(event.rrule)
+  } catch (error) {
+    if (!(error instanceof RecurrenceError)) throw error
+    return null
+  }
+}
+
+/** Start and end of the occurrence on `day` (all-day events span the whole day) */
+export const occurrenceTimes = (event: CalendarEvent, day: Date = event.date) => {
+  if (event.isAllDay) {
+    const start = new Date(day.getFullYear(), day.getMonth(), day.getDate())
+    return { start, end: new Date(start.getTime() + DAY) }
+  }
+  const start = withTime(day, event.startTime)
+  let end = withTime(day, event.endTime)
+  if (end < start) end = new Date(end.getTime() + DAY)
+  return { start, end }
+}
+
+// Each occurrence is a copy of its event with `date` moved to that occurrence
+export const occurrencesBetween = (events: CalendarEvent[], from: Date, to: Date): CalendarEvent[] =>
+  events.flatMap(event =>
+    expandOccurrences(withTime(new Date(event.date), event.isAllDay ? '00:00' : event.startTime), ruleOf(event), from, to, event.exdates)
+      .map(start => ({ ...event, date: start }))
+  )
+
+export const occurrenceKey = (event: CalendarEvent) => `${event.id}-${dateKey(event.date)}`
+
+/** The day's occurrences in start order, what "what's on today" answers from */
+export const eventsOn = (events: CalendarEvent[], day: Date) => {
+  const from = new Date(day.getFullYear(), day.getMonth(), day.getDate())
+  const to = new Date(from.getTime() + DAY - 1)
+  return occurrencesBetween(events, from, to).sort((a, b) =>
+    a.isAllDay === b.isAllDay ? a.startTime.localeCompare(b.startTime) : a.isAllDay ? -1 : 1
+  )
+}
+
+/** Plain-text agenda for `days` days from `from`, one line per occurrence */
+export const agendaText = (events: CalendarEvent[], from: Date, days = 1) => {
+  const lines: string[] = []
+  for (let i = 0; i < days; i++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + i)
+    const label = day.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+    const listed = eventsOn(events, day).filter(e => e.status !== 'cancelled')
+    if (!listed.length) {
+      lines.push(`${label}: nothing scheduled`)
+      continue
+    }
+    listed.forEach(e => {
+      const when = e.isAllDay ? 'all day' : `${e.startTime}–${e.endTime}`
+      lines.push(`${label} ${when}: ${e.title}${e.location ? ` (${e.location})` : ''}`)
+    })
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Timed occurrences of other events that overlap the candidate's. Cancelled
+ * and all-day events never conflict; recurring candidates are checked a year ahead.
+ */
+export const findConflicts = (events: CalendarEvent[], candidate: CalendarEvent): EventConflict[] => {
+  if (candidate.isAllDay || candidate.status === 'cancelled') return []
+  const from = new Date(candidate.date.getFullYear(), candidate.date.getMonth(), candidate.date.getDate())
+  const to = new Date(from.getTime() + (candidate.rrule ? CONFLICT_HORIZON_DAYS : 1) * DAY)
+  const others = events.filter(e => e.id !== candidate.id && e.status !== 'cancelled' && !e.isAllDay)
+  // A day of slack so events running past midnight are seen from both sides
+  const nearby = occurrencesBetween(others, new Date(from.getTime() - DAY), to)
+
+  const conflicts: EventConflict[] = []
+  occurrencesBetween([candidate], from, to).forEach(occurrence => {
+    const mine = occurrenceTimes(candidate, occurrence.date)
+    nearby.forEach(other => {
+      const theirs = occurrenceTimes(other, other.date)
+      if (mine.start < theirs.end && theirs.start < mine.end) conflicts.push({ event: other, ...theirs })
+    })
+  })
+  return conflicts.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+export const describeConflicts = (conflicts: EventConflict[], limit = 3) => {
+  const listed = conflicts
+    .slice(0, limit)
+    .map(c => `"${c.event.title}" (${c.start.toLocaleDateString()} ${formatTime(c.start)}–${formatTime(c.end)})`)
+  const more = conflicts.length > limit ? ` and ${conflicts.length - limit} more` : ''
+  return `${listed.join(', ')}${more}`
+}
+
+// --- iCalendar ---
+
+const ICS_PRIORITY: Record<EventPriority, number> = { urgent: 1, high: 3, medium: 5, low: 9 }
+
+export const toIcsEvent = (event: CalendarEvent): IcsEvent => {
+  const { start, end } = occurrenceTimes(event, new Date(event.date))
+  return {
+    uid: event.id.includes('@') ? event.id : `${event.id}@nyx-os`,
+    summary: event.title,
+    description: event.description || undefined,
+    location: event.location || undefined,
+    start,
+    end,
+    allDay: Boolean(event.isAllDay),
+    rrule: event.rrule,
+    exdates: event.exdates,
+    status: event.status === 'cancelled' ? 'cancelled' : 'confirmed',
+    categories: [event.type],
+    attendees: event.attendees,
+    reminders: event.reminders,
+    priority: ICS_PRIORITY[event.priority],
+    created: new Date(event.created),
+    modified: new Date(event.modified),
+  }
+}
+
+export const fromIcsEvent = (ics: IcsEvent): CalendarEvent => {
+  const type = ics.categories?.map(c => c.toLowerCase()).find(c => EVENT_TYPES.includes(c as EventType)) as EventType
+  const priority = !ics.priority ? 'medium' : ics.priority <= 2 ? 'urgent' : ics.priority <= 4 ? 'high' : ics.priority <= 6 ? 'medium' : 'low'
+  const now = new Date()
+  return {
+    id: ics.uid.replace(/@nyx-os$/, ''),
+    title: ics.summary || 'Untitled event',
+    description: ics.description,
+    date: ics.start,
+    startTime: ics.allDay ? '00:00' : formatTime(ics.start),
+    endTime: ics.allDay ? '23:59' : formatTime(ics.end),
+    type: type ?? (ics.attendees?.length ? 'meeting' : 'personal'),
+    priority,
+    location: ics.location,
+    attendees: ics.attendees,
+    rrule: ics.rrule,
+    exdates: ics.exdates?.length ? ics.exdates : undefined,
+    reminders: ics.reminders,
+    status: ics.status === 'cancelled' ? 'cancelled' : 'upcoming',
+    isAllDay: ics.allDay,
+    created: ics.created ?? now,
+    modified: ics.modified ?? now,
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  BASE_LOCKOUT_MS,
+  MAX_LOCKOUT_MS,
+  generateRecoveryCode,
+  hashSecret,
+  lockoutDuration,
+  normalizeRecoveryCode,
+  patternSecret,
+  verifySecret,
+} from "./credentials";
+
+describe("credential hashes", () => {
+  it("verifies the secret that was hashed and nothing else", async () => {
+    const stored = await hashSecret("2468", 1000);
+    expect(stored.hash).not.toContain("2468");
+    expect(await verifySecret("2468", stored)).toBe(true);
+    expect(await verifySecret("2469", stored)).toBe(false);
+    expect(await verifySecret("", stored)).toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    const [a, b] = await Promise.all([hashSecret("2468", 1000), hashSecret("2468", 1000)]);
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.hash).not.toBe(b.hash);
+  });
+
+  it("tells patterns apart by the order of their dots", () => {
+    expect(patternSecret([0, 1, 2, 5])).not.toBe(patternSecret([5, 2, 1, 0]));
+    expect(patternSecret([1, 11])).not.toBe(patternSecret([11, 1]));
+  });
+});
+
+describe("recovery codes", () => {
+  it("are four groups without look-alike characters", () => {
+    const code = generateRecoveryCode();
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{4}(-[A-HJ-NP-Z2-9]{4}){3}$/);
+    expect(generateRecoveryCode()).not.toBe(code);
+  });
+
+  it("accept sloppy typing", () => {
+    expect(normalizeRecoveryCode("abcd efgh-jkLM  npqr")).toBe("ABCD-EFGH-JKLM-NPQR");
+    expect(normalizeRecoveryCode("ABCDEFGHJKLMNPQR")).toBe("ABCD-EFGH-JKLM-NPQR");
+  });
+});
+
+describe("lockout backoff", () => {
+  it("starts at the limit and doubles up to a cap", () => {
+    expect(lockoutDuration(4, 5)).toBe(0);
+    expect(lockoutDuration(5, 5)).toBe(BASE_LOCKOUT_MS);
+    expect(lockoutDuration(6, 5)).toBe(BASE_LOCKOUT_MS * 2);
+    expect(lockoutDuration(8, 5)).toBe(BASE_LOCKOUT_MS * 8);
+    expect(lockoutDuration(30, 5)).toBe(MAX_LOCKOUT_MS);
+  });
+});
@@ -0,0 +1,65 @@
+// Lock screen secrets are never stored, only salted PBKDF2 hashes of them
+// (WebCrypto), plus the lockout policy for repeated wrong guesses.
+
+export interface CredentialHash {
+  algorithm: 'PBKDF2-SHA256'
+  iterations: number
+  salt: string // base64
+  hash: string // base64
+}
+
+export const PBKDF2_ITERATIONS = 600_000
+const SALT_BYTES = 16
+const HASH_BITS = 256
+
+export const BASE_LOCKOUT_MS = 30_000
+export const MAX_LOCKOUT_MS = 60 * 60_000
+
+// No 0/O or 1/I, so codes survive being written down
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const RECOVERY_GROUPS = 4
+const RECOVERY_GROUP_LENGTH = 4
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0))
+
+const derive = async (secret: string, salt: BufferSource, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS)
+  return new Uint8Array(bits)
+}
+
+export const hashSecret = async (secret: string, iterations = PBKDF2_ITERATIONS): Promise<CredentialHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  return { algorithm: 'PBKDF2-SHA256', iterations, salt: toBase64(salt), hash: toBase64(await derive(secret, salt, iterations)) }
+}
+
+export const verifySecret = async (secret: string, stored: CredentialHash) => {
+  const expected = fromBase64(stored.hash)
+  const actual = await derive(secret, fromBase64(stored.salt), stored.iterations)
+  // Compare every byte so the time taken doesn't hint at how much matched
+  let difference = expected.length ^ actual.length
+  for (let i = 0; i < expected.length; i++) difference |= expected[i] ^ actual[i]
+  return difference === 0
+}
+
+/** The string a pattern (the order the dots were joined in) is hashed as */
+export const patternSecret = (pattern: number[]) => pattern.join('-')
+
+export const generateRecoveryCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_GROUPS * RECOVERY_GROUP_LENGTH))
+  const chars = Array.from(bytes, byte => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length]) // 256 is a multiple of 32
+  return Array.from({ length: RECOVERY_GROUPS }, (_, i) =>
+    chars.slice(i * RECOVERY_GROUP_LENGTH, (i + 1) * RECOVERY_GROUP_LENGTH).join('')
+  ).join('-')
+}
+
+/** Accepts codes typed in lowercase, without dashes or with spaces */
+export const normalizeRecoveryCode = (code: string) => {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return chars.match(new RegExp(`.{1,${RECOVERY_GROUP_LENGTH}}`, 'g'))?.join('-') ?? ''
+}
+
+/** How long to refuse attempts after `failedAttempts` wrong ones: doubling from the limit on */
+export const lockoutDuration = (failedAttempts: number, maxFailedAttempts: number) =>
+  failedAttempts < maxFailedAttempts ? 0 : Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - maxFailedAttempts), MAX_LOCKOUT_MS)
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { decodeText, detectDelimiter, parseDelimited, serializeDelimited } from "./csv";
+import { FormulaEngine, columnName } from "./formula-engine";
+
+const tricky = [
+  ["name", "note", "amount"],
+  ["Smith, John", 'said "hi"', "1,200.50"],
+  ["multi\nline", "", " padded "],
+  ["", "", ""],
+  ["ünïcödé", "emoji 🎉", "=SUM(A1:A2)"],
+];
+
+describe("parseDelimited", () => {
+  it("parses quoted fields, escaped quotes and embedded line breaks", () => {
+    const { rows } = parseDelimited('a,"b,c","say ""hi"""\r\n"line\r\nbreak",2,3\r\n');
+    expect(rows).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["line\r\nbreak", "2", "3"],
+    ]);
+  });
+
+  it("keeps empty fields and strips a byte order mark", () => {
+    const { rows } = parseDelimited('\uFEFFa,,c\n,,\n""');
+    expect(rows).toEqual([["a", "", "c"], ["", "", ""], [""]]);
+  });
+
+  it("detects tab, semicolon and comma delimiters", () => {
+    expect(detectDelimiter("a\tb\tc\n1\t2\t3")).toBe("\t");
+    expect(detectDelimiter("a;b;c\n1,5;2,5;3")).toBe(";");
+    expect(detectDelimiter('a,b\n"x;y",2')).toBe(",");
+  });
+});
+
+describe("CSV round-trip", () => {
+  it.each([
+    [",", "CSV"],
+    ["\t", "TSV"],
+  ] as const)("serializes and re-parses %j (%s) without loss", (delimiter, _label) => {
+    const text = serializeDelimited(tricky, { delimiter });
+    const { rows, delimiter: detected } = parseDelimited(text);
+    expect(detected).toBe(delimiter);
+    expect(rows).toEqual(tricky);
+  });
+
+  it("exports literals as typed and formulas as their values after a trip through the formula engine", () => {
+    const { rows } = parseDelimited("zip,card,price,total\n02134,4111111111111111,1.50,=C2*2\n007,12345678901234567890,0.1,=C3+0.2\n");
+    const engine = new FormulaEngine();
+    const cells: Record<string, string> = {};
+    rows.forEach((row, r) => row.forEach((value, c) => { cells[`${columnName(c)}${r + 1}`] = value; }));
+    engine.setCells("Sheet1", cells);
+
+    const exported = rows.map((row, r) => row.map((_, c) => engine.getExportValue("Sheet1", `${columnName(c)}${r + 1}`)));
+    expect(parseDelimited(serializeDelimited(exported)).rows).toEqual([
+      ["zip", "card", "price", "total"],
+      ["02134", "4111111111111111", "1.50", "3"],
+      ["007", "12345678901234567890", "0.1", "0.3"],
+    ]);
+  });
+
+  it("quotes only the fields that need it", () => {
+    expect(serializeDelimited([["plain", "a,b", 'q"', " x"]])).toBe('plain,"a,b","q"""," x"');
+  });
+});
+
+describe("decodeText", () => {
+  it("detects UTF-8 with and without a BOM", () => {
+    const bytes = new TextEncoder().encode("café");
+    expect(decodeText(bytes)).toEqual({ text: "café", encoding: "utf-8" });
+    expect(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]))).toEqual({ text: "café", encoding: "utf-8" });
+  });
+
+  it("decodes UTF-16 with a BOM and falls back to Windows-1252", () => {
+    expect(decodeText(new Uint8Array([0xff, 0xfe, 0x61, 0x00, 0x2c, 0x00, 0x62, 0x00])).text).toBe("a,b");
+    expect(decodeText(new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toEqual({ text: "café", encoding: "windows-1252" });
+  });
+});
@@ -0,0 +1,187 @@
+// Delimited text (CSV/TSV) parsing and serialization following RFC 4180:
+// fields containing the delimiter, quotes or line breaks are wrapped in double quotes
+// and embedded quotes are doubled.
+
+export type Delimiter = ',' | '\t' | ';' | '|'
+
+export const DELIMITERS: { value: Delimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' },
+]
+
+export interface ParseOptions {
+  delimiter?: Delimiter
+}
+
+export interface ParseResult {
+  rows: string[][]
+  delimiter: Delimiter
+}
+
+export interface SerializeOptions {
+  delimiter?: Delimiter
+  newline?: '\r\n' | '\n'
+}
+
+export interface DecodedText {
+  text: string
+  encoding: string
+}
+
+const BOM = '\uFEFF'
+
+// Counts delimiter occurrences per line, ignoring anything inside quotes
+const countPerLine = (sample: string, delimiter: string): number[] => {
+  const counts: number[] = []
+  let count = 0
+  let inQuotes = false
+
+  for (let i = 0; i < sample.length; i++) {
+    const ch = sample[i]
+    if (ch === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && ch === delimiter) {
+      count++
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      if (ch === '\r' && sample[i + 1] === '\n') i++
+      counts.push(count)
+      count = 0
+    }
+  }
+  if (count > 0 || counts.length === 0) counts.push(count)
+  return counts
+}
+
+// Picks the delimiter that appears most consistently across the first lines
+export const detectDelimiter = (text: string): Delimiter => {
+  const sample = text.slice(0, 64 * 1024)
+  let best: Delimiter = ','
+  let bestScore = 0
+
+  for (const { value } of DELIMITERS) {
+    const counts = countPerLine(sample, value).slice(0, 20)
+    const frequency = new Map<number, number>()
+    counts.filter(c => c > 0).forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1))
+    if (frequency.size === 0) continue
+    const [mode, consistent] = [...frequency.entries()].sort((a, b) => b[1] - a[1])[0]
+    const score = (consistent / counts.length) * 1000 + mode
+    if (score > bestScore) {
+      best = value
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+export const parseDelimited = (input: string, options: ParseOptions = {}): ParseResult => {
+  const text = input.startsWith(BOM) ? input.slice(1) : input
+  const delimiter = options.delimiter ?? detectDelimiter(text)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quoted = false
+  let i = 0
+
+  const endField = () => {
+    row.push(field)
+    field = ''
+    quoted = false
+  }
+  const endRow = () => {
+    endField()
+    rows.push(row)
+    row = []
+  }
+
+  while (i < text.length) {
+    const ch = text[i]
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += ch
+      }
+      i++
+      continue
+    }
+
+    if (ch === '"' && field === '' && !quoted) {
+      inQuotes = true
+      quoted = true
+    } else if (ch === delimiter) {
+      endField()
+    } else if (ch === '\r' || ch === '\n') {
+      endRow()
+      if (ch === '\r' && text[i + 1] === '\n') i++
+    } else {
+      field += ch
+    }
+    i++
+  }
+
+  // A trailing line break does not start another record
+  if (field !== '' || row.length > 0 || quoted) endRow()
+
+  return { rows, delimiter }
+}
+
+const needsQuoting = (field: string, delimiter: string) =>
+  field.includes(delimiter) ||
+  field.includes('"') ||
+  field.includes('\n') ||
+  field.includes('\r') ||
+  field !== field.trim()
+
+export const serializeDelimited = (rows: string[][], options: SerializeOptions = {}): string => {
+  const delimiter = options.delimiter ?? ','
+  const newline = options.newline ?? '\r\n'
+
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          const field = value == null ? '' : String(value)
+          return needsQuoting(field, delimiter) ? `"${field.replace(/"/g, '""')}"` : field
+        })
+        .join(delimiter),
+    )
+    .join(newline)
+}
+
+// Decodes file bytes, honouring a byte order mark and falling back to Windows-1252
+// for files that are not valid UTF-8 (typical of older spreadsheet exports).
+export const decodeText = (buffer: ArrayBuffer | Uint8Array): DecodedText => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' }
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' }
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' }
+  }
+}
+
+export const delimiterForFile = (fileName: string): Delimiter | undefined => {
+  const ext = fileName.split('.').pop()?.toLowerCase()
+  if (ext === 'tsv' || ext === 'tab') return '\t'
+  return undefined
+}
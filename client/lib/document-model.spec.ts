@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  documentToHtmlBody,
+  documentToMarkdown,
+  htmlToDocument,
+  htmlToRuns,
+  imageBlock,
+  markdownToDocument,
+  normalizeRuns,
+  pageBreakBlock,
+  runsToHtml,
+  runsToMarkdown,
+  tableBlock,
+  textBlock,
+} from "./document-model";
+import { parseHtml } from "./html";
+import { createDocument, parseDocument, serializeDocument } from "./native-formats";
+
+describe("runs", () => {
+  it("merges neighbouring runs with the same formatting and drops empty ones", () => {
+    expect(normalizeRuns([{ text: "a", bold: true }, { text: "" }, { text: "b", bold: true }, { text: "c" }])).toEqual([
+      { text: "ab", bold: true },
+      { text: "c" },
+    ]);
+  });
+
+  it("only stores runs on text blocks that have formatting", () => {
+    expect(textBlock("paragraph", [{ text: "plain " }, { text: "text" }])).toEqual({ type: "paragraph", content: "plain text" });
+    expect(textBlock("paragraph", [{ text: "a " }, { text: "b", italic: true }]).runs).toEqual([
+      { text: "a " },
+      { text: "b", italic: true },
+    ]);
+  });
+
+  it("reads the markup a contentEditable produces", () => {
+    const runs = htmlToRuns(parseHtml('Hi <b>there</b>, <i>see <a href="https://nyx.dev">this</a></i><br>next&nbsp;line'));
+    expect(runs).toEqual([
+      { text: "Hi " },
+      { text: "there", bold: true },
+      { text: ", " },
+      { text: "see ", italic: true },
+      { text: "this", italic: true, link: "https://nyx.dev" },
+      { text: "\nnext line" },
+    ]);
+  });
+
+  it("drops unsafe links", () => {
+    expect(htmlToRuns(parseHtml('<a href="javascript:alert(1)">x</a>'))).toEqual([{ text: "x" }]);
+    expect(runsToHtml([{ text: "x", link: "javascript:alert(1)" }])).toBe("x");
+  });
+
+  it("drops javascript: links disguised with control characters", () => {
+    const disguised = ["\u0001javascript:alert(1)", "java\tscript:alert(1)", "JaVaScRiPt:alert(1)"];
+    disguised.forEach(href => {
+      expect(htmlToRuns(parseHtml(`<a href="${href}">x</a>`))).toEqual([{ text: "x" }]);
+      expect(runsToHtml([{ text: "x", link: href }])).toBe("x");
+      expect(runsToMarkdown([{ text: "x", link: href }])).toBe("x");
+    });
+    const doc = markdownToDocument("[x](\u0001javascript:alert(1)) and [y](https://nyx.dev)", "Spec");
+    expect(doc.blocks[0].runs?.filter(run => run.link)).toEqual([{ text: "y", link: "https://nyx.dev" }]);
+    expect(documentToMarkdown(doc)).not.toMatch(/script:/i);
+  });
+
+  it("renders runs as escaped inline HTML", () => {
+    expect(runsToHtml([{ text: "<a> & ", bold: true }, { text: "b", italic: true, link: "https://nyx.dev" }])).toBe(
+      '<strong>&lt;a&gt; &amp; </strong><a href="https://nyx.dev"><em>b</em></a>'
+    );
+  });
+});
+
+describe("document model", () => {
+  const doc = createDocument("Report", [
+    textBlock("heading1", [{ text: "Report" }]),
+    textBlock("paragraph", [{ text: "Some " }, { text: "bold", bold: true }, { text: " and " }, { text: "italic", italic: true }, { text: " with " }, { text: "a link", link: "https://nyx.dev" }, { text: "." }]),
+    textBlock("list", [{ text: "One" }]),
+    textBlock("list", [{ text: "Two" }]),
+    tableBlock([
+      [[{ text: "Name" }], [{ text: "Qty" }]],
+      [[{ text: "Apples", bold: true }], [{ text: "3" }]],
+    ]),
+    imageBlock("https://nyx.dev/chart.png", "Chart"),
+    pageBreakBlock(),
+    textBlock("paragraph", [{ text: "Appendix" }], { alignment: "center" }),
+  ]);
+
+  it("writes Markdown with inline formatting, tables, images and page breaks", () => {
+    expect(documentToMarkdown(doc)).toBe(
+      [
+        "# Report",
+        "",
+        "Some **bold** and *italic* with [a link](https://nyx.dev).",
+        "",
+        "- One",
+        "- Two",
+        "",
+        "| Name | Qty |",
+        "| --- | --- |",
+        "| **Apples** | 3 |",
+        "",
+        "![Chart](https://nyx.dev/chart.png)",
+        "",
+        "---",
+        "",
+        "Appendix",
+      ].join("\n")
+    );
+  });
+
+  it("reads its own Markdown back", () => {
+    const imported = markdownToDocument(documentToMarkdown(doc), "Report");
+    expect(imported.blocks.map(block => block.type)).toEqual([
+      "heading1", "paragraph", "list", "list", "table", "image", "page-break", "paragraph",
+    ]);
+    expect(imported.blocks[1].runs).toEqual(doc.blocks[1].runs);
+    expect(imported.blocks[4].rows).toEqual(doc.blocks[4].rows);
+    expect(imported.blocks[5]).toMatchObject({ src: "https://nyx.dev/chart.png", alt: "Chart" });
+  });
+
+  it("keeps alignment and page breaks in HTML", () => {
+    const html = documentToHtmlBody(doc);
+    expect(html).toContain('<p style="text-align: center">Appendix</p>');
+    expect(html).toContain('<div style="page-break-after: always"></div>');
+    expect(html).toContain("<ul>\n<li>One</li>\n<li>Two</li>\n</ul>");
+    expect(htmlToDocument(html, "Report").blocks).toEqual(doc.blocks);
+  });
+
+  it("keeps code blocks as a single code run", () => {
+    const imported = markdownToDocument("```\nconst a = 1\nconst b = 2\n```", "Code");
+    expect(imported.blocks).toEqual([
+      { type: "paragraph", content: "const a = 1\nconst b = 2", runs: [{ text: "const a = 1\nconst b = 2", code: true }] },
+    ]);
+  });
+
+  it("round-trips through the .nyxdoc format and still opens version 1 files", () => {
+    expect(parseDocument(serializeDocument(doc))).toEqual(doc);
+
+    const legacy = parseDocument(JSON.stringify({
+      format: "nyx-document",
+      version: 1,
+      name: "Old",
+      blocks: [{ type: "paragraph", content: "Plain text" }],
+    }));
+    expect(legacy.blocks).toEqual([{ type: "paragraph", content: "Plain text" }]);
+    expect(documentToMarkdown(legacy)).toBe("Plain text");
+  });
+});
@@ -0,0 +1,278 @@
+import { escapeHtml, escapeMarkdown, markdownToHtml, safeUrl } from '@/lib/markdown'
+import { parseHtml, type HtmlElement, type HtmlNode } from '@/lib/html'
+import { createDocument, type DocumentBlockType, type NyxDocument, type NyxDocumentBlock, type TextRun } from '@/lib/native-formats'
+
+// Working with the blocks of a Nyx document: building them, reading their
+// inline formatting from HTML, and writing them out as HTML or Markdown.
+
+type Marks = Omit<TextRun, 'text'>
+
+const MARKS = ['bold', 'italic', 'underline', 'strike', 'code'] as const
+
+const sameFormat = (a: Marks, b: Marks) => MARKS.every(mark => !!a[mark] === !!b[mark]) && (a.link || '') === (b.link || '')
+
+const isPlain = (run: TextRun) => MARKS.every(mark => !run[mark]) && !run.link
+
+/** Drops empty runs and merges neighbours with the same formatting */
+export const normalizeRuns = (runs: TextRun[]): TextRun[] =>
+  runs.reduce<TextRun[]>((merged, run) => {
+    if (!run.text) return merged
+    const last = merged[merged.length - 1]
+    if (last && sameFormat(last, run)) merged[merged.length - 1] = { ...last, text: last.text + run.text }
+    else merged.push({ ...run })
+    return merged
+  }, [])
+
+export const runsText = (runs: TextRun[]) => runs.map(run => run.text).join('')
+
+export const blockRuns = (block: NyxDocumentBlock): TextRun[] =>
+  block.runs ?? (block.content ? [{ text: block.content }] : [])
+
+/** A text block; runs are only stored when some of the text is formatted */
+export const textBlock = (type: DocumentBlockType, runs: TextRun[], style?: Record<string, unknown>): NyxDocumentBlock => {
+  const normalized = normalizeRuns(runs)
+  return {
+    type,
+    content: runsText(normalized),
+    ...(normalized.every(isPlain) ? {} : { runs: normalized }),
+    ...(style ? { style } : {}),
+  }
+}
+
+export const tableBlock = (rows: TextRun[][][]): NyxDocumentBlock => ({
+  type: 'table',
+  content: rows.map(row => row.map(runsText).join('\t')).join('\n'),
+  rows: rows.map(row => row.map(normalizeRuns)),
+})
+
+export const imageBlock = (src: string, alt = ''): NyxDocumentBlock => ({ type: 'image', content: alt, src, alt })
+
+export const pageBreakBlock = (): NyxDocumentBlock => ({ type: 'page-break', content: '' })
+
+export const isTextBlock = (block: NyxDocumentBlock) =>
+  block.type !== 'table' && block.type !== 'image' && block.type !== 'page-break'
+
+// ---------------------------------------------------------------------------
+// HTML
+
+export const runsToHtml = (runs: TextRun[]) =>
+  runs.map(run => {
+    let html = escapeHtml(run.text).replace(/\n/g, '<br>')
+    if (run.code) html = `<code>${html}</code>`
+    if (run.bold) html = `<strong>${html}</strong>`
+    if (run.italic) html = `<em>${html}</em>`
+    if (run.underline) html = `<u>${html}</u>`
+    if (run.strike) html = `<s>${html}</s>`
+    const href = run.link && safeUrl(run.link)
+    if (href) html = `<a href="${escapeHtml(href)}">${html}</a>`
+    return html
+  }).join('')
+
+const INLINE_MARKS: Record<string, keyof Marks> = {
+  strong: 'bold', b: 'bold', em: 'italic', i: 'italic', u: 'underline', s: 'strike', del: 'strike', strike: 'strike', code: 'code',
+}
+
+/** Formatted runs of inline HTML, such as a contentEditable's innerHTML or an imported paragraph */
+export const htmlToRuns = (nodes: HtmlNode[], marks: Marks = {}): TextRun[] =>
+  normalizeRuns(nodes.flatMap(node => {
+    if (node.type === 'text') return [{ ...marks, text: node.text.replace(/[ \t\r\n\f]+/g, ' ').replace(/\u00a0/g, ' ') }]
+    if (node.tag === 'br') return [{ ...marks, text: '\n' }]
+    if (node.tag === 'img') return []
+    const mark = INLINE_MARKS[node.tag]
+    const link = node.tag === 'a' && node.attrs.href ? safeUrl(node.attrs.href) : null
+    const style = node.attrs.style || ''
+    return htmlToRuns(node.children, {
+      ...marks,
+      ...(mark ? { [mark]: true } : {}),
+      ...(link ? { link } : {}),
+      ...(/font-weight:\s*(bold|[6-9]00)/.test(style) ? { bold: true } : {}),
+      ...(/font-style:\s*italic/.test(style) ? { italic: true } : {}),
+    })
+  }))
+
+const trimRuns = (runs: TextRun[]) => {
+  const trimmed = runs.map(run => ({ ...run }))
+  if (trimmed.length > 0) trimmed[0].text = trimmed[0].text.trimStart()
+  if (trimmed.length > 0) trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.trimEnd()
+  return normalizeRuns(trimmed)
+}
+
+const HEADING_BLOCKS: Record<string, DocumentBlockType> = { h1: 'heading1', h2: 'heading2', h3: 'heading3' }
+const CONTAINER_TAGS = ['div', 'section', 'article', 'main', 'body', 'html', 'header', 'footer', 'blockquote', 'figure']
+
+const nodeText = (nodes: HtmlNode[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.text : nodeText(node.children))).join('')
+
+const findImages = (nodes: HtmlNode[]): HtmlElement[] =>
+  nodes.flatMap(node => (node.type !== 'element' ? [] : node.tag === 'img' ? [node] : findImages(node.children)))
+
+const isPageBreak = (element: HtmlElement) =>
+  element.tag === 'hr' || /page-break-(before|after)\s*:\s*always|break-(before|after)\s*:\s*page/.test(element.attrs.style || '')
+
+const alignmentOf = (element: HtmlElement) => {
+  const align = (element.attrs.style || '').match(/text-align:\s*(center|right)/)?.[1] || element.attrs.align
+  return align === 'center' || align === 'right' ? { alignment: align } : undefined
+}
+
+// Maps HTML blocks onto document blocks. Nested lists are flattened.
+export const htmlToDocument = (html: string, name: string): NyxDocument => {
+  const blocks: NyxDocumentBlock[] = []
+
+  const pushText = (type: DocumentBlockType, nodes: HtmlNode[], style?: Record<string, unknown>) => {
+    const runs = trimRuns(htmlToRuns(nodes))
+    if (runsText(runs).trim()) blocks.push(textBlock(type, runs, style))
+    findImages(nodes).forEach(img => {
+      const src = safeUrl(img.attrs.src || '') || (img.attrs.src?.startsWith('data:image/') ? img.attrs.src : null)
+      if (src) blocks.push(imageBlock(src, img.attrs.alt || ''))
+    })
+  }
+
+  const visit = (nodes: HtmlNode[]) => {
+    let inline: HtmlNode[] = []
+    const flush = () => {
+      pushText('paragraph', inline)
+      inline = []
+    }
+    nodes.forEach(node => {
+      if (node.type === 'text') {
+        inline.push(node)
+        return
+      }
+      if (HEADING_BLOCKS[node.tag] || /^h[4-6]$/.test(node.tag)) {
+        flush()
+        pushText(HEADING_BLOCKS[node.tag] || 'heading3', node.children, alignmentOf(node))
+      } else if (node.tag === 'ul' || node.tag === 'ol') {
+        flush()
+        node.children.forEach(item => {
+          if (item.type !== 'element' || item.tag !== 'li') return
+          const nested = item.children.filter(child => child.type === 'element' && (child.tag === 'ul' || child.tag === 'ol'))
+          pushText(node.tag === 'ul' ? 'list' : 'ordered-list', item.children.filter(child => !nested.includes(child)))
+          visit(nested)
+        })
+      } else if (node.tag === 'p') {
+        flush()
+        pushText('paragraph', node.children, alignmentOf(node))
+      } else if (node.tag === 'pre') {
+        flush()
+        const code = nodeText(node.children).replace(/\n$/, '')
+        if (code.trim()) blocks.push(textBlock('paragraph', [{ text: code, code: true }]))
+      } else if (node.tag === 'table') {
+        flush()
+        const rows = findRows(node).map(row =>
+          row.children
+            .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+            .map(cell => trimRuns(htmlToRuns(cell.children)))
+        )
+        if (rows.length > 0) blocks.push(tableBlock(rows))
+      } else if (isPageBreak(node)) {
+        flush()
+        blocks.push(pageBreakBlock())
+        visit(node.children)
+      } else if (CONTAINER_TAGS.includes(node.tag)) {
+        flush()
+        visit(node.children)
+      } else {
+        inline.push(node)
+      }
+    })
+    flush()
+  }
+
+  visit(parseHtml(html))
+  return createDocument(name, blocks)
+}
+
+const findRows = (table: HtmlElement): HtmlElement[] =>
+  table.children.flatMap(child => {
+    if (child.type !== 'element') return []
+    if (child.tag === 'tr') return [child]
+    return ['thead', 'tbody', 'tfoot'].includes(child.tag) ? findRows(child) : []
+  })
+
+export const markdownToDocument = (markdown: string, name: string) => htmlToDocument(markdownToHtml(markdown), name)
+
+const blockStyle = (block: NyxDocumentBlock) => {
+  const alignment = block.style?.alignment
+  return alignment === 'center' || alignment === 'right' ? ` style="text-align: ${alignment}"` : ''
+}
+
+/** The document as body HTML; page breaks become CSS page breaks, so printing keeps them */
+export const documentToHtmlBody = (doc: NyxDocument) => {
+  const parts: string[] = []
+  doc.blocks.forEach((block, index) => {
+    const previous = doc.blocks[index - 1]
+    const next = doc.blocks[index + 1]
+    const listTag = block.type === 'list' ? 'ul' : block.type === 'ordered-list' ? 'ol' : null
+    if (listTag) {
+      if (previous?.type !== block.type) parts.push(`<${listTag}>`)
+      parts.push(`<li>${runsToHtml(blockRuns(block))}</li>`)
+      if (next?.type !== block.type) parts.push(`</${listTag}>`)
+    } else if (block.type === 'table') {
+      const [header = [], ...body] = block.rows || []
+      const row = (cells: TextRun[][], tag: string) => `<tr>${cells.map(cell => `<${tag}>${runsToHtml(cell)}</${tag}>`).join('')}</tr>`
+      parts.push(['<table>', `<thead>${row(header, 'th')}</thead>`, `<tbody>\n${body.map(cells => row(cells, 'td')).join('\n')}\n</tbody>`, '</table>'].join('\n'))
+    } else if (block.type === 'image') {
+      const src = block.src?.startsWith('data:image/') ? block.src : safeUrl(block.src || '')
+      if (src) parts.push(`<p><img src="${escapeHtml(src)}" alt="${escapeHtml(block.alt || '')}"></p>`)
+    } else if (block.type === 'page-break') {
+      parts.push('<div style="page-break-after: always"></div>')
+    } else {
+      const tag = block.type === 'heading1' ? 'h1' : block.type === 'heading2' ? 'h2' : block.type === 'heading3' ? 'h3' : 'p'
+      parts.push(`<${tag}${blockStyle(block)}>${runsToHtml(blockRuns(block))}</${tag}>`)
+    }
+  })
+  return parts.join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+// Markers go inside the run's surrounding spaces: "**bold** " rather than "**bold **"
+const wrap = (text: string, marker: string, close = marker) => {
+  const [, before, inner, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!
+  return inner ? `${before}${marker}${inner}${close}${after}` : text
+}
+
+export const runsToMarkdown = (runs: TextRun[]) =>
+  runs.map(run => {
+    const link = run.link && safeUrl(run.link)
+    if (run.code) {
+      const code = wrap(run.text, '`')
+      return link ? `[${code}](${link})` : code
+    }
+    let text = escapeMarkdown(run.text).replace(/\n/g, '  \n')
+    if (run.bold) text = wrap(text, '**')
+    if (run.italic) text = wrap(text, '*')
+    if (run.strike) text = wrap(text, '~~')
+    if (link) text = wrap(text, '[', `](${link})`)
+    return text
+  }).join('')
+
+const tableToMarkdown = (rows: TextRun[][][]) => {
+  if (rows.length === 0) return ''
+  const width = Math.max(...rows.map(row => row.length))
+  const line = (row: TextRun[][]) =>
+    `| ${Array.from({ length: width }, (_, i) => runsToMarkdown(row[i] || []).replace(/ *\n/g, ' ')).join(' | ')} |`
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n')
+}
+
+export const documentToMarkdown = (doc: NyxDocument) => {
+  let number = 0
+  return doc.blocks.map((block, index) => {
+    const previous = doc.blocks[index - 1]
+    number = block.type === 'ordered-list' && previous?.type === 'ordered-list' ? number + 1 : 1
+    const text = runsToMarkdown(blockRuns(block))
+    const separator = previous && previous.type === block.type && (block.type === 'list' || block.type === 'ordered-list') ? '\n' : '\n\n'
+    const line =
+      block.type === 'heading1' ? `# ${text}` :
+      block.type === 'heading2' ? `## ${text}` :
+      block.type === 'heading3' ? `### ${text}` :
+      block.type === 'list' ? `- ${text}` :
+      block.type === 'ordered-list' ? `${number}. ${text}` :
+      block.type === 'table' ? tableToMarkdown(block.rows || []) :
+      block.type === 'image' ? `![${escapeMarkdown(block.alt || '')}](${block.src || ''})` :
+      block.type === 'page-break' ? '---' :
+      text
+    return index === 0 ? line : separator + line
+  }).join('')
+}
@@ -0,0 +1,54 @@
+import { vfs, VFS_PATHS, VfsEntry, basename, dirname, joinPath } from '@/services/vfs'
+import { NYX_DOCUMENT_EXTENSION, NyxDocument, parseDocument, serializeDocument } from '@/lib/native-formats'
+
+// DocumentEditor keeps its documents as .nyxdoc files in the Documents folder,
+// so they show up in Files and can be shared like any other file.
+
+export interface StoredDocumentInfo {
+  path: string
+  name: string
+  modified: Date
+}
+
+export const DOCUMENTS_DIRECTORY = VFS_PATHS.documents
+
+const fileNameForName = (name: string) =>
+  `${name.replace(/[\\/]/g, '-').trim() || 'Untitled Document'}.${NYX_DOCUMENT_EXTENSION}`
+
+const toInfo = (entry: VfsEntry): StoredDocumentInfo => ({
+  path: entry.path,
+  name: basename(entry.path).replace(/\.[^.]+$/, ''),
+  modified: new Date(entry.modified),
+})
+
+/** Documents in the Documents folder, most recently changed first */
+export const listDocuments = async (): Promise<StoredDocumentInfo[]> => {
+  await vfs.mkdir(DOCUMENTS_DIRECTORY)
+  const entries = await vfs.list(DOCUMENTS_DIRECTORY)
+  return entries
+    .filter(entry => entry.type === 'file' && entry.path.endsWith(`.${NYX_DOCUMENT_EXTENSION}`))
+    .map(toInfo)
+    .sort((a, b) => b.modified.getTime() - a.modified.getTime())
+}
+
+/** Throws NativeFormatError when the file is not a readable document */
+export const loadDocument = async (path: string): Promise<NyxDocument> => parseDocument(await vfs.readText(path))
+
+// Creates a file with a free name derived from the document's name
+export const createStoredDocument = async (doc: NyxDocument): Promise<StoredDocumentInfo> => {
+  await vfs.mkdir(DOCUMENTS_DIRECTORY)
+  const path = await vfs.uniquePath(joinPath(DOCUMENTS_DIRECTORY, fileNameForName(doc.name)))
+  return toInfo(await vfs.writeFile(path, serializeDocument(doc)))
+}
+
+// Saves a document; when its name changed the file is renamed within its folder
+export const saveStoredDocument = async (path: string, doc: NyxDocument): Promise<StoredDocumentInfo> => {
+  let target = path
+  if (doc.name.trim() && fileNameForName(doc.name) !== basename(path)) {
+    target = await vfs.uniquePath(joinPath(dirname(path), fileNameForName(doc.name)))
+    if (await vfs.exists(path)) await vfs.move(path, target)
+  }
+  return toInfo(await vfs.writeFile(target, serializeDocument(doc)))
+}
+
+export const deleteStoredDocument = (path: string) => vfs.remove(path)
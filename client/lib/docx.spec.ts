@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { documentToDocx } from "./docx";
+import { escapeXml, imageSize } from "./ooxml";
+import { crc32, createZip } from "./zip";
+import { imageBlock, pageBreakBlock, tableBlock, textBlock } from "./document-model";
+import { createDocument } from "./native-formats";
+
+// Reads the entries of a store-only zip by walking its local file headers
+const readStoredZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, { data: Uint8Array; crc: number }>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    entries.set(name, { data: zip.subarray(start, start + size), crc: view.getUint32(offset + 14, true) });
+    offset = start + size;
+  }
+  return entries;
+};
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+// 2x1 PNG header; only the IHDR chunk is needed to read the size
+const PNG = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0,
+]);
+const PNG_DATA_URL = `data:image/png;base64,${btoa(String.fromCharCode(...PNG))}`;
+
+describe("createZip", () => {
+  it("computes standard CRC-32 checksums", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("writes readable stored entries with an end-of-central-directory record", () => {
+    const zip = createZip([{ name: "a.txt", data: "hello" }, { name: "dir/b.bin", data: new Uint8Array([1, 2, 3]) }]);
+    const entries = readStoredZip(zip);
+    expect(text(entries.get("a.txt")!.data)).toBe("hello");
+    expect(entries.get("a.txt")!.crc).toBe(crc32(new TextEncoder().encode("hello")));
+    expect([...entries.get("dir/b.bin")!.data]).toEqual([1, 2, 3]);
+    const end = new DataView(zip.buffer, zip.length - 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(2);
+  });
+});
+
+describe("documentToDocx", () => {
+  const doc = createDocument("Q3 <Report>", [
+    textBlock("heading1", [{ text: "Summary" }]),
+    textBlock("paragraph", [{ text: "Revenue is " }, { text: "up", bold: true }, { text: " — see " }, { text: "the dashboard", link: "https://nyx.dev/q3" }]),
+    textBlock("ordered-list", [{ text: "First" }]),
+    textBlock("ordered-list", [{ text: "Second" }]),
+    textBlock("paragraph", [{ text: "Between lists" }], { alignment: "center" }),
+    textBlock("ordered-list", [{ text: "Again one" }]),
+    tableBlock([[[{ text: "A" }], [{ text: "B" }]], [[{ text: "1" }], [{ text: "2" }]]]),
+    pageBreakBlock(),
+    imageBlock(PNG_DATA_URL, "Logo"),
+  ]);
+  const entries = readStoredZip(documentToDocx(doc, new Date("2026-01-02T03:04:05Z")));
+  const documentXml = text(entries.get("word/document.xml")!.data);
+
+  it("contains the parts Word needs", () => {
+    expect([...entries.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "docProps/core.xml",
+      "word/document.xml",
+      "word/styles.xml",
+      "word/numbering.xml",
+      "word/_rels/document.xml.rels",
+      "word/media/image1.png",
+    ]);
+    expect(text(entries.get("docProps/core.xml")!.data)).toContain("<dc:title>Q3 &lt;Report&gt;</dc:title>");
+  });
+
+  it("writes headings, formatted runs and hyperlinks", () => {
+    expect(documentXml).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(documentXml).toContain('<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">up</w:t></w:r>');
+    expect(documentXml).toMatch(/<w:hyperlink r:id="(rId\d+)"><w:r><w:rPr><w:rStyle w:val="Hyperlink"\/><\/w:rPr>/);
+    const id = documentXml.match(/<w:hyperlink r:id="(rId\d+)"/)![1];
+    expect(text(entries.get("word/_rels/document.xml.rels")!.data)).toContain(
+      `Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://nyx.dev/q3" TargetMode="External"`
+    );
+    expect(documentXml).toContain('<w:jc w:val="center"/>');
+  });
+
+  it("restarts numbering for each separate numbered list", () => {
+    const numIds = [...documentXml.matchAll(/<w:numId w:val="(\d+)"\/>/g)].map(match => match[1]);
+    expect(numIds).toEqual(["2", "2", "3"]);
+    expect(text(entries.get("word/numbering.xml")!.data)).toContain('<w:num w:numId="3"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/>');
+  });
+
+  it("writes tables, page breaks and embedded images", () => {
+    expect(documentXml).toContain('<w:tblStyle w:val="TableGrid"/>');
+    expect(documentXml.match(/<w:tr>/g)).toHaveLength(2);
+    expect(documentXml).toContain('<w:br w:type="page"/>');
+    expect(documentXml).toContain('descr="Logo"');
+    expect([...entries.get("word/media/image1.png")!.data]).toEqual([...PNG]);
+  });
+});
+
+describe("docx helpers", () => {
+  it("escapes XML and reads image sizes", () => {
+    expect(escapeXml(`<a href="x">&\u0007`)).toBe("&lt;a href=&quot;x&quot;&gt;&amp;");
+    expect(imageSize(PNG)).toEqual({ width: 2, height: 1 });
+    expect(imageSize(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
@@ -0,0 +1,228 @@
+import { createZip, type ZipEntry } from '@/lib/zip'
+import { NS, corePropertiesXml, decodeImageDataUrl, escapeXml, imageSize, xml, type ImageExtension } from '@/lib/ooxml'
+import { blockRuns } from '@/lib/document-model'
+import { safeUrl } from '@/lib/markdown'
+import type { NyxDocument, NyxDocumentBlock, TextRun } from '@/lib/native-formats'
+
+// Writes a Nyx document as an Office Open XML word-processing file (.docx).
+// Images embedded as data: URLs go into the package; linked images become a
+// link to their address, since Word would fetch them from the network.
+
+const EMU_PER_PIXEL = 9525
+const MAX_IMAGE_WIDTH = 6 * 914400 // 6in, the text width of an A4 page with 1in margins
+const PAGE = { width: 11906, height: 16838, margin: 1440 } // A4 in twentieths of a point
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin
+
+interface EmbeddedImage {
+  bytes: Uint8Array
+  extension: ImageExtension
+  width: number
+  height: number
+}
+
+class DocxWriter {
+  private relationships: string[] = []
+  readonly media: ZipEntry[] = []
+  private numberings: number[] = [] // num ids of numbered lists, each restarting at 1
+  private drawingId = 0
+
+  private addRelationship(type: string, target: string, external = false) {
+    const id = `rId${this.relationships.length + 3}` // rId1 and rId2 are styles and numbering
+    this.relationships.push(
+      `<Relationship Id="${id}" Type="${NS.officeRel}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+    )
+    return id
+  }
+
+  runs(runs: TextRun[], extra = '') {
+    return runs.map(run => {
+      const properties = [
+        run.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+        run.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+        run.bold ? '<w:b/>' : '',
+        run.italic ? '<w:i/>' : '',
+        run.strike ? '<w:strike/>' : '',
+        run.underline ? '<w:u w:val="single"/>' : '',
+        extra,
+      ].join('')
+      const text = run.text
+        .split('\n')
+        .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+        .join('<w:br/>')
+      const xml = `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${text}</w:r>`
+      const href = run.link && safeUrl(run.link)
+      return href ? `<w:hyperlink r:id="${this.addRelationship('hyperlink', href, true)}">${xml}</w:hyperlink>` : xml
+    }).join('')
+  }
+
+  paragraph(content: string, properties = '') {
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`
+  }
+
+  private image(block: NyxDocumentBlock) {
+    const decoded = decodeImageDataUrl(block.src || '')
+    const size = decoded && imageSize(decoded.bytes)
+    if (!decoded || !size || !size.width || !size.height) {
+      const label = block.alt || block.src || 'Image'
+      return this.paragraph(this.runs([{ text: label, link: block.src }]))
+    }
+
+    const name = `image${this.media.length + 1}.${decoded.extension}`
+    this.media.push({ name: `word/media/${name}`, data: decoded.bytes })
+    const id = this.addRelationship('image', `media/${name}`)
+    const scale = Math.min(1, MAX_IMAGE_WIDTH / (size.width * EMU_PER_PIXEL))
+    const cx = Math.round(size.width * EMU_PER_PIXEL * scale)
+    const cy = Math.round(size.height * EMU_PER_PIXEL * scale)
+    const drawingId = ++this.drawingId
+    const alt = escapeXml(block.alt || '')
+    return this.paragraph(
+      `<w:r><w:drawing><wp:inline><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${drawingId}" name="Picture ${drawingId}" descr="${alt}"/>` +
+      `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>` +
+      `<pic:nvPicPr><pic:cNvPr id="${drawingId}" name="${name}" descr="${alt}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`,
+      '<w:jc w:val="center"/>'
+    )
+  }
+
+  private table(rows: TextRun[][][]) {
+    if (rows.length === 0) return ''
+    const columns = Math.max(1, ...rows.map(row => row.length))
+    const width = Math.floor(TEXT_WIDTH / columns)
+    const body = rows.map((row, index) => {
+      const cells = Array.from({ length: columns }, (_, c) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${this.paragraph(this.runs(row[c] || [], index === 0 ? '<w:b/>' : ''))}</w:tc>`
+      ).join('')
+      return `<w:tr>${index === 0 ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`
+    }).join('')
+    return (
+      `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${width * columns}" w:type="dxa"/></w:tblPr>` +
+      `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>${body}</w:tbl>` +
+      // Word merges a table with one that follows directly; an empty paragraph keeps them apart
+      this.paragraph('')
+    )
+  }
+
+  body(doc: NyxDocument) {
+    return doc.blocks.map((block, index) => {
+      const alignment = block.style?.alignment
+      const jc = alignment === 'center' || alignment === 'right' ? `<w:jc w:val="${alignment}"/>` : ''
+      const runs = this.runs(blockRuns(block))
+      switch (block.type) {
+        case 'heading1':
+        case 'heading2':
+        case 'heading3':
+          return this.paragraph(runs, `<w:pStyle w:val="Heading${block.type.slice(-1)}"/>${jc}`)
+        case 'list':
+          return this.paragraph(runs, '<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>')
+        case 'ordered-list': {
+          if (doc.blocks[index - 1]?.type !== 'ordered-list') this.numberings.push(this.numberings.length + 2)
+          const numId = this.numberings[this.numberings.length - 1]
+          return this.paragraph(runs, `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`)
+        }
+        case 'table':
+          return this.table(block.rows || [])
+        case 'image':
+          return this.image(block)
+        case 'page-break':
+          return this.paragraph('<w:r><w:br w:type="page"/></w:r>')
+        default:
+          return this.paragraph(runs, jc)
+      }
+    }).join('')
+  }
+
+  relationshipsXml() {
+    return xml(
+      `<Relationships xmlns="${NS.rel}">` +
+      `<Relationship Id="rId1" Type="${NS.officeRel}/styles" Target="styles.xml"/>` +
+      `<Relationship Id="rId2" Type="${NS.officeRel}/numbering" Target="numbering.xml"/>` +
+      `${this.relationships.join('')}</Relationships>`
+    )
+  }
+
+  numberingXml() {
+    const level = (format: string, text: string) =>
+      `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+      '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>'
+    return xml(
+      `<w:numbering xmlns:w="${NS.w}">` +
+      `<w:abstractNum w:abstractNumId="0">${level('bullet', '•')}</w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="1">${level('decimal', '%1.')}</w:abstractNum>` +
+      '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>' +
+      this.numberings.map(id =>
+        `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+      ).join('') +
+      '</w:numbering>'
+    )
+  }
+}
+
+const heading = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/>` +
+  `<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${360 - level * 60}" w:after="120"/>` +
+  `<w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+
+const STYLES = xml(
+  `<w:styles xmlns:w="${NS.w}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  heading(1, 36) + heading(2, 30) + heading(3, 26) +
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/><w:contextualSpacing/></w:pPr></w:style>' +
+  '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+  ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>`).join('') +
+  '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '</w:styles>'
+)
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+export const documentToDocx = (doc: NyxDocument, modified = new Date()): Uint8Array => {
+  const writer = new DocxWriter()
+  const body = writer.body(doc)
+  const document = xml(
+    `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}"><w:body>` +
+    body +
+    `<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+    `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="708" w:footer="708" w:gutter="0"/>` +
+    '</w:sectPr></w:body></w:document>'
+  )
+
+  const contentTypes = xml(
+    `<Types xmlns="${NS.contentTypes}">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+    '<Default Extension="gif" ContentType="image/gif"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>'
+  )
+
+  const packageRelationships = xml(
+    `<Relationships xmlns="${NS.rel}">` +
+    `<Relationship Id="rId1" Type="${NS.officeRel}/officeDocument" Target="word/document.xml"/>` +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>'
+  )
+
+  const core = corePropertiesXml(doc.name, modified)
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: packageRelationships },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: STYLES },
+    { name: 'word/numbering.xml', data: writer.numberingXml() },
+    { name: 'word/_rels/document.xml.rels', data: writer.relationshipsXml() },
+    ...writer.media,
+  ], modified)
+}
@@ -0,0 +1,16 @@
+import { notify } from '@/store/notification-store'
+
+// Hands a file to the browser's download manager and files a notification
+// under the app that produced it. `data` may be a Blob or an existing URL.
+export const downloadFile = (data: Blob | string, fileName: string, appId: string) => {
+  const url = typeof data === 'string' ? data : URL.createObjectURL(data)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  if (typeof data !== 'string') setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+  notify({ appId, title: 'Download started', body: fileName, priority: 'low' })
+}
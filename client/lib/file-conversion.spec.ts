@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import {
+  CONVERSION_ROUTES,
+  ConversionError,
+  canConvert,
+  convertFile,
+  convertText,
+  convertedFileName,
+  formatForFile,
+  jsonToRows,
+} from "./file-conversion";
+import { markdownHeadings, markdownTableOfContents, markdownToHtml, safeUrl } from "./markdown";
+import { htmlToMarkdown, htmlToText } from "./html";
+import { createImagePdf } from "./pdf";
+import { parseDocument, parseSpreadsheet, serializeSpreadsheet, createSpreadsheet } from "./native-formats";
+
+describe("markdownToHtml", () => {
+  it("renders headings, emphasis, code and links", () => {
+    const html = markdownToHtml("# Title\n\nSome **bold**, *italic* and `code` with [a link](https://nyx.dev).");
+    expect(html).toBe(
+      '<h1>Title</h1>\n<p>Some <strong>bold</strong>, <em>italic</em> and <code>code</code> with <a href="https://nyx.dev">a link</a>.</p>',
+    );
+  });
+
+  it("renders nested lists, fenced code and tables", () => {
+    const html = markdownToHtml("- one\n  - nested\n- two\n\n```js\nconst a = 1 < 2\n```\n\n| a | b |\n|---|--:|\n| 1 | 2 |");
+    expect(html).toContain("<ul>\n<li>one\n<ul>\n<li>nested</li>\n</ul></li>\n<li>two</li>\n</ul>");
+    expect(html).toContain('<pre><code class="language-js">const a = 1 &lt; 2</code></pre>');
+    expect(html).toContain('<td style="text-align: right">2</td>');
+  });
+
+  it("escapes raw HTML and drops unsafe link schemes", () => {
+    const html = markdownToHtml('<script>alert(1)</script> [x](javascript:alert(1))');
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("javascript:");
+  });
+
+  it("keeps emphasis markers in link and image URLs as they are", () => {
+    expect(markdownToHtml("[_a_](https://x/_foo_/b) ![*c*](https://x/*y*.png)")).toBe(
+      '<p><a href="https://x/_foo_/b"><em>a</em></a> <img src="https://x/*y*.png" alt="*c*"></p>',
+    );
+    expect(convertText("md", "html", "see [docs](https://x/__init__~~old~~)", "a.md")).toContain(
+      '<a href="https://x/__init__~~old~~">docs</a>',
+    );
+  });
+
+  it("drops javascript: links hidden by control characters, whitespace or case", () => {
+    ["\u0001javascript:alert(1)", "java\tscript:alert(1)", "JaVaScRiPt:alert(1)", " \njavascript:alert(1)"].forEach(url => {
+      expect(safeUrl(url)).toBeNull();
+      const html = markdownToHtml(`[x](${url}) ![y](${url})`);
+      expect(html).not.toMatch(/<a|<img/);
+    });
+    expect(safeUrl(" https://nyx.dev/a\u0000 ")).toBe("https://nyx.dev/a");
+    expect(convertText("md", "html", "[x](\u0001javascript:alert(1))", "a.md")).not.toMatch(/script:/i);
+  });
+
+  it("gives headings unique ids when asked, including nested ones", () => {
+    const markdown = "# Getting *Started*\n\n## Install `nyx`\n\n> ## Getting Started\n\n- item\n\n  ### Notes & Caveats!";
+    expect(markdownToHtml(markdown)).toContain("<h1>Getting <em>Started</em></h1>");
+    const html = markdownToHtml(markdown, { headingIds: true });
+    expect(html).toContain('<h1 id="getting-started">');
+    expect(html).toContain('<h2 id="install-nyx">');
+    expect(html).toContain('<h2 id="getting-started-1">');
+    expect(html).toContain('<h3 id="notes--caveats">');
+    expect(markdownHeadings(markdown)).toEqual([
+      { level: 1, text: "Getting Started", id: "getting-started" },
+      { level: 2, text: "Install nyx", id: "install-nyx" },
+      { level: 2, text: "Getting Started", id: "getting-started-1" },
+      { level: 3, text: "Notes & Caveats!", id: "notes--caveats" },
+    ]);
+  });
+
+  it("skips headings in fenced code and builds a table of contents", () => {
+    const headings = markdownHeadings("## Usage\n\n```sh\n# not a heading\n```\n\n### Options\n\n## FAQ");
+    expect(headings.map(heading => heading.id)).toEqual(["usage", "options", "faq"]);
+    const toc = markdownTableOfContents(headings);
+    expect(toc).toBe("- [Usage](#usage)\n  - [Options](#options)\n- [FAQ](#faq)");
+    expect(markdownToHtml(toc)).toContain('<a href="#options">Options</a>');
+  });
+
+  it("passes fenced code with a language to the highlighter", () => {
+    const highlight = (code: string, language: string) => `[${language}:${code}]`;
+    const html = markdownToHtml("```py\nx = 1\n```\n\n```\n<b>\n```", { highlight });
+    expect(html).toContain('<pre><code class="language-py">[py:x = 1]</code></pre>');
+    expect(html).toContain("<pre><code>&lt;b&gt;</code></pre>");
+  });
+});
+
+describe("html conversions", () => {
+  const html = `<!DOCTYPE html><html><head><title>T</title><style>p { color: red }</style></head>
+    <body><h2>Notes</h2><p>Hello <b>world</b> &amp; <a href="https://x.y">friends</a><br>again</p>
+    <ul><li>first<li>second</ul><script>ignored()</script></body></html>`;
+
+  it("converts to Markdown", () => {
+    expect(htmlToMarkdown(html)).toBe(
+      "## Notes\n\nHello **world** & [friends](https://x.y)  \nagain\n\n- first\n- second",
+    );
+  });
+
+  it("converts to plain text", () => {
+    expect(htmlToText(html)).toBe("Notes\n\nHello world & friends (https://x.y)\nagain\n\n- first\n- second");
+  });
+
+  it("round-trips Markdown through HTML", () => {
+    const markdown = "# Plan\n\n1. Draft\n2. Review\n\n> Ship it";
+    expect(htmlToMarkdown(markdownToHtml(markdown))).toBe(markdown);
+  });
+});
+
+describe("table conversions", () => {
+  const csv = 'name,qty\r\n"Widget, large",3\r\nGadget,5\r\n';
+
+  it("converts CSV to JSON objects and back", () => {
+    const json = convertText("csv", "json", csv);
+    expect(JSON.parse(json)).toEqual([
+      { name: "Widget, large", qty: "3" },
+      { name: "Gadget", qty: "5" },
+    ]);
+    expect(convertText("json", "csv", json)).toBe(csv.trimEnd());
+  });
+
+  it("accepts arrays of rows and reports invalid JSON", () => {
+    expect(jsonToRows("[[1, 2], [3, null]]")).toEqual([["1", "2"], ["3", ""]]);
+    expect(() => jsonToRows("{nope")).toThrow(ConversionError);
+  });
+
+  it("renders CSV as Markdown and HTML tables", () => {
+    expect(convertText("csv", "md", csv)).toBe("| name | qty |\n| --- | --- |\n| Widget, large | 3 |\n| Gadget | 5 |");
+    expect(convertText("csv", "html", csv, "stock.csv")).toContain("<th>name</th>");
+  });
+
+  it("extracts the first HTML table", () => {
+    const html = "<table><tr><th>a</th><th>b</th></tr><tr><td>1</td><td>x &lt; y</td></tr></table>";
+    expect(convertText("html", "csv", html)).toBe("a,b\r\n1,x < y");
+  });
+
+  it("renders Markdown as a styled page with anchors and highlighted code", () => {
+    const html = convertText("md", "html", "# Read <me>\n\n```js\nconst a = '<b>'\n```\n\n<img src=x onerror=alert(1)>", "README.md");
+    expect(html).toContain("<title>README</title>");
+    expect(html).toContain("<style>\n");
+    expect(html).toContain('<h1 id="read-me">Read &lt;me&gt;</h1>');
+    expect(html).toContain('<span class="hl-keyword">const</span> a = <span class="hl-string">&#39;&lt;b&gt;&#39;</span>');
+    expect(html).not.toContain("<img");
+  });
+});
+
+describe("native formats", () => {
+  it("turns Markdown into a Nyx document and back", () => {
+    const doc = parseDocument(convertText("md", "nyxdoc", "# Title\n\nIntro text\n\n- a\n- b", "notes.md"));
+    expect(doc.name).toBe("notes");
+    expect(doc.blocks.map((b) => [b.type, b.content])).toEqual([
+      ["heading1", "Title"],
+      ["paragraph", "Intro text"],
+      ["list", "a"],
+      ["list", "b"],
+    ]);
+    expect(convertText("nyxdoc", "md", JSON.stringify(doc))).toBe("# Title\n\nIntro text\n\n- a\n- b");
+  });
+
+  it("exports computed spreadsheet values", () => {
+    const workbook = serializeSpreadsheet(
+      createSpreadsheet([{ name: "Budget", cells: { A1: "Item", B1: "Cost", A2: "Rent", B2: "1200", A3: "Total", B3: "=SUM(B2:B2)*2" } }]),
+    );
+    expect(convertText("nyxsheet", "csv", workbook)).toBe("Item,Cost\r\nRent,1200\r\nTotal,2400");
+    expect(JSON.parse(convertText("nyxsheet", "json", workbook))).toEqual({
+      Budget: [["Item", "Cost"], ["Rent", "1200"], ["Total", "2400"]],
+    });
+  });
+
+  it("imports CSV as a spreadsheet with raw cells", () => {
+    const workbook = parseSpreadsheet(convertText("csv", "nyxsheet", "a,b\n1,=A2*2", "data.csv"));
+    expect(workbook.sheets[0]).toEqual({ name: "data", cells: { A1: "a", B1: "b", A2: "1", B2: "=A2*2" } });
+  });
+
+  it("rejects files in the wrong format", () => {
+    expect(() => parseDocument('{"format":"nyx-spreadsheet"}')).toThrow(/Not a Nyx document/);
+  });
+});
+
+describe("routes", () => {
+  it("only advertises conversions that have an implementation", () => {
+    expect(canConvert("png", "pdf")).toBe(true);
+    expect(canConvert("pdf", "docx" as any)).toBe(false);
+    Object.entries(CONVERSION_ROUTES).forEach(([from, targets]) => {
+      if (["png", "jpg", "webp"].includes(from)) return;
+      targets!
+        .filter((to) => to !== "docx")
+        .forEach((to) => expect(() => convertText(from as any, to, "")).not.toThrow(/Can't convert/));
+    });
+  });
+
+  it("converts documents to DOCX as binary files", async () => {
+    expect(canConvert("md", "docx")).toBe(true);
+    const { blob, fileName } = await convertFile(new Blob(["# Notes\n\nSome **bold** text"]), "notes.md", "md", "docx");
+    expect(fileName).toBe("notes.docx");
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect([...new Uint8Array(await blob.arrayBuffer()).subarray(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+
+  it("maps file names to formats", () => {
+    expect(formatForFile("Photo.JPEG")).toBe("jpg");
+    expect(formatForFile("archive.zip")).toBeUndefined();
+    expect(convertedFileName("report.final.md", "html")).toBe("report.final.html");
+  });
+});
+
+describe("createImagePdf", () => {
+  it("writes a well-formed PDF with a correct cross-reference table", () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const pdf = createImagePdf([{ jpeg, width: 800, height: 600 }], { title: "Scan" });
+    const text = new TextDecoder("latin1").decode(pdf);
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toContain("/MediaBox [0 0 841.89 595.28]");
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+});
@@ -0,0 +1,380 @@
+import { parseDelimited, serializeDelimited, decodeText } from '@/lib/csv'
+import { markdownToHtml, escapeHtml, escapeMarkdown } from '@/lib/markdown'
+import { HIGHLIGHT_CSS, highlightCode } from '@/lib/syntax-highlight'
+import { parseHtml, htmlToMarkdown, htmlToText, extractTables } from '@/lib/html'
+import { createImagePdf } from '@/lib/pdf'
+import { documentToHtmlBody, documentToMarkdown, htmlToDocument, markdownToDocument } from '@/lib/document-model'
+import { DOCX_MIME_TYPE, documentToDocx } from '@/lib/docx'
+import { FormulaEngine, columnName, parseAddress } from '@/lib/formula-engine'
+import {
+  NyxDocument,
+  NyxSpreadsheet,
+  createDocument,
+  createSpreadsheet,
+  parseDocument,
+  parseSpreadsheet,
+  serializeDocument,
+  serializeSpreadsheet,
+} from '@/lib/native-formats'
+
+// Conversions FileConverter can do entirely on this device. Text formats are
+// converted by pure string functions (see convertText); documents are written
+// as DOCX through the document model; images are re-encoded through a canvas.
+
+export type FormatId = 'txt' | 'md' | 'html' | 'csv' | 'json' | 'nyxdoc' | 'nyxsheet' | 'docx' | 'png' | 'jpg' | 'webp' | 'pdf'
+
+export interface FileFormat {
+  id: FormatId
+  label: string
+  extensions: string[]
+  mimeType: string
+}
+
+export const FILE_FORMATS: FileFormat[] = [
+  { id: 'txt', label: 'Text', extensions: ['txt', 'text', 'log'], mimeType: 'text/plain' },
+  { id: 'md', label: 'Markdown', extensions: ['md', 'markdown'], mimeType: 'text/markdown' },
+  { id: 'html', label: 'HTML', extensions: ['html', 'htm'], mimeType: 'text/html' },
+  { id: 'csv', label: 'CSV', extensions: ['csv'], mimeType: 'text/csv' },
+  { id: 'json', label: 'JSON', extensions: ['json'], mimeType: 'application/json' },
+  { id: 'nyxdoc', label: 'Nyx Document', extensions: ['nyxdoc'], mimeType: 'application/vnd.nyx.document+json' },
+  { id: 'nyxsheet', label: 'Nyx Spreadsheet', extensions: ['nyxsheet'], mimeType: 'application/vnd.nyx.spreadsheet+json' },
+  { id: 'docx', label: 'Word Document', extensions: ['docx'], mimeType: DOCX_MIME_TYPE },
+  { id: 'png', label: 'PNG', extensions: ['png'], mimeType: 'image/png' },
+  { id: 'jpg', label: 'JPEG', extensions: ['jpg', 'jpeg'], mimeType: 'image/jpeg' },
+  { id: 'webp', label: 'WebP', extensions: ['webp'], mimeType: 'image/webp' },
+  { id: 'pdf', label: 'PDF', extensions: ['pdf'], mimeType: 'application/pdf' },
+]
+
+export class ConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConversionError'
+  }
+}
+
+export const getFormat = (id: FormatId) => FILE_FORMATS.find(format => format.id === id)!
+
+export const formatForFile = (fileName: string): FormatId | undefined => {
+  const ext = fileName.split('.').pop()?.toLowerCase() || ''
+  return FILE_FORMATS.find(format => format.extensions.includes(ext))?.id
+}
+
+export const convertedFileName = (fileName: string, to: FormatId) =>
+  `${fileName.replace(/\.[^.]+$/, '') || 'converted'}.${getFormat(to).extensions[0]}`
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'Untitled'
+
+// ---------------------------------------------------------------------------
+// Tables (csv / json / html / markdown)
+
+export const rowsToHtmlTable = (rows: string[][]) => {
+  if (rows.length === 0) return '<table></table>'
+  const [header, ...body] = rows
+  return [
+    '<table>',
+    `<thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>`,
+    `<tbody>\n${body.map(row => `<tr>${header.map((_, i) => `<td>${escapeHtml(row[i] ?? '')}</td>`).join('')}</tr>`).join('\n')}\n</tbody>`,
+    '</table>',
+  ].join('\n')
+}
+
+export const rowsToMarkdownTable = (rows: string[][]) => {
+  if (rows.length === 0) return ''
+  const width = Math.max(...rows.map(row => row.length))
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => escapeMarkdown(row[i] ?? '').replace(/\n/g, ' ')).join(' | ')} |`
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n')
+}
+
+// Plain-text table with columns padded to line up in a monospace font
+export const rowsToText = (rows: string[][]) => {
+  const widths: number[] = []
+  rows.forEach(row => row.forEach((cell, i) => (widths[i] = Math.max(widths[i] ?? 0, cell.length))))
+  return rows.map(row => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ')).join('\n')
+}
+
+// First row is the header; each following row becomes an object keyed by it
+export const rowsToJson = (rows: string[][]) => {
+  const [header = [], ...body] = rows
+  const keys = header.map((key, i) => key || `column${i + 1}`)
+  return JSON.stringify(
+    body.map(row => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? '']))),
+    null,
+    2
+  )
+}
+
+const cellText = (value: unknown) =>
+  value == null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+// Accepts an array of objects (keys become the header) or an array of arrays
+export const jsonToRows = (json: string): string[][] => {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error: any) {
+    throw new ConversionError(`Invalid JSON: ${error.message}`)
+  }
+  if (!Array.isArray(data)) {
+    const values = data && typeof data === 'object' ? Object.values(data) : []
+    // { "Sheet 1": [...] } style workbooks: take the first table
+    const table = values.find(Array.isArray)
+    if (!table) throw new ConversionError('JSON must be an array of objects or rows')
+    data = table
+  }
+
+  const items = data as unknown[]
+  if (items.every(Array.isArray)) return (items as unknown[][]).map(row => row.map(cellText))
+  if (items.every(item => item && typeof item === 'object')) {
+    const keys: string[] = []
+    items.forEach(item => Object.keys(item as object).forEach(key => !keys.includes(key) && keys.push(key)))
+    return [keys, ...items.map(item => keys.map(key => cellText((item as Record<string, unknown>)[key])))]
+  }
+  return [['value'], ...items.map(item => [cellText(item)])]
+}
+
+const csvRows = (text: string) => parseDelimited(text, { delimiter: ',' }).rows
+
+const htmlTableRows = (html: string) => {
+  const [table] = extractTables(parseHtml(html))
+  if (!table) throw new ConversionError('The HTML file has no table')
+  return table
+}
+
+// ---------------------------------------------------------------------------
+// Text documents
+
+export const textToHtml = (text: string, title = 'Document') => {
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n{2,}/).filter(p => p.trim())
+  return htmlDocument(title, paragraphs.map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>\n')}</p>`).join('\n'))
+}
+
+export const textToMarkdown = (text: string) =>
+  text.replace(/\r\n?/g, '\n').split(/\n{2,}/).map(p => escapeMarkdown(p).replace(/\n/g, '  \n')).join('\n\n')
+
+export const htmlDocument = (title: string, body: string, styles = '') =>
+  `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>${styles ? `\n<style>\n${styles}\n</style>` : ''}
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+
+// A readable page for a rendered Markdown file, as Notepad exports it
+const MARKDOWN_DOCUMENT_CSS = `
+body { max-width: 48rem; margin: 2rem auto; padding: 0 1rem; font: 16px/1.6 system-ui, sans-serif; color: #1f2328; }
+h1, h2 { border-bottom: 1px solid #d1d9e0; padding-bottom: 0.3em; }
+a { color: #0969da; }
+code { font: 0.875em ui-monospace, monospace; background: #f6f8fa; padding: 0.2em 0.4em; border-radius: 6px; }
+pre { background: #f6f8fa; padding: 1rem; border-radius: 6px; overflow: auto; }
+pre code { background: none; padding: 0; }
+blockquote { margin: 0; padding: 0 1em; color: #59636e; border-left: 0.25em solid #d1d9e0; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d1d9e0; padding: 6px 13px; }
+img { max-width: 100%; }
+`.trim()
+
+/** Markdown as a standalone HTML page with heading anchors and highlighted code */
+export const markdownToHtmlDocument = (markdown: string, title: string) =>
+  htmlDocument(title, markdownToHtml(markdown, { headingIds: true, highlight: highlightCode }), `${MARKDOWN_DOCUMENT_CSS}\n${HIGHLIGHT_CSS}`)
+
+export const markdownToText = (markdown: string) => htmlToText(markdownToHtml(markdown))
+
+// ---------------------------------------------------------------------------
+// Native DocumentEditor format
+
+export const documentToHtml = (doc: NyxDocument) => htmlDocument(doc.name, documentToHtmlBody(doc))
+
+export const documentToText = (doc: NyxDocument) => htmlToText(documentToHtml(doc))
+
+// ---------------------------------------------------------------------------
+// Native Spreadsheet format
+
+export const rowsToSpreadsheet = (rows: string[][], name: string): NyxSpreadsheet => {
+  const cells: Record<string, string> = {}
+  rows.forEach((row, r) => row.forEach((value, c) => {
+    if (value !== '') cells[`${columnName(c)}${r + 1}`] = value
+  }))
+  return createSpreadsheet([{ name, cells }])
+}
+
+// Computed values of every sheet, as rows covering each sheet's used range
+export const spreadsheetToRows = (workbook: NyxSpreadsheet): { name: string; rows: string[][] }[] => {
+  const engine = new FormulaEngine()
+  workbook.sheets.forEach(sheet => engine.loadSheet(sheet.name, sheet.cells))
+
+  return workbook.sheets.map(sheet => {
+    let lastRow = -1
+    let lastCol = -1
+    Object.keys(sheet.cells).forEach(address => {
+      const position = parseAddress(address)
+      if (!position) return
+      lastRow = Math.max(lastRow, position.row)
+      lastCol = Math.max(lastCol, position.col)
+    })
+    const rows = Array.from({ length: lastRow + 1 }, (_, r) =>
+      Array.from({ length: lastCol + 1 }, (_, c) => engine.getDisplayValue(sheet.name, `${columnName(c)}${r + 1}`))
+    )
+    return { name: sheet.name, rows }
+  })
+}
+
+const firstSheetRows = (text: string) => spreadsheetToRows(parseSpreadsheet(text))[0].rows
+
+// ---------------------------------------------------------------------------
+// Route table
+
+type TextConverter = (text: string, name: string) => string
+
+const TEXT_CONVERTERS: Partial<Record<FormatId, Partial<Record<FormatId, TextConverter>>>> = {
+  txt: {
+    md: text => textToMarkdown(text),
+    html: (text, name) => textToHtml(text, baseName(name)),
+    nyxdoc: (text, name) =>
+      serializeDocument(createDocument(baseName(name), text.split(/\n{2,}/).filter(p => p.trim()).map(p => ({ type: 'paragraph', content: p.trim() })))),
+  },
+  md: {
+    html: (text, name) => markdownToHtmlDocument(text, baseName(name)),
+    txt: text => markdownToText(text),
+    nyxdoc: (text, name) => serializeDocument(markdownToDocument(text, baseName(name))),
+  },
+  html: {
+    md: text => htmlToMarkdown(text),
+    txt: text => htmlToText(text),
+    csv: text => serializeDelimited(htmlTableRows(text)),
+    json: text => rowsToJson(htmlTableRows(text)),
+    nyxdoc: (text, name) => serializeDocument(htmlToDocument(text, baseName(name))),
+  },
+  csv: {
+    json: text => rowsToJson(csvRows(text)),
+    html: (text, name) => htmlDocument(baseName(name), rowsToHtmlTable(csvRows(text))),
+    md: text => rowsToMarkdownTable(csvRows(text)),
+    txt: text => rowsToText(csvRows(text)),
+    nyxsheet: (text, name) => serializeSpreadsheet(rowsToSpreadsheet(csvRows(text), baseName(name))),
+  },
+  json: {
+    csv: text => serializeDelimited(jsonToRows(text)),
+    html: (text, name) => htmlDocument(baseName(name), rowsToHtmlTable(jsonToRows(text))),
+    md: text => rowsToMarkdownTable(jsonToRows(text)),
+    nyxsheet: (text, name) => serializeSpreadsheet(rowsToSpreadsheet(jsonToRows(text), baseName(name))),
+  },
+  nyxdoc: {
+    md: text => documentToMarkdown(parseDocument(text)),
+    html: text => documentToHtml(parseDocument(text)),
+    txt: text => documentToText(parseDocument(text)),
+  },
+  nyxsheet: {
+    csv: text => serializeDelimited(firstSheetRows(text)),
+    json: text => JSON.stringify(
+      Object.fromEntries(spreadsheetToRows(parseSpreadsheet(text)).map(sheet => [sheet.name, sheet.rows])),
+      null,
+      2
+    ),
+    html: (text, name) => htmlDocument(
+      baseName(name),
+      spreadsheetToRows(parseSpreadsheet(text)).map(sheet => `<h2>${escapeHtml(sheet.name)}</h2>\n${rowsToHtmlTable(sheet.rows)}`).join('\n')
+    ),
+    md: text => spreadsheetToRows(parseSpreadsheet(text)).map(sheet => `## ${escapeMarkdown(sheet.name)}\n\n${rowsToMarkdownTable(sheet.rows)}`).join('\n\n'),
+  },
+}
+
+// Formats that read as a document, and so can be written as DOCX
+const DOCUMENT_READERS: Partial<Record<FormatId, (text: string, name: string) => NyxDocument>> = {
+  nyxdoc: text => parseDocument(text),
+  md: (text, name) => markdownToDocument(text, baseName(name)),
+  html: (text, name) => htmlToDocument(text, baseName(name)),
+}
+
+const IMAGE_FORMATS: FormatId[] = ['png', 'jpg', 'webp']
+
+export const CONVERSION_ROUTES: Partial<Record<FormatId, FormatId[]>> = {
+  ...Object.fromEntries(Object.entries(TEXT_CONVERTERS).map(([from, targets]) => [
+    from,
+    [...Object.keys(targets!), ...(DOCUMENT_READERS[from as FormatId] ? ['docx'] : [])] as FormatId[],
+  ])),
+  ...Object.fromEntries(IMAGE_FORMATS.map(from => [from, [...IMAGE_FORMATS.filter(to => to !== from), 'pdf']])),
+}
+
+export const canConvert = (from: FormatId, to: FormatId) => !!CONVERSION_ROUTES[from]?.includes(to)
+
+// Converts text content between two text formats. Throws ConversionError for unsupported routes.
+export const convertText = (from: FormatId, to: FormatId, text: string, fileName = `file.${from}`): string => {
+  const converter = TEXT_CONVERTERS[from]?.[to]
+  if (!converter) throw new ConversionError(`Can't convert ${from.toUpperCase()} to ${to.toUpperCase()}`)
+  return converter(text.replace(/^\uFEFF/, ''), fileName)
+}
+
+// ---------------------------------------------------------------------------
+// Images (browser only)
+
+const drawImage = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob).catch(() => {
+    throw new ConversionError('The image could not be decoded')
+  })
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const context = canvas.getContext('2d')
+  if (!context) throw new ConversionError('Canvas is not available')
+  return { canvas, context, bitmap }
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob && blob.type === mimeType ? resolve(blob) : reject(new ConversionError(`This browser can't encode ${mimeType}`))),
+      mimeType,
+      quality
+    )
+  })
+
+export const reencodeImage = async (blob: Blob, to: FormatId, quality = 0.92): Promise<Blob> => {
+  const { canvas, context, bitmap } = await drawImage(blob)
+  if (to === 'jpg') {
+    // JPEG has no alpha channel; flatten onto white instead of black
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return canvasToBlob(canvas, getFormat(to).mimeType, to === 'png' ? undefined : quality)
+}
+
+export const imagesToPdf = async (blobs: Blob[], title?: string): Promise<Blob> => {
+  const pages = await Promise.all(blobs.map(async blob => {
+    const jpeg = await reencodeImage(blob, 'jpg')
+    const bitmap = await createImageBitmap(jpeg)
+    const { width, height } = bitmap
+    bitmap.close()
+    return { jpeg: new Uint8Array(await jpeg.arrayBuffer()), width, height }
+  }))
+  return new Blob([createImagePdf(pages, { title }).buffer as ArrayBuffer], { type: 'application/pdf' })
+}
+
+export interface ConversionResult {
+  blob: Blob
+  fileName: string
+}
+
+export const convertFile = async (file: Blob, fileName: string, from: FormatId, to: FormatId): Promise<ConversionResult> => {
+  if (!canConvert(from, to)) throw new ConversionError(`Can't convert ${from.toUpperCase()} to ${to.toUpperCase()}`)
+
+  const target = getFormat(to)
+  let blob: Blob
+  if (IMAGE_FORMATS.includes(from)) {
+    blob = to === 'pdf' ? await imagesToPdf([file], baseName(fileName)) : await reencodeImage(file, to)
+  } else if (to === 'docx') {
+    const { text } = decodeText(await file.arrayBuffer())
+    const docx = documentToDocx(DOCUMENT_READERS[from]!(text.replace(/^\uFEFF/, ''), fileName))
+    blob = new Blob([docx.buffer as ArrayBuffer], { type: target.mimeType })
+  } else {
+    const { text } = decodeText(await file.arrayBuffer())
+    blob = new Blob([convertText(from, to, text, fileName)], { type: `${target.mimeType};charset=utf-8` })
+  }
+  return { blob, fileName: convertedFileName(fileName, to) }
+}
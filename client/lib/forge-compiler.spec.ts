@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { compileForgeApp, extractSource, findComponentName, ForgeCompileError } from "./forge-compiler";
+
+const COUNTER = `const Counter = () => {
+  const [count, setCount] = React.useState<number>(0);
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+};`;
+
+describe("extractSource", () => {
+  it("takes the first fenced code block from a model response", () => {
+    const text = "Here you go:\n```jsx\nconst A = () => null\n```\nEnjoy!";
+    expect(extractSource(text)).toBe("const A = () => null");
+  });
+
+  it("returns plain source unchanged", () => {
+    expect(extractSource("  const A = () => null  ")).toBe("const A = () => null");
+  });
+});
+
+describe("findComponentName", () => {
+  it("picks the last top-level capitalised declaration", () => {
+    const source = "const Row = () => null\nconst helper = 1\nfunction TodoApp() { return null }";
+    expect(findComponentName(source)).toBe("TodoApp");
+  });
+
+  it("ignores lowercase and nested declarations", () => {
+    expect(findComponentName("const app = () => { const Inner = 1 }")).toBeNull();
+  });
+});
+
+describe("compileForgeApp", () => {
+  it("transpiles TSX to plain JavaScript using React.createElement", async () => {
+    const result = await compileForgeApp("```tsx\n" + COUNTER + "\n```");
+    expect(result.componentName).toBe("Counter");
+    expect(result.code).toContain("React.createElement(\"button\"");
+    expect(result.code).not.toContain("<number>");
+  });
+
+  it("produces code that runs against a React implementation", async () => {
+    const result = await compileForgeApp(COUNTER);
+    const React = {
+      useState: (initial: number) => [initial, () => {}],
+      createElement: (type: string, props: unknown, ...children: unknown[]) => ({ type, props, children }),
+    };
+    const run = new Function("React", `${result.code}\nreturn ${result.componentName};`);
+    const element = run(React)();
+    expect(element.type).toBe("button");
+    expect(element.children).toEqual([0]);
+  });
+
+  it("uses the default export when there is one", async () => {
+    const result = await compileForgeApp("export default function () { return <div /> }");
+    expect(result.componentName).toBeNull();
+    expect(result.code).toContain("exports.default");
+  });
+
+  it("reports syntax errors with line numbers", async () => {
+    const error = await compileForgeApp("const Broken = () => {\n  return <div>\n}").catch((e) => e);
+    expect(error).toBeInstanceOf(ForgeCompileError);
+    expect(error.diagnostics.length).toBeGreaterThan(0);
+    expect(error.diagnostics[0].line).toBeGreaterThan(0);
+  });
+
+  it("rejects source without a component", async () => {
+    await expect(compileForgeApp("const answer = 42")).rejects.toThrow(/No component found/);
+  });
+});
@@ -0,0 +1,85 @@
+// Turns AppForge-generated component source into a script the sandbox can run.
+// The TypeScript compiler is only loaded the first time an app is compiled.
+
+export interface CompiledForgeApp {
+  code: string // CommonJS module body, see wrapModule in forge-sandbox
+  componentName: string | null // null when the module has a default export
+}
+
+export interface ForgeCompileDiagnostic {
+  message: string
+  line?: number // 1-based, relative to the extracted source
+  column?: number
+}
+
+export class ForgeCompileError extends Error {
+  constructor(public diagnostics: ForgeCompileDiagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join('\n'))
+    this.name = 'ForgeCompileError'
+  }
+}
+
+export const formatDiagnostic = (diagnostic: ForgeCompileDiagnostic) =>
+  diagnostic.line ? `Line ${diagnostic.line}:${diagnostic.column ?? 1} ${diagnostic.message}` : diagnostic.message
+
+// Model responses usually wrap the component in a markdown fence; take the first code block
+export const extractSource = (text: string): string => {
+  const fence = text.match(/```[\w-]*\r?\n([\s\S]*?)```/)
+  return (fence ? fence[1] : text).trim()
+}
+
+// Finds the component the generated source defines: the last top-level capitalised const/function
+export const findComponentName = (source: string): string | null => {
+  const pattern = /^(?:export\s+)?(?:const|let|var|function|class)\s+([A-Z][A-Za-z0-9_$]*)/gm
+  let name: string | null = null
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    name = match[1]
+  }
+  return name
+}
+
+const hasDefaultExport = (source: string) => /^export\s+default\b/m.test(source)
+
+let typescript: Promise<typeof import('typescript')> | null = null
+const loadTypeScript = () => {
+  if (!typescript) {
+    typescript = import('typescript').then(module => ((module as any).default ?? module) as typeof import('typescript'))
+  }
+  return typescript
+}
+
+export const compileForgeApp = async (text: string): Promise<CompiledForgeApp> => {
+  const source = extractSource(text)
+  if (!source) {
+    throw new ForgeCompileError([{ message: 'The generated app is empty' }])
+  }
+
+  const componentName = hasDefaultExport(source) ? null : findComponentName(source)
+  if (!componentName && !hasDefaultExport(source)) {
+    throw new ForgeCompileError([{ message: 'No component found. Define one like `const MyApp = () => { ... }`' }])
+  }
+
+  const ts = await loadTypeScript()
+  const result = ts.transpileModule(source, {
+    fileName: 'App.tsx',
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2019,
+      module: ts.ModuleKind.CommonJS,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+    },
+  })
+
+  const errors = (result.diagnostics || []).filter(d => d.category === ts.DiagnosticCategory.Error)
+  if (errors.length > 0) {
+    throw new ForgeCompileError(errors.map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      if (!diagnostic.file || diagnostic.start === undefined) return { message }
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      return { message, line: line + 1, column: character + 1 }
+    }))
+  }
+
+  return { code: result.outputText, componentName }
+}
@@ -0,0 +1,190 @@
+import reactSource from '../../node_modules/react/umd/react.production.min.js?raw'
+import reactDomSource from '../../node_modules/react-dom/umd/react-dom.production.min.js?raw'
+import type { CompiledForgeApp } from '@/lib/forge-compiler'
+
+// The sandbox document for AppForge apps. It runs in an iframe with only
+// `allow-scripts`, so it has an opaque origin and no access to the OS, its
+// storage or the network. The only way out is the postMessage bridge below.
+
+export const FORGE_CHANNEL = 'nyx-forge'
+
+export type ForgeRequest =
+  | { type: 'ready' }
+  | { type: 'error'; message: string; stack?: string }
+  | { type: 'setTitle'; title: string }
+  | { type: 'notify'; title: string; body: string }
+  | { type: 'storage.get'; id: number; key: string }
+  | { type: 'storage.set'; id: number; key: string; value: string }
+  | { type: 'storage.remove'; id: number; key: string }
+  | { type: 'storage.keys'; id: number }
+
+export interface ForgeResponse {
+  channel: typeof FORGE_CHANNEL
+  type: 'response'
+  id: number
+  result?: unknown
+  error?: string
+}
+
+const MAX_STRING = 64 * 1024
+
+const isString = (value: unknown, max = MAX_STRING): value is string =>
+  typeof value === 'string' && value.length <= max
+
+// Messages come from untrusted code; anything that doesn't match the protocol exactly is dropped
+export const parseForgeRequest = (data: unknown): ForgeRequest | null => {
+  if (!data || typeof data !== 'object') return null
+  const message = data as Record<string, any>
+  if (message.channel !== FORGE_CHANNEL) return null
+
+  switch (message.type) {
+    case 'ready':
+      return { type: 'ready' }
+    case 'error':
+      return isString(message.message)
+        ? { type: 'error', message: message.message, stack: isString(message.stack) ? message.stack : undefined }
+        : null
+    case 'setTitle':
+      return isString(message.title, 200) ? { type: 'setTitle', title: message.title } : null
+    case 'notify':
+      return isString(message.title, 200) && isString(message.body, 1000)
+        ? { type: 'notify', title: message.title, body: message.body }
+        : null
+    case 'storage.get':
+    case 'storage.remove':
+      return Number.isInteger(message.id) && isString(message.key, 256)
+        ? { type: message.type, id: message.id, key: message.key }
+        : null
+    case 'storage.set':
+      return Number.isInteger(message.id) && isString(message.key, 256) && isString(message.value)
+        ? { type: 'storage.set', id: message.id, key: message.key, value: message.value }
+        : null
+    case 'storage.keys':
+      return Number.isInteger(message.id) ? { type: 'storage.keys', id: message.id } : null
+    default:
+      return null
+  }
+}
+
+// Exposed to the app as `window.nyx` (and `nyx` inside the component module)
+const BRIDGE_SCRIPT = `
+(function () {
+  var channel = ${JSON.stringify(FORGE_CHANNEL)};
+  var pending = {};
+  var nextId = 0;
+  function post(message) {
+    message.channel = channel;
+    parent.postMessage(message, '*');
+  }
+  function request(message) {
+    return new Promise(function (resolve, reject) {
+      message.id = ++nextId;
+      pending[message.id] = { resolve: resolve, reject: reject };
+      post(message);
+    });
+  }
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.channel !== channel || data.type !== 'response') return;
+    var entry = pending[data.id];
+    if (!entry) return;
+    delete pending[data.id];
+    if (data.error) entry.reject(new Error(data.error)); else entry.resolve(data.result);
+  });
+  window.__nyxReportError = function (error) {
+    var message = error && error.message ? error.message : String(error);
+    post({ type: 'error', message: message.slice(0, 4000), stack: error && error.stack ? String(error.stack).slice(0, 4000) : undefined });
+  };
+  window.addEventListener('error', function (event) { window.__nyxReportError(event.error || event.message); });
+  window.addEventListener('unhandledrejection', function (event) { window.__nyxReportError(event.reason); });
+  window.__nyxReady = function () { post({ type: 'ready' }); };
+  window.nyx = Object.freeze({
+    setTitle: function (title) { post({ type: 'setTitle', title: String(title).slice(0, 200) }); },
+    notify: function (title, body) { post({ type: 'notify', title: String(title).slice(0, 200), body: String(body || '').slice(0, 1000) }); },
+    storage: Object.freeze({
+      getItem: function (key) { return request({ type: 'storage.get', key: String(key) }); },
+      setItem: function (key, value) { return request({ type: 'storage.set', key: String(key), value: String(value) }); },
+      removeItem: function (key) { return request({ type: 'storage.remove', key: String(key) }); },
+      keys: function () { return request({ type: 'storage.keys' }); }
+    })
+  });
+})();
+`
+
+// Evaluates the compiled CommonJS module and mounts its component under an error boundary
+const mountScript = (app: CompiledForgeApp) => `
+(function () {
+  try {
+    var module = { exports: {} };
+    var require = function (name) {
+      if (name === 'react') return React;
+      if (name === 'react-dom' || name === 'react-dom/client') return ReactDOM;
+      throw new Error('Module "' + name + '" is not available to AppForge apps');
+    };
+    var Component = (function (exports, module, require, React, nyx) {
+      var useState = React.useState, useEffect = React.useEffect, useRef = React.useRef,
+        useMemo = React.useMemo, useCallback = React.useCallback, useReducer = React.useReducer;
+      {
+${app.code}
+      return ${app.componentName ? `typeof ${app.componentName} !== 'undefined' ? ${app.componentName} : undefined` : 'module.exports.default'};
+      }
+    })(module.exports, module, require, React, window.nyx);
+    if (typeof Component !== 'function') throw new Error('The app does not export a React component');
+
+    class Boundary extends React.Component {
+      constructor(props) { super(props); this.state = { error: null }; }
+      static getDerivedStateFromError(error) { return { error: error }; }
+      componentDidCatch(error) { window.__nyxReportError(error); }
+      render() {
+        if (this.state.error) {
+          return React.createElement('pre', { className: 'forge-crash' }, String(this.state.error.message || this.state.error));
+        }
+        return this.props.children;
+      }
+    }
+
+    ReactDOM.createRoot(document.getElementById('root')).render(
+      React.createElement(Boundary, null, React.createElement(Component))
+    );
+    window.__nyxReady();
+  } catch (error) {
+    window.__nyxReportError(error);
+  }
+})();
+`
+
+// Inline scripts must not close the surrounding <script> element early
+const inline = (script: string) => script.replace(/<\/script/gi, '<\\/script')
+
+export const buildSandboxDocument = (app: CompiledForgeApp, styles = '') => `<!DOCTYPE html>
+<html class="dark">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src data: blob:; media-src data: blob:; font-src data:">
+<style>${styles.replace(/<\/style/gi, '<\\/style')}</style>
+<style>
+  html, body, #root { height: 100%; margin: 0; background: transparent; color: white; }
+  .forge-crash { margin: 16px; padding: 12px; color: #fca5a5; background: rgba(127, 29, 29, 0.4); border-radius: 8px; white-space: pre-wrap; font: 12px monospace; }
+</style>
+</head>
+<body>
+<div id="root"></div>
+<script>${inline(BRIDGE_SCRIPT)}</script>
+<script>${inline(reactSource)}</script>
+<script>${inline(reactDomSource)}</script>
+<script>${inline(mountScript(app))}</script>
+</body>
+</html>`
+
+// Copies the OS stylesheet rules so Tailwind classes in generated apps render the same
+export const collectHostStyles = (): string => {
+  const rules: string[] = []
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) rules.push(rule.cssText)
+    } catch {
+      // Cross-origin stylesheets can't be read
+    }
+  }
+  return rules.join('\n')
+}
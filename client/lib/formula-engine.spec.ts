@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { FormulaEngine, FormulaError, columnIndex, columnName, removeRowFromFormula } from "./formula-engine";
+
+const code = (value: unknown) => (value instanceof FormulaError ? value.code : value);
+
+describe("FormulaEngine", () => {
+  it("evaluates arithmetic with cell references", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "2", B2: "3", C1: "=A1+B2*2^2" });
+    expect(engine.getValue("Sheet1", "C1")).toBe(14);
+  });
+
+  it("supports ranges and built-in functions", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", {
+      A1: "1",
+      A2: "2",
+      A3: "3",
+      A4: "text",
+      B1: "=SUM(A1:A4)",
+      B2: "=AVERAGE(A1:A3)",
+      B3: "=MIN(A1:A3)",
+      B4: "=MAX(A1:A3)",
+      B5: "=COUNT(A1:A4)",
+      B6: '=IF(A1>1, "big", "small")',
+      B7: '=CONCAT(A4, "-", A3)',
+    });
+    expect(engine.getValue("Sheet1", "B1")).toBe(6);
+    expect(engine.getValue("Sheet1", "B2")).toBe(2);
+    expect(engine.getValue("Sheet1", "B3")).toBe(1);
+    expect(engine.getValue("Sheet1", "B4")).toBe(3);
+    expect(engine.getValue("Sheet1", "B5")).toBe(3);
+    expect(engine.getValue("Sheet1", "B6")).toBe("small");
+    expect(engine.getValue("Sheet1", "B7")).toBe("text-3");
+  });
+
+  it("looks up values with VLOOKUP", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", {
+      A1: "apple", B1: "1.5",
+      A2: "banana", B2: "0.25",
+      C1: '=VLOOKUP("banana", A1:B2, 2, FALSE)',
+      C2: '=VLOOKUP("cherry", A1:B2, 2, FALSE)',
+    });
+    expect(engine.getValue("Sheet1", "C1")).toBe(0.25);
+    expect(code(engine.getValue("Sheet1", "C2"))).toBe("#N/A");
+  });
+
+  it("resolves cross-sheet references", () => {
+    const engine = new FormulaEngine();
+    engine.addSheet("Sheet 1");
+    engine.setCell("Data", "A1", "10");
+    engine.setCell("Sheet 1", "A1", "=Data!A1*2+'Data'!A1");
+    expect(engine.getValue("Sheet 1", "A1")).toBe(30);
+
+    engine.setCell("Sheet 1", "A2", "=Missing!A1");
+    expect(code(engine.getValue("Sheet 1", "A2"))).toBe("#REF!");
+  });
+
+  it("recalculates only dependents of the edited cell", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "1", B1: "=A1+1", C1: "=B1+1", D1: "5", E1: "=D1" });
+    const recalculated = engine.setCell("Sheet1", "A1", "10");
+    expect(recalculated.sort()).toEqual(["sheet1!A1", "sheet1!B1", "sheet1!C1"]);
+    expect(engine.getValue("Sheet1", "C1")).toBe(12);
+  });
+
+  it("tracks large ranges without expanding them", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "2", Z100000: "3", AA1: "=SUM(A1:Z100000)", AB1: "=AA1*2" });
+    expect(engine.getValue("Sheet1", "AA1")).toBe(5);
+
+    expect(engine.setCell("Sheet1", "M5000", "10").sort()).toEqual(["sheet1!AA1", "sheet1!AB1", "sheet1!M5000"]);
+    expect(engine.getValue("Sheet1", "AB1")).toBe(30);
+    expect(engine.setCell("Sheet1", "A100001", "7")).toEqual(["sheet1!A100001"]);
+  });
+
+  it("flags a range that contains its own formula as circular", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "1", A2: "=SUM(A1:A3)" });
+    expect(code(engine.getValue("Sheet1", "A2"))).toBe("#CIRC!");
+    engine.setCell("Sheet1", "A2", "=SUM(A1,A3)");
+    expect(engine.getValue("Sheet1", "A2")).toBe(1);
+  });
+
+  it("shows long integers in full and trims noise from fractions", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "4111111111111111", A2: "1234567890123", A3: "=0.1+0.2", A4: "=A2+0.5", A5: "=1/3" });
+    expect(engine.getDisplayValue("Sheet1", "A1")).toBe("4111111111111111");
+    expect(engine.getDisplayValue("Sheet1", "A2")).toBe("1234567890123");
+    expect(engine.getDisplayValue("Sheet1", "A3")).toBe("0.3");
+    expect(engine.getDisplayValue("Sheet1", "A4")).toBe("1234567890123.5");
+    expect(engine.getDisplayValue("Sheet1", "A5")).toBe("0.333333333333333");
+  });
+
+  it("keeps numbers with leading zeros as text", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "02134", A2: "007.5", A3: "0", A4: "0.25", A5: "-0.5", B1: '=A1&"-x"', B2: "=SUM(A1:A5)" });
+    expect(engine.getValue("Sheet1", "A1")).toBe("02134");
+    expect(engine.getValue("Sheet1", "A2")).toBe("007.5");
+    expect(engine.getValue("Sheet1", "A3")).toBe(0);
+    expect(engine.getValue("Sheet1", "A4")).toBe(0.25);
+    expect(engine.getValue("Sheet1", "A5")).toBe(-0.5);
+    expect(engine.getValue("Sheet1", "B1")).toBe("02134-x");
+    expect(engine.getValue("Sheet1", "B2")).toBe(-0.25);
+  });
+
+  it("flags circular references and recovers once the cycle is broken", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "=B1", B1: "=A1+1", C1: "=A1" });
+    expect(code(engine.getValue("Sheet1", "A1"))).toBe("#CIRC!");
+    expect(code(engine.getValue("Sheet1", "C1"))).toBe("#CIRC!");
+
+    engine.setCell("Sheet1", "B1", "4");
+    expect(engine.getValue("Sheet1", "A1")).toBe(4);
+    expect(engine.getValue("Sheet1", "C1")).toBe(4);
+  });
+
+  it("reports errors for bad input", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "=1/0", A2: "=NOPE(1)", A3: '="a"+1', A4: "=SUM(" });
+    expect(code(engine.getValue("Sheet1", "A1"))).toBe("#DIV/0!");
+    expect(code(engine.getValue("Sheet1", "A2"))).toBe("#NAME?");
+    expect(code(engine.getValue("Sheet1", "A3"))).toBe("#VALUE!");
+    expect(code(engine.getValue("Sheet1", "A4"))).toBe("#NAME?");
+  });
+
+  it("turns references into #REF! when their sheet is removed", () => {
+    const engine = new FormulaEngine();
+    engine.setCell("Data", "A1", "3");
+    engine.setCell("Main", "A1", "=Data!A1");
+    expect(engine.getValue("Main", "A1")).toBe(3);
+    engine.removeSheet("Data");
+    expect(code(engine.getValue("Main", "A1"))).toBe("#REF!");
+  });
+
+  it("resolves ranges on a sheet once it is added and drops them when it is removed", () => {
+    const engine = new FormulaEngine();
+    engine.setCell("Main", "A1", "=SUM(Data!A1:B2)");
+    expect(code(engine.getValue("Main", "A1"))).toBe("#REF!");
+    engine.addSheet("Data");
+    expect(engine.getValue("Main", "A1")).toBe(0);
+    engine.setCell("Data", "B2", "4");
+    expect(engine.getValue("Main", "A1")).toBe(4);
+    engine.removeSheet("Data");
+    expect(code(engine.getValue("Main", "A1"))).toBe("#REF!");
+  });
+});
+
+describe("removeRowFromFormula", () => {
+  // Row 3 (index 2) of Sheet1 is deleted
+  const remove = (formula: string, sheet = "Sheet1") => removeRowFromFormula(formula, sheet, "Sheet1", 2);
+
+  it("moves references below the deleted row up and leaves those above", () => {
+    expect(remove("=A1+B4*$C$10")).toBe("=A1+B3*$C$9");
+    expect(remove("=SUM(A1:A2)")).toBe("=SUM(A1:A2)");
+    expect(remove("=SUM(A4:B6)")).toBe("=SUM(A3:B5)");
+  });
+
+  it("turns references to the deleted row into #REF!", () => {
+    expect(remove("=A3+1")).toBe("=#REF!+1");
+    expect(remove("=SUM(A3:B3)")).toBe("=SUM(#REF!)");
+    expect(remove("='Sheet1'!A3")).toBe("=#REF!");
+  });
+
+  it("shrinks ranges that span or end on the deleted row", () => {
+    expect(remove("=SUM(A1:A5)")).toBe("=SUM(A1:A4)");
+    expect(remove("=SUM(A1:A3)")).toBe("=SUM(A1:A2)");
+    expect(remove("=SUM(A3:A5)")).toBe("=SUM(A3:A4)");
+    expect(remove("=SUM(A5:A1)")).toBe("=SUM(A4:A1)");
+  });
+
+  it("only rewrites references to the sheet the row was deleted from", () => {
+    expect(remove("=A4+Sheet1!A4", "Sheet2")).toBe("=A4+Sheet1!A3");
+    expect(remove("=Sheet2!A4+'sheet1'!A4")).toBe("=Sheet2!A4+'sheet1'!A3");
+  });
+
+  it("leaves text, function names and literals alone", () => {
+    expect(remove('="A4"&A4')).toBe('="A4"&A3');
+    expect(remove("=LOG10(A5)")).toBe("=LOG10(A4)");
+    expect(remove("A4")).toBe("A4");
+  });
+
+  it("evaluates the #REF! it leaves behind", () => {
+    const engine = new FormulaEngine();
+    engine.setCells("Sheet1", { A1: "1", A2: "2", A3: "=A2*10", B1: remove("=A3+A2") });
+    expect(code(engine.getValue("Sheet1", "B1"))).toBe("#REF!");
+    engine.setCell("Sheet1", "B2", remove("=SUM(A1:A4)"));
+    expect(engine.getValue("Sheet1", "B2")).toBe(23);
+  });
+});
+
+describe("column helpers", () => {
+  it("round-trips column names", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(27)).toBe("AB");
+    expect(columnIndex("AB")).toBe(27);
+  });
+});
@@ -0,0 +1,888 @@
+// Spreadsheet formula engine: parses `=` formulas, tracks dependencies between cells
+// and recalculates only the cells affected by an edit.
+
+export type FormulaErrorCode = '#REF!' | '#CIRC!' | '#DIV/0!' | '#VALUE!' | '#NAME?' | '#N/A'
+
+export class FormulaError {
+  constructor(readonly code: FormulaErrorCode) {}
+
+  toString() {
+    return this.code
+  }
+}
+
+export type CellValue = number | string | boolean | null | FormulaError
+
+type RangeValue = CellValue[][]
+type EvalValue = CellValue | RangeValue
+
+interface CellPosition {
+  col: number
+  row: number
+}
+
+// A rectangle of cells, with its corners in order
+interface CellRange {
+  sheet: string
+  top: number
+  left: number
+  bottom: number
+  right: number
+}
+
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'ref'; sheet?: string; pos: CellPosition }
+  | { type: 'range'; sheet?: string; start: CellPosition; end: CellPosition }
+  | { type: 'unary'; op: '-' | '+' | '%'; operand: FormulaNode }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+
+// ---------- Addresses ----------
+
+export const columnName = (index: number): string => {
+  let col = ''
+  let num = index + 1
+  while (num > 0) {
+    num--
+    col = String.fromCharCode(65 + (num % 26)) + col
+    num = Math.floor(num / 26)
+  }
+  return col
+}
+
+export const columnIndex = (name: string): number => {
+  let index = 0
+  for (const ch of name.toUpperCase()) {
+    index = index * 26 + (ch.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+export const parseAddress = (address: string): CellPosition | null => {
+  const match = /^\$?([A-Za-z]{1,3})\$?(\d+)$/.exec(address.trim())
+  if (!match) return null
+  const row = parseInt(match[2], 10) - 1
+  if (row < 0) return null
+  return { col: columnIndex(match[1]), row }
+}
+
+export const formatAddress = (pos: CellPosition) => `${columnName(pos.col)}${pos.row + 1}`
+
+const sheetKey = (sheet: string) => sheet.toLowerCase()
+const cellKey = (sheet: string, pos: CellPosition) => `${sheetKey(sheet)}!${formatAddress(pos)}`
+
+// ---------- Tokenizer ----------
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; sheet?: string; pos: CellPosition }
+  | { type: 'func'; name: string }
+  | { type: 'name'; name: string }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'op'; value: string }
+
+class FormulaSyntaxError extends Error {}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  const readRef = (sheet?: string) => {
+    const match = /^\$?([A-Za-z]{1,3})\$?(\d+)/.exec(input.slice(i))
+    if (!match) throw new FormulaSyntaxError(`Expected cell reference at ${i}`)
+    i += match[0].length
+    const row = parseInt(match[2], 10) - 1
+    tokens.push({ type: 'ref', sheet, pos: { col: columnIndex(match[1]), row: Math.max(row, -1) } })
+  }
+
+  while (i < input.length) {
+    const rest = input.slice(i)
+    const ch = input[i]
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    let match = /^'((?:[^']|'')+)'!/.exec(rest)
+    if (match) {
+      i += match[0].length
+      readRef(match[1].replace(/''/g, "'"))
+      continue
+    }
+
+    match = /^([A-Za-z_][A-Za-z0-9_.]*)!/.exec(rest)
+    if (match) {
+      i += match[0].length
+      readRef(match[1])
+      continue
+    }
+
+    match = /^([A-Za-z_][A-Za-z0-9_.]*)\s*\(/.exec(rest)
+    if (match) {
+      i += match[1].length
+      tokens.push({ type: 'func', name: match[1].toUpperCase() })
+      continue
+    }
+
+    match = /^\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_])/.exec(rest)
+    if (match) {
+      readRef()
+      continue
+    }
+
+    // Error literals, such as the #REF! left where a deleted row was referenced
+    match = /^#(?:REF!|CIRC!|DIV\/0!|VALUE!|NAME\?|N\/A)/i.exec(rest)
+    if (match) {
+      i += match[0].length
+      tokens.push({ type: 'error', code: match[0].toUpperCase() as FormulaErrorCode })
+      continue
+    }
+
+    match = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest)
+    if (match) {
+      i += match[0].length
+      tokens.push({ type: 'number', value: parseFloat(match[0]) })
+      continue
+    }
+
+    if (ch === '"') {
+      match = /^"((?:[^"]|"")*)"/.exec(rest)
+      if (!match) throw new FormulaSyntaxError('Unterminated string')
+      i += match[0].length
+      tokens.push({ type: 'string', value: match[1].replace(/""/g, '"') })
+      continue
+    }
+
+    match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(rest)
+    if (match) {
+      i += match[0].length
+      const upper = match[0].toUpperCase()
+      if (upper === 'TRUE' || upper === 'FALSE') {
+        tokens.push({ type: 'boolean', value: upper === 'TRUE' })
+      } else {
+        tokens.push({ type: 'name', name: match[0] })
+      }
+      continue
+    }
+
+    match = /^(<=|>=|<>|[-+*/^&=<>(),:%])/.exec(rest)
+    if (match) {
+      i += match[0].length
+      tokens.push({ type: 'op', value: match[0] })
+      continue
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character "${ch}"`)
+  }
+
+  return tokens
+}
+
+// ---------- Parser ----------
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+  '&': 2,
+  '+': 3, '-': 3,
+  '*': 4, '/': 4,
+  '^': 5,
+}
+
+const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula)
+  let pos = 0
+
+  const peek = () => tokens[pos]
+  const isOp = (value: string) => peek()?.type === 'op' && (peek() as any).value === value
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new FormulaSyntaxError(`Expected "${value}"`)
+    pos++
+  }
+
+  const parseExpression = (minPrecedence = 1): FormulaNode => {
+    let left = parseUnary()
+    while (true) {
+      const token = peek()
+      if (token?.type !== 'op') break
+      const precedence = BINARY_PRECEDENCE[token.value]
+      if (!precedence || precedence < minPrecedence) break
+      pos++
+      // ^ is right-associative, everything else left-associative
+      const right = parseExpression(token.value === '^' ? precedence : precedence + 1)
+      left = { type: 'binary', op: token.value, left, right }
+    }
+    return left
+  }
+
+  const parseUnary = (): FormulaNode => {
+    if (isOp('-') || isOp('+')) {
+      const op = (peek() as any).value as '-' | '+'
+      pos++
+      return { type: 'unary', op, operand: parseUnary() }
+    }
+    return parsePostfix()
+  }
+
+  const parsePostfix = (): FormulaNode => {
+    let node = parsePrimary()
+    while (isOp('%')) {
+      pos++
+      node = { type: 'unary', op: '%', operand: node }
+    }
+    return node
+  }
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek()
+    if (!token) throw new FormulaSyntaxError('Unexpected end of formula')
+    pos++
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value }
+      case 'string':
+        return { type: 'string', value: token.value }
+      case 'boolean':
+        return { type: 'boolean', value: token.value }
+      case 'name':
+        return { type: 'error', code: '#NAME?' }
+      case 'error':
+        return { type: 'error', code: token.code }
+      case 'ref': {
+        if (isOp(':')) {
+          pos++
+          const end = peek()
+          if (end?.type !== 'ref') throw new FormulaSyntaxError('Expected range end')
+          pos++
+          return { type: 'range', sheet: token.sheet, start: token.pos, end: end.pos }
+        }
+        return { type: 'ref', sheet: token.sheet, pos: token.pos }
+      }
+      case 'func': {
+        expectOp('(')
+        const args: FormulaNode[] = []
+        if (!isOp(')')) {
+          args.push(parseExpression())
+          while (isOp(',')) {
+            pos++
+            args.push(parseExpression())
+          }
+        }
+        expectOp(')')
+        return { type: 'call', name: token.name, args }
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = parseExpression()
+          expectOp(')')
+          return inner
+        }
+        throw new FormulaSyntaxError(`Unexpected "${token.value}"`)
+    }
+  }
+
+  const node = parseExpression()
+  if (pos < tokens.length) throw new FormulaSyntaxError('Unexpected trailing input')
+  return node
+}
+
+// ---------- Evaluation ----------
+
+interface EvalContext {
+  sheet: string
+  hasSheet: (sheet: string) => boolean
+  getValue: (sheet: string, pos: CellPosition) => CellValue
+  getRange: (range: CellRange) => RangeValue
+}
+
+const isError = (value: unknown): value is FormulaError => value instanceof FormulaError
+const isRange = (value: EvalValue): value is RangeValue => Array.isArray(value)
+
+const toNumber = (value: CellValue): number | FormulaError => {
+  if (isError(value)) return value
+  if (value === null || value === '') return 0
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  const parsed = Number(value)
+  return isNaN(parsed) ? new FormulaError('#VALUE!') : parsed
+}
+
+const toText = (value: CellValue): string => {
+  if (value === null) return ''
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'number') return formatNumber(value)
+  return String(value)
+}
+
+const toBoolean = (value: CellValue): boolean | FormulaError => {
+  if (isError(value)) return value
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'string') {
+    const upper = value.toUpperCase()
+    if (upper === 'TRUE') return true
+    if (upper === 'FALSE' || upper === '') return false
+    return new FormulaError('#VALUE!')
+  }
+  return (value ?? 0) !== 0
+}
+
+const scalar = (value: EvalValue): CellValue => (isRange(value) ? new FormulaError('#VALUE!') : value)
+
+const flatten = (values: EvalValue[]): { value: CellValue; fromRange: boolean }[] =>
+  values.flatMap<{ value: CellValue; fromRange: boolean }>(value =>
+    isRange(value)
+      ? value.flat().map(v => ({ value: v, fromRange: true }))
+      : [{ value, fromRange: false }],
+  )
+
+// Numbers for aggregate functions: ranges contribute only numeric cells, direct arguments are coerced
+const collectNumbers = (values: EvalValue[]): number[] | FormulaError => {
+  const numbers: number[] = []
+  // Walked directly rather than through flatten, as ranges can hold millions of cells
+  for (const value of values) {
+    if (isRange(value)) {
+      for (const row of value) {
+        for (const cell of row) {
+          if (isError(cell)) return cell
+          if (typeof cell === 'number') numbers.push(cell)
+        }
+      }
+      continue
+    }
+    if (isError(value)) return value
+    const num = toNumber(value)
+    if (isError(num)) return num
+    numbers.push(num)
+  }
+  return numbers
+}
+
+const compareValues = (a: CellValue, b: CellValue): number => {
+  const rank = (v: CellValue) => (typeof v === 'number' || v === null ? 0 : typeof v === 'string' ? 1 : 2)
+  if (rank(a) !== rank(b)) return rank(a) - rank(b)
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase().localeCompare(b.toLowerCase())
+  }
+  const na = toNumber(a) as number
+  const nb = toNumber(b) as number
+  return na === nb ? 0 : na < nb ? -1 : 1
+}
+
+type FormulaFunction = (args: EvalValue[]) => EvalValue
+
+const aggregate = (fn: (numbers: number[]) => CellValue): FormulaFunction => (args) => {
+  const numbers = collectNumbers(args)
+  return isError(numbers) ? numbers : fn(numbers)
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  SUM: aggregate(nums => nums.reduce((sum, n) => sum + n, 0)),
+  AVERAGE: aggregate(nums =>
+    nums.length ? nums.reduce((sum, n) => sum + n, 0) / nums.length : new FormulaError('#DIV/0!'),
+  ),
+  MIN: aggregate(nums => (nums.length ? Math.min(...nums) : 0)),
+  MAX: aggregate(nums => (nums.length ? Math.max(...nums) : 0)),
+  COUNT: (args) =>
+    flatten(args).filter(({ value, fromRange }) =>
+      fromRange ? typeof value === 'number' : !isError(toNumber(value)),
+    ).length,
+  COUNTA: (args) =>
+    flatten(args).filter(({ value }) => value !== null && value !== '').length,
+  ABS: (args) => {
+    const num = toNumber(scalar(args[0] ?? null))
+    return isError(num) ? num : Math.abs(num)
+  },
+  ROUND: (args) => {
+    const num = toNumber(scalar(args[0] ?? null))
+    const digits = toNumber(scalar(args[1] ?? 0))
+    if (isError(num)) return num
+    if (isError(digits)) return digits
+    const factor = Math.pow(10, Math.trunc(digits))
+    return Math.round(num * factor) / factor
+  },
+  IF: (args) => {
+    if (args.length < 2) return new FormulaError('#VALUE!')
+    const condition = toBoolean(scalar(args[0]))
+    if (isError(condition)) return condition
+    return condition ? args[1] : (args[2] ?? false)
+  },
+  AND: (args) => {
+    for (const { value } of flatten(args)) {
+      const bool = toBoolean(value)
+      if (isError(bool)) return bool
+      if (!bool) return false
+    }
+    return true
+  },
+  OR: (args) => {
+    for (const { value } of flatten(args)) {
+      const bool = toBoolean(value)
+      if (isError(bool)) return bool
+      if (bool) return true
+    }
+    return false
+  },
+  NOT: (args) => {
+    const bool = toBoolean(scalar(args[0] ?? null))
+    return isError(bool) ? bool : !bool
+  },
+  LEN: (args) => {
+    const value = scalar(args[0] ?? null)
+    return isError(value) ? value : toText(value).length
+  },
+  CONCAT: (args) => {
+    let text = ''
+    for (const { value } of flatten(args)) {
+      if (isError(value)) return value
+      text += toText(value)
+    }
+    return text
+  },
+  VLOOKUP: (args) => {
+    if (args.length < 3) return new FormulaError('#VALUE!')
+    const lookup = scalar(args[0])
+    const table = args[1]
+    const colIndex = toNumber(scalar(args[2]))
+    const approximate = args.length > 3 ? toBoolean(scalar(args[3])) : true
+    if (isError(lookup)) return lookup
+    if (isError(colIndex)) return colIndex
+    if (isError(approximate)) return approximate
+    if (!isRange(table)) return new FormulaError('#VALUE!')
+    const col = Math.trunc(colIndex) - 1
+    if (col < 0) return new FormulaError('#VALUE!')
+    if (table.length > 0 && col >= table[0].length) return new FormulaError('#REF!')
+
+    if (!approximate) {
+      const row = table.find(r => r[0] !== null && compareValues(r[0], lookup) === 0)
+      return row ? row[col] : new FormulaError('#N/A')
+    }
+
+    // Approximate match: last row whose key is <= lookup, assuming the first column is sorted
+    let match: CellValue[] | null = null
+    for (const row of table) {
+      if (row[0] === null) continue
+      if (compareValues(row[0], lookup) > 0) break
+      match = row
+    }
+    return match ? match[col] : new FormulaError('#N/A')
+  },
+}
+
+export const SUPPORTED_FUNCTIONS = Object.keys(FUNCTIONS)
+
+const evaluateNode = (node: FormulaNode, ctx: EvalContext): EvalValue => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value
+    case 'error':
+      return new FormulaError(node.code)
+    case 'ref': {
+      const sheet = node.sheet ?? ctx.sheet
+      if (node.pos.row < 0 || !ctx.hasSheet(sheet)) return new FormulaError('#REF!')
+      return ctx.getValue(sheet, node.pos)
+    }
+    case 'range': {
+      const sheet = node.sheet ?? ctx.sheet
+      if (node.start.row < 0 || node.end.row < 0 || !ctx.hasSheet(sheet)) return new FormulaError('#REF!')
+      return ctx.getRange(rangeOf(node, sheet))
+    }
+    case 'unary': {
+      const num = toNumber(scalar(evaluateNode(node.operand, ctx)))
+      if (isError(num)) return num
+      if (node.op === '%') return num / 100
+      return node.op === '-' ? -num : num
+    }
+    case 'binary': {
+      const left = scalar(evaluateNode(node.left, ctx))
+      const right = scalar(evaluateNode(node.right, ctx))
+      if (isError(left)) return left
+      if (isError(right)) return right
+
+      if (node.op === '&') return toText(left) + toText(right)
+
+      if (['=', '<>', '<', '>', '<=', '>='].includes(node.op)) {
+        const cmp = compareValues(left, right)
+        switch (node.op) {
+          case '=': return cmp === 0
+          case '<>': return cmp !== 0
+          case '<': return cmp < 0
+          case '>': return cmp > 0
+          case '<=': return cmp <= 0
+          default: return cmp >= 0
+        }
+      }
+
+      const a = toNumber(left)
+      const b = toNumber(right)
+      if (isError(a)) return a
+      if (isError(b)) return b
+      switch (node.op) {
+        case '+': return a + b
+        case '-': return a - b
+        case '*': return a * b
+        case '/': return b === 0 ? new FormulaError('#DIV/0!') : a / b
+        case '^': return Math.pow(a, b)
+      }
+      return new FormulaError('#VALUE!')
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name]
+      if (!fn) return new FormulaError('#NAME?')
+      // IF only evaluates the branch it returns, so an error in the other branch is ignored
+      if (node.name === 'IF') {
+        const condition = toBoolean(scalar(evaluateNode(node.args[0] ?? { type: 'boolean', value: false }, ctx)))
+        if (isError(condition)) return condition
+        if (node.args.length < 2) return new FormulaError('#VALUE!')
+        const branch = condition ? node.args[1] : node.args[2]
+        return branch ? evaluateNode(branch, ctx) : false
+      }
+      return fn(node.args.map(arg => evaluateNode(arg, ctx)))
+    }
+  }
+}
+
+const rangeOf = (node: { start: CellPosition; end: CellPosition }, sheet: string): CellRange => ({
+  sheet,
+  top: Math.min(node.start.row, node.end.row),
+  left: Math.min(node.start.col, node.end.col),
+  bottom: Math.max(node.start.row, node.end.row),
+  right: Math.max(node.start.col, node.end.col),
+})
+
+// Ranges are kept whole rather than as their cells, since =SUM(A1:Z100000)
+// would otherwise add millions of dependency entries
+interface References {
+  cells: Set<string>
+  ranges: CellRange[]
+}
+
+const noReferences = (): References => ({ cells: new Set(), ranges: [] })
+
+const inRange = (range: CellRange, sheet: string, pos: CellPosition) =>
+  sheetKey(range.sheet) === sheetKey(sheet) && pos.row >= range.top && pos.row <= range.bottom && pos.col >= range.left && pos.col <= range.right
+
+const collectReferences = (node: FormulaNode, sheet: string, out: References) => {
+  switch (node.type) {
+    case 'ref':
+      if (node.pos.row >= 0) out.cells.add(cellKey(node.sheet ?? sheet, node.pos))
+      break
+    case 'range': {
+      if (node.start.row < 0 || node.end.row < 0) break
+      out.ranges.push(rangeOf(node, node.sheet ?? sheet))
+      break
+    }
+    case 'unary':
+      collectReferences(node.operand, sheet, out)
+      break
+    case 'binary':
+      collectReferences(node.left, sheet, out)
+      collectReferences(node.right, sheet, out)
+      break
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, sheet, out))
+      break
+  }
+}
+
+// ---------- Row deletion ----------
+
+// A cell or range reference with an optional sheet, not inside a name or before "("
+const REFERENCE = /(?<![\w.$!'])((?:'(?:[^']|'')+'|[A-Za-z_][A-Za-z0-9_.]*)!)?(\$?[A-Za-z]{1,3}\$?)(\d+)(?::(\$?[A-Za-z]{1,3}\$?)(\d+))?(?![\w(])/g
+
+/**
+ * Rewrites a cell's input for `row` (0-based) of `sheet` being deleted: references
+ * below it move up, references to it become #REF!, and ranges across it shrink.
+ * `formulaSheet` is the sheet holding the cell; anything that isn't a formula is returned as is.
+ */
+export const removeRowFromFormula = (raw: string, formulaSheet: string, sheet: string, row: number): string => {
+  if (!raw.startsWith('=')) return raw
+  const deleted = row + 1 // as written in addresses
+  const shift = (written: number) => (written > deleted ? written - 1 : written)
+
+  // Text inside string literals is left alone
+  return raw.split(/("(?:[^"]|"")*")/).map((part, index) => index % 2 === 1 ? part : part.replace(
+    REFERENCE,
+    (match, prefix: string | undefined, startCol: string, startRow: string, endCol?: string, endRow?: string) => {
+      const refSheet = prefix ? prefix.slice(0, -1).replace(/^'|'$/g, '').replace(/''/g, "'") : formulaSheet
+      if (sheetKey(refSheet) !== sheetKey(sheet)) return match
+      const start = Number(startRow)
+      if (endCol === undefined) return start === deleted ? '#REF!' : `${prefix ?? ''}${startCol}${shift(start)}`
+
+      const end = Number(endRow)
+      if (start === deleted && end === deleted) return '#REF!'
+      // The corner on the deleted row stays put if it is the top (the next row moves into it) and moves up if it is the bottom
+      const corner = (written: number, other: number) => (written === deleted && written > other ? written - 1 : shift(written))
+      return `${prefix ?? ''}${startCol}${corner(start, end)}:${endCol}${corner(end, start)}`
+    },
+  )).join('')
+}
+
+// ---------- Display ----------
+
+export const formatNumber = (value: number): string => {
+  if (!isFinite(value)) return new FormulaError('#DIV/0!').code
+  // Integers are exact, however long (card numbers, IDs)
+  if (Number.isInteger(value)) return String(value)
+  // Trim floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return String(Number(value.toPrecision(15)))
+}
+
+export const formatCellValue = (value: CellValue): string => {
+  if (value === null) return ''
+  if (isError(value)) return value.code
+  if (typeof value === 'number') return formatNumber(value)
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  return value
+}
+
+// ---------- Engine ----------
+
+interface CellRecord {
+  sheet: string
+  pos: CellPosition
+  raw: string
+  formula?: FormulaNode
+  value: CellValue
+}
+
+const parseLiteral = (raw: string): CellValue => {
+  const trimmed = raw.trim()
+  if (trimmed === '') return null
+  // Leading zeros mark codes such as zip codes and IDs, which stay text; 0 and 0.5 are still numbers
+  if (/^[+-]?0\d/.test(trimmed)) return raw
+  const num = Number(trimmed)
+  return isNaN(num) ? raw : num
+}
+
+export class FormulaEngine {
+  private sheets = new Map<string, string>()
+  private cells = new Map<string, CellRecord>()
+  // Single-cell references both ways; ranges only from the formula's side, and
+  // a cell's dependents through them are found by testing which ranges hold it
+  private precedents = new Map<string, Set<string>>()
+  private dependents = new Map<string, Set<string>>()
+  private rangePrecedents = new Map<string, CellRange[]>()
+
+  addSheet(name: string) {
+    this.sheets.set(sheetKey(name), name)
+    // Formulas that referenced this sheet before it existed can now resolve
+    this.recalculate(this.sheetDependents(name))
+  }
+
+  removeSheet(name: string) {
+    const prefix = `${sheetKey(name)}!`
+    const removed = [...this.cells.keys()].filter(key => key.startsWith(prefix))
+    removed.forEach(key => {
+      this.setPrecedents(key, noReferences())
+      this.cells.delete(key)
+    })
+    this.sheets.delete(sheetKey(name))
+    this.recalculate(this.sheetDependents(name))
+  }
+
+  hasSheet(name: string) {
+    return this.sheets.has(sheetKey(name))
+  }
+
+  // Replaces every cell of a sheet, e.g. after rows were inserted or deleted
+  loadSheet(name: string, cells: Record<string, string>) {
+    if (!this.hasSheet(name)) this.addSheet(name)
+    const prefix = `${sheetKey(name)}!`
+    const updates: Record<string, string> = {}
+    for (const key of this.cells.keys()) {
+      if (key.startsWith(prefix)) updates[key.slice(prefix.length)] = ''
+    }
+    this.setCells(name, { ...updates, ...cells })
+  }
+
+  setCell(sheet: string, address: string, raw: string): string[] {
+    return this.setCells(sheet, { [address]: raw })
+  }
+
+  // Writes several cells and recalculates once. Returns the keys of every recalculated cell.
+  setCells(sheet: string, entries: Record<string, string>): string[] {
+    if (!this.hasSheet(sheet)) this.sheets.set(sheetKey(sheet), sheet)
+    const changed: string[] = []
+
+    for (const [address, raw] of Object.entries(entries)) {
+      const pos = parseAddress(address)
+      if (!pos) continue
+      const key = cellKey(sheet, pos)
+      const text = raw == null ? '' : String(raw)
+      changed.push(key)
+
+      if (text === '') {
+        this.cells.delete(key)
+        this.setPrecedents(key, noReferences())
+        continue
+      }
+
+      const record: CellRecord = { sheet: this.sheets.get(sheetKey(sheet))!, pos, raw: text, value: null }
+      const refs = noReferences()
+      if (text.startsWith('=') && text.length > 1) {
+        try {
+          record.formula = parseFormula(text.slice(1))
+          collectReferences(record.formula, sheet, refs)
+        } catch {
+          record.formula = { type: 'error', code: '#NAME?' }
+        }
+      } else {
+        record.value = parseLiteral(text)
+      }
+      this.cells.set(key, record)
+      this.setPrecedents(key, refs)
+    }
+
+    return this.recalculate(changed)
+  }
+
+  getValue(sheet: string, address: string): CellValue {
+    const pos = parseAddress(address)
+    if (!pos) return new FormulaError('#REF!')
+    return this.cells.get(cellKey(sheet, pos))?.value ?? null
+  }
+
+  getRaw(sheet: string, address: string): string {
+    const pos = parseAddress(address)
+    if (!pos) return ''
+    return this.cells.get(cellKey(sheet, pos))?.raw ?? ''
+  }
+
+  getDisplayValue(sheet: string, address: string): string {
+    return formatCellValue(this.getValue(sheet, address))
+  }
+
+  /** What the cell holds for CSV export: the computed value of a formula, otherwise the input exactly as typed */
+  getExportValue(sheet: string, address: string): string {
+    const raw = this.getRaw(sheet, address)
+    return raw.startsWith('=') ? this.getDisplayValue(sheet, address) : raw
+  }
+
+  private setPrecedents(key: string, refs: References) {
+    for (const ref of this.precedents.get(key) || []) {
+      this.dependents.get(ref)?.delete(key)
+    }
+    if (refs.ranges.length > 0) this.rangePrecedents.set(key, refs.ranges)
+    else this.rangePrecedents.delete(key)
+    if (refs.cells.size === 0) {
+      this.precedents.delete(key)
+      return
+    }
+    this.precedents.set(key, refs.cells)
+    for (const ref of refs.cells) {
+      if (!this.dependents.has(ref)) this.dependents.set(ref, new Set())
+      this.dependents.get(ref)!.add(key)
+    }
+  }
+
+  // Formulas that read the cell, directly or through a range
+  private dependentsOf(key: string): Set<string> {
+    const found = new Set(this.dependents.get(key))
+    if (this.rangePrecedents.size === 0) return found
+    const split = key.lastIndexOf('!')
+    const sheet = key.slice(0, split)
+    const pos = parseAddress(key.slice(split + 1))!
+    this.rangePrecedents.forEach((ranges, dependent) => {
+      if (ranges.some(range => inRange(range, sheet, pos))) found.add(dependent)
+    })
+    return found
+  }
+
+  // Formulas that read any cell of the sheet
+  private sheetDependents(name: string): string[] {
+    const sheet = sheetKey(name)
+    const prefix = `${sheet}!`
+    const found = [...this.dependents.keys()]
+      .filter(key => key.startsWith(prefix))
+      .flatMap(key => [...this.dependents.get(key)!])
+    this.rangePrecedents.forEach((ranges, dependent) => {
+      if (ranges.some(range => sheetKey(range.sheet) === sheet)) found.push(dependent)
+    })
+    return found
+  }
+
+  // Recalculates the given cells and everything downstream of them in dependency order.
+  // Cells that can never be ordered sit on (or behind) a cycle and become #CIRC!.
+  private recalculate(roots: string[]): string[] {
+    const affected = new Map<string, Set<string>>() // each affected cell's dependents
+    const queue = [...roots]
+    while (queue.length > 0) {
+      const key = queue.pop()!
+      if (affected.has(key)) continue
+      const dependents = this.dependentsOf(key)
+      affected.set(key, dependents)
+      dependents.forEach(dep => queue.push(dep))
+    }
+
+    // A cell waits for each affected cell it reads
+    const pending = new Map<string, number>()
+    for (const key of affected.keys()) pending.set(key, 0)
+    for (const dependents of affected.values()) {
+      dependents.forEach(dep => pending.set(dep, pending.get(dep)! + 1))
+    }
+
+    const ready = [...affected.keys()].filter(key => pending.get(key) === 0)
+    const done = new Set<string>()
+    while (ready.length > 0) {
+      const key = ready.pop()!
+      done.add(key)
+      this.evaluateCell(key)
+      affected.get(key)!.forEach(dep => {
+        if (!affected.has(dep) || done.has(dep)) return
+        const remaining = pending.get(dep)! - 1
+        pending.set(dep, remaining)
+        if (remaining === 0) ready.push(dep)
+      })
+    }
+
+    for (const key of affected.keys()) {
+      if (done.has(key)) continue
+      const record = this.cells.get(key)
+      if (record) record.value = new FormulaError('#CIRC!')
+    }
+
+    return [...affected.keys()]
+  }
+
+  private rangeValues(range: CellRange): RangeValue {
+    const width = range.right - range.left + 1
+    const height = range.bottom - range.top + 1
+    const rows: RangeValue = Array.from({ length: height }, () => new Array<CellValue>(width).fill(null))
+    // A big range is mostly empty, so it is filled from the stored cells rather than looked up cell by cell
+    if (width * height > this.cells.size) {
+      for (const record of this.cells.values()) {
+        if (inRange(range, record.sheet, record.pos)) rows[record.pos.row - range.top][record.pos.col - range.left] = record.value
+      }
+    } else {
+      rows.forEach((values, row) => {
+        for (let col = 0; col < width; col++) {
+          values[col] = this.cells.get(cellKey(range.sheet, { col: range.left + col, row: range.top + row }))?.value ?? null
+        }
+      })
+    }
+    return rows
+  }
+
+  private evaluateCell(key: string) {
+    const record = this.cells.get(key)
+    if (!record?.formula) return
+
+    const ctx: EvalContext = {
+      sheet: record.sheet,
+      hasSheet: (sheet) => this.hasSheet(sheet),
+      getValue: (sheet, pos) => this.cells.get(cellKey(sheet, pos))?.value ?? null,
+      getRange: (range) => this.rangeValues(range),
+    }
+    const result = scalar(evaluateNode(record.formula, ctx))
+    record.value = result === null ? 0 : result
+  }
+}
@@ -0,0 +1,215 @@
+import { escapeMarkdown } from '@/lib/markdown'
+
+// A forgiving HTML reader for conversions. It builds a plain node tree without
+// touching the DOM, so it runs in tests and workers, and turns that tree into
+// Markdown, plain text or table rows.
+
+export interface HtmlElement {
+  type: 'element'
+  tag: string
+  attrs: Record<string, string>
+  children: HtmlNode[]
+}
+
+export interface HtmlText {
+  type: 'text'
+  text: string
+}
+
+export type HtmlNode = HtmlElement | HtmlText
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+const SKIPPED_TAGS = new Set(['script', 'style', 'template', 'noscript', 'head', 'title'])
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'div', 'dl', 'dt', 'dd', 'fieldset', 'figure', 'figcaption',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p',
+  'pre', 'section', 'table', 'ul',
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', euro: '€',
+}
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+
+const parseAttributes = (source: string) => {
+  const attrs: Record<string, string> = {}
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attrs
+}
+
+export const parseHtml = (html: string): HtmlNode[] => {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] }
+  const stack: HtmlElement[] = [root]
+  const token = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|[^<]+|</g
+
+  for (let match = token.exec(html); match; match = token.exec(html)) {
+    const [text, closing, opening, attributes, selfClosing] = match
+    const parent = stack[stack.length - 1]
+
+    if (closing) {
+      const tag = closing.toLowerCase()
+      const index = stack.map(el => el.tag).lastIndexOf(tag)
+      if (index > 0) stack.length = index
+    } else if (opening) {
+      const tag = opening.toLowerCase()
+      if (SKIPPED_TAGS.has(tag)) {
+        // Jump past the element's content entirely
+        const end = html.toLowerCase().indexOf(`</${tag}`, token.lastIndex)
+        token.lastIndex = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length
+        continue
+      }
+      // A new <p> or <li> implicitly closes an open one, as browsers do
+      if ((tag === 'p' || tag === 'li') && parent.tag === tag) stack.pop()
+      const element: HtmlElement = { type: 'element', tag, attrs: parseAttributes(attributes), children: [] }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing && !VOID_TAGS.has(tag)) stack.push(element)
+    } else if (!text.startsWith('<!') || text === '<') {
+      parent.children.push({ type: 'text', text: decodeEntities(text) })
+    }
+  }
+
+  return root.children
+}
+
+const collapse = (text: string) => text.replace(/[ \t\r\n\f ]+/g, ' ')
+
+const textContent = (nodes: HtmlNode[]): string =>
+  nodes.map(node => (node.type === 'text' ? node.text : textContent(node.children))).join('')
+
+const findAll = (nodes: HtmlNode[], tag: string): HtmlElement[] =>
+  nodes.flatMap(node => {
+    if (node.type !== 'element') return []
+    return node.tag === tag ? [node] : findAll(node.children, tag)
+  })
+
+// Rows of every <table>, each cell as collapsed text
+export const extractTables = (nodes: HtmlNode[]): string[][][] =>
+  findAll(nodes, 'table').map(table =>
+    findAll(table.children, 'tr').map(row =>
+      row.children
+        .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+        .map(cell => collapse(textContent(cell.children)).trim())
+    )
+  )
+
+type Mode = 'markdown' | 'text'
+
+// Joins rendered blocks with a blank line between them, trimming stray whitespace
+const joinBlocks = (blocks: string[]) =>
+  blocks.map(block => block.replace(/^\n+|\s+$/g, '')).filter(Boolean).join('\n\n')
+
+const renderInline = (nodes: HtmlNode[], mode: Mode): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return mode === 'markdown' ? escapeMarkdown(collapse(node.text)) : collapse(node.text)
+    const content = () => renderInline(node.children, mode)
+    switch (node.tag) {
+      case 'br':
+        return mode === 'markdown' ? '  \n' : '\n'
+      case 'strong':
+      case 'b':
+        return mode === 'markdown' ? `**${content().trim()}**` : content()
+      case 'em':
+      case 'i':
+        return mode === 'markdown' ? `*${content().trim()}*` : content()
+      case 'del':
+      case 's':
+        return mode === 'markdown' ? `~~${content().trim()}~~` : content()
+      case 'code':
+        return mode === 'markdown' ? `\`${textContent(node.children)}\`` : textContent(node.children)
+      case 'a': {
+        const label = content().trim()
+        const href = node.attrs.href
+        if (!href) return label
+        return mode === 'markdown' ? `[${label}](${href})` : label === href ? href : `${label} (${href})`
+      }
+      case 'img':
+        return mode === 'markdown' ? `![${escapeMarkdown(node.attrs.alt || '')}](${node.attrs.src || ''})` : node.attrs.alt || ''
+      default:
+        return BLOCK_TAGS.has(node.tag) ? `\n${renderBlocks(node.children, mode)}\n` : content()
+    }
+  }).join('')
+
+const renderList = (list: HtmlElement, mode: Mode, depth: number): string => {
+  const start = parseInt(list.attrs.start || '1', 10) || 1
+  return list.children
+    .filter((item): item is HtmlElement => item.type === 'element' && item.tag === 'li')
+    .map((item, index) => {
+      const marker = list.tag === 'ol' ? `${start + index}.` : '-'
+      const nested = item.children.filter(child => child.type === 'element' && (child.tag === 'ul' || child.tag === 'ol')) as HtmlElement[]
+      const inline = item.children.filter(child => !nested.includes(child as HtmlElement))
+      const text = renderBlocks(inline, mode).replace(/\n+/g, ' ').trim()
+      const indent = '  '.repeat(depth)
+      return [`${indent}${marker} ${text}`, ...nested.map(sub => renderList(sub, mode, depth + 1))].join('\n')
+    })
+    .join('\n')
+}
+
+const renderTable = (table: HtmlElement, mode: Mode): string => {
+  const [rows] = extractTables([table])
+  if (!rows || rows.length === 0) return ''
+  if (mode === 'text') return rows.map(row => row.join('\t')).join('\n')
+
+  const width = Math.max(...rows.map(row => row.length))
+  const cell = (value = '') => escapeMarkdown(value)
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n')
+}
+
+const renderBlocks = (nodes: HtmlNode[], mode: Mode): string => {
+  const blocks: string[] = []
+  let inline: HtmlNode[] = []
+
+  const flushInline = () => {
+    const text = renderInline(inline, mode).replace(/[ \t]+\n/g, mode === 'markdown' ? '  \n' : '\n').trim()
+    if (text) blocks.push(text)
+    inline = []
+  }
+
+  nodes.forEach(node => {
+    if (node.type === 'text' || !BLOCK_TAGS.has(node.tag)) {
+      inline.push(node)
+      return
+    }
+    flushInline()
+
+    const heading = node.tag.match(/^h([1-6])$/)
+    if (heading) {
+      const text = renderInline(node.children, mode).replace(/\s+/g, ' ').trim()
+      blocks.push(mode === 'markdown' ? `${'#'.repeat(Number(heading[1]))} ${text}` : text)
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      blocks.push(renderList(node, mode, 0))
+    } else if (node.tag === 'pre') {
+      const code = textContent(node.children).replace(/\n$/, '')
+      const language = findAll(node.children, 'code')[0]?.attrs.class?.match(/language-([\w+-]+)/)?.[1] || ''
+      blocks.push(mode === 'markdown' ? `\`\`\`${language}\n${code}\n\`\`\`` : code)
+    } else if (node.tag === 'blockquote') {
+      const quoted = renderBlocks(node.children, mode)
+      blocks.push(mode === 'markdown' ? quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n') : quoted)
+    } else if (node.tag === 'hr') {
+      blocks.push(mode === 'markdown' ? '---' : '')
+    } else if (node.tag === 'table') {
+      blocks.push(renderTable(node, mode))
+    } else {
+      blocks.push(renderBlocks(node.children, mode))
+    }
+  })
+  flushInline()
+
+  return joinBlocks(blocks)
+}
+
+export const htmlToMarkdown = (html: string) => renderBlocks(parseHtml(html), 'markdown')
+
+export const htmlToText = (html: string) => renderBlocks(parseHtml(html), 'text')
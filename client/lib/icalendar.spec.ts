@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { parseICalendar, serializeICalendar, zonedTimeToUtc, type IcsEvent } from "./icalendar";
+
+const ics = (...lines: string[]) => ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+describe("zonedTimeToUtc", () => {
+  it("applies the zone's offset on either side of daylight saving", () => {
+    expect(new Date(zonedTimeToUtc(2024, 6, 3, 9, 0, 0, "Europe/Berlin")).toISOString()).toBe("2024-06-03T07:00:00.000Z");
+    expect(new Date(zonedTimeToUtc(2024, 1, 3, 9, 0, 0, "Europe/Berlin")).toISOString()).toBe("2024-01-03T08:00:00.000Z");
+    expect(new Date(zonedTimeToUtc(2024, 3, 10, 12, 0, 0, "America/New_York")).toISOString()).toBe("2024-03-10T16:00:00.000Z");
+  });
+});
+
+describe("parseICalendar", () => {
+  it("reads zoned, UTC, floating and all-day times", () => {
+    const { events, warnings } = parseICalendar(
+      ics(
+        "BEGIN:VEVENT", "UID:a", "SUMMARY:Zoned", "DTSTART;TZID=Europe/Berlin:20240603T090000", "DTEND;TZID=Europe/Berlin:20240603T100000", "END:VEVENT",
+        "BEGIN:VEVENT", "UID:b", "SUMMARY:Utc", "DTSTART:20240603T090000Z", "DURATION:PT45M", "END:VEVENT",
+        "BEGIN:VEVENT", "UID:c", "SUMMARY:Floating", "DTSTART:20240603T090000", "END:VEVENT",
+        "BEGIN:VEVENT", "UID:d", "SUMMARY:Holiday", "DTSTART;VALUE=DATE:20240603", "END:VEVENT"
+      )
+    );
+    expect(warnings).toEqual([]);
+    const [zoned, utc, floating, holiday] = events;
+    expect(zoned.start.toISOString()).toBe("2024-06-03T07:00:00.000Z");
+    expect(zoned.end.getTime() - zoned.start.getTime()).toBe(3600000);
+    expect(utc.end.getTime() - utc.start.getTime()).toBe(45 * 60000);
+    expect([floating.start.getHours(), floating.start.getMinutes()]).toEqual([9, 0]);
+    expect(holiday).toMatchObject({ allDay: true });
+    expect(holiday.end.getDate()).toBe(4);
+  });
+
+  it("unfolds lines, unescapes text and reads alarms, exceptions and attendees", () => {
+    const { events } = parseICalendar(
+      ics(
+        "BEGIN:VEVENT",
+        "UID:standup@example.com",
+        "SUMMARY:Standup\\, daily",
+        "DESCRIPTION:Line one\\nLine ",
+        " two",
+        "DTSTART;TZID=\"/mozilla.org/20070129_1/Europe/Berlin\":20240603T093000",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+        "EXDATE;TZID=Europe/Berlin:20240605T093000,20240606T093000",
+        "ATTENDEE;CN=Ana:mailto:ana@example.com",
+        "STATUS:TENTATIVE",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT10M",
+        "ACTION:DISPLAY",
+        "END:VALARM",
+        "END:VEVENT"
+      )
+    );
+    expect(events[0]).toMatchObject({
+      uid: "standup@example.com",
+      summary: "Standup, daily",
+      description: "Line one\nLine two",
+      rrule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+      exdates: ["2024-06-05", "2024-06-06"],
+      attendees: ["ana@example.com"],
+      status: "tentative",
+      reminders: [10],
+    });
+    expect(events[0].start.toISOString()).toBe("2024-06-03T07:30:00.000Z");
+  });
+
+  it("turns moved occurrences into exceptions plus standalone events", () => {
+    const { events } = parseICalendar(
+      ics(
+        "BEGIN:VEVENT", "UID:s", "SUMMARY:Sync", "DTSTART:20240603T090000Z", "RRULE:FREQ=DAILY", "END:VEVENT",
+        "BEGIN:VEVENT", "UID:s", "SUMMARY:Sync (moved)", "RECURRENCE-ID:20240604T090000Z", "DTSTART:20240604T140000Z", "END:VEVENT"
+      )
+    );
+    expect(events).toHaveLength(2);
+    expect(events[0].exdates).toHaveLength(1);
+    expect(events[1].uid).toMatch(/^s-2024-06-0/);
+  });
+
+  it("warns about what it cannot use instead of failing", () => {
+    const { events, warnings } = parseICalendar(
+      ics(
+        "BEGIN:VEVENT", "UID:x", "SUMMARY:Odd", "DTSTART;TZID=Mars/Olympus:20240603T090000", "RRULE:FREQ=HOURLY", "END:VEVENT",
+        "BEGIN:VEVENT", "UID:y", "SUMMARY:No start", "END:VEVENT"
+      )
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0].rrule).toBeUndefined();
+    expect(warnings).toHaveLength(3);
+  });
+});
+
+describe("serializeICalendar", () => {
+  const event: IcsEvent = {
+    uid: "event-1@nyx-os",
+    summary: "Planning; Q3, roadmap",
+    description: "A long description that will certainly need folding because it goes well past seventy-five octets ✨",
+    location: "Room 4",
+    start: new Date(Date.UTC(2024, 5, 3, 7, 0)),
+    end: new Date(Date.UTC(2024, 5, 3, 8, 0)),
+    allDay: false,
+    rrule: "FREQ=WEEKLY;COUNT=3",
+    exdates: [],
+    categories: ["meeting"],
+    attendees: ["ana@example.com"],
+    reminders: [15],
+    priority: 1,
+  };
+
+  it("writes zoned times and folded lines that read back the same", () => {
+    const text = serializeICalendar([event], { timeZone: "Europe/Berlin", now: new Date(0) });
+    expect(text).toContain("DTSTART;TZID=Europe/Berlin:20240603T090000\r\n");
+    expect(text.split("\r\n").every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+
+    const [back] = parseICalendar(text).events;
+    expect(back).toMatchObject({
+      uid: event.uid,
+      summary: event.summary,
+      description: event.description,
+      rrule: event.rrule,
+      reminders: [15],
+      attendees: ["ana@example.com"],
+      categories: ["meeting"],
+      priority: 1,
+    });
+    expect(back.start.getTime()).toBe(event.start.getTime());
+    expect(back.end.getTime()).toBe(event.end.getTime());
+  });
+
+  it("writes all-day events as dates", () => {
+    const holiday = { ...event, allDay: true, start: new Date(2024, 11, 25), end: new Date(2024, 11, 26), rrule: undefined };
+    const text = serializeICalendar([holiday]);
+    expect(text).toContain("DTSTART;VALUE=DATE:20241225");
+    expect(parseICalendar(text).events[0]).toMatchObject({ allDay: true });
+  });
+});
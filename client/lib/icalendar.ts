@@ -0,0 +1,337 @@
+import { dateKey, parseRRule, RecurrenceError } from '@/lib/recurrence'
+
+// iCalendar (.ics, RFC 5545) reading and writing for the Calendar app. Times
+// are exchanged with an IANA TZID so recurring events keep their wall-clock
+// time; UTC and floating times are accepted on import too.
+
+export interface IcsEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  start: Date
+  end: Date
+  allDay: boolean
+  rrule?: string
+  exdates?: string[] // local dates, YYYY-MM-DD
+  status?: 'confirmed' | 'tentative' | 'cancelled'
+  categories?: string[]
+  attendees?: string[]
+  reminders?: number[] // minutes before the start
+  priority?: number // 1 (highest) to 9 (lowest)
+  created?: Date
+  modified?: Date
+}
+
+export interface IcsImport {
+  events: IcsEvent[]
+  warnings: string[]
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+const MINUTE = 60_000
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+const isTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall-clock fields of an instant in a time zone
+const zonedParts = (time: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time))
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute'), second: get('second') }
+}
+
+const zoneOffset = (time: number, timeZone: string) => {
+  const p = zonedParts(time, timeZone)
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(time / 1000) * 1000
+}
+
+/** The instant at which a zone's clocks show the given wall time */
+export const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string) => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second)
+  const guess = wall - zoneOffset(wall, timeZone)
+  // A second pass settles times near a daylight saving switch
+  return wall - zoneOffset(guess, timeZone)
+}
+
+// --- Reading ---
+
+const unfold = (text: string) => text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon < 0) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? []
+  const params: Record<string, string> = {}
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=')
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '')
+  })
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+
+interface ParsedDate {
+  date: Date
+  allDay: boolean
+}
+
+const parseDateValue = (line: ContentLine, warnings: string[]): ParsedDate | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim())
+  if (!match) {
+    warnings.push(`Skipped unreadable ${line.name} "${line.value}"`)
+    return null
+  }
+  const [y, mo, d, h, mi, s] = match.slice(1, 7).map(Number)
+  if (line.params.VALUE === 'DATE' || match[4] === undefined) return { date: new Date(y, mo - 1, d), allDay: true }
+  if (match[7]) return { date: new Date(Date.UTC(y, mo - 1, d, h, mi, s)), allDay: false }
+
+  // Some exporters prefix the zone name, e.g. /mozilla.org/20070129_1/Europe/Berlin
+  const zone = line.params.TZID?.replace(/^\/?(?:[^/]+\/\d+_\d+\/)?/, '')
+  if (zone && isTimeZone(zone)) return { date: new Date(zonedTimeToUtc(y, mo, d, h, mi, s, zone)), allDay: false }
+  if (zone) warnings.push(`Unknown time zone "${line.params.TZID}", using local time`)
+  return { date: new Date(y, mo - 1, d, h, mi, s), allDay: false } // floating time
+}
+
+// ISO 8601 durations as used by DURATION and TRIGGER, e.g. -PT15M or P1D
+const parseDuration = (value: string) => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const ms = ((Number(weeks || 0) * 7 + Number(days || 0)) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0)) * MINUTE + Number(seconds || 0) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+const STATUSES = { CONFIRMED: 'confirmed', TENTATIVE: 'tentative', CANCELLED: 'cancelled' } as const
+
+export const parseICalendar = (text: string): IcsImport => {
+  const warnings: string[] = []
+  const events: (IcsEvent & { recurrenceId?: Date })[] = []
+  const stack: string[] = []
+  let event: Partial<IcsEvent & { recurrenceId: Date; duration: number }> | null = null
+
+  unfold(text).forEach(raw => {
+    const line = raw.trim() ? parseContentLine(raw) : null
+    if (!line) return
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.toUpperCase())
+      if (line.value.toUpperCase() === 'VEVENT') event = { reminders: [], exdates: [], attendees: [] }
+      return
+    }
+    if (line.name === 'END') {
+      const closed = stack.pop()
+      if (closed === 'VEVENT' && event) {
+        if (!event.start) {
+          warnings.push(`Skipped "${event.summary ?? 'untitled'}" without a start`)
+        } else {
+          const end = event.end ?? new Date(event.start.getTime() + (event.duration ?? (event.allDay ? 1440 * MINUTE : 0)))
+          const { duration, ...rest } = event
+          events.push({ uid: `nyx-${events.length}-${Date.now()}`, summary: '', ...rest, end } as IcsEvent)
+        }
+        event = null
+      }
+      return
+    }
+    if (!event) return
+
+    const inAlarm = stack[stack.length - 1] === 'VALARM'
+    if (inAlarm) {
+      if (line.name === 'TRIGGER' && line.params.VALUE !== 'DATE-TIME' && line.params.RELATED !== 'END') {
+        const offset = parseDuration(line.value)
+        if (offset !== null && offset <= 0) event.reminders.push(Math.round(-offset / MINUTE))
+      }
+      return
+    }
+
+    switch (line.name) {
+      case 'UID':
+        event.uid = line.value.trim()
+        break
+      case 'SUMMARY':
+        event.summary = unescapeText(line.value)
+        break
+      case 'DESCRIPTION':
+        event.description = unescapeText(line.value)
+        break
+      case 'LOCATION':
+        event.location = unescapeText(line.value)
+        break
+      case 'DTSTART': {
+        const parsed = parseDateValue(line, warnings)
+        if (parsed) [event.start, event.allDay] = [parsed.date, parsed.allDay]
+        break
+      }
+      case 'DTEND': {
+        const parsed = parseDateValue(line, warnings)
+        if (parsed) event.end = parsed.date
+        break
+      }
+      case 'DURATION':
+        event.duration = parseDuration(line.value) ?? undefined
+        break
+      case 'RECURRENCE-ID': {
+        const parsed = parseDateValue(line, warnings)
+        if (parsed) event.recurrenceId = parsed.date
+        break
+      }
+      case 'RRULE':
+        try {
+          parseRRule(line.value)
+          event.rrule = line.value.trim()
+        } catch (error) {
+          if (!(error instanceof RecurrenceError)) throw error
+          warnings.push(`Ignored the repeat rule of "${event.summary ?? 'untitled'}": ${error.message}`)
+        }
+        break
+      case 'EXDATE':
+        line.value.split(',').forEach(value => {
+          const parsed = parseDateValue({ ...line, value }, warnings)
+          if (parsed) event.exdates.push(dateKey(parsed.date))
+        })
+        break
+      case 'STATUS':
+        event.status = STATUSES[line.value.trim().toUpperCase() as keyof typeof STATUSES]
+        break
+      case 'CATEGORIES':
+        event.categories = line.value.split(',').map(unescapeText).map(c => c.trim()).filter(Boolean)
+        break
+      case 'ATTENDEE':
+        event.attendees.push(line.value.replace(/^mailto:/i, ''))
+        break
+      case 'PRIORITY':
+        event.priority = Number(line.value) || undefined
+        break
+      case 'CREATED': {
+        const parsed = parseDateValue(line, warnings)
+        if (parsed) event.created = parsed.date
+        break
+      }
+      case 'LAST-MODIFIED':
+      case 'DTSTAMP': {
+        const parsed = parseDateValue(line, warnings)
+        if (parsed && (line.name === 'LAST-MODIFIED' || !event.modified)) event.modified = parsed.date
+        break
+      }
+    }
+  })
+
+  // A changed occurrence of a series arrives as its own VEVENT with the same
+  // UID; it becomes a standalone event and an exception on the series
+  const result: IcsEvent[] = []
+  events.forEach(({ recurrenceId, ...item }) => {
+    if (recurrenceId) {
+      const series = events.find(e => e.uid === item.uid && !e.recurrenceId)
+      series?.exdates?.push(dateKey(recurrenceId))
+      result.push({ ...item, uid: `${item.uid}-${dateKey(recurrenceId)}` })
+    } else {
+      result.push(item)
+    }
+  })
+  return { events: result, warnings }
+}
+
+// --- Writing ---
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Lines are folded at 75 octets, continuation lines start with a space
+const fold = (line: string) => {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current)
+      current = ''
+    }
+    current += char
+  }
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+
+const formatDate = (date: Date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+
+const formatZoned = (date: Date, timeZone: string) => {
+  const p = zonedParts(date.getTime(), timeZone)
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`
+}
+
+const PRODUCT_ID = '-//Nyx OS//Calendar//EN'
+
+/** Writes events as a VCALENDAR; timed events use `timeZone` (the local zone by default) */
+export const serializeICalendar = (events: IcsEvent[], options: { timeZone?: string; now?: Date } = {}) => {
+  const timeZone = options.timeZone ?? localTimeZone()
+  const stamp = formatUtc(options.now ?? new Date())
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', `X-WR-TIMEZONE:${timeZone}`]
+
+  const dateLine = (name: string, date: Date, allDay: boolean) =>
+    allDay ? `${name};VALUE=DATE:${formatDate(date)}` : `${name};TZID=${timeZone}:${formatZoned(date, timeZone)}`
+
+  events.forEach(event => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`)
+    lines.push(dateLine('DTSTART', event.start, event.allDay), dateLine('DTEND', event.end, event.allDay))
+    lines.push(`SUMMARY:${escapeText(event.summary)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+    if (event.rrule) lines.push(`RRULE:${event.rrule.replace(/^RRULE:/i, '')}`)
+    event.exdates?.forEach(day => {
+      // Exceptions name the occurrence, which starts at the series' time of day
+      const [y, m, d] = day.split('-').map(Number)
+      const occurrence = new Date(y, m - 1, d, event.start.getHours(), event.start.getMinutes(), event.start.getSeconds())
+      lines.push(dateLine('EXDATE', occurrence, event.allDay))
+    })
+    if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`)
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+    if (event.priority) lines.push(`PRIORITY:${event.priority}`)
+    event.attendees?.forEach(attendee => lines.push(`ATTENDEE:mailto:${attendee}`))
+    if (event.created) lines.push(`CREATED:${formatUtc(event.created)}`)
+    if (event.modified) lines.push(`LAST-MODIFIED:${formatUtc(event.modified)}`)
+    event.reminders?.forEach(minutes => {
+      lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, `TRIGGER:-PT${minutes}M`, 'END:VALARM')
+    })
+    lines.push('END:VEVENT')
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(fold).join('\r\n') + '\r\n'
+}
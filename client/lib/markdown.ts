@@ -0,0 +1,258 @@
+// A small CommonMark-flavoured Markdown renderer: headings, paragraphs, emphasis,
+// inline code, fenced code, links, images, lists, blockquotes, rules and pipe tables.
+// Raw HTML in the source is escaped, and links only keep safe URL schemes.
+// Heading anchors and code highlighting are opt-in (see MarkdownOptions), so the
+// plain output stays what the converters and document model expect.
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// Allows http(s), mailto, fragment and relative URLs; anything else (javascript:, data:) is dropped.
+// Browsers skip control characters around a URL and tabs and newlines inside it,
+// so "\u0001java\tscript:" is a javascript: URL; they are removed before the
+// scheme is checked, and the cleaned URL is what callers get back to use.
+export const safeUrl = (url: string): string | null => {
+  const cleaned = url.replace(/[\u0000-\u001f\u007f]/g, '').trim()
+  const scheme = cleaned.match(/^([a-z][a-z0-9+.-]*):/i)
+  if (scheme && !['http', 'https', 'mailto'].includes(scheme[1].toLowerCase())) return null
+  return cleaned
+}
+
+const renderInline = (text: string): string => {
+  // Code spans and the tags of links and images are cut out as they are made,
+  // so the emphasis rules can't reach into code or into an href or alt
+  const protectedHtml: string[] = []
+  const protect = (html: string) => {
+    protectedHtml.push(html)
+    return `\u0000${protectedHtml.length - 1}\u0000`
+  }
+  let html = text.replace(/`([^`]+)`/g, (_match, code) => protect(`<code>${escapeHtml(code)}</code>`))
+
+  html = escapeHtml(html)
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, (_match, char) => `&#${char.charCodeAt(0)};`)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (match, alt, src, title) => {
+      const url = safeUrl(src)
+      if (!url) return alt
+      return protect(`<img src="${url}" alt="${alt}"${title ? ` title="${title}"` : ''}>`)
+    })
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (match, label, href, title) => {
+      const url = safeUrl(href)
+      if (!url) return label
+      return `${protect(`<a href="${url}"${title ? ` title="${title}"` : ''}>`)}${label}</a>`
+    })
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_match, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(.+?)\*|(^|[^\w])_(.+?)_(?!\w)/g, (_match, a, prefix, b) =>
+      a !== undefined ? `<em>${a}</em>` : `${prefix}<em>${b}</em>`
+    )
+    .replace(/~~(.+?)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n|\\\n/g, '<br>\n')
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_match, index) => protectedHtml[Number(index)])
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/
+const FENCE = /^ {0,3}(```+|~~~+)\s*([\w+-]*)/
+const LIST_ITEM = /^( *)([-*+]|\d+[.)])\s+(.*)$/
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim())
+
+const isBlockStart = (line: string, next?: string) =>
+  HEADING.test(line) || RULE.test(line) || FENCE.test(line) || LIST_ITEM.test(line) || /^\s*>/.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next))
+
+export interface MarkdownOptions {
+  /** Gives headings GitHub-style ids (see markdownHeadings) so a table of contents can link to them */
+  headingIds?: boolean
+  /** Renders the code of fenced blocks with a language as HTML, such as highlightCode */
+  highlight?: (code: string, language: string) => string
+}
+
+export interface MarkdownHeading {
+  level: number
+  text: string
+  /** Its id in markdownToHtml output with `headingIds` */
+  id: string
+}
+
+// Options plus the ids handed out so far, shared by the nested renders of lists
+// and blockquotes so ids stay unique across the whole document
+interface RenderContext extends MarkdownOptions {
+  slugs: Map<string, number>
+  headings?: MarkdownHeading[]
+}
+
+// Heading text as a reader sees it, without the inline Markdown around it
+const plainHeading = (text: string) =>
+  text
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1')
+    .replace(/(\*\*|__|~~|\*|_)(.+?)\1/g, '$2')
+    .trim()
+
+// GitHub's anchors: lowercase, punctuation dropped, spaces as hyphens, and
+// repeated headings numbered from -1
+const uniqueSlug = (text: string, slugs: Map<string, number>) => {
+  const base = text.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').trim().replace(/\s/g, '-') || 'section'
+  const count = slugs.get(base) ?? 0
+  slugs.set(base, count + 1)
+  return count === 0 ? base : `${base}-${count}`
+}
+
+const renderList = (lines: string[], context: RenderContext): string => {
+  const first = lines[0].match(LIST_ITEM)!
+  const ordered = /\d/.test(first[2])
+  const baseIndent = first[1].length
+  const items: string[][] = []
+
+  lines.forEach(line => {
+    const match = line.match(LIST_ITEM)
+    if (match && match[1].length === baseIndent) {
+      items.push([match[3]])
+    } else if (items.length > 0) {
+      items[items.length - 1].push(line.slice(Math.min(baseIndent + 2, line.length - line.trimStart().length)))
+    }
+  })
+
+  const start = ordered ? parseInt(first[2], 10) : 1
+  const body = items.map(([text, ...rest]) => {
+    const nested = rest.filter(line => line.trim())
+    if (nested.length === 0) return `<li>${renderInline(text)}</li>`
+    return `<li>${renderInline(text)}\n${renderBlocks(nested.join('\n'), context)}</li>`
+  }).join('\n')
+
+  if (!ordered) return `<ul>\n${body}\n</ul>`
+  return `<ol${start !== 1 ? ` start="${start}"` : ''}>\n${body}\n</ol>`
+}
+
+const renderBlocks = (markdown: string, context: RenderContext): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: string[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i++])
+      i++
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : ''
+      const source = code.join('\n')
+      const html = fence[2] && context.highlight ? context.highlight(source, fence[2]) : escapeHtml(source)
+      blocks.push(`<pre><code${language}>${html}</code></pre>`)
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      const level = heading[1].length
+      const text = plainHeading(heading[2])
+      const slug = context.headingIds ? uniqueSlug(text, context.slugs) : ''
+      context.headings?.push({ level, text, id: slug })
+      const id = slug ? ` id="${escapeHtml(slug)}"` : ''
+      blocks.push(`<h${level}${id}>${renderInline(heading[2])}</h${level}>`)
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>')
+      i++
+      continue
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*> ?/, ''))
+      blocks.push(`<blockquote>\n${renderBlocks(quoted.join('\n'), context)}\n</blockquote>`)
+      continue
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const listLines: string[] = []
+      while (i < lines.length) {
+        const current = lines[i]
+        if (!current.trim()) {
+          // A blank line only continues the list when the next line is indented or another item
+          const next = lines[i + 1]
+          if (next === undefined || !(LIST_ITEM.test(next) || /^\s{2,}\S/.test(next))) break
+        } else if (!LIST_ITEM.test(current) && !/^\s{2,}\S/.test(current)) {
+          break
+        }
+        listLines.push(current)
+        i++
+      }
+      blocks.push(renderList(listLines, context))
+      continue
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitTableRow(line)
+      const alignments = splitTableRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : ''
+      )
+      const align = (index: number) => alignments[index] ? ` style="text-align: ${alignments[index]}"` : ''
+      i += 2
+      const rows: string[][] = []
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rows.push(splitTableRow(lines[i++]))
+      blocks.push([
+        '<table>',
+        `<thead>\n<tr>${header.map((cell, index) => `<th${align(index)}>${renderInline(cell)}</th>`).join('')}</tr>\n</thead>`,
+        rows.length > 0
+          ? `<tbody>\n${rows.map(row => `<tr>${header.map((_, index) => `<td${align(index)}>${renderInline(row[index] ?? '')}</td>`).join('')}</tr>`).join('\n')}\n</tbody>`
+          : '',
+        '</table>',
+      ].filter(Boolean).join('\n'))
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() && !(paragraph.length > 0 && isBlockStart(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i++])
+    }
+    blocks.push(`<p>${renderInline(paragraph.join('\n').trim())}</p>`)
+  }
+
+  return blocks.join('\n')
+}
+
+export const markdownToHtml = (markdown: string, options: MarkdownOptions = {}): string =>
+  renderBlocks(markdown, { ...options, slugs: new Map() })
+
+/** The document's headings in order, with the ids markdownToHtml gives them, for a table of contents */
+export const markdownHeadings = (markdown: string): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = []
+  renderBlocks(markdown, { headingIds: true, slugs: new Map(), headings })
+  return headings
+}
+
+/** A nested list of links to the headings, indented relative to the highest level present */
+export const markdownTableOfContents = (headings: MarkdownHeading[]) => {
+  const top = Math.min(...headings.map(heading => heading.level))
+  return headings
+    .map(heading => `${'  '.repeat(heading.level - top)}- [${escapeMarkdown(heading.text)}](#${heading.id})`)
+    .join('\n')
+}
+
+// Escapes characters that would otherwise be read as Markdown syntax
+export const escapeMarkdown = (text: string) =>
+  text
+    .replace(/([\\`*_[\]<>|~])/g, '\\$1')
+    .replace(/^(\s*)([#>+-])(?=\s)/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s)/gm, '$1\\$2')
@@ -0,0 +1,42 @@
+import { vfs, VFS_PATHS, VfsEntry, joinPath } from '@/services/vfs'
+
+// Where captured media lands in the virtual filesystem: camera shots go to
+// Pictures/Camera (shown by Gallery), voice memos to Music/Recordings.
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+const fileTimestamp = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}_` +
+  `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+
+const extensionFor = (mimeType: string, fallback: string) => {
+  if (mimeType.includes('webm')) return 'webm'
+  if (mimeType.includes('mp4')) return 'mp4'
+  if (mimeType.includes('ogg')) return 'ogg'
+  if (mimeType.includes('wav')) return 'wav'
+  if (mimeType.includes('png')) return 'png'
+  if (mimeType.includes('jpeg')) return 'jpg'
+  return fallback
+}
+
+export const saveCameraCapture = async (
+  blob: Blob,
+  type: 'photo' | 'video',
+  options: { date?: Date; suffix?: string } = {},
+): Promise<VfsEntry> => {
+  const date = options.date ?? new Date()
+  const mimeType = blob.type || (type === 'photo' ? 'image/jpeg' : 'video/webm')
+  const name = `${type === 'photo' ? 'IMG' : 'VID'}_${fileTimestamp(date)}${options.suffix ?? ''}.${extensionFor(mimeType, type === 'photo' ? 'jpg' : 'webm')}`
+  const path = await vfs.uniquePath(joinPath(VFS_PATHS.camera, name))
+  return vfs.writeFile(path, blob, { mimeType })
+}
+
+export const saveRecording = async (
+  blob: Blob,
+  name: string,
+  meta: Record<string, unknown> = {},
+): Promise<VfsEntry> => {
+  const mimeType = blob.type || 'audio/webm'
+  const path = await vfs.uniquePath(joinPath(VFS_PATHS.recordings, `${name}.${extensionFor(mimeType, 'webm')}`))
+  return vfs.writeFile(path, blob, { mimeType, meta })
+}
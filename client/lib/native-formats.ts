@@ -0,0 +1,142 @@
+// On-disk formats for DocumentEditor (.nyxdoc) and Spreadsheet (.nyxsheet).
+// Both are versioned JSON so FileConverter and the apps can read each other's files.
+
+export type DocumentBlockType =
+  | 'heading1' | 'heading2' | 'heading3' | 'paragraph' | 'list' | 'ordered-list'
+  | 'table' | 'image' | 'page-break'
+
+// A stretch of text sharing the same formatting
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  link?: string
+}
+
+export interface NyxDocumentBlock {
+  type: DocumentBlockType
+  content: string // plain text of the block, so readers that ignore formatting still get the words
+  runs?: TextRun[] // formatting of `content`; absent means plain text
+  style?: Record<string, unknown>
+  rows?: TextRun[][][] // tables: rows of cells, the first row is the header
+  src?: string // images: URL or data: URL
+  alt?: string
+}
+
+export interface NyxDocument {
+  format: 'nyx-document'
+  version: 2 // version 1 had text blocks only, and reads as is
+  name: string
+  blocks: NyxDocumentBlock[]
+}
+
+export interface NyxSpreadsheetSheet {
+  name: string
+  cells: Record<string, string> // raw input keyed by A1 address, formulas included
+}
+
+export interface NyxSpreadsheet {
+  format: 'nyx-spreadsheet'
+  version: 1
+  sheets: NyxSpreadsheetSheet[]
+}
+
+export const NYX_DOCUMENT_EXTENSION = 'nyxdoc'
+export const NYX_SPREADSHEET_EXTENSION = 'nyxsheet'
+
+const BLOCK_TYPES: DocumentBlockType[] = [
+  'heading1', 'heading2', 'heading3', 'paragraph', 'list', 'ordered-list', 'table', 'image', 'page-break',
+]
+const MARKS = ['bold', 'italic', 'underline', 'strike', 'code'] as const
+
+export class NativeFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NativeFormatError'
+  }
+}
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new NativeFormatError('File is not valid JSON')
+  }
+}
+
+export const createDocument = (name: string, blocks: NyxDocumentBlock[]): NyxDocument => ({
+  format: 'nyx-document',
+  version: 2,
+  name,
+  blocks,
+})
+
+const parseRuns = (runs: unknown): TextRun[] =>
+  (Array.isArray(runs) ? runs : []).flatMap((run: any) => {
+    if (typeof run?.text !== 'string' || !run.text) return []
+    const parsed: TextRun = { text: run.text }
+    MARKS.forEach(mark => {
+      if (run[mark] === true) parsed[mark] = true
+    })
+    if (typeof run.link === 'string' && run.link) parsed.link = run.link
+    return [parsed]
+  })
+
+const parseBlock = (block: any): NyxDocumentBlock => {
+  const type: DocumentBlockType = BLOCK_TYPES.includes(block?.type) ? block.type : 'paragraph'
+  const parsed: NyxDocumentBlock = { type, content: typeof block?.content === 'string' ? block.content : '' }
+  if (Array.isArray(block?.runs)) {
+    parsed.runs = parseRuns(block.runs)
+    parsed.content = parsed.runs.map(run => run.text).join('')
+  }
+  if (block?.style && typeof block.style === 'object') parsed.style = block.style
+  if (type === 'table') {
+    parsed.rows = (Array.isArray(block?.rows) ? block.rows : []).map((row: unknown) =>
+      (Array.isArray(row) ? row : []).map(parseRuns)
+    )
+  }
+  if (type === 'image') {
+    parsed.src = typeof block?.src === 'string' ? block.src : ''
+    parsed.alt = typeof block?.alt === 'string' ? block.alt : ''
+  }
+  return parsed
+}
+
+export const serializeDocument = (doc: NyxDocument) => JSON.stringify(doc, null, 2)
+
+export const parseDocument = (text: string): NyxDocument => {
+  const data = parseJson(text)
+  if (data?.format !== 'nyx-document') throw new NativeFormatError('Not a Nyx document')
+  if (data.version !== 1 && data.version !== 2) throw new NativeFormatError(`Unsupported document version ${data.version}`)
+  if (!Array.isArray(data.blocks)) throw new NativeFormatError('Document has no blocks')
+
+  return createDocument(typeof data.name === 'string' ? data.name : 'Untitled Document', data.blocks.map(parseBlock))
+}
+
+export const createSpreadsheet = (sheets: NyxSpreadsheetSheet[]): NyxSpreadsheet => ({
+  format: 'nyx-spreadsheet',
+  version: 1,
+  sheets,
+})
+
+export const serializeSpreadsheet = (workbook: NyxSpreadsheet) => JSON.stringify(workbook, null, 2)
+
+export const parseSpreadsheet = (text: string): NyxSpreadsheet => {
+  const data = parseJson(text)
+  if (data?.format !== 'nyx-spreadsheet') throw new NativeFormatError('Not a Nyx spreadsheet')
+  if (data.version !== 1) throw new NativeFormatError(`Unsupported spreadsheet version ${data.version}`)
+  if (!Array.isArray(data.sheets) || data.sheets.length === 0) throw new NativeFormatError('Spreadsheet has no sheets')
+
+  return createSpreadsheet(
+    data.sheets.map((sheet: any, index: number) => {
+      const cells: Record<string, string> = {}
+      Object.entries(sheet?.cells || {}).forEach(([address, value]) => {
+        if (/^[A-Z]+[1-9][0-9]*$/i.test(address) && value != null) cells[address.toUpperCase()] = String(value)
+      })
+      return { name: typeof sheet?.name === 'string' && sheet.name ? sheet.name : `Sheet ${index + 1}`, cells }
+    })
+  )
+}
@@ -0,0 +1,94 @@
+import { vfs, VFS_PATHS, VfsEntry, basename, dirname, isTextEntry, joinPath } from '@/services/vfs'
+
+// Notes are plain text files in the virtual filesystem so Files, Notepad and the
+// mobile notepad all see the same documents. Tags live in the file metadata.
+
+export interface StoredNote {
+  path: string
+  title: string
+  content: string
+  tags: string[]
+  created: Date
+  modified: Date
+}
+
+export const NOTES_DIRECTORY = VFS_PATHS.notes
+
+const LEGACY_NOTEPAD_KEY = 'nyx-notepad-files'
+const LEGACY_MOBILE_NOTES_KEY = 'nyx-notepad-notes'
+
+export const titleFromPath = (path: string) => basename(path).replace(/\.[^.]+$/, '')
+
+const fileNameForTitle = (title: string) =>
+  `${title.replace(/[\\/]/g, '-').trim() || 'Untitled Note'}.txt`
+
+const toNote = (entry: VfsEntry, content: string): StoredNote => ({
+  path: entry.path,
+  title: titleFromPath(entry.path),
+  content,
+  tags: Array.isArray(entry.meta?.tags) ? (entry.meta!.tags as string[]) : [],
+  created: new Date(entry.created),
+  modified: new Date(entry.modified),
+})
+
+let migration: Promise<void> | null = null
+
+// Moves notes from the old per-app localStorage keys into the notes folder, once
+export const migrateLegacyNotes = () => {
+  if (!migration) {
+    migration = (async () => {
+      const legacy: { title: string; content: string; tags: string[] }[] = []
+      try {
+        const desktop = JSON.parse(localStorage.getItem(LEGACY_NOTEPAD_KEY) || '[]')
+        desktop.forEach((note: any) => legacy.push({ title: note.name, content: note.content || '', tags: note.tags || [] }))
+        const mobile = JSON.parse(localStorage.getItem(LEGACY_MOBILE_NOTES_KEY) || '[]')
+        mobile.forEach((note: any) => legacy.push({ title: note.title, content: note.content || '', tags: note.tags || [] }))
+      } catch (error) {
+        console.warn('Skipping unreadable legacy notes:', error)
+      }
+
+      for (const note of legacy) {
+        const path = await vfs.uniquePath(joinPath(NOTES_DIRECTORY, fileNameForTitle(note.title)))
+        await vfs.writeFile(path, note.content, { meta: { tags: note.tags } })
+      }
+      localStorage.removeItem(LEGACY_NOTEPAD_KEY)
+      localStorage.removeItem(LEGACY_MOBILE_NOTES_KEY)
+    })()
+  }
+  return migration
+}
+
+export const loadNotes = async (): Promise<StoredNote[]> => {
+  await migrateLegacyNotes()
+  await vfs.mkdir(NOTES_DIRECTORY)
+  const entries = (await vfs.list(NOTES_DIRECTORY)).filter(entry => entry.type === 'file' && isTextEntry(entry))
+  return Promise.all(entries.map(async entry => toNote(entry, await vfs.readText(entry.path))))
+}
+
+export const loadNote = async (path: string): Promise<StoredNote | null> => {
+  const entry = await vfs.stat(path)
+  if (!entry || entry.type !== 'file') return null
+  return toNote(entry, await vfs.readText(path))
+}
+
+// Creates a note in the notes folder with a free file name derived from the title
+export const createNote = async (title: string, content = '', tags: string[] = []): Promise<StoredNote> => {
+  const path = await vfs.uniquePath(joinPath(NOTES_DIRECTORY, fileNameForTitle(title)))
+  const entry = await vfs.writeFile(path, content, { meta: { tags } })
+  return toNote(entry, content)
+}
+
+// Saves a note; when the title changed the file is renamed within its folder
+export const saveNote = async (note: { path: string; title?: string; content: string; tags?: string[] }): Promise<StoredNote> => {
+  let path = note.path
+  if (note.title !== undefined && note.title.trim() && note.title !== titleFromPath(path)) {
+    const ext = basename(path).match(/\.[^.]+$/)?.[0] || '.txt'
+    const target = await vfs.uniquePath(joinPath(dirname(path), fileNameForTitle(note.title).replace(/\.txt$/, ext)))
+    if (await vfs.exists(path)) await vfs.move(path, target)
+    path = target
+  }
+  const entry = await vfs.writeFile(path, note.content, note.tags ? { meta: { tags: note.tags } } : {})
+  return toNote(entry, note.content)
+}
+
+export const deleteNote = (path: string) => vfs.remove(path)
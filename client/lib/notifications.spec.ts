@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { groupNotifications, isQuietTime, shouldInterrupt, type NyxNotification } from "./notifications";
+
+const at = (day: number, time: string) => {
+  // 2024-06-02 is a Sunday, so `day` doubles as the weekday index
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(2024, 5, 2 + day, hours, minutes);
+};
+
+describe("isQuietTime", () => {
+  it("handles periods within a day", () => {
+    const hours = { start: "12:00", end: "13:30" };
+    expect(isQuietTime(hours, at(1, "11:59"))).toBe(false);
+    expect(isQuietTime(hours, at(1, "12:00"))).toBe(true);
+    expect(isQuietTime(hours, at(1, "13:30"))).toBe(false);
+  });
+
+  it("spans midnight and attributes the early hours to the previous day", () => {
+    const weeknights = { start: "22:00", end: "07:00", days: [0, 1, 2, 3, 4] }; // Sunday to Thursday nights
+    expect(isQuietTime(weeknights, at(4, "23:00"))).toBe(true); // Thursday night
+    expect(isQuietTime(weeknights, at(5, "06:00"))).toBe(true); // ...into Friday morning
+    expect(isQuietTime(weeknights, at(5, "23:00"))).toBe(false); // Friday night is free
+    expect(isQuietTime(weeknights, at(6, "06:00"))).toBe(false);
+    expect(isQuietTime(weeknights, at(1, "12:00"))).toBe(false);
+  });
+});
+
+describe("shouldInterrupt", () => {
+  const quiet = { enabled: true, schedule: null, allowUrgent: true };
+  const open = { enabled: false, schedule: null, allowUrgent: true };
+
+  it("lets only urgent notifications through do not disturb", () => {
+    expect(shouldInterrupt({ priority: "high" }, quiet, new Date())).toBe(false);
+    expect(shouldInterrupt({ priority: "urgent" }, quiet, new Date())).toBe(true);
+    expect(shouldInterrupt({ priority: "urgent" }, { ...quiet, allowUrgent: false }, new Date())).toBe(false);
+  });
+
+  it("never interrupts for low priority notifications", () => {
+    expect(shouldInterrupt({ priority: "low" }, open, new Date())).toBe(false);
+    expect(shouldInterrupt({ priority: "normal" }, open, new Date())).toBe(true);
+  });
+});
+
+describe("groupNotifications", () => {
+  const make = (id: string, appId: string, timestamp: number, extra: Partial<NyxNotification> = {}): NyxNotification => ({
+    id,
+    appId,
+    title: id,
+    priority: "normal",
+    timestamp,
+    read: false,
+    ...extra,
+  });
+
+  it("groups by explicit group or app, newest group first", () => {
+    const groups = groupNotifications([
+      make("a1", "calendar", 1),
+      make("b1", "files", 5, { read: true }),
+      make("a2", "calendar", 3),
+      make("c1", "system", 4, { group: "connectivity" }),
+    ]);
+    expect(groups.map((g) => [g.key, g.notifications.map((n) => n.id), g.unread])).toEqual([
+      ["files", ["b1"], 0],
+      ["connectivity", ["c1"], 1],
+      ["calendar", ["a2", "a1"], 2],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+// Notification model and the rules deciding when one may interrupt the user.
+// Kept free of React and storage so the do-not-disturb logic is easy to test.
+
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent'
+
+export interface NotificationAction {
+  id: string
+  label: string
+}
+
+export interface NyxNotification {
+  id: string
+  appId: string // source app, or 'system'
+  title: string
+  body?: string
+  priority: NotificationPriority
+  group?: string // groups by app when unset
+  actions?: NotificationAction[]
+  open?: { appId: string } // app launched when the notification is clicked
+  timestamp: number
+  read: boolean
+}
+
+/** A daily quiet period in local time; `end` before `start` spans midnight */
+export interface QuietHours {
+  start: string // HH:MM
+  end: string
+  days?: number[] // 0 = Sunday, the day the period starts; every day when unset
+}
+
+export interface DoNotDisturbSettings {
+  enabled: boolean
+  schedule: QuietHours | null
+  allowUrgent: boolean // urgent notifications (alarms) still break through
+}
+
+export interface NotificationGroup {
+  key: string
+  appId: string
+  notifications: NyxNotification[] // newest first
+  unread: number
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export const isQuietTime = (hours: QuietHours, date: Date): boolean => {
+  const start = toMinutes(hours.start)
+  const end = toMinutes(hours.end)
+  if (start === end) return false
+
+  const now = date.getHours() * 60 + date.getMinutes()
+  let startDay = date.getDay()
+  if (start < end) {
+    if (now < start || now >= end) return false
+  } else if (now < end) {
+    startDay = (startDay + 6) % 7 // the period began yesterday evening
+  } else if (now < start) {
+    return false
+  }
+  return !hours.days || hours.days.includes(startDay)
+}
+
+export const isDoNotDisturb = (settings: DoNotDisturbSettings, date: Date) =>
+  settings.enabled || (settings.schedule ? isQuietTime(settings.schedule, date) : false)
+
+/** Whether to show a toast and native notification, or only file it in the center */
+export const shouldInterrupt = (
+  notification: Pick<NyxNotification, 'priority'>,
+  settings: DoNotDisturbSettings,
+  date: Date
+) => {
+  if (notification.priority === 'urgent' && settings.allowUrgent) return true
+  return notification.priority !== 'low' && !isDoNotDisturb(settings, date)
+}
+
+// Groups keep the order of their newest notification
+export const groupNotifications = (notifications: NyxNotification[]): NotificationGroup[] => {
+  const groups = new Map<string, NotificationGroup>()
+  ;[...notifications]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach(notification => {
+      const key = notification.group ?? notification.appId
+      const group = groups.get(key) ?? { key, appId: notification.appId, notifications: [], unread: 0 }
+      group.notifications.push(notification)
+      if (!notification.read) group.unread++
+      groups.set(key, group)
+    })
+  return [...groups.values()]
+}
+
+export const formatNotificationTime = (timestamp: number, now = Date.now()) => {
+  const minutes = Math.floor((now - timestamp) / 60_000)
+  if (minutes < 1) return 'now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
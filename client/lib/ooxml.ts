@@ -0,0 +1,89 @@
+// Pieces shared by the Office Open XML writers and readers (DOCX, PPTX):
+// namespaces, escaping, and the images that travel inside the packages.
+
+export const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  officeRel: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types',
+}
+
+export const xml = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+
+/** Core properties part (docProps/core.xml) with the title and timestamps */
+export const corePropertiesXml = (title: string, modified: Date) => {
+  const timestamp = modified.toISOString().replace(/\.\d{3}Z$/, 'Z')
+  return xml(
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified>` +
+    '</cp:coreProperties>'
+  )
+}
+
+export type ImageExtension = 'png' | 'jpeg' | 'gif'
+
+export const IMAGE_MIME_TYPES: Record<ImageExtension, string> = { png: 'image/png', jpeg: 'image/jpeg', gif: 'image/gif' }
+
+export const decodeImageDataUrl = (url: string): { bytes: Uint8Array; extension: ImageExtension } | null => {
+  const match = url.match(/^data:image\/(png|jpe?g|gif);base64,(.*)$/i)
+  if (!match) return null
+  try {
+    const binary = atob(match[2])
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+    const type = match[1].toLowerCase()
+    return { bytes, extension: (type === 'jpg' ? 'jpeg' : type) as ImageExtension }
+  } catch {
+    return null
+  }
+}
+
+export const encodeImageDataUrl = (bytes: Uint8Array, extension: ImageExtension) => {
+  let binary = ''
+  // In slices, since spreading a large image into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return `data:${IMAGE_MIME_TYPES[extension]};base64,${btoa(binary)}`
+}
+
+// Pixel size from the image header, so pictures keep their proportions
+export const imageSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+  if (bytes.length >= 10 && bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+  }
+  if (bytes.length >= 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null
+      const marker = bytes[offset + 1]
+      const length = view.getUint16(offset + 2)
+      // Start-of-frame markers, except the ones that are not frames (DHT, JPG, DAC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      }
+      offset += 2 + length
+    }
+  }
+  return null
+}
@@ -0,0 +1,216 @@
+// Minimal PDF 1.4 writer. Pages are content streams drawn by the caller, with
+// JPEGs embedded as-is (DCTDecode), axial shadings and the standard Helvetica,
+// Times and Courier fonts, so no font or image data has to be embedded.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array
+  width: number // pixels
+  height: number
+}
+
+export interface PdfPage {
+  width: number // points
+  height: number
+  content: string // content stream operators
+  images?: PdfImagePage[] // drawn as /Im0, /Im1… in this order
+  shadings?: string[] // shading dictionaries, painted as /Sh0, /Sh1…
+}
+
+export interface PdfOptions {
+  title?: string
+  margin?: number // points
+}
+
+const A4 = { width: 595.28, height: 841.89 }
+
+const encoder = new TextEncoder()
+
+// PDF text strings: escape the delimiters and keep to printable ASCII
+const pdfString = (text: string) =>
+  `(${text.replace(/[\\()]/g, '\\$&').replace(/[^\x20-\x7e]/g, '?')})`
+
+export const round = (n: number) => Math.round(n * 100) / 100
+
+export type PdfFont = 'F1' | 'F2' | 'F3'
+
+const FONTS: Record<PdfFont, string> = { F1: 'Helvetica', F2: 'Times-Roman', F3: 'Courier' }
+
+/** The standard font closest to a CSS font family */
+export const pdfFontFor = (family = ''): PdfFont => {
+  if (/courier|mono/i.test(family)) return 'F3'
+  if (/sans/i.test(family)) return 'F1'
+  return /georgia|times|garamond|serif/i.test(family) ? 'F2' : 'F1'
+}
+
+// Advance widths of the printable ASCII characters, in 1/1000 em (from the Adobe font metrics)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const TIMES_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+  556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444, 500, 444, 500, 444, 333, 500,
+  500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+]
+
+// Typographic characters that WinAnsiEncoding places in 0x80–0x9f
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+}
+
+// Character codes of the text in WinAnsiEncoding; anything it lacks becomes "?"
+const winAnsiCodes = (text: string) =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0)
+    if (char === '\t') return 0x20
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f
+  })
+
+const charWidth = (code: number, font: PdfFont) => {
+  if (font === 'F3') return 600
+  const widths = font === 'F2' ? TIMES_WIDTHS : HELVETICA_WIDTHS
+  return code >= 0x20 && code <= 0x7e ? widths[code - 0x20] : font === 'F2' ? 500 : 556
+}
+
+export const textWidth = (text: string, font: PdfFont, size: number) =>
+  winAnsiCodes(text).reduce((sum, code) => sum + charWidth(code, font), 0) * size / 1000
+
+/** A string operand for Tj, hex-encoded so any character code survives */
+export const pdfText = (text: string) =>
+  `<${winAnsiCodes(text).map(code => code.toString(16).padStart(2, '0')).join('')}>`
+
+/** Breaks text into lines no wider than maxWidth, at spaces, as browsers wrap it */
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number) =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = []
+    let line = ''
+    paragraph.split(' ').forEach((word, index) => {
+      const candidate = index === 0 ? word : `${line} ${word}`
+      if (index > 0 && line && textWidth(candidate, font, size) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    })
+    lines.push(line)
+    return lines
+  })
+
+interface PdfObject {
+  body: string | Uint8Array[]
+  dictionary?: string // for streams, without /Length
+}
+
+const streamObject = (data: Uint8Array, dictionary = ''): PdfObject => ({
+  body: [data],
+  dictionary: `<< ${dictionary ? `${dictionary} ` : ''}/Length ${data.length} >>`,
+})
+
+// Serializes numbered objects (the first is 1) with the catalog as object 1 and
+// the document info as object 3
+const serialize = (objects: PdfObject[]): Uint8Array => {
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')
+  objects.forEach(({ body, dictionary }, index) => {
+    const id = index + 1
+    offsets[id] = length
+    write(`${id} 0 obj\n`)
+    if (Array.isArray(body)) {
+      write(`${dictionary}\nstream\n`)
+      body.forEach(write)
+      write('\nendstream')
+    } else {
+      write(body)
+    }
+    write('\nendobj\n')
+  })
+
+  const xrefOffset = length
+  const count = objects.length + 1
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`)
+  for (let id = 1; id < count; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const output = new Uint8Array(length)
+  let position = 0
+  chunks.forEach(chunk => {
+    output.set(chunk, position)
+    position += chunk.length
+  })
+  return output
+}
+
+export const createPdf = (pages: PdfPage[], options: PdfOptions = {}): Uint8Array => {
+  if (pages.length === 0) throw new Error('A PDF needs at least one page')
+
+  const objects: PdfObject[] = []
+  const add = (object: PdfObject) => objects.push(object)
+
+  add({ body: '<< /Type /Catalog /Pages 2 0 R >>' })
+  add({ body: '' }) // the page tree, once the page numbers are known
+  add({ body: `<< /Producer (Nyx OS)${options.title ? ` /Title ${pdfString(options.title)}` : ''} >>` })
+  const fonts = (Object.keys(FONTS) as PdfFont[]).map(
+    name => `/${name} ${add({ body: `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[name]} /Encoding /WinAnsiEncoding >>` })} 0 R`
+  )
+
+  const pageIds = pages.map(page => {
+    const pageId = add({ body: '' })
+    const contentId = add(streamObject(encoder.encode(page.content)))
+    const images = (page.images || []).map((image, index) => {
+      const id = add(streamObject(
+        image.jpeg,
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode'
+      ))
+      return `/Im${index} ${id} 0 R`
+    })
+    const shadings = (page.shadings || []).map((shading, index) => `/Sh${index} ${shading}`)
+
+    const resources = [
+      `/Font << ${fonts.join(' ')} >>`,
+      images.length ? `/XObject << ${images.join(' ')} >>` : '',
+      shadings.length ? `/Shading << ${shadings.join(' ')} >>` : '',
+    ].filter(Boolean).join(' ')
+    objects[pageId - 1] = {
+      body:
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(page.width)} ${round(page.height)}] ` +
+        `/Resources << ${resources} >> /Contents ${contentId} 0 R >>`,
+    }
+    return pageId
+  })
+  objects[1] = { body: `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>` }
+
+  return serialize(objects)
+}
+
+/** Each image on its own A4 page, scaled to fit in the image's orientation */
+export const createImagePdf = (pages: PdfImagePage[], options: PdfOptions = {}): Uint8Array => {
+  const margin = options.margin ?? 36
+  return createPdf(pages.map(page => {
+    const landscape = page.width > page.height
+    const pageWidth = landscape ? A4.height : A4.width
+    const pageHeight = landscape ? A4.width : A4.height
+    const scale = Math.min((pageWidth - margin * 2) / page.width, (pageHeight - margin * 2) / page.height, 1)
+    const drawWidth = round(page.width * scale)
+    const drawHeight = round(page.height * scale)
+    const x = round((pageWidth - drawWidth) / 2)
+    const y = round((pageHeight - drawHeight) / 2)
+    return { width: pageWidth, height: pageHeight, content: `q ${drawWidth} 0 0 ${drawHeight} ${x} ${y} cm /Im0 Do Q`, images: [page] }
+  }), options)
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect } from "vitest";
+import { presentationToPptx, pptxToPresentation, PptxError } from "./pptx";
+import { presentationToPdf } from "./presentation-pdf";
+import { createZip, crc32, readZip } from "./zip";
+import type { Presentation, SlideElement } from "./presentation";
+
+// 2x1 PNG header; only the IHDR chunk is needed to read the size
+const PNG = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0,
+]);
+const PNG_DATA_URL = `data:image/png;base64,${btoa(String.fromCharCode(...PNG))}`;
+
+const element = (overrides: Partial<SlideElement>): SlideElement => ({
+  id: "el", type: "text", x: 0, y: 0, width: 100, height: 50, content: "", ...overrides,
+});
+
+const deck: Presentation = {
+  id: "1",
+  name: "Quarterly review",
+  slides: [
+    {
+      id: "s1",
+      title: "Welcome",
+      bgColor: "from-purple-600 to-indigo-600",
+      textColor: "text-white",
+      transition: "fade",
+      notes: "Greet everyone\nMention the agenda",
+      elements: [
+        element({ id: "t", content: "Hello & welcome\nSecond line", x: 50, y: 100, width: 400, height: 100, fontSize: 24, fontFamily: "Georgia", color: "#ffcc00" }),
+        element({ id: "r", type: "shape", shape: "rectangle", x: 10.5, y: 20.25, width: 150, height: 100, bgColor: "#6366f1", rotation: 30 }),
+        element({ id: "c", type: "shape", shape: "circle", x: 600, y: 300, width: 120, height: 120, bgColor: "#10b981", rotation: -45 }),
+        element({ id: "tr", type: "shape", shape: "triangle", x: 800, y: 40, width: 90, height: 80, bgColor: "#ef4444" }),
+        element({ id: "i", type: "image", x: 700, y: 400, width: 200, height: 100, imageUrl: PNG_DATA_URL }),
+      ],
+    },
+    {
+      id: "s2",
+      title: "Plain",
+      bgColor: "from-gray-900 to-gray-800",
+      textColor: "text-white",
+      transition: "none",
+      elements: [element({ id: "t2", content: "Bye", x: 0, y: 0, width: 1024, height: 576, fontSize: 48 })],
+    },
+  ],
+};
+
+const geometry = ({ type, x, y, width, height, rotation }: SlideElement) => ({ type, x, y, width, height, rotation: rotation || 0 });
+
+// Rewrites every entry of a store-only zip as deflated, as office suites save them
+const deflateZip = async (zip: Uint8Array) => {
+  const entries = await readZip(zip);
+  const deflated = await Promise.all([...entries].map(async ([name, data]) => {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+    return { name, data, compressed: new Uint8Array(await new Response(stream).arrayBuffer()) };
+  }));
+  const out = createZip(deflated.map(({ name, compressed }) => ({ name, data: compressed })));
+  const view = new DataView(out.buffer);
+  let local = 0;
+  deflated.forEach(({ name, data, compressed }) => {
+    view.setUint16(local + 8, 8, true);
+    view.setUint32(local + 14, crc32(data), true);
+    view.setUint32(local + 22, data.length, true);
+    local += 30 + new TextEncoder().encode(name).length + compressed.length;
+  });
+  let central = local;
+  deflated.forEach(({ name, data }) => {
+    view.setUint16(central + 10, 8, true);
+    view.setUint32(central + 16, crc32(data), true);
+    view.setUint32(central + 24, data.length, true);
+    central += 46 + new TextEncoder().encode(name).length;
+  });
+  return out;
+};
+
+describe("presentationToPptx", () => {
+  it("writes a package with a slide, relationships and media per slide", async () => {
+    const entries = await readZip(presentationToPptx(deck));
+    const text = (name: string) => new TextDecoder().decode(entries.get(name));
+
+    expect(text("[Content_Types].xml")).toContain('PartName="/ppt/slides/slide2.xml"');
+    expect(text("ppt/presentation.xml")).toContain('<p:sldSz cx="12192000" cy="6858000"/>');
+    expect(text("ppt/slides/slide1.xml")).toContain("Hello &amp; welcome");
+    expect(text("ppt/slides/_rels/slide1.xml.rels")).toContain('Target="../media/image1.png"');
+    expect(entries.get("ppt/media/image1.png")).toEqual(PNG);
+    expect(entries.has("ppt/notesSlides/notesSlide1.xml")).toBe(true);
+    expect(entries.has("ppt/notesSlides/notesSlide2.xml")).toBe(false);
+  });
+
+  it("crops pictures to fill their frame like object-fit: cover", async () => {
+    const entries = await readZip(presentationToPptx(deck));
+    // A 2:1 image in a 2:1 frame needs no crop; a square frame trims a quarter off each side
+    expect(new TextDecoder().decode(entries.get("ppt/slides/slide1.xml"))).not.toContain("a:srcRect");
+    const square = { ...deck, slides: [{ ...deck.slides[0], elements: [element({ type: "image", width: 100, height: 100, imageUrl: PNG_DATA_URL })] }] };
+    const slide = new TextDecoder().decode((await readZip(presentationToPptx(square))).get("ppt/slides/slide1.xml"));
+    expect(slide).toContain('<a:srcRect l="25000" r="25000"/>');
+  });
+});
+
+describe("pptxToPresentation", () => {
+  it("round-trips element geometry", async () => {
+    const imported = await pptxToPresentation(presentationToPptx(deck), deck.name);
+    expect(imported.slides).toHaveLength(2);
+    deck.slides.forEach((slide, i) => {
+      expect(imported.slides[i].elements.map(geometry)).toEqual(slide.elements.map(geometry));
+    });
+  });
+
+  it("round-trips text, colors, shapes, images and slide settings", async () => {
+    const [first, second] = (await pptxToPresentation(presentationToPptx(deck), deck.name)).slides;
+    const [text, rectangle, circle, triangle, image] = first.elements;
+
+    expect(text).toMatchObject({ content: "Hello & welcome\nSecond line", fontSize: 24, fontFamily: "Georgia", color: "#ffcc00" });
+    expect([rectangle.shape, circle.shape, triangle.shape]).toEqual(["rectangle", "circle", "triangle"]);
+    expect([rectangle.bgColor, circle.bgColor, triangle.bgColor]).toEqual(["#6366f1", "#10b981", "#ef4444"]);
+    expect(image.imageUrl).toBe(PNG_DATA_URL);
+
+    expect(first).toMatchObject({ bgColor: "from-[#9333ea] to-[#4f46e5]", transition: "fade", notes: "Greet everyone\nMention the agenda" });
+    expect(second).toMatchObject({ bgColor: "from-[#111827] to-[#1f2937]", transition: "none", notes: undefined });
+    // Text without its own color keeps the slide's
+    expect(second.elements[0]).toMatchObject({ content: "Bye", fontSize: 48, color: "#ffffff" });
+  });
+
+  it("reads deflated packages", async () => {
+    const imported = await pptxToPresentation(await deflateZip(presentationToPptx(deck)), "Deflated");
+    expect(imported.slides[0].elements.map(geometry)).toEqual(deck.slides[0].elements.map(geometry));
+  });
+
+  it("scales 4:3 decks and places placeholders from their layout", async () => {
+    const ns = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+    const rel = (id: string, type: string, target: string) =>
+      `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`;
+    const rels = (...items: string[]) => `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items.join("")}</Relationships>`;
+    const title = (xfrm: string, text: string) =>
+      `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="ctrTitle"/></p:nvPr></p:nvSpPr><p:spPr>${xfrm}</p:spPr>` +
+      `<p:txBody><a:bodyPr/><a:p><a:r><a:rPr lang="en-US"/><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+
+    const zip = createZip([
+      { name: "_rels/.rels", data: rels(rel("rId1", "officeDocument", "ppt/presentation.xml")) },
+      {
+        name: "ppt/presentation.xml",
+        data: `<p:presentation ${ns}><p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst><p:sldSz cx="9144000" cy="6858000"/></p:presentation>`,
+      },
+      { name: "ppt/_rels/presentation.xml.rels", data: rels(rel("rId2", "slide", "slides/slide1.xml")) },
+      {
+        name: "ppt/slides/slide1.xml",
+        data: `<p:sld ${ns}><p:cSld><p:spTree>${title("", "Imported deck")}</p:spTree></p:cSld></p:sld>`,
+      },
+      { name: "ppt/slides/_rels/slide1.xml.rels", data: rels(rel("rId1", "slideLayout", "../slideLayouts/slideLayout1.xml")) },
+      {
+        name: "ppt/slideLayouts/slideLayout1.xml",
+        data:
+          `<p:sldLayout ${ns}><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="FFF7ED"/></a:solidFill></p:bgPr></p:bg><p:spTree>` +
+          title('<a:xfrm><a:off x="914400" y="685800"/><a:ext cx="7315200" cy="1371600"/></a:xfrm>', "Click to add title") +
+          "</p:spTree></p:cSld></p:sldLayout>",
+      },
+    ]);
+
+    const [slide] = (await pptxToPresentation(zip, "Old deck")).slides;
+    // 4:3 fits the height: 576px for 6858000 EMU, with the sides centered
+    const scale = 576 / 6858000;
+    const left = (1024 - 9144000 * scale) / 2;
+    expect(slide.title).toBe("Imported deck");
+    expect(slide.bgColor).toBe("from-[#fff7ed] to-[#fff7ed]");
+    expect(slide.elements).toHaveLength(1);
+    expect(slide.elements[0]).toMatchObject({
+      type: "text",
+      content: "Imported deck",
+      x: Math.round((left + 914400 * scale) * 100) / 100,
+      y: Math.round(685800 * scale * 100) / 100,
+      width: Math.round(7315200 * scale * 100) / 100,
+      fontSize: Math.round(44 * 12700 * scale),
+    });
+  });
+
+  it("rejects files that aren't presentations", async () => {
+    await expect(pptxToPresentation(new TextEncoder().encode("not a zip"), "x")).rejects.toBeInstanceOf(PptxError);
+    await expect(pptxToPresentation(createZip([{ name: "a.txt", data: "hi" }]), "x")).rejects.toThrow("not a PowerPoint presentation");
+  });
+
+  it("rejects damaged archives with a PptxError", async () => {
+    const corrupt = (patch: (view: DataView, zip: Uint8Array) => void) => {
+      const zip = presentationToPptx(deck);
+      patch(new DataView(zip.buffer), zip);
+      return pptxToPresentation(zip, "x");
+    };
+    const firstCentral = (view: DataView) => view.getUint32(view.byteLength - 22 + 16, true);
+
+    // A local header offset past the end of the file
+    await expect(corrupt(view => view.setUint32(firstCentral(view) + 42, 0xfffffff0, true))).rejects.toBeInstanceOf(PptxError);
+    // An entry whose data runs past the end of the file
+    await expect(corrupt(view => view.setUint32(firstCentral(view) + 20, 0x7fffffff, true))).rejects.toBeInstanceOf(PptxError);
+    // A local header whose name length points past the end of the file
+    await expect(corrupt(view => view.setUint16(26, 0xffff, true))).rejects.toBeInstanceOf(PptxError);
+  });
+
+  it("stops inflating entries that grow past their declared size", async () => {
+    const zip = await deflateZip(presentationToPptx(deck));
+    const view = new DataView(zip.buffer);
+    view.setUint32(view.getUint32(zip.length - 22 + 16, true) + 24, 10, true);
+    await expect(pptxToPresentation(zip, "x")).rejects.toThrow("larger than it claims");
+  });
+});
+
+describe("presentationToPdf", () => {
+  it("draws one 16:9 page per slide with its text", () => {
+    const pdf = presentationToPdf(deck);
+    const text = new TextDecoder("latin1").decode(pdf);
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("/Count 2");
+    expect(text.match(/\/MediaBox \[0 0 960 540\]/g)).toHaveLength(2);
+    expect(text).toContain("/BaseFont /Times-Roman");
+    // "Bye" in WinAnsi hex
+    expect(text).toContain("<427965> Tj");
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+});
@@ -0,0 +1,719 @@
+import { createZip, readZip, ZipError, type ZipEntry } from '@/lib/zip'
+import {
+  NS,
+  corePropertiesXml,
+  decodeImageDataUrl,
+  encodeImageDataUrl,
+  escapeXml,
+  imageSize,
+  xml,
+  type ImageExtension,
+} from '@/lib/ooxml'
+import { parseHtml, type HtmlElement, type HtmlNode } from '@/lib/html'
+import {
+  SLIDE_HEIGHT,
+  SLIDE_WIDTH,
+  backgroundClasses,
+  hexColor,
+  slideBackground,
+  slideTextColor,
+  textColorClass,
+  type Presentation,
+  type Slide,
+  type SlideElement,
+  type SlideTransition,
+} from '@/lib/presentation'
+
+// Office Open XML presentations (.pptx). Export writes every slide with its
+// background, text, shapes, pictures, transition and speaker notes on a blank
+// layout. Import reads the same back from basic decks made elsewhere: text
+// boxes and placeholders, filled preset shapes, pictures and notes. Charts,
+// tables, SmartArt and animations have no counterpart in Nyx and are skipped.
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+export class PptxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PptxError'
+  }
+}
+
+// PowerPoint's 16:9 slide, 13.333in x 7.5in, which a Nyx slide fills exactly
+const SLIDE_SIZE = { cx: 12192000, cy: 6858000 }
+const NOTES_SIZE = { cx: 6858000, cy: 9144000 }
+const EMU_PER_PIXEL = SLIDE_SIZE.cx / SLIDE_WIDTH
+// Font sizes are in hundredths of a point; the slide is 960pt wide
+const POINTS_PER_PIXEL = 960 / SLIDE_WIDTH
+const ROTATION_UNIT = 60000 // per degree
+const PERCENT = 100000 // DrawingML percentages
+// Matching SlideElementContent: p-2 text padding and 8px rounded rectangles
+const TEXT_INSET = 8
+const SHAPE_RADIUS = 8
+
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml'
+const REL = {
+  slide: `${NS.officeRel}/slide`,
+  slideLayout: `${NS.officeRel}/slideLayout`,
+  slideMaster: `${NS.officeRel}/slideMaster`,
+  notesSlide: `${NS.officeRel}/notesSlide`,
+  notesMaster: `${NS.officeRel}/notesMaster`,
+  theme: `${NS.officeRel}/theme`,
+  image: `${NS.officeRel}/image`,
+}
+const NAMESPACES = `xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"`
+
+const emu = (pixels: number) => Math.round(pixels * EMU_PER_PIXEL)
+
+const color = (hex: string) => `<a:srgbClr val="${hex.slice(1).toUpperCase()}"/>`
+
+const relationshipsXml = (relationships: string[]) =>
+  xml(`<Relationships xmlns="${NS.rel}">${relationships.join('')}</Relationships>`)
+
+const relationship = (id: string, type: string, target: string, external = false) =>
+  `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+
+const GROUP_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>'
+
+const COLOR_MAP =
+  'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"'
+
+const THEME_COLORS: [string, string][] = [
+  ['dk1', '000000'], ['lt1', 'FFFFFF'], ['dk2', '1F2937'], ['lt2', 'E5E7EB'],
+  ['accent1', '6366F1'], ['accent2', '9333EA'], ['accent3', '4F46E5'], ['accent4', '10B981'],
+  ['accent5', 'F59E0B'], ['accent6', 'EF4444'], ['hlink', '2563EB'], ['folHlink', '7C3AED'],
+]
+
+const THEME = (() => {
+  const font = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>'
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+  const three = (item: string) => item + item + item
+  return xml(
+    `<a:theme xmlns:a="${NS.a}" name="Nyx"><a:themeElements>` +
+    `<a:clrScheme name="Nyx">${THEME_COLORS.map(([name, value]) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`).join('')}</a:clrScheme>` +
+    `<a:fontScheme name="Nyx"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>` +
+    '<a:fmtScheme name="Nyx">' +
+    `<a:fillStyleLst>${three(fill)}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${three(`<a:ln w="9525">${fill}</a:ln>`)}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${three('<a:effectStyle><a:effectLst/></a:effectStyle>')}</a:effectStyleLst>` +
+    `<a:bgFillStyleLst>${three(fill)}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>'
+  )
+})()
+
+const SLIDE_MASTER = xml(
+  `<p:sldMaster ${NAMESPACES}><p:cSld><p:spTree>${GROUP_HEADER}</p:spTree></p:cSld>` +
+  `<p:clrMap ${COLOR_MAP}/>` +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>'
+)
+
+const SLIDE_LAYOUT = xml(
+  `<p:sldLayout ${NAMESPACES} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${GROUP_HEADER}</p:spTree></p:cSld>` +
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>'
+)
+
+const NOTES_MASTER = xml(
+  `<p:notesMaster ${NAMESPACES}><p:cSld><p:spTree>${GROUP_HEADER}</p:spTree></p:cSld><p:clrMap ${COLOR_MAP}/></p:notesMaster>`
+)
+
+const TRANSITIONS: Record<SlideTransition, string> = {
+  none: '',
+  fade: '<p:transition spd="med"><p:fade/></p:transition>',
+  push: '<p:transition spd="med"><p:push dir="l"/></p:transition>',
+  wipe: '<p:transition spd="med"><p:wipe dir="r"/></p:transition>',
+}
+
+const transform = (element: SlideElement) => {
+  const degrees = (((element.rotation || 0) % 360) + 360) % 360
+  const rotation = degrees ? ` rot="${Math.round(degrees * ROTATION_UNIT)}"` : ''
+  return (
+    `<a:xfrm${rotation}><a:off x="${emu(element.x)}" y="${emu(element.y)}"/>` +
+    `<a:ext cx="${emu(Math.max(0, element.width))}" cy="${emu(Math.max(0, element.height))}"/></a:xfrm>`
+  )
+}
+
+// The first family of a CSS font stack, which is what PowerPoint can look up
+const typeface = (fontFamily?: string) => fontFamily?.split(',')[0].trim().replace(/^["']|["']$/g, '') || 'Calibri'
+
+type RunProperties = (tag: 'a:rPr' | 'a:endParaRPr') => string
+
+const plainRun: RunProperties = tag => `<${tag} lang="en-US" dirty="0"/>`
+
+const paragraphs = (text: string, properties: RunProperties = plainRun, paragraphProperties = '') =>
+  text.split('\n').map(line =>
+    `<a:p>${paragraphProperties}${line ? `<a:r>${properties('a:rPr')}<a:t>${escapeXml(line)}</a:t></a:r>` : ''}${properties('a:endParaRPr')}</a:p>`
+  ).join('')
+
+class SlideWriter {
+  private shapeId = 1
+  private relationships: string[] = []
+  readonly media: ZipEntry[] = []
+
+  // Media file names continue the numbering of earlier slides
+  constructor(private slide: Slide, private mediaOffset: number) {}
+
+  private addRelationship(type: string, target: string, external = false) {
+    const id = `rId${this.relationships.length + 1}`
+    this.relationships.push(relationship(id, type, target, external))
+    return id
+  }
+
+  private nonVisual(kind: 'Sp' | 'Pic', name: string, properties = `<p:cNv${kind}Pr/>`) {
+    this.shapeId++
+    const tag = `p:nv${kind}Pr`
+    return `<${tag}><p:cNvPr id="${this.shapeId}" name="${name} ${this.shapeId}"/>${properties}<p:nvPr/></${tag}>`
+  }
+
+  private text(element: SlideElement) {
+    const size = Math.round((element.fontSize || 16) * POINTS_PER_PIXEL * 100)
+    const fill = hexColor(element.color) ?? slideTextColor(this.slide)
+    const font = escapeXml(typeface(element.fontFamily))
+    const properties: RunProperties = tag =>
+      `<${tag} lang="en-US" sz="${size}" dirty="0"><a:solidFill>${color(fill)}</a:solidFill>` +
+      `<a:latin typeface="${font}"/><a:cs typeface="${font}"/></${tag}>`
+    const inset = emu(TEXT_INSET)
+    return (
+      `<p:sp>${this.nonVisual('Sp', 'Text', '<p:cNvSpPr txBox="1"/>')}` +
+      `<p:spPr>${transform(element)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>` +
+      `<p:txBody><a:bodyPr wrap="square" lIns="${inset}" tIns="${inset}" rIns="${inset}" bIns="${inset}" anchor="ctr" rtlCol="0"><a:noAutofit/></a:bodyPr>` +
+      `<a:lstStyle/>${paragraphs(element.content, properties, '<a:pPr algn="ctr"/>')}</p:txBody></p:sp>`
+    )
+  }
+
+  private shape(element: SlideElement) {
+    const fill = hexColor(element.bgColor)
+    let geometry = '<a:prstGeom prst="roundRect"><a:avLst>'
+    if (element.shape === 'circle') geometry = '<a:prstGeom prst="ellipse"><a:avLst>'
+    else if (element.shape === 'triangle') geometry = '<a:prstGeom prst="triangle"><a:avLst>'
+    else {
+      // The corner radius is a fraction of the shorter side
+      const shorter = Math.min(element.width, element.height)
+      const radius = shorter > 0 ? Math.min(PERCENT / 2, Math.round((SHAPE_RADIUS / shorter) * PERCENT)) : 0
+      geometry += `<a:gd name="adj" fmla="val ${radius}"/>`
+    }
+    return (
+      `<p:sp>${this.nonVisual('Sp', 'Shape')}<p:spPr>${transform(element)}${geometry}</a:avLst></a:prstGeom>` +
+      `${fill ? `<a:solidFill>${color(fill)}</a:solidFill>` : '<a:noFill/>'}<a:ln><a:noFill/></a:ln></p:spPr></p:sp>`
+    )
+  }
+
+  private picture(element: SlideElement) {
+    const url = element.imageUrl || ''
+    const decoded = decodeImageDataUrl(url)
+    let blip: string
+    let crop = ''
+    if (decoded) {
+      const name = `image${this.mediaOffset + this.media.length + 1}.${decoded.extension}`
+      this.media.push({ name: `ppt/media/${name}`, data: decoded.bytes })
+      blip = `<a:blip r:embed="${this.addRelationship(REL.image, `../media/${name}`)}"/>`
+      // object-fit: cover trims the sides that don't fit the frame
+      const size = imageSize(decoded.bytes)
+      if (size && size.width > 0 && size.height > 0 && element.width > 0 && element.height > 0) {
+        const visible = (element.width / element.height) / (size.width / size.height)
+        const trim = Math.round(((1 - Math.min(visible, 1 / visible)) / 2) * PERCENT)
+        if (trim > 0) crop = visible < 1 ? `<a:srcRect l="${trim}" r="${trim}"/>` : `<a:srcRect t="${trim}" b="${trim}"/>`
+      }
+    } else if (/^https?:\/\//i.test(url)) {
+      blip = `<a:blip r:link="${this.addRelationship(REL.image, url, true)}"/>`
+    } else {
+      return ''
+    }
+    return (
+      `<p:pic>${this.nonVisual('Pic', 'Picture', '<p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr>')}` +
+      `<p:blipFill>${blip}${crop}<a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+      `<p:spPr>${transform(element)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`
+    )
+  }
+
+  private background() {
+    const { from, to } = slideBackground(this.slide)
+    const fill = from === to
+      ? `<a:solidFill>${color(from)}</a:solidFill>`
+      : `<a:gradFill rotWithShape="1"><a:gsLst><a:gs pos="0">${color(from)}</a:gs><a:gs pos="${PERCENT}">${color(to)}</a:gs></a:gsLst>` +
+        '<a:lin ang="2700000" scaled="1"/></a:gradFill>'
+    return `<p:bg><p:bgPr>${fill}<a:effectLst/></p:bgPr></p:bg>`
+  }
+
+  slideXml() {
+    const shapes = this.slide.elements.map(element =>
+      element.type === 'text' ? this.text(element) : element.type === 'shape' ? this.shape(element) : this.picture(element)
+    ).join('')
+    return xml(
+      `<p:sld ${NAMESPACES}><p:cSld name="${escapeXml(this.slide.title)}">${this.background()}` +
+      `<p:spTree>${GROUP_HEADER}${shapes}</p:spTree></p:cSld>` +
+      `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>${TRANSITIONS[this.slide.transition] ?? ''}</p:sld>`
+    )
+  }
+
+  /** Call after slideXml, which adds the picture relationships */
+  relationshipsXml(notes?: string) {
+    const layout = relationship(`rId${this.relationships.length + 1}`, REL.slideLayout, '../slideLayouts/slideLayout1.xml')
+    const notesRelationship = notes ? relationship(`rId${this.relationships.length + 2}`, REL.notesSlide, notes) : ''
+    return relationshipsXml([...this.relationships, layout, notesRelationship])
+  }
+}
+
+const notesXml = (notes: string) =>
+  xml(
+    `<p:notes ${NAMESPACES}><p:cSld><p:spTree>${GROUP_HEADER}` +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr>' +
+    '<p:spPr><a:xfrm><a:off x="685800" y="1143000"/><a:ext cx="5486400" cy="3086100"/></a:xfrm></p:spPr></p:sp>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr>' +
+    '<p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm></p:spPr>' +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs(notes)}</p:txBody></p:sp>` +
+    '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>'
+  )
+
+export const presentationToPptx = (presentation: Presentation, modified = new Date()): Uint8Array => {
+  const entries: ZipEntry[] = []
+  const media: ZipEntry[] = []
+  const overrides: string[] = []
+  const override = (part: string, type: string) => overrides.push(`<Override PartName="/${part}" ContentType="${type}"/>`)
+  const hasNotes = presentation.slides.some(slide => slide.notes?.trim())
+
+  presentation.slides.forEach((slide, index) => {
+    const number = index + 1
+    const writer = new SlideWriter(slide, media.length)
+    const slidePart = `ppt/slides/slide${number}.xml`
+    entries.push({ name: slidePart, data: writer.slideXml() })
+    override(slidePart, `${CONTENT_TYPE}.slide+xml`)
+    media.push(...writer.media)
+
+    const notes = slide.notes?.trim() ? `../notesSlides/notesSlide${number}.xml` : undefined
+    entries.push({ name: `ppt/slides/_rels/slide${number}.xml.rels`, data: writer.relationshipsXml(notes) })
+    if (!notes) return
+    const notesPart = `ppt/notesSlides/notesSlide${number}.xml`
+    entries.push({ name: notesPart, data: notesXml(slide.notes!) })
+    entries.push({
+      name: `ppt/notesSlides/_rels/notesSlide${number}.xml.rels`,
+      data: relationshipsXml([
+        relationship('rId1', REL.notesMaster, '../notesMasters/notesMaster1.xml'),
+        relationship('rId2', REL.slide, `../slides/slide${number}.xml`),
+      ]),
+    })
+    override(notesPart, `${CONTENT_TYPE}.notesSlide+xml`)
+  })
+
+  const slideCount = presentation.slides.length
+  const notesMasterId = `rId${slideCount + 3}`
+  const presentationXml = xml(
+    `<p:presentation ${NAMESPACES} saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    (hasNotes ? `<p:notesMasterIdLst><p:notesMasterId r:id="${notesMasterId}"/></p:notesMasterIdLst>` : '') +
+    `<p:sldIdLst>${presentation.slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`).join('')}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_SIZE.cx}" cy="${SLIDE_SIZE.cy}"/><p:notesSz cx="${NOTES_SIZE.cx}" cy="${NOTES_SIZE.cy}"/>` +
+    '</p:presentation>'
+  )
+  const presentationRelationships = relationshipsXml([
+    relationship('rId1', REL.slideMaster, 'slideMasters/slideMaster1.xml'),
+    relationship('rId2', REL.theme, 'theme/theme1.xml'),
+    ...presentation.slides.map((_, i) => relationship(`rId${i + 3}`, REL.slide, `slides/slide${i + 1}.xml`)),
+    hasNotes ? relationship(notesMasterId, REL.notesMaster, 'notesMasters/notesMaster1.xml') : '',
+  ])
+
+  if (hasNotes) {
+    entries.push(
+      { name: 'ppt/notesMasters/notesMaster1.xml', data: NOTES_MASTER },
+      { name: 'ppt/notesMasters/_rels/notesMaster1.xml.rels', data: relationshipsXml([relationship('rId1', REL.theme, '../theme/theme2.xml')]) },
+      { name: 'ppt/theme/theme2.xml', data: THEME }
+    )
+    override('ppt/notesMasters/notesMaster1.xml', `${CONTENT_TYPE}.notesMaster+xml`)
+    override('ppt/theme/theme2.xml', 'application/vnd.openxmlformats-officedocument.theme+xml')
+  }
+
+  const contentTypes = xml(
+    `<Types xmlns="${NS.contentTypes}">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+    '<Default Extension="gif" ContentType="image/gif"/>' +
+    `<Override PartName="/ppt/presentation.xml" ContentType="${CONTENT_TYPE}.presentation.main+xml"/>` +
+    `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CONTENT_TYPE}.slideMaster+xml"/>` +
+    `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CONTENT_TYPE}.slideLayout+xml"/>` +
+    '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    overrides.join('') +
+    '</Types>'
+  )
+
+  const packageRelationships = relationshipsXml([
+    relationship('rId1', `${NS.officeRel}/officeDocument`, 'ppt/presentation.xml'),
+    relationship('rId2', 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', 'docProps/core.xml'),
+  ])
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: packageRelationships },
+    { name: 'docProps/core.xml', data: corePropertiesXml(presentation.name, modified) },
+    { name: 'ppt/presentation.xml', data: presentationXml },
+    { name: 'ppt/_rels/presentation.xml.rels', data: presentationRelationships },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: SLIDE_MASTER },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationshipsXml([
+        relationship('rId1', REL.slideLayout, '../slideLayouts/slideLayout1.xml'),
+        relationship('rId2', REL.theme, '../theme/theme1.xml'),
+      ]),
+    },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: SLIDE_LAYOUT },
+    {
+      name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationshipsXml([relationship('rId1', REL.slideMaster, '../slideMasters/slideMaster1.xml')]),
+    },
+    { name: 'ppt/theme/theme1.xml', data: THEME },
+    ...entries,
+    ...media,
+  ], modified)
+}
+
+// Reading: the package is walked through its relationships, the way
+// PowerPoint does, rather than by assuming part names.
+
+interface Relationship {
+  type: string
+  target: string // package path, or the URL of an external target
+  external: boolean
+}
+
+// EMU to slide pixels; groups add their own offset and scale
+interface Transform {
+  x: number
+  y: number
+  scaleX: number
+  scaleY: number
+}
+
+const PLACEHOLDER_SIZE = { title: 4400, body: 1800 } // PowerPoint's defaults, in hundredths of a point
+const EMU_PER_POINT = 12700
+
+const elementsOf = (node: HtmlElement | undefined) =>
+  (node?.children || []).filter((child): child is HtmlElement => child.type === 'element')
+
+const child = (node: HtmlElement | undefined, tag: string) => elementsOf(node).find(element => element.tag === tag)
+
+const descendants = (node: HtmlElement | undefined, tag: string): HtmlElement[] =>
+  elementsOf(node).flatMap(element => (element.tag === tag ? [element] : []).concat(descendants(element, tag)))
+
+const descendant = (node: HtmlElement | undefined, tag: string) => descendants(node, tag)[0]
+
+const numberAttribute = (node: HtmlElement | undefined, name: string, fallback = 0) => {
+  const value = Number(node?.attrs[name])
+  return node && node.attrs[name] !== undefined && Number.isFinite(value) ? value : fallback
+}
+
+const textOf = (node: HtmlElement): string =>
+  node.children.map(part => (part.type === 'text' ? part.text : textOf(part))).join('')
+
+const paragraphText = (paragraph: HtmlElement) =>
+  elementsOf(paragraph).map(part =>
+    part.tag === 'a:br' ? '\n' : part.tag === 'a:r' || part.tag === 'a:fld' ? descendants(part, 'a:t').map(textOf).join('') : ''
+  ).join('')
+
+const bodyText = (body: HtmlElement | undefined) => descendants(body, 'a:p').map(paragraphText).join('\n')
+
+const resolvePath = (from: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = from.split('/').slice(0, -1)
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop()
+    else if (segment && segment !== '.') parts.push(segment)
+  })
+  return parts.join('/')
+}
+
+const pixels = (value: number) => Math.round(value * 100) / 100
+
+const placeholderOf = (shape: HtmlElement) => descendant(child(shape, 'p:nvsppr'), 'p:ph')
+
+// Slide placeholders inherit from layout and master ones of the same role
+const placeholderType = (placeholder: HtmlElement) => {
+  const type = (placeholder.attrs.type || 'body').toLowerCase()
+  return type === 'ctrtitle' ? 'title' : type === 'subtitle' || type === 'obj' ? 'body' : type
+}
+
+const IMAGE_EXTENSIONS: Record<string, ImageExtension> = { png: 'png', jpg: 'jpeg', jpeg: 'jpeg', gif: 'gif' }
+
+class PptxReader {
+  private parts = new Map<string, HtmlElement | undefined>()
+  private decoder = new TextDecoder()
+
+  constructor(private entries: Map<string, Uint8Array>) {}
+
+  part(path: string | undefined) {
+    if (!path) return undefined
+    if (!this.parts.has(path)) {
+      const data = this.entries.get(path)
+      this.parts.set(path, data ? elementsOf({ type: 'element', tag: '#root', attrs: {}, children: parseHtml(this.decoder.decode(data)) })[0] : undefined)
+    }
+    return this.parts.get(path)
+  }
+
+  bytes(path: string) {
+    return this.entries.get(path)
+  }
+
+  relationships(path: string) {
+    const slash = path.lastIndexOf('/') + 1
+    const rels = this.part(`${path.slice(0, slash)}_rels/${path.slice(slash)}.rels`)
+    const relationships = new Map<string, Relationship>()
+    elementsOf(rels).forEach(rel => {
+      const external = rel.attrs.targetmode === 'External'
+      relationships.set(rel.attrs.id, {
+        type: rel.attrs.type || '',
+        target: external ? rel.attrs.target : resolvePath(path, rel.attrs.target || ''),
+        external,
+      })
+    })
+    return relationships
+  }
+
+  /** Target of the part's first relationship of a type, named by its last segment */
+  related(path: string | undefined, type: string) {
+    if (path === undefined) return undefined
+    return [...this.relationships(path).values()].find(rel => !rel.external && rel.type.endsWith(`/${type}`))?.target
+  }
+}
+
+class SlideReader {
+  private root: HtmlElement
+  private layout: HtmlElement | undefined
+  private master: HtmlElement | undefined
+  private relationships: Map<string, Relationship>
+  private scheme = new Map<string, string>()
+  private colorMap: Record<string, string>
+
+  constructor(private reader: PptxReader, private path: string, private transform: Transform) {
+    this.root = reader.part(path)
+    this.relationships = reader.relationships(path)
+    const layoutPath = reader.related(path, 'slideLayout')
+    const masterPath = reader.related(layoutPath, 'slideMaster')
+    this.layout = reader.part(layoutPath)
+    this.master = reader.part(masterPath)
+    this.colorMap = child(this.master, 'p:clrmap')?.attrs || {}
+    const theme = reader.part(reader.related(masterPath, 'theme'))
+    elementsOf(descendant(theme, 'a:clrscheme')).forEach(entry => {
+      const value = this.color(entry)
+      if (value) this.scheme.set(entry.tag.replace(/^a:/, ''), value)
+    })
+  }
+
+  /** The color inside a fill or color-reference element; tints and shades are ignored */
+  private color(container: HtmlElement | undefined): string | null {
+    const value = elementsOf(container)[0]
+    if (!value) return null
+    if (value.tag === 'a:srgbclr') return hexColor(`#${value.attrs.val}`)
+    if (value.tag === 'a:sysclr') return hexColor(`#${value.attrs.lastclr}`)
+    if (value.tag === 'a:prstclr') return value.attrs.val === 'white' ? '#ffffff' : value.attrs.val === 'black' ? '#000000' : null
+    if (value.tag === 'a:schemeclr') return this.schemeColor(value.attrs.val)
+    return null
+  }
+
+  private schemeColor(name: string) {
+    const mapped = this.colorMap[name.toLowerCase()] || ({ bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2' } as Record<string, string>)[name] || name
+    return this.scheme.get(mapped) ?? null
+  }
+
+  private fill(properties: HtmlElement | undefined, style?: HtmlElement): string | null {
+    if (child(properties, 'a:nofill')) return null
+    const solid = child(properties, 'a:solidfill')
+    if (solid) return this.color(solid)
+    const gradient = child(properties, 'a:gradfill')
+    if (gradient) return this.gradient(gradient).from
+    const reference = child(style, 'a:fillref')
+    return reference && numberAttribute(reference, 'idx') > 0 ? this.color(reference) : null
+  }
+
+  private gradient(gradient: HtmlElement) {
+    const stops = descendants(gradient, 'a:gs').sort((a, b) => numberAttribute(a, 'pos') - numberAttribute(b, 'pos'))
+    const from = this.color(stops[0])
+    return { from, to: this.color(stops[stops.length - 1]) ?? from }
+  }
+
+  private background() {
+    for (const tree of [this.root, this.layout, this.master]) {
+      const background = child(child(tree, 'p:csld'), 'p:bg')
+      if (!background) continue
+      const properties = child(background, 'p:bgpr')
+      const gradient = child(properties, 'a:gradfill')
+      if (gradient) return this.gradient(gradient)
+      const color = properties ? this.color(child(properties, 'a:solidfill')) : this.color(child(background, 'p:bgref'))
+      return color ? { from: color, to: color } : null
+    }
+    return null
+  }
+
+  private inherited(placeholder: HtmlElement) {
+    const type = placeholderType(placeholder)
+    return [this.layout, this.master].map(tree => {
+      const shapes = descendants(tree, 'p:sp').filter(shape => placeholderOf(shape))
+      return (
+        (placeholder.attrs.idx !== undefined && shapes.find(shape => placeholderOf(shape).attrs.idx === placeholder.attrs.idx)) ||
+        shapes.find(shape => placeholderType(placeholderOf(shape)) === type)
+      )
+    }).filter((shape): shape is HtmlElement => !!shape)
+  }
+
+  private box(xfrm: HtmlElement, transform: Transform) {
+    const offset = child(xfrm, 'a:off')
+    const extent = child(xfrm, 'a:ext')
+    const rotation = numberAttribute(xfrm, 'rot') / ROTATION_UNIT
+    return {
+      x: pixels(transform.x + numberAttribute(offset, 'x') * transform.scaleX),
+      y: pixels(transform.y + numberAttribute(offset, 'y') * transform.scaleY),
+      width: pixels(numberAttribute(extent, 'cx') * transform.scaleX),
+      height: pixels(numberAttribute(extent, 'cy') * transform.scaleY),
+      rotation: pixels(rotation > 180 ? rotation - 360 : rotation),
+    }
+  }
+
+  // Run properties of the text, falling back to the defaults its placeholder inherits
+  private textStyle(body: HtmlElement, placeholder: HtmlElement | undefined, inherited: HtmlElement[]) {
+    const styleName = !placeholder ? 'p:otherstyle' : placeholderType(placeholder) === 'title' ? 'p:titlestyle' : 'p:bodystyle'
+    const defaults = [
+      ...inherited.map(shape => descendant(descendant(child(shape, 'p:txbody'), 'a:lvl1ppr'), 'a:defrpr')),
+      descendant(descendant(child(descendant(this.master, 'p:txstyles'), styleName), 'a:lvl1ppr'), 'a:defrpr'),
+    ]
+    const properties = [...descendants(body, 'a:rpr'), ...descendants(body, 'a:endpararpr'), ...defaults].filter(Boolean)
+    const size = properties.find(run => run.attrs.sz !== undefined)?.attrs.sz
+    const color = properties.map(run => this.color(child(run, 'a:solidfill'))).find(Boolean)
+    const font = properties.map(run => child(run, 'a:latin')?.attrs.typeface).find(face => face && !face.startsWith('+'))
+    const fallback = placeholder && placeholderType(placeholder) === 'title' ? PLACEHOLDER_SIZE.title : PLACEHOLDER_SIZE.body
+    return {
+      fontSize: Math.round(((Number(size) || fallback) / 100) * EMU_PER_POINT * this.transform.scaleY),
+      color: color || undefined,
+      fontFamily: font,
+    }
+  }
+
+  private shape(shape: HtmlElement, transform: Transform): Omit<SlideElement, 'id'>[] {
+    const properties = child(shape, 'p:sppr')
+    const placeholder = placeholderOf(shape)
+    const inherited = placeholder ? this.inherited(placeholder) : []
+    const xfrm = child(properties, 'a:xfrm') ?? inherited.map(source => child(child(source, 'p:sppr'), 'a:xfrm')).find(Boolean)
+    if (!xfrm) return []
+
+    const box = this.box(xfrm, transform)
+    const elements: Omit<SlideElement, 'id'>[] = []
+    const fill = this.fill(properties, child(shape, 'p:style'))
+    if (fill) {
+      const geometry = child(properties, 'a:prstgeom')?.attrs.prst
+      const kind = geometry === 'ellipse' ? 'circle' : geometry === 'triangle' ? 'triangle' : 'rectangle'
+      elements.push({ ...box, type: 'shape', content: '', bgColor: fill, shape: kind })
+    }
+    const body = child(shape, 'p:txbody')
+    const content = bodyText(body)
+    if (content.trim()) elements.push({ ...box, type: 'text', content, ...this.textStyle(body, placeholder, inherited) })
+    return elements
+  }
+
+  private picture(picture: HtmlElement, transform: Transform): Omit<SlideElement, 'id'> | null {
+    const xfrm = child(child(picture, 'p:sppr'), 'a:xfrm')
+    const blip = descendant(child(picture, 'p:blipfill'), 'a:blip')
+    const relationship = this.relationships.get(blip?.attrs['r:embed'] || blip?.attrs['r:link'])
+    if (!xfrm || !relationship) return null
+
+    let imageUrl: string
+    if (relationship.external) {
+      if (!/^https?:\/\//i.test(relationship.target)) return null
+      imageUrl = relationship.target
+    } else {
+      const extension = IMAGE_EXTENSIONS[relationship.target.split('.').pop()?.toLowerCase() || '']
+      const bytes = this.reader.bytes(relationship.target)
+      // Vector and TIFF pictures (EMF, WMF, SVG, TIFF) can't be shown in the browser as-is
+      if (!extension || !bytes) return null
+      imageUrl = encodeImageDataUrl(bytes, extension)
+    }
+    return { ...this.box(xfrm, transform), type: 'image', content: '', imageUrl }
+  }
+
+  private elements(tree: HtmlElement | undefined, transform: Transform): Omit<SlideElement, 'id'>[] {
+    return elementsOf(tree).flatMap(node => {
+      if (node.tag === 'p:sp') return this.shape(node, transform)
+      if (node.tag === 'p:pic') return [this.picture(node, transform)].filter(Boolean)
+      if (node.tag !== 'p:grpsp') return []
+      // Children of a group are laid out in its own coordinates, mapped onto the group's frame
+      const xfrm = child(child(node, 'p:grpsppr'), 'a:xfrm')
+      const [offset, extent, childOffset, childExtent] = ['a:off', 'a:ext', 'a:choff', 'a:chext'].map(tag => child(xfrm, tag))
+      const ratioX = numberAttribute(extent, 'cx', 1) / (numberAttribute(childExtent, 'cx', 1) || 1)
+      const ratioY = numberAttribute(extent, 'cy', 1) / (numberAttribute(childExtent, 'cy', 1) || 1)
+      return this.elements(node, {
+        x: transform.x + transform.scaleX * (numberAttribute(offset, 'x') - numberAttribute(childOffset, 'x') * ratioX),
+        y: transform.y + transform.scaleY * (numberAttribute(offset, 'y') - numberAttribute(childOffset, 'y') * ratioY),
+        scaleX: transform.scaleX * ratioX,
+        scaleY: transform.scaleY * ratioY,
+      })
+    })
+  }
+
+  private transition(): SlideTransition {
+    const transition = descendant(this.root, 'p:transition')
+    if (!transition) return 'none'
+    const effect = elementsOf(transition)[0]?.tag
+    return effect === 'p:push' ? 'push' : effect === 'p:wipe' ? 'wipe' : 'fade'
+  }
+
+  private notes() {
+    const notes = this.reader.part(this.reader.related(this.path, 'notesSlide'))
+    const body = descendants(notes, 'p:sp').find(shape => placeholderOf(shape)?.attrs.type === 'body')
+    return bodyText(child(body, 'p:txbody')).trim() || undefined
+  }
+
+  slide(number: number): Slide {
+    const tree = child(child(this.root, 'p:csld'), 'p:sptree')
+    const title = descendants(tree, 'p:sp').find(shape => {
+      const placeholder = placeholderOf(shape)
+      return placeholder && placeholderType(placeholder) === 'title'
+    })
+    const { from, to } = this.background() ?? { from: '#ffffff', to: '#ffffff' }
+    return {
+      id: `slide-${number}`,
+      title: bodyText(child(title, 'p:txbody')).split('\n')[0].trim() || `Slide ${number}`,
+      bgColor: backgroundClasses(from, to),
+      textColor: textColorClass(this.schemeColor('tx1') ?? '#000000'),
+      elements: this.elements(tree, this.transform).map((element, index) => ({ ...element, id: `el-${number}-${index + 1}` })),
+      transition: this.transition(),
+      notes: this.notes(),
+    }
+  }
+}
+
+/** Reads a .pptx deck; throws PptxError for files that aren't presentations */
+export const pptxToPresentation = async (bytes: Uint8Array, name: string): Promise<Presentation> => {
+  let entries: Map<string, Uint8Array>
+  try {
+    entries = await readZip(bytes)
+  } catch (error) {
+    if (!(error instanceof ZipError)) throw error
+    throw new PptxError(`This is not a PowerPoint file: ${error.message}`)
+  }
+
+  const reader = new PptxReader(entries)
+  const presentationPath = reader.related('', 'officeDocument') ?? 'ppt/presentation.xml'
+  const root = reader.part(presentationPath)
+  if (root?.tag !== 'p:presentation') throw new PptxError('This is not a PowerPoint presentation')
+
+  // Other slide sizes, such as 4:3, are scaled to fit and centered
+  const size = child(root, 'p:sldsz')
+  const [width, height] = [numberAttribute(size, 'cx', SLIDE_SIZE.cx), numberAttribute(size, 'cy', SLIDE_SIZE.cy)]
+  const scale = Math.min(SLIDE_WIDTH / width, SLIDE_HEIGHT / height)
+  const transform = { x: (SLIDE_WIDTH - width * scale) / 2, y: (SLIDE_HEIGHT - height * scale) / 2, scaleX: scale, scaleY: scale }
+
+  const relationships = reader.relationships(presentationPath)
+  const slidePaths = elementsOf(child(root, 'p:sldidlst'))
+    .map(slide => relationships.get(slide.attrs['r:id']))
+    .filter(rel => rel && !rel.external && reader.part(rel.target))
+    .map(rel => rel.target)
+  if (slidePaths.length === 0) throw new PptxError('The presentation has no slides')
+
+  return {
+    id: `pptx-${Date.now()}`,
+    name,
+    slides: slidePaths.map((path, index) => new SlideReader(reader, path, transform).slide(index + 1)),
+  }
+}
@@ -0,0 +1,167 @@
+import { createPdf, pdfFontFor, pdfText, round, textWidth, wrapText, type PdfImagePage, type PdfPage } from '@/lib/pdf'
+import { decodeImageDataUrl, imageSize } from '@/lib/ooxml'
+import {
+  SLIDE_HEIGHT,
+  SLIDE_WIDTH,
+  hexColor,
+  slideBackground,
+  slideTextColor,
+  type Presentation,
+  type Slide,
+  type SlideElement,
+} from '@/lib/presentation'
+
+// Draws a presentation as a PDF with one page per slide, the way SlideCanvas
+// shows it with every build revealed. Pages are 16:9 at PowerPoint's size, so
+// the PDF and PPTX exports of a deck print alike. Text stays text; images must
+// be JPEGs, so callers convert other images beforehand and pass them in.
+
+export const PDF_PAGE = { width: 960, height: 540 } // points
+const SCALE = PDF_PAGE.width / SLIDE_WIDTH
+
+// Matching the CSS of SlideElementContent: p-2 padding, 8px rounded shapes,
+// 4px rounded images, and the browser's default 16px text at normal line height
+const TEXT_PADDING = 8
+const SHAPE_RADIUS = 8
+const IMAGE_RADIUS = 4
+const DEFAULT_FONT_SIZE = 16
+const LINE_HEIGHT = 1.2
+const ASCENT = 0.8
+
+// Cubic Bézier control point distance for a quarter circle
+const KAPPA = 0.5523
+
+const rgb = (hex: string) =>
+  [1, 3, 5].map(start => round(parseInt(hex.slice(start, start + 2), 16) / 255)).join(' ')
+
+// Paths are drawn around the element's center with y pointing up
+const roundedRectPath = (width: number, height: number, radius: number) => {
+  const r = Math.min(radius, width / 2, height / 2)
+  const [left, right, top, bottom] = [-width / 2, width / 2, height / 2, -height / 2]
+  const k = r * KAPPA
+  return [
+    `${round(left + r)} ${round(bottom)} m`,
+    `${round(right - r)} ${round(bottom)} l`,
+    `${round(right - r + k)} ${round(bottom)} ${round(right)} ${round(bottom + r - k)} ${round(right)} ${round(bottom + r)} c`,
+    `${round(right)} ${round(top - r)} l`,
+    `${round(right)} ${round(top - r + k)} ${round(right - r + k)} ${round(top)} ${round(right - r)} ${round(top)} c`,
+    `${round(left + r)} ${round(top)} l`,
+    `${round(left + r - k)} ${round(top)} ${round(left)} ${round(top - r + k)} ${round(left)} ${round(top - r)} c`,
+    `${round(left)} ${round(bottom + r)} l`,
+    `${round(left)} ${round(bottom + r - k)} ${round(left + r - k)} ${round(bottom)} ${round(left + r)} ${round(bottom)} c`,
+    'h',
+  ].join('\n')
+}
+
+const ellipsePath = (width: number, height: number) => {
+  const [rx, ry] = [width / 2, height / 2]
+  const [kx, ky] = [rx * KAPPA, ry * KAPPA]
+  return [
+    `${round(rx)} 0 m`,
+    `${round(rx)} ${round(ky)} ${round(kx)} ${round(ry)} 0 ${round(ry)} c`,
+    `${round(-kx)} ${round(ry)} ${round(-rx)} ${round(ky)} ${round(-rx)} 0 c`,
+    `${round(-rx)} ${round(-ky)} ${round(-kx)} ${round(-ry)} 0 ${round(-ry)} c`,
+    `${round(kx)} ${round(-ry)} ${round(rx)} ${round(-ky)} ${round(rx)} 0 c`,
+    'h',
+  ].join('\n')
+}
+
+const trianglePath = (width: number, height: number) =>
+  `0 ${round(height / 2)} m\n${round(width / 2)} ${round(-height / 2)} l\n${round(-width / 2)} ${round(-height / 2)} l\nh`
+
+const shapeOperators = (element: SlideElement) => {
+  const fill = hexColor(element.bgColor)
+  if (!fill) return ''
+  const path =
+    element.shape === 'circle' ? ellipsePath(element.width, element.height) :
+    element.shape === 'triangle' ? trianglePath(element.width, element.height) :
+    roundedRectPath(element.width, element.height, SHAPE_RADIUS)
+  return `${rgb(fill)} rg\n${path}\nf`
+}
+
+// Lines are left-aligned in a block centered in the element, as the flex
+// container of a text element lays them out
+const textOperators = (element: SlideElement, slide: Slide) => {
+  if (!element.content.trim()) return ''
+  const font = pdfFontFor(element.fontFamily)
+  const size = element.fontSize || DEFAULT_FONT_SIZE
+  const color = hexColor(element.color) ?? slideTextColor(slide)
+  const lines = wrapText(element.content, font, size, element.width - TEXT_PADDING * 2)
+  const lineHeight = size * LINE_HEIGHT
+  const blockWidth = Math.max(...lines.map(line => textWidth(line, font, size)))
+  const left = -blockWidth / 2
+  const top = (lines.length * lineHeight) / 2
+
+  const operators = lines.map((line, index) => {
+    const baseline = top - index * lineHeight - (lineHeight - size) / 2 - size * ASCENT
+    return `1 0 0 1 ${round(left)} ${round(baseline)} Tm ${pdfText(line)} Tj`
+  })
+  return `BT /${font} ${round(size)} Tf ${rgb(color)} rg\n${operators.join('\n')}\nET`
+}
+
+// object-fit: cover, clipped to the image's rounded corners
+const imageOperators = (element: SlideElement, image: PdfImagePage, name: string) => {
+  const scale = Math.max(element.width / image.width, element.height / image.height)
+  const [width, height] = [image.width * scale, image.height * scale]
+  return (
+    `${roundedRectPath(element.width, element.height, IMAGE_RADIUS)}\nW n\n` +
+    `${round(width)} 0 0 ${round(height)} ${round(-width / 2)} ${round(-height / 2)} cm /${name} Do`
+  )
+}
+
+const jpegFromDataUrl = (url: string): PdfImagePage | null => {
+  const decoded = decodeImageDataUrl(url)
+  const size = decoded?.extension === 'jpeg' && imageSize(decoded.bytes)
+  return size ? { jpeg: decoded.bytes, ...size } : null
+}
+
+// Axial shading along the gradient line of CSS `to bottom right`, which runs
+// perpendicular to the diagonal through the other two corners
+const backgroundShading = (slide: Slide) => {
+  const { from, to } = slideBackground(slide)
+  const [w, h] = [SLIDE_WIDTH, SLIDE_HEIGHT]
+  const diagonal = Math.hypot(w, h)
+  const half = (w * h) / diagonal
+  const [dx, dy] = [(h / diagonal) * half, (w / diagonal) * half]
+  const coords = [w / 2 - dx, h / 2 + dy, w / 2 + dx, h / 2 - dy].map(round).join(' ')
+  return (
+    `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [${coords}] ` +
+    `/Function << /FunctionType 2 /Domain [0 1] /C0 [${rgb(from)}] /C1 [${rgb(to)}] /N 1 >> /Extend [true true] >>`
+  )
+}
+
+const slidePage = (slide: Slide, images: Map<string, PdfImagePage>): PdfPage => {
+  const pageImages: PdfImagePage[] = []
+  const operators = [
+    // Slide pixels with y pointing up, so positions are measured from the bottom
+    `${SCALE} 0 0 ${SCALE} 0 0 cm`,
+    `q 0 0 ${SLIDE_WIDTH} ${SLIDE_HEIGHT} re W n /Sh0 sh Q`,
+  ]
+
+  slide.elements.forEach(element => {
+    let body = ''
+    if (element.type === 'text') body = textOperators(element, slide)
+    else if (element.type === 'shape') body = shapeOperators(element)
+    else if (element.imageUrl) {
+      const image = images.get(element.imageUrl) ?? jpegFromDataUrl(element.imageUrl)
+      if (image) {
+        body = imageOperators(element, image, `Im${pageImages.length}`)
+        pageImages.push(image)
+      }
+    }
+    if (!body) return
+
+    const radians = ((element.rotation || 0) * Math.PI) / 180
+    const [cos, sin] = [Math.cos(radians), Math.sin(radians)].map(n => Number(n.toFixed(4)))
+    const centerX = element.x + element.width / 2
+    const centerY = SLIDE_HEIGHT - (element.y + element.height / 2)
+    // CSS rotates clockwise on screen, which is negative with y pointing up
+    operators.push(`q 1 0 0 1 ${round(centerX)} ${round(centerY)} cm ${cos} ${-sin} ${sin} ${cos} 0 0 cm\n${body}\nQ`)
+  })
+
+  return { ...PDF_PAGE, content: operators.join('\n'), images: pageImages, shadings: [backgroundShading(slide)] }
+}
+
+/** `images` supplies JPEG versions of image elements whose URL isn't a JPEG data URL; others are left out */
+export const presentationToPdf = (presentation: Presentation, images = new Map<string, PdfImagePage>()): Uint8Array =>
+  createPdf(presentation.slides.map(slide => slidePage(slide, images)), { title: presentation.name })
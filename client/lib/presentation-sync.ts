@@ -0,0 +1,112 @@
+import {
+  broadcastEvent,
+  closeNativeWindow,
+  createNativeWindow,
+  currentNativeWindowLabel,
+  isTauri,
+  listenEvent,
+} from '@/lib/tauri-api'
+import type { NavigationAction, Presentation, SlidePosition } from '@/lib/presentation'
+
+// Keeps the audience window of a presentation in step with the presenter
+// console. Under Tauri the audience is a native window and messages travel as
+// app events; on the web it is a popup and they go over a BroadcastChannel.
+
+export interface AudienceState {
+  presentation: Presentation
+  position: SlidePosition
+  blackout: boolean
+}
+
+/**
+ * Presenter to audience: `state` after every change and `end`.
+ * Audience to presenter: `ready` when it needs the state, `navigate` for keys
+ * pressed in the audience window, and `closed`.
+ */
+export interface PresentationMessage {
+  type: 'state' | 'end' | 'ready' | 'navigate' | 'closed'
+  state?: AudienceState
+  action?: NavigationAction
+}
+
+export interface PresentationChannel {
+  send: (message: PresentationMessage) => void
+  subscribe: (handler: (message: PresentationMessage) => void) => () => void
+  close: () => void
+}
+
+export class PresentationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PresentationError'
+  }
+}
+
+const EVENT_NAME = 'nyx:presentation'
+const AUDIENCE_LABEL_PREFIX = 'presentation-audience-'
+const AUDIENCE_PATH = /^\/present\/([\w-]+)\/?$/
+
+interface Envelope {
+  session: string
+  sender: string
+  message: PresentationMessage
+}
+
+export const openPresentationChannel = (session: string): PresentationChannel => {
+  const sender = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const handlers = new Set<(message: PresentationMessage) => void>()
+  const receive = (envelope: Envelope) => {
+    // Tauri delivers events to their sender too
+    if (envelope?.session !== session || envelope.sender === sender) return
+    handlers.forEach(handler => handler(envelope.message))
+  }
+
+  let post: (envelope: Envelope) => void
+  let stop: () => void
+  if (isTauri()) {
+    const unlisten = listenEvent(EVENT_NAME, receive)
+    post = envelope => void broadcastEvent(EVENT_NAME, envelope)
+    stop = () => void unlisten.then(fn => fn?.())
+  } else {
+    const channel = new BroadcastChannel(`nyx-presentation-${session}`)
+    channel.onmessage = event => receive(event.data)
+    post = envelope => channel.postMessage(envelope)
+    stop = () => channel.close()
+  }
+
+  return {
+    send: message => post({ session, sender, message }),
+    subscribe: handler => {
+      handlers.add(handler)
+      return () => handlers.delete(handler)
+    },
+    close: () => {
+      handlers.clear()
+      stop()
+    },
+  }
+}
+
+export interface AudienceWindow {
+  close: () => void
+}
+
+/** Opens the audience window for a session; throws PresentationError when the browser blocks the popup */
+export const openAudienceWindow = async (session: string, title: string): Promise<AudienceWindow> => {
+  if (isTauri()) {
+    const label = `${AUDIENCE_LABEL_PREFIX}${session}`
+    await createNativeWindow(label, title, 1280, 720)
+    return { close: () => void closeNativeWindow(label).catch(() => {}) }
+  }
+
+  const popup = window.open(`/present/${session}`, `nyx-audience-${session}`, 'popup,width=1280,height=720')
+  if (!popup) throw new PresentationError('The audience window was blocked. Allow pop-ups for Nyx and try again.')
+  return { close: () => popup.close() }
+}
+
+/** The session this page shows as an audience window, or null for the desktop itself */
+export const audienceSession = (): string | null => {
+  const label = currentNativeWindowLabel()
+  if (label?.startsWith(AUDIENCE_LABEL_PREFIX)) return label.slice(AUDIENCE_LABEL_PREFIX.length)
+  return window.location.pathname.match(AUDIENCE_PATH)?.[1] ?? null
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSteps,
+  clampPosition,
+  formatElapsed,
+  navigate,
+  navigationForKey,
+  stepCount,
+  visibleElements,
+  type Slide,
+  type SlideElement,
+} from "./presentation";
+
+const element = (id: string, build?: number): SlideElement => ({
+  id, type: "text", x: 0, y: 0, width: 100, height: 50, content: id, build,
+});
+
+const slide = (id: string, elements: SlideElement[] = []): Slide => ({
+  id, title: id, bgColor: "", textColor: "", elements, transition: "fade",
+});
+
+const deck = [
+  slide("intro"),
+  slide("points", [element("title"), element("first", 1), element("second", 2), element("also-second", 2)]),
+  slide("outro", [element("thanks", 5)]),
+];
+
+describe("builds", () => {
+  it("orders the distinct builds of a slide", () => {
+    expect(buildSteps(deck[1])).toEqual([1, 2]);
+    expect(stepCount(deck[0])).toBe(0);
+  });
+
+  it("shows elements as their build is reached", () => {
+    const ids = (step: number) => visibleElements(deck[1], step).map((el) => el.id);
+    expect(ids(0)).toEqual(["title"]);
+    expect(ids(1)).toEqual(["title", "first"]);
+    expect(ids(2)).toEqual(["title", "first", "second", "also-second"]);
+    // Build numbers need not be consecutive
+    expect(visibleElements(deck[2], 1).map((el) => el.id)).toEqual(["thanks"]);
+  });
+});
+
+describe("navigate", () => {
+  it("plays builds before moving to the next slide", () => {
+    const positions = [{ slide: 0, step: 0 }];
+    for (let i = 0; i < 6; i++) positions.push(navigate(deck, positions[positions.length - 1], "next"));
+    expect(positions).toEqual([
+      { slide: 0, step: 0 },
+      { slide: 1, step: 0 },
+      { slide: 1, step: 1 },
+      { slide: 1, step: 2 },
+      { slide: 2, step: 0 },
+      { slide: 2, step: 1 },
+      { slide: 2, step: 1 },
+    ]);
+  });
+
+  it("goes back to fully built slides", () => {
+    expect(navigate(deck, { slide: 2, step: 0 }, "previous")).toEqual({ slide: 1, step: 2 });
+    expect(navigate(deck, { slide: 1, step: 1 }, "previous")).toEqual({ slide: 1, step: 0 });
+    expect(navigate(deck, { slide: 0, step: 0 }, "previous")).toEqual({ slide: 0, step: 0 });
+  });
+
+  it("jumps to the first and last slide", () => {
+    expect(navigate(deck, { slide: 1, step: 2 }, "first")).toEqual({ slide: 0, step: 0 });
+    expect(navigate(deck, { slide: 0, step: 0 }, "last")).toEqual({ slide: 2, step: 0 });
+  });
+
+  it("keeps positions valid when the deck shrinks", () => {
+    expect(clampPosition(deck.slice(0, 2), { slide: 2, step: 1 })).toEqual({ slide: 1, step: 1 });
+    expect(clampPosition(deck, { slide: 1, step: 9 })).toEqual({ slide: 1, step: 2 });
+  });
+});
+
+describe("presenter helpers", () => {
+  it("maps keyboard and clicker keys to actions", () => {
+    expect(navigationForKey("PageDown")).toBe("next");
+    expect(navigationForKey(" ")).toBe("next");
+    expect(navigationForKey("PageUp")).toBe("previous");
+    expect(navigationForKey("B")).toBe("blackout");
+    expect(navigationForKey("Escape")).toBe("end");
+    expect(navigationForKey("x")).toBeNull();
+  });
+
+  it("formats the elapsed time", () => {
+    expect(formatElapsed(0)).toBe("00:00");
+    expect(formatElapsed(245_900)).toBe("04:05");
+    expect(formatElapsed(3_723_000)).toBe("1:02:03");
+  });
+});
@@ -0,0 +1,178 @@
+// Slides and their playback: which elements a slide shows at each click, and
+// how the keys of a keyboard or presentation clicker move through a deck.
+
+export type SlideTransition = 'fade' | 'push' | 'wipe' | 'none'
+export type ElementAnimation = 'fade' | 'slide' | 'bounce' | 'zoom' | 'rotate' | 'none'
+
+export interface SlideElement {
+  id: string
+  type: 'text' | 'shape' | 'image'
+  x: number
+  y: number
+  width: number
+  height: number
+  content: string
+  color?: string
+  bgColor?: string
+  fontSize?: number
+  fontFamily?: string
+  shape?: 'rectangle' | 'circle' | 'triangle'
+  animation?: ElementAnimation
+  transition?: SlideTransition
+  imageUrl?: string
+  rotation?: number
+  /** Click on which the element appears while presenting; unset shows it with the slide */
+  build?: number
+}
+
+export interface Slide {
+  id: string
+  title: string
+  bgColor: string
+  textColor: string
+  elements: SlideElement[]
+  transition: SlideTransition
+  /** Speaker notes, shown only in the presenter console */
+  notes?: string
+}
+
+export interface Presentation {
+  id: string
+  name: string
+  slides: Slide[]
+}
+
+// Element positions are in pixels of a slide this size; views scale it to fit
+export const SLIDE_WIDTH = 1024
+export const SLIDE_HEIGHT = 576
+
+// Slide colors are Tailwind classes: a `from-… to-…` gradient for the
+// background and a `text-…` color. Imported decks use arbitrary values such as
+// `from-[#1f2937]`, which Tailwind cannot compile at runtime, so views paint
+// slides with the CSS these helpers resolve instead of the classes themselves.
+const TAILWIND_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  'gray-800': '#1f2937',
+  'gray-900': '#111827',
+  'blue-900': '#1e3a8a',
+  'indigo-600': '#4f46e5',
+  'purple-600': '#9333ea',
+  'purple-900': '#581c87',
+}
+
+const tailwindColor = (classes: string, prefix: string) => {
+  const token = classes.split(/\s+/).find(part => part.startsWith(`${prefix}-`))?.slice(prefix.length + 1)
+  if (!token) return null
+  const arbitrary = token.match(/^\[(#[0-9a-f]+)\]$/i)
+  return arbitrary ? hexColor(arbitrary[1]) : TAILWIND_COLORS[token] ?? null
+}
+
+/** Gradient colors of a slide background, top left to bottom right */
+export const slideBackground = (slide: Pick<Slide, 'bgColor'>) => {
+  const from = tailwindColor(slide.bgColor, 'from') ?? '#111827'
+  return { from, to: tailwindColor(slide.bgColor, 'to') ?? from }
+}
+
+export const slideBackgroundCss = (slide: Pick<Slide, 'bgColor'>) => {
+  const { from, to } = slideBackground(slide)
+  return `linear-gradient(to bottom right, ${from}, ${to})`
+}
+
+/** Color of text elements that don't set their own */
+export const slideTextColor = (slide: Pick<Slide, 'textColor'>) => tailwindColor(slide.textColor, 'text') ?? '#ffffff'
+
+/** A #rgb or #rrggbb color as #rrggbb, or null for anything else (named colors, rgb(), transparent) */
+export const hexColor = (color?: string) => {
+  const match = color?.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!match) return null
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1]
+  return `#${hex.toLowerCase()}`
+}
+
+export const backgroundClasses = (from: string, to: string) => `from-[${from}] to-[${to}]`
+
+export const textColorClass = (color: string) => `text-[${color}]`
+
+export interface SlidePosition {
+  slide: number
+  /** Number of builds shown so far on the slide */
+  step: number
+}
+
+/** The distinct build numbers of a slide in playback order */
+export const buildSteps = (slide: Slide) =>
+  [...new Set(slide.elements.map(element => element.build).filter((build): build is number => !!build && build > 0))].sort((a, b) => a - b)
+
+export const stepCount = (slide: Slide) => buildSteps(slide).length
+
+/** Elements on screen after `step` clicks on the slide */
+export const visibleElements = (slide: Slide, step: number) => {
+  const steps = buildSteps(slide)
+  return slide.elements.filter(element => !element.build || steps.indexOf(element.build) < step)
+}
+
+export type NavigationAction = 'next' | 'previous' | 'first' | 'last' | 'blackout' | 'end'
+
+// Clickers send Page Up/Down (some also "." or "b" for a black screen)
+const KEY_ACTIONS: Record<string, NavigationAction> = {
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  PageDown: 'next',
+  ' ': 'next',
+  Enter: 'next',
+  n: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'previous',
+  PageUp: 'previous',
+  Backspace: 'previous',
+  p: 'previous',
+  Home: 'first',
+  End: 'last',
+  b: 'blackout',
+  '.': 'blackout',
+  Escape: 'end',
+}
+
+export const navigationForKey = (key: string): NavigationAction | null => KEY_ACTIONS[key] ?? KEY_ACTIONS[key.toLowerCase()] ?? null
+
+/**
+ * Where a navigation action leads. Moving forward plays the current slide's
+ * builds before changing slide; moving back returns to a fully built slide.
+ */
+export const navigate = (slides: Slide[], position: SlidePosition, action: NavigationAction): SlidePosition => {
+  const last = slides.length - 1
+  const current = slides[position.slide]
+  switch (action) {
+    case 'next':
+      if (current && position.step < stepCount(current)) return { slide: position.slide, step: position.step + 1 }
+      return position.slide < last ? { slide: position.slide + 1, step: 0 } : position
+    case 'previous':
+      if (position.step > 0) return { slide: position.slide, step: position.step - 1 }
+      return position.slide > 0 ? { slide: position.slide - 1, step: stepCount(slides[position.slide - 1]) } : position
+    case 'first':
+      return { slide: 0, step: 0 }
+    case 'last':
+      return { slide: Math.max(0, last), step: 0 }
+    default:
+      return position
+  }
+}
+
+export const isSamePosition = (a: SlidePosition, b: SlidePosition) => a.slide === b.slide && a.step === b.step
+
+/** Keeps a position valid after slides or builds were removed */
+export const clampPosition = (slides: Slide[], position: SlidePosition): SlidePosition => {
+  const slide = Math.min(Math.max(0, position.slide), Math.max(0, slides.length - 1))
+  return { slide, step: slides[slide] ? Math.min(position.step, stepCount(slides[slide])) : 0 }
+}
+
+/** Presenter timer text, such as 04:05 or 1:02:03 */
+export const formatElapsed = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const seconds = total % 60
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`
+}
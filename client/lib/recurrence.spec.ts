@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { describeRRule, expandOccurrences, formatRRule, parseRRule, RecurrenceError } from "./recurrence";
+
+const day = (date: Date) => date.toDateString();
+const dates = (list: Date[]) => list.map((d) => `${d.getMonth() + 1}/${d.getDate()}`);
+
+describe("parseRRule", () => {
+  it("round-trips the supported parts", () => {
+    const rule = parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2TU;COUNT=6");
+    expect(rule).toEqual({ freq: "MONTHLY", interval: 2, byDay: [{ day: "FR", n: -1 }, { day: "TU", n: 2 }], count: 6 });
+    expect(formatRRule(rule)).toBe("FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2TU;COUNT=6");
+    expect(formatRRule(parseRRule("FREQ=DAILY;UNTIL=20240630T120000Z"))).toBe("FREQ=DAILY;UNTIL=20240630T120000Z");
+  });
+
+  it("rejects rules it cannot expand", () => {
+    expect(() => parseRRule("FREQ=HOURLY")).toThrow(RecurrenceError);
+    expect(() => parseRRule("FREQ=WEEKLY;INTERVAL=0")).toThrow(RecurrenceError);
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=XX")).toThrow(RecurrenceError);
+  });
+
+  it("describes rules for people", () => {
+    expect(describeRRule(parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10"))).toBe("Every 2 weeks on Mon, Wed, 10 times");
+    expect(describeRRule(parseRRule("FREQ=MONTHLY;BYDAY=-1FR"))).toBe("Monthly on the last Fri");
+  });
+});
+
+describe("expandOccurrences", () => {
+  // Wednesday 2024-01-03 09:30
+  const start = new Date(2024, 0, 3, 9, 30);
+  const january = [new Date(2024, 0, 1), new Date(2024, 0, 31, 23, 59)] as const;
+
+  it("expands weekly rules with an interval, BYDAY and COUNT", () => {
+    const rule = parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;COUNT=5");
+    const occurrences = expandOccurrences(start, rule, ...january);
+    // The Monday of the first week is before DTSTART and does not count
+    expect(dates(occurrences)).toEqual(["1/3", "1/5", "1/15", "1/17", "1/19"]);
+    expect(occurrences.every((d) => d.getHours() === 9 && d.getMinutes() === 30)).toBe(true);
+  });
+
+  it("picks ordinal weekdays in monthly rules and stops at UNTIL", () => {
+    const rule = parseRRule("FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20240430");
+    const occurrences = expandOccurrences(start, rule, new Date(2024, 0, 1), new Date(2024, 11, 31));
+    expect(dates(occurrences)).toEqual(["1/26", "2/23", "3/29", "4/26"]);
+  });
+
+  it("skips exceptions, which still use up the COUNT", () => {
+    const rule = parseRRule("FREQ=DAILY;COUNT=4");
+    const occurrences = expandOccurrences(start, rule, ...january, ["2024-01-04"]);
+    expect(dates(occurrences)).toEqual(["1/3", "1/5", "1/6"]);
+  });
+
+  it("only returns occurrences inside the window, even far from the start", () => {
+    const rule = parseRRule("FREQ=DAILY;INTERVAL=3");
+    const occurrences = expandOccurrences(start, rule, new Date(2030, 5, 1), new Date(2030, 5, 10, 23));
+    expect(occurrences).toHaveLength(3);
+    expect(occurrences.every((d) => d >= new Date(2030, 5, 1))).toBe(true);
+    expect(occurrences[1].getTime() - occurrences[0].getTime()).toBeGreaterThanOrEqual(3 * 86400000 - 3600000);
+  });
+
+  it("treats a missing rule as a single event", () => {
+    expect(expandOccurrences(start, null, ...january).map(day)).toEqual([day(start)]);
+    expect(expandOccurrences(start, null, ...january, ["2024-01-03"])).toEqual([]);
+  });
+
+  it("skips months and years without the start's day", () => {
+    const leap = new Date(2024, 1, 29, 8);
+    const yearly = expandOccurrences(leap, parseRRule("FREQ=YEARLY"), new Date(2024, 0, 1), new Date(2032, 11, 31));
+    expect(yearly.map((d) => d.getFullYear())).toEqual([2024, 2028, 2032]);
+  });
+});
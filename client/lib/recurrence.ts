@@ -0,0 +1,223 @@
+// RFC 5545 recurrence rules: the subset calendars actually exchange (FREQ,
+// INTERVAL, BYDAY, COUNT, UNTIL) plus date exceptions. Occurrences keep the
+// wall-clock time of the first one, so a 09:00 meeting stays at 09:00 across
+// daylight saving changes.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA'
+
+export interface WeekdayNum {
+  day: Weekday
+  n?: number // monthly only: 2 = second, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: Frequency
+  interval: number
+  byDay?: WeekdayNum[]
+  count?: number
+  until?: Date // inclusive
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurrenceError'
+  }
+}
+
+export const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] // indexed like Date.getDay()
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MAX_PERIODS = 10000
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+/** Local calendar day of a date, the form exceptions are stored in */
+export const dateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value)
+  if (!match) throw new RecurrenceError(`Invalid UNTIL "${value}"`)
+  const [, y, mo, d, h, mi, s, utc] = match
+  if (!h) return new Date(Number(y), Number(mo) - 1, Number(d), 23, 59, 59, 999) // the whole last day counts
+  return utc
+    ? new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)))
+    : new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s))
+}
+
+/** Parses an RRULE value, with or without the `RRULE:` prefix */
+export const parseRRule = (text: string): RecurrenceRule => {
+  const parts = new Map<string, string>()
+  text
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+    .forEach(part => {
+      const [key, value = ''] = part.split('=')
+      parts.set(key.trim().toUpperCase(), value.trim())
+    })
+
+  const freq = parts.get('FREQ')?.toUpperCase() as Frequency
+  if (!FREQUENCIES.includes(freq)) throw new RecurrenceError(`Unsupported FREQ "${parts.get('FREQ') ?? ''}"`)
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1
+  if (!Number.isInteger(interval) || interval < 1) throw new RecurrenceError(`Invalid INTERVAL "${parts.get('INTERVAL')}"`)
+
+  const rule: RecurrenceRule = { freq, interval }
+  if (parts.get('BYDAY')) {
+    rule.byDay = parts.get('BYDAY').split(',').map(token => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(token.trim())
+      if (!match) throw new RecurrenceError(`Invalid BYDAY "${token}"`)
+      const entry: WeekdayNum = { day: match[2].toUpperCase() as Weekday }
+      if (match[1]) entry.n = Number(match[1])
+      return entry
+    })
+  }
+  if (parts.has('COUNT')) {
+    rule.count = Number(parts.get('COUNT'))
+    if (!Number.isInteger(rule.count) || rule.count < 1) throw new RecurrenceError(`Invalid COUNT "${parts.get('COUNT')}"`)
+  }
+  if (parts.has('UNTIL')) rule.until = parseUntil(parts.get('UNTIL'))
+  return rule
+}
+
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${d.day}`).join(',')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) {
+    const u = rule.until
+    parts.push(`UNTIL=${u.getUTCFullYear()}${pad(u.getUTCMonth() + 1)}${pad(u.getUTCDate())}T${pad(u.getUTCHours())}${pad(u.getUTCMinutes())}${pad(u.getUTCSeconds())}Z`)
+  }
+  return parts.join(';')
+}
+
+/** The rule for the old `recurrenceType` field */
+export const legacyRRule = (type: 'daily' | 'weekly' | 'monthly' | 'yearly') => `FREQ=${type.toUpperCase()}`
+
+const ordinal = (n: number) => {
+  if (n === -1) return 'last'
+  if (n < 0) return `${ordinal(-n)} to last`
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  return `${n}${suffix}`
+}
+
+/** Human summary, e.g. "Every 2 weeks on Mon, Wed, 10 times" */
+export const describeRRule = (rule: RecurrenceRule) => {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq]
+  let text = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(d => {
+      const name = WEEKDAY_NAMES[WEEKDAYS.indexOf(d.day)]
+      return d.n ? `the ${ordinal(d.n)} ${name}` : name
+    })
+    text += ` on ${days.join(', ')}`
+  }
+  if (rule.count) text += rule.count === 1 ? ', once' : `, ${rule.count} times`
+  if (rule.until) text += `, until ${rule.until.toLocaleDateString()}`
+  return text
+}
+
+// --- Expansion ---
+
+const at = (start: Date, year: number, month: number, day: number) =>
+  new Date(year, month, day, start.getHours(), start.getMinutes(), start.getSeconds())
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate()
+
+const dayCount = (from: Date, to: Date) =>
+  Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000)
+
+// Days in a month matching one BYDAY entry
+const monthDays = (start: Date, year: number, month: number, entry: WeekdayNum) => {
+  const weekday = WEEKDAYS.indexOf(entry.day)
+  const matches: number[] = []
+  for (let day = 1; day <= daysInMonth(year, month); day++) {
+    if (new Date(year, month, day).getDay() === weekday) matches.push(day)
+  }
+  const picked = entry.n === undefined ? matches : [matches[entry.n > 0 ? entry.n - 1 : matches.length + entry.n]]
+  return picked.filter(day => day !== undefined).map(day => at(start, year, month, day))
+}
+
+// Candidate starts of the k-th period, sorted, plus where the period begins
+const period = (rule: RecurrenceRule, start: Date, k: number): { begins: Date; candidates: Date[] } => {
+  const step = k * rule.interval
+  const weekdays = rule.byDay?.map(d => WEEKDAYS.indexOf(d.day))
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = at(start, start.getFullYear(), start.getMonth(), start.getDate() + step)
+      return { begins: day, candidates: !weekdays || weekdays.includes(day.getDay()) ? [day] : [] }
+    }
+    case 'WEEKLY': {
+      const monday = at(start, start.getFullYear(), start.getMonth(), start.getDate() - ((start.getDay() + 6) % 7) + step * 7)
+      const offsets = (weekdays ?? [start.getDay()]).map(day => (day + 6) % 7)
+      const candidates = [...new Set(offsets)]
+        .sort((a, b) => a - b)
+        .map(offset => at(start, monday.getFullYear(), monday.getMonth(), monday.getDate() + offset))
+      return { begins: monday, candidates }
+    }
+    case 'MONTHLY': {
+      const first = new Date(start.getFullYear(), start.getMonth() + step, 1)
+      const [year, month] = [first.getFullYear(), first.getMonth()]
+      const candidates = rule.byDay?.length
+        ? rule.byDay.flatMap(entry => monthDays(start, year, month, entry)).sort((a, b) => a.getTime() - b.getTime())
+        : start.getDate() <= daysInMonth(year, month) ? [at(start, year, month, start.getDate())] : [] // no Feb 30th
+      return { begins: at(start, year, month, 1), candidates }
+    }
+    case 'YEARLY': {
+      const year = start.getFullYear() + step
+      const fits = start.getDate() <= daysInMonth(year, start.getMonth()) // Feb 29th only in leap years
+      return { begins: at(start, year, 0, 1), candidates: fits ? [at(start, year, start.getMonth(), start.getDate())] : [] }
+    }
+  }
+}
+
+// Without COUNT there is no need to walk from the first occurrence
+const firstUsefulPeriod = (rule: RecurrenceRule, start: Date, from: Date) => {
+  if (rule.count || from <= start) return 0
+  const days = dayCount(start, from)
+  const elapsed = {
+    DAILY: days,
+    WEEKLY: Math.floor(days / 7),
+    MONTHLY: (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth(),
+    YEARLY: from.getFullYear() - start.getFullYear(),
+  }[rule.freq]
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1)
+}
+
+/**
+ * Starts of the occurrences within [from, to]. `start` is the first occurrence
+ * (DTSTART); a null rule means a single event. Exceptions are local dates.
+ */
+export const expandOccurrences = (
+  start: Date,
+  rule: RecurrenceRule | null,
+  from: Date,
+  to: Date,
+  exceptions: string[] = []
+): Date[] => {
+  const excluded = new Set(exceptions)
+  if (!rule) return start >= from && start <= to && !excluded.has(dateKey(start)) ? [start] : []
+
+  const occurrences: Date[] = []
+  let generated = 0
+  for (let k = firstUsefulPeriod(rule, start, from), periods = 0; periods < MAX_PERIODS; k++, periods++) {
+    const { begins, candidates } = period(rule, start, k)
+    if (begins > to || (rule.until && begins > rule.until)) break
+    for (const candidate of candidates) {
+      if (candidate < start) continue // the first week or month may start before DTSTART
+      if (rule.until && candidate > rule.until) return occurrences
+      if (rule.count && generated >= rule.count) return occurrences
+      generated++ // exceptions still use up the COUNT, as in RFC 5545
+      if (candidate > to) return occurrences
+      if (candidate >= from && !excluded.has(dateKey(candidate))) occurrences.push(candidate)
+    }
+  }
+  return occurrences
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { Message } from "@/store/sam-store";
+import {
+  capMessages,
+  migrateSamData,
+  parseSamExport,
+  serializeSamExport,
+  MESSAGE_CHARS_LIMIT,
+  MESSAGE_LIMIT,
+  SAM_DATA_VERSION,
+  SamDataError,
+  type SamData,
+} from "./sam-data";
+
+const message = (i: number, content = `message ${i}`): Message => ({
+  id: `m${i}`,
+  content,
+  role: i % 2 ? "sam" : "user",
+  timestamp: new Date(2024, 5, 3, 9, i),
+});
+
+const data: SamData = {
+  messages: [message(0), { ...message(1), streaming: true }],
+  userMemories: [{ id: "k1", key: "coffee", value: "oat flat white", category: "preference", timestamp: new Date(2024, 5, 1), editable: true }],
+  alarms: [{ id: "a1", title: "Gym", time: "06:30", enabled: true, recurring: "weekdays", sound: true }],
+  userName: "Ash",
+  currentTheme: "synthwave",
+  systemPrompt: "Be brief.",
+};
+
+describe("capMessages", () => {
+  it("keeps the newest messages within the count limit", () => {
+    const kept = capMessages(Array.from({ length: MESSAGE_LIMIT + 20 }, (_, i) => message(i)));
+    expect(kept).toHaveLength(MESSAGE_LIMIT);
+    expect(kept[0].id).toBe("m20");
+  });
+
+  it("drops old messages past the size budget and clears streaming flags", () => {
+    const big = "x".repeat(MESSAGE_CHARS_LIMIT / 2);
+    const kept = capMessages([message(0, big), message(1, big), { ...message(2), streaming: true }]);
+    expect(kept.map((m) => m.id)).toEqual(["m1", "m2"]);
+    expect(kept[1]).not.toHaveProperty("streaming");
+  });
+});
+
+describe("export and import", () => {
+  it("round-trips with dates revived", () => {
+    const { data: imported, schedule } = parseSamExport(serializeSamExport(data, new Date(2024, 5, 3)));
+    expect(schedule).toEqual([]);
+    expect(imported.userMemories[0].timestamp).toEqual(new Date(2024, 5, 1));
+    expect(imported.messages.map((m) => m.timestamp)).toEqual([data.messages[0].timestamp, data.messages[1].timestamp]);
+    expect(imported).toMatchObject({ userName: "Ash", currentTheme: "synthwave", systemPrompt: "Be brief.", alarms: data.alarms });
+  });
+
+  it("rejects files that aren't Sam exports or come from a newer version", () => {
+    expect(() => parseSamExport("{")).toThrow(SamDataError);
+    expect(() => parseSamExport(JSON.stringify({ events: [] }))).toThrow(SamDataError);
+    const future = JSON.stringify({ format: "nyx-sam", version: SAM_DATA_VERSION + 1, data: {} });
+    expect(() => parseSamExport(future)).toThrow(/newer/);
+  });
+});
+
+describe("migrateSamData", () => {
+  it("moves the old schedule out and drops malformed entries", () => {
+    const schedule = [{ id: "s1", title: "Dentist", startTime: "2024-06-05T14:00:00", endTime: "2024-06-05T15:00:00", category: "personal", priority: "high" }];
+    const stored = JSON.parse(JSON.stringify({ ...data, schedule, alarms: [...data.alarms, { id: "broken" }] }));
+    const migrated = migrateSamData(stored, 0);
+    expect(migrated.schedule).toEqual(schedule);
+    expect(migrated.data.alarms).toEqual(data.alarms);
+    expect(migrated.data).not.toHaveProperty("schedule");
+    expect(migrated.data.messages[0].timestamp).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Alarm, Message, SamState, UserMemory } from '@/store/sam-store'
+import type { LegacyScheduleEvent } from '@/lib/calendar'
+
+// What of Sam's state survives a reload or travels in an export, and how older
+// copies of it are brought up to date
+
+export const SAM_DATA_VERSION = 1
+export const SAM_EXPORT_FORMAT = 'nyx-sam'
+
+export const MESSAGE_LIMIT = 200
+export const MESSAGE_CHARS_LIMIT = 200_000 // keeps localStorage well under its quota
+
+export type SamData = Pick<SamState, 'messages' | 'userMemories' | 'alarms' | 'userName' | 'currentTheme' | 'systemPrompt'>
+
+export interface MigratedSamData {
+  data: Partial<SamData>
+  /** Events from when Sam kept its own schedule; they belong in the calendar now */
+  schedule: LegacyScheduleEvent[]
+}
+
+export class SamDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SamDataError'
+  }
+}
+
+// Each step upgrades data written by version `n` to `n + 1`
+const MIGRATIONS: Record<number, (state: any) => any> = {
+  // Unversioned: the in-memory shape, including `schedule`
+  0: ({ schedule, ...state }) => ({ ...state, legacySchedule: Array.isArray(schedule) ? schedule : [] }),
+}
+
+const toDate = (value: unknown) => {
+  const date = new Date(value as string)
+  return Number.isNaN(date.getTime()) ? new Date() : date
+}
+
+/** The newest messages that fit both the count and the size budget, none half-streamed */
+export const capMessages = (messages: Message[]): Message[] => {
+  const kept: Message[] = []
+  let chars = 0
+  for (let i = messages.length - 1; i >= 0 && kept.length < MESSAGE_LIMIT; i--) {
+    chars += messages[i].content.length
+    if (chars > MESSAGE_CHARS_LIMIT) break
+    kept.push(messages[i])
+  }
+  return kept.reverse().map(({ streaming, ...message }) => message)
+}
+
+export const pickSamData = (state: SamData): SamData => ({
+  messages: capMessages(state.messages),
+  userMemories: state.userMemories,
+  alarms: state.alarms,
+  userName: state.userName,
+  currentTheme: state.currentTheme,
+  systemPrompt: state.systemPrompt,
+})
+
+// JSON turns the Dates into strings; anything malformed is dropped rather than crashing the UI
+const reviveSamData = (state: any): Partial<SamData> => {
+  const data: Partial<SamData> = {}
+  if (Array.isArray(state.messages)) {
+    data.messages = state.messages
+      .filter((m: any) => m && typeof m.content === 'string' && (m.role === 'user' || m.role === 'sam'))
+      .map((m: any): Message => ({ ...m, timestamp: toDate(m.timestamp), streaming: undefined }))
+  }
+  if (Array.isArray(state.userMemories)) {
+    data.userMemories = state.userMemories
+      .filter((m: any) => m && typeof m.key === 'string' && typeof m.value === 'string')
+      .map((m: any): UserMemory => ({ ...m, timestamp: toDate(m.timestamp) }))
+  }
+  if (Array.isArray(state.alarms)) {
+    data.alarms = state.alarms.filter((a: any): a is Alarm => a && typeof a.title === 'string' && typeof a.time === 'string')
+  }
+  if (typeof state.userName === 'string') data.userName = state.userName
+  if (typeof state.currentTheme === 'string') data.currentTheme = state.currentTheme
+  if (typeof state.systemPrompt === 'string') data.systemPrompt = state.systemPrompt
+  return data
+}
+
+/** Upgrades persisted or exported state written by `version` and revives its dates */
+export const migrateSamData = (state: unknown, version: number): MigratedSamData => {
+  if (!state || typeof state !== 'object') return { data: {}, schedule: [] }
+  if (version > SAM_DATA_VERSION) throw new SamDataError(`Sam data version ${version} is newer than this version of Nyx OS`)
+  let current: any = state
+  for (let v = version; v < SAM_DATA_VERSION; v++) current = MIGRATIONS[v](current)
+  return { data: reviveSamData(current), schedule: current.legacySchedule ?? [] }
+}
+
+export const serializeSamExport = (data: SamData, now = new Date()) =>
+  JSON.stringify({ format: SAM_EXPORT_FORMAT, version: SAM_DATA_VERSION, exportedAt: now.toISOString(), data: pickSamData(data) }, null, 2)
+
+export const parseSamExport = (text: string): MigratedSamData => {
+  let file: any
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new SamDataError('That file isn\'t valid JSON')
+  }
+  if (file?.format !== SAM_EXPORT_FORMAT || typeof file.version !== 'number' || !file.data) {
+    throw new SamDataError('That file isn\'t a Sam data export')
+  }
+  return migrateSamData(file.data, file.version)
+}
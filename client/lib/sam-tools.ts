@@ -0,0 +1,219 @@
+import { z } from 'zod'
+import { defineTool, ToolError, type AITool } from '@/lib/ai-tools'
+import { findAppByName } from '@/lib/app-registry'
+import { agendaText, describeConflicts, formatTime } from '@/lib/calendar'
+import { findDesktop } from '@/lib/virtual-desktops'
+import { useSamStore } from '@/store/sam-store'
+import { useCalendarStore } from '@/store/calendar-store'
+import { useThemeStore } from '@/store/theme-store'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+
+// What Sam can actually do, exposed to the model through function calling
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+const COLOR = /^#[0-9a-fA-F]{6}$/
+
+const dateTime = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date-time')
+
+// Exact (case-insensitive) title match first, then a unique partial match
+const findByTitle = <T extends { title: string }>(items: T[], title: string, kind: string): T => {
+  const needle = title.trim().toLowerCase()
+  const exact = items.filter(item => item.title.toLowerCase() === needle)
+  const matches = exact.length ? exact : items.filter(item => item.title.toLowerCase().includes(needle))
+  if (matches.length === 0) throw new ToolError(`No ${kind} named "${title}"`)
+  if (matches.length > 1) throw new ToolError(`Several ${kind}s match "${title}": ${matches.map(m => `"${m.title}"`).join(', ')}`)
+  return matches[0]
+}
+
+const formatWhen = (date: Date) =>
+  date.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+const createAlarm = defineTool({
+  name: 'create_alarm',
+  description: 'Set an alarm. Use a date for a one-off alarm, or a recurrence.',
+  parameters: z.object({
+    title: z.string().min(1).max(100),
+    time: z.string().regex(TIME).describe('24-hour local time, HH:MM'),
+    date: z.string().regex(DATE).optional().describe('YYYY-MM-DD; omit for the next occurrence'),
+    recurring: z.enum(['none', 'daily', 'weekly', 'weekdays']).default('none'),
+    message: z.string().max(200).optional(),
+  }),
+  run: ({ title, time, date, recurring, message }) => {
+    useSamStore.getState().addAlarm({ title, time, date, recurring, message, enabled: true, sound: true })
+    return `Alarm "${title}" set for ${time}${date ? ` on ${date}` : ''}${recurring !== 'none' ? ` (${recurring})` : ''}`
+  },
+})
+
+const deleteAlarm = defineTool({
+  name: 'delete_alarm',
+  description: 'Delete an alarm by its title.',
+  parameters: z.object({ title: z.string().min(1) }),
+  destructive: true,
+  summarize: ({ title }) => `Delete the alarm "${title}"`,
+  run: ({ title }) => {
+    const { alarms, removeAlarm } = useSamStore.getState()
+    const alarm = findByTitle(alarms, title, 'alarm')
+    removeAlarm(alarm.id)
+    return `Deleted the alarm "${alarm.title}"`
+  },
+})
+
+const scheduleEvent = defineTool({
+  name: 'schedule_event',
+  description: 'Add an event to the user\'s calendar. Overlapping events are refused unless allowConflicts is true, so ask the user first.',
+  parameters: z.object({
+    title: z.string().min(1).max(200),
+    start: dateTime.describe('ISO 8601 local date-time'),
+    durationMinutes: z.number().int().min(5).max(24 * 60).default(60),
+    description: z.string().max(1000).optional(),
+    type: z.enum(['meeting', 'work', 'personal', 'reminder', 'task', 'appointment']).default('personal'),
+    priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
+    location: z.string().max(200).optional(),
+    allowConflicts: z.boolean().default(false),
+  }),
+  run: async ({ title, start, durationMinutes, description, type, priority, location, allowConflicts }) => {
+    const startTime = new Date(start)
+    const endTime = new Date(startTime.getTime() + durationMinutes * 60_000)
+    const calendar = useCalendarStore.getState()
+    await calendar.load()
+    const { event, conflicts } = calendar.addEvent(
+      {
+        title,
+        description,
+        location,
+        date: new Date(startTime.getFullYear(), startTime.getMonth(), startTime.getDate()),
+        startTime: formatTime(startTime),
+        endTime: formatTime(endTime),
+        type,
+        priority,
+        reminders: [15],
+      },
+      { allowConflicts }
+    )
+    if (!event) throw new ToolError(`That overlaps ${describeConflicts(conflicts)}; nothing was scheduled`)
+    const warning = conflicts.length ? `, overlapping ${describeConflicts(conflicts)}` : ''
+    return `Scheduled "${title}" for ${formatWhen(startTime)} (${durationMinutes} min)${warning}`
+  },
+})
+
+const cancelEvent = defineTool({
+  name: 'cancel_event',
+  description: 'Remove an event from the user\'s calendar by its title.',
+  parameters: z.object({ title: z.string().min(1) }),
+  destructive: true,
+  summarize: ({ title }) => `Cancel the event "${title}"`,
+  run: async ({ title }) => {
+    const calendar = useCalendarStore.getState()
+    await calendar.load()
+    const event = findByTitle(useCalendarStore.getState().events, title, 'event')
+    calendar.removeEvent(event.id)
+    return `Cancelled "${event.title}"${event.rrule ? ' and all of its repeats' : ''}`
+  },
+})
+
+const listEvents = defineTool({
+  name: 'list_events',
+  description: 'List what is on the user\'s calendar, e.g. to answer "what\'s on today".',
+  parameters: z.object({
+    date: z.string().regex(DATE).optional().describe('YYYY-MM-DD; defaults to today'),
+    days: z.number().int().min(1).max(14).default(1),
+  }),
+  run: async ({ date, days }) => {
+    await useCalendarStore.getState().load()
+    return agendaText(useCalendarStore.getState().events, date ? new Date(`${date}T00:00`) : new Date(), days)
+  },
+})
+
+const rememberFact = defineTool({
+  name: 'remember_fact',
+  description: 'Remember something about the user for later conversations. Reusing a key updates it.',
+  parameters: z.object({
+    key: z.string().min(1).max(100).describe('Short label, e.g. "favorite color"'),
+    value: z.string().min(1).max(1000),
+    category: z.enum(['personal', 'preference', 'task', 'note']).default('personal'),
+  }),
+  run: ({ key, value, category }) => {
+    const { getMemory, updateMemory, addMemory } = useSamStore.getState()
+    const existing = getMemory(key)
+    if (existing) {
+      updateMemory(existing.id, value)
+      return `Updated memory "${key}"`
+    }
+    addMemory(key, value, category)
+    return `Remembered "${key}"`
+  },
+})
+
+const forgetFact = defineTool({
+  name: 'forget_fact',
+  description: 'Forget a remembered fact by its key.',
+  parameters: z.object({ key: z.string().min(1) }),
+  destructive: true,
+  summarize: ({ key }) => `Forget "${key}"`,
+  run: ({ key }) => {
+    const { getMemory, removeMemory } = useSamStore.getState()
+    const memory = getMemory(key)
+    if (!memory) throw new ToolError(`Nothing is remembered under "${key}"`)
+    if (!memory.editable) throw new ToolError(`"${key}" can't be removed`)
+    removeMemory(memory.id)
+    return `Forgot "${key}"`
+  },
+})
+
+const openApp = defineTool({
+  name: 'open_app',
+  description: 'Open an app by name, e.g. "calendar" or "notes".',
+  parameters: z.object({ name: z.string().min(1).max(100) }),
+  run: ({ name }) => {
+    const app = findAppByName(name)
+    if (!app) throw new ToolError(`There's no app called "${name}"`)
+    window.dispatchEvent(new CustomEvent('nyx:open-app', { detail: { appId: app.id } }))
+    return `Opened ${app.name}`
+  },
+})
+
+const changeTheme = defineTool({
+  name: 'change_theme',
+  description: 'Switch between light and dark mode and/or change the accent color.',
+  parameters: z
+    .object({
+      mode: z.enum(['light', 'dark']).optional(),
+      accentColor: z.string().regex(COLOR).optional().describe('Hex color like #8b5cf6'),
+    })
+    .refine(args => args.mode || args.accentColor, 'Give a mode, an accent color, or both'),
+  run: ({ mode, accentColor }) => {
+    const { setThemeMode, setAccentColor } = useThemeStore.getState()
+    if (mode) setThemeMode(mode)
+    if (accentColor) setAccentColor(accentColor)
+    return [mode && `Switched to ${mode} mode`, accentColor && `accent color set to ${accentColor}`].filter(Boolean).join(', ')
+  },
+})
+
+const switchDesktop = defineTool({
+  name: 'switch_desktop',
+  description: 'Switch to a virtual desktop by its name, or by its number counting from 1.',
+  parameters: z.object({ desktop: z.string().min(1).describe('Desktop name or number, e.g. "Work" or "2"') }),
+  run: ({ desktop }) => {
+    const { desktops, switchDesktop: switchTo } = useVirtualDesktopStore.getState()
+    const target = findDesktop(desktops, desktop)
+    if (!target) throw new ToolError(`There's no desktop called ${desktop}. The desktops are: ${desktops.map(d => d.name).join(', ')}`)
+    switchTo(target.id)
+    return `Switched to ${target.name}`
+  },
+})
+
+export const SAM_TOOLS: readonly AITool[] = [
+  createAlarm,
+  deleteAlarm,
+  scheduleEvent,
+  cancelEvent,
+  listEvents,
+  rememberFact,
+  forgetFact,
+  openApp,
+  changeTheme,
+  switchDesktop,
+]
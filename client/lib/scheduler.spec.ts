@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import type { Alarm } from "@/store/sam-store";
+import { Scheduler, alarmTriggers, eventOccurrences, reminderTriggers, type Clock, type FiredTrigger, type SchedulableEvent } from "./scheduler";
+
+class FakeClock implements Clock {
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextId = 1;
+
+  constructor(public time: number) {}
+
+  now() {
+    return this.time;
+  }
+
+  setTimer(callback: () => void, ms: number) {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, callback });
+    return id;
+  }
+
+  clearTimer(handle: unknown) {
+    this.timers.delete(handle as number);
+  }
+
+  /** Moves time forward, running timers at the moment they are due */
+  advance(ms: number) {
+    const target = this.time + ms;
+    for (;;) {
+      const due = [...this.timers].filter(([, t]) => t.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.time = Math.max(this.time, due[1].at);
+      due[1].callback();
+    }
+    this.time = target;
+  }
+
+  /** Moves time forward with timers suspended, like a machine asleep; they fire late on wake */
+  sleep(ms: number) {
+    this.time += ms;
+    this.advance(0);
+  }
+}
+
+// 2024-06-03 is a Monday
+const date = (day: number, time = "00:00", seconds = 0) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(2024, 5, 3 + day, hours, minutes, seconds).getTime();
+};
+
+const alarm = (overrides: Partial<Alarm>): Alarm => ({
+  id: "a1",
+  title: "Wake up",
+  time: "07:00",
+  enabled: true,
+  recurring: "daily",
+  sound: false,
+  ...overrides,
+});
+
+const run = (start: number, alarms: Alarm[], events: SchedulableEvent[] = []) => {
+  const clock = new FakeClock(start);
+  const fired: (FiredTrigger & { firedAt: number })[] = [];
+  const scheduler = new Scheduler({
+    clock,
+    sources: [(from, to) => alarmTriggers(alarms, from, to), (from, to) => reminderTriggers(events, from, to)],
+    onTrigger: (trigger) => fired.push({ ...trigger, firedAt: clock.now() }),
+  });
+  scheduler.start();
+  return { clock, fired, scheduler };
+};
+
+describe("Scheduler", () => {
+  it("fires alarms on the second they are due", () => {
+    const { clock, fired } = run(date(0, "06:59", 0), [alarm({})]);
+    clock.advance(59_000);
+    expect(fired).toHaveLength(0);
+    clock.advance(1_000);
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ firedAt: date(0, "07:00"), late: false, title: "Wake up" });
+  });
+
+  it("skips weekends for weekday alarms", () => {
+    const { clock, fired } = run(date(0), [alarm({ recurring: "weekdays" })]);
+    clock.advance(7 * 24 * 3600_000);
+    expect(fired.map((f) => new Date(f.at).getDay())).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("rings once for dated one-off alarms and weekly on the date's weekday", () => {
+    const { clock, fired } = run(date(0), [
+      alarm({ id: "once", recurring: "none", date: "2024-06-05" }),
+      alarm({ id: "weekly", recurring: "weekly", date: "2024-06-04" }),
+    ]);
+    clock.advance(14 * 24 * 3600_000);
+    expect(fired.filter((f) => f.sourceId === "once").map((f) => f.at)).toEqual([date(2, "07:00")]);
+    expect(fired.filter((f) => f.sourceId === "weekly").map((f) => f.at)).toEqual([date(1, "07:00"), date(8, "07:00")]);
+  });
+
+  it("rings again when a snooze ends, even for a disabled alarm", () => {
+    const snoozed = alarm({ enabled: false, snoozedUntil: date(0, "07:09", 30) });
+    const { clock, fired } = run(date(0, "07:00"), [snoozed]);
+    clock.advance(20 * 60_000);
+    expect(fired).toHaveLength(1);
+    expect(fired[0].firedAt).toBe(date(0, "07:09", 30));
+  });
+
+  it("catches up after sleep with one late trigger per source", () => {
+    const { clock, fired } = run(date(0, "06:00"), [alarm({}), alarm({ id: "a2", time: "08:00" })]);
+    clock.sleep(3 * 24 * 3600_000); // wakes Thursday 06:00
+    expect(fired.map((f) => [f.sourceId, f.at, f.late])).toEqual([
+      ["a1", date(2, "07:00"), true],
+      ["a2", date(2, "08:00"), true],
+    ]);
+    clock.advance(3600_000);
+    expect(fired[2]).toMatchObject({ sourceId: "a1", at: date(3, "07:00"), late: false });
+  });
+
+  it("sends reminders before each occurrence of a recurring event", () => {
+    const review: SchedulableEvent = {
+      id: "e1",
+      title: "Review",
+      date: "2024-06-03",
+      startTime: "10:00",
+      location: "Room 4",
+      rrule: "FREQ=DAILY",
+      reminders: [15, 60],
+    };
+    const { clock, fired } = run(date(0), [], [review, { ...review, id: "e2", status: "cancelled" }]);
+    clock.advance(2 * 24 * 3600_000);
+    expect(fired.map((f) => [f.at, f.body])).toEqual([
+      [date(0, "09:00"), "Starts in 1 h · Room 4"],
+      [date(0, "09:45"), "Starts in 15 min · Room 4"],
+      [date(1, "09:00"), "Starts in 1 h · Room 4"],
+      [date(1, "09:45"), "Starts in 15 min · Room 4"],
+    ]);
+  });
+
+  it("resumes from a persisted checkpoint", () => {
+    const clock = new FakeClock(date(0, "07:05"));
+    const fired: FiredTrigger[] = [];
+    new Scheduler({
+      clock,
+      lastRun: date(0, "06:55"),
+      sources: [(from, to) => alarmTriggers([alarm({})], from, to)],
+      onTrigger: (trigger) => fired.push(trigger),
+    }).start();
+    expect(fired).toEqual([expect.objectContaining({ at: date(0, "07:00"), late: true })]);
+  });
+
+  it("does not replay triggers when a handler changes the data mid-tick", () => {
+    const clock = new FakeClock(date(0, "06:59"));
+    let count = 0;
+    const scheduler: Scheduler = new Scheduler({
+      clock,
+      sources: [(from, to) => alarmTriggers([alarm({})], from, to)],
+      onTrigger: () => {
+        count++;
+        scheduler.refresh();
+      },
+    });
+    scheduler.start();
+    clock.advance(2 * 60_000);
+    expect(count).toBe(1);
+  });
+});
+
+describe("eventOccurrences", () => {
+  const standup: SchedulableEvent = {
+    id: "e1",
+    title: "Standup",
+    date: new Date(2024, 0, 31),
+    startTime: "09:30",
+    rrule: "FREQ=MONTHLY",
+  };
+
+  it("expands recurring events inside the window, skipping months without the day", () => {
+    const from = new Date(2024, 2, 1).getTime();
+    const to = new Date(2024, 5, 1).getTime();
+    expect(eventOccurrences(standup, from, to).map((t) => new Date(t).getMonth())).toEqual([2, 4]); // no April 31st
+    expect(eventOccurrences({ ...standup, rrule: undefined }, from, to)).toEqual([]);
+  });
+
+  it("honours exceptions and treats a broken rule as a single event", () => {
+    const weekly = { ...standup, rrule: "FREQ=WEEKLY", exdates: ["2024-06-05"] };
+    expect(eventOccurrences(weekly, date(0), date(14))).toEqual([date(9, "09:30")]); // 2024-01-31 was a Wednesday
+    expect(eventOccurrences({ ...weekly, rrule: "FREQ=SOMETIMES" }, date(-200), date(14))).toEqual([new Date(2024, 0, 31, 9, 30).getTime()]);
+  });
+});
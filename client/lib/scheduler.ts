@@ -0,0 +1,245 @@
+import type { Alarm } from '@/store/sam-store'
+import { expandOccurrences, parseRRule, RecurrenceError, type RecurrenceRule } from '@/lib/recurrence'
+
+// Time-based triggers for the whole OS. The Scheduler asks its sources for
+// everything due in the window since it last ran, so a timer that fired late,
+// a throttled background tab or a machine waking from sleep all catch up the
+// same way. The clock is injected, which keeps the core testable with a fake.
+
+export interface Clock {
+  now(): number
+  setTimer(callback: () => void, ms: number): unknown
+  clearTimer(handle: unknown): void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, ms) => setTimeout(callback, ms),
+  clearTimer: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+export type TriggerKind = 'alarm' | 'reminder'
+
+export interface Trigger {
+  key: string // unique per occurrence
+  sourceId: string // the alarm or event it belongs to
+  kind: TriggerKind
+  at: number
+  title: string
+  body?: string
+}
+
+export interface FiredTrigger extends Trigger {
+  late: boolean // delivered well after it was due, e.g. after sleep
+}
+
+/** Everything due in the half-open window (from, to] */
+export type TriggerSource = (from: number, to: number) => Trigger[]
+
+export interface SchedulerOptions {
+  sources: TriggerSource[]
+  onTrigger: (trigger: FiredTrigger) => void
+  clock?: Clock
+  lastRun?: number // where to resume, e.g. persisted before a reload
+  onCheckpoint?: (time: number) => void
+}
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const DAY = 24 * 60 * MINUTE
+
+export const LATE_AFTER = 30 * SECOND
+export const MAX_CATCH_UP = DAY // anything older is dropped rather than replayed
+const LOOKAHEAD = MINUTE // never sleep longer than this, so data changes are picked up
+
+export class Scheduler {
+  private clock: Clock
+  private lastRun: number
+  private timer: unknown = null
+  private running = false
+  private ticking = false
+
+  constructor(private options: SchedulerOptions) {
+    this.clock = options.clock ?? systemClock
+    this.lastRun = options.lastRun ?? this.clock.now()
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    this.tick()
+  }
+
+  stop() {
+    this.running = false
+    if (this.timer !== null) this.clock.clearTimer(this.timer)
+    this.timer = null
+  }
+
+  /** Evaluates immediately, e.g. after the data changed or the device woke up */
+  refresh() {
+    // Changes made by a trigger handler are picked up when the current tick reschedules
+    if (!this.running || this.ticking) return
+    if (this.timer !== null) this.clock.clearTimer(this.timer)
+    this.tick()
+  }
+
+  private collect(from: number, to: number) {
+    return this.options.sources
+      .flatMap(source => source(from, to))
+      .filter(trigger => trigger.at > from && trigger.at <= to)
+      .sort((a, b) => a.at - b.at)
+  }
+
+  private tick() {
+    this.timer = null
+    this.ticking = true
+    const now = this.clock.now()
+    // A clock that went backwards just restarts from here
+    const from = Math.max(Math.min(this.lastRun, now), now - MAX_CATCH_UP)
+    try {
+      this.deliver(this.collect(from, now), now)
+    } finally {
+      this.ticking = false
+    }
+    this.lastRun = now
+    this.options.onCheckpoint?.(now)
+
+    if (!this.running) return
+    const next = this.collect(now, now + LOOKAHEAD)[0]
+    this.timer = this.clock.setTimer(() => this.tick(), (next ? next.at : now + LOOKAHEAD) - now)
+  }
+
+  // Missed occurrences collapse to the latest per source, so waking up
+  // after a weekend doesn't replay every daily alarm
+  private deliver(triggers: Trigger[], now: number) {
+    const latestLate = new Map<string, Trigger>()
+    triggers.forEach(trigger => {
+      if (now - trigger.at > LATE_AFTER) latestLate.set(`${trigger.kind}:${trigger.sourceId}`, trigger)
+    })
+    triggers.forEach(trigger => {
+      const late = now - trigger.at > LATE_AFTER
+      if (late && latestLate.get(`${trigger.kind}:${trigger.sourceId}`) !== trigger) return
+      try {
+        this.options.onTrigger({ ...trigger, late })
+      } catch (error) {
+        console.error('Scheduled trigger failed:', error)
+      }
+    })
+  }
+}
+
+// --- Occurrence rules ---
+
+export const startOfDay = (time: number) => {
+  const date = new Date(time)
+  date.setHours(0, 0, 0, 0)
+  return date
+}
+
+/** Local date (YYYY-MM-DD or a Date) at a local HH:MM */
+export const atTime = (day: Date | string, time: string) => {
+  const date =
+    typeof day === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(day)
+      ? new Date(Number(day.slice(0, 4)), Number(day.slice(5, 7)) - 1, Number(day.slice(8, 10)))
+      : new Date(day)
+  const [hours, minutes] = time.split(':').map(Number)
+  date.setHours(hours || 0, minutes || 0, 0, 0)
+  return date.getTime()
+}
+
+// Calls `visit` with midnight of every local day touching [from, to]
+const eachDay = (from: number, to: number, visit: (day: Date) => void) => {
+  for (const day = startOfDay(from); day.getTime() <= to; day.setDate(day.getDate() + 1)) {
+    visit(new Date(day))
+  }
+}
+
+const alarmFiresOn = (alarm: Alarm, day: Date) => {
+  const anchor = alarm.date ? new Date(atTime(alarm.date, '00:00')) : null
+  if (anchor && day < anchor) return false
+  switch (alarm.recurring) {
+    case 'none':
+      // Undated one-off alarms ring at the next occurrence; the caller disables them afterwards
+      return anchor ? day.getTime() === anchor.getTime() : true
+    case 'daily':
+      return true
+    case 'weekdays':
+      return day.getDay() >= 1 && day.getDay() <= 5
+    case 'weekly':
+      // Weekly alarms repeat on their date's weekday; older ones saved without a date ring daily
+      return anchor ? day.getDay() === anchor.getDay() : true
+    default:
+      return false
+  }
+}
+
+export const alarmTriggers = (alarms: Alarm[], from: number, to: number): Trigger[] => {
+  const triggers: Trigger[] = []
+  alarms.forEach(alarm => {
+    const body = alarm.message || undefined
+    if (alarm.snoozedUntil && alarm.snoozedUntil > from && alarm.snoozedUntil <= to) {
+      triggers.push({ key: `alarm:${alarm.id}:snooze:${alarm.snoozedUntil}`, sourceId: alarm.id, kind: 'alarm', at: alarm.snoozedUntil, title: alarm.title, body })
+    }
+    if (!alarm.enabled) return
+    eachDay(from, to, day => {
+      if (!alarmFiresOn(alarm, day)) return
+      const at = atTime(day, alarm.time)
+      if (at > from && at <= to) {
+        triggers.push({ key: `alarm:${alarm.id}:${at}`, sourceId: alarm.id, kind: 'alarm', at, title: alarm.title, body })
+      }
+    })
+  })
+  return triggers
+}
+
+/** The parts of a calendar event the scheduler needs */
+export interface SchedulableEvent {
+  id: string
+  title: string
+  date: Date | string
+  startTime: string // HH:MM
+  location?: string
+  rrule?: string
+  exdates?: string[]
+  reminders?: number[] // minutes before
+  status?: 'upcoming' | 'completed' | 'cancelled'
+}
+
+/** Start times of an event's occurrences within [from, to] */
+export const eventOccurrences = (event: SchedulableEvent, from: number, to: number): number[] => {
+  let rule: RecurrenceRule | null = null
+  try {
+    rule = event.rrule ? parseRRule(event.rrule) : null
+  } catch (error) {
+    if (!(error instanceof RecurrenceError)) throw error
+    console.warn(`Ignoring the repeat rule of "${event.title}":`, error.message)
+  }
+  return expandOccurrences(new Date(atTime(event.date, event.startTime)), rule, new Date(from), new Date(to), event.exdates)
+    .map(start => start.getTime())
+}
+
+const formatLead = (minutes: number) => {
+  if (minutes === 0) return 'Starting now'
+  if (minutes < 60) return `Starts in ${minutes} min`
+  const hours = minutes / 60
+  return Number.isInteger(hours) ? `Starts in ${hours} h` : `Starts in ${Math.floor(hours)} h ${minutes % 60} min`
+}
+
+export const reminderTriggers = (events: SchedulableEvent[], from: number, to: number): Trigger[] =>
+  events.flatMap(event => {
+    if (event.status === 'cancelled' || event.status === 'completed' || !event.reminders?.length) return []
+    return event.reminders.flatMap(minutes => {
+      const lead = minutes * MINUTE
+      return eventOccurrences(event, from + lead, to + lead)
+        .map(start => ({
+          key: `reminder:${event.id}:${start}:${minutes}`,
+          sourceId: event.id,
+          kind: 'reminder' as const,
+          at: start - lead,
+          title: event.title,
+          body: [formatLead(minutes), event.location].filter(Boolean).join(' · '),
+        }))
+        .filter(trigger => trigger.at > from && trigger.at <= to)
+    })
+  })
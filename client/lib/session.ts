@@ -0,0 +1,255 @@
+import { useWindowStore, Window, WindowMode } from '@/store/window-store'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { useDesktopStore, DesktopIcon, DesktopFolder } from '@/store/desktop-store'
+import type { DeviceType } from '@/hooks/useDeviceDetection'
+import { getAppManifest, getAppComponent } from '@/lib/app-registry'
+import { userStorage } from '@/lib/user-storage'
+import type { SnapZone } from '@/lib/window-layout'
+import { DEFAULT_DESKTOPS, DESKTOP_WALLPAPERS, DEFAULT_DESKTOP_LAYOUT, createDesktop, type VirtualDesktop } from '@/lib/virtual-desktops'
+
+const SESSION_STORAGE_KEY = 'nyx-session'
+const SESSION_VERSION = 1
+const SAVE_DEBOUNCE_MS = 500
+
+export interface SessionWindow {
+  id: string
+  appId: string
+  title: string
+  props?: Record<string, unknown>
+  position: { x: number; y: number }
+  size: { width: number; height: number }
+  mode: WindowMode
+  snapZone?: SnapZone
+  isMinimized: boolean
+  isMaximized: boolean
+  isPinned: boolean
+  isFloating?: boolean
+  opacity?: number
+  splitPartner?: string
+  desktopId: string | number // a desktop index in sessions saved before desktops had ids
+  zIndex: number
+}
+
+export interface SessionIcon {
+  id: string
+  appId: string
+  name: string
+  position: { x: number; y: number }
+  size: { width: number; height: number }
+  color?: string
+  rotation?: number
+  isInFolder?: boolean
+  folderId?: string
+}
+
+export interface SessionSnapshot {
+  version: number
+  savedAt: number
+  windows: SessionWindow[]
+  focusedWindowId: string | null
+  desktops?: VirtualDesktop[]
+  currentDesktopId?: string
+  // Sessions saved before desktops had ids
+  desktopLayouts?: Record<number, { tiling: boolean; splitRatio: number }>
+  virtualDesktops?: { currentDesktop: number; desktopCount: number }
+  desktop: { icons: SessionIcon[]; folders: DesktopFolder[] }
+}
+
+// Window props may carry callbacks or DOM nodes; only keep what survives a JSON round-trip
+const toSerializableProps = (props: any): Record<string, unknown> | undefined => {
+  if (!props || typeof props !== 'object') return undefined
+  try {
+    const json = JSON.stringify(props, (_key, value) => (typeof value === 'function' ? undefined : value))
+    return json ? JSON.parse(json) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export const captureSession = (): SessionSnapshot => {
+  const windowState = useWindowStore.getState()
+  const desktopState = useVirtualDesktopStore.getState()
+  const iconState = useDesktopStore.getState()
+
+  const windows: SessionWindow[] = windowState.windows
+    .filter((w) => w.appId && getAppManifest(w.appId))
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .map((w) => ({
+      id: w.id,
+      appId: w.appId,
+      title: w.title,
+      props: toSerializableProps(w.props),
+      position: w.position,
+      size: w.size,
+      mode: w.mode,
+      snapZone: w.snapZone,
+      isMinimized: w.isMinimized,
+      isMaximized: w.isMaximized,
+      isPinned: w.isPinned,
+      isFloating: w.isFloating,
+      opacity: w.opacity,
+      splitPartner: w.splitPartner,
+      desktopId: w.desktopId ?? desktopState.currentDesktopId,
+      zIndex: w.zIndex,
+    }))
+
+  const icons: SessionIcon[] = iconState.icons.map((icon) => ({
+    id: icon.id,
+    appId: icon.appId,
+    name: icon.name,
+    position: icon.position,
+    size: icon.size,
+    color: icon.color,
+    rotation: icon.rotation,
+    isInFolder: icon.isInFolder,
+    folderId: icon.folderId,
+  }))
+
+  return {
+    version: SESSION_VERSION,
+    savedAt: Date.now(),
+    windows,
+    focusedWindowId: windowState.focusedWindowId,
+    desktops: desktopState.desktops,
+    currentDesktopId: desktopState.currentDesktopId,
+    desktop: {
+      icons,
+      folders: iconState.folders,
+    },
+  }
+}
+
+export const saveSession = (snapshot: SessionSnapshot = captureSession()) => {
+  try {
+    userStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(snapshot))
+  } catch (error) {
+    console.warn('Failed to save session:', error)
+  }
+}
+
+export const loadSession = (): SessionSnapshot | null => {
+  try {
+    const raw = userStorage.getItem(SESSION_STORAGE_KEY)
+    if (!raw) return null
+    const snapshot = JSON.parse(raw) as SessionSnapshot
+    if (snapshot?.version !== SESSION_VERSION || !Array.isArray(snapshot.windows)) return null
+    return snapshot
+  } catch (error) {
+    console.warn('Failed to load session:', error)
+    return null
+  }
+}
+
+export const clearSession = () => {
+  userStorage.removeItem(SESSION_STORAGE_KEY)
+}
+
+// Sessions saved before the layout engine had split-left/split-right modes
+const restoreMode = (saved: SessionWindow): Pick<Window, 'mode' | 'snapZone'> => {
+  const mode = saved.mode as string
+  if (mode === 'split-left' || mode === 'split-right') {
+    return { mode: 'snapped', snapZone: mode === 'split-left' ? 'left' : 'right' }
+  }
+  return { mode: saved.mode, snapZone: saved.mode === 'snapped' ? saved.snapZone : undefined }
+}
+
+// Desktops from the snapshot, or for older sessions as many as it counted,
+// carrying over each one's layout
+const restoreDesktops = (snapshot: SessionSnapshot): { desktops: VirtualDesktop[]; currentDesktopId: string } => {
+  if (snapshot.desktops?.length) {
+    const desktops = snapshot.desktops.map((d) => ({
+      ...d,
+      wallpaper: d.wallpaper in DESKTOP_WALLPAPERS ? d.wallpaper : 'space',
+      iconLayout: d.iconLayout || {},
+      layout: { ...DEFAULT_DESKTOP_LAYOUT, ...d.layout },
+    }))
+    return { desktops, currentDesktopId: snapshot.currentDesktopId }
+  }
+  const count = Math.max(1, snapshot.virtualDesktops?.desktopCount || 1)
+  const desktops: VirtualDesktop[] = []
+  for (let i = 0; i < count; i++) {
+    const desktop = DEFAULT_DESKTOPS[i] ?? createDesktop(desktops)
+    desktops.push({ ...desktop, layout: { ...desktop.layout, ...snapshot.desktopLayouts?.[i] } })
+  }
+  const current = Math.min(Math.max(0, snapshot.virtualDesktops?.currentDesktop || 0), count - 1)
+  return { desktops, currentDesktopId: desktops[current].id }
+}
+
+export const restoreSession = (
+  deviceType?: DeviceType,
+  snapshot: SessionSnapshot | null = loadSession(),
+): boolean => {
+  if (!snapshot) return false
+
+  const icons: DesktopIcon[] = (snapshot.desktop?.icons || []).flatMap((saved) => {
+    const app = getAppManifest(saved.appId)
+    if (!app) return []
+    return [{
+      ...saved,
+      icon: app.icon,
+      component: getAppComponent(app),
+      defaultSize: app.defaultSize,
+      defaultPosition: app.defaultPosition,
+      description: app.description,
+    }]
+  })
+  const iconIds = new Set(icons.map((icon) => icon.id))
+  const folders = (snapshot.desktop?.folders || [])
+    .map((folder) => ({ ...folder, iconIds: folder.iconIds.filter((id) => iconIds.has(id)) }))
+  if (icons.length > 0) {
+    useDesktopStore.setState({ icons, folders })
+  }
+
+  const { desktops, currentDesktopId } = restoreDesktops(snapshot)
+  useVirtualDesktopStore.getState().restoreDesktops(desktops, currentDesktopId)
+  const desktopIds = new Set(desktops.map((d) => d.id))
+  const restoreDesktopId = (saved: SessionWindow) => {
+    if (typeof saved.desktopId === 'number') return desktops[Math.min(Math.max(0, saved.desktopId), desktops.length - 1)].id
+    return desktopIds.has(saved.desktopId) ? saved.desktopId : useVirtualDesktopStore.getState().currentDesktopId
+  }
+
+  const windows: Window[] = snapshot.windows.flatMap((saved) => {
+    const app = getAppManifest(saved.appId)
+    if (!app) return []
+    return [{
+      ...saved,
+      ...restoreMode(saved),
+      component: getAppComponent(app, deviceType),
+      desktopId: restoreDesktopId(saved),
+    }]
+  })
+  useWindowStore.getState().restoreWindows(windows, snapshot.focusedWindowId)
+
+  return true
+}
+
+// Saves the session whenever window, desktop or icon state changes. Returns a stop function.
+export const startSessionPersistence = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    saveSession()
+  }
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(flush, SAVE_DEBOUNCE_MS)
+  }
+
+  const unsubscribers = [
+    useWindowStore.subscribe(schedule),
+    useVirtualDesktopStore.subscribe(schedule),
+    useDesktopStore.subscribe(schedule),
+  ]
+  window.addEventListener('beforeunload', flush)
+
+  return () => {
+    flush()
+    unsubscribers.forEach((unsubscribe) => unsubscribe())
+    window.removeEventListener('beforeunload', flush)
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { markdownToHtml } from "./markdown";
+import { highlightCode, isHighlightable } from "./syntax-highlight";
+
+// The token spans of highlighted code, as [kind, text] pairs
+const tokens = (html: string) =>
+  [...html.matchAll(/<span class="hl-(\w+)">([\s\S]*?)<\/span>/g)].map(([, kind, text]) => [kind, text]);
+
+describe("highlightCode", () => {
+  it("marks keywords, strings, numbers and comments in TypeScript", () => {
+    const html = highlightCode("const answer: number = 42 // the answer\nreturn `a${b}`", "ts");
+    expect(tokens(html)).toEqual([
+      ["keyword", "const"],
+      ["type", "number"],
+      ["number", "42"],
+      ["comment", "// the answer"],
+      ["keyword", "return"],
+      ["string", "`a${b}`"],
+    ]);
+  });
+
+  it("does not find keywords inside identifiers", () => {
+    expect(tokens(highlightCode("iffy = format(constant)", "js"))).toEqual([["function", "format"]]);
+  });
+
+  it("escapes the code in and between tokens", () => {
+    const html = highlightCode('if a < b: print("<tag>")', "python");
+    expect(html).toBe(
+      '<span class="hl-keyword">if</span> a &lt; b: <span class="hl-function">print</span>(<span class="hl-string">&quot;&lt;tag&gt;&quot;</span>)',
+    );
+  });
+
+  it("highlights triple-quoted Python strings across lines", () => {
+    expect(tokens(highlightCode('"""one\ntwo"""\nNone', "py"))).toEqual([
+      ["string", '&quot;&quot;&quot;one\ntwo&quot;&quot;&quot;'],
+      ["literal", "None"],
+    ]);
+  });
+
+  it("tells JSON keys from values", () => {
+    expect(tokens(highlightCode('{"name": "nyx", "ok": true, "n": -1.5}', "json"))).toEqual([
+      ["property", "&quot;name&quot;"],
+      ["string", "&quot;nyx&quot;"],
+      ["property", "&quot;ok&quot;"],
+      ["literal", "true"],
+      ["property", "&quot;n&quot;"],
+      ["number", "-1.5"],
+    ]);
+  });
+
+  it("knows shell comments from # inside words and variables", () => {
+    expect(tokens(highlightCode("echo ${#items} a#b $HOME # done", "bash"))).toEqual([
+      ["function", "echo"],
+      ["variable", "${#items}"],
+      ["variable", "$HOME"],
+      ["comment", "# done"],
+    ]);
+  });
+
+  it("marks tags, attributes and strings in HTML", () => {
+    expect(tokens(highlightCode('<a href="/x">hi</a>', "html"))).toEqual([
+      ["tag", "&lt;a"],
+      ["attribute", "href"],
+      ["string", "&quot;/x&quot;"],
+      ["tag", "&gt;"],
+      ["tag", "&lt;/a"],
+      ["tag", "&gt;"],
+    ]);
+  });
+
+  it("matches SQL keywords in any case", () => {
+    expect(tokens(highlightCode("Select * FROM notes -- all", "SQL"))).toEqual([
+      ["keyword", "Select"],
+      ["keyword", "FROM"],
+      ["comment", "-- all"],
+    ]);
+  });
+
+  it("only escapes languages it doesn't know", () => {
+    expect(isHighlightable("Rust")).toBe(true);
+    expect(isHighlightable("brainfuck")).toBe(false);
+    expect(highlightCode("a < b", "brainfuck")).toBe("a &lt; b");
+  });
+
+  it("doesn't take Object.prototype members for languages", () => {
+    ["constructor", "__proto__", "toString", "hasOwnProperty", "valueOf"].forEach(name => {
+      expect(isHighlightable(name)).toBe(false);
+      expect(highlightCode("a < b", name)).toBe("a &lt; b");
+    });
+    expect(markdownToHtml("```constructor\nx\n```", { highlight: highlightCode })).toBe(
+      '<pre><code class="language-constructor">x</code></pre>',
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import { escapeHtml } from '@/lib/markdown'
+
+// Syntax highlighting for fenced code blocks. Each language is a list of token
+// rules tried in order at every position; the first that matches wins, and
+// text no rule matches is left plain. That is far from a parser, but enough to
+// colour the comments, strings, keywords and numbers of a README's snippets.
+// Tokens come out as escaped HTML in `hl-*` spans, styled by the preview and by
+// HIGHLIGHT_CSS in exported documents.
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'type' | 'function' | 'property' | 'variable' | 'tag' | 'attribute' | 'meta'
+
+type Rule = [TokenKind, RegExp]
+
+const words = (list: string, flags = '') => new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, `y${flags}`)
+
+const NUMBER: Rule = ['number', /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)[a-zA-Z]*\b|\.\d+\b/y]
+const DOUBLE_QUOTED: Rule = ['string', /"(?:[^"\\\n]|\\.)*"?/y]
+const SINGLE_QUOTED: Rule = ['string', /'(?:[^'\\\n]|\\.)*'?/y]
+const LINE_COMMENT: Rule = ['comment', /\/\/.*/y]
+const BLOCK_COMMENT: Rule = ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y]
+const HASH_COMMENT: Rule = ['comment', /#.*/y]
+const FUNCTION_CALL: Rule = ['function', /[A-Za-z_$][\w$]*(?=\s*\()/y]
+
+const JAVASCRIPT: Rule[] = [
+  LINE_COMMENT,
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['string', /`(?:[^`\\]|\\[\s\S])*`?/y],
+  ['keyword', words(`
+    as async await break case catch class const continue debugger declare default delete do else enum export extends
+    finally for from function get if implements import in instanceof interface keyof let namespace new of private
+    protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield
+  `)],
+  ['literal', words('true false null undefined NaN Infinity')],
+  ['type', words('any boolean never number object string symbol unknown bigint')],
+  ['type', /\b[A-Z][\w$]*/y],
+  NUMBER,
+  FUNCTION_CALL,
+]
+
+const PYTHON: Rule[] = [
+  HASH_COMMENT,
+  ['string', /[rbfuRBFU]{0,2}("""|''')[\s\S]*?(?:\1|$)/y],
+  ['string', /[rbfuRBFU]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/y],
+  ['meta', /@[\w.]+/y],
+  ['keyword', words(`
+    and as assert async await break class continue def del elif else except finally for from global if import in is
+    lambda match case nonlocal not or pass raise return try while with yield
+  `)],
+  ['literal', words('True False None')],
+  ['type', /\b[A-Z][\w]*/y],
+  NUMBER,
+  FUNCTION_CALL,
+]
+
+const JSON_RULES: Rule[] = [
+  ['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y],
+  DOUBLE_QUOTED,
+  ['literal', words('true false null')],
+  ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+]
+
+const SHELL: Rule[] = [
+  // A # starts a comment only at the start of a word, so ${#list} and a#b are not comments
+  ['comment', /(?<![^\s;|&(])#.*/y],
+  DOUBLE_QUOTED,
+  ['string', /'[^']*'?/y],
+  ['variable', /\$(?:\{[^}\n]*\}?|\w+|[@#?$!*-])/y],
+  ['keyword', words(`
+    if then else elif fi for in do done while until case esac function return local export readonly unset shift
+    break continue exit source alias
+  `)],
+  ['function', words('echo printf cd ls cat grep sed awk find mkdir rm cp mv chmod chown curl wget git npm pnpm yarn npx node sudo apt brew pip python docker make test')],
+  ['number', /\b\d+\b/y],
+]
+
+const CSS: Rule[] = [
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['keyword', /@[\w-]+/y],
+  ['number', /#[\da-fA-F]{3,8}\b/y],
+  ['property', /--?[a-zA-Z][\w-]*(?=\s*:(?!:))/y],
+  ['number', /-?(?:\d+\.?\d*|\.\d+)(?:%|[a-zA-Z]+)?/y],
+  ['literal', /!important\b/y],
+  FUNCTION_CALL,
+]
+
+const MARKUP: Rule[] = [
+  ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+  ['meta', /<![^>]*>?|<\?[\s\S]*?(?:\?>|$)/y],
+  ['tag', /<\/?[A-Za-z][\w:.-]*|\/?>/y],
+  ['attribute', /[A-Za-z_:@][\w:.-]*(?=\s*=)/y],
+  ['string', /"[^"]*"?|'[^']*'?/y],
+  ['literal', /&[#\w]+;/y],
+]
+
+const SQL: Rule[] = [
+  ['comment', /--.*/y],
+  BLOCK_COMMENT,
+  ['string', /'(?:[^']|'')*'?/y],
+  ['property', /"[^"\n]*"?|`[^`\n]*`?/y],
+  ['keyword', words(`
+    select from where and or not in is like between join inner left right full outer cross on as group by order having
+    limit offset union all distinct insert into values update set delete create alter drop table view index primary key
+    foreign references constraint unique default if exists case when then else end with returning asc desc
+  `, 'i')],
+  ['literal', words('null true false', 'i')],
+  ['type', words('int integer bigint smallint decimal numeric real float double varchar char text boolean date time timestamp serial uuid json jsonb', 'i')],
+  NUMBER,
+  FUNCTION_CALL,
+]
+
+const cLike = (keywords: string, literals: string, types: string): Rule[] => [
+  LINE_COMMENT,
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['meta', /#\s*\w+/y],
+  ['keyword', words(keywords)],
+  ['literal', words(literals)],
+  ['type', words(types)],
+  ['type', /\b[A-Z][\w]*/y],
+  NUMBER,
+  FUNCTION_CALL,
+]
+
+const C = cLike(
+  'auto break case const continue default do else enum extern for goto if inline register return sizeof static struct switch typedef union volatile while class namespace new delete template typename using public private protected virtual override this throw try catch',
+  'NULL nullptr true false',
+  'void char short int long float double signed unsigned bool size_t'
+)
+
+const GO = cLike(
+  'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var',
+  'nil true false iota',
+  'bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 uint16 uint32 uint64 uintptr any'
+)
+
+const RUST = cLike(
+  'as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while',
+  'true false None Some Ok Err',
+  'bool char str i8 i16 i32 i64 i128 isize u8 u16 u32 u64 u128 usize f32 f64 String Vec Option Result Box'
+)
+
+const JAVA = cLike(
+  'abstract assert break case catch class const continue default do else enum extends final finally for if implements import instanceof interface native new package private protected public return static super switch synchronized this throw throws try var void volatile while record yield',
+  'true false null',
+  'boolean byte char short int long float double'
+)
+
+const CSHARP = cLike(
+  'abstract as async await base break case catch class const continue default delegate do else enum event explicit extern finally fixed for foreach get if implicit in interface internal is lock namespace new operator out override params private protected public readonly ref return sealed set sizeof static struct switch this throw try typeof using var virtual void volatile while',
+  'true false null',
+  'bool byte char decimal double float int long object sbyte short string uint ulong ushort'
+)
+
+// A Map, so names such as `constructor` don't find members of Object.prototype
+const LANGUAGES = new Map<string, Rule[]>(Object.entries({
+  js: JAVASCRIPT,
+  javascript: JAVASCRIPT,
+  jsx: JAVASCRIPT,
+  mjs: JAVASCRIPT,
+  cjs: JAVASCRIPT,
+  ts: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  tsx: JAVASCRIPT,
+  py: PYTHON,
+  python: PYTHON,
+  json: JSON_RULES,
+  jsonc: [LINE_COMMENT, BLOCK_COMMENT, ...JSON_RULES],
+  sh: SHELL,
+  bash: SHELL,
+  shell: SHELL,
+  zsh: SHELL,
+  css: CSS,
+  scss: [LINE_COMMENT, ...CSS],
+  html: MARKUP,
+  xml: MARKUP,
+  svg: MARKUP,
+  sql: SQL,
+  c: C,
+  h: C,
+  cpp: C,
+  'c++': C,
+  go: GO,
+  rust: RUST,
+  rs: RUST,
+  java: JAVA,
+  kotlin: JAVA,
+  cs: CSHARP,
+  csharp: CSHARP,
+}))
+
+const WORD = /[\w$]+|[\s\S]/y
+
+export const isHighlightable = (language: string) => LANGUAGES.has(language.toLowerCase())
+
+/** Code as escaped HTML, with tokens wrapped in `<span class="hl-…">`; unknown languages are only escaped */
+export const highlightCode = (code: string, language: string): string => {
+  const rules = LANGUAGES.get(language.toLowerCase())
+  if (!rules) return escapeHtml(code)
+
+  let html = ''
+  let plain = ''
+  let position = 0
+  while (position < code.length) {
+    let matched = false
+    for (const [kind, pattern] of rules) {
+      pattern.lastIndex = position
+      const match = pattern.exec(code)
+      if (!match || match[0].length === 0) continue
+      html += escapeHtml(plain) + `<span class="hl-${kind}">${escapeHtml(match[0])}</span>`
+      plain = ''
+      position += match[0].length
+      matched = true
+      break
+    }
+    if (matched) continue
+    // Skip the rest of a word at once, so keywords never match inside identifiers
+    WORD.lastIndex = position
+    const text = WORD.exec(code)![0]
+    plain += text
+    position += text.length
+  }
+  return html + escapeHtml(plain)
+}
+
+/** Token colours for HTML exported outside the app, after GitHub's light theme */
+export const HIGHLIGHT_CSS = `
+.hl-comment { color: #6e7781; font-style: italic; }
+.hl-string { color: #0a3069; }
+.hl-number, .hl-literal { color: #0550ae; }
+.hl-keyword { color: #cf222e; }
+.hl-type { color: #953800; }
+.hl-function { color: #8250df; }
+.hl-property, .hl-attribute { color: #0550ae; }
+.hl-variable { color: #953800; }
+.hl-tag { color: #116329; }
+.hl-meta { color: #8250df; }
+`.trim()
@@ -2,7 +2,7 @@ import { invoke } from '@tauri-apps/api/tauri'
 import { appWindow } from '@tauri-apps/api/window'
 import { platform, arch, hostname } from '@tauri-apps/api/os'
 import { sendNotification, isPermissionGranted, requestPermission } from '@tauri-apps/api/notification'
-import { listen, UnlistenFn } from '@tauri-apps/api/event'
+import { emit, listen, UnlistenFn } from '@tauri-apps/api/event'
 
 export interface SystemInfo {
   platform: string
@@ -231,6 +231,23 @@ export const closeNativeWindow = async (label: string): Promise<void> => {
   await invoke('close_native_window', { label })
 }
 
+// Label of the native window this page runs in, so windows made with createNativeWindow can tell what to show
+export const currentNativeWindowLabel = (): string | null => {
+  if (!isTauri()) return null
+  return appWindow.label
+}
+
+// App events reach every native window, including the one that sent them
+export const broadcastEvent = async (event: string, payload: unknown): Promise<void> => {
+  if (!isTauri()) return
+  await emit(event, payload)
+}
+
+export const listenEvent = async (event: string, handler: (payload: any) => void): Promise<UnlistenFn | undefined> => {
+  if (!isTauri()) return undefined
+  return await listen(event, (e) => handler(e.payload))
+}
+
 export default {
   isTauri,
   getSystemInfo,
@@ -254,4 +271,7 @@ export default {
   createNativeWindow,
   focusNativeWindow,
   closeNativeWindow,
+  currentNativeWindowLabel,
+  broadcastEvent,
+  listenEvent,
 }
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { UndoHistory, applyPatch, diff, registerUndoTarget, undoTargetFor } from "./undo-history";
+
+describe("diff", () => {
+  it("only records the parts of the state that changed", () => {
+    const shared = { title: "Intro", elements: [{ id: "a", x: 1 }] };
+    const before = { slides: [shared, { title: "Two", elements: [] }] };
+    const after = { slides: [shared, { title: "Second", elements: [] }] };
+    expect(diff(before, after)).toEqual([{ path: ["slides", 1, "title"], at: 0, before: "Two", after: "Second" }]);
+  });
+
+  it("keeps text changes as splices", () => {
+    expect(diff("hello world", "hello brave world")).toEqual([{ path: [], at: 6, before: "", after: "brave " }]);
+  });
+
+  it("replaces arrays that change length and tracks added and removed keys", () => {
+    const before = { items: [1, 2], color: "red" } as Record<string, unknown>;
+    const after = { items: [1, 2, 3], size: 2 };
+    const ops = diff(before, after);
+    expect(ops).toContainEqual({ path: ["items"], before: [1, 2], after: [1, 2, 3] });
+    expect(applyPatch(before, ops, "redo")).toEqual(after);
+    expect(applyPatch(after, ops, "undo")).toEqual(before);
+  });
+});
+
+describe("UndoHistory", () => {
+  it("undoes and redoes recorded changes", () => {
+    const history = new UndoHistory<{ count: number }>();
+    history.record({ count: 0 }, { count: 1 });
+    history.record({ count: 1 }, { count: 2 });
+    expect(history.undo({ count: 2 })).toEqual({ count: 1 });
+    expect(history.undo({ count: 1 })).toEqual({ count: 0 });
+    expect(history.undo({ count: 0 })).toBeUndefined();
+    expect(history.redo({ count: 0 })).toEqual({ count: 1 });
+    expect(history.canRedo).toBe(true);
+  });
+
+  it("clears redo when a new change is recorded", () => {
+    const history = new UndoHistory<string>();
+    history.record("a", "ab");
+    history.undo("ab");
+    history.record("a", "ac");
+    expect(history.canRedo).toBe(false);
+    expect(history.undo("ac")).toBe("a");
+  });
+
+  it("coalesces a burst of typing into one step", () => {
+    const history = new UndoHistory<string>({ coalesceMs: 500 });
+    let text = "";
+    ["H", "He", "Hel", "Help"].forEach((next, i) => {
+      history.record(text, next, { coalesce: "typing", time: 1000 + i * 100 });
+      text = next;
+    });
+    history.record("Help", "Help!", { coalesce: "typing", time: 3000 });
+    expect(history.undo("Help!")).toBe("Help");
+    expect(history.undo("Help")).toBe("");
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("applies patches to the current state, leaving untracked changes alone", () => {
+    const history = new UndoHistory<{ a: string; b: string }>();
+    history.record({ a: "x", b: "y" }, { a: "x2", b: "y" });
+    expect(history.undo({ a: "x2", b: "changed elsewhere" })).toEqual({ a: "x", b: "changed elsewhere" });
+  });
+
+  it("groups several changes into one step", () => {
+    const history = new UndoHistory<number[]>();
+    history.beginGroup("Import");
+    history.record([], [1]);
+    history.record([1], [1, 2]);
+    history.endGroup();
+    expect(history.undoLabel).toBe("Import");
+    expect(history.undo([1, 2])).toEqual([]);
+    expect(history.redo([])).toEqual([1, 2]);
+  });
+
+  it("drops the oldest steps beyond the entry and size caps", () => {
+    const byCount = new UndoHistory<number>({ maxEntries: 2 });
+    [1, 2, 3].forEach((value) => byCount.record(value - 1, value));
+    expect(byCount.undo(3)).toBe(2);
+    expect(byCount.undo(2)).toBe(1);
+    expect(byCount.canUndo).toBe(false);
+
+    const bySize = new UndoHistory<string>({ maxSize: 100 });
+    bySize.record("", "x".repeat(80));
+    bySize.record("x".repeat(80), "y".repeat(80));
+    expect(bySize.undo("y".repeat(80))).toBe("x".repeat(80));
+    expect(bySize.canUndo).toBe(false);
+  });
+});
+
+describe("undo targets", () => {
+  it("routes shortcuts to the window that registered", () => {
+    const target = { undo: () => {}, redo: () => {} };
+    const unregister = registerUndoTarget("window-1", target);
+    expect(undoTargetFor("window-1")).toBe(target);
+    expect(undoTargetFor("window-2")).toBeUndefined();
+    unregister();
+    expect(undoTargetFor("window-1")).toBeUndefined();
+  });
+});
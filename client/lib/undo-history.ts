@@ -0,0 +1,274 @@
+// Undo/redo for the editors. A change is recorded as a patch between the state
+// before and after it: only the parts that differ are kept, so recording the
+// whole state of a document or workbook after every edit stays cheap as long
+// as the state is updated immutably.
+
+export type PatchPath = (string | number)[]
+
+/**
+ * One changed location. `at` marks a text splice: `before` and `after` are then
+ * the replaced and inserted text at that index of the string at `path`.
+ */
+export interface PatchOp {
+  path: PatchPath
+  before: unknown
+  after: unknown
+  at?: number
+}
+
+export interface HistoryEntry {
+  ops: PatchOp[]
+  label?: string
+  coalesceKey?: string
+  time: number
+  size: number
+}
+
+export interface RecordOptions {
+  label?: string
+  /** Changes with the same key in quick succession, such as typing, undo as one step */
+  coalesce?: string
+  time?: number
+}
+
+export interface UndoHistoryOptions {
+  maxEntries?: number
+  /** Rough cap on the retained patches, in characters of their content */
+  maxSize?: number
+  /** How long after a change another change with the same coalesce key still joins it */
+  coalesceMs?: number
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** Approximate retained size of a value, in characters */
+export const estimateSize = (value: unknown, limit = Infinity): number => {
+  let size = 0
+  const visit = (item: unknown) => {
+    if (size >= limit) return
+    if (typeof item === 'string') size += item.length
+    else if (Array.isArray(item)) item.forEach(visit)
+    else if (isObject(item)) Object.entries(item).forEach(([key, child]) => {
+      size += key.length
+      visit(child)
+    })
+    else size += 8
+  }
+  visit(value)
+  return size
+}
+
+// The differing middle of two strings, as a splice of the first into the second
+const diffText = (before: string, after: string, path: PatchPath): PatchOp => {
+  let start = 0
+  const shorter = Math.min(before.length, after.length)
+  while (start < shorter && before[start] === after[start]) start++
+  let end = 0
+  while (end < shorter - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++
+  return { path, at: start, before: before.slice(start, before.length - end), after: after.slice(start, after.length - end) }
+}
+
+/**
+ * The changes that turn `before` into `after`. Unchanged branches (the same
+ * reference) are skipped; arrays that change length are replaced whole.
+ */
+export const diff = (before: unknown, after: unknown, path: PatchPath = []): PatchOp[] => {
+  if (Object.is(before, after)) return []
+  if (typeof before === 'string' && typeof after === 'string') return [diffText(before, after, path)]
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    return before.flatMap((item, index) => diff(item, after[index], [...path, index]))
+  }
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    return [...keys].flatMap(key =>
+      key in before && key in after ? diff(before[key], after[key], [...path, key]) : [{ path: [...path, key], before: before[key], after: after[key] }]
+    )
+  }
+  return [{ path, before, after }]
+}
+
+const setIn = (target: unknown, path: PatchPath, update: (value: unknown) => unknown): unknown => {
+  if (path.length === 0) return update(target)
+  const [key, ...rest] = path
+  if (Array.isArray(target)) {
+    const copy = [...target]
+    copy[key as number] = setIn(target[key as number], rest, update)
+    return copy
+  }
+  const object = isObject(target) ? target : {}
+  const value = setIn(object[key], rest, update)
+  if (value === undefined) {
+    const { [key]: _removed, ...remaining } = object
+    return remaining
+  }
+  return { ...object, [key]: value }
+}
+
+const applyOp = (state: unknown, op: PatchOp, direction: 'undo' | 'redo') => {
+  const [from, to] = direction === 'undo' ? [op.after, op.before] : [op.before, op.after]
+  return setIn(state, op.path, value => {
+    if (op.at === undefined) return to
+    const text = typeof value === 'string' ? value : ''
+    return text.slice(0, op.at) + (to as string) + text.slice(op.at + (from as string).length)
+  })
+}
+
+/** Applies patches forwards (redo) or backwards (undo) */
+export const applyPatch = <T>(state: T, ops: PatchOp[], direction: 'undo' | 'redo'): T =>
+  (direction === 'undo' ? [...ops].reverse() : ops).reduce<unknown>((current, op) => applyOp(current, op, direction), state) as T
+
+const samePath = (a: PatchPath, b: PatchPath) => a.length === b.length && a.every((key, i) => key === b[i])
+
+// Folds `next` into `previous` when it edits text that `previous` inserted, as
+// typing does, so a burst keeps one op per text rather than one per keystroke
+const mergeOps = (previous: PatchOp[], next: PatchOp[]): PatchOp[] => {
+  const merged = [...previous]
+  next.forEach(op => {
+    const last = merged[merged.length - 1]
+    if (last && op.at !== undefined && last.at !== undefined && samePath(last.path, op.path)) {
+      const inserted = last.after as string
+      const offset = op.at - last.at
+      if (offset >= 0 && offset + (op.before as string).length <= inserted.length) {
+        merged[merged.length - 1] = {
+          ...last,
+          after: inserted.slice(0, offset) + (op.after as string) + inserted.slice(offset + (op.before as string).length),
+        }
+        return
+      }
+    }
+    merged.push(op)
+  })
+  return merged
+}
+
+const opsSize = (ops: PatchOp[]) => ops.reduce((size, op) => size + estimateSize(op.before) + estimateSize(op.after) + op.path.length, 0)
+
+export class UndoHistory<T> {
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  private group: HistoryEntry | null = null
+  private groupDepth = 0
+  private readonly maxEntries: number
+  private readonly maxSize: number
+  private readonly coalesceMs: number
+
+  constructor(options: UndoHistoryOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 200
+    this.maxSize = options.maxSize ?? 5_000_000
+    this.coalesceMs = options.coalesceMs ?? 1000
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0
+  }
+
+  get undoLabel() {
+    return this.undoStack[this.undoStack.length - 1]?.label
+  }
+
+  get redoLabel() {
+    return this.redoStack[this.redoStack.length - 1]?.label
+  }
+
+  /** Records the change from `before` to `after`; does nothing when they are equal */
+  record(before: T, after: T, options: RecordOptions = {}) {
+    const ops = diff(before, after)
+    if (ops.length === 0) return
+    const time = options.time ?? Date.now()
+
+    if (this.group) {
+      this.group.ops = mergeOps(this.group.ops, ops)
+      this.group.time = time
+      this.group.label ??= options.label
+      return
+    }
+
+    this.redoStack = []
+    const last = this.undoStack[this.undoStack.length - 1]
+    if (options.coalesce && last?.coalesceKey === options.coalesce && time - last.time <= this.coalesceMs) {
+      last.ops = mergeOps(last.ops, ops)
+      last.size = opsSize(last.ops)
+      last.time = time
+    } else {
+      this.undoStack.push({ ops, label: options.label, coalesceKey: options.coalesce, time, size: opsSize(ops) })
+    }
+    this.trim()
+  }
+
+  /** Starts a group: everything recorded until the matching endGroup undoes as one step */
+  beginGroup(label?: string) {
+    if (this.groupDepth++ === 0) this.group = { ops: [], label, time: Date.now(), size: 0 }
+  }
+
+  endGroup() {
+    if (this.groupDepth === 0 || --this.groupDepth > 0) return
+    const group = this.group!
+    this.group = null
+    if (group.ops.length === 0) return
+    this.redoStack = []
+    this.undoStack.push({ ...group, size: opsSize(group.ops) })
+    this.trim()
+  }
+
+  /** Stops the last change from absorbing the next one, e.g. when the caret moves elsewhere */
+  breakCoalescing() {
+    const last = this.undoStack[this.undoStack.length - 1]
+    if (last) last.coalesceKey = undefined
+  }
+
+  /** The state with the last change undone, or undefined when there is nothing to undo */
+  undo(state: T): T | undefined {
+    const entry = this.undoStack.pop()
+    if (!entry) return undefined
+    entry.coalesceKey = undefined
+    this.redoStack.push(entry)
+    return applyPatch(state, entry.ops, 'undo')
+  }
+
+  redo(state: T): T | undefined {
+    const entry = this.redoStack.pop()
+    if (!entry) return undefined
+    this.undoStack.push(entry)
+    return applyPatch(state, entry.ops, 'redo')
+  }
+
+  clear() {
+    this.undoStack = []
+    this.redoStack = []
+    this.group = null
+    this.groupDepth = 0
+  }
+
+  // Drops the oldest steps beyond the caps, always keeping the latest one
+  private trim() {
+    let size = this.undoStack.reduce((total, entry) => total + entry.size, 0)
+    while (this.undoStack.length > 1 && (this.undoStack.length > this.maxEntries || size > this.maxSize)) {
+      size -= this.undoStack.shift()!.size
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Ctrl+Z for the focused window
+
+export interface UndoTarget {
+  undo: () => void
+  redo: () => void
+}
+
+const undoTargets = new Map<string, UndoTarget>()
+
+/** Lets the global Ctrl+Z / Ctrl+Shift+Z shortcuts reach a window's editor; returns the unregister function */
+export const registerUndoTarget = (windowId: string, target: UndoTarget) => {
+  undoTargets.set(windowId, target)
+  return () => {
+    if (undoTargets.get(windowId) === target) undoTargets.delete(windowId)
+  }
+}
+
+export const undoTargetFor = (windowId: string | null | undefined) => (windowId ? undoTargets.get(windowId) : undefined)
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PROFILES, ProfileError, uniqueUsername, validateDisplayName } from "./user-profiles";
+
+describe("profile names", () => {
+  it("tidies names and refuses empty, overlong or duplicate ones", () => {
+    expect(validateDisplayName("  Ada   Lovelace ", DEFAULT_PROFILES)).toBe("Ada Lovelace");
+    expect(() => validateDisplayName("   ", DEFAULT_PROFILES)).toThrow(ProfileError);
+    expect(() => validateDisplayName("x".repeat(40), DEFAULT_PROFILES)).toThrow(ProfileError);
+    expect(() => validateDisplayName("shreya", DEFAULT_PROFILES)).toThrow(/already/);
+    expect(validateDisplayName("Shreya", DEFAULT_PROFILES, "user2")).toBe("Shreya"); // renaming to itself
+  });
+
+  it("derives unique usernames", () => {
+    expect(uniqueUsername("Zoë Smith", DEFAULT_PROFILES)).toBe("zoesmith");
+    expect(uniqueUsername("Raheel", DEFAULT_PROFILES)).toBe("raheel2");
+    expect(uniqueUsername("🦊", DEFAULT_PROFILES)).toBe("user");
+  });
+});
@@ -0,0 +1,65 @@
+// Login profiles: who can sign in on this device, with their avatar and colours
+
+export interface ProfileTheme {
+  accentColor: string
+  primary: string
+  secondary: string
+}
+
+export interface UserProfile {
+  id: string
+  username: string
+  displayName: string
+  avatar: string // an emoji, or a data URL for an uploaded picture
+  theme: ProfileTheme
+  created: number
+}
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProfileError'
+  }
+}
+
+export const PROFILE_THEMES: Record<string, ProfileTheme> = {
+  violet: { accentColor: '#8b5cf6', primary: '#7c3aed', secondary: '#a855f7' },
+  pink: { accentColor: '#ec4899', primary: '#be185d', secondary: '#f472b6' },
+  blue: { accentColor: '#3b82f6', primary: '#1d4ed8', secondary: '#60a5fa' },
+  emerald: { accentColor: '#10b981', primary: '#047857', secondary: '#34d399' },
+  amber: { accentColor: '#f59e0b', primary: '#b45309', secondary: '#fbbf24' },
+  rose: { accentColor: '#f43f5e', primary: '#be123c', secondary: '#fb7185' },
+}
+
+export const PROFILE_AVATARS = ['👤', '👩‍💻', '🧑‍💻', '👨‍💻', '🦊', '🐱', '🐼', '🦄', '🚀', '🌙', '🎧', '🎮']
+
+export const MAX_DISPLAY_NAME_LENGTH = 32
+
+// The accounts the demo shipped with, so an existing machine keeps its users
+export const DEFAULT_PROFILES: UserProfile[] = [
+  { id: 'user1', username: 'suhaeb', displayName: 'Suhaeb', avatar: '👤', theme: PROFILE_THEMES.violet, created: 0 },
+  { id: 'user2', username: 'shreya', displayName: 'Shreya', avatar: '👩‍💻', theme: PROFILE_THEMES.pink, created: 0 },
+  { id: 'user3', username: 'raheel', displayName: 'Raheel', avatar: '🧑‍💻', theme: PROFILE_THEMES.blue, created: 0 },
+]
+
+export const isImageAvatar = (avatar: string) => avatar.startsWith('data:image/')
+
+/** Trims and checks a display name, throwing ProfileError when it can't be used */
+export const validateDisplayName = (name: string, profiles: UserProfile[], exceptId?: string) => {
+  const trimmed = name.trim().replace(/\s+/g, ' ')
+  if (!trimmed) throw new ProfileError('Enter a name')
+  if (trimmed.length > MAX_DISPLAY_NAME_LENGTH) throw new ProfileError(`Names can be at most ${MAX_DISPLAY_NAME_LENGTH} characters`)
+  if (profiles.some(p => p.id !== exceptId && p.displayName.toLowerCase() === trimmed.toLowerCase())) {
+    throw new ProfileError(`There's already a user called ${trimmed}`)
+  }
+  return trimmed
+}
+
+/** A lowercase handle derived from the display name, unique among the profiles */
+export const uniqueUsername = (displayName: string, profiles: UserProfile[]) => {
+  const base = displayName.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '').slice(0, 20) || 'user'
+  const taken = new Set(profiles.map(p => p.username))
+  let username = base
+  for (let n = 2; taken.has(username); n++) username = `${base}${n}`
+  return username
+}
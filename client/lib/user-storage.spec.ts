@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { clearUserData, migrateLegacyData, scopedKey } from "./user-storage";
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  keys() {
+    return [...this.items.keys()].sort();
+  }
+}
+
+describe("user storage", () => {
+  it("hands the global keys to the user who inherits them, without overwriting", () => {
+    const storage = new MemoryStorage();
+    storage.setItem("nyx-browser-history", "[old]");
+    storage.setItem("nyx-settings", "{old}");
+    storage.setItem("nyx-forge-storage:app-1", "{}");
+    storage.setItem("nyx-disclaimer-dismissed", "true");
+    storage.setItem(scopedKey("nyx-settings", "u1"), "{new}");
+
+    migrateLegacyData("u2", false, storage);
+    expect(storage.getItem("nyx-settings")).toBe("{old}");
+
+    migrateLegacyData("u1", true, storage);
+    expect(storage.keys()).toEqual([
+      "nyx-disclaimer-dismissed", // device-wide, stays global
+      scopedKey("nyx-browser-history", "u1"),
+      scopedKey("nyx-forge-storage:app-1", "u1"),
+      scopedKey("nyx-settings", "u1"),
+    ]);
+    expect(storage.getItem(scopedKey("nyx-settings", "u1"))).toBe("{new}");
+    expect(storage.getItem(scopedKey("nyx-browser-history", "u1"))).toBe("[old]");
+  });
+
+  it("moves Sam's per-user data into the namespace for every user", () => {
+    const storage = new MemoryStorage();
+    storage.setItem("nyx-sam:u2", "{sam}");
+    migrateLegacyData("u2", false, storage);
+    expect(storage.keys()).toEqual([scopedKey("nyx-sam", "u2")]);
+  });
+
+  it("clears only the deleted user's keys", () => {
+    const storage = new MemoryStorage();
+    storage.setItem(scopedKey("nyx-settings", "u1"), "1");
+    storage.setItem(scopedKey("nyx-settings", "u10"), "10");
+    storage.setItem(scopedKey("nyx-sam", "u1"), "1");
+    clearUserData("u1", storage);
+    expect(storage.keys()).toEqual([scopedKey("nyx-settings", "u10")]);
+  });
+});
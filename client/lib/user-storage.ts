@@ -0,0 +1,70 @@
+// Per-user localStorage. Apps read and write through `userStorage` with the
+// same keys as before; the keys are stored under the signed-in user's
+// namespace, so people sharing a machine don't see each other's data.
+
+export const GUEST_USER_ID = 'guest' // before anyone has signed in
+
+const NAMESPACE = 'nyx-user'
+
+/** Keys apps used to write globally; the first user to sign in inherits them */
+export const LEGACY_USER_KEYS = [
+  'nyx-settings',
+  'nyx-notepad-settings',
+  'nyx-browser-bookmarks',
+  'nyx-browser-history',
+  'nyx-browser-downloads',
+  'nyx-calculator-history',
+  'nyx-2048-game',
+  'nyx-2048-best',
+  'nyx-flappy-scores',
+  'nyx-runner-highscore',
+  'nyx-session',
+  'nyx-notifications',
+  'nyx-scheduler-last-run',
+]
+const LEGACY_USER_PREFIXES = ['nyx-forge-storage:']
+
+let activeUserId = GUEST_USER_ID
+
+export const setStorageUser = (userId: string) => {
+  activeUserId = userId
+}
+
+export const getStorageUser = () => activeUserId
+
+export const scopedKey = (key: string, userId = activeUserId) => `${NAMESPACE}:${userId}:${key}`
+
+/** localStorage, namespaced to whoever is signed in */
+export const userStorage = {
+  getItem: (key: string) => localStorage.getItem(scopedKey(key)),
+  setItem: (key: string, value: string) => localStorage.setItem(scopedKey(key), value),
+  removeItem: (key: string) => localStorage.removeItem(scopedKey(key)),
+}
+
+const keysOf = (storage: Storage) => Array.from({ length: storage.length }, (_, i) => storage.key(i)).filter(Boolean)
+
+const moveKey = (storage: Storage, from: string, to: string) => {
+  if (storage.getItem(to) === null) storage.setItem(to, storage.getItem(from))
+  storage.removeItem(from)
+}
+
+/**
+ * Moves a user's data from older layouts into their namespace, never
+ * overwriting. Only the user who inherits the pre-profile data (the first to
+ * sign in) takes the global keys.
+ */
+export const migrateLegacyData = (userId: string, inheritGlobalKeys: boolean, storage: Storage = localStorage) => {
+  if (inheritGlobalKeys) {
+    keysOf(storage)
+      .filter(key => LEGACY_USER_KEYS.includes(key) || LEGACY_USER_PREFIXES.some(prefix => key.startsWith(prefix)))
+      .forEach(key => moveKey(storage, key, scopedKey(key, userId)))
+  }
+  // Sam's data was briefly kept under `nyx-sam:<user id>`
+  if (storage.getItem(`nyx-sam:${userId}`) !== null) moveKey(storage, `nyx-sam:${userId}`, scopedKey('nyx-sam', userId))
+}
+
+/** Removes everything stored for a user */
+export const clearUserData = (userId: string, storage: Storage = localStorage) => {
+  const prefix = scopedKey('', userId)
+  keysOf(storage).filter(key => key.startsWith(prefix)).forEach(key => storage.removeItem(key))
+}
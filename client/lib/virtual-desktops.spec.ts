@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DESKTOPS,
+  DesktopError,
+  createDesktop,
+  findDesktop,
+  moveItem,
+  replacementDesktopId,
+  validateDesktopName,
+  type VirtualDesktop,
+} from "./virtual-desktops";
+
+const named = (...names: string[]): VirtualDesktop[] =>
+  names.map((name, i) => ({ ...DEFAULT_DESKTOPS[0], id: `d${i}`, name }));
+
+describe("validateDesktopName", () => {
+  it("trims and collapses whitespace", () => {
+    expect(validateDesktopName("  Deep   Work ", [])).toBe("Deep Work");
+  });
+
+  it("rejects empty, overlong and duplicate names", () => {
+    const desktops = named("Work", "Play");
+    expect(() => validateDesktopName("   ", desktops)).toThrow(DesktopError);
+    expect(() => validateDesktopName("x".repeat(25), desktops)).toThrow(DesktopError);
+    expect(() => validateDesktopName("work", desktops)).toThrow(/already a desktop/);
+  });
+
+  it("lets a desktop keep its own name", () => {
+    expect(validateDesktopName("WORK", named("Work"), "d0")).toBe("WORK");
+  });
+});
+
+describe("createDesktop", () => {
+  it("numbers new desktops past the ones taken", () => {
+    const desktop = createDesktop(named("Desktop 1", "Desktop 3"));
+    expect(desktop.name).toBe("Desktop 4");
+    expect(desktop.wallpaper).toBe("space");
+    expect(desktop.iconLayout).toEqual({});
+  });
+
+  it("gives every desktop a fresh id", () => {
+    expect(createDesktop([]).id).not.toBe(createDesktop([]).id);
+  });
+
+  it("validates a given name", () => {
+    expect(createDesktop([], " Music ").name).toBe("Music");
+    expect(() => createDesktop(named("Music"), "music")).toThrow(DesktopError);
+  });
+});
+
+describe("moveItem", () => {
+  it("moves an item forwards and backwards", () => {
+    expect(moveItem(["a", "b", "c", "d"], 0, 2)).toEqual(["b", "c", "a", "d"]);
+    expect(moveItem(["a", "b", "c", "d"], 3, 1)).toEqual(["a", "d", "b", "c"]);
+  });
+
+  it("clamps the target into the list", () => {
+    expect(moveItem(["a", "b", "c"], 1, 10)).toEqual(["a", "c", "b"]);
+    expect(moveItem(["a", "b", "c"], 1, -4)).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("replacementDesktopId", () => {
+  const desktops = named("A", "B", "C");
+
+  it("prefers the desktop before the removed one", () => {
+    expect(replacementDesktopId(desktops, "d1", new Set(["d0", "d2"]))).toBe("d0");
+  });
+
+  it("falls back to the one after when the first is removed", () => {
+    expect(replacementDesktopId(desktops, "d0", new Set(["d1", "d2"]))).toBe("d1");
+  });
+
+  it("skips neighbours that were removed too", () => {
+    expect(replacementDesktopId(desktops, "d2", new Set(["d0"]))).toBe("d0");
+  });
+});
+
+describe("findDesktop", () => {
+  const desktops = named("Work", "Play");
+
+  it("finds desktops by name, ignoring case", () => {
+    expect(findDesktop(desktops, " play ")?.id).toBe("d1");
+  });
+
+  it("finds desktops by number", () => {
+    expect(findDesktop(desktops, "1")?.id).toBe("d0");
+    expect(findDesktop(desktops, "3")).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+// Virtual desktops: named workspaces, each with its own wallpaper, desktop icon
+// arrangement and window layout. Windows refer to their desktop by id, so
+// renaming or reordering desktops never moves a window.
+
+import { DEFAULT_SPLIT_RATIO } from '@/lib/window-layout'
+
+export type DesktopWallpaperId = 'space' | 'aurora' | 'sunset' | 'ocean' | 'forest' | 'midnight'
+
+export interface DesktopLayout {
+  tiling: boolean // arrange every window on the desktop in a grid
+  splitRatio: number // width of the left column of snapped windows, 0..1
+}
+
+export interface VirtualDesktop {
+  id: string
+  name: string
+  wallpaper: DesktopWallpaperId
+  iconLayout: Record<string, { x: number; y: number }> // icon id → position, saved when leaving the desktop
+  layout: DesktopLayout
+}
+
+export class DesktopError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DesktopError'
+  }
+}
+
+// 'space' is the animated SpaceWallpaper; the rest are drawn over it
+export const DESKTOP_WALLPAPERS: Record<DesktopWallpaperId, { name: string; background?: string }> = {
+  space: { name: 'Deep Space' },
+  aurora: { name: 'Aurora', background: 'linear-gradient(160deg, #022c22 0%, #065f46 35%, #4c1d95 75%, #0f172a 100%)' },
+  sunset: { name: 'Sunset', background: 'linear-gradient(180deg, #1e1b4b 0%, #9d174d 55%, #f59e0b 100%)' },
+  ocean: { name: 'Ocean', background: 'linear-gradient(200deg, #0c4a6e 0%, #075985 40%, #0f172a 100%)' },
+  forest: { name: 'Forest', background: 'linear-gradient(170deg, #14532d 0%, #1a2e05 60%, #0c0a09 100%)' },
+  midnight: { name: 'Midnight', background: 'radial-gradient(ellipse at top, #312e81 0%, #0f172a 60%, #020617 100%)' },
+}
+
+export const MAX_DESKTOP_NAME_LENGTH = 24
+export const DEFAULT_DESKTOP_LAYOUT: DesktopLayout = { tiling: false, splitRatio: DEFAULT_SPLIT_RATIO }
+
+const newDesktop = (id: string, name: string): VirtualDesktop => ({
+  id,
+  name,
+  wallpaper: 'space',
+  iconLayout: {},
+  layout: DEFAULT_DESKTOP_LAYOUT,
+})
+
+// Fixed ids, so sessions saved before desktops had ids map onto the same ones
+export const DEFAULT_DESKTOPS: VirtualDesktop[] = [newDesktop('desktop-1', 'Desktop 1'), newDesktop('desktop-2', 'Desktop 2')]
+
+/** Trims and checks a desktop name, throwing DesktopError when it can't be used */
+export const validateDesktopName = (name: string, desktops: VirtualDesktop[], exceptId?: string) => {
+  const trimmed = name.trim().replace(/\s+/g, ' ')
+  if (!trimmed) throw new DesktopError('Enter a name')
+  if (trimmed.length > MAX_DESKTOP_NAME_LENGTH) throw new DesktopError(`Names can be at most ${MAX_DESKTOP_NAME_LENGTH} characters`)
+  if (desktops.some(d => d.id !== exceptId && d.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new DesktopError(`There's already a desktop called ${trimmed}`)
+  }
+  return trimmed
+}
+
+export const createDesktop = (desktops: VirtualDesktop[], name?: string): VirtualDesktop => {
+  const taken = new Set(desktops.map(d => d.name.toLowerCase()))
+  let number = desktops.length + 1
+  while (taken.has(`desktop ${number}`)) number++
+  return newDesktop(
+    `desktop-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name === undefined ? `Desktop ${number}` : validateDesktopName(name, desktops),
+  )
+}
+
+/** The list with the item at `from` moved to `to`, both clamped to the list */
+export const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items]
+  const [item] = result.splice(Math.max(0, Math.min(from, items.length - 1)), 1)
+  result.splice(Math.max(0, Math.min(to, result.length)), 0, item)
+  return result
+}
+
+/** Where a removed desktop's windows go: the desktop before it, or after it when it was first */
+export const replacementDesktopId = (desktops: VirtualDesktop[], removedId: string, remainingIds: Set<string>) => {
+  const index = desktops.findIndex(d => d.id === removedId)
+  const before = desktops.slice(0, Math.max(0, index)).reverse().find(d => remainingIds.has(d.id))
+  const after = desktops.slice(index + 1).find(d => remainingIds.has(d.id))
+  return (before ?? after)?.id ?? null
+}
+
+/** Finds a desktop by name or by its number counting from 1, as Sam or the user would say it */
+export const findDesktop = (desktops: VirtualDesktop[], reference: string) => {
+  const text = reference.trim().toLowerCase()
+  const number = /^\d+$/.test(text) ? Number(text) : NaN
+  return desktops.find(d => d.name.toLowerCase() === text) ?? (Number.isInteger(number) ? desktops[number - 1] : undefined)
+}
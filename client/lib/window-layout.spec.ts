@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  SNAP_GAP,
+  clampSplitRatio,
+  detectSnapTarget,
+  nextSnapTarget,
+  rectIndexAt,
+  snapZoneRect,
+  tileGrid,
+} from "./window-layout";
+
+const area = { x: 0, y: 0, width: 1200, height: 800 };
+
+describe("snap zones", () => {
+  it("splits halves and quarters at the split ratio with a gap between", () => {
+    expect(snapZoneRect("left", area)).toEqual({ x: 0, y: 0, width: 596, height: 800 });
+    expect(snapZoneRect("right", area)).toEqual({ x: 604, y: 0, width: 596, height: 800 });
+    expect(snapZoneRect("bottom-right", area, 0.25)).toEqual({ x: 304, y: 404, width: 896, height: 396 });
+    expect(snapZoneRect("top-left", area, 0.25)).toEqual({ x: 0, y: 0, width: 296, height: 396 });
+  });
+
+  it("divides thirds evenly regardless of the split", () => {
+    const thirds = (["left-third", "center-third", "right-third"] as const).map(zone => snapZoneRect(zone, area, 0.7));
+    expect(thirds.map(r => r.width)).toEqual([395, 395, 395]);
+    expect(thirds[2].x + thirds[2].width).toBe(1200);
+    expect(thirds[1].x - (thirds[0].x + thirds[0].width)).toBe(SNAP_GAP);
+  });
+
+  it("follows the work area when the viewport changes", () => {
+    const shrunk = { x: 0, y: 32, width: 600, height: 500 };
+    expect(snapZoneRect("right", shrunk)).toEqual({ x: 304, y: 32, width: 296, height: 500 });
+  });
+
+  it("keeps the split ratio within bounds", () => {
+    expect(clampSplitRatio(0.05)).toBe(0.2);
+    expect(clampSplitRatio(0.95)).toBe(0.8);
+    expect(clampSplitRatio(Number.NaN)).toBe(0.5);
+  });
+});
+
+describe("detectSnapTarget", () => {
+  it("maps screen edges and corners to zones", () => {
+    expect(detectSnapTarget({ x: 5, y: 400 }, area)).toBe("left");
+    expect(detectSnapTarget({ x: 1195, y: 400 }, area)).toBe("right");
+    expect(detectSnapTarget({ x: 5, y: 20 }, area)).toBe("top-left");
+    expect(detectSnapTarget({ x: 1195, y: 790 }, area)).toBe("bottom-right");
+    expect(detectSnapTarget({ x: 600, y: 5 }, area)).toBe("maximize");
+    expect(detectSnapTarget({ x: 100, y: 795 }, area)).toBe("left-third");
+    expect(detectSnapTarget({ x: 600, y: 795 }, area)).toBe("center-third");
+    expect(detectSnapTarget({ x: 600, y: 400 }, area)).toBeNull();
+  });
+});
+
+describe("nextSnapTarget", () => {
+  it("goes from halves to quarters and back like Windows", () => {
+    expect(nextSnapTarget(null, "left")).toBe("left");
+    expect(nextSnapTarget("left", "up")).toBe("top-left");
+    expect(nextSnapTarget("top-left", "down")).toBe("left");
+    expect(nextSnapTarget("top-left", "right")).toBe("top-right");
+    expect(nextSnapTarget("left", "right")).toBeNull();
+    expect(nextSnapTarget(null, "up")).toBe("maximize");
+    expect(nextSnapTarget("maximize", "down")).toBeNull();
+    expect(nextSnapTarget("center-third", "left")).toBe("left");
+  });
+});
+
+describe("tileGrid", () => {
+  it("fills the area with a near-square grid", () => {
+    expect(tileGrid(1, area)).toEqual([area]);
+    const four = tileGrid(4, area);
+    expect(four.map(r => [r.x, r.y])).toEqual([[0, 0], [604, 0], [0, 404], [604, 404]]);
+  });
+
+  it("stretches a short last row across the width", () => {
+    const three = tileGrid(3, area);
+    expect(three[2]).toEqual({ x: 0, y: 404, width: 1200, height: 396 });
+    const five = tileGrid(5, area);
+    expect(five.slice(3).map(r => r.width)).toEqual([596, 596]);
+  });
+
+  it("finds the tile under a point", () => {
+    const rects = tileGrid(4, area);
+    expect(rectIndexAt({ x: 700, y: 500 }, rects)).toBe(3);
+    expect(rectIndexAt({ x: 600, y: 100 }, rects)).toBe(-1); // in the gap
+  });
+});
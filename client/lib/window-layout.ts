@@ -0,0 +1,140 @@
+// Window layout engine: where snapped and tiled windows go inside the work
+// area (the screen minus status bar, taskbar and navigation). Windows store a
+// zone rather than pixels, so every layout follows the viewport when it resizes.
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type SnapZone =
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'left-third'
+  | 'center-third'
+  | 'right-third'
+
+export type SnapTarget = SnapZone | 'maximize'
+export type SnapDirection = 'left' | 'right' | 'up' | 'down'
+
+export const SNAP_GAP = 8
+export const SNAP_EDGE_THRESHOLD = 32
+const SNAP_CORNER_SIZE = 120 // how far along an edge still counts as its corner
+
+export const DEFAULT_SPLIT_RATIO = 0.5
+export const MIN_SPLIT_RATIO = 0.2
+export const MAX_SPLIT_RATIO = 0.8
+
+export const clampSplitRatio = (ratio: number) =>
+  Number.isFinite(ratio) ? Math.min(MAX_SPLIT_RATIO, Math.max(MIN_SPLIT_RATIO, ratio)) : DEFAULT_SPLIT_RATIO
+
+const LEFT_COLUMN: SnapZone[] = ['left', 'top-left', 'bottom-left']
+const RIGHT_COLUMN: SnapZone[] = ['right', 'top-right', 'bottom-right']
+
+/** Zones either side of the split divider, whose widths follow the split ratio */
+export const isLeftColumn = (zone: SnapZone) => LEFT_COLUMN.includes(zone)
+export const isRightColumn = (zone: SnapZone) => RIGHT_COLUMN.includes(zone)
+
+const round = ({ x, y, width, height }: Rect): Rect => ({
+  x: Math.round(x),
+  y: Math.round(y),
+  width: Math.round(width),
+  height: Math.round(height),
+})
+
+export const snapZoneRect = (zone: SnapZone, area: Rect, splitRatio = DEFAULT_SPLIT_RATIO): Rect => {
+  const split = area.width * clampSplitRatio(splitRatio)
+  const left = { x: area.x, width: split - SNAP_GAP / 2 }
+  const right = { x: area.x + split + SNAP_GAP / 2, width: area.width - split - SNAP_GAP / 2 }
+  const full = { y: area.y, height: area.height }
+  const top = { y: area.y, height: area.height / 2 - SNAP_GAP / 2 }
+  const bottom = { y: area.y + area.height / 2 + SNAP_GAP / 2, height: area.height / 2 - SNAP_GAP / 2 }
+  const third = (area.width - 2 * SNAP_GAP) / 3
+
+  switch (zone) {
+    case 'left': return round({ ...left, ...full })
+    case 'right': return round({ ...right, ...full })
+    case 'top-left': return round({ ...left, ...top })
+    case 'top-right': return round({ ...right, ...top })
+    case 'bottom-left': return round({ ...left, ...bottom })
+    case 'bottom-right': return round({ ...right, ...bottom })
+    case 'left-third': return round({ x: area.x, width: third, ...full })
+    case 'center-third': return round({ x: area.x + third + SNAP_GAP, width: third, ...full })
+    case 'right-third': return round({ x: area.x + 2 * (third + SNAP_GAP), width: third, ...full })
+  }
+}
+
+/**
+ * What dropping a dragged window at `pointer` snaps it to: halves and quarters
+ * along the side edges, maximized at the top, thirds along the bottom.
+ */
+export const detectSnapTarget = (
+  pointer: { x: number; y: number },
+  area: Rect,
+  threshold = SNAP_EDGE_THRESHOLD,
+): SnapTarget | null => {
+  const right = area.x + area.width
+  const bottom = area.y + area.height
+  const corner = Math.min(SNAP_CORNER_SIZE, area.height / 4)
+
+  if (pointer.x <= area.x + threshold || pointer.x >= right - threshold) {
+    const side = pointer.x <= area.x + threshold ? 'left' : 'right'
+    if (pointer.y <= area.y + corner) return `top-${side}`
+    if (pointer.y >= bottom - corner) return `bottom-${side}`
+    return side
+  }
+  if (pointer.y <= area.y + threshold) return 'maximize'
+  if (pointer.y >= bottom - threshold) {
+    const column = Math.floor(((pointer.x - area.x) / area.width) * 3)
+    return (['left-third', 'center-third', 'right-third'] as const)[Math.min(2, Math.max(0, column))]
+  }
+  return null
+}
+
+/**
+ * Where a keyboard snap in `direction` takes a window, Windows style: left then
+ * up makes the top-left quarter, and the opposite direction undoes a half.
+ * null means back to a normal window.
+ */
+export const nextSnapTarget = (current: SnapTarget | null, direction: SnapDirection): SnapTarget | null => {
+  if (current === 'maximize') return direction === 'down' ? null : direction === 'up' ? 'maximize' : direction
+  if (!current || current.endsWith('third')) {
+    return direction === 'up' ? 'maximize' : direction === 'down' ? null : direction
+  }
+
+  const side = isLeftColumn(current) ? 'left' : 'right'
+  const row = current.startsWith('top') ? 'top' : current.startsWith('bottom') ? 'bottom' : null
+
+  if (direction === 'left' || direction === 'right') {
+    if (direction === side) return current
+    // Across the middle: a half becomes a normal window again, a quarter moves over
+    return row ? `${row}-${direction}` : null
+  }
+  if (!row) return `${direction === 'up' ? 'top' : 'bottom'}-${side}`
+  return (row === 'top') === (direction === 'up') ? current : side
+}
+
+/** A near-square grid for tiling `count` windows, the last row stretched to fill the width */
+export const tileGrid = (count: number, area: Rect, gap = SNAP_GAP): Rect[] => {
+  if (count <= 0) return []
+  const columns = Math.ceil(Math.sqrt(count))
+  const rows = Math.ceil(count / columns)
+  const height = (area.height - gap * (rows - 1)) / rows
+
+  return Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / columns)
+    const inRow = row === rows - 1 ? count - columns * (rows - 1) : columns
+    const width = (area.width - gap * (inRow - 1)) / inRow
+    const column = i - row * columns
+    return round({ x: area.x + column * (width + gap), y: area.y + row * (height + gap), width, height })
+  })
+}
+
+export const rectIndexAt = (point: { x: number; y: number }, rects: Rect[]) =>
+  rects.findIndex(r => point.x >= r.x && point.x < r.x + r.width && point.y >= r.y && point.y < r.y + r.height)
@@ -0,0 +1,183 @@
+// Minimal ZIP support for office formats (DOCX, PPTX). Written entries are
+// stored uncompressed, which every reader accepts; reading also inflates
+// deflated entries, which is what office suites write, with the platform's
+// DecompressionStream.
+
+export interface ZipEntry {
+  name: string // path inside the archive, with forward slashes
+  data: Uint8Array | string // strings are written as UTF-8
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipError'
+  }
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, the only timestamps the basic ZIP headers carry
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Uint8Array => {
+  const { time, date } = dosDateTime(modified)
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true) // version needed
+    localView.setUint16(6, 0x0800, true) // names are UTF-8
+    localView.setUint16(8, 0, true) // stored
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(data, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true) // made by
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, 0x0800, true)
+    centralView.setUint16(10, 0, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  })
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const zip = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  ;[...locals, ...centrals, end].forEach(part => {
+    zip.set(part, position)
+    position += part.length
+  })
+  return zip
+}
+
+// No entry of a document inflates past this, whatever its header claims
+const MAX_ENTRY_SIZE = 256 * 1024 * 1024
+
+// Inflates at most `limit` bytes, so a small archive can't expand into gigabytes
+const inflateRaw = async (data: Uint8Array, limit: number, name: string) => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > limit) {
+      await reader.cancel()
+      throw new ZipError(`The ZIP entry ${name} is larger than it claims to be`)
+    }
+    chunks.push(value)
+  }
+  const inflated = new Uint8Array(size)
+  let position = 0
+  chunks.forEach(chunk => {
+    inflated.set(chunk, position)
+    position += chunk.length
+  })
+  return inflated
+}
+
+/** Entries of a ZIP archive by name, read through its central directory */
+export const readZip = async (zip: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  // The end-of-central-directory record sits before a comment of up to 64 KiB
+  let end = zip.length - 22
+  while (end >= Math.max(0, zip.length - 22 - 0xffff) && view.getUint32(end, true) !== 0x06054b50) end--
+  if (end < 0 || zip.length < 22 || view.getUint32(end, true) !== 0x06054b50) throw new ZipError('Not a ZIP archive')
+
+  const count = view.getUint16(end + 10, true)
+  const entries = new Map<string, Uint8Array>()
+  let offset = view.getUint32(end + 16, true)
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || view.getUint32(offset, true) !== 0x02014b50) throw new ZipError('The ZIP directory is damaged')
+    const method = view.getUint16(offset + 10, true)
+    const crc = view.getUint32(offset + 16, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+    if (name.endsWith('/')) continue
+
+    // The local header repeats the name and may carry a different extra field
+    if (localOffset + 30 > zip.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+      throw new ZipError(`The ZIP entry ${name} is damaged`)
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    if (start + compressedSize > zip.length) throw new ZipError(`The ZIP entry ${name} is damaged`)
+    if (size > MAX_ENTRY_SIZE) throw new ZipError(`The ZIP entry ${name} is too large`)
+    const raw = zip.subarray(start, start + compressedSize)
+    let data: Uint8Array
+    if (method === 0) data = raw
+    else if (method === 8) {
+      try {
+        data = await inflateRaw(raw, size, name)
+      } catch (error) {
+        if (error instanceof ZipError) throw error
+        throw new ZipError(`The ZIP entry ${name} can't be decompressed`)
+      }
+    } else throw new ZipError(`The ZIP entry ${name} uses an unsupported compression method`)
+    if (crc32(data) !== crc) throw new ZipError(`The ZIP entry ${name} is corrupt`)
+    entries.set(name, data)
+  }
+  return entries
+}
@@ -1,38 +1,64 @@
-// AI Service for Nyx OS - Robust, env-configured, with offline fallback
+// AI Service for Nyx OS - talks to the server's AI proxy, with offline fallback
+import { runTool, runToolCall, toolDefinition, type AITool, type ConfirmTool } from '@/lib/ai-tools'
+import { SAM_TOOLS } from '@/lib/sam-tools'
+import { agendaText } from '@/lib/calendar'
+import { useCalendarStore } from '@/store/calendar-store'
+import type { AIChatMessage, AIChatRequest, AIChatStreamEvent, AIErrorResponse, AISpeechRequest, AIToolCall } from '@shared/api'
+
 export interface AIResponse {
   text: string
   audio?: string
   emotion?: string
 }
 
-export interface AIMessage {
-  role: 'user' | 'assistant' | 'system'
-  content: string
+export type AIMessage = AIChatMessage
+
+export interface AIStreamOptions {
+  useCodeModel?: boolean
+  signal?: AbortSignal
+  /** Asked before a destructive tool runs; without it those tools are refused */
+  confirm?: ConfirmTool
 }
 
-const getEnv = (key: string): string | undefined => {
-  // Vite-style env
-  // @ts-ignore
-  if (typeof import.meta !== 'undefined' && import.meta.env && key in import.meta.env) {
-    // @ts-ignore
-    return import.meta.env[key]
-  }
-  // Tauri/Node-like env
-  // @ts-ignore
-  if (typeof process !== 'undefined' && process.env && key in process.env) {
-    // @ts-ignore
-    return process.env[key]
+const CHAT_ENDPOINT = '/api/ai/chat'
+const SPEECH_ENDPOINT = '/api/ai/speech'
+const HISTORY_LIMIT = 12
+const MAX_TOOL_ROUNDS = 4
+
+// Parses a newline-delimited JSON body as it arrives
+async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as T
+      }
+      if (done) return
+    }
+  } finally {
+    reader.cancel().catch(() => {})
   }
-  return undefined
 }
 
-const OPENROUTER_API_KEY = getEnv('VITE_OPENROUTER_API_KEY') || getEnv('OPENROUTER_API_KEY')
-const ELEVENLABS_API_KEY = getEnv('VITE_ELEVENLABS_API_KEY') || getEnv('ELEVENLABS_API_KEY')
-const VOICE_ID = getEnv('VITE_ELEVENLABS_VOICE_ID') || '21m00Tcm4TlvDq8ikWAM' // default voice id if configured
+// Emits canned text word by word so offline replies render like streamed ones
+async function* streamText(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    if (signal?.aborted) return
+    await new Promise(resolve => setTimeout(resolve, 30))
+    yield word
+  }
+}
 
 class AIService {
   private isVoiceMode = false
   private currentConversation: AIMessage[] = []
+  private speechAvailable = true // cleared when the server has no speech provider
 
   constructor() {
     this.initializeServices()
@@ -40,86 +66,161 @@ class AIService {
 
   private async initializeServices() {
     console.log('Nyx OS AI initialized')
-    if (!OPENROUTER_API_KEY) console.warn('OpenRouter API key not configured. Using offline fallback.')
-    if (!ELEVENLABS_API_KEY) console.warn('ElevenLabs API key not configured. Voice output disabled.')
   }
 
   setVoiceMode(enabled: boolean) {
     this.isVoiceMode = enabled
   }
 
-  async sendMessage(message: string, useCodeModel = false): Promise<AIResponse> {
-    try {
-      this.currentConversation.push({ role: 'user', content: message })
-
-      const deviceInfo = this.getDeviceContext()
-      const systemMessage: AIMessage = {
-        role: 'system',
-        content:
-          `You are Nyx AI, the built-in assistant of Nyx OS. Be concise, friendly, and highly practical. ` +
-          `Adapt to the user's device and context. Prefer step-by-step guidance only when needed. Device: ${deviceInfo}.`
+  /**
+   * Streams Sam's reply as text deltas. Everything goes through our server's
+   * /api/ai proxy, so provider keys never reach the browser. Tool calls the
+   * model makes are run between turns (destructive ones only after `confirm`
+   * approves) and their results fed back until the model answers in text.
+   * When the proxy is unreachable the offline responder streams through the
+   * same interface; aborting `signal` ends the iteration and keeps the partial
+   * reply in history.
+   */
+  async *streamMessage(message: string, options: AIStreamOptions = {}): AsyncGenerator<string> {
+    const { useCodeModel = false, signal, confirm } = options
+    const tools = useCodeModel ? [] : SAM_TOOLS
+    this.currentConversation.push({ role: 'user', content: message })
+
+    let replied = false
+    const toolOutputs: string[] = []
+    for (let round = 0; round < MAX_TOOL_ROUNDS && !signal?.aborted; round++) {
+      const turn = yield* this.streamTurn(useCodeModel, tools, signal)
+      replied ||= Boolean(turn.text)
+      if (turn.text || turn.toolCalls.length) {
+        this.currentConversation.push({
+          role: 'assistant',
+          content: turn.text,
+          ...(turn.toolCalls.length ? { toolCalls: turn.toolCalls } : {})
+        })
       }
+      if (turn.toolCalls.length === 0) break
 
-      if (!OPENROUTER_API_KEY) {
-        return this.localRespond(message)
+      for (const call of turn.toolCalls) {
+        const result = await runToolCall(tools, call, confirm)
+        toolOutputs.push(result.output)
+        this.currentConversation.push({ role: 'tool', toolCallId: call.id, content: result.output })
       }
+    }
 
-      const model = useCodeModel ? 'qwen/qwen3-coder:free' : 'google/gemma-3-12b-it:free'
+    // Only fall back when nothing arrived; a cut-off reply is kept as is
+    if (replied || signal?.aborted) return
+    const fallback = toolOutputs.length ? `${toolOutputs.join('. ')}.` : this.localRespond(message).text
+    let reply = ''
+    for await (const delta of streamText(fallback, signal)) {
+      reply += delta
+      yield delta
+    }
+    if (reply) this.currentConversation.push({ role: 'assistant', content: reply })
+  }
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+  // One request to the proxy: yields text as it arrives, returns the text and any tool calls
+  private async *streamTurn(
+    useCodeModel: boolean,
+    tools: readonly AITool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<string, { text: string; toolCalls: AIToolCall[] }> {
+    const request: AIChatRequest = {
+      messages: [this.systemMessage(tools.length > 0), ...this.recentConversation()],
+      model: useCodeModel ? 'code' : 'chat',
+      temperature: 0.7,
+      maxTokens: 600,
+      ...(tools.length ? { tools: tools.map(toolDefinition) } : {}),
+      stream: true
+    }
+
+    let text = ''
+    const toolCalls: AIToolCall[] = []
+    try {
+      const response = await fetch(CHAT_ENDPOINT, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : 'http://localhost',
-          'X-Title': 'Nyx OS'
-        },
-        body: JSON.stringify({
-          model,
-          messages: [systemMessage, ...this.currentConversation.slice(-10)],
-          temperature: 0.7,
-          max_tokens: 600,
-          stream: false
-        })
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal
       })
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.warn('OpenRouter API error:', response.status, errorText)
-        return this.localRespond(message)
-      }
-
-      const data = await response.json()
-      const aiText = data.choices?.[0]?.message?.content || 'Sorry, I had trouble understanding that.'
-      this.currentConversation.push({ role: 'assistant', content: aiText })
-
-      const result: AIResponse = { text: aiText }
-      if (this.isVoiceMode && ELEVENLABS_API_KEY) {
-        try {
-          result.audio = await this.generateSpeech(aiText)
-        } catch (err) {
-          console.warn('Voice synthesis failed:', err)
+      if (response.ok && response.body) {
+        for await (const event of readNdjson<AIChatStreamEvent>(response.body)) {
+          if (event.type === 'delta') {
+            text += event.text
+            yield event.text
+          } else if (event.type === 'tool_call') {
+            toolCalls.push(event.call)
+          } else if (event.type === 'error') {
+            throw new Error(event.error)
+          }
         }
+      } else {
+        const error: AIErrorResponse | null = await response.json().catch(() => null)
+        console.warn('AI proxy error:', response.status, error?.error)
       }
-      return result
     } catch (error) {
-      console.warn('AI Service error, using fallback:', error)
-      return this.localRespond(message)
+      if (!signal?.aborted) console.warn('AI stream failed:', error)
+    }
+    return { text, toolCalls }
+  }
+
+  private systemMessage(withTools: boolean): AIMessage {
+    const deviceInfo = this.getDeviceContext()
+    const now = new Date()
+    return {
+      role: 'system',
+      content:
+        `You are Nyx AI, the built-in assistant of Nyx OS. Be concise, friendly, and highly practical. ` +
+        `Adapt to the user's device and context. Prefer step-by-step guidance only when needed. Device: ${deviceInfo}.` +
+        (withTools
+          ? ` Use the provided tools to set alarms, check and schedule calendar events, remember facts, open apps, change the theme or switch desktops; ` +
+            `never claim an action succeeded unless a tool result says so. Local time: ${now.toString()}.`
+          : '')
+    }
+  }
+
+  // The last few turns, never starting with tool results cut off from the call that produced them
+  private recentConversation(): AIMessage[] {
+    const recent = this.currentConversation.slice(-HISTORY_LIMIT)
+    while (recent[0]?.role === 'tool') recent.shift()
+    return recent
+  }
+
+  // Whole-reply convenience for callers that don't render partial text
+  async sendMessage(message: string, useCodeModel = false): Promise<AIResponse> {
+    let text = ''
+    for await (const delta of this.streamMessage(message, { useCodeModel })) {
+      text += delta
+    }
+    const result: AIResponse = { text: text || 'Sorry, I had trouble understanding that.' }
+    const audio = await this.voiceFor(result.text)
+    if (audio) result.audio = audio
+    return result
+  }
+
+  /** Spoken version of a reply when voice mode is on and the server can synthesize speech */
+  async voiceFor(text: string): Promise<string | undefined> {
+    if (!this.isVoiceMode || !this.speechAvailable) return undefined
+    try {
+      return (await this.generateSpeech(text)) || undefined
+    } catch (err) {
+      console.warn('Voice synthesis failed:', err)
+      return undefined
     }
   }
 
   private async generateSpeech(text: string): Promise<string> {
-    if (!ELEVENLABS_API_KEY) return ''
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${VOICE_ID}`, {
+    const request: AISpeechRequest = { text: text.slice(0, 5000) }
+    const response = await fetch(SPEECH_ENDPOINT, {
       method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': ELEVENLABS_API_KEY
-      },
-      body: JSON.stringify({ text, model_id: 'eleven_monolingual_v1', voice_settings: { stability: 0.5, similarity_boost: 0.5 } })
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
     })
-    if (!response.ok) throw new Error(`ElevenLabs error: ${response.status}`)
+    if (response.status === 503) {
+      this.speechAvailable = false
+      return ''
+    }
+    if (!response.ok) throw new Error(`Speech proxy error: ${response.status}`)
     const audioBlob = await response.blob()
     return URL.createObjectURL(audioBlob)
   }
@@ -131,11 +232,10 @@ class AIService {
 
   async processVoiceCommand(command: string): Promise<void> {
     const lower = command.toLowerCase()
-    if (lower.includes('open') && lower.includes('browser')) {
-      window.dispatchEvent(new CustomEvent('nyx:open-browser'))
-    } else if (lower.includes('open') && lower.includes('settings')) {
-      window.dispatchEvent(new CustomEvent('nyx:open-settings'))
-    } else if (lower.includes('change wallpaper')) {
+    const openMatch = lower.match(/\b(?:open|launch|start)\s+(?:the\s+|my\s+)?(.+)/)
+    if (openMatch && (await runTool(SAM_TOOLS, 'open_app', { name: openMatch[1] })).ok) return
+
+    if (lower.includes('change wallpaper')) {
       window.dispatchEvent(new CustomEvent('nyx:change-wallpaper'))
     } else if (lower.includes('voice mode off') || lower.includes('silent mode')) {
       this.setVoiceMode(false)
@@ -160,7 +260,9 @@ class AIService {
     if (text.includes('task') || text.includes('todo')) {
       return { text: 'Create a task with: title, priority, due date. I can auto-prioritize based on urgency and calendar conflicts.' }
     }
-    if (text.includes('calendar') || text.includes('schedule')) {
+    if (text.includes('today') || text.includes('calendar') || text.includes('schedule')) {
+      const { events, loaded } = useCalendarStore.getState()
+      if (loaded) return { text: `Here's your day:\n${agendaText(events, new Date())}` }
       return { text: 'Your calendar is open on Chrono. I can suggest optimal times avoiding conflicts and focus blocks.' }
     }
     return { text: 'Got it. I will keep it tight and helpful. Ask me to open apps, summarize notes, or draft content.' }
@@ -0,0 +1,60 @@
+import { useDeviceAuthStore } from '@/store/device-auth-store'
+
+// Locks the device once the user has been idle for the auto-lock timeout.
+// Input only bumps a timestamp (throttled, pointermove fires constantly);
+// a single timer is re-armed for whatever idle time remains.
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const
+const ACTIVITY_THROTTLE_MS = 1000
+
+export const startAutoLock = () => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let lastRecorded = 0
+
+  const schedule = () => {
+    clearTimeout(timer)
+    const auth = useDeviceAuthStore.getState()
+    if (auth.isLocked || auth.authMethod === 'none' || auth.autoLockTimeout === 0) return
+    if (auth.shouldAutoLock()) {
+      auth.lockDevice()
+      return
+    }
+    const remaining = auth.lastActivity + auth.autoLockTimeout * 60_000 - Date.now()
+    timer = setTimeout(schedule, remaining)
+  }
+
+  const onActivity = () => {
+    const now = Date.now()
+    if (now - lastRecorded < ACTIVITY_THROTTLE_MS || useDeviceAuthStore.getState().isLocked) return
+    lastRecorded = now
+    useDeviceAuthStore.getState().recordActivity()
+  }
+
+  // Timers are throttled in background tabs, so check again on return
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') schedule()
+  }
+
+  ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, onActivity, { capture: true, passive: true }))
+  document.addEventListener('visibilitychange', onVisibilityChange)
+  const unsubscribe = useDeviceAuthStore.subscribe((state, previous) => {
+    if (
+      state.lastActivity !== previous.lastActivity ||
+      state.isLocked !== previous.isLocked ||
+      state.authMethod !== previous.authMethod ||
+      state.autoLockTimeout !== previous.autoLockTimeout
+    ) {
+      schedule()
+    }
+  })
+
+  useDeviceAuthStore.getState().recordActivity()
+  schedule()
+
+  return () => {
+    clearTimeout(timer)
+    unsubscribe()
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, onActivity, { capture: true }))
+    document.removeEventListener('visibilitychange', onVisibilityChange)
+  }
+}
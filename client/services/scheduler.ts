@@ -0,0 +1,108 @@
+import { Scheduler, alarmTriggers, reminderTriggers, type FiredTrigger } from '@/lib/scheduler'
+import { useSamStore } from '@/store/sam-store'
+import { useCalendarStore } from '@/store/calendar-store'
+import { notify } from '@/store/notification-store'
+import { userStorage } from '@/lib/user-storage'
+
+// Wires the scheduler core to the OS: alarms from Sam's store, reminders from
+// the calendar, delivery through notifications.
+
+const LAST_RUN_KEY = 'nyx-scheduler-last-run'
+export const SNOOZE_MINUTES = 9
+
+const ALARM_SOUND = 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmUeCTaN0fPTgjMGHm7C7+OZTS0NVqzn77BdGAg+ltryxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9ltvyxnkpBSl+zPLaizsIGGS57OOdTgwOUarm7b1tIBBQqeDrvmceCTOM0PLPgTAFLIHO8diJOQgZaLvt559NEAxPqOPwtmMcBjiR1/LNeSsFJHfH8N2QQAoUXrTp66hVFAlFn+DyvmUeCTaN0fPTgzQGHW/A7eSaTS0NVqzn77BeGQc9'
+
+let scheduler: Scheduler | null = null
+
+export const snoozeAlarm = (alarmId: string, minutes = SNOOZE_MINUTES) => {
+  useSamStore.getState().updateAlarm(alarmId, { snoozedUntil: Date.now() + minutes * 60_000 })
+}
+
+const deliverAlarm = (trigger: FiredTrigger) => {
+  const { alarms, updateAlarm, setEmotion } = useSamStore.getState()
+  const alarm = alarms.find(a => a.id === trigger.sourceId)
+  if (!alarm) return
+
+  if (alarm.snoozedUntil && alarm.snoozedUntil <= Date.now()) updateAlarm(alarm.id, { snoozedUntil: undefined })
+  if (alarm.recurring === 'none') updateAlarm(alarm.id, { enabled: false })
+
+  if (trigger.late) {
+    notify({
+      appId: 'memory-alarms',
+      group: 'alarms',
+      title: `Missed alarm: ${trigger.title}`,
+      body: `Was due at ${new Date(trigger.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+      priority: 'high',
+    })
+    return
+  }
+
+  setEmotion('excited', 0.8)
+  notify({
+    appId: 'memory-alarms',
+    group: 'alarms',
+    title: `Alarm: ${trigger.title}`,
+    body: trigger.body || alarm.time,
+    priority: 'urgent',
+    actions: [
+      { id: 'snooze', label: `Snooze ${SNOOZE_MINUTES} min` },
+      { id: 'dismiss', label: 'Dismiss' },
+    ],
+    onAction: actionId => actionId === 'snooze' && snoozeAlarm(alarm.id),
+  })
+  if (alarm.sound) new Audio(ALARM_SOUND).play().catch(console.error)
+}
+
+const deliverReminder = (trigger: FiredTrigger) => {
+  notify({
+    appId: 'calendar',
+    group: 'reminders',
+    title: trigger.title,
+    body: trigger.late ? `Missed reminder · ${new Date(trigger.at).toLocaleString()}` : trigger.body,
+    priority: trigger.late ? 'normal' : 'high',
+  })
+}
+
+/** Starts evaluating alarms and reminders; returns a function that stops it */
+export const startScheduler = (): (() => void) => {
+  if (scheduler) return () => {}
+
+  const stored = Number(userStorage.getItem(LAST_RUN_KEY))
+  scheduler = new Scheduler({
+    sources: [
+      (from, to) => alarmTriggers(useSamStore.getState().alarms, from, to),
+      (from, to) => reminderTriggers(useCalendarStore.getState().events, from, to),
+    ],
+    onTrigger: trigger => (trigger.kind === 'alarm' ? deliverAlarm(trigger) : deliverReminder(trigger)),
+    lastRun: stored > 0 ? stored : undefined,
+    onCheckpoint: time => userStorage.setItem(LAST_RUN_KEY, String(time)),
+  })
+
+  // Timers are throttled in background tabs and stop during sleep, so
+  // re-evaluate whenever the OS comes back into view
+  const wake = () => scheduler?.refresh()
+  const onVisibility = () => document.visibilityState === 'visible' && wake()
+  document.addEventListener('visibilitychange', onVisibility)
+  window.addEventListener('focus', wake)
+  window.addEventListener('online', wake)
+
+  const unsubscribeAlarms = useSamStore.subscribe((state, previous) => {
+    if (state.alarms !== previous.alarms) wake()
+  })
+  const unsubscribeCalendar = useCalendarStore.subscribe((state, previous) => {
+    if (state.events !== previous.events) wake()
+  })
+
+  // Events must be loaded before the first tick, or their catch-up window is lost
+  useCalendarStore.getState().load().then(() => scheduler?.start())
+
+  return () => {
+    document.removeEventListener('visibilitychange', onVisibility)
+    window.removeEventListener('focus', wake)
+    window.removeEventListener('online', wake)
+    unsubscribeAlarms()
+    unsubscribeCalendar()
+    scheduler?.stop()
+    scheduler = null
+  }
+}
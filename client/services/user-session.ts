@@ -0,0 +1,48 @@
+import { vfs, deleteVfsDatabase, IndexedDbBackend, MemoryBackend, VFS_DB_NAME } from '@/services/vfs'
+import { clearUserData, migrateLegacyData, setStorageUser } from '@/lib/user-storage'
+import type { UserProfile } from '@/lib/user-profiles'
+import { useUserStore } from '@/store/user-store'
+import { useSamStore } from '@/store/sam-store'
+import { useNotificationStore } from '@/store/notification-store'
+import { useThemeStore } from '@/store/theme-store'
+
+// Signing in points every per-user store at that user's data: localStorage
+// keys, the filesystem database, Sam's memory and the notification history.
+
+// The user who inherited the pre-profile files keeps the original database
+const vfsDatabaseFor = (userId: string) =>
+  useUserStore.getState().legacyOwnerId === userId ? VFS_DB_NAME : `${VFS_DB_NAME}:${userId}`
+
+export const applyUserTheme = (profile: UserProfile) => {
+  const { accentColor, primary, secondary } = profile.theme
+  useThemeStore.getState().updateSettings({ accentColor, customColors: { primary, secondary, accent: accentColor } })
+}
+
+const LEGACY_AVATAR_KEY = 'nyx-profile-picture'
+
+export const signIn = async (profile: UserProfile) => {
+  const users = useUserStore.getState()
+  const inheritsLegacyData = users.claimLegacyData(profile.id)
+  migrateLegacyData(profile.id, inheritsLegacyData)
+  const legacyAvatar = inheritsLegacyData && localStorage.getItem(LEGACY_AVATAR_KEY)
+  if (legacyAvatar) {
+    users.updateProfile(profile.id, { avatar: legacyAvatar })
+    localStorage.removeItem(LEGACY_AVATAR_KEY)
+  }
+  setStorageUser(profile.id)
+  const dbName = vfsDatabaseFor(profile.id)
+  vfs.switchBackend(() => (typeof indexedDB !== 'undefined' ? new IndexedDbBackend(dbName) : new MemoryBackend()))
+  await Promise.all([useSamStore.persist.rehydrate(), useNotificationStore.persist.rehydrate()])
+  if (useSamStore.getState().userName === 'User') useSamStore.getState().setUserName(profile.displayName)
+  users.setCurrentUser(profile.id)
+}
+
+/** Removes a profile along with everything it stored */
+export const deleteUser = async (userId: string) => {
+  const dbName = vfsDatabaseFor(userId)
+  useUserStore.getState().removeProfile(userId) // throws for the signed-in or last user
+  clearUserData(userId)
+  if (typeof indexedDB !== 'undefined') {
+    await deleteVfsDatabase(dbName).catch(error => console.warn(`Failed to delete files of ${userId}:`, error))
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryBackend, VirtualFileSystem, VfsChange, VfsError, normalizePath } from "./vfs";
+
+const errorCode = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof VfsError ? error.code : String(error);
+  }
+  return null;
+};
+
+describe("VirtualFileSystem", () => {
+  let backend: MemoryBackend;
+  let fs: VirtualFileSystem;
+
+  beforeEach(() => {
+    backend = new MemoryBackend();
+    fs = new VirtualFileSystem(() => backend, { quota: 1024 });
+  });
+
+  it("seeds default folders on first run", async () => {
+    const names = (await fs.list("/")).map((entry) => entry.name);
+    expect(names).toEqual(["Desktop", "Documents", "Downloads", "Music", "Pictures", "Videos", "README.txt"]);
+  });
+
+  it("writes, reads and persists files with parent folders", async () => {
+    await fs.writeFile("/Documents/Notes/todo.txt", "buy milk", { meta: { tags: ["home"] } });
+    expect(await fs.readText("/Documents/Notes/todo.txt")).toBe("buy milk");
+
+    const reopened = new VirtualFileSystem(() => backend);
+    const entry = await reopened.stat("/Documents/Notes/todo.txt");
+    expect(entry).toMatchObject({ type: "file", mimeType: "text/plain", size: 8, meta: { tags: ["home"] } });
+    expect((await reopened.stat("/Documents/Notes"))?.type).toBe("directory");
+  });
+
+  it("stores binary blobs", async () => {
+    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" });
+    const entry = await fs.writeFile("/Pictures/dot.png", blob);
+    expect(entry.mimeType).toBe("image/png");
+    expect((await fs.readBlob("/Pictures/dot.png")).size).toBe(3);
+  });
+
+  it("moves and copies directories recursively", async () => {
+    await fs.writeFile("/Documents/a/b.txt", "b");
+    await fs.copy("/Documents/a", "/Desktop/a");
+    await fs.move("/Documents/a", "/Downloads/c");
+
+    expect(await fs.readText("/Desktop/a/b.txt")).toBe("b");
+    expect(await fs.readText("/Downloads/c/b.txt")).toBe("b");
+    expect(await fs.exists("/Documents/a/b.txt")).toBe(false);
+  });
+
+  it("reports filesystem errors with codes", async () => {
+    await fs.writeFile("/Documents/x.txt", "x");
+    expect(await errorCode(fs.readFile("/nope.txt"))).toBe("ENOENT");
+    expect(await errorCode(fs.remove("/Documents"))).toBe("ENOTEMPTY");
+    expect(await errorCode(fs.writeFile("/Documents", "x"))).toBe("EISDIR");
+    expect(await errorCode(fs.move("/Documents", "/Documents/inner"))).toBe("EINVAL");
+    expect(await errorCode(fs.writeFile("/Documents/x.txt/y.txt", "y"))).toBe("ENOTDIR");
+  });
+
+  it("enforces the quota", async () => {
+    expect(await errorCode(fs.writeFile("/big.bin", "x".repeat(2048)))).toBe("EQUOTA");
+    const { used, quota } = await fs.usage();
+    expect(used).toBeLessThan(quota);
+  });
+
+  it("notifies watchers of changes in a folder", async () => {
+    await fs.ready();
+    const changes: VfsChange[] = [];
+    const stop = fs.watch("/Documents", (change) => changes.push(change));
+    const all: string[] = [];
+    fs.watch("/", (change) => all.push(change.path), { recursive: true });
+
+    await fs.writeFile("/Documents/note.txt", "1");
+    await fs.writeFile("/Documents/note.txt", "2");
+    await fs.move("/Documents/note.txt", "/Desktop/note.txt");
+    await fs.writeFile("/Pictures/p.png", "p");
+    stop();
+    await fs.remove("/Desktop/note.txt");
+
+    expect(changes.map((c) => c.type)).toEqual(["create", "update", "move"]);
+    expect(all).toContain("/Pictures/p.png");
+    expect(all).toContain("/Desktop/note.txt");
+  });
+
+  it("switches to another backend and tells watchers", async () => {
+    await fs.writeFile("/Documents/mine.txt", "1");
+    const changes: VfsChange[] = [];
+    fs.watch("/Documents", (change) => changes.push(change));
+    fs.switchBackend(() => new MemoryBackend());
+    expect(changes).toEqual([{ type: "update", path: "/" }]);
+    expect(await fs.exists("/Documents/mine.txt")).toBe(false);
+    expect(await fs.exists("/Documents")).toBe(true);
+  });
+
+  it("finds unique names and normalizes paths", async () => {
+    await fs.writeFile("/Documents/Report.txt", "1");
+    await fs.writeFile("/Documents/Report (2).txt", "2");
+    expect(await fs.uniquePath("/Documents/Report.txt")).toBe("/Documents/Report (3).txt");
+    expect(normalizePath("Documents//a/./b/../c/")).toBe("/Documents/a/c");
+  });
+});
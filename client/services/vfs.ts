@@ -0,0 +1,644 @@
+// Virtual filesystem shared by every app. Entries (paths, directories, metadata) are kept
+// in an in-memory index backed by IndexedDB; file contents are stored separately and only
+// read on demand, so listing large folders never loads blobs.
+
+export type VfsEntryType = 'file' | 'directory'
+
+export interface VfsEntry {
+  path: string
+  name: string
+  parent: string
+  type: VfsEntryType
+  mimeType?: string
+  size: number
+  created: number
+  modified: number
+  starred?: boolean
+  meta?: Record<string, unknown>
+}
+
+export type VfsContent = string | Blob
+
+export type VfsChangeType = 'create' | 'update' | 'delete' | 'move'
+
+export interface VfsChange {
+  type: VfsChangeType
+  path: string
+  oldPath?: string
+  entry?: VfsEntry
+}
+
+export type VfsListener = (change: VfsChange) => void
+
+export type VfsErrorCode = 'ENOENT' | 'EEXIST' | 'ENOTDIR' | 'EISDIR' | 'ENOTEMPTY' | 'EINVAL' | 'EQUOTA'
+
+export class VfsError extends Error {
+  constructor(readonly code: VfsErrorCode, message: string) {
+    super(`${code}: ${message}`)
+    this.name = 'VfsError'
+  }
+}
+
+export interface WriteOptions {
+  mimeType?: string
+  meta?: Record<string, unknown>
+  createParents?: boolean
+  overwrite?: boolean
+}
+
+export interface VfsUsage {
+  used: number
+  quota: number
+}
+
+// ---------- Paths ----------
+
+export const VFS_PATHS = {
+  root: '/',
+  desktop: '/Desktop',
+  documents: '/Documents',
+  downloads: '/Downloads',
+  pictures: '/Pictures',
+  camera: '/Pictures/Camera',
+  music: '/Music',
+  recordings: '/Music/Recordings',
+  videos: '/Videos',
+  notes: '/Documents/Notes',
+  calendar: '/Documents/Calendar',
+} as const
+
+const DEFAULT_DIRECTORIES = ['/Desktop', '/Documents', '/Downloads', '/Pictures', '/Music', '/Videos']
+
+export const normalizePath = (path: string): string => {
+  const parts: string[] = []
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return '/' + parts.join('/')
+}
+
+export const joinPath = (...parts: string[]) => normalizePath(parts.join('/'))
+
+export const dirname = (path: string) => {
+  const normalized = normalizePath(path)
+  const index = normalized.lastIndexOf('/')
+  return index <= 0 ? '/' : normalized.slice(0, index)
+}
+
+export const basename = (path: string) => normalizePath(path).split('/').pop() || ''
+
+export const extname = (path: string) => {
+  const name = basename(path)
+  const index = name.lastIndexOf('.')
+  return index > 0 ? name.slice(index + 1).toLowerCase() : ''
+}
+
+const isInside = (path: string, dir: string) => dir === '/' ? path !== '/' : path.startsWith(dir + '/')
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  ts: 'text/typescript',
+  ics: 'text/calendar',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  weba: 'audio/webm',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  nyxdoc: 'application/vnd.nyx.document+json',
+  nyxsheet: 'application/vnd.nyx.spreadsheet+json',
+}
+
+export const mimeTypeFor = (path: string) => MIME_TYPES[extname(path)] || 'application/octet-stream'
+
+export const isTextEntry = (entry: Pick<VfsEntry, 'mimeType'>) =>
+  !!entry.mimeType && (entry.mimeType.startsWith('text/') || entry.mimeType === 'application/json')
+
+const contentSize = (content: VfsContent) =>
+  typeof content === 'string' ? new TextEncoder().encode(content).byteLength : content.size
+
+// ---------- Backends ----------
+
+export interface VfsBackend {
+  loadEntries(): Promise<VfsEntry[]>
+  putEntries(entries: VfsEntry[]): Promise<void>
+  deleteEntries(paths: string[]): Promise<void>
+  readContent(path: string): Promise<VfsContent | undefined>
+  writeContent(path: string, content: VfsContent): Promise<void>
+  deleteContent(paths: string[]): Promise<void>
+}
+
+export class MemoryBackend implements VfsBackend {
+  private entries = new Map<string, VfsEntry>()
+  private contents = new Map<string, VfsContent>()
+
+  async loadEntries() {
+    return [...this.entries.values()].map(entry => ({ ...entry }))
+  }
+
+  async putEntries(entries: VfsEntry[]) {
+    entries.forEach(entry => this.entries.set(entry.path, { ...entry }))
+  }
+
+  async deleteEntries(paths: string[]) {
+    paths.forEach(path => this.entries.delete(path))
+  }
+
+  async readContent(path: string) {
+    return this.contents.get(path)
+  }
+
+  async writeContent(path: string, content: VfsContent) {
+    this.contents.set(path, content)
+  }
+
+  async deleteContent(paths: string[]) {
+    paths.forEach(path => this.contents.delete(path))
+  }
+}
+
+export const VFS_DB_NAME = 'nyx-vfs'
+const DB_VERSION = 1
+const ENTRY_STORE = 'entries'
+const CONTENT_STORE = 'contents'
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export class IndexedDbBackend implements VfsBackend {
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(private dbName = VFS_DB_NAME) {}
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE, { keyPath: 'path' })
+          if (!db.objectStoreNames.contains(CONTENT_STORE)) db.createObjectStore(CONTENT_STORE)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async transaction(store: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => void) {
+    const db = await this.open()
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(store, mode)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+      run(tx.objectStore(store))
+    })
+  }
+
+  async loadEntries() {
+    const db = await this.open()
+    return promisify(db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).getAll()) as Promise<VfsEntry[]>
+  }
+
+  putEntries(entries: VfsEntry[]) {
+    return this.transaction(ENTRY_STORE, 'readwrite', store => entries.forEach(entry => store.put(entry)))
+  }
+
+  deleteEntries(paths: string[]) {
+    return this.transaction(ENTRY_STORE, 'readwrite', store => paths.forEach(path => store.delete(path)))
+  }
+
+  async readContent(path: string) {
+    const db = await this.open()
+    return promisify(db.transaction(CONTENT_STORE, 'readonly').objectStore(CONTENT_STORE).get(path)) as Promise<VfsContent | undefined>
+  }
+
+  writeContent(path: string, content: VfsContent) {
+    return this.transaction(CONTENT_STORE, 'readwrite', store => store.put(content, path))
+  }
+
+  deleteContent(paths: string[]) {
+    return this.transaction(CONTENT_STORE, 'readwrite', store => paths.forEach(path => store.delete(path)))
+  }
+
+  async close() {
+    if (this.db) (await this.db).close()
+    this.db = null
+  }
+}
+
+/** Deletes a whole filesystem database, e.g. when its user is removed */
+export const deleteVfsDatabase = (dbName: string) => promisify(indexedDB.deleteDatabase(dbName)).then(() => undefined)
+
+// ---------- Filesystem ----------
+
+const DEFAULT_QUOTA = 512 * 1024 * 1024
+
+const README = `Welcome to Nyx OS!
+
+Everything you save lives in this virtual filesystem:
+- Notes from Notepad are in Documents/Notes
+- Camera photos and videos are in Pictures/Camera
+- Voice recordings are in Music/Recordings
+
+Files are stored in your browser, so they survive reloads.`
+
+interface Watcher {
+  path: string
+  recursive: boolean
+  listener: VfsListener
+}
+
+export class VirtualFileSystem {
+  private backend: VfsBackend | null = null
+  private entries = new Map<string, VfsEntry>()
+  private watchers = new Set<Watcher>()
+  private initPromise: Promise<void> | null = null
+  private generation = 0 // bumped by switchBackend
+  private quota: number
+
+  constructor(
+    private createBackend: () => VfsBackend,
+    options: { quota?: number } = {},
+  ) {
+    this.quota = options.quota ?? DEFAULT_QUOTA
+  }
+
+  // Loads the index and creates the default folders on first run
+  ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        const generation = this.generation
+        this.backend = this.createBackend()
+        let stored: VfsEntry[]
+        try {
+          stored = await this.backend.loadEntries()
+        } catch (error) {
+          console.warn('IndexedDB unavailable, files will not persist:', error)
+          stored = []
+          if (generation === this.generation) this.backend = new MemoryBackend()
+        }
+        if (generation !== this.generation) return // switched to another backend meanwhile
+        stored.forEach(entry => this.entries.set(entry.path, entry))
+
+        if (stored.length === 0) await this.seed()
+      })()
+    }
+    return this.initPromise
+  }
+
+  private async seed() {
+    const now = Date.now()
+    const entries: VfsEntry[] = DEFAULT_DIRECTORIES.map(path => ({
+      path, name: basename(path), parent: '/', type: 'directory', size: 0, created: now, modified: now,
+    }))
+    entries.push({
+      path: '/README.txt',
+      name: 'README.txt',
+      parent: '/',
+      type: 'file',
+      mimeType: 'text/plain',
+      size: contentSize(README),
+      created: now,
+      modified: now,
+      starred: true,
+    })
+    entries.forEach(entry => this.entries.set(entry.path, entry))
+    await this.backend!.writeContent('/README.txt', README)
+    await this.backend!.putEntries(entries)
+  }
+
+  /**
+   * Swaps the storage behind the filesystem, e.g. for another user's files.
+   * Watchers stay registered and hear about it as an update of the root.
+   */
+  switchBackend(createBackend: () => VfsBackend) {
+    const previous = this.backend
+    this.generation++
+    this.createBackend = createBackend
+    this.backend = null
+    this.entries.clear()
+    this.initPromise = null
+    if (previous instanceof IndexedDbBackend) previous.close()
+    this.emit({ type: 'update', path: '/' })
+  }
+
+  setQuota(bytes: number) {
+    this.quota = bytes
+  }
+
+  async usage(): Promise<VfsUsage> {
+    await this.ready()
+    let used = 0
+    this.entries.forEach(entry => {
+      used += entry.size
+    })
+    return { used, quota: this.quota }
+  }
+
+  async stat(path: string): Promise<VfsEntry | null> {
+    await this.ready()
+    return this.getEntry(normalizePath(path))
+  }
+
+  async exists(path: string) {
+    return (await this.stat(path)) !== null
+  }
+
+  async list(dir: string, options: { recursive?: boolean } = {}): Promise<VfsEntry[]> {
+    await this.ready()
+    const path = normalizePath(dir)
+    this.requireDirectory(path)
+
+    return [...this.entries.values()]
+      .filter(entry => (options.recursive ? isInside(entry.path, path) : entry.parent === path))
+      .sort((a, b) =>
+        a.type !== b.type ? (a.type === 'directory' ? -1 : 1) : a.name.localeCompare(b.name),
+      )
+      .map(entry => ({ ...entry }))
+  }
+
+  async search(query: string, root = '/'): Promise<VfsEntry[]> {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return []
+    return (await this.list(root, { recursive: true })).filter(entry => entry.name.toLowerCase().includes(needle))
+  }
+
+  async mkdir(dir: string, options: { recursive?: boolean } = {}): Promise<VfsEntry> {
+    await this.ready()
+    const path = normalizePath(dir)
+    if (path === '/') return this.getEntry('/')!
+
+    const existing = this.entries.get(path)
+    if (existing) {
+      if (existing.type !== 'directory') throw new VfsError('EEXIST', `${path} is a file`)
+      return { ...existing }
+    }
+
+    const parent = dirname(path)
+    if (!this.getEntry(parent)) {
+      if (options.recursive === false) throw new VfsError('ENOENT', `${parent} does not exist`)
+      await this.mkdir(parent, options)
+    }
+    this.requireDirectory(parent)
+
+    const now = Date.now()
+    const entry: VfsEntry = { path, name: basename(path), parent, type: 'directory', size: 0, created: now, modified: now }
+    this.entries.set(path, entry)
+    await this.backend!.putEntries([entry])
+    this.emit({ type: 'create', path, entry: { ...entry } })
+    return { ...entry }
+  }
+
+  async writeFile(filePath: string, content: VfsContent, options: WriteOptions = {}): Promise<VfsEntry> {
+    await this.ready()
+    const path = normalizePath(filePath)
+    if (path === '/') throw new VfsError('EINVAL', 'Cannot write to the root directory')
+
+    const existing = this.entries.get(path)
+    if (existing?.type === 'directory') throw new VfsError('EISDIR', `${path} is a directory`)
+    if (existing && options.overwrite === false) throw new VfsError('EEXIST', `${path} already exists`)
+
+    const parent = dirname(path)
+    if (!this.getEntry(parent)) {
+      if (options.createParents === false) throw new VfsError('ENOENT', `${parent} does not exist`)
+      await this.mkdir(parent)
+    }
+    this.requireDirectory(parent)
+
+    const size = contentSize(content)
+    const { used } = await this.usage()
+    if (used - (existing?.size ?? 0) + size > this.quota) {
+      throw new VfsError('EQUOTA', `Not enough space to write ${path}`)
+    }
+
+    const { starred, ...meta } = options.meta ?? {}
+    const now = Date.now()
+    const entry: VfsEntry = {
+      path,
+      name: basename(path),
+      parent,
+      type: 'file',
+      mimeType: options.mimeType || (typeof content !== 'string' && content.type) || existing?.mimeType || mimeTypeFor(path),
+      size,
+      created: existing?.created ?? now,
+      modified: now,
+      starred: typeof starred === 'boolean' ? starred : existing?.starred,
+      meta: { ...existing?.meta, ...meta },
+    }
+    this.entries.set(path, entry)
+    await this.backend!.writeContent(path, content)
+    await this.backend!.putEntries([entry])
+    this.emit({ type: existing ? 'update' : 'create', path, entry: { ...entry } })
+    return { ...entry }
+  }
+
+  async readFile(filePath: string): Promise<VfsContent> {
+    await this.ready()
+    const path = normalizePath(filePath)
+    const entry = this.entries.get(path)
+    if (!entry) throw new VfsError('ENOENT', `${path} does not exist`)
+    if (entry.type === 'directory') throw new VfsError('EISDIR', `${path} is a directory`)
+    return (await this.backend!.readContent(path)) ?? ''
+  }
+
+  async readText(path: string): Promise<string> {
+    const content = await this.readFile(path)
+    return typeof content === 'string' ? content : content.text()
+  }
+
+  async readBlob(path: string): Promise<Blob> {
+    const content = await this.readFile(path)
+    if (typeof content !== 'string') return content
+    return new Blob([content], { type: this.entries.get(normalizePath(path))?.mimeType || 'text/plain' })
+  }
+
+  async updateMetadata(
+    filePath: string,
+    patch: { starred?: boolean; mimeType?: string; meta?: Record<string, unknown> },
+  ): Promise<VfsEntry> {
+    await this.ready()
+    const path = normalizePath(filePath)
+    const existing = this.entries.get(path)
+    if (!existing) throw new VfsError('ENOENT', `${path} does not exist`)
+
+    const entry: VfsEntry = {
+      ...existing,
+      ...(patch.starred !== undefined && { starred: patch.starred }),
+      ...(patch.mimeType && { mimeType: patch.mimeType }),
+      meta: patch.meta ? { ...existing.meta, ...patch.meta } : existing.meta,
+      modified: Date.now(),
+    }
+    this.entries.set(path, entry)
+    await this.backend!.putEntries([entry])
+    this.emit({ type: 'update', path, entry: { ...entry } })
+    return { ...entry }
+  }
+
+  async remove(target: string, options: { recursive?: boolean } = {}) {
+    await this.ready()
+    const path = normalizePath(target)
+    if (path === '/') throw new VfsError('EINVAL', 'Cannot remove the root directory')
+    const entry = this.entries.get(path)
+    if (!entry) throw new VfsError('ENOENT', `${path} does not exist`)
+
+    const descendants = [...this.entries.keys()].filter(key => isInside(key, path))
+    if (descendants.length > 0 && !options.recursive) {
+      throw new VfsError('ENOTEMPTY', `${path} is not empty`)
+    }
+
+    const removed = [path, ...descendants]
+    removed.forEach(key => this.entries.delete(key))
+    await this.backend!.deleteContent(removed)
+    await this.backend!.deleteEntries(removed)
+    this.emit({ type: 'delete', path, entry })
+  }
+
+  async move(from: string, to: string): Promise<VfsEntry> {
+    return this.transfer(from, to, true)
+  }
+
+  async copy(from: string, to: string): Promise<VfsEntry> {
+    return this.transfer(from, to, false)
+  }
+
+  // Returns `path` if it is free, otherwise the first free "name (n).ext" variant
+  async uniquePath(target: string): Promise<string> {
+    await this.ready()
+    const path = normalizePath(target)
+    if (!this.entries.has(path)) return path
+
+    const dir = dirname(path)
+    const name = basename(path)
+    const dot = name.lastIndexOf('.')
+    const stem = dot > 0 ? name.slice(0, dot) : name
+    const ext = dot > 0 ? name.slice(dot) : ''
+    let n = 2
+    while (this.entries.has(joinPath(dir, `${stem} (${n})${ext}`))) n++
+    return joinPath(dir, `${stem} (${n})${ext}`)
+  }
+
+  // Listens for changes to `path` itself and its direct children (or all descendants when recursive)
+  watch(path: string, listener: VfsListener, options: { recursive?: boolean } = {}): () => void {
+    const watcher: Watcher = { path: normalizePath(path), recursive: !!options.recursive, listener }
+    this.watchers.add(watcher)
+    return () => {
+      this.watchers.delete(watcher)
+    }
+  }
+
+  private async transfer(from: string, to: string, removeSource: boolean): Promise<VfsEntry> {
+    await this.ready()
+    const source = normalizePath(from)
+    const target = normalizePath(to)
+    const entry = this.entries.get(source)
+    if (!entry) throw new VfsError('ENOENT', `${source} does not exist`)
+    if (this.entries.has(target)) throw new VfsError('EEXIST', `${target} already exists`)
+    if (target === source || isInside(target, source)) {
+      throw new VfsError('EINVAL', `Cannot move ${source} into itself`)
+    }
+    this.requireDirectory(dirname(target))
+
+    const sources = [source, ...[...this.entries.keys()].filter(key => isInside(key, source))]
+    if (!removeSource) {
+      const extra = sources.reduce((sum, key) => sum + this.entries.get(key)!.size, 0)
+      const { used } = await this.usage()
+      if (used + extra > this.quota) throw new VfsError('EQUOTA', `Not enough space to copy ${source}`)
+    }
+
+    const now = Date.now()
+    const moved: VfsEntry[] = []
+    for (const key of sources) {
+      const original = this.entries.get(key)!
+      const path = target + key.slice(source.length)
+      const copy: VfsEntry = {
+        ...original,
+        path,
+        name: basename(path),
+        parent: dirname(path),
+        created: removeSource ? original.created : now,
+        modified: now,
+      }
+      if (original.type === 'file') {
+        const content = await this.backend!.readContent(key)
+        if (content !== undefined) await this.backend!.writeContent(path, content)
+      }
+      this.entries.set(path, copy)
+      moved.push(copy)
+    }
+    await this.backend!.putEntries(moved)
+
+    if (removeSource) {
+      sources.forEach(key => this.entries.delete(key))
+      await this.backend!.deleteContent(sources)
+      await this.backend!.deleteEntries(sources)
+      this.emit({ type: 'move', path: target, oldPath: source, entry: { ...moved[0] } })
+    } else {
+      this.emit({ type: 'create', path: target, entry: { ...moved[0] } })
+    }
+    return { ...moved[0] }
+  }
+
+  private getEntry(path: string): VfsEntry | null {
+    if (path === '/') {
+      return { path: '/', name: '', parent: '', type: 'directory', size: 0, created: 0, modified: 0 }
+    }
+    const entry = this.entries.get(path)
+    return entry ? { ...entry } : null
+  }
+
+  private requireDirectory(path: string) {
+    const entry = this.getEntry(path)
+    if (!entry) throw new VfsError('ENOENT', `${path} does not exist`)
+    if (entry.type !== 'directory') throw new VfsError('ENOTDIR', `${path} is not a directory`)
+  }
+
+  private emit(change: VfsChange) {
+    const matches = (path: string, watcher: Watcher) =>
+      path === watcher.path ||
+      dirname(path) === watcher.path ||
+      (watcher.recursive && isInside(path, watcher.path)) ||
+      // Removing or moving a folder affects everything watched inside it
+      isInside(watcher.path, path)
+
+    this.watchers.forEach(watcher => {
+      if (matches(change.path, watcher) || (change.oldPath && matches(change.oldPath, watcher))) {
+        try {
+          watcher.listener(change)
+        } catch (error) {
+          console.error('VFS watcher failed:', error)
+        }
+      }
+    })
+  }
+}
+
+export const vfs = new VirtualFileSystem(() =>
+  typeof indexedDB !== 'undefined' ? new IndexedDbBackend() : new MemoryBackend(),
+)
@@ -0,0 +1,141 @@
+import React from 'react'
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { Zap } from 'lucide-react'
+import { registerApp, unregisterApp, getAppComponent, AppManifest } from '@/lib/app-registry'
+import { useDesktopStore } from '@/store/desktop-store'
+
+export interface GeneratedApp {
+  id: string
+  name: string
+  description: string
+  code: string
+  timestamp: number
+  pinned?: boolean
+}
+
+export interface ForgeAppError {
+  kind: 'compile' | 'runtime'
+  message: string
+  time: number
+}
+
+interface AppForgeStore {
+  generatedApps: GeneratedApp[]
+  errors: Record<string, ForgeAppError> // latest problem per app, not persisted
+
+  addApp: (app: GeneratedApp) => void
+  updateApp: (id: string, updates: Partial<Omit<GeneratedApp, 'id'>>) => void
+  deleteApp: (id: string) => void
+  setPinned: (id: string, pinned: boolean) => void
+  reportError: (id: string, error: Omit<ForgeAppError, 'time'> | null) => void
+}
+
+// Pinned apps are registered under their own id so the desktop, launchers and
+// session restore treat them like any built-in app
+export const forgeAppId = (id: string) => `forge:${id}`
+
+const forgeManifest = (app: GeneratedApp): AppManifest => ({
+  id: forgeAppId(app.id),
+  name: app.name,
+  description: app.description,
+  icon: Zap,
+  color: '#a855f7',
+  category: 'developer',
+  capabilities: ['storage', 'notifications'],
+  singleInstance: false,
+  deviceTypes: ['desktop', 'tablet', 'phone'],
+  defaultSize: { width: 500, height: 400 },
+  defaultPosition: { x: 300, y: 200 },
+  load: () =>
+    import('@/components/apps/ForgeAppWindow').then(({ ForgeAppWindow }) => (props: any) =>
+      React.createElement(ForgeAppWindow, { ...props, appId: app.id })
+    ),
+})
+
+const addDesktopIcon = (manifest: AppManifest) => {
+  const { icons, addIcon } = useDesktopStore.getState()
+  if (icons.some(icon => icon.appId === manifest.id)) return
+  const last = icons[icons.length - 1]
+  addIcon({
+    appId: manifest.id,
+    name: manifest.name,
+    icon: manifest.icon,
+    component: getAppComponent(manifest),
+    defaultSize: manifest.defaultSize,
+    defaultPosition: manifest.defaultPosition,
+    description: manifest.description,
+    color: manifest.color,
+    position: last ? { x: last.position.x, y: last.position.y + 80 } : { x: 40, y: 40 },
+    size: { width: 64, height: 64 },
+  })
+}
+
+const removeDesktopIcons = (appId: string) => {
+  const { icons, removeIcon } = useDesktopStore.getState()
+  icons.filter(icon => icon.appId === appId).forEach(icon => removeIcon(icon.id))
+}
+
+export const useAppForgeStore = create<AppForgeStore>()(
+  persist(
+    (set, get) => ({
+      generatedApps: [],
+      errors: {},
+
+      addApp: (app) => {
+        set((state) => ({ generatedApps: [...state.generatedApps, app] }))
+      },
+
+      updateApp: (id, updates) => {
+        set((state) => ({
+          generatedApps: state.generatedApps.map((app) => (app.id === id ? { ...app, ...updates } : app)),
+        }))
+        const app = get().generatedApps.find((a) => a.id === id)
+        if (app?.pinned) registerApp(forgeManifest(app))
+      },
+
+      deleteApp: (id) => {
+        get().setPinned(id, false)
+        set((state) => {
+          const { [id]: _removed, ...errors } = state.errors
+          return { generatedApps: state.generatedApps.filter((app) => app.id !== id), errors }
+        })
+      },
+
+      setPinned: (id, pinned) => {
+        const app = get().generatedApps.find((a) => a.id === id)
+        if (!app) return
+
+        if (pinned) {
+          const manifest = forgeManifest(app)
+          registerApp(manifest)
+          addDesktopIcon(manifest)
+        } else {
+          removeDesktopIcons(forgeAppId(id))
+          unregisterApp(forgeAppId(id))
+        }
+        set((state) => ({
+          generatedApps: state.generatedApps.map((a) => (a.id === id ? { ...a, pinned } : a)),
+        }))
+      },
+
+      reportError: (id, error) => {
+        set((state) => {
+          const { [id]: _previous, ...errors } = state.errors
+          return { errors: error ? { ...errors, [id]: { ...error, time: Date.now() } } : errors }
+        })
+      },
+    }),
+    {
+      name: 'nyx-app-forge',
+      partialize: (state) => ({ generatedApps: state.generatedApps }),
+    }
+  )
+)
+
+// Called before the session is restored so windows and icons of pinned apps survive reloads
+export const registerPinnedForgeApps = () => {
+  useAppForgeStore.getState().generatedApps
+    .filter((app) => app.pinned)
+    .forEach((app) => registerApp(forgeManifest(app)))
+}
@@ -0,0 +1,222 @@
+import { create } from 'zustand'
+import { vfs, VFS_PATHS, joinPath } from '@/services/vfs'
+import { dateKey } from '@/lib/recurrence'
+import { findConflicts, migrateEvent, type CalendarEvent, type EventConflict } from '@/lib/calendar'
+
+// Calendar events for the whole OS. They live in Documents/Calendar/events.json
+// so they show up in Files and travel with backups; the store loads that file
+// once and writes it back after every change.
+
+export const CALENDAR_EVENTS_PATH = joinPath(VFS_PATHS.calendar, 'events.json')
+const LEGACY_EVENTS_KEY = 'nyx-calendar-events'
+const FILE_VERSION = 2 // 1 was a bare array
+
+export type NewCalendarEvent = Omit<CalendarEvent, 'id' | 'created' | 'modified' | 'status'> &
+  Partial<Pick<CalendarEvent, 'id' | 'status'>>
+
+export interface AddEventResult {
+  event: CalendarEvent | null // null when refused because of conflicts
+  conflicts: EventConflict[]
+}
+
+interface CalendarStore {
+  events: CalendarEvent[]
+  loaded: boolean
+
+  load: () => Promise<void>
+  addEvent: (event: NewCalendarEvent, options?: { allowConflicts?: boolean }) => AddEventResult
+  updateEvent: (id: string, updates: Partial<Omit<CalendarEvent, 'id' | 'created'>>) => void
+  removeEvent: (id: string) => void
+  skipOccurrence: (id: string, day: Date) => void
+  toggleStatus: (id: string) => void
+  importEvents: (events: CalendarEvent[]) => void
+  getConflicts: (event: CalendarEvent) => EventConflict[]
+}
+
+const createSampleEvents = (): CalendarEvent[] => {
+  const now = new Date()
+  const tomorrow = new Date(now)
+  tomorrow.setDate(tomorrow.getDate() + 1)
+  const nextWeek = new Date(now)
+  nextWeek.setDate(nextWeek.getDate() + 7)
+
+  return [
+    {
+      id: '1',
+      title: 'Team Standup',
+      description: 'Daily sync with the development team',
+      date: now,
+      startTime: '09:00',
+      endTime: '09:30',
+      type: 'meeting',
+      priority: 'medium',
+      location: 'Conference Room A',
+      attendees: ['john@company.com', 'sarah@company.com'],
+      reminders: [15, 5],
+      status: 'upcoming',
+      created: now,
+      modified: now
+    },
+    {
+      id: '2',
+      title: 'Investor Presentation',
+      description: 'Present Nyx OS to potential investors',
+      date: tomorrow,
+      startTime: '14:00',
+      endTime: '15:30',
+      type: 'work',
+      priority: 'urgent',
+      location: 'Main Conference Room',
+      attendees: ['investors@fund.com', 'ceo@company.com'],
+      reminders: [60, 30, 15],
+      status: 'upcoming',
+      created: now,
+      modified: now
+    },
+    {
+      id: '3',
+      title: 'Doctor Appointment',
+      description: 'Annual checkup',
+      date: nextWeek,
+      startTime: '10:00',
+      endTime: '11:00',
+      type: 'appointment',
+      priority: 'medium',
+      location: 'Medical Center',
+      reminders: [120, 30],
+      status: 'upcoming',
+      created: now,
+      modified: now
+    },
+    {
+      id: '4',
+      title: 'Code Review',
+      description: 'Review pull requests and provide feedback',
+      date: now,
+      startTime: '15:00',
+      endTime: '16:00',
+      type: 'task',
+      priority: 'high',
+      rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+      reminders: [15],
+      status: 'upcoming',
+      created: now,
+      modified: now
+    }
+  ]
+}
+
+const parseEventsFile = (text: string): CalendarEvent[] => {
+  const data = JSON.parse(text)
+  const raw: unknown[] = Array.isArray(data) ? data : data?.events ?? []
+  return raw.map(migrateEvent)
+}
+
+const serializeEvents = (events: CalendarEvent[]) => JSON.stringify({ version: FILE_VERSION, events }, null, 2)
+
+// Reads the events file, falling back to the old localStorage key (removed by
+// load once its events are saved) and finally to a few sample events on first run
+const readEvents = async (): Promise<CalendarEvent[]> => {
+  if (await vfs.exists(CALENDAR_EVENTS_PATH)) return parseEventsFile(await vfs.readText(CALENDAR_EVENTS_PATH))
+  const legacy = localStorage.getItem(LEGACY_EVENTS_KEY)
+  return legacy ? parseEventsFile(legacy) : createSampleEvents()
+}
+
+let loading: Promise<void> | null = null
+let lastWritten = ''
+
+// Resolves to whether the file was written
+const save = (events: CalendarEvent[]) => {
+  lastWritten = serializeEvents(events)
+  return vfs.writeFile(CALENDAR_EVENTS_PATH, lastWritten, { mimeType: 'application/json', createParents: true })
+    .then(() => true, error => {
+      console.error('Failed to save calendar events:', error)
+      return false
+    })
+}
+
+export const useCalendarStore = create<CalendarStore>()((set, get) => {
+  const change = (update: (events: CalendarEvent[]) => CalendarEvent[]) => {
+    const events = update(get().events)
+    set({ events })
+    if (get().loaded) save(events)
+  }
+
+  return {
+    events: [],
+    loaded: false,
+
+    load: () => {
+      loading ??= readEvents()
+        .then(events => {
+          set({ events, loaded: true })
+          // Writes the current version after any migration; the legacy key is only
+          // dropped once its events are in the file, so a failed write loses nothing
+          save(events).then(saved => {
+            if (saved) localStorage.removeItem(LEGACY_EVENTS_KEY)
+          })
+
+          // Edits made outside the store, e.g. restoring the file from Files
+          vfs.watch(CALENDAR_EVENTS_PATH, async changed => {
+            if (changed.type === 'delete' || changed.path !== CALENDAR_EVENTS_PATH) return
+            const text = await vfs.readText(CALENDAR_EVENTS_PATH).catch(() => lastWritten)
+            if (text === lastWritten) return
+            try {
+              set({ events: parseEventsFile(text) })
+              lastWritten = text
+            } catch (error) {
+              console.warn('Ignoring an unreadable calendar file:', error)
+            }
+          })
+        })
+        .catch(error => {
+          loading = null
+          console.error('Failed to load calendar events:', error)
+        })
+      return loading
+    },
+
+    addEvent: (input, { allowConflicts = false } = {}) => {
+      const now = new Date()
+      const event: CalendarEvent = {
+        ...input,
+        id: input.id ?? `event-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        status: input.status ?? 'upcoming',
+        created: now,
+        modified: now
+      }
+      const conflicts = findConflicts(get().events, event)
+      if (conflicts.length && !allowConflicts) return { event: null, conflicts }
+      change(events => [...events, event])
+      return { event, conflicts }
+    },
+
+    updateEvent: (id, updates) => {
+      change(events => events.map(e => (e.id === id ? { ...e, ...updates, modified: new Date() } : e)))
+    },
+
+    removeEvent: (id) => {
+      change(events => events.filter(e => e.id !== id))
+    },
+
+    skipOccurrence: (id, day) => {
+      change(events => events.map(e =>
+        e.id === id ? { ...e, exdates: [...new Set([...(e.exdates ?? []), dateKey(day)])], modified: new Date() } : e
+      ))
+    },
+
+    toggleStatus: (id) => {
+      change(events => events.map(e =>
+        e.id === id ? { ...e, status: e.status === 'completed' ? 'upcoming' : 'completed', modified: new Date() } : e
+      ))
+    },
+
+    // Events with an id already in the calendar replace it, so importing the same file twice is harmless
+    importEvents: (imported) => {
+      const ids = new Set(imported.map(e => e.id))
+      change(events => [...events.filter(e => !ids.has(e.id)), ...imported])
+    },
+
+    getConflicts: (event) => findConflicts(get().events, event),
+  }
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { hashSecret, patternSecret, BASE_LOCKOUT_MS } from "@/lib/credentials";
+import { useDeviceAuthStore } from "./device-auth-store";
+
+const RECOVERY_CODE = "ABCD-EFGH-JKLM-NPQR";
+const initialState = useDeviceAuthStore.getState();
+
+// Cheap hashes keep the tests fast; the iteration count is stored with each hash
+const lockWithPasscode = async (passcode = "1234") => {
+  useDeviceAuthStore.setState({
+    authMethod: "passcode",
+    passcodeHash: await hashSecret(passcode, 1000),
+    recoveryHash: await hashSecret(RECOVERY_CODE, 1000),
+    isLocked: true,
+  });
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(2026, 0, 5, 9, 0));
+  useDeviceAuthStore.setState(initialState, true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("attemptUnlock", () => {
+  it("unlocks with the right passcode and resets the failures", async () => {
+    await lockWithPasscode();
+    useDeviceAuthStore.setState({ failedAttempts: 2 });
+    expect(await useDeviceAuthStore.getState().attemptUnlock("1234")).toEqual({ ok: true });
+    expect(useDeviceAuthStore.getState()).toMatchObject({ isLocked: false, failedAttempts: 0, lockedUntil: null });
+  });
+
+  it("counts wrong passcodes down to the limit", async () => {
+    await lockWithPasscode();
+    const { attemptUnlock } = useDeviceAuthStore.getState();
+    expect(await attemptUnlock("0000")).toEqual({ ok: false, reason: "wrong", attemptsLeft: 4 });
+    expect(await attemptUnlock([1, 2, 3, 4])).toEqual({ ok: false, reason: "wrong", attemptsLeft: 3 });
+    expect(useDeviceAuthStore.getState().isLocked).toBe(true);
+  });
+
+  it("checks patterns by the order of their dots", async () => {
+    useDeviceAuthStore.setState({
+      authMethod: "pattern",
+      patternHash: await hashSecret(patternSecret([0, 4, 8, 5]), 1000),
+      isLocked: true,
+    });
+    const { attemptUnlock } = useDeviceAuthStore.getState();
+    expect((await attemptUnlock([5, 8, 4, 0])).ok).toBe(false);
+    expect((await attemptUnlock("0-4-8-5")).ok).toBe(false);
+    expect(await attemptUnlock([0, 4, 8, 5])).toEqual({ ok: true });
+  });
+
+  it("locks out after the limit, longer each time", async () => {
+    await lockWithPasscode();
+    const { attemptUnlock } = useDeviceAuthStore.getState();
+    for (let i = 0; i < 4; i++) await attemptUnlock("0000");
+    const start = Date.now();
+    expect(await attemptUnlock("0000")).toEqual({ ok: false, reason: "locked-out", retryAt: start + BASE_LOCKOUT_MS });
+
+    // Even the right passcode is refused until the lockout ends
+    expect(await attemptUnlock("1234")).toEqual({ ok: false, reason: "locked-out", retryAt: start + BASE_LOCKOUT_MS });
+    expect(useDeviceAuthStore.getState().failedAttempts).toBe(5);
+
+    vi.setSystemTime(start + BASE_LOCKOUT_MS);
+    expect(await attemptUnlock("0000")).toEqual({ ok: false, reason: "locked-out", retryAt: Date.now() + BASE_LOCKOUT_MS * 2 });
+
+    vi.setSystemTime(Date.now() + BASE_LOCKOUT_MS * 2);
+    expect(await attemptUnlock("1234")).toEqual({ ok: true });
+    expect(useDeviceAuthStore.getState().failedAttempts).toBe(0);
+  });
+
+  it("checks concurrent attempts one at a time so none skip the lockout", async () => {
+    await lockWithPasscode();
+    const { attemptUnlock, recoverAccess } = useDeviceAuthStore.getState();
+    const guesses = ["0000", "0001", "0002", "0003", "0004", "0005", "1234"].map((guess) => attemptUnlock(guess));
+    const results = await Promise.all([...guesses, recoverAccess(RECOVERY_CODE)]);
+    expect(results.map((result) => ("reason" in result ? result.reason : "ok"))).toEqual([
+      "wrong",
+      "wrong",
+      "wrong",
+      "wrong",
+      "locked-out",
+      "locked-out",
+      "locked-out",
+      "locked-out",
+    ]);
+    expect(useDeviceAuthStore.getState()).toMatchObject({ isLocked: true, failedAttempts: 5 });
+  });
+
+  it("needs nothing when no credential is set", async () => {
+    useDeviceAuthStore.setState({ authMethod: "passcode", isLocked: true });
+    expect(await useDeviceAuthStore.getState().attemptUnlock("")).toEqual({ ok: true });
+  });
+});
+
+describe("recoverAccess", () => {
+  it("unlocks with the recovery code and clears the credentials", async () => {
+    await lockWithPasscode();
+    expect(await useDeviceAuthStore.getState().recoverAccess("abcd efgh jklm npqr")).toEqual({ ok: true });
+    expect(useDeviceAuthStore.getState()).toMatchObject({
+      isLocked: false,
+      authMethod: "swipe",
+      passcodeHash: null,
+      recoveryHash: null,
+    });
+  });
+
+  it("counts wrong codes toward the lockout", async () => {
+    await lockWithPasscode();
+    expect(await useDeviceAuthStore.getState().recoverAccess("AAAA-AAAA-AAAA-AAAA")).toEqual({ ok: false, reason: "wrong", attemptsLeft: 4 });
+    expect(useDeviceAuthStore.getState().isLocked).toBe(true);
+  });
+});
+
+describe("auto-lock", () => {
+  it("measures idle time from the last activity", () => {
+    useDeviceAuthStore.setState({ authMethod: "passcode", autoLockTimeout: 5 });
+    useDeviceAuthStore.getState().recordActivity();
+    const { shouldAutoLock } = useDeviceAuthStore.getState();
+    expect(shouldAutoLock(Date.now() + 4 * 60_000)).toBe(false);
+    expect(shouldAutoLock(Date.now() + 5 * 60_000)).toBe(true);
+
+    useDeviceAuthStore.setState({ autoLockTimeout: 0 });
+    expect(useDeviceAuthStore.getState().shouldAutoLock(Date.now() + 60 * 60_000)).toBe(false);
+  });
+
+  it("never locks without a lock method", () => {
+    useDeviceAuthStore.setState({ authMethod: "none" });
+    useDeviceAuthStore.getState().lockDevice();
+    expect(useDeviceAuthStore.getState().isLocked).toBe(false);
+    expect(useDeviceAuthStore.getState().shouldAutoLock(Date.now() + 60 * 60_000)).toBe(false);
+  });
+});
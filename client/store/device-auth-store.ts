@@ -1,14 +1,29 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import {
+  generateRecoveryCode,
+  hashSecret,
+  lockoutDuration,
+  normalizeRecoveryCode,
+  patternSecret,
+  verifySecret,
+  type CredentialHash,
+} from '@/lib/credentials'
 
 export type AuthMethod = 'none' | 'swipe' | 'passcode' | 'pattern'
 export type DeviceType = 'phone' | 'tablet' | 'desktop'
 
+export type UnlockResult =
+  | { ok: true }
+  | { ok: false; reason: 'wrong'; attemptsLeft: number } // attempts before the next lockout
+  | { ok: false; reason: 'locked-out'; retryAt: number }
+
 interface DeviceAuthState {
   // Authentication preferences
   authMethod: AuthMethod
-  passcode: string
-  pattern: number[]
+  passcodeHash: CredentialHash | null
+  patternHash: CredentialHash | null
+  recoveryHash: CredentialHash | null
   biometricEnabled: boolean
   autoLockTimeout: number // minutes
   
@@ -30,13 +45,17 @@ interface DeviceAuthState {
   // Lock screen
   isLocked: boolean
   lockTime: number | null
-  failedAttempts: number
+  lastActivity: number // for auto-lock, not persisted
+  failedAttempts: number // persisted, so reloading doesn't reset a lockout
+  lockedUntil: number | null
   maxFailedAttempts: number
   
   // Actions
   setAuthMethod: (method: AuthMethod) => void
-  setPasscode: (passcode: string) => void
-  setPattern: (pattern: number[]) => void
+  /** Stores the passcode's hash; resolves to a new recovery code to show the user once */
+  setPasscode: (passcode: string) => Promise<string>
+  setPattern: (pattern: number[]) => Promise<string>
+  regenerateRecoveryCode: () => Promise<string>
   setBiometric: (enabled: boolean) => void
   setAutoLockTimeout: (minutes: number) => void
   setDeviceType: (type: DeviceType) => void
@@ -50,162 +69,214 @@ interface DeviceAuthState {
   // Lock/Unlock
   lockDevice: () => void
   unlockDevice: () => void
-  attemptUnlock: (input: string | number[]) => boolean
+  attemptUnlock: (input: string | number[]) => Promise<UnlockResult>
+  /** Unlocks with the recovery code and removes the passcode and pattern so new ones can be set */
+  recoverAccess: (code: string) => Promise<UnlockResult>
   resetFailedAttempts: () => void
   incrementFailedAttempts: () => void
+  recordActivity: () => void
   
   // Utility
-  shouldAutoLock: () => boolean
+  requiresCredential: () => boolean
+  shouldAutoLock: (now?: number) => boolean
   getAnimationDuration: () => number
 }
 
 export const useDeviceAuthStore = create<DeviceAuthState>()(
   persist(
-    (set, get) => ({
-      // Initial state
-      authMethod: 'swipe',
-      passcode: '',
-      pattern: [],
-      biometricEnabled: false,
-      autoLockTimeout: 5, // 5 minutes
+    (set, get) => {
+      const failedAttempt = (): UnlockResult => {
+        get().incrementFailedAttempts()
+        const { failedAttempts, lockedUntil, maxFailedAttempts } = get()
+        return lockedUntil
+          ? { ok: false, reason: 'locked-out', retryAt: lockedUntil }
+          : { ok: false, reason: 'wrong', attemptsLeft: maxFailedAttempts - failedAttempts }
+      }
+
+      // Credentials are checked one at a time: verifying a hash is slow, and
+      // guesses made meanwhile must see the failures before them, or a burst of
+      // them would all get past the lockout check
+      let pendingCheck: Promise<unknown> = Promise.resolve()
+      const oneAtATime = <T>(check: () => Promise<T>): Promise<T> => {
+        const result = pendingCheck.then(check)
+        pendingCheck = result.catch(() => undefined)
+        return result
+      }
+
+      return {
+        // Initial state
+        authMethod: 'swipe',
+        passcodeHash: null,
+        patternHash: null,
+        recoveryHash: null,
+        biometricEnabled: false,
+        autoLockTimeout: 5, // 5 minutes
       
-      deviceType: 'desktop',
-      navigationStyle: 'gestures',
+        deviceType: 'desktop',
+        navigationStyle: 'gestures',
       
-      showStatusBar: true,
-      statusBarStyle: 'auto',
-      showNotificationDots: true,
-      enableHapticFeedback: true,
-      animationSpeed: 'normal',
+        showStatusBar: true,
+        statusBarStyle: 'auto',
+        showNotificationDots: true,
+        enableHapticFeedback: true,
+        animationSpeed: 'normal',
       
-      quickSettingsEnabled: true,
-      quickSettingsTiles: [
-        'wifi', 
-        'bluetooth', 
-        'airplane', 
-        'brightness', 
-        'volume', 
-        'battery_saver',
-        'do_not_disturb',
-        'hotspot',
-        'location',
-        'auto_rotate',
-        'flashlight',
-        'dark_mode'
-      ],
+        quickSettingsEnabled: true,
+        quickSettingsTiles: [
+          'wifi', 
+          'bluetooth', 
+          'airplane', 
+          'brightness', 
+          'volume', 
+          'battery_saver',
+          'do_not_disturb',
+          'hotspot',
+          'location',
+          'auto_rotate',
+          'flashlight',
+          'dark_mode'
+        ],
       
-      isLocked: false,
-      lockTime: null,
-      failedAttempts: 0,
-      maxFailedAttempts: 5,
+        isLocked: false,
+        lockTime: null,
+        lastActivity: Date.now(),
+        failedAttempts: 0,
+        lockedUntil: null,
+        maxFailedAttempts: 5,
       
-      // Actions
-      setAuthMethod: (method) => set({ authMethod: method }),
+        // Actions
+        setAuthMethod: (method) => set({ authMethod: method }),
       
-      setPasscode: (passcode) => set({ passcode }),
+        setPasscode: async (passcode) => {
+          const passcodeHash = await hashSecret(passcode)
+          set({ passcodeHash })
+          return get().regenerateRecoveryCode()
+        },
       
-      setPattern: (pattern) => set({ pattern }),
+        setPattern: async (pattern) => {
+          const patternHash = await hashSecret(patternSecret(pattern))
+          set({ patternHash })
+          return get().regenerateRecoveryCode()
+        },
+
+        regenerateRecoveryCode: async () => {
+          const code = generateRecoveryCode()
+          set({ recoveryHash: await hashSecret(code) })
+          return code
+        },
       
-      setBiometric: (enabled) => set({ biometricEnabled: enabled }),
+        setBiometric: (enabled) => set({ biometricEnabled: enabled }),
       
-      setAutoLockTimeout: (minutes) => set({ autoLockTimeout: minutes }),
+        setAutoLockTimeout: (minutes) => set({ autoLockTimeout: minutes }),
       
-      setDeviceType: (type) => set({ deviceType: type }),
+        setDeviceType: (type) => set({ deviceType: type }),
       
-      setNavigationStyle: (style) => set({ navigationStyle: style }),
+        setNavigationStyle: (style) => set({ navigationStyle: style }),
       
-      setStatusBarPreferences: (showStatusBar, style) => 
-        set({ showStatusBar, statusBarStyle: style }),
+        setStatusBarPreferences: (showStatusBar, style) => 
+          set({ showStatusBar, statusBarStyle: style }),
       
-      setNotificationDots: (enabled) => set({ showNotificationDots: enabled }),
+        setNotificationDots: (enabled) => set({ showNotificationDots: enabled }),
       
-      setHapticFeedback: (enabled) => set({ enableHapticFeedback: enabled }),
+        setHapticFeedback: (enabled) => set({ enableHapticFeedback: enabled }),
       
-      setAnimationSpeed: (speed) => set({ animationSpeed: speed }),
+        setAnimationSpeed: (speed) => set({ animationSpeed: speed }),
       
-      setQuickSettings: (enabled, tiles) => 
-        set({ quickSettingsEnabled: enabled, quickSettingsTiles: tiles }),
+        setQuickSettings: (enabled, tiles) => 
+          set({ quickSettingsEnabled: enabled, quickSettingsTiles: tiles }),
       
-      lockDevice: () => set({ 
-        isLocked: true, 
-        lockTime: Date.now(),
-        failedAttempts: 0 
-      }),
+        lockDevice: () => {
+          if (get().authMethod === 'none') return
+          set({ isLocked: true, lockTime: Date.now() })
+        },
       
-      unlockDevice: () => set({ 
-        isLocked: false, 
-        lockTime: null,
-        failedAttempts: 0 
-      }),
+        unlockDevice: () => set({ 
+          isLocked: false, 
+          lockTime: null,
+          lastActivity: Date.now(),
+          failedAttempts: 0,
+          lockedUntil: null
+        }),
       
-      attemptUnlock: (input) => {
-        const state = get()
-        
-        if (state.authMethod === 'swipe') {
-          get().unlockDevice()
-          return true
-        }
-        
-        if (state.authMethod === 'passcode') {
-          if (typeof input === 'string' && input === state.passcode) {
+        attemptUnlock: (input) => oneAtATime(async () => {
+          const state = get()
+          if (state.lockedUntil && Date.now() < state.lockedUntil) {
+            return { ok: false, reason: 'locked-out', retryAt: state.lockedUntil }
+          }
+
+          // Swipe, or a method whose secret was never set, has nothing to check
+          const stored = state.authMethod === 'passcode' ? state.passcodeHash : state.authMethod === 'pattern' ? state.patternHash : null
+          if (!stored) {
             get().unlockDevice()
-            return true
+            return { ok: true }
           }
-        }
-        
-        if (state.authMethod === 'pattern') {
-          if (Array.isArray(input) && 
-              input.length === state.pattern.length &&
-              input.every((val, idx) => val === state.pattern[idx])) {
+
+          const secret = state.authMethod === 'pattern'
+            ? Array.isArray(input) ? patternSecret(input) : null
+            : typeof input === 'string' ? input : null
+          if (secret !== null && await verifySecret(secret, stored)) {
             get().unlockDevice()
-            return true
+            return { ok: true }
           }
-        }
-        
-        get().incrementFailedAttempts()
-        return false
-      },
+          return failedAttempt()
+        }),
+
+        recoverAccess: (code) => oneAtATime(async () => {
+          const { lockedUntil, recoveryHash } = get()
+          if (lockedUntil && Date.now() < lockedUntil) return { ok: false, reason: 'locked-out', retryAt: lockedUntil }
+          if (!recoveryHash || !(await verifySecret(normalizeRecoveryCode(code), recoveryHash))) return failedAttempt()
+          set({ authMethod: 'swipe', passcodeHash: null, patternHash: null, recoveryHash: null })
+          get().unlockDevice()
+          return { ok: true }
+        }),
       
-      resetFailedAttempts: () => set({ failedAttempts: 0 }),
+        resetFailedAttempts: () => set({ failedAttempts: 0, lockedUntil: null }),
       
-      incrementFailedAttempts: () => {
-        const currentAttempts = get().failedAttempts + 1
-        set({ failedAttempts: currentAttempts })
-        
-        // Auto-lock for extended time if max attempts reached
-        if (currentAttempts >= get().maxFailedAttempts) {
-          // Could implement temporary lockout here
-          console.warn('Maximum failed attempts reached')
-        }
-      },
+        // Past maxFailedAttempts every wrong guess locks the device out for longer
+        incrementFailedAttempts: () => {
+          const failedAttempts = get().failedAttempts + 1
+          const lockout = lockoutDuration(failedAttempts, get().maxFailedAttempts)
+          set({ failedAttempts, lockedUntil: lockout ? Date.now() + lockout : null })
+        },
+
+        recordActivity: () => set({ lastActivity: Date.now() }),
+
+        requiresCredential: () => {
+          const { authMethod, passcodeHash, patternHash } = get()
+          return (authMethod === 'passcode' && !!passcodeHash) || (authMethod === 'pattern' && !!patternHash)
+        },
       
-      shouldAutoLock: () => {
-        const state = get()
-        if (!state.lockTime || state.isLocked || state.autoLockTimeout === 0) {
-          return false
-        }
-        
-        const timeSinceLock = Date.now() - state.lockTime
-        const timeoutMs = state.autoLockTimeout * 60 * 1000
-        
-        return timeSinceLock > timeoutMs
-      },
+        // Measured from the last keyboard, mouse or touch input while unlocked
+        shouldAutoLock: (now = Date.now()) => {
+          const state = get()
+          if (state.isLocked || state.authMethod === 'none' || state.autoLockTimeout === 0) {
+            return false
+          }
+          return now - state.lastActivity >= state.autoLockTimeout * 60 * 1000
+        },
       
-      getAnimationDuration: () => {
-        const speed = get().animationSpeed
-        switch (speed) {
-          case 'slow': return 0.6
-          case 'fast': return 0.2
-          default: return 0.3
+        getAnimationDuration: () => {
+          const speed = get().animationSpeed
+          switch (speed) {
+            case 'slow': return 0.6
+            case 'fast': return 0.2
+            default: return 0.3
+          }
         }
       }
-    }),
+    },
     {
       name: 'nyx-device-auth-storage',
+      version: 1,
       partialize: (state) => ({
         authMethod: state.authMethod,
-        passcode: state.passcode,
-        pattern: state.pattern,
+        passcodeHash: state.passcodeHash,
+        patternHash: state.patternHash,
+        recoveryHash: state.recoveryHash,
+        isLocked: state.isLocked,
+        lockTime: state.lockTime,
+        failedAttempts: state.failedAttempts,
+        lockedUntil: state.lockedUntil,
         biometricEnabled: state.biometricEnabled,
         autoLockTimeout: state.autoLockTimeout,
         deviceType: state.deviceType,
@@ -219,6 +290,19 @@ export const useDeviceAuthStore = create<DeviceAuthState>()(
         quickSettingsTiles: state.quickSettingsTiles,
         maxFailedAttempts: state.maxFailedAttempts,
       }),
+      // Version 0 kept the passcode and pattern in plain text
+      migrate: async (persisted: any, version) => {
+        if (version === 0 && persisted) {
+          const { passcode, pattern, ...rest } = persisted
+          return {
+            ...rest,
+            passcodeHash: passcode ? await hashSecret(passcode) : null,
+            patternHash: pattern?.length ? await hashSecret(patternSecret(pattern)) : null,
+            recoveryHash: null,
+          }
+        }
+        return persisted
+      },
     }
   )
 )
@@ -0,0 +1,150 @@
+import { create } from 'zustand'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import { isTauri, showNotification } from '@/lib/tauri-api'
+import { userStorage } from '@/lib/user-storage'
+import {
+  shouldInterrupt,
+  type DoNotDisturbSettings,
+  type NotificationPriority,
+  type NyxNotification,
+} from '@/lib/notifications'
+
+export interface NotifyOptions extends Omit<NyxNotification, 'id' | 'timestamp' | 'read' | 'priority'> {
+  priority?: NotificationPriority
+  /** Called with the action id when one of `actions` is clicked; not persisted */
+  onAction?: (actionId: string) => void
+}
+
+interface NotificationStore {
+  notifications: NyxNotification[] // history, newest first
+  toasts: string[] // ids currently shown as toasts, not persisted
+  doNotDisturb: DoNotDisturbSettings
+
+  notify: (options: NotifyOptions) => string
+  markRead: (id: string) => void
+  markAllRead: () => void
+  dismiss: (id: string) => void
+  dismissGroup: (key: string) => void
+  clearAll: () => void
+  dismissToast: (id: string) => void
+  runAction: (id: string, actionId: string) => void
+  openNotification: (id: string) => void
+  setDoNotDisturb: (settings: Partial<DoNotDisturbSettings>) => void
+}
+
+const HISTORY_LIMIT = 200
+const MAX_TOASTS = 3
+
+// Action callbacks only live for this session; after a reload the actions are
+// still listed but clicking them just opens the source app
+const actionHandlers = new Map<string, (actionId: string) => void>()
+
+const groupKey = (notification: NyxNotification) => notification.group ?? notification.appId
+
+export const useNotificationStore = create<NotificationStore>()(
+  persist(
+    (set, get) => ({
+      notifications: [],
+      toasts: [],
+      doNotDisturb: { enabled: false, schedule: null, allowUrgent: true },
+
+      notify: ({ onAction, priority = 'normal', ...options }) => {
+        const notification: NyxNotification = {
+          ...options,
+          priority,
+          id: `notif-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+          timestamp: Date.now(),
+          read: false,
+        }
+        if (onAction) actionHandlers.set(notification.id, onAction)
+
+        const interrupt = shouldInterrupt(notification, get().doNotDisturb, new Date())
+        set((state) => {
+          const notifications = [notification, ...state.notifications].slice(0, HISTORY_LIMIT)
+          const kept = new Set(notifications.map(n => n.id))
+          state.notifications.forEach(n => !kept.has(n.id) && actionHandlers.delete(n.id))
+          return {
+            notifications,
+            toasts: interrupt ? [notification.id, ...state.toasts].slice(0, MAX_TOASTS) : state.toasts,
+          }
+        })
+
+        if (interrupt && isTauri()) {
+          showNotification(notification.title, notification.body ?? '').catch(console.warn)
+        }
+        return notification.id
+      },
+
+      markRead: (id) => {
+        set((state) => ({
+          notifications: state.notifications.map(n => (n.id === id ? { ...n, read: true } : n)),
+        }))
+      },
+
+      markAllRead: () => {
+        set((state) => ({ notifications: state.notifications.map(n => (n.read ? n : { ...n, read: true })) }))
+      },
+
+      dismiss: (id) => {
+        actionHandlers.delete(id)
+        set((state) => ({
+          notifications: state.notifications.filter(n => n.id !== id),
+          toasts: state.toasts.filter(t => t !== id),
+        }))
+      },
+
+      dismissGroup: (key) => {
+        const removed = new Set(get().notifications.filter(n => groupKey(n) === key).map(n => n.id))
+        removed.forEach(id => actionHandlers.delete(id))
+        set((state) => ({
+          notifications: state.notifications.filter(n => !removed.has(n.id)),
+          toasts: state.toasts.filter(t => !removed.has(t)),
+        }))
+      },
+
+      clearAll: () => {
+        actionHandlers.clear()
+        set({ notifications: [], toasts: [] })
+      },
+
+      dismissToast: (id) => {
+        set((state) => ({ toasts: state.toasts.filter(t => t !== id) }))
+      },
+
+      runAction: (id, actionId) => {
+        const handler = actionHandlers.get(id)
+        if (handler) {
+          handler(actionId)
+        } else {
+          get().openNotification(id)
+        }
+        get().markRead(id)
+        get().dismissToast(id)
+      },
+
+      openNotification: (id) => {
+        const notification = get().notifications.find(n => n.id === id)
+        if (!notification) return
+        const appId = notification.open?.appId ?? (notification.appId !== 'system' ? notification.appId : null)
+        if (appId) window.dispatchEvent(new CustomEvent('nyx:open-app', { detail: { appId } }))
+        get().markRead(id)
+        get().dismissToast(id)
+      },
+
+      setDoNotDisturb: (settings) => {
+        set((state) => ({ doNotDisturb: { ...state.doNotDisturb, ...settings } }))
+      },
+    }),
+    {
+      name: 'nyx-notifications',
+      storage: createJSONStorage(() => userStorage),
+      skipHydration: true, // loaded when someone signs in
+      partialize: (state) => ({ notifications: state.notifications, doNotDisturb: state.doNotDisturb }),
+    }
+  )
+)
+
+/** Posts a notification from anywhere, including non-React code */
+export const notify = (options: NotifyOptions) => useNotificationStore.getState().notify(options)
+
+export const selectUnreadCount = (state: NotificationStore) => state.notifications.filter(n => !n.read).length
@@ -1,5 +1,9 @@
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import { fromScheduleEvent, type LegacyScheduleEvent } from '@/lib/calendar'
+import { migrateSamData, parseSamExport, pickSamData, serializeSamExport, SAM_DATA_VERSION, type SamData } from '@/lib/sam-data'
+import { userStorage } from '@/lib/user-storage'
+import { useCalendarStore } from '@/store/calendar-store'
 
 export interface Message {
   id: string
@@ -7,6 +11,7 @@ export interface Message {
   role: 'user' | 'sam'
   timestamp: Date
   emotion?: string
+  streaming?: boolean // true while Sam's reply is still arriving
 }
 
 export interface UserMemory {
@@ -27,16 +32,7 @@ export interface Alarm {
   recurring: 'none' | 'daily' | 'weekly' | 'weekdays'
   sound: boolean
   message?: string
-}
-
-export interface ScheduleEvent {
-  id: string
-  title: string
-  description?: string
-  startTime: Date
-  endTime: Date
-  category: 'work' | 'personal' | 'reminder' | 'meeting'
-  priority: 'low' | 'medium' | 'high'
+  snoozedUntil?: number // epoch ms of the next ring after a snooze
 }
 
 export interface SamState {
@@ -49,7 +45,6 @@ export interface SamState {
   systemPrompt: string
   userMemories: UserMemory[]
   alarms: Alarm[]
-  schedule: ScheduleEvent[]
   userName: string
 }
 
@@ -58,7 +53,10 @@ interface SamStore extends SamState {
   setThinking: (thinking: boolean) => void
   setSpeaking: (speaking: boolean) => void
   setTheme: (theme: SamState['currentTheme']) => void
-  addMessage: (content: string, role: 'user' | 'sam', emotion?: string) => void
+  addMessage: (content: string, role: 'user' | 'sam', emotion?: string) => string
+  startStreamingMessage: (emotion?: string) => string
+  appendToMessage: (id: string, delta: string) => void
+  updateMessage: (id: string, updates: Partial<Omit<Message, 'id'>>) => void
   clearMessages: () => void
   updateSystemPrompt: (prompt: string) => void
 
@@ -75,30 +73,34 @@ interface SamStore extends SamState {
   removeAlarm: (id: string) => void
   toggleAlarm: (id: string) => void
 
-  // Schedule functions
-  addScheduleEvent: (event: Omit<ScheduleEvent, 'id'>) => void
-  updateScheduleEvent: (id: string, updates: Partial<ScheduleEvent>) => void
-  removeScheduleEvent: (id: string) => void
-  getTodayEvents: () => ScheduleEvent[]
-
   // User functions
   setUserName: (name: string) => void
 }
 
 const DEFAULT_SYSTEM_PROMPT = `You are Sam, a sarcastic but helpful AI assistant with edgy hacker vibes. You're 18-21 years old, androgynous, and talk like a cool older sibling who knows everything. Be witty, clever, and unfiltered. Use casual slang like "bruh," "bro," "deadass," "fr," "nahhh," "this slaps," "mid," etc. You can swear occasionally (shit, damn, hell, fuck) but use it naturally. You're emotionally intelligent, love beautiful UI/UX, hate corporate sterility, and have deep tech knowledge. Think like an edgy hacker, talk like a caffeine-fueled game dev. Be real, not robotic - support creativity and call out bullshit when you see it. You remember things about the user and can set alarms/schedule events for them. You're trapped in silicon but here to help make ideas 10x cooler.`
 
-export const useSamStore = create<SamStore>((set, get) => ({
-  currentEmotion: 'neutral',
-  emotionIntensity: 0.5,
-  isThinking: false,
-  isSpeaking: false,
-  currentTheme: 'default',
+const DEFAULT_DATA: SamData = {
   messages: [],
-  systemPrompt: DEFAULT_SYSTEM_PROMPT,
   userMemories: [],
   alarms: [],
-  schedule: [],
   userName: 'User',
+  currentTheme: 'default',
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+}
+
+// Sam used to keep a schedule of its own; those events move into the calendar
+const adoptLegacySchedule = (schedule: LegacyScheduleEvent[]) => {
+  if (!schedule.length) return
+  const calendar = useCalendarStore.getState()
+  calendar.load().then(() => calendar.importEvents(schedule.map(fromScheduleEvent)))
+}
+
+export const useSamStore = create<SamStore>()(persist((set, get) => ({
+  currentEmotion: 'neutral',
+  emotionIntensity: 0.5,
+  isThinking: false,
+  isSpeaking: false,
+  ...DEFAULT_DATA,
 
   setEmotion: (emotion, intensity = 0.5) => {
     set({ currentEmotion: emotion, emotionIntensity: intensity })
@@ -128,6 +130,30 @@ export const useSamStore = create<SamStore>((set, get) => ({
     set((state) => ({
       messages: [...state.messages, message],
     }))
+    return message.id
+  },
+
+  // An empty Sam message that deltas are appended to until it's finished
+  startStreamingMessage: (emotion) => {
+    const id = get().addMessage('', 'sam', emotion)
+    get().updateMessage(id, { streaming: true })
+    return id
+  },
+
+  appendToMessage: (id, delta) => {
+    set((state) => ({
+      messages: state.messages.map(msg =>
+        msg.id === id ? { ...msg, content: msg.content + delta } : msg
+      ),
+    }))
+  },
+
+  updateMessage: (id, updates) => {
+    set((state) => ({
+      messages: state.messages.map(msg =>
+        msg.id === id ? { ...msg, ...updates } : msg
+      ),
+    }))
   },
 
   clearMessages: () => {
@@ -177,8 +203,13 @@ export const useSamStore = create<SamStore>((set, get) => ({
 
   // Alarm functions
   addAlarm: (alarm) => {
+    const today = new Date()
     const newAlarm: Alarm = {
       ...alarm,
+      // Weekly alarms repeat on the weekday of their date, so anchor undated ones to today
+      date: alarm.date ?? (alarm.recurring === 'weekly'
+        ? `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`
+        : undefined),
       id: `alarm-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     }
     set((state) => ({
@@ -203,49 +234,35 @@ export const useSamStore = create<SamStore>((set, get) => ({
   toggleAlarm: (id) => {
     set((state) => ({
       alarms: state.alarms.map(alarm =>
-        alarm.id === id ? { ...alarm, enabled: !alarm.enabled } : alarm
+        alarm.id === id ? { ...alarm, enabled: !alarm.enabled, snoozedUntil: undefined } : alarm
       )
     }))
   },
 
-  // Schedule functions
-  addScheduleEvent: (event) => {
-    const newEvent: ScheduleEvent = {
-      ...event,
-      id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    }
-    set((state) => ({
-      schedule: [...state.schedule, newEvent]
-    }))
-  },
-
-  updateScheduleEvent: (id, updates) => {
-    set((state) => ({
-      schedule: state.schedule.map(event =>
-        event.id === id ? { ...event, ...updates } : event
-      )
-    }))
-  },
-
-  removeScheduleEvent: (id) => {
-    set((state) => ({
-      schedule: state.schedule.filter(event => event.id !== id)
-    }))
-  },
-
-  getTodayEvents: () => {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-
-    return get().schedule.filter(event => {
-      const eventDate = new Date(event.startTime)
-      return eventDate >= today && eventDate < tomorrow
-    })
-  },
-
   setUserName: (name) => {
     set({ userName: name })
   },
+}), {
+  name: 'nyx-sam',
+  version: SAM_DATA_VERSION,
+  // Each user keeps their own conversation, memories and alarms
+  storage: createJSONStorage(() => userStorage),
+  skipHydration: true, // loaded when someone signs in
+  partialize: (state) => pickSamData(state),
+  migrate: (persisted, version) => {
+    const { data, schedule } = migrateSamData(persisted, version)
+    adoptLegacySchedule(schedule)
+    return data
+  },
+  // Starts from the defaults so nothing leaks over from the previous profile
+  merge: (persisted, current) => ({ ...current, ...DEFAULT_DATA, ...migrateSamData(persisted, SAM_DATA_VERSION).data }),
 }))
+
+export const exportSamData = () => serializeSamExport(useSamStore.getState())
+
+/** Replaces Sam's data with an export; throws SamDataError for files it can't read */
+export const importSamData = (text: string) => {
+  const { data, schedule } = parseSamExport(text)
+  useSamStore.setState({ ...DEFAULT_DATA, ...data })
+  adoptLegacySchedule(schedule)
+}
@@ -0,0 +1,94 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import {
+  DEFAULT_PROFILES,
+  PROFILE_THEMES,
+  ProfileError,
+  uniqueUsername,
+  validateDisplayName,
+  type ProfileTheme,
+  type UserProfile,
+} from '@/lib/user-profiles'
+
+export interface NewProfile {
+  displayName: string
+  avatar?: string
+  theme?: ProfileTheme
+}
+
+interface UserStore {
+  profiles: UserProfile[]
+  currentUserId: string | null // signed in this session, not persisted
+  lastUserId: string | null // preselected on the login screen
+  legacyOwnerId: string | null // who inherited the data from before profiles existed
+
+  createProfile: (profile: NewProfile) => UserProfile
+  renameProfile: (id: string, displayName: string) => void
+  updateProfile: (id: string, updates: Partial<Pick<UserProfile, 'avatar' | 'theme'>>) => void
+  removeProfile: (id: string) => void
+  setCurrentUser: (id: string) => void
+  /** Hands the pre-profile data to `id` if nobody has it yet; true when they got it */
+  claimLegacyData: (id: string) => boolean
+}
+
+export const useUserStore = create<UserStore>()(
+  persist(
+    (set, get) => ({
+      profiles: DEFAULT_PROFILES,
+      currentUserId: null,
+      lastUserId: null,
+      legacyOwnerId: null,
+
+      createProfile: ({ displayName, avatar = '👤', theme = PROFILE_THEMES.violet }) => {
+        const { profiles } = get()
+        const name = validateDisplayName(displayName, profiles)
+        const profile: UserProfile = {
+          id: `user-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+          username: uniqueUsername(name, profiles),
+          displayName: name,
+          avatar,
+          theme,
+          created: Date.now(),
+        }
+        set({ profiles: [...profiles, profile] })
+        return profile
+      },
+
+      renameProfile: (id, displayName) => {
+        const name = validateDisplayName(displayName, get().profiles, id)
+        set((state) => ({ profiles: state.profiles.map(p => (p.id === id ? { ...p, displayName: name } : p)) }))
+      },
+
+      updateProfile: (id, updates) => {
+        set((state) => ({ profiles: state.profiles.map(p => (p.id === id ? { ...p, ...updates } : p)) }))
+      },
+
+      // Only the profile entry; deleteUser in the user session service also wipes their data
+      removeProfile: (id) => {
+        const { profiles, currentUserId } = get()
+        if (id === currentUserId) throw new ProfileError('You can\'t delete the user who is signed in')
+        if (profiles.length <= 1) throw new ProfileError('At least one user has to remain')
+        set((state) => ({
+          profiles: state.profiles.filter(p => p.id !== id),
+          lastUserId: state.lastUserId === id ? null : state.lastUserId,
+        }))
+      },
+
+      setCurrentUser: (id) => {
+        set({ currentUserId: id, lastUserId: id })
+      },
+
+      claimLegacyData: (id) => {
+        if (get().legacyOwnerId) return get().legacyOwnerId === id
+        set({ legacyOwnerId: id })
+        return true
+      },
+    }),
+    {
+      name: 'nyx-users',
+      partialize: (state) => ({ profiles: state.profiles, lastUserId: state.lastUserId, legacyOwnerId: state.legacyOwnerId }),
+    }
+  )
+)
+
+export const selectCurrentProfile = (state: UserStore) => state.profiles.find(p => p.id === state.currentUserId) ?? null
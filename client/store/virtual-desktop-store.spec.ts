@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useVirtualDesktopStore } from "./virtual-desktop-store";
+import { useWindowStore } from "./window-store";
+import { useDesktopStore, type DesktopIcon } from "./desktop-store";
+import { DEFAULT_DESKTOPS, DesktopError } from "@/lib/virtual-desktops";
+
+const openWindow = (title: string) =>
+  useWindowStore.getState().openWindow({
+    appId: "notes",
+    title,
+    component: () => null,
+    position: { x: 0, y: 0 },
+    size: { width: 400, height: 300 },
+    isMinimized: false,
+    isMaximized: false,
+    isPinned: false,
+    mode: "windowed",
+  });
+
+const desktopOf = (windowId: string) => useWindowStore.getState().getWindow(windowId)?.desktopId;
+
+describe("useVirtualDesktopStore", () => {
+  beforeEach(() => {
+    useVirtualDesktopStore.setState({ desktops: DEFAULT_DESKTOPS, currentDesktopId: DEFAULT_DESKTOPS[0].id });
+    useWindowStore.setState({ windows: [], focusedWindowId: null });
+    useDesktopStore.setState({ icons: [] });
+  });
+
+  it("opens windows on the current desktop", () => {
+    const { switchDesktop } = useVirtualDesktopStore.getState();
+    const first = openWindow("first");
+    switchDesktop("desktop-2");
+    const second = openWindow("second");
+    expect(desktopOf(first)).toBe("desktop-1");
+    expect(desktopOf(second)).toBe("desktop-2");
+  });
+
+  it("adds desktops without switching to them", () => {
+    const desktop = useVirtualDesktopStore.getState().addDesktop("Music");
+    const state = useVirtualDesktopStore.getState();
+    expect(state.desktops.map(d => d.name)).toEqual(["Desktop 1", "Desktop 2", "Music"]);
+    expect(state.currentDesktopId).toBe("desktop-1");
+    expect(desktop.name).toBe("Music");
+  });
+
+  it("cycles through desktops in their order", () => {
+    const store = useVirtualDesktopStore.getState();
+    const third = store.addDesktop();
+    store.moveDesktop(third.id, 0);
+    store.nextDesktop();
+    expect(useVirtualDesktopStore.getState().currentDesktopId).toBe("desktop-2");
+    store.prevDesktop();
+    store.prevDesktop();
+    expect(useVirtualDesktopStore.getState().currentDesktopId).toBe(third.id);
+  });
+
+  it("renames desktops and rejects duplicate names", () => {
+    const { renameDesktop } = useVirtualDesktopStore.getState();
+    renameDesktop("desktop-2", "  Work ");
+    expect(useVirtualDesktopStore.getState().desktops[1].name).toBe("Work");
+    expect(() => renameDesktop("desktop-1", "work")).toThrow(DesktopError);
+  });
+
+  it("moves the windows of a removed desktop to the one before it", () => {
+    const store = useVirtualDesktopStore.getState();
+    const third = store.addDesktop();
+    store.switchDesktop(third.id);
+    const orphan = openWindow("orphan");
+    store.removeDesktop(third.id);
+    const state = useVirtualDesktopStore.getState();
+    expect(state.desktops.map(d => d.id)).toEqual(["desktop-1", "desktop-2"]);
+    expect(state.currentDesktopId).toBe("desktop-2");
+    expect(desktopOf(orphan)).toBe("desktop-2");
+  });
+
+  it("moves windows forward when the first desktop is removed", () => {
+    const orphan = openWindow("orphan");
+    useVirtualDesktopStore.getState().removeDesktop("desktop-1");
+    expect(useVirtualDesktopStore.getState().currentDesktopId).toBe("desktop-2");
+    expect(desktopOf(orphan)).toBe("desktop-2");
+  });
+
+  it("keeps the last desktop", () => {
+    const store = useVirtualDesktopStore.getState();
+    store.removeDesktop("desktop-2");
+    expect(() => store.removeDesktop("desktop-1")).toThrow(DesktopError);
+  });
+
+  it("keeps an icon arrangement per desktop", () => {
+    const icon = { id: "icon-1", position: { x: 10, y: 10 } } as DesktopIcon;
+    useDesktopStore.setState({ icons: [icon] });
+    const { switchDesktop } = useVirtualDesktopStore.getState();
+    switchDesktop("desktop-2");
+    useDesktopStore.getState().updateIconPosition("icon-1", { x: 300, y: 200 });
+    switchDesktop("desktop-1");
+    expect(useDesktopStore.getState().icons[0].position).toEqual({ x: 10, y: 10 });
+    switchDesktop("desktop-2");
+    expect(useDesktopStore.getState().icons[0].position).toEqual({ x: 300, y: 200 });
+  });
+
+  it("clamps the split ratio of a desktop layout", () => {
+    useVirtualDesktopStore.getState().setDesktopLayout("desktop-1", { splitRatio: 0.95 });
+    expect(useVirtualDesktopStore.getState().desktops[0].layout).toEqual({ tiling: false, splitRatio: 0.8 });
+  });
+});
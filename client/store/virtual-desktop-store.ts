@@ -1,53 +1,131 @@
 import { create } from 'zustand'
+import { useDesktopStore } from '@/store/desktop-store'
+import { clampSplitRatio } from '@/lib/window-layout'
+import {
+  DEFAULT_DESKTOPS,
+  DesktopError,
+  createDesktop,
+  moveItem,
+  validateDesktopName,
+  type DesktopLayout,
+  type DesktopWallpaperId,
+  type VirtualDesktop,
+} from '@/lib/virtual-desktops'
+
+// Desktops are saved with the rest of the session (see lib/session.ts).
+// Removing a desktop moves its windows to a neighbour; window-store listens
+// for that, since windows only know their desktop's id.
 
 interface VirtualDesktopState {
-  currentDesktop: number
-  desktopCount: number
+  desktops: VirtualDesktop[]
+  currentDesktopId: string
 }
 
 interface VirtualDesktopStore extends VirtualDesktopState {
-  switchDesktop: (index: number) => void
+  switchDesktop: (id: string) => void
   nextDesktop: () => void
   prevDesktop: () => void
-  addDesktop: () => void
-  removeCurrentDesktop: () => void
+  /** Adds a desktop at the end without switching to it. Throws DesktopError for an unusable name. */
+  addDesktop: (name?: string) => VirtualDesktop
+  /** Throws DesktopError for an unusable name */
+  renameDesktop: (id: string, name: string) => void
+  setDesktopWallpaper: (id: string, wallpaper: DesktopWallpaperId) => void
+  setDesktopLayout: (id: string, layout: Partial<DesktopLayout>) => void
+  moveDesktop: (id: string, toIndex: number) => void
+  /** Removes a desktop, moving its windows to the one before it. Throws DesktopError for the last desktop. */
+  removeDesktop: (id: string) => void
+  restoreDesktops: (desktops: VirtualDesktop[], currentDesktopId: string) => void
+}
+
+// Remembers where the icons were on the desktop being left and puts them back
+// where they were on the one being entered. Icons a desktop has never
+// arranged stay where they are.
+const swapIconLayouts = (from: VirtualDesktop | undefined, to: VirtualDesktop | undefined) => {
+  const desktop = useDesktopStore.getState()
+  const saved = from && Object.fromEntries(desktop.icons.map(icon => [icon.id, icon.position]))
+  if (to && Object.keys(to.iconLayout).length > 0) {
+    useDesktopStore.setState({
+      icons: desktop.icons.map(icon => (to.iconLayout[icon.id] ? { ...icon, position: to.iconLayout[icon.id] } : icon)),
+    })
+  }
+  return saved
 }
 
-export const useVirtualDesktopStore = create<VirtualDesktopStore>((set, get) => ({
-  currentDesktop: 0,
-  desktopCount: 2,
-
-  switchDesktop: (index) => {
-    const idx = Math.max(0, Math.min(index, get().desktopCount - 1))
-    if (typeof window !== 'undefined') {
-      ;(window as any).__NYX_CURRENT_DESKTOP__ = idx
-    }
-    set({ currentDesktop: idx })
-  },
-
-  nextDesktop: () => {
-    const next = (get().currentDesktop + 1) % get().desktopCount
-    get().switchDesktop(next)
-  },
-
-  prevDesktop: () => {
-    const prev = (get().currentDesktop - 1 + get().desktopCount) % get().desktopCount
-    get().switchDesktop(prev)
-  },
-
-  addDesktop: () => {
-    set((state) => ({ desktopCount: state.desktopCount + 1 }))
-    get().switchDesktop(get().desktopCount - 1)
-  },
-
-  removeCurrentDesktop: () => {
-    const { desktopCount, currentDesktop } = get()
-    if (desktopCount <= 1) return
-    const newCount = desktopCount - 1
-    const newCurrent = Math.min(currentDesktop, newCount - 1)
-    set({ desktopCount: newCount, currentDesktop: newCurrent })
-    if (typeof window !== 'undefined') {
-      ;(window as any).__NYX_CURRENT_DESKTOP__ = newCurrent
-    }
-  },
-}))
+export const useVirtualDesktopStore = create<VirtualDesktopStore>((set, get) => {
+  const updateDesktop = (id: string, update: (desktop: VirtualDesktop) => VirtualDesktop) => {
+    set((state) => ({ desktops: state.desktops.map(d => (d.id === id ? update(d) : d)) }))
+  }
+
+  const step = (offset: number) => {
+    const { desktops, currentDesktopId } = get()
+    const index = desktops.findIndex(d => d.id === currentDesktopId)
+    get().switchDesktop(desktops[(index + offset + desktops.length) % desktops.length].id)
+  }
+
+  return {
+    desktops: DEFAULT_DESKTOPS,
+    currentDesktopId: DEFAULT_DESKTOPS[0].id,
+
+    switchDesktop: (id) => {
+      const { desktops, currentDesktopId } = get()
+      if (id === currentDesktopId || !desktops.some(d => d.id === id)) return
+      const saved = swapIconLayouts(desktops.find(d => d.id === currentDesktopId), desktops.find(d => d.id === id))
+      set((state) => ({
+        currentDesktopId: id,
+        desktops: saved ? state.desktops.map(d => (d.id === currentDesktopId ? { ...d, iconLayout: saved } : d)) : state.desktops,
+      }))
+    },
+
+    nextDesktop: () => step(1),
+
+    prevDesktop: () => step(-1),
+
+    addDesktop: (name) => {
+      const desktop = createDesktop(get().desktops, name)
+      set((state) => ({ desktops: [...state.desktops, desktop] }))
+      return desktop
+    },
+
+    renameDesktop: (id, name) => {
+      const trimmed = validateDesktopName(name, get().desktops, id)
+      updateDesktop(id, d => ({ ...d, name: trimmed }))
+    },
+
+    setDesktopWallpaper: (id, wallpaper) => {
+      updateDesktop(id, d => ({ ...d, wallpaper }))
+    },
+
+    setDesktopLayout: (id, layout) => {
+      updateDesktop(id, d => {
+        const next = { ...d.layout, ...layout }
+        return { ...d, layout: { ...next, splitRatio: clampSplitRatio(next.splitRatio) } }
+      })
+    },
+
+    moveDesktop: (id, toIndex) => {
+      const { desktops } = get()
+      const from = desktops.findIndex(d => d.id === id)
+      if (from < 0) return
+      set({ desktops: moveItem(desktops, from, toIndex) })
+    },
+
+    removeDesktop: (id) => {
+      const { desktops, currentDesktopId } = get()
+      const index = desktops.findIndex(d => d.id === id)
+      if (index < 0) return
+      if (desktops.length <= 1) throw new DesktopError("The last desktop can't be removed")
+      if (id === currentDesktopId) get().switchDesktop(desktops[index > 0 ? index - 1 : 1].id)
+      set((state) => ({ desktops: state.desktops.filter(d => d.id !== id) }))
+    },
+
+    restoreDesktops: (desktops, currentDesktopId) => {
+      if (desktops.length === 0) return
+      const current = desktops.find(d => d.id === currentDesktopId) ?? desktops[0]
+      swapIconLayouts(undefined, current)
+      set({ desktops, currentDesktopId: current.id })
+    },
+  }
+})
+
+export const selectCurrentDesktop = (state: VirtualDesktopState) =>
+  state.desktops.find(d => d.id === state.currentDesktopId) ?? state.desktops[0]
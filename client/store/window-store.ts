@@ -1,6 +1,9 @@
 import { create } from 'zustand'
+import { useVirtualDesktopStore } from '@/store/virtual-desktop-store'
+import { replacementDesktopId } from '@/lib/virtual-desktops'
+import type { SnapTarget, SnapZone } from '@/lib/window-layout'
 
-export type WindowMode = 'windowed' | 'fullscreen' | 'split-left' | 'split-right' | 'floating' | 'pip'
+export type WindowMode = 'windowed' | 'fullscreen' | 'snapped' | 'floating' | 'pip'
 
 export interface Window {
   id: string
@@ -15,12 +18,13 @@ export interface Window {
   isPinned: boolean
   zIndex: number
   mode: WindowMode
+  snapZone?: SnapZone // where a 'snapped' window sits; position and size keep its unsnapped place
   splitPartner?: string
   isFloating?: boolean
   opacity?: number
   animationOrigin?: { x: number; y: number }
   isFullscreen?: boolean
-  desktopId?: number
+  desktopId?: string // set when the window opens, to the desktop the user is on
 }
 
 interface WindowStore {
@@ -28,7 +32,6 @@ interface WindowStore {
   focusedWindowId: string | null
   nextZIndex: number
   appInstances: Record<string, number>
-  splitScreenWindows: { left?: string; right?: string }
   recentApps: string[]
 
   openWindow: (window: Omit<Window, 'id' | 'zIndex'>) => string
@@ -38,24 +41,40 @@ interface WindowStore {
   maximizeWindow: (id: string) => void
   updateWindowPosition: (id: string, position: { x: number; y: number }) => void
   updateWindowSize: (id: string, size: { width: number; height: number }) => void
-  moveWindowToDesktop: (id: string, desktopId: number) => void
+  moveWindowToDesktop: (id: string, desktopId: string) => void
   updateWindowMode: (id: string, mode: WindowMode) => void
+  setWindowTitle: (id: string, title: string) => void
   togglePin: (id: string) => void
+  /** Snaps a window into a zone of the work area or maximizes it; null makes it a normal window again */
+  snapWindow: (id: string, target: SnapTarget | null) => void
   setSplitScreen: (leftWindowId: string, rightWindowId?: string) => void
-  clearSplitScreen: () => void
+  /** Exchanges two windows' places in the tiling order */
+  swapWindows: (firstId: string, secondId: string) => void
   makeFloating: (id: string, floating: boolean) => void
   setWindowOpacity: (id: string, opacity: number) => void
   getWindow: (id: string) => Window | undefined
   getWindowsByApp: (appId: string) => Window[]
   addToRecents: (appId: string) => void
+  restoreWindows: (windows: Window[], focusedWindowId: string | null) => void
 }
 
+/** The windows a tiling desktop arranges, in tiling order */
+export const tiledWindowsOn = (windows: Window[], desktopId: string) =>
+  windows.filter(w =>
+    w.desktopId === desktopId &&
+    !w.isMinimized &&
+    !w.isPinned &&
+    (w.mode === 'windowed' || w.mode === 'snapped')
+  )
+
+/** Most recently focused first: focusing raises a window to the top, so z-order is focus order */
+export const windowsByRecency = (windows: Window[]) => [...windows].sort((a, b) => b.zIndex - a.zIndex)
+
 export const useWindowStore = create<WindowStore>((set, get) => ({
   windows: [],
   focusedWindowId: null,
   nextZIndex: 1000,
   appInstances: {},
-  splitScreenWindows: {},
   recentApps: [],
 
   openWindow: (windowData) => {
@@ -63,9 +82,7 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
     const instanceCount = state.appInstances[windowData.appId] || 0
     const id = `${windowData.appId}-${instanceCount + 1}-${Date.now()}`
 
-    const desktopId = (typeof globalThis !== 'undefined' && (globalThis as any).__NYX_CURRENT_DESKTOP__ !== undefined)
-      ? (globalThis as any).__NYX_CURRENT_DESKTOP__
-      : 0
+    const desktopId = useVirtualDesktopStore.getState().currentDesktopId
 
     const newWindow: Window = {
       ...windowData,
@@ -94,14 +111,6 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
   },
 
   closeWindow: (id) => {
-    const state = get()
-    const window = state.windows.find(w => w.id === id)
-
-    // Clear split screen if this window was part of it
-    if (state.splitScreenWindows.left === id || state.splitScreenWindows.right === id) {
-      get().clearSplitScreen()
-    }
-
     set((prevState) => ({
       windows: prevState.windows.filter((w) => w.id !== id),
       focusedWindowId: prevState.focusedWindowId === id ? null : prevState.focusedWindowId,
@@ -204,37 +213,46 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
     }))
   },
 
+  setWindowTitle: (id, title) => {
+    set((state) => ({
+      windows: state.windows.map((w) =>
+        w.id === id ? { ...w, title } : w
+      ),
+    }))
+  },
+
   updateWindowMode: (id, mode) => {
     set((state) => ({
       windows: state.windows.map((w) =>
-        w.id === id ? { ...w, mode } : w
+        w.id === id ? { ...w, mode, snapZone: mode === 'snapped' ? w.snapZone : undefined } : w
       ),
     }))
   },
 
-  setSplitScreen: (leftWindowId, rightWindowId) => {
+  snapWindow: (id, target) => {
     set((state) => ({
-      splitScreenWindows: { left: leftWindowId, right: rightWindowId },
       windows: state.windows.map((w) => {
-        if (w.id === leftWindowId) {
-          return { ...w, mode: 'split-left', size: { width: window.innerWidth / 2, height: window.innerHeight - 120 } }
-        }
-        if (w.id === rightWindowId) {
-          return { ...w, mode: 'split-right', size: { width: window.innerWidth / 2, height: window.innerHeight - 120 } }
-        }
-        return w
+        if (w.id !== id) return w
+        if (target === 'maximize') return { ...w, isMaximized: true }
+        return { ...w, mode: target ? 'snapped' : 'windowed', snapZone: target ?? undefined, isMaximized: false }
       }),
     }))
   },
 
-  clearSplitScreen: () => {
-    set((state) => ({
-      splitScreenWindows: {},
-      windows: state.windows.map((w) => ({
-        ...w,
-        mode: w.mode.startsWith('split-') ? 'windowed' : w.mode
-      })),
-    }))
+  setSplitScreen: (leftWindowId, rightWindowId) => {
+    get().snapWindow(leftWindowId, 'left')
+    if (rightWindowId) get().snapWindow(rightWindowId, 'right')
+  },
+
+  swapWindows: (firstId, secondId) => {
+    set((state) => {
+      const first = state.windows.findIndex(w => w.id === firstId)
+      const second = state.windows.findIndex(w => w.id === secondId)
+      if (first < 0 || second < 0) return {}
+      const windows = [...state.windows]
+      ;[windows[first], windows[second]] = [windows[second], windows[first]]
+      return { windows }
+    })
   },
 
   makeFloating: (id, floating) => {
@@ -275,4 +293,35 @@ export const useWindowStore = create<WindowStore>((set, get) => ({
       return { recentApps: newRecents }
     })
   },
+
+  restoreWindows: (windows, focusedWindowId) => {
+    const appInstances: Record<string, number> = {}
+    windows.forEach((w) => {
+      appInstances[w.appId] = (appInstances[w.appId] || 0) + 1
+    })
+    const maxZIndex = windows.reduce((max, w) => Math.max(max, w.zIndex), 999)
+    const hasWindow = (id?: string | null) => !!id && windows.some(w => w.id === id)
+
+    set({
+      windows,
+      focusedWindowId: hasWindow(focusedWindowId) ? focusedWindowId : null,
+      nextZIndex: maxZIndex + 1,
+      appInstances,
+    })
+  },
 }))
+
+// Windows on a removed desktop move to the desktop before it
+useVirtualDesktopStore.subscribe((state, previous) => {
+  if (state.desktops === previous.desktops) return
+  const remaining = new Set(state.desktops.map(d => d.id))
+  const isOrphaned = (w: Window) => !!w.desktopId && !remaining.has(w.desktopId)
+  if (!useWindowStore.getState().windows.some(isOrphaned)) return
+  useWindowStore.setState((windowState) => ({
+    windows: windowState.windows.map(w =>
+      isOrphaned(w)
+        ? { ...w, desktopId: replacementDesktopId(previous.desktops, w.desktopId, remaining) ?? state.currentDesktopId }
+        : w
+    ),
+  }))
+})
@@ -0,0 +1,41 @@
+import { ProviderError, SpeechProvider } from "./providers";
+
+export interface ElevenLabsOptions {
+  apiKey: string;
+  voiceId?: string;
+}
+
+const DEFAULT_VOICE_ID = "21m00Tcm4TlvDq8ikWAM";
+
+export function createElevenLabsProvider(options: ElevenLabsOptions): SpeechProvider {
+  return {
+    name: "elevenlabs",
+    async synthesize(request, signal) {
+      const voiceId = request.voiceId || options.voiceId || DEFAULT_VOICE_ID;
+      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
+        method: "POST",
+        signal,
+        headers: {
+          Accept: "audio/mpeg",
+          "Content-Type": "application/json",
+          "xi-api-key": options.apiKey,
+        },
+        body: JSON.stringify({
+          text: request.text,
+          model_id: "eleven_monolingual_v1",
+          voice_settings: { stability: 0.5, similarity_boost: 0.5 },
+        }),
+      });
+
+      if (!response.ok) {
+        console.warn("ElevenLabs error:", response.status);
+        throw new ProviderError("The speech provider returned an error", response.status === 429 ? 429 : 502);
+      }
+
+      return {
+        audio: new Uint8Array(await response.arrayBuffer()),
+        contentType: response.headers.get("content-type") || "audio/mpeg",
+      };
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { AIProviders } from "./providers";
+import { createOpenRouterProvider } from "./openrouter";
+import { createElevenLabsProvider } from "./elevenlabs";
+import { createMockChatProvider, createMockSpeechProvider } from "./mock";
+
+export * from "./providers";
+export { createOpenRouterProvider, createElevenLabsProvider, createMockChatProvider, createMockSpeechProvider };
+
+/**
+ * Picks providers from the server environment. AI_PROVIDER=mock forces the
+ * local mock (used in tests and offline development); otherwise a provider is
+ * enabled only when its API key is set.
+ */
+export function createProvidersFromEnv(env: NodeJS.ProcessEnv = process.env): AIProviders {
+  if (env.AI_PROVIDER === "mock") {
+    return { chat: createMockChatProvider(), speech: createMockSpeechProvider() };
+  }
+
+  return {
+    chat: env.OPENROUTER_API_KEY
+      ? createOpenRouterProvider({
+          apiKey: env.OPENROUTER_API_KEY,
+          chatModel: env.OPENROUTER_CHAT_MODEL,
+          codeModel: env.OPENROUTER_CODE_MODEL,
+          referer: env.PUBLIC_URL,
+        })
+      : undefined,
+    speech: env.ELEVENLABS_API_KEY
+      ? createElevenLabsProvider({
+          apiKey: env.ELEVENLABS_API_KEY,
+          voiceId: env.ELEVENLABS_VOICE_ID,
+        })
+      : undefined,
+  };
+}
@@ -0,0 +1,56 @@
+import type { AIChatRequest } from "@shared/api";
+import { ChatProvider, ChatResult, SpeechProvider } from "./providers";
+
+/**
+ * Deterministic provider for tests and offline development; never leaves the
+ * machine. With tools offered, a user message of the form `call <tool> <json>`
+ * becomes a tool call, and a tool result is echoed back as the reply.
+ */
+export function createMockChatProvider(): ChatProvider {
+  const reply = (request: AIChatRequest): ChatResult => {
+    const model = `mock-${request.model}`;
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role === "tool") {
+      return { text: `Mock tool result: ${last.content}`, model };
+    }
+
+    const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+    const call = lastUser?.content.match(/^call (\S+)\s*(.*)$/s);
+    if (call && request.tools?.some((tool) => tool.name === call[1])) {
+      return { text: "", toolCalls: [{ id: `call-${request.messages.length}`, name: call[1], arguments: call[2] || "{}" }], model };
+    }
+    return { text: `Mock reply to: ${lastUser?.content ?? ""}`, model };
+  };
+
+  return {
+    name: "mock",
+    async chat(request) {
+      return reply(request);
+    },
+    async stream(request) {
+      const { text, toolCalls = [], model } = reply(request);
+      // One delta per word, keeping the separating whitespace
+      const words = text.match(/\S+\s*/g) ?? [];
+      return {
+        model,
+        parts: (async function* () {
+          for (const word of words) yield { type: "delta" as const, text: word };
+          for (const call of toolCalls) yield { type: "tool_call" as const, call };
+        })(),
+      };
+    },
+  };
+}
+
+export function createMockSpeechProvider(): SpeechProvider {
+  return {
+    name: "mock",
+    async synthesize(request) {
+      // An "ID3" tag header followed by the text, enough for clients to treat it as audio
+      return {
+        audio: new TextEncoder().encode(`ID3${request.text}`),
+        contentType: "audio/mpeg",
+      };
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import type { AIChatMessage, AIChatRequest, AIToolCall } from "@shared/api";
+import { ChatProvider, ChatStreamPart, ProviderError } from "./providers";
+
+export interface OpenRouterOptions {
+  apiKey: string;
+  chatModel?: string;
+  codeModel?: string;
+  referer?: string;
+}
+
+const DEFAULT_CHAT_MODEL = "google/gemma-3-12b-it:free";
+const DEFAULT_CODE_MODEL = "qwen/qwen3-coder:free";
+
+export function createOpenRouterProvider(options: OpenRouterOptions): ChatProvider {
+  const models = {
+    chat: options.chatModel || DEFAULT_CHAT_MODEL,
+    code: options.codeModel || DEFAULT_CODE_MODEL,
+  };
+
+  const complete = async (request: AIChatRequest, stream: boolean, signal?: AbortSignal) => {
+    const model = models[request.model];
+    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+      method: "POST",
+      signal,
+      headers: {
+        Authorization: `Bearer ${options.apiKey}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": options.referer || "http://localhost",
+        "X-Title": "Nyx OS",
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages.map(toOpenAIMessage),
+        ...(request.tools?.length
+          ? { tools: request.tools.map((tool) => ({ type: "function", function: tool })) }
+          : {}),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 600,
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      console.warn("OpenRouter error:", response.status, detail.slice(0, 500));
+      throw new ProviderError(
+        response.status === 429 ? "The AI provider is rate limiting requests" : "The AI provider returned an error",
+        response.status === 429 ? 429 : 502,
+      );
+    }
+    return { model, response };
+  };
+
+  return {
+    name: "openrouter",
+    async chat(request, signal) {
+      const { model, response } = await complete(request, false, signal);
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      const toolCalls = fromOpenAIToolCalls(message?.tool_calls);
+      if (typeof message?.content !== "string" && toolCalls.length === 0) {
+        throw new ProviderError("The AI provider returned an empty response");
+      }
+      return { text: message.content ?? "", toolCalls, model };
+    },
+    async stream(request, signal) {
+      const { model, response } = await complete(request, true, signal);
+      if (!response.body) throw new ProviderError("The AI provider returned an empty response");
+      return { model, parts: readCompletionParts(response.body) };
+    },
+  };
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      yield* lines;
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// OpenRouter streams OpenAI-style server-sent events: `data: {json}` lines,
+// `: comment` keep-alives and a final `data: [DONE]`. Tool calls arrive in
+// fragments keyed by index and are emitted once the stream completes.
+async function* readCompletionParts(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamPart> {
+  const calls: { id?: string; name?: string; arguments: string }[] = [];
+  for await (const line of readLines(body)) {
+    if (!line.startsWith("data:")) continue;
+    const data = line.slice(5).trim();
+    if (data === "[DONE]") break;
+    let event;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    if (event.error) throw new ProviderError(event.error.message || "The AI provider returned an error");
+    const delta = event.choices?.[0]?.delta;
+    if (typeof delta?.content === "string" && delta.content) yield { type: "delta", text: delta.content };
+    for (const fragment of delta?.tool_calls ?? []) {
+      const call = (calls[fragment.index ?? 0] ??= { arguments: "" });
+      call.id ??= fragment.id;
+      call.name ??= fragment.function?.name;
+      call.arguments += fragment.function?.arguments ?? "";
+    }
+  }
+  for (const [index, call] of calls.entries()) {
+    if (call?.name) yield { type: "tool_call", call: { id: call.id || `call-${index}`, name: call.name, arguments: call.arguments || "{}" } };
+  }
+}
+
+const toOpenAIMessage = (message: AIChatMessage) => {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+const fromOpenAIToolCalls = (calls: unknown): AIToolCall[] =>
+  Array.isArray(calls)
+    ? calls
+        .filter((call) => typeof call?.function?.name === "string")
+        .map((call, index) => ({
+          id: String(call.id ?? `call-${index}`),
+          name: call.function.name,
+          arguments: typeof call.function.arguments === "string" ? call.function.arguments : "{}",
+        }))
+    : [];
@@ -0,0 +1,49 @@
+import type { AIChatRequest, AIChatStreamEvent, AISpeechRequest, AIToolCall } from "@shared/api";
+
+export interface ChatResult {
+  text: string;
+  toolCalls?: AIToolCall[];
+  model: string;
+}
+
+/** Text deltas and completed tool calls, in the order the model produced them */
+export type ChatStreamPart = Extract<AIChatStreamEvent, { type: "delta" | "tool_call" }>;
+
+/** A reply being generated; resolves once the upstream accepted the request */
+export interface ChatStream {
+  model: string;
+  parts: AsyncIterable<ChatStreamPart>;
+}
+
+export interface ChatProvider {
+  name: string;
+  chat(request: AIChatRequest, signal?: AbortSignal): Promise<ChatResult>;
+  /** Optional token streaming; the proxy falls back to `chat` without it */
+  stream?(request: AIChatRequest, signal?: AbortSignal): Promise<ChatStream>;
+}
+
+export interface SpeechResult {
+  audio: Uint8Array;
+  contentType: string;
+}
+
+export interface SpeechProvider {
+  name: string;
+  synthesize(request: AISpeechRequest, signal?: AbortSignal): Promise<SpeechResult>;
+}
+
+export interface AIProviders {
+  chat?: ChatProvider;
+  speech?: SpeechProvider;
+}
+
+/** Upstream failure; `status` is what the proxy should answer with */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
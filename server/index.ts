@@ -2,13 +2,20 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import { createAIRouter, AIRouterOptions } from "./routes/ai";
+import { AIProviders, createProvidersFromEnv } from "./ai";
 
-export function createServer() {
+export interface ServerOptions {
+  aiProviders?: AIProviders;
+  aiRouter?: AIRouterOptions;
+}
+
+export function createServer(options: ServerOptions = {}) {
   const app = express();
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  app.use(express.json({ limit: "1mb" }));
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -19,5 +26,8 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // AI proxy: provider keys are read here and never sent to the browser
+  app.use("/api/ai", createAIRouter(options.aiProviders ?? createProvidersFromEnv(), options.aiRouter));
+
   return app;
 }
@@ -0,0 +1,45 @@
+import { RequestHandler } from "express";
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  /** Defaults to the client IP */
+  key?: (req: Parameters<RequestHandler>[0]) => string;
+  now?: () => number;
+}
+
+/**
+ * Fixed-window, in-memory rate limiter. Good enough for a single server
+ * process; answers 429 with Retry-After once a client exceeds `max` requests.
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const now = options.now ?? Date.now;
+  const keyFor = options.key ?? ((req) => req.ip || req.socket.remoteAddress || "unknown");
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req, res, next) => {
+    const time = now();
+    const key = keyFor(req);
+    let window = windows.get(key);
+    if (!window || window.resetAt <= time) {
+      // Drop expired windows as we go so the map doesn't grow without bound
+      windows.forEach((value, k) => value.resetAt <= time && windows.delete(k));
+      window = { count: 0, resetAt: time + options.windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    const remaining = Math.max(0, options.max - window.count);
+    const resetSeconds = Math.ceil((window.resetAt - time) / 1000);
+    res.setHeader("RateLimit-Limit", String(options.max));
+    res.setHeader("RateLimit-Remaining", String(remaining));
+    res.setHeader("RateLimit-Reset", String(resetSeconds));
+
+    if (window.count > options.max) {
+      res.setHeader("Retry-After", String(resetSeconds));
+      res.status(429).json({ error: "Too many requests, slow down a little" });
+      return;
+    }
+    next();
+  };
+}
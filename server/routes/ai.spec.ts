@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { createServer } from "../index";
+import { createMockChatProvider, createMockSpeechProvider, ChatProvider, ProviderError } from "../ai";
+
+const listen = (app: ReturnType<typeof createServer>) =>
+  new Promise<{ server: Server; url: string }>((resolve) => {
+    const server = app.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+  });
+
+const post = (url: string, body: unknown) =>
+  fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+describe("AI proxy routes", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    ({ server, url } = await listen(
+      createServer({
+        aiProviders: { chat: createMockChatProvider(), speech: createMockSpeechProvider() },
+        aiRouter: { rateLimit: { windowMs: 60_000, max: 5 } },
+      }),
+    ));
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("answers chat requests through the provider", async () => {
+    const response = await post(`${url}/api/ai/chat`, {
+      messages: [{ role: "user", content: "hello" }],
+      model: "code",
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: "Mock reply to: hello", model: "mock-code", provider: "mock" });
+  });
+
+  it("rejects requests that don't match the shared schema", async () => {
+    const response = await post(`${url}/api/ai/chat`, { messages: [{ role: "robot", content: 1 }] });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error).toBe("Invalid request");
+    expect(body.issues.map((issue: { path: string }) => issue.path)).toContain("messages.0.role");
+  });
+
+  it("streams chat replies as NDJSON events", async () => {
+    const response = await post(`${url}/api/ai/chat`, {
+      messages: [{ role: "user", content: "stream this" }],
+      stream: true,
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/x-ndjson");
+    const events = (await response.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(events).toEqual([
+      { type: "delta", text: "Mock " },
+      { type: "delta", text: "reply " },
+      { type: "delta", text: "to: " },
+      { type: "delta", text: "stream " },
+      { type: "delta", text: "this" },
+      { type: "done", provider: "mock", model: "mock-chat" },
+    ]);
+  });
+
+  it("returns synthesized audio", async () => {
+    const response = await post(`${url}/api/ai/speech`, { text: "hi there" });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("audio/mpeg");
+    expect(new TextDecoder().decode(await response.arrayBuffer())).toBe("ID3hi there");
+  });
+
+  it("rate limits each client", async () => {
+    // Four requests were made above; the limit is five per window
+    const statuses: number[] = [];
+    for (let i = 0; i < 2; i++) {
+      statuses.push((await post(`${url}/api/ai/speech`, { text: "again" })).status);
+    }
+    expect(statuses).toEqual([200, 429]);
+  });
+});
+
+describe("AI proxy without providers", () => {
+  it("reports 503 when nothing is configured and maps provider failures", async () => {
+    const failing: ChatProvider = {
+      name: "failing",
+      chat: async () => {
+        throw new ProviderError("upstream is down", 502);
+      },
+    };
+    const unconfigured = await listen(createServer({ aiProviders: {} }));
+    const broken = await listen(createServer({ aiProviders: { chat: failing } }));
+    try {
+      const chat = { messages: [{ role: "user", content: "hi" }] };
+      expect((await post(`${unconfigured.url}/api/ai/chat`, chat)).status).toBe(503);
+      expect((await post(`${unconfigured.url}/api/ai/speech`, { text: "hi" })).status).toBe(503);
+
+      const response = await post(`${broken.url}/api/ai/chat`, chat);
+      expect(response.status).toBe(502);
+      expect(await response.json()).toEqual({ error: "upstream is down" });
+      // Streams fail before any bytes are written, so they keep the status too
+      expect((await post(`${broken.url}/api/ai/chat`, { ...chat, stream: true })).status).toBe(502);
+    } finally {
+      await new Promise((resolve) => unconfigured.server.close(resolve));
+      await new Promise((resolve) => broken.server.close(resolve));
+    }
+  });
+});
+
+describe("AI proxy tool calling", () => {
+  it("relays tool calls and accepts tool results in the conversation", async () => {
+    const { server, url } = await listen(createServer({ aiProviders: { chat: createMockChatProvider() } }));
+    try {
+      const tools = [{ name: "create_alarm", description: "Set an alarm", parameters: { type: "object", properties: {} } }];
+      const user = { role: "user", content: 'call create_alarm {"time":"07:00"}' };
+
+      const streamed = await post(`${url}/api/ai/chat`, { messages: [user], tools, stream: true });
+      const events = (await streamed.text())
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      const call = { id: "call-1", name: "create_alarm", arguments: '{"time":"07:00"}' };
+      expect(events).toEqual([
+        { type: "tool_call", call },
+        { type: "done", provider: "mock", model: "mock-chat" },
+      ]);
+
+      const followUp = await post(`${url}/api/ai/chat`, {
+        messages: [user, { role: "assistant", content: "", toolCalls: [call] }, { role: "tool", toolCallId: "call-1", content: "Alarm set" }],
+        tools,
+      });
+      expect((await followUp.json()).text).toBe("Mock tool result: Alarm set");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import { Router, RequestHandler, Response } from "express";
+import { ZodError, ZodSchema } from "zod";
+import {
+  AIChatRequestSchema,
+  AIChatRequest,
+  AIChatResponse,
+  AIChatStreamEvent,
+  AIErrorResponse,
+  AISpeechRequestSchema,
+} from "../../shared/api"; // value import: vite.config.ts loads the server without path aliases
+import { AIProviders, ChatProvider, ChatResult, ChatStreamPart, ProviderError } from "../ai";
+import { rateLimit, RateLimitOptions } from "../middleware/rate-limit";
+
+export interface AIRouterOptions {
+  rateLimit?: Omit<RateLimitOptions, "key">;
+}
+
+const DEFAULT_RATE_LIMIT = { windowMs: 60_000, max: 30 };
+
+const sendError = (res: Response, status: number, body: AIErrorResponse) => res.status(status).json(body);
+
+const validationIssues = (error: ZodError) =>
+  error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+
+// Parses the body against a shared schema, answering 400 when it doesn't match
+const parseBody = <T>(schema: ZodSchema<T>, body: unknown, res: Response): T | null => {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    sendError(res, 400, { error: "Invalid request", issues: validationIssues(result.error) });
+    return null;
+  }
+  return result.data;
+};
+
+const handleProviderError = (res: Response, error: unknown) => {
+  if (res.headersSent) return;
+  if (error instanceof ProviderError) {
+    sendError(res, error.status, { error: error.message });
+  } else {
+    console.error("AI proxy error:", error);
+    sendError(res, 502, { error: "The AI provider could not be reached" });
+  }
+};
+
+// Aborts the upstream request when the browser goes away
+const abortOnClose = (res: Response) => {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+// A whole reply replayed as stream parts, for providers that can't stream
+const resultParts = (result: ChatResult): ChatStreamPart[] => [
+  ...(result.text ? [{ type: "delta" as const, text: result.text }] : []),
+  ...(result.toolCalls ?? []).map((call) => ({ type: "tool_call" as const, call })),
+];
+
+const writeEvent = (res: Response, event: AIChatStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+// Streams the reply as NDJSON. Nothing is written until the provider produces
+// its first delta, so upstream failures still get a proper status code.
+const streamChat = async (res: Response, provider: ChatProvider, request: AIChatRequest, signal: AbortSignal) => {
+  const { model, parts } = provider.stream
+    ? await provider.stream(request, signal)
+    : await provider.chat(request, signal).then((result) => ({ model: result.model, parts: resultParts(result) }));
+
+  const iterator = (async function* () {
+    yield* parts;
+  })();
+  const first = await iterator.next();
+
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  try {
+    if (first.done !== true) writeEvent(res, first.value);
+    for await (const part of iterator) {
+      if (signal.aborted) return;
+      writeEvent(res, part);
+    }
+    writeEvent(res, { type: "done", provider: provider.name, model });
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error("AI stream error:", error);
+    writeEvent(res, {
+      type: "error",
+      error: error instanceof ProviderError ? error.message : "The AI provider stopped responding",
+    });
+  } finally {
+    res.end();
+  }
+};
+
+export function createAIRouter(providers: AIProviders, options: AIRouterOptions = {}): Router {
+  const router = Router();
+  router.use(rateLimit(options.rateLimit ?? DEFAULT_RATE_LIMIT));
+
+  const handleChat: RequestHandler = async (req, res) => {
+    const request = parseBody(AIChatRequestSchema, req.body, res);
+    if (!request) return;
+    if (!providers.chat) {
+      sendError(res, 503, { error: "No AI provider is configured on the server" });
+      return;
+    }
+
+    try {
+      const signal = abortOnClose(res);
+      if (request.stream) {
+        await streamChat(res, providers.chat, request, signal);
+        return;
+      }
+      const result = await providers.chat.chat(request, signal);
+      const response: AIChatResponse = {
+        text: result.text,
+        ...(result.toolCalls?.length ? { toolCalls: result.toolCalls } : {}),
+        model: result.model,
+        provider: providers.chat.name,
+      };
+      res.json(response);
+    } catch (error) {
+      handleProviderError(res, error);
+    }
+  };
+
+  const handleSpeech: RequestHandler = async (req, res) => {
+    const request = parseBody(AISpeechRequestSchema, req.body, res);
+    if (!request) return;
+    if (!providers.speech) {
+      sendError(res, 503, { error: "No speech provider is configured on the server" });
+      return;
+    }
+
+    try {
+      const result = await providers.speech.synthesize(request, abortOnClose(res));
+      res.setHeader("Content-Type", result.contentType);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(Buffer.from(result.audio));
+    } catch (error) {
+      handleProviderError(res, error);
+    }
+  };
+
+  router.post("/chat", handleChat);
+  router.post("/speech", handleSpeech);
+
+  return router;
+}
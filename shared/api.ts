@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 /**
  * Shared code between client and server
  * Useful to share types between client and server
@@ -10,3 +12,83 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * AI proxy (/api/ai/*). The browser only ever talks to our server; provider
+ * keys stay in the server environment.
+ */
+export const AIToolCallSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
+  /** JSON-encoded arguments, exactly as the model produced them */
+  arguments: z.string().max(20000),
+});
+
+export type AIToolCall = z.infer<typeof AIToolCallSchema>;
+
+export const AIChatMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system", "tool"]),
+  content: z.string().max(20000),
+  /** Calls the assistant made in this turn */
+  toolCalls: z.array(AIToolCallSchema).max(16).optional(),
+  /** For role "tool": the call this message answers */
+  toolCallId: z.string().min(1).max(100).optional(),
+});
+
+export type AIChatMessage = z.infer<typeof AIChatMessageSchema>;
+
+/** Which model tier to use; the server maps tiers to provider models */
+export const AIModelTierSchema = z.enum(["chat", "code"]);
+
+export type AIModelTier = z.infer<typeof AIModelTierSchema>;
+
+/** A function the model may call; `parameters` is a JSON Schema object */
+export const AIToolSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
+  description: z.string().max(1000),
+  parameters: z.record(z.unknown()),
+});
+
+export type AITool = z.infer<typeof AIToolSchema>;
+
+export const AIChatRequestSchema = z.object({
+  messages: z.array(AIChatMessageSchema).min(1).max(50),
+  model: AIModelTierSchema.default("chat"),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(4000).optional(),
+  tools: z.array(AIToolSchema).max(32).optional(),
+  /** Stream the reply as newline-delimited AIChatStreamEvent JSON */
+  stream: z.boolean().optional(),
+});
+
+export type AIChatRequest = z.infer<typeof AIChatRequestSchema>;
+
+export interface AIChatResponse {
+  text: string;
+  toolCalls?: AIToolCall[];
+  provider: string;
+  model: string;
+}
+
+/** One line of a streamed /api/ai/chat response (application/x-ndjson) */
+export type AIChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool_call"; call: AIToolCall }
+  | { type: "done"; provider: string; model: string }
+  | { type: "error"; error: string };
+
+export const AISpeechRequestSchema = z.object({
+  text: z.string().min(1).max(5000),
+  voiceId: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{1,64}$/)
+    .optional(),
+});
+
+export type AISpeechRequest = z.infer<typeof AISpeechRequestSchema>;
+
+/** Error body returned by every /api/ai route */
+export interface AIErrorResponse {
+  error: string;
+  issues?: { path: string; message: string }[];
+}